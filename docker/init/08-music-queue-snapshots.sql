@@ -0,0 +1,25 @@
+-- Music queue snapshots
+-- Durable copy of each guild's queue so listening sessions survive full restarts,
+-- Redis flushes and Lavalink outages longer than the preserved-state TTL
+
+CREATE TABLE IF NOT EXISTS music_queue_snapshots (
+    guild_id VARCHAR(20) PRIMARY KEY,
+    voice_channel_id VARCHAR(20) NOT NULL,
+    text_channel_id VARCHAR(20),
+    requester_id VARCHAR(20),
+    current_track JSONB,
+    position_ms BIGINT NOT NULL DEFAULT 0,
+    tracks JSONB NOT NULL DEFAULT '[]',
+    loop_mode VARCHAR(10) NOT NULL DEFAULT 'off',
+    volume INTEGER NOT NULL DEFAULT 100,
+    paused BOOLEAN NOT NULL DEFAULT FALSE,
+    auto_play BOOLEAN NOT NULL DEFAULT FALSE,
+    filters JSONB,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_music_queue_snapshots_updated
+    ON music_queue_snapshots(updated_at DESC);
+
+-- current_track / tracks: SnapshotTrack objects (encoded track + display metadata + requester)
+-- requester_id: who gets asked to resume after a restart
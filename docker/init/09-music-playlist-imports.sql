@@ -0,0 +1,30 @@
+-- Playlist import jobs
+-- Progress of long playlist imports (e.g. 500-track Spotify playlists) so they can be
+-- followed live, report the tracks that could not be matched and resume after a restart
+
+CREATE TABLE IF NOT EXISTS music_playlist_imports (
+    id VARCHAR(36) PRIMARY KEY,
+    guild_id VARCHAR(20) NOT NULL,
+    user_id VARCHAR(20) NOT NULL,
+    user_name VARCHAR(100),
+    url TEXT NOT NULL,
+    source VARCHAR(20) NOT NULL DEFAULT 'other',
+    playlist_name VARCHAR(200) NOT NULL,
+    entries JSONB NOT NULL DEFAULT '[]',
+    next_index INTEGER NOT NULL DEFAULT 0,
+    added INTEGER NOT NULL DEFAULT 0,
+    failures JSONB NOT NULL DEFAULT '[]',
+    truncated INTEGER NOT NULL DEFAULT 0,
+    status VARCHAR(12) NOT NULL DEFAULT 'running',
+    text_channel_id VARCHAR(20),
+    message_id VARCHAR(20),
+    started_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_music_playlist_imports_guild_status
+    ON music_playlist_imports(guild_id, status);
+
+-- entries: PlaylistImportEntry objects in play order (after shuffle / start index)
+-- next_index: entries before it have been matched or reported in failures
+-- status: 'running' | 'completed' | 'cancelled' | 'failed'
@@ -0,0 +1,23 @@
+-- Guild listening stats
+-- user_music_history is personal history: one row per track, trimmed per user, so it
+-- cannot back /music stats. guild_music_plays keeps every play in a guild, with who
+-- requested it and who was in the voice channel when it started. It is not trimmed,
+-- so year and all-time stats stay complete.
+
+CREATE TABLE IF NOT EXISTS guild_music_plays (
+    id BIGSERIAL PRIMARY KEY,
+    guild_id VARCHAR(20) NOT NULL,
+    url TEXT NOT NULL,
+    title TEXT NOT NULL,
+    author TEXT,
+    duration INTEGER,
+    requested_by VARCHAR(20),
+    listener_ids VARCHAR(20)[] NOT NULL DEFAULT '{}',
+    played_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_guild_music_plays_guild_played
+    ON guild_music_plays(guild_id, played_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_guild_music_plays_listeners
+    ON guild_music_plays USING GIN (listener_ids);
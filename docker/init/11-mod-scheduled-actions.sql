@@ -0,0 +1,40 @@
+-- Scheduled moderation actions
+-- Timed punishments (temporary bans, timed roles, timed channel locks) are reversed
+-- by the moderation scheduler. Rows live in Postgres so they survive restarts, and
+-- each shard claims due rows for its own guilds with FOR UPDATE SKIP LOCKED, so every
+-- action runs once even with several shards polling.
+
+CREATE TABLE IF NOT EXISTS mod_scheduled_actions (
+    id SERIAL PRIMARY KEY,
+    guild_id VARCHAR(32) NOT NULL,
+    type VARCHAR(20) NOT NULL,                 -- unban, remove_role, unlock_channel
+    target_id VARCHAR(32) NOT NULL,            -- User ID (unban, remove_role) or channel ID (unlock_channel)
+    role_id VARCHAR(32),                       -- Role to take away (remove_role)
+    case_id INT,                               -- Case that caused the action (e.g. the ban)
+    reason TEXT,
+    created_by VARCHAR(32) NOT NULL,
+    run_at TIMESTAMP NOT NULL,
+    status VARCHAR(16) NOT NULL DEFAULT 'pending', -- pending, running, done, failed, cancelled
+    attempts INT NOT NULL DEFAULT 0,
+    last_error TEXT,
+    claimed_by VARCHAR(64),                    -- Shard that ran (or is running) the action
+    claimed_at TIMESTAMP,
+    completed_at TIMESTAMP,
+    result_case_id INT,                        -- Case logged for the reversal
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Due actions, oldest first
+CREATE INDEX IF NOT EXISTS idx_mod_scheduled_due
+    ON mod_scheduled_actions(run_at)
+    WHERE status = 'pending';
+
+-- Claimed actions whose shard may have died mid-run
+CREATE INDEX IF NOT EXISTS idx_mod_scheduled_running
+    ON mod_scheduled_actions(claimed_at)
+    WHERE status = 'running';
+
+-- One pending action per target: re-banning with a new duration replaces the old unban
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mod_scheduled_pending_target
+    ON mod_scheduled_actions(guild_id, type, target_id, (COALESCE(role_id, '')))
+    WHERE status = 'pending';
@@ -0,0 +1,31 @@
+-- Ban appeals
+-- Banned users appeal from the ban DM; the appeal is posted to the guild's appeal
+-- channel for staff to accept, deny or ask for more information. Every submission is
+-- kept, so a case has a full appeal history.
+
+CREATE TABLE IF NOT EXISTS mod_ban_appeals (
+    id SERIAL PRIMARY KEY,
+    guild_id VARCHAR(32) NOT NULL,
+    user_id VARCHAR(32) NOT NULL,
+    case_id INT NOT NULL,                      -- The ban case being appealed
+    statement TEXT NOT NULL,                   -- Why the user should be unbanned
+    status VARCHAR(16) NOT NULL DEFAULT 'pending', -- pending, info_requested, accepted, denied
+    info_request TEXT,                         -- Question staff asked the user
+    info_response TEXT,                        -- The user's answer
+    reviewer_id VARCHAR(32),
+    review_note TEXT,
+    result_case_id INT,                        -- Unban case logged when accepted
+    staff_channel_id VARCHAR(32),
+    staff_message_id VARCHAR(32),
+    created_at TIMESTAMP DEFAULT NOW(),
+    reviewed_at TIMESTAMP
+);
+
+-- Appeal history of a case, newest first
+CREATE INDEX IF NOT EXISTS idx_mod_ban_appeals_case
+    ON mod_ban_appeals(guild_id, case_id, created_at DESC);
+
+-- Only one open appeal per case
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mod_ban_appeals_open
+    ON mod_ban_appeals(guild_id, case_id)
+    WHERE status IN ('pending', 'info_requested');
@@ -0,0 +1,9 @@
+-- Audit event logging
+-- Flags for the member, channel, role and voice events sent to the mod log.
+-- log_role_changes and log_nickname_changes (03-moderation.sql) cover member
+-- role and nickname edits; these cover the rest.
+
+ALTER TABLE mod_log_settings ADD COLUMN IF NOT EXISTS log_timeouts BOOLEAN DEFAULT false;
+ALTER TABLE mod_log_settings ADD COLUMN IF NOT EXISTS log_channel_changes BOOLEAN DEFAULT false;
+ALTER TABLE mod_log_settings ADD COLUMN IF NOT EXISTS log_server_role_changes BOOLEAN DEFAULT false;
+ALTER TABLE mod_log_settings ADD COLUMN IF NOT EXISTS log_voice_activity BOOLEAN DEFAULT false;
@@ -0,0 +1,27 @@
+-- Moderator notes and username history
+-- Notes are private staff context about a member. They are not cases: they take no
+-- case number, never reach the mod log and don't count towards escalation.
+-- Past usernames are recorded whenever a member the bot can see changes their name.
+
+CREATE TABLE IF NOT EXISTS mod_notes (
+    id SERIAL PRIMARY KEY,
+    guild_id VARCHAR(32) NOT NULL,
+    user_id VARCHAR(32) NOT NULL,
+    author_id VARCHAR(32) NOT NULL,
+    content TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP,
+    updated_by VARCHAR(32)
+);
+
+CREATE INDEX IF NOT EXISTS idx_mod_notes_user ON mod_notes(guild_id, user_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS user_name_history (
+    id SERIAL PRIMARY KEY,
+    user_id VARCHAR(32) NOT NULL,
+    username VARCHAR(64) NOT NULL,
+    global_name VARCHAR(64),
+    changed_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_name_history_user ON user_name_history(user_id, changed_at DESC);
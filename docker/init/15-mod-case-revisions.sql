@@ -0,0 +1,21 @@
+-- Case revisions
+-- Every change to a case (reason edits, deactivation, void/restore) is kept as a
+-- revision so moderator mistakes and abuse can be traced. A voided case stays in
+-- the table but no longer counts towards warning totals or escalation.
+
+ALTER TABLE mod_infractions ADD COLUMN IF NOT EXISTS voided_at TIMESTAMP;
+ALTER TABLE mod_infractions ADD COLUMN IF NOT EXISTS voided_by VARCHAR(32);
+
+CREATE TABLE IF NOT EXISTS mod_case_revisions (
+    id SERIAL PRIMARY KEY,
+    guild_id VARCHAR(32) NOT NULL,
+    case_id INT NOT NULL,
+    editor_id VARCHAR(32) NOT NULL,
+    field VARCHAR(20) NOT NULL,                -- reason, active, voided
+    old_value TEXT,
+    new_value TEXT,
+    note TEXT,                                 -- Why the change was made
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mod_case_revisions_case ON mod_case_revisions(guild_id, case_id, created_at);
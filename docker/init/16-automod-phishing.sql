@@ -0,0 +1,11 @@
+-- Phishing and malicious-file detection
+-- phishing_domains holds the guild's own additions to the scam domain list in
+-- the automod config. Shortener expansion makes outbound requests, so it is off
+-- until a guild turns it on.
+
+ALTER TABLE automod_settings ADD COLUMN IF NOT EXISTS phishing_enabled BOOLEAN DEFAULT false;
+ALTER TABLE automod_settings ADD COLUMN IF NOT EXISTS phishing_action VARCHAR(20) DEFAULT 'delete_warn';
+ALTER TABLE automod_settings ADD COLUMN IF NOT EXISTS phishing_domains TEXT[] DEFAULT '{}';
+ALTER TABLE automod_settings ADD COLUMN IF NOT EXISTS phishing_lookalike BOOLEAN DEFAULT true;
+ALTER TABLE automod_settings ADD COLUMN IF NOT EXISTS phishing_expand_links BOOLEAN DEFAULT false;
+ALTER TABLE automod_settings ADD COLUMN IF NOT EXISTS phishing_block_files BOOLEAN DEFAULT true;
@@ -0,0 +1,6 @@
+-- Word filter normalisation
+-- Filters match against normalised text (Unicode folding, leetspeak, spaced-out
+-- letters) as well as the raw message. Turning normalize off limits a filter to
+-- the raw text, for patterns that would otherwise over-match.
+
+ALTER TABLE word_filters ADD COLUMN IF NOT EXISTS normalize BOOLEAN DEFAULT true;
@@ -47,6 +47,10 @@ import setupWizardService from '../services/guild/setupWizardService.js';
 import antiRaidService from '../services/moderation/antiRaidService.js';
 import lockdownService from '../services/moderation/lockdownService.js';
 import snipeService from '../services/moderation/snipeService.js';
+import moderationScheduler from '../services/moderation/moderationScheduler.js';
+import banAppealService from '../services/moderation/banAppealService.js';
+import modNoteService from '../services/moderation/modNoteService.js';
+import userDossierService from '../services/moderation/userDossierService.js';
 
 import battleService from '../services/fun/deathbattle/battleService.js';
 import sayService from '../services/fun/say/sayService.js';
@@ -108,6 +112,10 @@ export function registerServices(): void {
     container.instance('antiRaidService', antiRaidService);
     container.instance('lockdownService', lockdownService);
     container.instance('snipeService', snipeService);
+    container.instance('moderationScheduler', moderationScheduler);
+    container.instance('banAppealService', banAppealService);
+    container.instance('modNoteService', modNoteService);
+    container.instance('userDossierService', userDossierService);
 
     container.instance('battleService', battleService);
     container.instance('sayService', sayService);
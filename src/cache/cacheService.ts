@@ -31,9 +31,12 @@ export const DEFAULT_NAMESPACES: Record<string, NamespaceConfig> = {
     'api:anime': { ttl: 600, maxSize: 400, useRedis: true },     // AniList + MAL + stale fallback - 10min
     'api:search': { ttl: 300, maxSize: 200, useRedis: true },    // Wikipedia search - 5min
     'api:translate': { ttl: 1800, maxSize: 100, useRedis: true }, // Pixiv translations - 30min
+    'api:lyrics': { ttl: 3600, maxSize: 300, useRedis: true },   // Lyrics lookups - 1h
+    'api:spotify': { ttl: 21600, maxSize: 300, useRedis: true }, // Spotify related artists - 6h
     'music': { ttl: 3600, maxSize: 200, useRedis: true },      // Music queues - 1h
     'video': { ttl: 300, maxSize: 5000, useRedis: true },      // Video download state - 5min
     'automod': { ttl: 60, maxSize: 5000, useRedis: true },     // AutoMod tracking - 1min
+    'automod:links': { ttl: 3600, maxSize: 2000, useRedis: true }, // Expanded short links - 1h
     'ratelimit': { ttl: 60, maxSize: 10000, useRedis: true },  // Rate limits - 1min
     'snipe': { ttl: 43200, maxSize: 500, useRedis: true },     // Snipe messages - 12h
     'lockdown': { ttl: 86400, maxSize: 200, useRedis: true },  // Lockdown state - 24h
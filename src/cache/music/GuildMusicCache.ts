@@ -15,6 +15,7 @@ import type {
     CachedPlaylist,
     GuildMusicCacheStats
 } from '../../types/cache/music/guild-music-cache.js';
+import type { FilterState } from '../../types/music/filters.js';
 // GuildMusicCache Class
 class GuildMusicCache {
     // Guild settings
@@ -25,6 +26,8 @@ class GuildMusicCache {
     private djLockState: Map<string, DJLockState>;
     // Playlist cache
     private playlistCache: Map<string, CachedPlaylist>;
+    // Active audio filters
+    private filterState: Map<string, FilterState>;
     
     // Limits
     private readonly MAX_GUILDS: number;
@@ -39,6 +42,7 @@ class GuildMusicCache {
         this.recentlyPlayed = new Map();
         this.djLockState = new Map();
         this.playlistCache = new Map();
+        this.filterState = new Map();
         
         this.MAX_GUILDS = CACHE_LIMITS.MAX_GUILDS;
         this.RECENTLY_PLAYED_MAX = CACHE_LIMITS.MAX_RECENTLY_PLAYED;
@@ -55,7 +59,6 @@ class GuildMusicCache {
             autoPlay: false,
             announceNowPlaying: true,
             twentyFourSeven: false,
-            djRole: null,
             textChannelLock: null,
             maxQueueSize: 500,
             voteSkipEnabled: true,
@@ -135,6 +138,16 @@ class GuildMusicCache {
         return recent.tracks;
     }
 
+    /**
+     * Remove a track from recently played, so stepping back doesn't land on it again
+     */
+    removeFromRecentlyPlayed(guildId: string, url: string): void {
+        const recent = this.recentlyPlayed.get(guildId);
+        if (recent) {
+            recent.tracks = recent.tracks.filter(r => r.url !== url);
+        }
+    }
+
     /**
      * Get recently played
      */
@@ -179,6 +192,26 @@ class GuildMusicCache {
     clearDJLock(guildId: string): void {
         this.djLockState.delete(guildId);
     }
+    /**
+     * Set active audio filters
+     */
+    setFilters(guildId: string, state: FilterState): void {
+        this.filterState.set(guildId, state);
+    }
+
+    /**
+     * Get active audio filters
+     */
+    getFilters(guildId: string): FilterState | null {
+        return this.filterState.get(guildId) || null;
+    }
+
+    /**
+     * Clear active audio filters
+     */
+    clearFilters(guildId: string): void {
+        this.filterState.delete(guildId);
+    }
     /**
      * Cache playlist
      */
@@ -276,6 +309,7 @@ class GuildMusicCache {
         this.guildSettings.delete(guildId);
         this.recentlyPlayed.delete(guildId);
         this.djLockState.delete(guildId);
+        this.filterState.delete(guildId);
     }
 
     /**
@@ -286,6 +320,7 @@ class GuildMusicCache {
             guildSettings: this.guildSettings.size,
             recentlyPlayed: this.recentlyPlayed.size,
             djLocks: this.djLockState.size,
+            filters: this.filterState.size,
             playlistCache: this.playlistCache.size,
             maxGuilds: this.MAX_GUILDS,
         };
@@ -301,6 +336,7 @@ class GuildMusicCache {
         this.guildSettings.clear();
         this.recentlyPlayed.clear();
         this.djLockState.clear();
+        this.filterState.clear();
         this.playlistCache.clear();
     }
 }
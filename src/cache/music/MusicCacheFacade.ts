@@ -5,7 +5,7 @@
  * NEW STRUCTURE:
  * - QueueCache: Guild queue management
  * - UserMusicCache: User preferences, favorites, history
- * - VoteCache: Skip/priority voting
+ * - VoteCache: Skip/priority/action voting
  * - GuildMusicCache: Guild settings, recently played, DJ lock
  * 
  * @module modules/music/repository/MusicCacheFacade
@@ -13,11 +13,13 @@
 
 import queueCache, { MusicTrack, MusicQueue } from './QueueCache.js';
 import userMusicCache, { UserPreferences, FavoriteTrack, HistoryTrack, AddFavoriteResult } from './UserMusicCache.js';
-import voteCache, { VoteResult, AddVoteResult, VoteSkipStatus } from './VoteCache.js';
+import voteCache, { VoteResult, AddVoteResult, VoteSkipStatus, ActionVoteSession } from './VoteCache.js';
 import guildMusicCache, { GuildMusicSettings, RecentlyPlayedTrack, DJLockState, CachedPlaylist } from './GuildMusicCache.js';
 import type { MessageRef } from './QueueCache.js';
 import logger from '../../core/observability/Logger.js';
 import type { MusicCacheStats } from '../../types/cache/music/music-cache-facade.js';
+import type { FilterState } from '../../types/music/filters.js';
+import type { VoteAction, ActionVoteTarget } from '../../types/music/vote.js';
 
 // Re-export types for convenience
 export { type MusicTrack, type MusicQueue, type UserPreferences, type FavoriteTrack, type HistoryTrack, type GuildMusicSettings, type RecentlyPlayedTrack, type DJLockState, type VoteResult, type AddVoteResult, type VoteSkipStatus };
@@ -148,8 +150,8 @@ class MusicCacheFacade {
     clearNowPlayingMessage(guildId: string): void {
         queueCache.clearNowPlayingMessage(guildId);
     }
-    startSkipVote(guildId: string, userId: string, listenerCount: number): VoteResult {
-        return voteCache.startSkipVote(guildId, userId, listenerCount);
+    startSkipVote(guildId: string, userId: string, listenerCount: number, required?: number): VoteResult {
+        return voteCache.startSkipVote(guildId, userId, listenerCount, required);
     }
 
     addSkipVote(guildId: string, userId: string): AddVoteResult | null {
@@ -192,6 +194,34 @@ class MusicCacheFacade {
         const session = voteCache.getSkipVoteSession(guildId);
         return session?.listenerCount ?? null;
     }
+
+    startActionVote(guildId: string, action: VoteAction, userId: string, listenerCount: number, required: number, timeoutMs: number, target: ActionVoteTarget | null = null): VoteResult {
+        return voteCache.startActionVote(guildId, action, userId, listenerCount, required, timeoutMs, target);
+    }
+
+    addActionVote(guildId: string, action: VoteAction, userId: string): AddVoteResult | null {
+        return voteCache.addActionVote(guildId, action, userId);
+    }
+
+    endActionVote(guildId: string, action: VoteAction): number {
+        return voteCache.endActionVote(guildId, action);
+    }
+
+    getActionVote(guildId: string, action: VoteAction): ActionVoteSession | null {
+        return voteCache.getActionVoteSession(guildId, action) ?? null;
+    }
+
+    hasEnoughActionVotes(guildId: string, action: VoteAction): boolean {
+        return voteCache.hasEnoughActionVotes(guildId, action);
+    }
+
+    setActionVoteTimeout(guildId: string, action: VoteAction, timeout: NodeJS.Timeout): void {
+        voteCache.setActionVoteTimeout(guildId, action, timeout);
+    }
+
+    setActionVoteMessage(guildId: string, action: VoteAction, message: { id: string; channelId: string } | MessageRef): void {
+        voteCache.setActionVoteMessage(guildId, action, message);
+    }
     getDefaultPreferences(): UserPreferences {
         return userMusicCache.getDefaultPreferences();
     }
@@ -240,6 +270,10 @@ class MusicCacheFacade {
     getRecentlyPlayed(guildId: string, limit: number = 10): RecentlyPlayedTrack[] {
         return guildMusicCache.getRecentlyPlayed(guildId, limit);
     }
+
+    removeFromRecentlyPlayed(guildId: string, url: string): void {
+        guildMusicCache.removeFromRecentlyPlayed(guildId, url);
+    }
     setDJLock(guildId: string, enabled: boolean, djUserId: string | null = null): void {
         guildMusicCache.setDJLock(guildId, enabled, djUserId);
     }
@@ -251,6 +285,17 @@ class MusicCacheFacade {
     isDJ(guildId: string, userId: string): boolean {
         return guildMusicCache.isDJ(guildId, userId);
     }
+    setFilters(guildId: string, state: FilterState): void {
+        guildMusicCache.setFilters(guildId, state);
+    }
+
+    getFilters(guildId: string): FilterState | null {
+        return guildMusicCache.getFilters(guildId);
+    }
+
+    clearFilters(guildId: string): void {
+        guildMusicCache.clearFilters(guildId);
+    }
     cachePlaylist(playlistUrl: string, playlistData: any): void {
         guildMusicCache.cachePlaylist(playlistUrl, playlistData);
     }
@@ -74,6 +74,10 @@ class QueueCache {
             autoPlay: false,
             lastPlayedTracks: [],
             
+            // Stop-after timer
+            sleepTimer: null,
+            sleepTimerTimeout: null,
+            
             // Metadata
             createdAt: Date.now(),
             updatedAt: Date.now(),
@@ -116,6 +120,7 @@ class QueueCache {
             // Clear all timers
             if (queue.inactivityTimer) clearTimeout(queue.inactivityTimer);
             if (queue.vcMonitorInterval) clearInterval(queue.vcMonitorInterval);
+            if (queue.sleepTimerTimeout) clearTimeout(queue.sleepTimerTimeout);
             
             // Clear message references to avoid memory leaks
             queue.nowPlayingMessage = null;
@@ -1,6 +1,6 @@
 /**
  * Vote Cache
- * Manages skip votes and priority votes
+ * Manages skip votes, priority votes and votes on other music actions
  * @module modules/music/repository/VoteCache
  */
 
@@ -9,31 +9,37 @@ import { MusicTrack } from './QueueCache.js';
 import type {
     SkipVoteSession,
     PriorityVoteSession,
+    ActionVoteSession,
     AddVoteResult,
     PriorityVoteEndResult,
     VoteCacheStats,
     VoteResult,
     VoteSkipStatus
 } from '../../types/cache/music/vote-cache.js';
+import type { VoteAction, ActionVoteTarget } from '../../types/music/vote.js';
 // VoteCache Class
 class VoteCache {
     // Skip vote sessions
     private skipVoteSessions: Map<string, SkipVoteSession>;
     // Priority vote sessions
     private priorityVoteSessions: Map<string, PriorityVoteSession>;
+    // Action vote sessions, keyed by guildId:action
+    private actionVoteSessions: Map<string, ActionVoteSession>;
 
     constructor() {
         this.skipVoteSessions = new Map();
         this.priorityVoteSessions = new Map();
+        this.actionVoteSessions = new Map();
     }
     /**
      * Start skip vote
+     * @param required - Votes needed; defaults to the standard share of listeners
      */
-    startSkipVote(guildId: string, userId: string, listenerCount: number): VoteResult {
+    startSkipVote(guildId: string, userId: string, listenerCount: number, required: number = this.getRequiredVotes(listenerCount)): VoteResult {
         const session: SkipVoteSession = {
             votes: new Set([userId]),
             listenerCount,
-            required: this.getRequiredVotes(listenerCount),
+            required,
             startedAt: Date.now(),
             startedBy: userId,
             timeout: null,
@@ -220,6 +226,116 @@ class VoteCache {
     getPriorityVoteSession(guildId: string): PriorityVoteSession | undefined {
         return this.priorityVoteSessions.get(guildId);
     }
+    /**
+     * Start a vote on a music action, replacing any running vote on the same action
+     */
+    startActionVote(
+        guildId: string,
+        action: VoteAction,
+        userId: string,
+        listenerCount: number,
+        required: number,
+        timeoutMs: number,
+        target: ActionVoteTarget | null = null
+    ): VoteResult {
+        this.endActionVote(guildId, action);
+
+        const now = Date.now();
+        const session: ActionVoteSession = {
+            guildId,
+            action,
+            votes: new Set([userId]),
+            listenerCount,
+            required,
+            startedAt: now,
+            startedBy: userId,
+            expiresAt: now + timeoutMs,
+            target,
+            timeout: null,
+            message: null,
+        };
+
+        this.actionVoteSessions.set(this.actionKey(guildId, action), session);
+        return { voteCount: 1, required };
+    }
+
+    /**
+     * Add action vote
+     */
+    addActionVote(guildId: string, action: VoteAction, userId: string): AddVoteResult | null {
+        const session = this.actionVoteSessions.get(this.actionKey(guildId, action));
+        if (!session) return null;
+
+        if (session.votes.has(userId)) {
+            return { added: false, voteCount: session.votes.size, message: 'Already voted' };
+        }
+
+        session.votes.add(userId);
+
+        return {
+            added: true,
+            voteCount: session.votes.size,
+            required: session.required
+        };
+    }
+
+    /**
+     * End action vote
+     */
+    endActionVote(guildId: string, action: VoteAction): number {
+        const key = this.actionKey(guildId, action);
+        const session = this.actionVoteSessions.get(key);
+        if (!session) return 0;
+
+        if (session.timeout) {
+            clearTimeout(session.timeout);
+        }
+
+        this.actionVoteSessions.delete(key);
+        return session.votes.size;
+    }
+
+    /**
+     * Get action vote session
+     */
+    getActionVoteSession(guildId: string, action: VoteAction): ActionVoteSession | undefined {
+        return this.actionVoteSessions.get(this.actionKey(guildId, action));
+    }
+
+    /**
+     * Check if enough votes to run the action
+     */
+    hasEnoughActionVotes(guildId: string, action: VoteAction): boolean {
+        const session = this.actionVoteSessions.get(this.actionKey(guildId, action));
+        if (!session) return false;
+        return session.votes.size >= session.required;
+    }
+
+    /**
+     * Set action vote timeout
+     */
+    setActionVoteTimeout(guildId: string, action: VoteAction, timeout: NodeJS.Timeout): void {
+        const session = this.actionVoteSessions.get(this.actionKey(guildId, action));
+        if (session) {
+            session.timeout = timeout;
+        }
+    }
+
+    /**
+     * Set action vote message
+     */
+    setActionVoteMessage(guildId: string, action: VoteAction, message: { id: string; channelId: string } | MessageRef): void {
+        const session = this.actionVoteSessions.get(this.actionKey(guildId, action));
+        if (session) {
+            session.message = 'messageId' in message
+                ? message
+                : { messageId: message.id, channelId: message.channelId };
+        }
+    }
+
+    private actionKey(guildId: string, action: VoteAction): string {
+        return `${guildId}:${action}`;
+    }
     /**
      * Cleanup stale votes (older than 5 minutes)
      */
@@ -238,6 +354,12 @@ class VoteCache {
                 this.endPriorityVote(guildId);
             }
         }
+
+        for (const session of this.actionVoteSessions.values()) {
+            if (now - session.startedAt > staleThreshold) {
+                this.endActionVote(session.guildId, session.action);
+            }
+        }
     }
 
     /**
@@ -246,6 +368,11 @@ class VoteCache {
     cleanupGuild(guildId: string): void {
         this.endSkipVote(guildId);
         this.endPriorityVote(guildId);
+        for (const session of this.actionVoteSessions.values()) {
+            if (session.guildId === guildId) {
+                this.endActionVote(guildId, session.action);
+            }
+        }
     }
 
     /**
@@ -255,6 +382,7 @@ class VoteCache {
         return {
             activeSkipVotes: this.skipVoteSessions.size,
             activePriorityVotes: this.priorityVoteSessions.size,
+            activeActionVotes: this.actionVoteSessions.size,
         };
     }
 
@@ -268,11 +396,15 @@ class VoteCache {
         for (const guildId of this.priorityVoteSessions.keys()) {
             this.endPriorityVote(guildId);
         }
+        for (const session of this.actionVoteSessions.values()) {
+            if (session.timeout) clearTimeout(session.timeout);
+        }
+        this.actionVoteSessions.clear();
     }
 }
 
 export const voteCache = new VoteCache();
-export { type SkipVoteSession, type PriorityVoteSession, type AddVoteResult, type PriorityVoteEndResult, type VoteCacheStats, type VoteResult, type VoteSkipStatus };
+export { type SkipVoteSession, type PriorityVoteSession, type ActionVoteSession, type AddVoteResult, type PriorityVoteEndResult, type VoteCacheStats, type VoteResult, type VoteSkipStatus };
 export default voteCache;
 
 
@@ -0,0 +1,321 @@
+/**
+ * Appeal Command
+ * Ban appeal setup and review. Also handles the Appeal button in ban DMs and the
+ * Accept/Deny/Request Info buttons on appeals posted to the staff channel.
+ * @module commands/admin/appeal
+ */
+
+import {
+    SlashCommandBuilder,
+    EmbedBuilder,
+    ActionRowBuilder,
+    ModalBuilder,
+    TextInputBuilder,
+    TextInputStyle,
+    ChannelType,
+    PermissionFlagsBits,
+    ChatInputCommandInteraction,
+    ButtonInteraction,
+    ModalSubmitInteraction,
+    GuildMember
+} from 'discord.js';
+import { BaseCommand, CommandCategory, CommandData } from '../baseCommand.js';
+import { COLORS } from '../../constants.js';
+import logger from '../../core/observability/Logger.js';
+import { banAppealService } from '../../services/moderation/index.js';
+import InfractionRepository from '../../repositories/moderation/infractionRepository.js';
+import type { Infraction } from '../../types/moderation/infraction.js';
+
+const REVIEW_ACTIONS = ['accept', 'deny', 'info'] as const;
+type ReviewAction = typeof REVIEW_ACTIONS[number];
+
+const REVIEW_TITLES: Record<ReviewAction, string> = {
+    accept: 'Accept Appeal',
+    deny: 'Deny Appeal',
+    info: 'Request More Information'
+};
+
+class AppealCommand extends BaseCommand {
+    constructor() {
+        super({
+            category: CommandCategory.ADMIN,
+            cooldown: 3,
+            deferReply: true,
+            ephemeral: true,
+            userPermissions: [PermissionFlagsBits.BanMembers]
+        });
+    }
+
+    get data(): CommandData {
+        return new SlashCommandBuilder()
+            .setName('appeal')
+            .setDescription('Ban appeal settings and review')
+            .setDefaultMemberPermissions(PermissionFlagsBits.BanMembers)
+            .addSubcommand(sub =>
+                sub.setName('channel')
+                    .setDescription('Set the channel ban appeals are posted to (leave empty to turn appeals off)')
+                    .addChannelOption(opt =>
+                        opt.setName('channel')
+                            .setDescription('Staff channel for appeals')
+                            .addChannelTypes(ChannelType.GuildText)
+                            .setRequired(false)))
+            .addSubcommand(sub =>
+                sub.setName('history')
+                    .setDescription('Show every appeal made against a ban case')
+                    .addIntegerOption(opt =>
+                        opt.setName('case')
+                            .setDescription('Ban case ID')
+                            .setRequired(true)
+                            .setMinValue(1)))
+            .addSubcommand(sub =>
+                sub.setName('view')
+                    .setDescription('Show an appeal with its review buttons')
+                    .addIntegerOption(opt =>
+                        opt.setName('id')
+                            .setDescription('Appeal ID')
+                            .setRequired(true)
+                            .setMinValue(1)));
+    }
+
+    async run(interaction: ChatInputCommandInteraction): Promise<void> {
+        if (!interaction.guild) {
+            await this.errorReply(interaction, 'This command can only be used in a server.');
+            return;
+        }
+
+        switch (interaction.options.getSubcommand()) {
+            case 'channel':
+                return this._setChannel(interaction);
+            case 'history':
+                return this._showHistory(interaction);
+            case 'view':
+                return this._showAppeal(interaction);
+        }
+    }
+
+    // --- Slash subcommands ---
+
+    private async _setChannel(interaction: ChatInputCommandInteraction): Promise<void> {
+        const channel = interaction.options.getChannel('channel');
+        const saved = await banAppealService.setChannel(interaction.guildId!, channel?.id ?? null);
+
+        if (!saved) {
+            await this.errorReply(interaction, 'Failed to save the appeal channel.');
+            return;
+        }
+
+        await this.successReply(interaction, 'Appeal Channel Updated', channel
+            ? `Ban appeals will be posted to ${channel}. Ban DMs now include an **Appeal** button.`
+            : 'Ban appeals are turned off.');
+    }
+
+    private async _showHistory(interaction: ChatInputCommandInteraction): Promise<void> {
+        const caseId = interaction.options.getInteger('case', true);
+        const appeals = await banAppealService.getHistory(interaction.guildId!, caseId);
+
+        if (appeals.length === 0) {
+            await this.infoReply(interaction, `No appeals have been made against case #${caseId}.`);
+            return;
+        }
+
+        const lines = appeals.slice(0, 15).map(appeal => {
+            const submitted = `<t:${Math.floor(appeal.createdAt.getTime() / 1000)}:d>`;
+            const reviewer = appeal.reviewerId ? ` by <@${appeal.reviewerId}>` : '';
+            const result = appeal.resultCaseId ? ` → case #${appeal.resultCaseId}` : '';
+            return `**#${appeal.id}** · ${submitted} · ${appeal.status.replace('_', ' ')}${reviewer}${result}\n└ ${appeal.statement.slice(0, 100)}${appeal.statement.length > 100 ? '…' : ''}`;
+        });
+
+        const embed = new EmbedBuilder()
+            .setColor(COLORS.INFO)
+            .setTitle(`📨 Appeals for Case #${caseId}`)
+            .setDescription(lines.join('\n\n'))
+            .setFooter({ text: `${appeals.length} appeal(s) · /appeal view <id> to review` });
+
+        await this.safeReply(interaction, { embeds: [embed] });
+    }
+
+    private async _showAppeal(interaction: ChatInputCommandInteraction): Promise<void> {
+        const appealId = interaction.options.getInteger('id', true);
+        const appeal = await banAppealService.getAppeal(interaction.guildId!, appealId);
+
+        if (!appeal) {
+            await this.errorReply(interaction, `Appeal #${appealId} could not be found.`);
+            return;
+        }
+
+        const ban = await InfractionRepository.getByCaseId(appeal.guildId, appeal.caseId).catch(() => null) as Infraction | null;
+        const user = await interaction.client.users.fetch(appeal.userId).catch(() => null);
+
+        await this.safeReply(interaction, {
+            embeds: [banAppealService.buildStaffEmbed(appeal, ban, user)],
+            components: banAppealService.buildStaffButtons(appeal)
+        });
+    }
+
+    // --- Buttons ---
+
+    async handleButton(interaction: ButtonInteraction): Promise<void> {
+        const [, action, ...args] = interaction.customId.split('_');
+
+        switch (action) {
+            case 'open':
+                return this._openAppealForm(interaction, args[0]!, parseInt(args[1]!, 10));
+            case 'respond':
+                return this._openResponseForm(interaction, parseInt(args[0]!, 10));
+            case 'accept':
+            case 'deny':
+            case 'info':
+                return this._openReviewForm(interaction, action, parseInt(args[0]!, 10));
+        }
+    }
+
+    private async _openAppealForm(interaction: ButtonInteraction, guildId: string, caseId: number): Promise<void> {
+        const eligible = await banAppealService.checkEligibility(interaction.client, guildId, interaction.user.id, caseId);
+        if (eligible.isErr()) {
+            await interaction.reply({ content: `❌ ${eligible.error}`, ephemeral: true });
+            return;
+        }
+
+        const modal = new ModalBuilder()
+            .setCustomId(`appeal_submit_${guildId}_${caseId}`)
+            .setTitle(`Appeal Ban (Case #${caseId})`)
+            .addComponents(new ActionRowBuilder<TextInputBuilder>().addComponents(
+                new TextInputBuilder()
+                    .setCustomId('statement')
+                    .setLabel('Why should you be unbanned?')
+                    .setStyle(TextInputStyle.Paragraph)
+                    .setRequired(true)
+                    .setMinLength(20)
+                    .setMaxLength(1000)
+            ));
+
+        await interaction.showModal(modal);
+    }
+
+    private async _openResponseForm(interaction: ButtonInteraction, appealId: number): Promise<void> {
+        const modal = new ModalBuilder()
+            .setCustomId(`appeal_response_${appealId}`)
+            .setTitle(`Appeal #${appealId}`)
+            .addComponents(new ActionRowBuilder<TextInputBuilder>().addComponents(
+                new TextInputBuilder()
+                    .setCustomId('response')
+                    .setLabel('Your answer')
+                    .setStyle(TextInputStyle.Paragraph)
+                    .setRequired(true)
+                    .setMaxLength(1000)
+            ));
+
+        await interaction.showModal(modal);
+    }
+
+    private async _openReviewForm(interaction: ButtonInteraction, action: ReviewAction, appealId: number): Promise<void> {
+        if (!interaction.inGuild() || !interaction.memberPermissions?.has(PermissionFlagsBits.BanMembers)) {
+            await interaction.reply({ content: '❌ You need the Ban Members permission to review appeals.', ephemeral: true });
+            return;
+        }
+
+        const modal = new ModalBuilder()
+            .setCustomId(`appeal_review_${action}_${appealId}`)
+            .setTitle(REVIEW_TITLES[action])
+            .addComponents(new ActionRowBuilder<TextInputBuilder>().addComponents(
+                new TextInputBuilder()
+                    .setCustomId('note')
+                    .setLabel(action === 'info' ? 'Question for the user' : 'Note for the user (optional)')
+                    .setStyle(TextInputStyle.Paragraph)
+                    .setRequired(action === 'info')
+                    .setMaxLength(500)
+            ));
+
+        await interaction.showModal(modal);
+    }
+
+    // --- Modals ---
+
+    async handleModal(interaction: ModalSubmitInteraction): Promise<void> {
+        const [, kind, ...args] = interaction.customId.split('_');
+
+        try {
+            switch (kind) {
+                case 'submit':
+                    return await this._submitAppeal(interaction, args[0]!, parseInt(args[1]!, 10));
+                case 'response':
+                    return await this._submitResponse(interaction, parseInt(args[0]!, 10));
+                case 'review':
+                    if (!REVIEW_ACTIONS.includes(args[0] as ReviewAction)) return;
+                    return await this._submitReview(interaction, args[0] as ReviewAction, parseInt(args[1]!, 10));
+            }
+        } catch (error) {
+            logger.error('Appeal', `Modal error: ${(error as Error).message}`);
+            const reply = { content: '❌ Something went wrong handling the appeal.', ephemeral: true };
+            if (interaction.deferred || interaction.replied) {
+                await interaction.editReply(reply).catch(() => {});
+            } else {
+                await interaction.reply(reply).catch(() => {});
+            }
+        }
+    }
+
+    private async _submitAppeal(interaction: ModalSubmitInteraction, guildId: string, caseId: number): Promise<void> {
+        await interaction.deferReply({ ephemeral: true });
+
+        const statement = interaction.fields.getTextInputValue('statement').trim();
+        const result = await banAppealService.submit(interaction.client, guildId, interaction.user, caseId, statement);
+
+        if (result.isErr()) {
+            await interaction.editReply({ content: `❌ ${result.error}` });
+            return;
+        }
+
+        await interaction.editReply({
+            embeds: [new EmbedBuilder()
+                .setColor(COLORS.SUCCESS)
+                .setTitle('📨 Appeal Submitted')
+                .setDescription(`Your appeal (#${result.data!.id}) was sent to the staff team. You will get a message here once it has been reviewed.`)]
+        });
+    }
+
+    private async _submitResponse(interaction: ModalSubmitInteraction, appealId: number): Promise<void> {
+        await interaction.deferReply({ ephemeral: true });
+
+        const response = interaction.fields.getTextInputValue('response').trim();
+        const result = await banAppealService.respond(interaction.client, appealId, interaction.user, response);
+
+        await interaction.editReply({
+            content: result.isErr()
+                ? `❌ ${result.error}`
+                : '✅ Your answer was sent to the staff team.'
+        });
+    }
+
+    private async _submitReview(interaction: ModalSubmitInteraction, action: ReviewAction, appealId: number): Promise<void> {
+        if (!interaction.guild || !interaction.memberPermissions?.has(PermissionFlagsBits.BanMembers)) {
+            await interaction.reply({ content: '❌ You need the Ban Members permission to review appeals.', ephemeral: true });
+            return;
+        }
+
+        await interaction.deferReply({ ephemeral: true });
+
+        const note = interaction.fields.getTextInputValue('note').trim() || null;
+        const moderator = interaction.member as GuildMember;
+        const result = action === 'accept'
+            ? await banAppealService.accept(interaction.guild, appealId, moderator, note)
+            : action === 'deny'
+                ? await banAppealService.deny(interaction.guild, appealId, moderator, note)
+                : await banAppealService.requestInfo(interaction.guild, appealId, moderator, note!);
+
+        if (result.isErr()) {
+            await interaction.editReply({ content: `❌ ${result.error}` });
+            return;
+        }
+
+        const appeal = result.data!;
+        const messages: Record<ReviewAction, string> = {
+            accept: `✅ Appeal #${appeal.id} accepted. <@${appeal.userId}> has been unbanned${appeal.resultCaseId ? ` (case #${appeal.resultCaseId})` : ''}.`,
+            deny: `❌ Appeal #${appeal.id} denied.`,
+            info: `❓ Asked <@${appeal.userId}> for more information on appeal #${appeal.id}.`
+        };
+        await interaction.editReply({ content: messages[action] });
+    }
+}
+
+export default new AppealCommand();
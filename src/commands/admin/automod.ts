@@ -18,11 +18,11 @@ import {
 } from 'discord.js';
 import { BaseCommand, CommandCategory, CommandData } from '../baseCommand.js';
 import logger from '../../core/observability/Logger.js';
-import { autoModService as _autoModService } from '../../services/moderation/index.js';
+import { autoModService as _autoModService, filterService } from '../../services/moderation/index.js';
 import _moderationConfigModule from '../../config/features/moderation/index.js';
 import type { AutoModService } from '../../types/moderation/handlers.js';
 import type { ModerationConfig } from '../../config/features/moderation/index.js';
-import { showMainPanel, showToggleSection, showFilterSection, showConfigSection, showActionsSection, showExemptSection, showEscalationConfig } from '../../handlers/moderation/automod/autoModPanels.js';
+import { showMainPanel, showToggleSection, showFilterSection, showConfigSection, showActionsSection, showExemptSection, showEscalationConfig, showPhishingSection, showFilterTestResult } from '../../handlers/moderation/automod/autoModPanels.js';
 import {
     handleFilterAction,
     handleFilterActionDeferred,
@@ -32,6 +32,7 @@ import {
     handleActionSelect,
     handleActionValue,
     handleWhitelistLinks,
+    handlePhishingDomains,
     handleEscalationSelect,
     handleEscalationActionSelect,
     handleEscalationActionValue
@@ -66,6 +67,16 @@ class AutoModCommand extends BaseCommand {
             .addSubcommand(sub => sub
                 .setName('settings')
                 .setDescription('Open interactive auto-moderation settings panel')
+            )
+            .addSubcommand(sub => sub
+                .setName('test')
+                .setDescription('Check which word filters a piece of text would trigger')
+                .addStringOption(opt => opt
+                    .setName('text')
+                    .setDescription('Text to run through the word filter')
+                    .setRequired(true)
+                    .setMaxLength(1000)
+                )
             );
     }
 
@@ -75,6 +86,14 @@ class AutoModCommand extends BaseCommand {
             return;
         }
 
+        if (interaction.options.getSubcommand() === 'test') {
+            const text = interaction.options.getString('text', true);
+            const settings = await AutoModServiceInstance.getSettings(interaction.guildId!);
+            const result = await filterService.testText(interaction.guildId!, text, settings.filtered_words || []);
+            await showFilterTestResult(interaction, text, result, settings.filter_enabled === true, moderationConfig);
+            return;
+        }
+
         await showMainPanel(interaction, AutoModServiceInstance, moderationConfig);
         const response = await interaction.fetchReply() as Message;
         this._setupCollector(response, interaction);
@@ -114,9 +133,10 @@ class AutoModCommand extends BaseCommand {
 
         // Check if this needs a modal (cannot defer before showModal)
         const needsModal = 
-            (customId === 'automod_filter_action' && ['add', 'remove'].includes((i as StringSelectMenuInteraction).values?.[0])) ||
+            (customId === 'automod_filter_action' && ['add', 'add_exact', 'remove'].includes((i as StringSelectMenuInteraction).values?.[0])) ||
             customId === 'automod_config_select' ||
             customId === 'automod_whitelist_links' ||
+            customId === 'automod_phishing_domains' ||
             (customId === 'automod_escalation_select' && !['warn_action'].includes((i as StringSelectMenuInteraction).values?.[0]));
 
         if (needsModal) {
@@ -132,6 +152,9 @@ class AutoModCommand extends BaseCommand {
             if (customId === 'automod_whitelist_links') {
                 return handleWhitelistLinks(i as ButtonInteraction, originalInteraction, AutoModServiceInstance, moderationConfig);
             }
+            if (customId === 'automod_phishing_domains') {
+                return handlePhishingDomains(i as ButtonInteraction, originalInteraction, AutoModServiceInstance, moderationConfig);
+            }
         }
 
         // Defer all other interactions
@@ -162,6 +185,9 @@ class AutoModCommand extends BaseCommand {
         if (customId === 'automod_exempt_section') {
             return showExemptSection(originalInteraction, AutoModServiceInstance, moderationConfig);
         }
+        if (customId === 'automod_phishing_section') {
+            return showPhishingSection(originalInteraction, AutoModServiceInstance, moderationConfig);
+        }
 
         // Toggle Section Actions
         if (customId === 'automod_master_toggle') {
@@ -191,6 +217,25 @@ class AutoModCommand extends BaseCommand {
             return handleFilterActionDeferred(originalInteraction, (i as StringSelectMenuInteraction).values[0], AutoModServiceInstance, moderationConfig);
         }
 
+        // Phishing Section
+        if (customId === 'automod_phishing_toggle') {
+            const settings = await AutoModServiceInstance!.getSettings(guildId);
+            await AutoModServiceInstance!.updateSettings(guildId, { phishing_enabled: !settings.phishing_enabled });
+            logger?.info('AutoMod', `${i.user.tag} ${settings.phishing_enabled ? 'disabled' : 'enabled'} phishing filter in ${originalInteraction.guild!.name}`);
+            return showPhishingSection(originalInteraction, AutoModServiceInstance, moderationConfig);
+        }
+
+        if (customId === 'automod_phishing_option') {
+            const option = (i as StringSelectMenuInteraction).values[0];
+            const settings = await AutoModServiceInstance!.getSettings(guildId);
+            // Lookalike and file checks are on unless turned off, link expansion is off unless turned on
+            const current = option === 'phishing_expand_links'
+                ? settings.phishing_expand_links === true
+                : settings[option as keyof typeof settings] !== false;
+            await AutoModServiceInstance!.updateSettings(guildId, { [option]: !current });
+            return showPhishingSection(originalInteraction, AutoModServiceInstance, moderationConfig);
+        }
+
         // Actions Section
         if (customId === 'automod_warn_toggle') {
             const settings = await AutoModServiceInstance!.getSettings(guildId);
@@ -11,12 +11,14 @@ import {
     ChatInputCommandInteraction,
     User,
     GuildMember,
-    GuildBan
+    GuildBan,
+    Message
 } from 'discord.js';
 import { BaseCommand, CommandCategory, CommandData } from '../baseCommand.js';
 import { COLORS } from '../../constants.js';
 import logger from '../../core/observability/Logger.js';
-import { moderationService } from '../../services/moderation/index.js';
+import { moderationService, infractionService, moderationScheduler, banAppealService } from '../../services/moderation/index.js';
+import { punishments } from '../../config/features/moderation/index.js';
 import type { BanValidationResult } from '../../types/commands/actions.js';
 
 class BanCommand extends BaseCommand {
@@ -47,6 +49,10 @@ class BanCommand extends BaseCommand {
                             .setDescription('Reason for the ban')
                             .setRequired(false)
                             .setMaxLength(500))
+                    .addStringOption(opt =>
+                        opt.setName('duration')
+                            .setDescription('Lift the ban automatically after this long (e.g. 12h, 7d, 2w)')
+                            .setRequired(false))
                     .addIntegerOption(opt =>
                         opt.setName('delete_days')
                             .setDescription('Days of messages to delete (0-7)')
@@ -86,12 +92,29 @@ class BanCommand extends BaseCommand {
         const targetUser = interaction.options.getUser('user', true);
         const reason = interaction.options.getString('reason') || 'No reason provided';
         const deleteDays = interaction.options.getInteger('delete_days') || 0;
+        const durationInput = interaction.options.getString('duration');
 
         if (!interaction.guild) {
             await this.errorReply(interaction, 'This command can only be used in a server.');
             return;
         }
 
+        // Temporary ban
+        let durationMs: number | null = null;
+        if (durationInput) {
+            durationMs = moderationService.parseDuration(durationInput);
+            if (!durationMs) {
+                await this.errorReply(interaction, 'Invalid duration. Use a number with s, m, h, d or w (e.g. `7d`).');
+                return;
+            }
+            const { minDurationMs, maxDurationMs } = punishments.ban;
+            if (durationMs < minDurationMs || durationMs > maxDurationMs) {
+                await this.errorReply(interaction, `Ban duration must be between ${moderationService.formatDuration(minDurationMs)} and ${moderationService.formatDuration(maxDurationMs)}.`);
+                return;
+            }
+        }
+        const expiresAt = durationMs ? new Date(Date.now() + durationMs) : null;
+
         // Validation
         const validation = await this._validateBan(interaction, targetUser);
         if (!validation.valid) {
@@ -100,9 +123,11 @@ class BanCommand extends BaseCommand {
         }
 
         try {
-            // DM user before ban
+            // DM user before ban; the appeal button is added once the case exists
+            let dmEmbed: EmbedBuilder | null = null;
+            let dmMessage: Message | null = null;
             try {
-                const dmEmbed = new EmbedBuilder()
+                dmEmbed = new EmbedBuilder()
                     .setColor(COLORS.ERROR)
                     .setTitle(`🔨 You have been banned from ${interaction.guild.name}`)
                     .addFields(
@@ -111,7 +136,11 @@ class BanCommand extends BaseCommand {
                     )
                     .setTimestamp();
 
-                await targetUser.send({ embeds: [dmEmbed] }).catch(() => {});
+                if (durationMs && expiresAt) {
+                    dmEmbed.addFields({ name: 'Duration', value: `${moderationService.formatDuration(durationMs)} (lifted <t:${Math.floor(expiresAt.getTime() / 1000)}:R>)` });
+                }
+
+                dmMessage = await targetUser.send({ embeds: [dmEmbed] }).catch(() => null);
             } catch {
                 // DM failed - continue with ban
             }
@@ -129,12 +158,47 @@ class BanCommand extends BaseCommand {
                     target: targetUser,
                     moderator: interaction.member as GuildMember,
                     reason,
-                    deleteMessageDays: deleteDays
+                    deleteMessageDays: deleteDays,
+                    duration: durationMs ?? undefined
                 });
             } catch {
                 // Service not available
             }
 
+            // Record the case; a temporary ban also gets its unban scheduled
+            const infraction = await infractionService.logBan(
+                interaction.guild,
+                targetUser,
+                interaction.user,
+                reason,
+                { delete_days: deleteDays },
+                durationMs ?? undefined
+            ).catch((error: Error) => {
+                logger.error('Ban', `Failed to record case: ${error.message}`);
+                return null;
+            });
+
+            if (dmMessage && dmEmbed && infraction && await banAppealService.isEnabled(interaction.guild.id)) {
+                const prompt = banAppealService.buildAppealPrompt(interaction.guild.id, infraction.case_id);
+                dmEmbed.addFields({ name: 'Appeal', value: prompt.text });
+                await dmMessage.edit({ embeds: [dmEmbed], components: [prompt.row] }).catch(() => {});
+            }
+
+            let unbanScheduled = false;
+            if (expiresAt) {
+                const scheduled = await moderationScheduler.scheduleUnban(
+                    interaction.guild.id,
+                    targetUser.id,
+                    expiresAt,
+                    infraction?.case_id ?? null,
+                    interaction.user.id
+                );
+                unbanScheduled = !!scheduled;
+            } else {
+                // A permanent ban replaces any earlier temporary one
+                await moderationScheduler.cancel(interaction.guild.id, 'unban', targetUser.id);
+            }
+
             const embed = new EmbedBuilder()
                 .setColor(COLORS.ERROR)
                 .setTitle('🔨 User Banned')
@@ -145,8 +209,21 @@ class BanCommand extends BaseCommand {
                     { name: 'Reason', value: reason, inline: false },
                     { name: 'Messages Deleted', value: `${deleteDays} days`, inline: true }
                 )
-                .setTimestamp()
-                .setFooter({ text: `Case #${Date.now().toString(36)}` });
+                .setTimestamp();
+
+            if (durationMs && expiresAt) {
+                embed.addFields({
+                    name: 'Duration',
+                    value: unbanScheduled
+                        ? `${moderationService.formatDuration(durationMs)}\nUnbanned <t:${Math.floor(expiresAt.getTime() / 1000)}:R>`
+                        : `${moderationService.formatDuration(durationMs)}\n⚠️ The automatic unban could not be scheduled; remove the ban by hand.`,
+                    inline: true
+                });
+            }
+
+            if (infraction) {
+                embed.setFooter({ text: `Case #${infraction.case_id}` });
+            }
 
             await this.safeReply(interaction, { embeds: [embed] });
 
@@ -183,6 +260,7 @@ class BanCommand extends BaseCommand {
 
             // Unban the user
             await interaction.guild.members.unban(userId, `${reason} | By: ${interaction.user.tag}`);
+            await moderationScheduler.cancel(interaction.guild.id, 'unban', userId);
 
             // Log to ModerationService
             try {
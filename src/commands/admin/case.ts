@@ -1,6 +1,6 @@
 /**
  * Case Command
- * View details of a specific moderation case
+ * View, amend, void and restore moderation cases
  * @module commands/admin/case
  */
 
@@ -9,11 +9,13 @@ import {
     EmbedBuilder,
     PermissionFlagsBits,
     ChatInputCommandInteraction,
+    GuildMember,
     User
 } from 'discord.js';
 import { BaseCommand, CommandCategory, CommandData } from '../baseCommand.js';
 import logger from '../../core/observability/Logger.js';
 import { infractionService as _infractionSvc } from '../../services/moderation/index.js';
+import { GuildSettingsService } from '../../services/guild/index.js';
 import type { Infraction } from '../../types/moderation/infraction.js';
 import type { InfractionService } from '../../types/moderation/services.js';
 
@@ -34,13 +36,60 @@ class CaseCommand extends BaseCommand {
     get data(): CommandData {
         return new SlashCommandBuilder()
             .setName('case')
-            .setDescription('View details of a specific moderation case')
+            .setDescription('View and amend moderation cases')
             .setDefaultMemberPermissions(PermissionFlagsBits.ModerateMembers)
-            .addIntegerOption(option =>
-                option.setName('id')
-                    .setDescription('Case ID to view')
-                    .setRequired(true)
-                    .setMinValue(1));
+            .addSubcommand(sub =>
+                sub.setName('view')
+                    .setDescription('View a case and its edit history')
+                    .addIntegerOption(option =>
+                        option.setName('id')
+                            .setDescription('Case ID to view')
+                            .setRequired(true)
+                            .setMinValue(1)))
+            .addSubcommand(sub =>
+                sub.setName('edit')
+                    .setDescription('Change the reason of a case')
+                    .addIntegerOption(option =>
+                        option.setName('id')
+                            .setDescription('Case ID to edit')
+                            .setRequired(true)
+                            .setMinValue(1))
+                    .addStringOption(option =>
+                        option.setName('reason')
+                            .setDescription('New reason')
+                            .setRequired(true)
+                            .setMaxLength(500))
+                    .addStringOption(option =>
+                        option.setName('note')
+                            .setDescription('Why the reason was changed')
+                            .setRequired(false)
+                            .setMaxLength(200)))
+            .addSubcommand(sub =>
+                sub.setName('void')
+                    .setDescription('Void a case so it no longer counts (admin only)')
+                    .addIntegerOption(option =>
+                        option.setName('id')
+                            .setDescription('Case ID to void')
+                            .setRequired(true)
+                            .setMinValue(1))
+                    .addStringOption(option =>
+                        option.setName('reason')
+                            .setDescription('Why the case is voided')
+                            .setRequired(true)
+                            .setMaxLength(200)))
+            .addSubcommand(sub =>
+                sub.setName('restore')
+                    .setDescription('Restore a voided case (admin only)')
+                    .addIntegerOption(option =>
+                        option.setName('id')
+                            .setDescription('Case ID to restore')
+                            .setRequired(true)
+                            .setMinValue(1))
+                    .addStringOption(option =>
+                        option.setName('reason')
+                            .setDescription('Why the case is restored')
+                            .setRequired(false)
+                            .setMaxLength(200)));
     }
 
     async run(interaction: ChatInputCommandInteraction): Promise<void> {
@@ -49,33 +98,103 @@ class CaseCommand extends BaseCommand {
             return;
         }
 
-        const caseId = interaction.options.getInteger('id', true);
-
         try {
-            // Get the case
-            const infraction = await infractionService?.getCase?.(interaction.guild.id, caseId);
-
-            if (!infraction) {
-                await interaction.editReply({
-                    content: `❌ Case #${caseId} not found.`
-                });
-                return;
+            switch (interaction.options.getSubcommand()) {
+                case 'view':
+                    return await this._view(interaction);
+                case 'edit':
+                    return await this._edit(interaction);
+                case 'void':
+                    return await this._setVoided(interaction, true);
+                case 'restore':
+                    return await this._setVoided(interaction, false);
             }
-
-            // Get user for avatar
-            const targetUser = await interaction.client.users.fetch(infraction.user_id).catch(() => null);
-
-            // Build embed
-            const embed = infractionService?.buildCaseEmbed?.(infraction, targetUser) || this._buildDefaultEmbed(infraction, targetUser);
-
-            await interaction.editReply({ embeds: [embed] });
-
         } catch (error) {
             logger.error('Case', `Error: ${(error as Error).message}`);
             await interaction.editReply({
-                content: `❌ Failed to fetch case: ${(error as Error).message}`
+                content: `❌ Failed to process case: ${(error as Error).message}`
+            });
+        }
+    }
+
+    private async _view(interaction: ChatInputCommandInteraction): Promise<void> {
+        const guildId = interaction.guild!.id;
+        const caseId = interaction.options.getInteger('id', true);
+        const infraction = await infractionService?.getCase?.(guildId, caseId);
+
+        // Voided cases are only shown to admins
+        if (!infraction || (infraction.voided_at && !await this._isAdmin(interaction))) {
+            await interaction.editReply({
+                content: `❌ Case #${caseId} not found.`
             });
+            return;
+        }
+
+        const [targetUser, revisions] = await Promise.all([
+            interaction.client.users.fetch(infraction.user_id).catch(() => null),
+            infractionService?.getCaseRevisions?.(guildId, caseId) ?? []
+        ]);
+
+        const embed = infractionService?.buildCaseEmbed?.(infraction, targetUser, revisions) || this._buildDefaultEmbed(infraction, targetUser);
+
+        await interaction.editReply({ embeds: [embed] });
+    }
+
+    private async _edit(interaction: ChatInputCommandInteraction): Promise<void> {
+        const guildId = interaction.guild!.id;
+        const caseId = interaction.options.getInteger('id', true);
+        const reason = interaction.options.getString('reason', true);
+        const note = interaction.options.getString('note');
+
+        const existing = await infractionService?.getCase?.(guildId, caseId);
+        if (!existing || (existing.voided_at && !await this._isAdmin(interaction))) {
+            await interaction.editReply({ content: `❌ Case #${caseId} not found.` });
+            return;
+        }
+
+        const result = await infractionService?.editCase?.(guildId, caseId, interaction.user.id, reason, note);
+        if (!result) {
+            await interaction.editReply({ content: `❌ Case #${caseId} not found.` });
+            return;
+        }
+        if (!result.changed) {
+            await interaction.editReply({ content: `ℹ️ Case #${caseId} already has that reason.` });
+            return;
+        }
+
+        await this.successReply(interaction, 'Case Updated', `The reason of case **#${caseId}** was changed. See \`/case view\` for its history.`);
+    }
+
+    private async _setVoided(interaction: ChatInputCommandInteraction, voided: boolean): Promise<void> {
+        if (!await this._isAdmin(interaction)) {
+            await this.errorReply(interaction, `Only server admins can ${voided ? 'void' : 'restore'} cases.`);
+            return;
         }
+
+        const guildId = interaction.guild!.id;
+        const caseId = interaction.options.getInteger('id', true);
+        const note = interaction.options.getString('reason');
+
+        const result = voided
+            ? await infractionService?.voidCase?.(guildId, caseId, interaction.user.id, note)
+            : await infractionService?.restoreCase?.(guildId, caseId, interaction.user.id, note);
+
+        if (!result) {
+            await interaction.editReply({ content: `❌ Case #${caseId} not found.` });
+            return;
+        }
+        if (!result.changed) {
+            await interaction.editReply({ content: `ℹ️ Case #${caseId} is ${voided ? 'already voided' : 'not voided'}.` });
+            return;
+        }
+
+        await this.successReply(interaction, voided ? 'Case Voided' : 'Case Restored', voided
+            ? `Case **#${caseId}** no longer counts towards warnings or escalation.`
+            : `Case **#${caseId}** counts again.`);
+    }
+
+    private async _isAdmin(interaction: ChatInputCommandInteraction): Promise<boolean> {
+        return GuildSettingsService.hasAdminPermission(interaction.member as GuildMember);
     }
 
     private _buildDefaultEmbed(infraction: Infraction, targetUser: User | null): EmbedBuilder {
@@ -70,7 +70,9 @@ class ClearWarnsCommand extends BaseCommand {
             // Clear warnings
             const clearedCount = await infractionService?.clearWarnings?.(
                 interaction.guild.id,
-                targetUser.id
+                targetUser.id,
+                interaction.user.id,
+                reason
             ) || 0;
 
             // Log the action
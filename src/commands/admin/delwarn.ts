@@ -81,7 +81,7 @@ class DelWarnCommand extends BaseCommand {
             }
 
             // Delete (deactivate) the warning
-            await infractionService?.deleteCase?.(interaction.guild.id, caseId);
+            await infractionService?.deleteCase?.(interaction.guild.id, caseId, interaction.user.id, reason);
 
             // Get user for display
             const targetUser = await interaction.client.users.fetch(infraction.user_id).catch(() => null);
@@ -3,6 +3,7 @@
  * @module commands/admin
  */
 
+export { default as appeal } from './appeal.js';
 export { default as automod } from './automod.js';
 export { default as ban } from './ban.js';
 export { default as case_ } from './case.js';
@@ -11,7 +12,9 @@ export { default as delete_ } from './delete.js';
 export { default as delwarn } from './delwarn.js';
 export { default as kick } from './kick.js';
 export { default as lockdown } from './lockdown.js';
+export { default as modinfo } from './modinfo.js';
 export { default as mute } from './mute.js';
+export { default as note } from './note.js';
 export { default as raid } from './raid.js';
 export { default as setting } from './setting.js';
 export { default as slowmode } from './slowmode.js';
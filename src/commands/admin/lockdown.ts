@@ -15,6 +15,7 @@ import {
 import { BaseCommand, CommandCategory, CommandData } from '../baseCommand.js';
 import _lockdownModule from '../../services/moderation/lockdownService.js';
 import _moderationConfigModule from '../../config/features/moderation/index.js';
+import { moderationService, moderationScheduler } from '../../services/moderation/index.js';
 import type { ModerationConfig } from '../../config/features/moderation/index.js';
 import type { LockdownService } from '../../types/moderation/services.js';
 import type { LockResult, ServerLockResult, LockStatus } from '../../types/moderation/lockdown.js';
@@ -52,6 +53,10 @@ class LockdownCommand extends BaseCommand {
                             .setDescription('Reason for lockdown')
                             .setMaxLength(500)
                     )
+                    .addStringOption(opt =>
+                        opt.setName('duration')
+                            .setDescription('Unlock automatically after this long (e.g. 30m, 2h, max 24h)')
+                    )
             )
             .addSubcommand(sub =>
                 sub.setName('server')
@@ -109,9 +114,27 @@ class LockdownCommand extends BaseCommand {
     private async _lockChannel(interaction: ChatInputCommandInteraction): Promise<void> {
         const channel = (interaction.options.getChannel('channel') || interaction.channel) as TextChannel;
         const reason = interaction.options.getString('reason') || 'No reason provided';
+        const durationInput = interaction.options.getString('duration');
         
         await interaction.deferReply({ ephemeral: true });
         
+        // Timed lockdown
+        let durationMs: number | null = null;
+        if (durationInput) {
+            durationMs = moderationService.parseDuration(durationInput);
+            const maxMs = moderationConfig.scheduler.maxLockDurationMs;
+            if (!durationMs || durationMs > maxMs) {
+                await interaction.editReply({
+                    embeds: [
+                        new EmbedBuilder()
+                            .setColor(moderationConfig?.COLORS?.ERROR || 0xFF0000)
+                            .setDescription(`${moderationConfig?.EMOJIS?.ERROR || '❌'} Duration must be like \`30m\` or \`2h\`, up to ${moderationService.formatDuration(maxMs)}.`)
+                    ]
+                });
+                return;
+            }
+        }
+        
         const result: LockResult | undefined = await lockdownService?.lockChannel?.(
             channel,
             `${reason} | By: ${interaction.user.tag}`
@@ -128,6 +151,15 @@ class LockdownCommand extends BaseCommand {
             return;
         }
         
+        let unlockNote = '';
+        if (durationMs) {
+            const unlockAt = new Date(Date.now() + durationMs);
+            const scheduled = await moderationScheduler.scheduleUnlock(channel.guild.id, channel.id, unlockAt, interaction.user.id, reason);
+            unlockNote = scheduled
+                ? `\nUnlocks <t:${Math.floor(unlockAt.getTime() / 1000)}:R>`
+                : '\n⚠️ The automatic unlock could not be scheduled; unlock it by hand.';
+        }
+        
         // Send message in locked channel
         const lockEmbed = new EmbedBuilder()
             .setColor(moderationConfig?.COLORS?.LOCKDOWN || 0xFF5555)
@@ -136,13 +168,17 @@ class LockdownCommand extends BaseCommand {
             .addFields({ name: 'Reason', value: reason })
             .setTimestamp();
         
+        if (durationMs) {
+            lockEmbed.addFields({ name: 'Duration', value: moderationService.formatDuration(durationMs) });
+        }
+        
         await channel.send({ embeds: [lockEmbed] }).catch(() => {});
         
         await interaction.editReply({
             embeds: [
                 new EmbedBuilder()
                     .setColor(moderationConfig?.COLORS?.LOCKDOWN || 0xFF5555)
-                    .setDescription(`${moderationConfig?.EMOJIS?.LOCK || '🔒'} Successfully locked ${channel}`)
+                    .setDescription(`${moderationConfig?.EMOJIS?.LOCK || '🔒'} Successfully locked ${channel}${unlockNote}`)
             ]
         });
     }
@@ -238,6 +274,8 @@ class LockdownCommand extends BaseCommand {
             `Unlocked by ${interaction.user.tag}`
         );
         
+        await moderationScheduler.cancel(channel.guild.id, 'unlock_channel', channel.id);
+        
         if (result && !result.success) {
             await interaction.editReply({
                 embeds: [
@@ -283,6 +321,8 @@ class LockdownCommand extends BaseCommand {
             `Server unlock by ${interaction.user.tag}`
         ) || { success: [], skipped: [], failed: [], message: undefined };
         
+        await moderationScheduler.cancel(interaction.guild.id, 'unlock_channel', null);
+        
         if (results.success.length === 0 && results.message) {
             await interaction.editReply({
                 embeds: [
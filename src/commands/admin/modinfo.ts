@@ -0,0 +1,103 @@
+/**
+ * ModInfo Command
+ * Everything moderators know about a member on one paged view:
+ * account and join dates, cases, notes, automod and anti-raid flags, past usernames
+ * @module commands/admin/modinfo
+ */
+
+import {
+    SlashCommandBuilder,
+    PermissionFlagsBits,
+    ChatInputCommandInteraction,
+    GuildMember,
+    Message
+} from 'discord.js';
+import { BaseCommand, CommandCategory, CommandData } from '../baseCommand.js';
+import logger from '../../core/observability/Logger.js';
+import { userDossierService } from '../../services/moderation/index.js';
+import { GuildSettingsService } from '../../services/guild/index.js';
+import {
+    createPaginationButtons,
+    disablePaginationButtons,
+    getNewPage,
+    parsePaginationButton
+} from '../../utils/common/pagination.js';
+
+const PAGINATION_PREFIX = 'modinfo';
+
+class ModInfoCommand extends BaseCommand {
+    constructor() {
+        super({
+            category: CommandCategory.ADMIN,
+            cooldown: 3,
+            deferReply: true,
+            ephemeral: true,
+            userPermissions: [PermissionFlagsBits.ModerateMembers]
+        });
+    }
+
+    get data(): CommandData {
+        return new SlashCommandBuilder()
+            .setName('modinfo')
+            .setDescription('Show cases, notes, flags and history for a user')
+            .setDefaultMemberPermissions(PermissionFlagsBits.ModerateMembers)
+            .addUserOption(option =>
+                option.setName('user')
+                    .setDescription('User to look up')
+                    .setRequired(true));
+    }
+
+    async run(interaction: ChatInputCommandInteraction): Promise<void> {
+        if (!interaction.guild) {
+            await this.errorReply(interaction, 'This command can only be used in a server.');
+            return;
+        }
+
+        const targetUser = interaction.options.getUser('user', true);
+
+        try {
+            // Voided cases stay visible to admins only
+            const isAdmin = await GuildSettingsService.hasAdminPermission(interaction.member as GuildMember);
+            const dossier = await userDossierService.getDossier(interaction.guild, targetUser, isAdmin);
+            const pages = userDossierService.buildPages(dossier);
+
+            if (pages.length === 1) {
+                await interaction.editReply({ embeds: [pages[0]!] });
+                return;
+            }
+
+            let currentPage = 0;
+            const message = await interaction.editReply({
+                embeds: [pages[currentPage]!],
+                components: [createPaginationButtons(currentPage, pages.length, PAGINATION_PREFIX, interaction.user.id)]
+            }) as Message;
+
+            const collector = message.createMessageComponentCollector({
+                filter: i => i.user.id === interaction.user.id,
+                time: 300000 // 5 minutes
+            });
+
+            collector.on('collect', async i => {
+                const parsed = parsePaginationButton(i.customId);
+                if (!parsed || parsed.prefix !== PAGINATION_PREFIX) return;
+
+                currentPage = getNewPage(parsed.action, currentPage, pages.length);
+                await i.update({
+                    embeds: [pages[currentPage]!],
+                    components: [createPaginationButtons(currentPage, pages.length, PAGINATION_PREFIX, interaction.user.id)]
+                }).catch(() => {});
+            });
+
+            collector.on('end', async () => {
+                await interaction.editReply({
+                    components: [disablePaginationButtons(currentPage, pages.length, PAGINATION_PREFIX, interaction.user.id)]
+                }).catch(() => {});
+            });
+        } catch (error) {
+            logger.error('ModInfoCommand', `Error: ${(error as Error).message}`);
+            await this.errorReply(interaction, 'Failed to load information for this user.');
+        }
+    }
+}
+
+export default new ModInfoCommand();
@@ -1,6 +1,6 @@
 /**
  * Mute Command - Presentation Layer
- * Timeout/mute users in the server
+ * Timeout/mute users in the server, or give them a role that is taken back later
  * @module presentation/commands/admin/mute
  */
 
@@ -10,12 +10,14 @@ import {
     PermissionFlagsBits,
     ChatInputCommandInteraction,
     User,
-    GuildMember
+    GuildMember,
+    Role
 } from 'discord.js';
 import { BaseCommand, CommandCategory, CommandData } from '../baseCommand.js';
 import { COLORS } from '../../constants.js';
 import logger from '../../core/observability/Logger.js';
-import { moderationService } from '../../services/moderation/index.js';
+import { moderationService, infractionService, moderationScheduler } from '../../services/moderation/index.js';
+import moderationConfig, { punishments } from '../../config/features/moderation/index.js';
 import type { MuteValidationResult } from '../../types/commands/actions.js';
 
 /**
@@ -105,6 +107,26 @@ class MuteCommand extends BaseCommand {
                             .setDescription('Reason for the timeout')
                             .setRequired(false)
                             .setMaxLength(500)))
+            .addSubcommand(sub =>
+                sub.setName('role')
+                    .setDescription('Give a user a role (e.g. a muted role) and take it back after a while')
+                    .addUserOption(opt =>
+                        opt.setName('user')
+                            .setDescription('The user to give the role to')
+                            .setRequired(true))
+                    .addRoleOption(opt =>
+                        opt.setName('role')
+                            .setDescription('The role to give')
+                            .setRequired(true))
+                    .addStringOption(opt =>
+                        opt.setName('duration')
+                            .setDescription('Take the role back after this long (e.g. 12h, 7d, 8w)')
+                            .setRequired(true))
+                    .addStringOption(opt =>
+                        opt.setName('reason')
+                            .setDescription('Reason for the role')
+                            .setRequired(false)
+                            .setMaxLength(500)))
             .addSubcommand(sub =>
                 sub.setName('remove')
                     .setDescription('Remove timeout from a user')
@@ -125,6 +147,9 @@ class MuteCommand extends BaseCommand {
             case 'add':
                 await this._muteUser(interaction);
                 break;
+            case 'role':
+                await this._muteWithRole(interaction);
+                break;
             case 'remove':
                 await this._unmuteUser(interaction);
                 break;
@@ -226,6 +251,148 @@ class MuteCommand extends BaseCommand {
         }
     }
 
+    private async _muteWithRole(interaction: ChatInputCommandInteraction): Promise<void> {
+        if (!interaction.guild) {
+            await this.errorReply(interaction, 'This command can only be used in a server.');
+            return;
+        }
+
+        const targetUser = interaction.options.getUser('user', true);
+        const role = interaction.options.getRole('role', true) as Role;
+        const duration = interaction.options.getString('duration', true);
+        const reason = interaction.options.getString('reason') || 'No reason provided';
+
+        const durationMs = parseDuration(duration);
+        if (!durationMs) {
+            await this.errorReply(interaction, 'Invalid duration. Use a number with s, m, h, d or w (e.g. `7d`).');
+            return;
+        }
+
+        const { minDurationMs, roleMaxDurationMs } = punishments.mute;
+        if (durationMs < minDurationMs || durationMs > roleMaxDurationMs) {
+            await this.errorReply(interaction, `Duration must be between ${formatDuration(minDurationMs)} and ${formatDuration(roleMaxDurationMs)}.`);
+            return;
+        }
+
+        const roleError = this._validateRole(interaction, role);
+        if (roleError) {
+            await this.errorReply(interaction, roleError);
+            return;
+        }
+
+        const validation = await this._validateMute(interaction, targetUser, 'mute');
+        if (!validation.valid) {
+            await this.errorReply(interaction, validation.error!);
+            return;
+        }
+
+        const targetMember = validation.member!;
+        const expiresAt = new Date(Date.now() + durationMs);
+
+        try {
+            if (targetMember.roles.cache.has(role.id)) {
+                // Giving a timed role again moves its expiry; a role held for good is left alone
+                const pending = await moderationScheduler.getPending(interaction.guild.id, 'remove_role');
+                if (!pending.some(action => action.targetId === targetUser.id && action.roleId === role.id)) {
+                    await this.errorReply(interaction, `${targetUser.tag} already has ${role.name}.`);
+                    return;
+                }
+                await moderationScheduler.cancel(interaction.guild.id, 'remove_role', targetUser.id, role.id);
+            } else {
+                await targetMember.roles.add(role.id, `${reason} | By: ${interaction.user.tag}`);
+            }
+
+            const infraction = await infractionService.createInfraction({
+                guild: interaction.guild,
+                user: targetUser,
+                moderator: interaction.user,
+                type: moderationConfig.INFRACTION_TYPES.MUTE,
+                reason,
+                durationMs,
+                metadata: { role_id: role.id }
+            }).catch((error: Error) => {
+                logger.error('Mute', `Failed to record case: ${error.message}`);
+                return null;
+            });
+
+            const scheduled = await moderationScheduler.scheduleRoleRemoval(
+                interaction.guild.id,
+                targetUser.id,
+                role.id,
+                expiresAt,
+                interaction.user.id,
+                infraction ? `Timed role expired (case #${infraction.case_id})` : 'Timed role expired'
+            );
+
+            const dmEmbed = new EmbedBuilder()
+                .setColor(COLORS.WARNING)
+                .setTitle(`🔇 You have been muted in ${interaction.guild.name}`)
+                .addFields(
+                    { name: 'Role', value: role.name },
+                    { name: 'Duration', value: formatDuration(durationMs) },
+                    { name: 'Reason', value: reason },
+                    { name: 'Moderator', value: interaction.user.tag }
+                )
+                .setTimestamp();
+            await targetUser.send({ embeds: [dmEmbed] }).catch(() => {});
+
+            const embed = new EmbedBuilder()
+                .setColor(COLORS.WARNING)
+                .setTitle('🔇 User Muted With Role')
+                .setThumbnail(targetUser.displayAvatarURL())
+                .addFields(
+                    { name: 'User', value: `${targetUser.tag}\n\`${targetUser.id}\``, inline: true },
+                    { name: 'Role', value: `${role}`, inline: true },
+                    { name: 'Moderator', value: `${interaction.user.tag}`, inline: true },
+                    { name: 'Reason', value: reason, inline: false },
+                    {
+                        name: 'Duration',
+                        value: scheduled
+                            ? `${formatDuration(durationMs)}\nRole removed <t:${Math.floor(expiresAt.getTime() / 1000)}:R>`
+                            : `${formatDuration(durationMs)}\n⚠️ The role removal could not be scheduled; take the role back by hand.`,
+                        inline: true
+                    }
+                )
+                .setTimestamp();
+            if (infraction) embed.setFooter({ text: `Case #${infraction.case_id}` });
+
+            await this.safeReply(interaction, { embeds: [embed] });
+
+        } catch (error) {
+            logger.error('Mute', `Role mute error: ${(error as Error).message}`);
+            await this.errorReply(interaction, 'Failed to give the role. Make sure I have the Manage Roles permission.');
+        }
+    }
+
+    /**
+     * Only plain roles below both the moderator and the bot can be handed out
+     * @returns An error message, or null when the role can be given
+     */
+    private _validateRole(interaction: ChatInputCommandInteraction, role: Role): string | null {
+        const guild = interaction.guild!;
+        if (role.id === guild.id || role.managed) {
+            return 'That role cannot be given to members.';
+        }
+
+        const member = interaction.member as GuildMember;
+        if (!member.permissions.has(PermissionFlagsBits.ManageRoles)) {
+            return 'You need the Manage Roles permission to give roles.';
+        }
+        if (interaction.user.id !== guild.ownerId && role.position >= member.roles.highest.position) {
+            return 'You cannot give a role equal to or higher than your highest role.';
+        }
+
+        const botMember = guild.members.me;
+        if (!botMember?.permissions.has(PermissionFlagsBits.ManageRoles)) {
+            return 'I need the Manage Roles permission to give roles.';
+        }
+        if (role.position >= botMember.roles.highest.position) {
+            return 'I cannot give a role equal to or higher than my highest role.';
+        }
+
+        return null;
+    }
+
     private async _unmuteUser(interaction: ChatInputCommandInteraction): Promise<void> {
         if (!interaction.guild) {
             await this.errorReply(interaction, 'This command can only be used in a server.');
@@ -299,20 +466,20 @@ class MuteCommand extends BaseCommand {
         }
     }
 
-    private async _validateMute(interaction: ChatInputCommandInteraction, targetUser: User): Promise<MuteValidationResult> {
+    private async _validateMute(interaction: ChatInputCommandInteraction, targetUser: User, verb: string = 'timeout'): Promise<MuteValidationResult> {
         // Self check
         if (targetUser.id === interaction.user.id) {
-            return { valid: false, error: 'You cannot timeout yourself.' };
+            return { valid: false, error: `You cannot ${verb} yourself.` };
         }
 
         // Bot check
         if (targetUser.id === interaction.client.user?.id) {
-            return { valid: false, error: 'I cannot timeout myself.' };
+            return { valid: false, error: `I cannot ${verb} myself.` };
         }
 
         // Owner check
         if (targetUser.id === interaction.guild!.ownerId) {
-            return { valid: false, error: 'You cannot timeout the server owner.' };
+            return { valid: false, error: `You cannot ${verb} the server owner.` };
         }
 
         // Fetch member
@@ -325,13 +492,13 @@ class MuteCommand extends BaseCommand {
         const member = interaction.member as GuildMember;
         const isGuildOwner = interaction.user.id === interaction.guild!.ownerId;
         if (!isGuildOwner && targetMember.roles.highest.position >= member.roles.highest.position) {
-            return { valid: false, error: 'You cannot timeout someone with equal or higher role than you.' };
+            return { valid: false, error: `You cannot ${verb} someone with equal or higher role than you.` };
         }
 
         // Bot can timeout check
         const botMember = interaction.guild!.members.me;
         if (botMember && targetMember.roles.highest.position >= botMember.roles.highest.position) {
-            return { valid: false, error: 'I cannot timeout this user due to role hierarchy.' };
+            return { valid: false, error: `I cannot ${verb} this user due to role hierarchy.` };
         }
 
         return { valid: true, member: targetMember };
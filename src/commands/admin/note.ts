@@ -0,0 +1,126 @@
+/**
+ * Note Command
+ * Private moderator notes about members, shown in /modinfo
+ * @module commands/admin/note
+ */
+
+import {
+    SlashCommandBuilder,
+    PermissionFlagsBits,
+    ChatInputCommandInteraction,
+    GuildMember
+} from 'discord.js';
+import { BaseCommand, CommandCategory, CommandData } from '../baseCommand.js';
+import { modNoteService } from '../../services/moderation/index.js';
+import moderationConfig from '../../config/features/moderation/index.js';
+
+class NoteCommand extends BaseCommand {
+    constructor() {
+        super({
+            category: CommandCategory.ADMIN,
+            cooldown: 3,
+            deferReply: true,
+            ephemeral: true,
+            userPermissions: [PermissionFlagsBits.ModerateMembers]
+        });
+    }
+
+    get data(): CommandData {
+        const { maxLength } = moderationConfig.notes;
+
+        return new SlashCommandBuilder()
+            .setName('note')
+            .setDescription('Private moderator notes about members')
+            .setDefaultMemberPermissions(PermissionFlagsBits.ModerateMembers)
+            .addSubcommand(sub =>
+                sub.setName('add')
+                    .setDescription('Add a note about a member')
+                    .addUserOption(opt =>
+                        opt.setName('user')
+                            .setDescription('Member the note is about')
+                            .setRequired(true))
+                    .addStringOption(opt =>
+                        opt.setName('content')
+                            .setDescription('The note')
+                            .setRequired(true)
+                            .setMaxLength(maxLength)))
+            .addSubcommand(sub =>
+                sub.setName('edit')
+                    .setDescription('Replace the text of a note')
+                    .addIntegerOption(opt =>
+                        opt.setName('id')
+                            .setDescription('Note ID')
+                            .setRequired(true)
+                            .setMinValue(1))
+                    .addStringOption(opt =>
+                        opt.setName('content')
+                            .setDescription('New text')
+                            .setRequired(true)
+                            .setMaxLength(maxLength)))
+            .addSubcommand(sub =>
+                sub.setName('delete')
+                    .setDescription('Delete a note')
+                    .addIntegerOption(opt =>
+                        opt.setName('id')
+                            .setDescription('Note ID')
+                            .setRequired(true)
+                            .setMinValue(1)));
+    }
+
+    async run(interaction: ChatInputCommandInteraction): Promise<void> {
+        if (!interaction.guild) {
+            await this.errorReply(interaction, 'This command can only be used in a server.');
+            return;
+        }
+
+        switch (interaction.options.getSubcommand()) {
+            case 'add':
+                return this._add(interaction);
+            case 'edit':
+                return this._edit(interaction);
+            case 'delete':
+                return this._delete(interaction);
+        }
+    }
+
+    private async _add(interaction: ChatInputCommandInteraction): Promise<void> {
+        const user = interaction.options.getUser('user', true);
+        const content = interaction.options.getString('content', true);
+
+        const result = await modNoteService.addNote(interaction.guildId!, user.id, interaction.user.id, content);
+        if (result.isErr()) {
+            await this.errorReply(interaction, result.error!);
+            return;
+        }
+
+        await this.successReply(interaction, 'Note Added',
+            `Note **#${result.data!.id}** saved for ${user}. See it with \`/modinfo\`.`);
+    }
+
+    private async _edit(interaction: ChatInputCommandInteraction): Promise<void> {
+        const noteId = interaction.options.getInteger('id', true);
+        const content = interaction.options.getString('content', true);
+
+        const result = await modNoteService.editNote(interaction.guildId!, noteId, interaction.member as GuildMember, content);
+        if (result.isErr()) {
+            await this.errorReply(interaction, result.error!);
+            return;
+        }
+
+        await this.successReply(interaction, 'Note Updated', `Note **#${noteId}** about <@${result.data!.userId}> was updated.`);
+    }
+
+    private async _delete(interaction: ChatInputCommandInteraction): Promise<void> {
+        const noteId = interaction.options.getInteger('id', true);
+
+        const result = await modNoteService.deleteNote(interaction.guildId!, noteId, interaction.member as GuildMember);
+        if (result.isErr()) {
+            await this.errorReply(interaction, result.error!);
+            return;
+        }
+
+        await this.successReply(interaction, 'Note Deleted', `Note **#${noteId}** about <@${result.data!.userId}> was deleted.`);
+    }
+}
+
+export default new NoteCommand();
@@ -28,6 +28,42 @@ import logger from '../../core/observability/Logger.js';
 import _GuildSettingsService, { DEFAULT_GUILD_SETTINGS } from '../../services/guild/guildSettingsService.js';
 import { autoModService as _autoModService, lockdownService as _lockdownService, antiRaidService as _antiRaidService, modLogService as _modLogService } from '../../services/moderation/index.js';
 import type { AutoModSettings } from '../../services/moderation/index.js';
+import { musicFacade as _musicFacade } from '../../services/music/core/musicFacade.js';
+import { permissions as musicPermissionConfig, playlistImport as playlistImportConfig, fairQueue as fairQueueConfig, voting as votingConfig } from '../../config/features/music.js';
+import type { MusicAction, MusicPermissionMode, MusicPermissionPolicy } from '../../types/music/permissions.js';
+import type { FairQueueSettings } from '../../types/music/fair-queue.js';
+import type { VoteAction, VoteRule } from '../../types/music/vote.js';
+import type { ModLogSettings } from '../../types/moderation/modlog.js';
+
+const MUSIC_MODE_LABELS: Record<MusicPermissionMode, string> = {
+    everyone: '👥 Everyone',
+    requester: '🙋 Requester',
+    vote: '🗳️ Vote',
+    dj: '🎧 DJ'
+};
+
+const MUSIC_ACTION_LABELS: Record<MusicAction, string> = {
+    skip: 'Skip',
+    stop: 'Stop',
+    volume: 'Volume',
+    clear: 'Clear Queue',
+    move: 'Move',
+    remove: 'Remove',
+    loop: 'Loop',
+    filters: 'Filters',
+    shuffle: 'Shuffle'
+};
+
+const MOD_LOG_EVENT_LABELS: Partial<Record<keyof ModLogSettings, { label: string; emoji: string; description: string }>> = {
+    log_role_changes: { label: 'Member Roles', emoji: '🏷️', description: 'Roles added to or removed from members' },
+    log_nickname_changes: { label: 'Nicknames', emoji: '✏️', description: 'Nickname changes' },
+    log_timeouts: { label: 'Timeouts', emoji: '🔇', description: 'Timeouts applied or lifted outside of bot commands' },
+    log_channel_changes: { label: 'Channels', emoji: '📁', description: 'Channel create/delete and permission overwrites' },
+    log_server_role_changes: { label: 'Server Roles', emoji: '🛠️', description: 'Role create/delete, renames and permission edits' },
+    log_voice_activity: { label: 'Voice Activity', emoji: '🎙️', description: 'Voice joins, leaves and moves' }
+};
+
+const describeVoteRule = (rule: VoteRule): string => `${Math.round(rule.threshold * 100)}%, ${rule.timeoutSeconds}s`;
 
 class SettingCommand extends BaseCommand {
     constructor() {
@@ -120,7 +156,8 @@ class SettingCommand extends BaseCommand {
             automodSettings.invites_enabled ? 'Invites' : null,
             automodSettings.mention_enabled ? 'Mentions' : null,
             automodSettings.caps_enabled ? 'Caps' : null,
-            automodSettings.filter_enabled ? 'Filter' : null
+            automodSettings.filter_enabled ? 'Filter' : null,
+            automodSettings.phishing_enabled ? 'Phishing' : null
         ].filter(Boolean) : [];
         
         const automodStatus = automodSettings.enabled 
@@ -148,7 +185,7 @@ class SettingCommand extends BaseCommand {
                 { name: '🔒 Lockdown', value: lockdownStatus.lockedCount > 0 ? `🔒 Active (${lockdownStatus.lockedCount})` : '🔓 Inactive', inline: true },
                 { name: '🛡️ Raid Mode', value: raidStatus?.active ? '🛡️ Active' : '🛡️ Inactive', inline: true }
             )
-            .setFooter({ text: 'Use /automod for detailed automod settings • /modlogs for log toggles' })
+            .setFooter({ text: 'Use /automod for detailed automod settings • Mod Log Events for log toggles' })
             .setTimestamp();
 
         // Settings select menu
@@ -159,6 +196,8 @@ class SettingCommand extends BaseCommand {
                 { label: 'Snipe Limit', value: 'snipe', emoji: '📝', description: 'Messages to track for snipe' },
                 { label: 'Delete Limit', value: 'delete', emoji: '🗑️', description: 'Max messages per delete' },
                 { label: 'Toggle Announcements', value: 'toggle_announce', emoji: '📢', description: announceEnabled ? 'Currently: Enabled' : 'Currently: Disabled' },
+                { label: 'Music Permissions', value: 'music', emoji: '🎵', description: 'DJ role, per-action access, imports, stats and request channels' },
+                { label: 'Mod Log Events', value: 'modlog_events', emoji: '📋', description: 'Member, channel, role and voice changes to log' },
                 { label: 'Reset All', value: 'reset', emoji: '🔄', description: 'Reset to defaults' }
             ]);
 
@@ -257,6 +296,7 @@ class SettingCommand extends BaseCommand {
                 delete_limit: DEFAULT_GUILD_SETTINGS.delete_limit,
                 admin_roles: DEFAULT_GUILD_SETTINGS.admin_roles,
                 mod_roles: DEFAULT_GUILD_SETTINGS.mod_roles,
+                dj_role: DEFAULT_GUILD_SETTINGS.dj_role,
                 settings: {}
             });
             await interaction.update({
@@ -283,6 +323,16 @@ class SettingCommand extends BaseCommand {
             return;
         }
 
+        if (value === 'music') {
+            await this._showMusicPermissions(interaction);
+            return;
+        }
+
+        if (value === 'modlog_events') {
+            await this._showModLogEvents(interaction);
+            return;
+        }
+
         // Show modal for numeric inputs
         const modal = new ModalBuilder()
             .setCustomId(`setting_modal_${value}`)
@@ -336,6 +386,453 @@ class SettingCommand extends BaseCommand {
         }
     }
 
+    /**
+     * Music permissions panel: DJ role, DJ-only mode, the mode for each protected action
+     * (with its vote rule when put to a vote) and the playlist import cap
+     */
+    private async _showMusicPermissions(interaction: StringSelectMenuInteraction): Promise<void> {
+        const musicFacade = _musicFacade;
+        const guildId = interaction.guildId!;
+        let selectedAction: MusicAction | null = null;
+
+        const isVoteAction = (action: MusicAction | null): action is VoteAction =>
+            action !== null && musicPermissionConfig.voteActions.includes(action);
+
+        const buildPanel = (policy: MusicPermissionPolicy, importLimit: number, statsChannelId: string | null, requestChannelId: string | null, fairQueue: FairQueueSettings, voteRules: Record<VoteAction, VoteRule>) => {
+            const modeLabel = (action: MusicAction) => policy.actions[action] === 'vote' && isVoteAction(action)
+                ? `${MUSIC_MODE_LABELS.vote} (${describeVoteRule(voteRules[action])})`
+                : MUSIC_MODE_LABELS[policy.actions[action]];
+
+            const actionLines = musicPermissionConfig.actions
+                .map(action => `**${MUSIC_ACTION_LABELS[action]}:** ${modeLabel(action)}`)
+                .join('\n');
+
+            const memberLimits = [
+                fairQueue.maxTracksPerUser ? `${fairQueue.maxTracksPerUser} tracks` : null,
+                fairQueue.maxDurationPerUser ? `${Math.round(fairQueue.maxDurationPerUser / 60)} min` : null
+            ].filter(Boolean).join(' / ') || 'No limit';
+
+            const embed = new EmbedBuilder()
+                .setColor(COLORS.INFO)
+                .setTitle('🎵 Music Permissions')
+                .setDescription('DJs and admins can always use every control.\n*Requester* and *Vote* let the track requester act directly.')
+                .addFields(
+                    { name: '🎧 DJ Role', value: policy.djRoleId ? `<@&${policy.djRoleId}>` : '*Not set* (roles named "DJ")', inline: true },
+                    { name: '🔒 DJ-Only Mode', value: policy.djOnly ? '✅ On' : '❌ Off', inline: true },
+                    { name: '📥 Playlist Import Limit', value: `${importLimit} tracks`, inline: true },
+                    { name: '📊 Monthly Stats Channel', value: statsChannelId ? `<#${statsChannelId}>` : '*Not set*', inline: true },
+                    { name: '🎶 Song Request Channel', value: requestChannelId ? `<#${requestChannelId}>` : '*Not set*', inline: true },
+                    { name: '⚖️ Fair Queue', value: fairQueue.enabled ? '✅ On' : '❌ Off', inline: true },
+                    { name: '👤 Queue Limit per Member', value: memberLimits, inline: true },
+                    { name: '📋 Actions', value: actionLines, inline: false }
+                )
+                .setFooter({ text: selectedAction ? `Editing: ${MUSIC_ACTION_LABELS[selectedAction]}` : 'Pick an action, then who can use it' });
+
+            const djRoleMenu = new RoleSelectMenuBuilder()
+                .setCustomId('setting_music_dj_role')
+                .setPlaceholder('🎧 Set DJ Role...')
+                .setMinValues(0)
+                .setMaxValues(1);
+
+            const toggleMenu = new StringSelectMenuBuilder()
+                .setCustomId('setting_music_toggle')
+                .setPlaceholder('⚙️ Music Options...')
+                .addOptions([
+                    { label: 'Toggle DJ-Only Mode', value: 'dj_only', emoji: '🔒', description: policy.djOnly ? 'Currently: On' : 'Currently: Off' },
+                    { label: 'Set Playlist Import Limit', value: 'import_limit', emoji: '📥', description: `Currently: ${importLimit} tracks` },
+                    { label: 'Set Song Request Channel', value: 'request_channel', emoji: '🎶', description: 'Messages there are queued as song requests' },
+                    { label: 'Toggle Fair Queue', value: 'fair_queue', emoji: '⚖️', description: fairQueue.enabled ? 'Currently: On (turns rotate between requesters)' : 'Currently: Off (first come, first served)' },
+                    { label: 'Set Queue Limits per Member', value: 'member_limits', emoji: '👤', description: `Currently: ${memberLimits}` },
+                    ...(isVoteAction(selectedAction) ? [{
+                        label: `Set Vote Rule for ${MUSIC_ACTION_LABELS[selectedAction]}`,
+                        value: 'vote_rule',
+                        emoji: '🗳️',
+                        description: `Currently: ${describeVoteRule(voteRules[selectedAction])}`
+                    }] : []),
+                    { label: 'Reset Music Permissions', value: 'reset', emoji: '🔄', description: 'Restore default action modes and vote rules' }
+                ]);
+
+            const actionMenu = new StringSelectMenuBuilder()
+                .setCustomId('setting_music_action')
+                .setPlaceholder(selectedAction ? `Action: ${MUSIC_ACTION_LABELS[selectedAction]}` : '🎛️ Choose an action...')
+                .addOptions(musicPermissionConfig.actions.map(action => ({
+                    label: MUSIC_ACTION_LABELS[action],
+                    value: action,
+                    description: `Currently: ${modeLabel(action)}`,
+                    default: action === selectedAction
+                })));
+
+            const statsChannelMenu = new ChannelSelectMenuBuilder()
+                .setCustomId('setting_music_stats_channel')
+                .setPlaceholder('📊 Set Monthly Stats Channel...')
+                .setChannelTypes(ChannelType.GuildText)
+                .setMinValues(0)
+                .setMaxValues(1);
+
+            const modeMenu = new StringSelectMenuBuilder()
+                .setCustomId('setting_music_mode')
+                .setPlaceholder('👥 Who can use it...')
+                .setDisabled(!selectedAction)
+                .addOptions((Object.keys(MUSIC_MODE_LABELS) as MusicPermissionMode[])
+                    .filter(mode => mode !== 'vote' || !selectedAction || musicPermissionConfig.voteActions.includes(selectedAction))
+                    .map(mode => ({ label: MUSIC_MODE_LABELS[mode], value: mode })));
+
+            return {
+                embeds: [embed],
+                components: [
+                    new ActionRowBuilder<RoleSelectMenuBuilder>().addComponents(djRoleMenu),
+                    new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(toggleMenu),
+                    new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(actionMenu),
+                    new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(modeMenu),
+                    new ActionRowBuilder<ChannelSelectMenuBuilder>().addComponents(statsChannelMenu)
+                ]
+            };
+        };
+
+        const loadPanel = async () => buildPanel(
+            await musicFacade.getPermissionPolicy(guildId),
+            await musicFacade.getImportLimit(guildId),
+            await musicFacade.getStatsReportChannel(guildId),
+            (await musicFacade.getRequestChannel(guildId))?.channelId ?? null,
+            await musicFacade.getFairQueueSettings(guildId),
+            await musicFacade.getVoteRules(guildId)
+        );
+
+        const response = await interaction.reply({
+            ...await loadPanel(),
+            ephemeral: true,
+            fetchReply: true
+        }) as Message;
+
+        const collector = response.createMessageComponentCollector({
+            time: 300000 // 5 minutes
+        });
+
+        collector.on('collect', async (i) => {
+            try {
+                if (i.customId === 'setting_music_dj_role') {
+                    await musicFacade.setDJRole(guildId, (i as RoleSelectMenuInteraction).values[0] || null);
+                } else if (i.customId === 'setting_music_toggle') {
+                    const option = (i as StringSelectMenuInteraction).values[0];
+                    if (option === 'dj_only') {
+                        const policy = await musicFacade.getPermissionPolicy(guildId);
+                        await musicFacade.setDJOnly(guildId, !policy.djOnly);
+                    } else if (option === 'reset') {
+                        await musicFacade.resetPermissions(guildId);
+                        selectedAction = null;
+                    } else if (option === 'import_limit') {
+                        await this._promptImportLimit(i as StringSelectMenuInteraction);
+                        await interaction.editReply(await loadPanel()).catch(() => {});
+                        return;
+                    } else if (option === 'fair_queue') {
+                        const fairQueue = await musicFacade.getFairQueueSettings(guildId);
+                        await musicFacade.setFairQueue(guildId, !fairQueue.enabled);
+                    } else if (option === 'member_limits') {
+                        await this._promptMemberLimits(i as StringSelectMenuInteraction);
+                        await interaction.editReply(await loadPanel()).catch(() => {});
+                        return;
+                    } else if (option === 'vote_rule' && isVoteAction(selectedAction)) {
+                        await this._promptVoteRule(i as StringSelectMenuInteraction, selectedAction);
+                        await interaction.editReply(await loadPanel()).catch(() => {});
+                        return;
+                    } else if (option === 'request_channel') {
+                        await this._promptRequestChannel(i as StringSelectMenuInteraction);
+                        await interaction.editReply(await loadPanel()).catch(() => {});
+                        return;
+                    }
+                } else if (i.customId === 'setting_music_stats_channel') {
+                    await musicFacade.setStatsReportChannel(guildId, (i as ChannelSelectMenuInteraction).values[0] || null);
+                } else if (i.customId === 'setting_music_action') {
+                    selectedAction = (i as StringSelectMenuInteraction).values[0] as MusicAction;
+                } else if (i.customId === 'setting_music_mode' && selectedAction) {
+                    const mode = (i as StringSelectMenuInteraction).values[0] as MusicPermissionMode;
+                    await musicFacade.setActionPermission(guildId, selectedAction, mode);
+                }
+
+                await i.update(await loadPanel());
+            } catch (error: unknown) {
+                const err = error as { code?: number };
+                if (err.code === 10062) return; // Unknown interaction
+                logger.error('Setting', `Music permissions error: ${error}`);
+                if (!i.replied && !i.deferred) {
+                    await i.reply({ content: '❌ An error occurred.', ephemeral: true }).catch(() => {});
+                }
+            }
+        });
+
+        collector.on('end', async () => {
+            await interaction.editReply({ components: [] }).catch(() => {});
+        });
+    }
+
+    /**
+     * Toggle which member, channel, role and voice events go to the mod log
+     */
+    private async _showModLogEvents(interaction: StringSelectMenuInteraction): Promise<void> {
+        const ModLogService = _modLogService;
+        const guildId = interaction.guildId!;
+
+        const settings = await ModLogService.getSettings(guildId);
+        if (!settings?.log_channel_id) {
+            await interaction.reply({ content: '❌ Set a mod log channel first.', ephemeral: true });
+            return;
+        }
+
+        const flags = Object.keys(MOD_LOG_EVENT_LABELS) as (keyof ModLogSettings)[];
+
+        const buildPanel = (current: ModLogSettings) => {
+            const embed = new EmbedBuilder()
+                .setColor(COLORS.INFO)
+                .setTitle('📋 Mod Log Events')
+                .setDescription(`Logged to <#${current.log_channel_id}>. The moderator is taken from the audit log when the bot can read it.`)
+                .addFields(flags.map(flag => ({
+                    name: `${MOD_LOG_EVENT_LABELS[flag]!.emoji} ${MOD_LOG_EVENT_LABELS[flag]!.label}`,
+                    value: current[flag] ? '✅ On' : '❌ Off',
+                    inline: true
+                })))
+                .setFooter({ text: 'Select every event to log' });
+
+            const menu = new StringSelectMenuBuilder()
+                .setCustomId('setting_modlog_events')
+                .setPlaceholder('📋 Events to log...')
+                .setMinValues(0)
+                .setMaxValues(flags.length)
+                .addOptions(flags.map(flag => ({
+                    label: MOD_LOG_EVENT_LABELS[flag]!.label,
+                    value: flag,
+                    emoji: MOD_LOG_EVENT_LABELS[flag]!.emoji,
+                    description: MOD_LOG_EVENT_LABELS[flag]!.description,
+                    default: current[flag] === true
+                })));
+
+            return {
+                embeds: [embed],
+                components: [new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(menu)]
+            };
+        };
+
+        const response = await interaction.reply({
+            ...buildPanel(settings),
+            ephemeral: true,
+            fetchReply: true
+        }) as Message;
+
+        const collector = response.createMessageComponentCollector({
+            time: 300000 // 5 minutes
+        });
+
+        collector.on('collect', async (i) => {
+            try {
+                if (i.customId !== 'setting_modlog_events') return;
+
+                const selected = (i as StringSelectMenuInteraction).values;
+                const updated = await ModLogService.updateSettings(guildId, Object.fromEntries(
+                    flags.map(flag => [flag, selected.includes(flag)])
+                ) as Partial<ModLogSettings>);
+
+                await i.update(buildPanel(updated ?? settings));
+            } catch (error: unknown) {
+                const err = error as { code?: number };
+                if (err.code === 10062) return; // Unknown interaction
+                logger.error('Setting', `Mod log events error: ${error}`);
+                if (!i.replied && !i.deferred) {
+                    await i.reply({ content: '❌ An error occurred.', ephemeral: true }).catch(() => {});
+                }
+            }
+        });
+
+        collector.on('end', async () => {
+            await interaction.editReply({ components: [] }).catch(() => {});
+        });
+    }
+
+    /**
+     * Ask for the max number of tracks a single playlist import may queue
+     */
+    private async _promptImportLimit(interaction: StringSelectMenuInteraction): Promise<void> {
+        const { minLimit, maxLimit } = playlistImportConfig;
+        const modal = new ModalBuilder()
+            .setCustomId('setting_modal_import_limit')
+            .setTitle('Set Playlist Import Limit');
+
+        const input = new TextInputBuilder()
+            .setCustomId('value')
+            .setLabel(`Tracks per import (${minLimit}-${maxLimit})`)
+            .setStyle(TextInputStyle.Short)
+            .setValue(String(await _musicFacade.getImportLimit(interaction.guildId!)))
+            .setRequired(true)
+            .setMinLength(1)
+            .setMaxLength(3);
+
+        modal.addComponents(new ActionRowBuilder<TextInputBuilder>().addComponents(input));
+        await interaction.showModal(modal);
+
+        try {
+            const modalSubmit = await interaction.awaitModalSubmit({
+                filter: i => i.customId === 'setting_modal_import_limit',
+                time: 60000
+            });
+
+            const result = await _musicFacade.setImportLimit(interaction.guildId!, Number(modalSubmit.fields.getTextInputValue('value')));
+            await modalSubmit.reply({
+                content: result.isOk() ? `✅ Playlist imports now queue at most **${result.data}** tracks.` : `❌ ${result.error}`,
+                ephemeral: true
+            });
+        } catch {
+            // Modal timeout - ignore
+        }
+    }
+
+    /**
+     * Ask for the per-member caps on waiting tracks and waiting time; blank removes a cap
+     */
+    private async _promptMemberLimits(interaction: StringSelectMenuInteraction): Promise<void> {
+        const { maxTracksPerUser: trackRange, maxMinutesPerUser: minuteRange } = fairQueueConfig;
+        const current = await _musicFacade.getFairQueueSettings(interaction.guildId!);
+
+        const modal = new ModalBuilder()
+            .setCustomId('setting_modal_member_limits')
+            .setTitle('Set Queue Limits per Member');
+
+        const tracksInput = new TextInputBuilder()
+            .setCustomId('tracks')
+            .setLabel(`Waiting tracks (${trackRange.min}-${trackRange.max}, blank = no limit)`)
+            .setStyle(TextInputStyle.Short)
+            .setValue(current.maxTracksPerUser ? String(current.maxTracksPerUser) : '')
+            .setRequired(false)
+            .setMaxLength(3);
+
+        const minutesInput = new TextInputBuilder()
+            .setCustomId('minutes')
+            .setLabel(`Waiting minutes (${minuteRange.min}-${minuteRange.max}, blank = no limit)`)
+            .setStyle(TextInputStyle.Short)
+            .setValue(current.maxDurationPerUser ? String(Math.round(current.maxDurationPerUser / 60)) : '')
+            .setRequired(false)
+            .setMaxLength(4);
+
+        modal.addComponents(
+            new ActionRowBuilder<TextInputBuilder>().addComponents(tracksInput),
+            new ActionRowBuilder<TextInputBuilder>().addComponents(minutesInput)
+        );
+        await interaction.showModal(modal);
+
+        try {
+            const modalSubmit = await interaction.awaitModalSubmit({
+                filter: i => i.customId === 'setting_modal_member_limits',
+                time: 60000
+            });
+
+            const tracks = modalSubmit.fields.getTextInputValue('tracks').trim();
+            const minutes = modalSubmit.fields.getTextInputValue('minutes').trim();
+            const result = await _musicFacade.setQueueLimits(
+                interaction.guildId!,
+                tracks ? Number(tracks) : null,
+                minutes ? Number(minutes) * 60 : null
+            );
+            await modalSubmit.reply({
+                content: result.isOk() ? '✅ Queue limits per member updated.' : `❌ ${result.error}`,
+                ephemeral: true
+            });
+        } catch {
+            // Modal timeout - ignore
+        }
+    }
+
+    /**
+     * Ask for the share of listeners a vote on the action needs and how long it stays open
+     */
+    private async _promptVoteRule(interaction: StringSelectMenuInteraction, action: VoteAction): Promise<void> {
+        const { thresholdPercent: percentRange, timeoutRange } = votingConfig;
+        const current = await _musicFacade.getVoteRule(interaction.guildId!, action);
+
+        const modal = new ModalBuilder()
+            .setCustomId('setting_modal_vote_rule')
+            .setTitle(`Set Vote Rule for ${MUSIC_ACTION_LABELS[action]}`);
+
+        const thresholdInput = new TextInputBuilder()
+            .setCustomId('threshold')
+            .setLabel(`Listeners that must agree, % (${percentRange.min}-${percentRange.max})`)
+            .setStyle(TextInputStyle.Short)
+            .setValue(String(Math.round(current.threshold * 100)))
+            .setRequired(true)
+            .setMaxLength(3);
+
+        const timeoutInput = new TextInputBuilder()
+            .setCustomId('timeout')
+            .setLabel(`Seconds the vote stays open (${timeoutRange.min}-${timeoutRange.max})`)
+            .setStyle(TextInputStyle.Short)
+            .setValue(String(current.timeoutSeconds))
+            .setRequired(true)
+            .setMaxLength(3);
+
+        modal.addComponents(
+            new ActionRowBuilder<TextInputBuilder>().addComponents(thresholdInput),
+            new ActionRowBuilder<TextInputBuilder>().addComponents(timeoutInput)
+        );
+        await interaction.showModal(modal);
+
+        try {
+            const modalSubmit = await interaction.awaitModalSubmit({
+                filter: i => i.customId === 'setting_modal_vote_rule',
+                time: 60000
+            });
+
+            const result = await _musicFacade.setVoteRule(
+                interaction.guildId!,
+                action,
+                Number(modalSubmit.fields.getTextInputValue('threshold').trim()),
+                Number(modalSubmit.fields.getTextInputValue('timeout').trim())
+            );
+            await modalSubmit.reply({
+                content: result.isOk()
+                    ? `✅ ${MUSIC_ACTION_LABELS[action]} votes now need **${describeVoteRule(result.data!)}**.`
+                    : `❌ ${result.error}`,
+                ephemeral: true
+            });
+        } catch {
+            // Modal timeout - ignore
+        }
+    }
+
+    /**
+     * Ask for the song request channel; picking none turns the feature off
+     */
+    private async _promptRequestChannel(interaction: StringSelectMenuInteraction): Promise<void> {
+        const channelMenu = new ChannelSelectMenuBuilder()
+            .setCustomId('setting_music_request_channel')
+            .setPlaceholder('🎶 Pick the song request channel...')
+            .setChannelTypes(ChannelType.GuildText)
+            .setMinValues(0)
+            .setMaxValues(1);
+
+        const prompt = await interaction.reply({
+            content: 'Every message sent in this channel will be queued as a song and deleted. Pick none to turn it off.',
+            components: [new ActionRowBuilder<ChannelSelectMenuBuilder>().addComponents(channelMenu)],
+            ephemeral: true,
+            fetchReply: true
+        }) as Message;
+
+        try {
+            const selected = await prompt.awaitMessageComponent({
+                filter: i => i.customId === 'setting_music_request_channel' && i.user.id === interaction.user.id,
+                time: 60000
+            }) as ChannelSelectMenuInteraction;
+
+            const channelId = selected.values[0] || null;
+            const saved = await _musicFacade.setRequestChannel(interaction.guild!, channelId);
+            await selected.update({
+                content: !saved
+                    ? '❌ Could not save the song request channel.'
+                    : channelId
+                        ? `✅ Song requests are now taken in <#${channelId}>.`
+                        : '✅ The song request channel has been turned off.',
+                components: []
+            });
+        } catch {
+            // Selection timeout - ignore
+        }
+    }
+
     private async _handleModLogChannel(interaction: ChannelSelectMenuInteraction): Promise<void> {
         const ModLogService = _modLogService;
         if (!ModLogService) return;
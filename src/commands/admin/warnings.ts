@@ -12,6 +12,7 @@ import {
     ButtonStyle,
     PermissionFlagsBits,
     ChatInputCommandInteraction,
+    GuildMember,
     User,
     Message
 } from 'discord.js';
@@ -19,6 +20,7 @@ import { BaseCommand, CommandCategory, CommandData } from '../baseCommand.js';
 import { formatDuration } from '../../utils/common/time.js';
 import logger from '../../core/observability/Logger.js';
 import { infractionService as _infractionSvc } from '../../services/moderation/index.js';
+import { GuildSettingsService } from '../../services/guild/index.js';
 import _moderationConfigModule from '../../config/features/moderation/index.js';
 import type { Infraction } from '../../types/moderation/infraction.js';
 import type { InfractionService } from '../../types/moderation/services.js';
@@ -66,7 +68,7 @@ class WarningsCommand extends BaseCommand {
 
         try {
             // Get infractions
-            const infractions = await infractionService?.getUserHistory?.(
+            const history = await infractionService?.getUserHistory?.(
                 interaction.guild.id,
                 targetUser.id,
                 {
@@ -76,6 +78,10 @@ class WarningsCommand extends BaseCommand {
                 }
             ) || [];
 
+            // Voided cases stay visible to admins only
+            const isAdmin = await GuildSettingsService.hasAdminPermission(interaction.member as GuildMember);
+            const infractions = isAdmin ? history : history.filter(infraction => !infraction.voided_at);
+
             if (infractions.length === 0) {
                 const embed = new EmbedBuilder()
                     .setColor(0x00FF00)
@@ -180,7 +186,9 @@ class WarningsCommand extends BaseCommand {
                     value += `\n**Duration:** ${formatDuration(infraction.duration_ms)}`;
                 }
 
-                if (!infraction.active) {
+                if (infraction.voided_at) {
+                    value += '\n*🚫 Voided*';
+                } else if (!infraction.active) {
                     value += '\n*⚠️ Inactive*';
                 }
 
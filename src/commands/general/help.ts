@@ -130,7 +130,8 @@ class HelpCommand extends BaseCommand {
                         { 
                             name: '📋 Queue', 
                             value: [
-                                '`/music queue` - View the current queue',
+                                '`/music queue view` - View the current queue',
+                                '`/music queue export` / `import` - Save the queue to a file or load one',
                                 '`/music nowplaying` - Show current track',
                                 '`/music shuffle` - Shuffle the queue',
                                 '`/music remove [position]` - Remove a track'
@@ -218,6 +219,7 @@ class HelpCommand extends BaseCommand {
                                 '`/kick [@user] [reason]` - Kick a user',
                                 '`/ban [@user] [reason]` - Ban a user',
                                 '`/mute [@user] [duration]` - Timeout a user',
+                                '`/mute role [@user] [role] [duration]` - Give a role for a while',
                                 '`/warn [@user] [reason]` - Warn a user'
                             ].join('\n'),
                             inline: false 
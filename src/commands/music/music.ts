@@ -4,13 +4,28 @@
  * @module commands/music/MusicCommand
  */
 
-import { SlashCommandBuilder, ChatInputCommandInteraction, ButtonInteraction, AutocompleteInteraction } from 'discord.js';
+import { SlashCommandBuilder, ChatInputCommandInteraction, ButtonInteraction, StringSelectMenuInteraction, AutocompleteInteraction } from 'discord.js';
 import { BaseCommand, CommandCategory, CommandData } from '../baseCommand.js';
 import { checkAccess, AccessType } from '../../services/index.js';
 import logger from '../../core/observability/Logger.js';
-import _musicHandlers, { historyHandler } from '../../handlers/music/index.js';
-import lavalinkService from '../../services/music/core/lavalinkService.js';
+import _musicHandlers, { historyHandler, trackHandler } from '../../handlers/music/index.js';
+import { musicFacade } from '../../services/music/core/musicFacade.js';
+import { search as searchConfig, sleepTimer as sleepTimerConfig, directAudio as directAudioConfig, radio as radioConfig } from '../../config/features/music.js';
 import type { MusicHandler, MusicHandlers } from '../../types/commands/music.js';
+import type { TimedAutocompleteCache as AutocompleteCache } from '../../types/api/models/content-session.js';
+// CACHE
+const autocompleteCache = new Map<string, AutocompleteCache>();
+
+// Cleanup
+const cacheCleanupTimer = setInterval(() => {
+    const now = Date.now();
+    for (const [key, value] of autocompleteCache) {
+        if (now - value.timestamp > searchConfig.autocompleteCacheTtl) {
+            autocompleteCache.delete(key);
+        }
+    }
+}, 60000);
+cacheCleanupTimer.unref(); // Don't prevent process exit
 // COMMAND
 class MusicCommand extends BaseCommand {
     private _handlers: MusicHandlers | null = null;
@@ -38,18 +53,28 @@ class MusicCommand extends BaseCommand {
             // Play subcommand
             .addSubcommand(sub => sub
                 .setName('play')
-                .setDescription('Play a song or playlist')
+                .setDescription('Play a song, playlist, stream link or audio file')
                 .addStringOption(opt => opt
                     .setName('query')
-                    .setDescription('Song name, URL, or playlist URL')
-                    .setRequired(true)
+                    .setDescription('Song name, URL, playlist URL or stream URL')
+                    .setRequired(false)
                     .setAutocomplete(true)
                 )
+                .addAttachmentOption(opt => opt
+                    .setName('file')
+                    .setDescription(`Audio file to play (${directAudioConfig.extensions.join(', ')})`)
+                    .setRequired(false)
+                )
                 .addBooleanOption(opt => opt
                     .setName('shuffle')
                     .setDescription('Shuffle the playlist')
                     .setRequired(false)
                 )
+                .addBooleanOption(opt => opt
+                    .setName('pick')
+                    .setDescription('Choose from the top results instead of playing the first match')
+                    .setRequired(false)
+                )
             )
             
             // Stop subcommand
@@ -64,28 +89,180 @@ class MusicCommand extends BaseCommand {
                 .setDescription('Skip the current track')
             )
             
+            // Previous subcommand
+            .addSubcommand(sub => sub
+                .setName('previous')
+                .setDescription('Go back to the previously played track')
+            )
+            
+            // Replay subcommand
+            .addSubcommand(sub => sub
+                .setName('replay')
+                .setDescription('Restart the current track from the beginning')
+            )
+            
+            // Sleep subcommand
+            .addSubcommand(sub => sub
+                .setName('sleep')
+                .setDescription('Stop playback after this track, after a number of tracks or after a while')
+                .addIntegerOption(opt => opt
+                    .setName('minutes')
+                    .setDescription('Stop after this many minutes')
+                    .setRequired(false)
+                    .setMinValue(1)
+                    .setMaxValue(sleepTimerConfig.maxMinutes)
+                )
+                .addIntegerOption(opt => opt
+                    .setName('tracks')
+                    .setDescription('Stop after this many tracks, counting the current one')
+                    .setRequired(false)
+                    .setMinValue(1)
+                    .setMaxValue(sleepTimerConfig.maxTracks)
+                )
+                .addBooleanOption(opt => opt
+                    .setName('off')
+                    .setDescription('Cancel the sleep timer')
+                    .setRequired(false)
+                )
+            )
+            
             // Pause subcommand
             .addSubcommand(sub => sub
                 .setName('pause')
                 .setDescription('Pause or resume playback')
             )
             
-            // Queue subcommand
-            .addSubcommand(sub => sub
+            // Queue view, export and import
+            .addSubcommandGroup(group => group
                 .setName('queue')
-                .setDescription('View the queue')
+                .setDescription('View the queue, or export it to / import it from a file')
+                .addSubcommand(sub => sub
+                    .setName('view')
+                    .setDescription('View the queue')
+                    .addIntegerOption(opt => opt
+                        .setName('page')
+                        .setDescription('Page number')
+                        .setRequired(false)
+                        .setMinValue(1)
+                    )
+                )
+                .addSubcommand(sub => sub
+                    .setName('export')
+                    .setDescription('Save the current queue as a file')
+                    .addStringOption(opt => opt
+                        .setName('format')
+                        .setDescription('File format')
+                        .setRequired(true)
+                        .addChoices(
+                            { name: 'JSON (restores exactly)', value: 'json' },
+                            { name: 'M3U playlist', value: 'm3u' }
+                        )
+                    )
+                )
+                .addSubcommand(sub => sub
+                    .setName('import')
+                    .setDescription('Queue the tracks of a .json queue export or .m3u playlist')
+                    .addAttachmentOption(opt => opt
+                        .setName('file')
+                        .setDescription('Queue file (.json or .m3u)')
+                        .setRequired(true)
+                    )
+                )
+            )
+            
+            // Now Playing subcommand
+            .addSubcommand(sub => sub
+                .setName('nowplaying')
+                .setDescription('Show currently playing track')
+            )
+            
+            // Seek subcommand
+            .addSubcommand(sub => sub
+                .setName('seek')
+                .setDescription('Jump to a position in the current track')
+                .addStringOption(opt => opt
+                    .setName('timestamp')
+                    .setDescription('Position like 1:23 or 83, or relative like +30 / -15')
+                    .setRequired(true)
+                    .setMaxLength(12)
+                )
+            )
+            
+            // Lyrics subcommand
+            .addSubcommand(sub => sub
+                .setName('lyrics')
+                .setDescription('Show lyrics for the current track')
+                .addBooleanOption(opt => opt
+                    .setName('live')
+                    .setDescription('Follow along with synced lyrics as the track plays')
+                )
                 .addIntegerOption(opt => opt
                     .setName('page')
                     .setDescription('Page number')
-                    .setRequired(false)
                     .setMinValue(1)
                 )
             )
             
-            // Now Playing subcommand
+            // Stats subcommand
             .addSubcommand(sub => sub
-                .setName('nowplaying')
-                .setDescription('Show currently playing track')
+                .setName('stats')
+                .setDescription('Listening stats for this server or a member')
+                .addUserOption(opt => opt
+                    .setName('user')
+                    .setDescription('Show stats for tracks this member requested')
+                )
+                .addStringOption(opt => opt
+                    .setName('period')
+                    .setDescription('Time period (default: last 30 days)')
+                    .addChoices(
+                        { name: 'Last 7 days', value: 'week' },
+                        { name: 'Last 30 days', value: 'month' },
+                        { name: 'Last 12 months', value: 'year' },
+                        { name: 'All time', value: 'all' }
+                    )
+                )
+            )
+            
+            // Filter subcommand
+            .addSubcommand(sub => sub
+                .setName('filter')
+                .setDescription('Apply audio filters, edit the equalizer or change speed/pitch')
+                .addStringOption(opt => opt
+                    .setName('preset')
+                    .setDescription('Filter preset')
+                    .addChoices(
+                        { name: '✖️ Off', value: 'off' },
+                        { name: '🔊 Bass Boost', value: 'bassboost' },
+                        { name: '🌙 Nightcore', value: 'nightcore' },
+                        { name: '🌴 Vaporwave', value: 'vaporwave' },
+                        { name: '🎧 8D Audio', value: '8d' },
+                        { name: '🎤 Karaoke', value: 'karaoke' }
+                    )
+                )
+                .addIntegerOption(opt => opt
+                    .setName('band')
+                    .setDescription('Equalizer band (1 = 25Hz … 15 = 16kHz)')
+                    .setMinValue(1)
+                    .setMaxValue(15)
+                )
+                .addNumberOption(opt => opt
+                    .setName('gain')
+                    .setDescription('Band gain (-0.25 to 1.0, 0 = flat)')
+                    .setMinValue(-0.25)
+                    .setMaxValue(1)
+                )
+                .addNumberOption(opt => opt
+                    .setName('speed')
+                    .setDescription('Playback speed (0.5x - 2x)')
+                    .setMinValue(0.5)
+                    .setMaxValue(2)
+                )
+                .addNumberOption(opt => opt
+                    .setName('pitch')
+                    .setDescription('Pitch (0.5x - 2x)')
+                    .setMinValue(0.5)
+                    .setMaxValue(2)
+                )
             )
             
             // Volume subcommand
@@ -174,7 +351,119 @@ class MusicCommand extends BaseCommand {
             // Autoplay subcommand
             .addSubcommand(sub => sub
                 .setName('autoplay')
-                .setDescription('Toggle autoplay mode')
+                .setDescription('Toggle autoplay or choose how it picks tracks')
+                .addStringOption(opt => opt
+                    .setName('mode')
+                    .setDescription('How autoplay picks the next track (turns autoplay on)')
+                    .addChoices(
+                        { name: '🎯 Similar', value: 'similar' },
+                        { name: '🧭 Discovery', value: 'discovery' },
+                        { name: '🎤 Same artist', value: 'artist' },
+                        { name: '⭐ Favourites only', value: 'favorites' }
+                    )
+                )
+            )
+
+            // 24/7 subcommand
+            .addSubcommand(sub => sub
+                .setName('247')
+                .setDescription('Keep the bot in voice and autoplaying around the clock')
+                .addBooleanOption(opt => opt
+                    .setName('enabled')
+                    .setDescription('Turn 24/7 mode on or off (toggles when omitted)')
+                )
+            )
+
+            // Saved playlists
+            .addSubcommandGroup(group => group
+                .setName('radio')
+                .setDescription('Internet radio stations')
+                .addSubcommand(sub => sub
+                    .setName('play')
+                    .setDescription('Tune in to a radio station')
+                    .addStringOption(opt => opt.setName('station').setDescription('Station name').setRequired(true).setAutocomplete(true))
+                )
+                .addSubcommand(sub => sub
+                    .setName('list')
+                    .setDescription('Show this server\'s radio stations')
+                )
+                .addSubcommand(sub => sub
+                    .setName('add')
+                    .setDescription('Add or update a radio station (DJ only)')
+                    .addStringOption(opt => opt.setName('name').setDescription('Station name').setRequired(true).setMaxLength(radioConfig.maxNameLength))
+                    .addStringOption(opt => opt.setName('url').setDescription('Stream URL').setRequired(true))
+                    .addStringOption(opt => opt.setName('genre').setDescription('Genre shown in the list').setRequired(false).setMaxLength(50))
+                )
+                .addSubcommand(sub => sub
+                    .setName('remove')
+                    .setDescription('Remove a radio station (DJ only)')
+                    .addStringOption(opt => opt.setName('station').setDescription('Station name').setRequired(true).setAutocomplete(true))
+                )
+                .addSubcommand(sub => sub
+                    .setName('reset')
+                    .setDescription('Restore the default radio stations (DJ only)')
+                )
+            )
+            .addSubcommandGroup(group => group
+                .setName('playlist')
+                .setDescription('Manage your saved playlists')
+                .addSubcommand(sub => sub
+                    .setName('create')
+                    .setDescription('Create a new playlist')
+                    .addStringOption(opt => opt.setName('name').setDescription('Playlist name').setRequired(true).setMaxLength(100))
+                )
+                .addSubcommand(sub => sub
+                    .setName('add')
+                    .setDescription('Save the current track to a playlist')
+                    .addStringOption(opt => opt.setName('name').setDescription('Playlist name').setRequired(true).setAutocomplete(true))
+                )
+                .addSubcommand(sub => sub
+                    .setName('addqueue')
+                    .setDescription('Save the current track and the whole queue to a playlist')
+                    .addStringOption(opt => opt.setName('name').setDescription('Playlist name').setRequired(true).setAutocomplete(true))
+                )
+                .addSubcommand(sub => sub
+                    .setName('remove')
+                    .setDescription('Remove a track from a playlist')
+                    .addStringOption(opt => opt.setName('name').setDescription('Playlist name').setRequired(true).setAutocomplete(true))
+                    .addIntegerOption(opt => opt.setName('position').setDescription('Track position (1 = first)').setRequired(true).setMinValue(1))
+                )
+                .addSubcommand(sub => sub
+                    .setName('rename')
+                    .setDescription('Rename a playlist')
+                    .addStringOption(opt => opt.setName('name').setDescription('Playlist name').setRequired(true).setAutocomplete(true))
+                    .addStringOption(opt => opt.setName('new_name').setDescription('New name').setRequired(true).setMaxLength(100))
+                )
+                .addSubcommand(sub => sub
+                    .setName('delete')
+                    .setDescription('Delete a playlist')
+                    .addStringOption(opt => opt.setName('name').setDescription('Playlist name').setRequired(true).setAutocomplete(true))
+                )
+                .addSubcommand(sub => sub
+                    .setName('list')
+                    .setDescription('List your playlists or someone else\'s public playlists')
+                    .addUserOption(opt => opt.setName('user').setDescription('Playlist owner').setRequired(false))
+                )
+                .addSubcommand(sub => sub
+                    .setName('view')
+                    .setDescription('View the tracks in a playlist')
+                    .addStringOption(opt => opt.setName('name').setDescription('Playlist name').setRequired(true).setAutocomplete(true))
+                    .addUserOption(opt => opt.setName('user').setDescription('Playlist owner (public playlists only)').setRequired(false))
+                    .addIntegerOption(opt => opt.setName('page').setDescription('Page number').setRequired(false).setMinValue(1))
+                )
+                .addSubcommand(sub => sub
+                    .setName('load')
+                    .setDescription('Add a playlist to the queue')
+                    .addStringOption(opt => opt.setName('name').setDescription('Playlist name').setRequired(true).setAutocomplete(true))
+                    .addUserOption(opt => opt.setName('user').setDescription('Playlist owner (public playlists only)').setRequired(false))
+                    .addBooleanOption(opt => opt.setName('shuffle').setDescription('Shuffle the playlist').setRequired(false))
+                )
+                .addSubcommand(sub => sub
+                    .setName('share')
+                    .setDescription('Make a playlist public or private')
+                    .addStringOption(opt => opt.setName('name').setDescription('Playlist name').setRequired(true).setAutocomplete(true))
+                    .addBooleanOption(opt => opt.setName('public').setDescription('Public (default: true)').setRequired(false))
+                )
             )
             
 ;
@@ -203,6 +492,21 @@ class MusicCommand extends BaseCommand {
         // Delegate to appropriate handler
         const handlers = this.handlers;
         try {
+            if (interaction.options.getSubcommandGroup(false) === 'playlist' && handlers.handlePlaylist) {
+                await handlers.handlePlaylist(interaction, guildId, userId);
+                return;
+            }
+
+            if (interaction.options.getSubcommandGroup(false) === 'radio' && handlers.handleRadio) {
+                await handlers.handleRadio(interaction, guildId, userId);
+                return;
+            }
+
+            if (interaction.options.getSubcommandGroup(false) === 'queue' && handlers.handleQueue) {
+                await handlers.handleQueue(interaction, guildId, userId);
+                return;
+            }
+
             if (subcommand === 'history') {
                 await historyHandler.handleHistoryList(interaction, userId);
                 return;
@@ -213,16 +517,23 @@ class MusicCommand extends BaseCommand {
                 'play': handlers.handlePlay,
                 'stop': handlers.handleStop,
                 'skip': handlers.handleSkip,
+                'previous': handlers.handlePrevious,
+                'replay': handlers.handleReplay,
+                'sleep': handlers.handleSleep,
                 'pause': handlers.handlePause,
-                'queue': handlers.handleQueue,
                 'nowplaying': handlers.handleNowPlaying,
                 'volume': handlers.handleVolume,
+                'seek': handlers.handleSeek,
+                'filter': handlers.handleFilter,
+                'lyrics': handlers.handleLyrics,
+                'stats': handlers.handleStats,
                 'loop': handlers.handleLoop,
                 'shuffle': handlers.handleShuffle,
                 'remove': handlers.handleRemove,
                 'move': handlers.handleMove,
                 'clear': handlers.handleClear,
                 'autoplay': handlers.handleAutoPlay,
+                '247': handlers.handleTwentyFourSeven,
             };
 
             const handler = handlerMap[subcommand];
@@ -259,15 +570,27 @@ class MusicCommand extends BaseCommand {
         }
     }
 
+    async handleSelectMenu(interaction: StringSelectMenuInteraction): Promise<void> {
+        try {
+            const handleSelectMenu = this.handlers?.handleSelectMenu;
+            if (handleSelectMenu) {
+                await handleSelectMenu(interaction);
+                return;
+            }
+        } catch (error) {
+            logger.error('Music', `Select menu error: ${(error as Error).message}`);
+            if (!interaction.replied && !interaction.deferred) {
+                await interaction.reply({ content: '❌ An error occurred.', ephemeral: true });
+            }
+        }
+    }
+
     private static readonly PLAYLIST_PATTERNS = [
         /youtube\.com.*list=/i,
         /spotify\.com\/playlist\//i,
         /spotify\.com\/album\//i,
     ];
 
-    private static readonly autocompleteCache = new Map<string, { results: Array<{ name: string; value: string }>; timestamp: number }>();
-    private static readonly AUTOCOMPLETE_CACHE_TTL = 30000;
-
     async autocomplete(interaction: AutocompleteInteraction): Promise<void> {
         const safeRespond = async (choices: Array<{ name: string; value: string }>): Promise<void> => {
             try {
@@ -279,6 +602,16 @@ class MusicCommand extends BaseCommand {
             }
         };
 
+        if (interaction.options.getSubcommandGroup(false) === 'playlist') {
+            await this._autocompletePlaylistName(interaction, safeRespond);
+            return;
+        }
+
+        if (interaction.options.getSubcommandGroup(false) === 'radio') {
+            await this._autocompleteRadioStation(interaction, safeRespond);
+            return;
+        }
+
         const focused = interaction.options.getFocused();
 
         if (focused.length < 2) {
@@ -299,31 +632,65 @@ class MusicCommand extends BaseCommand {
         }
 
         const cacheKey = focused.toLowerCase().trim();
-        const cached = MusicCommand.autocompleteCache.get(cacheKey);
-        if (cached && Date.now() - cached.timestamp < MusicCommand.AUTOCOMPLETE_CACHE_TTL) {
+        const cached = autocompleteCache.get(cacheKey);
+        if (cached && Date.now() - cached.timestamp < searchConfig.autocompleteCacheTtl) {
             await safeRespond(cached.results);
             return;
         }
 
         try {
-            const results = await lavalinkService.searchMultiple(focused, 10);
-            const choices = results.slice(0, 25).map(track => {
-                const title = track.title || track.info?.title || 'Unknown';
-                const author = track.author || track.info?.author || '';
-                const display = author ? `${title} — ${author}` : title;
-                return {
-                    name: display.length > 100 ? display.slice(0, 97) + '...' : display,
-                    value: (track.url || track.info?.uri || title).slice(0, 100)
-                };
-            });
+            const results = await musicFacade.searchMultiple(focused, searchConfig.autocompleteResults);
+            const choices = results.slice(0, 25).map(track => ({
+                name: trackHandler.formatSearchChoice(track),
+                // Long URLs don't fit in a choice value; fall back to the title as a new query
+                value: track.url && track.url.length <= 100 ? track.url : (track.title || focused).slice(0, 100)
+            }));
 
-            MusicCommand.autocompleteCache.set(cacheKey, { results: choices, timestamp: Date.now() });
+            autocompleteCache.set(cacheKey, { results: choices, timestamp: Date.now() });
             await safeRespond(choices);
         } catch (error) {
             logger.debug('Music', `Autocomplete error: ${(error as Error).message}`);
             try { await safeRespond([]); } catch { /* ignore */ }
         }
     }
+
+    private async _autocompleteRadioStation(
+        interaction: AutocompleteInteraction,
+        respond: (choices: Array<{ name: string; value: string }>) => Promise<void>
+    ): Promise<void> {
+        const focused = interaction.options.getFocused().toLowerCase();
+
+        try {
+            const stations = await musicFacade.getRadioStations(interaction.guildId!);
+            await respond(stations
+                .filter(s => s.name.toLowerCase().includes(focused))
+                .slice(0, 25)
+                .map(s => ({ name: (s.genre ? `${s.name} • ${s.genre}` : s.name).slice(0, 100), value: s.name })));
+        } catch (error) {
+            logger.debug('Music', `Radio autocomplete error: ${(error as Error).message}`);
+            await respond([]);
+        }
+    }
+
+    private async _autocompletePlaylistName(
+        interaction: AutocompleteInteraction,
+        respond: (choices: Array<{ name: string; value: string }>) => Promise<void>
+    ): Promise<void> {
+        const focused = interaction.options.getFocused().toLowerCase();
+        const owner = interaction.options.get('user')?.value as string | undefined;
+        const ownerId = owner || interaction.user.id;
+
+        try {
+            const playlists = await musicFacade.getUserPlaylists(ownerId, ownerId !== interaction.user.id);
+            await respond(playlists
+                .filter(p => p.name.toLowerCase().includes(focused))
+                .slice(0, 25)
+                .map(p => ({ name: `${p.name} (${p.tracks.length} tracks)`.slice(0, 100), value: p.name })));
+        } catch (error) {
+            logger.debug('Music', `Playlist autocomplete error: ${(error as Error).message}`);
+            await respond([]);
+        }
+    }
 }
 
 export default new MusicCommand();
@@ -5,8 +5,8 @@
  */
 
 // Multi-node configuration for high availability
-// Shoukaku automatically load balances players across nodes
-// If one node dies, players migrate to other nodes
+// New players go to the healthiest node (see nodeHealth below)
+// If one node dies or degrades, its players migrate to other nodes
 export const nodes = [
     {
         name: 'node-1',
@@ -50,11 +50,28 @@ export const shoukakuOptions = {
     userAgent: 'Shoukaku/4.2'
 };
 
+// Node health scoring, from each node's Lavalink stats (lower score = healthier)
+export const nodeHealth = {
+    pollIntervalMs: 15_000,
+    pingTimeoutMs: 5_000,
+    weights: {
+        cpu: 100,           // at 100% system load (Lavalink reports 0-1)
+        frameDeficit: 0.05, // per missing or nulled frame in the last minute
+        players: 1,         // per playing player
+        ping: 0.1           // per ms of REST round trip
+    },
+    degradedScore: 150,     // a poll at or above this counts as unhealthy
+    maxPingMs: 1_000,
+    degradedAfterChecks: 2, // consecutive unhealthy polls before draining a node
+    maxMigrationsPerPoll: 10
+};
+
 export default {
     nodes,
     clientName,
     defaultSearchPlatform,
     fallbackSearchPlatform,
     playerOptions,
-    shoukakuOptions
+    shoukakuOptions,
+    nodeHealth
 };
@@ -50,6 +50,73 @@ const automodConfig: AutomodConfig = {
         allowMedia: true,
         mediaExtensions: ['.jpg', '.jpeg', '.png', '.gif', '.webp', '.mp4', '.webm', '.mov']
     },
+    // PHISHING / SCAM LINKS & DANGEROUS FILES
+    phishing: {
+        enabled: false,
+        action: 'delete_warn',
+        domains: [
+            'dlscord.com',
+            'dlscord.gift',
+            'discorcl.com',
+            'discrod.gift',
+            'dicsord.com',
+            'discord-app.net',
+            'discord-nitro.com',
+            'discord-gifts.com',
+            'discordgift.site',
+            'discordc.gift',
+            'nitro-discord.com',
+            'discord-airdrop.com',
+            'free-nitro.ru',
+            'steamcommunlty.com',
+            'steamcommunity.ru',
+            'steamncommunity.com',
+            'stearncommunity.com',
+            'steamcommnunity.com',
+            'steam-trade.ru',
+            'csgo-skins.gift'
+        ],
+        protectedDomains: [
+            'discord.com',
+            'discord.gg',
+            'discord.gift',
+            'discord.media',
+            'discord.new',
+            'discordapp.com',
+            'discordapp.net',
+            'discordstatus.com',
+            'steamcommunity.com',
+            'steampowered.com',
+            'steamstatic.com'
+        ],
+        baitWords: ['nitro', 'gift', 'gifts', 'free', 'airdrop', 'giveaway', 'promo', 'claim', 'trade', 'skins'],
+        lookalikeMaxDistance: 2,
+        shorteners: [
+            'bit.ly',
+            'tinyurl.com',
+            't.co',
+            'goo.gl',
+            'is.gd',
+            'cutt.ly',
+            'rebrand.ly',
+            'ow.ly',
+            'shorturl.at',
+            'rb.gy',
+            'tiny.cc',
+            's.id'
+        ],
+        maxRedirects: 5,
+        expandTimeoutMs: 3000,
+        // .js (shared code) and .com (domain-like names such as notes.com) are left out on purpose
+        blockedExtensions: [
+            '.exe', '.scr', '.bat', '.cmd', '.pif', '.msi', '.vbs', '.vbe',
+            '.jse', '.wsf', '.jar', '.ps1', '.hta', '.lnk', '.reg', '.cpl', '.apk'
+        ],
+        decoyExtensions: [
+            '.pdf', '.doc', '.docx', '.xls', '.xlsx', '.txt',
+            '.jpg', '.jpeg', '.png', '.gif', '.webp', '.mp3', '.wav', '.mp4', '.mov', '.webm'
+        ]
+    },
     // DISCORD INVITE FILTER
     invites: {
         enabled: false,
@@ -15,6 +15,7 @@ const filtersConfig: FiltersConfig = {
         normalizeUnicode: true,
         checkLeetspeak: true,
         stripZalgo: true,
+        collapseSeparators: true,
         minWordLength: 2,
         logContent: false,
         logChannel: null
@@ -76,13 +77,22 @@ const filtersConfig: FiltersConfig = {
         // Greek lookalikes
         'α': 'a', 'β': 'b', 'ε': 'e', 'η': 'n', 'ι': 'i',
         'κ': 'k', 'ν': 'n', 'ο': 'o', 'ρ': 'p', 'τ': 't', 'υ': 'u',
+        'χ': 'x', 'ω': 'w', 'γ': 'y',
         
         // Cyrillic lookalikes  
         'а': 'a', 'в': 'b', 'с': 'c', 'е': 'e', 'н': 'h',
-        'к': 'k', 'м': 'm', 'о': 'o', 'р': 'p', 'т': 't', 'х': 'x', 'у': 'y'
+        'к': 'k', 'м': 'm', 'о': 'o', 'р': 'p', 'т': 't', 'х': 'x', 'у': 'y',
+        'і': 'i', 'ї': 'i', 'ј': 'j', 'ѕ': 's', 'ԁ': 'd', 'һ': 'h', 'ӏ': 'l',
+        'ԛ': 'q', 'ԝ': 'w', 'ѵ': 'v', 'ё': 'e',
+
+        // Latin lookalikes
+        'ı': 'i', 'ɑ': 'a', 'ɡ': 'g', 'ʏ': 'y', 'ɴ': 'n', 'ʀ': 'r', 'ᴀ': 'a',
+        'ʙ': 'b', 'ᴄ': 'c', 'ᴅ': 'd', 'ᴇ': 'e', 'ʜ': 'h', 'ɪ': 'i', 'ᴋ': 'k',
+        'ʟ': 'l', 'ᴍ': 'm', 'ᴏ': 'o', 'ᴘ': 'p', 'ꜱ': 's', 'ᴛ': 't', 'ᴜ': 'u',
+        'ᴠ': 'v', 'ᴡ': 'w', 'ᴢ': 'z'
     },
-    // ZALGO TEXT REGEX
-    zalgoPattern: /[\u0300-\u036f\u0489]/g,
+    // ZALGO TEXT REGEX (combining marks)
+    zalgoPattern: /[\u0300-\u036f\u0483-\u0489\u1ab0-\u1aff\u1dc0-\u1dff\u20d0-\u20ff\ufe20-\ufe2f]/g,
     // DEFAULT FILTER PRESETS (can be imported by guilds)
     presets: {
         english_basic: {
@@ -27,7 +27,9 @@ const moderationConfig: ModerationConfig = {
         SOFTBAN: 'softban',
         FILTER: 'filter',
         AUTOMOD: 'automod',
-        NOTE: 'note'
+        NOTE: 'note',
+        ROLE_REMOVE: 'role_remove',
+        UNLOCK: 'unlock'
     },
     
     // Action types for auto-mod/filters
@@ -52,6 +54,8 @@ const moderationConfig: ModerationConfig = {
         FILTER: 0x9933FF,
         AUTOMOD: 0x6633FF,
         NOTE: 0x3399FF,
+        ROLE_REMOVE: 0x99AAB5,
+        UNLOCK: 0x00CC66,
         DEFAULT: 0x5865F2,
         WARNING: 0xFFCC00,
         ERROR: 0xFF0000,
@@ -73,6 +77,7 @@ const moderationConfig: ModerationConfig = {
         FILTER: '🚫',
         AUTOMOD: '🤖',
         NOTE: '📝',
+        ROLE_REMOVE: '🏷️',
         CASE: '📋',
         USER: '👤',
         MODERATOR: '🛡️',
@@ -112,6 +117,26 @@ const moderationConfig: ModerationConfig = {
         filtersTTL: 300,
         warnCountTTL: 60,
         recentJoinsTTL: 60
+    },
+    // SCHEDULED ACTIONS (timed unban, role removal, channel unlock)
+    scheduler: {
+        pollIntervalMs: 30 * 1000,
+        batchSize: 25,
+        maxAttempts: 5,
+        retryDelayMs: 60 * 1000,
+        // A claimed action still running after this is assumed lost with its shard
+        staleAfterMs: 10 * 60 * 1000,
+        // Lockdown state expires from Redis after 24h, so timed locks can't run longer
+        maxLockDurationMs: 24 * 60 * 60 * 1000
+    },
+    // MODERATOR NOTES
+    notes: {
+        maxLength: 1000
+    },
+    // /modinfo USER DOSSIER
+    dossier: {
+        pageSize: 5,
+        nameHistoryLimit: 10
     }
 };
 
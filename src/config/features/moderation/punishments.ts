@@ -39,6 +39,8 @@ const punishmentsConfig: PunishmentsConfig = {
         defaultDurationMs: 5 * 60 * 1000,
         maxDurationMs: 27 * 24 * 60 * 60 * 1000 + 23 * 60 * 60 * 1000,
         minDurationMs: 60 * 1000,
+        // Timed roles (/mute role) are taken back by the moderation scheduler
+        roleMaxDurationMs: 365 * 24 * 60 * 60 * 1000,
         presets: {
             '1m': 60 * 1000,
             '5m': 5 * 60 * 1000,
@@ -65,9 +67,15 @@ const punishmentsConfig: PunishmentsConfig = {
     ban: {
         defaultDeleteDays: 1,
         maxDeleteDays: 7,
+        // Temporary bans (/ban add duration)
+        minDurationMs: 60 * 1000,
+        maxDurationMs: 365 * 24 * 60 * 60 * 1000,
         sendDM: true,
-        includeAppealInfo: false,
-        appealMessage: null
+        // Appeal button in the ban DM (only once a guild has set an appeal channel)
+        includeAppealInfo: true,
+        appealMessage: null,
+        // Wait after a denied appeal before the same case can be appealed again
+        appealCooldownMs: 7 * 24 * 60 * 60 * 1000
     },
     // SOFTBAN SETTINGS
     softban: {
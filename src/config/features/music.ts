@@ -3,6 +3,12 @@
  * @module config/features/music
  */
 
+import type { FilterPreset, FilterPresetName } from '../../types/music/filters.js';
+import type { MusicAction, MusicPermissionMode } from '../../types/music/permissions.js';
+import type { AutoPlayMode } from '../../types/music/autoplay.js';
+import type { MusicStatsPeriod } from '../../types/music/stats.js';
+import type { RadioStation } from '../../types/music/radio.js';
+
 export const enabled = true;
 
 export const timeouts = {
@@ -11,21 +17,29 @@ export const timeouts = {
     skipVote: 15 * 1000,               // 15 seconds
     collector: 7 * 24 * 60 * 60 * 1000, // 7 days
     confirmation: 20 * 1000,           // 20 seconds
-    trackTransition: 500               // 0.5 seconds
+    trackTransition: 500,              // 0.5 seconds
+    messageEdit: 2500                  // min gap between edits of the same message
 };
 
 export const limits = {
     maxTrackDuration: 600,     // 10 minutes
     maxQueueSize: 100,
+    maxTracksPerUser: 0,       // waiting tracks per requester, 0 = no cap unless the guild sets one
+    maxDurationPerUser: 0,     // waiting seconds per requester, 0 = no cap unless the guild sets one
     maxPlaylistSize: 50,
     historySize: 100,
     favoritesSize: 200,
-    recentlyPlayedSize: 50
+    recentlyPlayedSize: 50,
+    savedPlaylists: 25,
+    savedPlaylistSize: 200
 };
 
 export const voting = {
-    minVotesRequired: 2,
-    votePercentage: 0.5
+    minVotesRequired: 2,               // fewer listeners than this and vote-gated actions just run
+    votePercentage: 0.6,               // default share of listeners that has to agree
+    timeoutSeconds: 15,                // default time a vote stays open
+    thresholdPercent: { min: 10, max: 100 },
+    timeoutRange: { min: 10, max: 120 }
 };
 
 export const volume = {
@@ -65,9 +79,162 @@ export const ui = {
     }
 };
 
+export const filters = {
+    bands: 15,
+    gain: { min: -0.25, max: 1.0 },
+    timescale: { min: 0.5, max: 2.0 },
+
+    presets: {
+        bassboost: {
+            label: 'Bass Boost',
+            emoji: '🔊',
+            description: 'Heavier low end',
+            equalizer: [0.25, 0.2, 0.15, 0.1, 0.05, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]
+        },
+        nightcore: {
+            label: 'Nightcore',
+            emoji: '🌙',
+            description: 'Faster with a higher pitch',
+            timescale: { speed: 1.2, pitch: 1.2 }
+        },
+        vaporwave: {
+            label: 'Vaporwave',
+            emoji: '🌴',
+            description: 'Slowed down with a lower pitch',
+            equalizer: [0.1, 0.1, 0.05, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+            timescale: { speed: 0.85, pitch: 0.8 }
+        },
+        '8d': {
+            label: '8D Audio',
+            emoji: '🎧',
+            description: 'Audio rotating around your head',
+            rotation: { rotationHz: 0.2 }
+        },
+        karaoke: {
+            label: 'Karaoke',
+            emoji: '🎤',
+            description: 'Removes most of the vocals',
+            karaoke: { level: 1.0, monoLevel: 1.0, filterBand: 220, filterWidth: 100 }
+        }
+    } as Record<FilterPresetName, FilterPreset>
+};
+
+export const lyrics = {
+    apiUrl: 'https://lrclib.net/api',
+    requestTimeout: 10 * 1000,
+    linesPerPage: 30,
+    maxPageLength: 3800,
+    liveTick: 1000,                    // how often live lyrics check the player position
+    liveContext: { before: 2, after: 4 }
+};
+
+export const permissions = {
+    actions: ['skip', 'stop', 'volume', 'clear', 'shuffle', 'move', 'remove', 'loop', 'filters'] as MusicAction[],
+    defaults: {
+        skip: 'vote',
+        stop: 'everyone',
+        volume: 'everyone',
+        clear: 'everyone',
+        shuffle: 'everyone',
+        move: 'everyone',
+        remove: 'everyone',
+        loop: 'everyone',
+        filters: 'everyone'
+    } as Record<MusicAction, MusicPermissionMode>,
+    // Actions that have a vote flow; 'vote' on anything else is treated as 'dj'
+    voteActions: ['skip', 'stop', 'clear', 'shuffle', 'remove'] as MusicAction[]
+};
+
+export const autoplay = {
+    modes: ['similar', 'discovery', 'artist', 'favorites'] as AutoPlayMode[],
+    defaultMode: 'similar' as AutoPlayMode,
+    searchLimit: 8,                    // results per search query
+    maxQueries: 3,                     // queries to pool candidates from
+    duration: { min: 60, max: 720 },   // hard limits in seconds
+    preferredDuration: { min: 120, max: 360 },
+    artistCooldown: 12,                // recent autoplay artists kept for diversity
+    listeners: 10,                     // max listeners whose history/favourites are read
+    historyPerListener: 50,
+    relatedArtists: 10,                // Spotify related artists considered
+    topPicks: 3                        // weighted random pick among the best N
+};
+
+export const snapshots = {
+    saveInterval: 15 * 1000,           // how often playing queues are written to Postgres
+    resumeMaxAge: 24 * 60 * 60 * 1000, // older snapshots are dropped instead of offered
+    promptTimeout: 10 * 60 * 1000      // resume prompt buttons stay active this long
+};
+
+export const playlistImport = {
+    defaultLimit: 500,                 // tracks per import unless the guild sets a lower cap
+    minLimit: 10,
+    maxLimit: 500,                     // the queue itself holds at most 500 tracks
+    batchSize: 5,                      // entries matched in parallel
+    progressInterval: 3000,            // min time between progress embed edits
+    failuresShown: 10                  // failures listed in the final embed; all of them go in the report file
+};
+
+export const stats = {
+    topLimit: 5,                       // entries in each top list
+    periods: ['week', 'month', 'year', 'all'] as MusicStatsPeriod[],
+    defaultPeriod: 'month' as MusicStatsPeriod,
+    reportCheckInterval: 60 * 60 * 1000 // how often due monthly reports are looked for
+};
+
+export const requestChannel = {
+    panelUpdateDelay: 1500,            // batch bursts of queue changes into one panel edit
+    feedbackTtl: 6 * 1000              // how long "queued" / error notices stay in the channel
+};
+
+export const fairQueue = {
+    maxTracksPerUser: { min: 1, max: 500 },
+    maxMinutesPerUser: { min: 5, max: 24 * 60 },
+    turnsShown: 5                      // requesters listed in the "next turns" line of /music queue
+};
+
+export const queueFile = {
+    maxBytes: 512 * 1024,              // uploads larger than this are refused before downloading
+    maxEntries: 500,
+    batchSize: 5,                      // entries searched in parallel
+    downloadTimeout: 15 * 1000,
+    failuresShown: 10
+};
+
+export const directAudio = {
+    extensions: ['mp3', 'ogg', 'flac', 'wav'],
+    maxAttachmentBytes: 100 * 1024 * 1024
+};
+
+export const radio = {
+    maxStations: 25,
+    maxNameLength: 50,
+    // Curated presets every guild starts with until it edits its own list
+    defaultStations: [
+        { name: 'SomaFM Groove Salad', url: 'https://ice1.somafm.com/groovesalad-128-mp3', genre: 'Ambient / Downtempo' },
+        { name: 'SomaFM Drone Zone', url: 'https://ice1.somafm.com/dronezone-128-mp3', genre: 'Ambient' },
+        { name: 'SomaFM Lush', url: 'https://ice1.somafm.com/lush-128-mp3', genre: 'Vocal / Electronica' },
+        { name: 'Radio Paradise Main Mix', url: 'https://stream.radioparadise.com/mp3-128', genre: 'Eclectic' },
+        { name: 'Radio Paradise Mellow Mix', url: 'https://stream.radioparadise.com/mellow-128', genre: 'Mellow' },
+        { name: 'KEXP 90.3 Seattle', url: 'https://kexp-mp3-128.streamguys1.com/kexp128.mp3', genre: 'Indie / Alternative' },
+        { name: 'NTS Radio 1', url: 'https://stream-relay-geo.ntslive.net/stream', genre: 'Underground' }
+    ] as RadioStation[]
+};
+
+export const sleepTimer = {
+    maxMinutes: 12 * 60,
+    maxTracks: 100
+};
+
+export const search = {
+    autocompleteResults: 10,
+    autocompleteCacheTtl: 30 * 1000,   // short-lived: results go stale and keys pile up while typing
+    pickResults: 5,                    // results offered by /music play pick:true
+    pickTimeout: 60 * 1000
+};
 export const cache = {
     sessionDuration: 60 * 60 * 1000,
-    playlistCacheDuration: 30 * 60 * 1000
+    playlistCacheDuration: 30 * 60 * 1000,
+    savedTrackStaleAfter: 7 * 24 * 60 * 60 * 1000 // re-resolve saved tracks older than 7 days
 };
 
 // Legacy constants
@@ -82,6 +249,20 @@ export default {
     voting,
     volume,
     ui,
+    filters,
+    lyrics,
+    permissions,
+    autoplay,
+    snapshots,
+    playlistImport,
+    stats,
+    requestChannel,
+    fairQueue,
+    queueFile,
+    directAudio,
+    radio,
+    sleepTimer,
+    search,
     cache,
     INACTIVITY_TIMEOUT,
     VC_CHECK_INTERVAL,
@@ -189,12 +189,37 @@ function renderLavalink(lavalink) {
     };
 
     const nodesBlock = Array.isArray(lavalink.nodes) && lavalink.nodes.length
-        ? jsonBlock(lavalink.nodes)
+        ? '<div class="checks">' + lavalink.nodes.map(renderLavalinkNode).join('') + '</div>'
         : emptyState('No node metadata available.');
 
     return renderKeyValues(details) + '<div class="caption" style="margin: 14px 0 8px;">Nodes</div>' + nodesBlock;
 }
 
+function renderLavalinkNode(node) {
+    const health = node.health || {};
+    const status = !health.connected ? 'offline' : health.degraded ? 'degraded' : 'healthy';
+    const rows = {
+        score: health.score == null ? 'n/a' : health.score.toFixed(1),
+        cpu: formatPercent(health.cpuLoad),
+        frameDeficit: formatNumber(health.frameDeficit),
+        players: formatNumber(health.players || 0),
+        ping: health.pingMs == null ? 'n/a' : health.pingMs + ' ms',
+        unhealthyChecks: health.unhealthyChecks || 0,
+        checkedAt: health.checkedAt ? new Date(health.checkedAt).toLocaleTimeString() : 'never'
+    };
+
+    return '' +
+        '<div class="check">' +
+            '<div class="check-head">' +
+                '<div class="check-title">' + escapeHtml(node.name) + '</div>' +
+                '<span class="pill ' + toneForStatus(status) + '">' + escapeHtml(status) + '</span>' +
+            '</div>' +
+            '<div class="check-body">' + Object.keys(rows).map(function (key) {
+                return '<div><strong>' + escapeHtml(key) + '</strong>: ' + escapeHtml(String(rows[key])) + '</div>';
+            }).join('') + '</div>' +
+        '</div>';
+}
+
 function renderStatusSummary(data) {
     statusRow.innerHTML = [
         renderPill('Lifecycle', String(data.lifecycleStatus || 'unknown'), toneForStatus(data.lifecycleStatus)),
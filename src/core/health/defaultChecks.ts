@@ -66,11 +66,15 @@ export function registerDefaultChecks(services: ServiceConfig = {}): void {
             const status = services.lavalink!.getNodeStatus?.() || {};
             const nodeCount = status.nodes?.length || 0;
             const isHealthy = status.ready === true || nodeCount > 0;
+            const degraded = (status.nodes || [])
+                .filter(node => (node as { health?: { degraded?: boolean } }).health?.degraded)
+                .map(node => (node as { name?: string }).name);
             return {
                 healthy: isHealthy,
                 details: {
                     ready: status.ready,
                     nodes: nodeCount,
+                    degradedNodes: degraded.length ? degraded.join(', ') : 'none',
                     players: status.activeConnections || 0
                 }
             };
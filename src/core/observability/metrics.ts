@@ -194,6 +194,66 @@ export const lavalinkNodePlayers = new Gauge({
     registers: [register]
 });
 
+/**
+ * Lavalink node health score (lower is healthier)
+ */
+export const lavalinkNodeScore = new Gauge({
+    name: 'shoukaku_lavalink_node_score',
+    help: 'Weighted Lavalink node load score (lower is healthier)',
+    labelNames: ['node_name'],
+    registers: [register]
+});
+
+/**
+ * Lavalink node system CPU load
+ */
+export const lavalinkNodeCpuLoad = new Gauge({
+    name: 'shoukaku_lavalink_node_cpu_load',
+    help: 'Lavalink node system CPU load (0-1)',
+    labelNames: ['node_name'],
+    registers: [register]
+});
+
+/**
+ * Lavalink node frame deficit
+ */
+export const lavalinkNodeFrameDeficit = new Gauge({
+    name: 'shoukaku_lavalink_node_frame_deficit',
+    help: 'Missing and nulled audio frames on each Lavalink node over the last minute',
+    labelNames: ['node_name'],
+    registers: [register]
+});
+
+/**
+ * Lavalink node REST ping
+ */
+export const lavalinkNodePing = new Gauge({
+    name: 'shoukaku_lavalink_node_ping_ms',
+    help: 'Lavalink node REST round trip in milliseconds',
+    labelNames: ['node_name'],
+    registers: [register]
+});
+
+/**
+ * Lavalink node degraded flag
+ */
+export const lavalinkNodeDegraded = new Gauge({
+    name: 'shoukaku_lavalink_node_degraded',
+    help: 'Lavalink node degraded and being drained (1=degraded, 0=healthy)',
+    labelNames: ['node_name'],
+    registers: [register]
+});
+
+/**
+ * Player migrations between Lavalink nodes
+ */
+export const lavalinkPlayerMigrationsTotal = new Counter({
+    name: 'shoukaku_lavalink_player_migrations_total',
+    help: 'Players moved between Lavalink nodes',
+    labelNames: ['reason', 'status'],
+    registers: [register]
+});
+
 // ==========================================
 // CACHE METRICS
 // ==========================================
@@ -498,6 +558,41 @@ export function updateLavalinkMetrics(nodeName: string, connected: boolean, play
     lavalinkNodePlayers.set({ node_name: nodeName }, players);
 }
 
+/**
+ * Update Lavalink node health metrics
+ */
+export function updateLavalinkNodeHealthMetrics(health: {
+    name: string;
+    score: number | null;
+    cpuLoad: number | null;
+    frameDeficit: number | null;
+    pingMs: number | null;
+    degraded: boolean;
+}): void {
+    const labels = { node_name: health.name };
+
+    if (health.score !== null) {
+        lavalinkNodeScore.set(labels, health.score);
+    }
+    if (health.cpuLoad !== null) {
+        lavalinkNodeCpuLoad.set(labels, health.cpuLoad);
+    }
+    if (health.frameDeficit !== null) {
+        lavalinkNodeFrameDeficit.set(labels, health.frameDeficit);
+    }
+    if (health.pingMs !== null) {
+        lavalinkNodePing.set(labels, health.pingMs);
+    }
+    lavalinkNodeDegraded.set(labels, health.degraded ? 1 : 0);
+}
+
+/**
+ * Track a player migration between Lavalink nodes
+ */
+export function trackLavalinkMigration(reason: 'degraded' | 'node_lost', success: boolean): void {
+    lavalinkPlayerMigrationsTotal.inc({ reason, status: success ? 'success' : 'error' });
+}
+
 /**
  * Update circuit breaker metrics
  */
@@ -531,6 +626,8 @@ export default {
     updateDiscordMetrics,
     updateMusicMetrics,
     updateLavalinkMetrics,
+    updateLavalinkNodeHealthMetrics,
+    trackLavalinkMigration,
     updateCircuitBreakerMetrics,
     trackCircuitBreakerFailure,
     // Individual metrics for direct access
@@ -549,6 +646,12 @@ export default {
     musicTracksPlayedTotal,
     lavalinkNodeStatus,
     lavalinkNodePlayers,
+    lavalinkNodeScore,
+    lavalinkNodeCpuLoad,
+    lavalinkNodeFrameDeficit,
+    lavalinkNodePing,
+    lavalinkNodeDegraded,
+    lavalinkPlayerMigrationsTotal,
     cacheOperationsTotal,
     cacheHitRatio,
     redisConnectionStatus,
@@ -20,7 +20,7 @@ import type {
 import type { AllowedTable, PgError } from '../types/infrastructure/database-extra.js';
 import type { QueuedWrite } from '../types/core/runtime.js';
 
-export { type DatabaseStatus, type QueuedResponse, type QueryOptions, type RetryConfig, type TransactionCallback, type WriteQueueEntry } from '../types/infrastructure/database.js';
+export { type DatabaseStatus, type QueuedResponse, type QueryOptions, type RetryConfig, type TransactionCallback, type TransactionClient, type WriteQueueEntry } from '../types/infrastructure/database.js';
 export { type AllowedTable, type PgError } from '../types/infrastructure/database-extra.js';
 
 // TYPES & INTERFACES
@@ -48,7 +48,15 @@ export const ALLOWED_TABLES = [
     'raid_mode',
     'user_music_preferences',
     'user_music_favorites',
-    'user_music_history'
+    'user_music_history',
+    'guild_music_plays',
+    'music_queue_snapshots',
+    'music_playlist_imports',
+    'mod_scheduled_actions',
+    'mod_ban_appeals',
+    'mod_notes',
+    'user_name_history',
+    'mod_case_revisions'
 ] as const;
 
 /**
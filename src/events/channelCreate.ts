@@ -0,0 +1,24 @@
+/**
+ * Channel Create Event - Presentation Layer
+ * Handles new channels for mod logging
+ * @module presentation/events/channelCreate
+ */
+
+import { Events, Client, NonThreadGuildBasedChannel } from 'discord.js';
+import { BaseEvent } from './BaseEvent.js';
+import { handleChannelCreate } from '../handlers/moderation/index.js';
+// CHANNEL CREATE EVENT
+class ChannelCreateEvent extends BaseEvent {
+    constructor() {
+        super({
+            name: Events.ChannelCreate,
+            once: false
+        });
+    }
+
+    async execute(_client: Client, channel: NonThreadGuildBasedChannel): Promise<void> {
+        await handleChannelCreate(channel);
+    }
+}
+
+export default new ChannelCreateEvent();
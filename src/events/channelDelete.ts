@@ -0,0 +1,26 @@
+/**
+ * Channel Delete Event - Presentation Layer
+ * Handles deleted channels for mod logging
+ * @module presentation/events/channelDelete
+ */
+
+import { Events, Client, DMChannel, NonThreadGuildBasedChannel } from 'discord.js';
+import { BaseEvent } from './BaseEvent.js';
+import { handleChannelDelete } from '../handlers/moderation/index.js';
+// CHANNEL DELETE EVENT
+class ChannelDeleteEvent extends BaseEvent {
+    constructor() {
+        super({
+            name: Events.ChannelDelete,
+            once: false
+        });
+    }
+
+    async execute(_client: Client, channel: DMChannel | NonThreadGuildBasedChannel): Promise<void> {
+        if (channel.isDMBased()) return;
+
+        await handleChannelDelete(channel);
+    }
+}
+
+export default new ChannelDeleteEvent();
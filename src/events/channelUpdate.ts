@@ -0,0 +1,30 @@
+/**
+ * Channel Update Event - Presentation Layer
+ * Handles permission overwrite changes for mod logging
+ * @module presentation/events/channelUpdate
+ */
+
+import { Events, Client, DMChannel, NonThreadGuildBasedChannel } from 'discord.js';
+import { BaseEvent } from './BaseEvent.js';
+import { handleChannelUpdate } from '../handlers/moderation/index.js';
+// CHANNEL UPDATE EVENT
+class ChannelUpdateEvent extends BaseEvent {
+    constructor() {
+        super({
+            name: Events.ChannelUpdate,
+            once: false
+        });
+    }
+
+    async execute(
+        _client: Client,
+        oldChannel: DMChannel | NonThreadGuildBasedChannel,
+        newChannel: DMChannel | NonThreadGuildBasedChannel
+    ): Promise<void> {
+        if (oldChannel.isDMBased() || newChannel.isDMBased()) return;
+
+        await handleChannelUpdate(oldChannel, newChannel);
+    }
+}
+
+export default new ChannelUpdateEvent();
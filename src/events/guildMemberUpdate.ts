@@ -0,0 +1,27 @@
+/**
+ * Guild Member Update Event - Presentation Layer
+ * Handles role, nickname and timeout changes for mod logging
+ * @module presentation/events/guildMemberUpdate
+ */
+
+import { Events, Client, GuildMember, PartialGuildMember } from 'discord.js';
+import { BaseEvent } from './BaseEvent.js';
+import { handleMemberUpdate } from '../handlers/moderation/index.js';
+// GUILD MEMBER UPDATE EVENT
+class GuildMemberUpdateEvent extends BaseEvent {
+    constructor() {
+        super({
+            name: Events.GuildMemberUpdate,
+            once: false
+        });
+    }
+
+    async execute(_client: Client, oldMember: GuildMember | PartialGuildMember, newMember: GuildMember): Promise<void> {
+        // Without the previous state there is nothing to diff against
+        if (oldMember.partial) return;
+
+        await handleMemberUpdate(oldMember, newMember);
+    }
+}
+
+export default new GuildMemberUpdateEvent();
@@ -15,6 +15,14 @@ import guildCreate from './guildCreate.js';
 import guildDelete from './guildDelete.js';
 import guildMemberAdd from './guildMemberAdd.js';
 import guildMemberRemove from './guildMemberRemove.js';
+import guildMemberUpdate from './guildMemberUpdate.js';
+import channelCreate from './channelCreate.js';
+import channelDelete from './channelDelete.js';
+import channelUpdate from './channelUpdate.js';
+import roleCreate from './roleCreate.js';
+import roleDelete from './roleDelete.js';
+import roleUpdate from './roleUpdate.js';
+import userUpdate from './userUpdate.js';
 import voiceStateUpdate from './voiceStateUpdate.js';
 
 // Export individual events
@@ -26,6 +34,14 @@ export {
     guildDelete,
     guildMemberAdd,
     guildMemberRemove,
+    guildMemberUpdate,
+    channelCreate,
+    channelDelete,
+    channelUpdate,
+    roleCreate,
+    roleDelete,
+    roleUpdate,
+    userUpdate,
     voiceStateUpdate
 };
 
@@ -38,6 +54,14 @@ export const events = [
     guildDelete,
     guildMemberAdd,
     guildMemberRemove,
+    guildMemberUpdate,
+    channelCreate,
+    channelDelete,
+    channelUpdate,
+    roleCreate,
+    roleDelete,
+    roleUpdate,
+    userUpdate,
     voiceStateUpdate
 ];
 
@@ -8,6 +8,7 @@ import { Events, Client, Message } from 'discord.js';
 import { BaseEvent } from './BaseEvent.js';
 import { handleAutoModMessage } from '../handlers/moderation/index.js';
 import { handleAfkMessage } from '../handlers/general/index.js';
+import { requestChannelHandler } from '../handlers/music/index.js';
 import logger from '../core/observability/Logger.js';
 import type { AutoModResult } from '../types/core/events.js';
 // MESSAGE CREATE EVENT
@@ -26,6 +27,9 @@ class MessageCreateEvent extends BaseEvent {
         // Run auto-moderation first - if message is deleted, stop processing
         const automodResult = await this._handleAutoMod(client, message);
         if (automodResult?.deleted) return;
+
+        // Messages in the song request channel are requests, not chat
+        if (await this._handleSongRequest(message)) return;
         
         // Handle AFK system
         await this._handleAfk(client, message);
@@ -48,6 +52,19 @@ class MessageCreateEvent extends BaseEvent {
         }
     }
 
+    /**
+     * Queue messages sent in the song request channel
+     */
+    private async _handleSongRequest(message: Message): Promise<boolean> {
+        try {
+            return await requestChannelHandler.handleRequestMessage(message);
+        } catch (error: unknown) {
+            const err = error as { message?: string };
+            logger.error('RequestChannel', `Error: ${err.message}`);
+            return false;
+        }
+    }
+
     /**
      * Handle AFK system
      */
@@ -0,0 +1,24 @@
+/**
+ * Role Create Event - Presentation Layer
+ * Handles new roles for mod logging
+ * @module presentation/events/roleCreate
+ */
+
+import { Events, Client, Role } from 'discord.js';
+import { BaseEvent } from './BaseEvent.js';
+import { handleRoleCreate } from '../handlers/moderation/index.js';
+// ROLE CREATE EVENT
+class RoleCreateEvent extends BaseEvent {
+    constructor() {
+        super({
+            name: Events.GuildRoleCreate,
+            once: false
+        });
+    }
+
+    async execute(_client: Client, role: Role): Promise<void> {
+        await handleRoleCreate(role);
+    }
+}
+
+export default new RoleCreateEvent();
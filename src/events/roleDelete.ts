@@ -0,0 +1,24 @@
+/**
+ * Role Delete Event - Presentation Layer
+ * Handles deleted roles for mod logging
+ * @module presentation/events/roleDelete
+ */
+
+import { Events, Client, Role } from 'discord.js';
+import { BaseEvent } from './BaseEvent.js';
+import { handleRoleDelete } from '../handlers/moderation/index.js';
+// ROLE DELETE EVENT
+class RoleDeleteEvent extends BaseEvent {
+    constructor() {
+        super({
+            name: Events.GuildRoleDelete,
+            once: false
+        });
+    }
+
+    async execute(_client: Client, role: Role): Promise<void> {
+        await handleRoleDelete(role);
+    }
+}
+
+export default new RoleDeleteEvent();
@@ -0,0 +1,24 @@
+/**
+ * Role Update Event - Presentation Layer
+ * Handles role name and permission changes for mod logging
+ * @module presentation/events/roleUpdate
+ */
+
+import { Events, Client, Role } from 'discord.js';
+import { BaseEvent } from './BaseEvent.js';
+import { handleRoleUpdate } from '../handlers/moderation/index.js';
+// ROLE UPDATE EVENT
+class RoleUpdateEvent extends BaseEvent {
+    constructor() {
+        super({
+            name: Events.GuildRoleUpdate,
+            once: false
+        });
+    }
+
+    async execute(_client: Client, oldRole: Role, newRole: Role): Promise<void> {
+        await handleRoleUpdate(oldRole, newRole);
+    }
+}
+
+export default new RoleUpdateEvent();
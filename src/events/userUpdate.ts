@@ -0,0 +1,24 @@
+/**
+ * User Update Event - Presentation Layer
+ * Records username changes for /modinfo
+ * @module presentation/events/userUpdate
+ */
+
+import { Events, Client, PartialUser, User } from 'discord.js';
+import { BaseEvent } from './BaseEvent.js';
+import { userDossierService } from '../services/moderation/index.js';
+// USER UPDATE EVENT
+class UserUpdateEvent extends BaseEvent {
+    constructor() {
+        super({
+            name: Events.UserUpdate,
+            once: false
+        });
+    }
+
+    async execute(_client: Client, oldUser: User | PartialUser, newUser: User): Promise<void> {
+        await userDossierService.recordNameChange(oldUser, newUser);
+    }
+}
+
+export default new UserUpdateEvent();
@@ -1,6 +1,6 @@
 /**
  * Voice State Update Event - Presentation Layer
- * Handles voice channel updates for auto-disconnect
+ * Handles voice channel updates for auto-disconnect and mod logging
  * Uses Redis for shard-safe disconnect scheduling
  * @module presentation/events/voiceStateUpdate
  */
@@ -8,7 +8,9 @@
 import { Events, Client, VoiceState, VoiceBasedChannel } from 'discord.js';
 import { BaseEvent } from './BaseEvent.js';
 import cacheService from '../cache/cacheService.js';
+import logger from '../core/observability/Logger.js';
 import { musicFacade } from '../services/music/core/musicFacade.js';
+import { handleVoiceStateLog } from '../handlers/moderation/index.js';
 
 // Cache namespace for voice disconnect deadlines
 const CACHE_NAMESPACE = 'voice';
@@ -31,12 +33,17 @@ class VoiceStateUpdateEvent extends BaseEvent {
         });
     }
 
-    async execute(client: Client, oldState: VoiceState, _newState: VoiceState): Promise<void> {
+    async execute(client: Client, oldState: VoiceState, newState: VoiceState): Promise<void> {
         // Store client reference for polling
         if (!this._client) {
             this._client = client;
             this._startPolling();
         }
+
+        // Log joins, leaves and moves without holding up player cleanup on audit log fetches
+        handleVoiceStateLog(oldState, newState).catch(error => {
+            logger.error('VoiceStateUpdate', `Mod log (voice) error: ${(error as Error).message}`);
+        });
         
         // Only handle when someone leaves a channel
         if (!oldState.channel) return;
@@ -107,6 +114,12 @@ class VoiceStateUpdateEvent extends BaseEvent {
         channel: VoiceBasedChannel, 
         guildId: string
     ): Promise<void> {
+        // 24/7 mode stays in the channel
+        if (musicFacade.isTwentyFourSeven(guildId)) {
+            await this._cancelDisconnect(guildId);
+            return;
+        }
+
         // Count human members (exclude bots)
         const humanMembers = channel.members.filter(m => !m.user.bot);
         
@@ -164,6 +177,9 @@ class VoiceStateUpdateEvent extends BaseEvent {
      */
     private async _handleDisconnect(client: Client, guildId: string): Promise<void> {
         try {
+            // 24/7 may have been turned on after the deadline was set
+            if (musicFacade.isTwentyFourSeven(guildId)) return;
+
             if (musicFacade?.cleanup) {
                 await musicFacade.cleanup(guildId);
             }
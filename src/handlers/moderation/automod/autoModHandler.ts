@@ -140,6 +140,7 @@ export function buildSettingsEmbed(settings: AutoModSettings, _guild: Guild): Em
         ['Duplicate Messages', settings.duplicate_enabled, `${settings.duplicate_threshold} duplicates`],
         ['Link Filter', settings.links_enabled, settings.links_action || 'delete'],
         ['Invite Filter', settings.invites_enabled, settings.invites_action || 'delete'],
+        ['Phishing Filter', settings.phishing_enabled, settings.phishing_action || 'delete_warn'],
         ['Mention Spam', settings.mention_enabled, `Max ${settings.mention_limit} mentions`],
         ['Caps Lock', settings.caps_enabled, `${settings.caps_percent}% threshold`]
     ];
@@ -15,8 +15,10 @@ import {
     RoleSelectMenuBuilder,
     ChatInputCommandInteraction
 } from 'discord.js';
+import filterService from '../../../services/moderation/filterService.js';
 import type { AutoModSettings } from '../../../types/moderation/automod.js';
 import type { AutoModService } from '../../../types/moderation/handlers.js';
+import type { FilterTestResult, NormalizedForm } from '../../../types/moderation/filter-service.js';
 import type { ModerationConfig } from '../../../config/features/moderation/index.js';
 
 /**
@@ -38,7 +40,8 @@ export async function showMainPanel(
         settings.invites_enabled,
         settings.mention_enabled,
         settings.caps_enabled,
-        settings.filter_enabled
+        settings.filter_enabled,
+        settings.phishing_enabled
     ].filter(Boolean).length;
 
     const embed = new EmbedBuilder()
@@ -46,12 +49,13 @@ export async function showMainPanel(
         .setTitle('🤖 AutoMod Settings')
         .setDescription([
             `**Status:** ${settings.enabled ? '✅ Enabled' : '❌ Disabled'}`,
-            `**Active Features:** ${activeFeatures}/7`,
+            `**Active Features:** ${activeFeatures}/8`,
             '',
             'Use the buttons below to navigate to different sections.',
             '',
             '**📊 Toggle** - Enable/disable automod and features',
             '**🚫 Filter** - Manage banned words',
+            '**🎣 Phishing** - Scam links & dangerous files',
             '**⚙️ Config** - Thresholds configuration',
             '**⚡ Actions** - Punishment actions & escalation',
             '**🛡️ Exempt** - Ignored channels/roles/links'
@@ -94,9 +98,18 @@ export async function showMainPanel(
             .setDisabled(automodDisabled)
     );
 
+    const row2 = new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder()
+            .setCustomId('automod_phishing_section')
+            .setLabel('Phishing')
+            .setEmoji('🎣')
+            .setStyle(automodDisabled ? ButtonStyle.Secondary : ButtonStyle.Primary)
+            .setDisabled(automodDisabled)
+    );
+
     await interaction.editReply({
         embeds: [embed],
-        components: [row]
+        components: [row, row2]
     });
 }
 
@@ -119,7 +132,8 @@ export async function showToggleSection(
         { key: 'invites', name: 'Invite Filter', emoji: '📩', desc: 'Block Discord invites' },
         { key: 'mention', name: 'Mass Mention', emoji: '📢', desc: 'Limit mentions' },
         { key: 'caps', name: 'Caps Filter', emoji: '🔠', desc: 'Limit excessive caps' },
-        { key: 'filter', name: 'Word Filter', emoji: '🚫', desc: 'Filter banned words' }
+        { key: 'filter', name: 'Word Filter', emoji: '🚫', desc: 'Filter banned words' },
+        { key: 'phishing', name: 'Phishing Filter', emoji: '🎣', desc: 'Block scam links and files' }
     ];
 
     const featureStatus = features.map(f => {
@@ -185,21 +199,28 @@ export async function showFilterSection(
 
     const settings = await service.getSettings(interaction.guildId!);
     const filteredWords = settings.filtered_words || [];
+    const exactWords = (await filterService.listExactFilters(interaction.guildId!)).map(filter => filter.pattern);
 
     const wordList = filteredWords.length > 0
         ? `||${filteredWords.slice(0, 30).join(', ')}${filteredWords.length > 30 ? '...' : ''}||`
         : '*No words in filter*';
+    const exactList = exactWords.length > 0
+        ? `||${exactWords.slice(0, 30).join(', ')}${exactWords.length > 30 ? '...' : ''}||`
+        : '*None*';
 
     const embed = new EmbedBuilder()
         .setColor(config?.COLORS?.INFO || 0x0099FF)
         .setTitle('🚫 Word Filter')
         .setDescription([
             `**Filter Status:** ${settings.filter_enabled ? '✅ Enabled' : '❌ Disabled'}`,
-            `**Total Words:** ${filteredWords.length}`,
+            `**Total Words:** ${filteredWords.length + exactWords.length}`,
             '',
             '**Filtered Words:**',
             wordList,
             '',
+            '**Exact Spelling Only** (no look-alike or leetspeak matching):',
+            exactList,
+            '',
             '⬇️ Select an action below'
         ].join('\n'))
         .setTimestamp();
@@ -222,6 +243,7 @@ export async function showFilterSection(
         .setPlaceholder('📝 Select action...')
         .addOptions([
             { label: 'Add Words', value: 'add', emoji: '➕', description: 'Add words to filter' },
+            { label: 'Add Exact Words', value: 'add_exact', emoji: '🔤', description: 'Add words matched only as typed' },
             { label: 'Remove Words', value: 'remove', emoji: '➖', description: 'Remove words from filter' },
             { label: 'Clear All', value: 'clear', emoji: '🗑️', description: 'Remove all words' },
             { label: 'Import: Profanity', value: 'import_profanity', emoji: '📥', description: 'Import profanity preset' },
@@ -234,6 +256,130 @@ export async function showFilterSection(
     await interaction.editReply({ embeds: [embed], components: [row1, row2] });
 }
 
+/**
+ * Build and display the phishing section panel
+ */
+export async function showPhishingSection(
+    interaction: ChatInputCommandInteraction,
+    service: AutoModService,
+    config: ModerationConfig
+): Promise<void> {
+    if (!service) return;
+
+    const settings = await service.getSettings(interaction.guildId!);
+    const phishing = config?.automod?.phishing;
+    const guildDomains = settings.phishing_domains || [];
+    const onOff = (value: boolean) => value ? '✅' : '❌';
+
+    const lookalike = settings.phishing_lookalike !== false;
+    const expandLinks = settings.phishing_expand_links === true;
+    const blockFiles = settings.phishing_block_files !== false;
+
+    const embed = new EmbedBuilder()
+        .setColor(config?.COLORS?.INFO || 0x0099FF)
+        .setTitle('🎣 Phishing & Malicious Files')
+        .setDescription([
+            `**Status:** ${settings.phishing_enabled ? '✅ Enabled' : '❌ Disabled'}`,
+            `**Action:** \`${settings.phishing_action || 'delete_warn'}\` *(change it under ⚡ Actions)*`,
+            '',
+            `${onOff(lookalike)} **Lookalike Domains** - e.g. \`dlscord-nitro.gift\``,
+            `${onOff(expandLinks)} **Expand Short Links** - follow ${phishing?.shorteners?.length || 0} shorteners like \`bit.ly\``,
+            `${onOff(blockFiles)} **Dangerous Files** - \`.exe\`, \`.scr\`, \`.bat\`, double extensions`,
+            '',
+            `**Scam Domains:** ${phishing?.domains?.length || 0} built in + ${guildDomains.length} added here`,
+            guildDomains.length > 0
+                ? `\`${guildDomains.slice(0, 20).join('\`, \`')}\`${guildDomains.length > 20 ? '...' : ''}`
+                : '*No server-specific domains*'
+        ].join('\n'))
+        .setTimestamp();
+
+    const row1 = new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder()
+            .setCustomId('automod_phishing_toggle')
+            .setLabel(settings.phishing_enabled ? 'Disable Phishing Filter' : 'Enable Phishing Filter')
+            .setEmoji(settings.phishing_enabled ? '❌' : '✅')
+            .setStyle(settings.phishing_enabled ? ButtonStyle.Danger : ButtonStyle.Success),
+        new ButtonBuilder()
+            .setCustomId('automod_phishing_domains')
+            .setLabel('Edit Scam Domains')
+            .setEmoji('📝')
+            .setStyle(ButtonStyle.Primary),
+        new ButtonBuilder()
+            .setCustomId('automod_back')
+            .setLabel('Back')
+            .setEmoji('◀️')
+            .setStyle(ButtonStyle.Secondary)
+    );
+
+    const optionSelect = new StringSelectMenuBuilder()
+        .setCustomId('automod_phishing_option')
+        .setPlaceholder('🔄 Toggle a detection option...')
+        .addOptions([
+            { label: 'Lookalike Domains', value: 'phishing_lookalike', emoji: '🔍', description: `${lookalike ? '✅ Enabled' : '❌ Disabled'} - Catch imitations of Discord/Steam` },
+            { label: 'Expand Short Links', value: 'phishing_expand_links', emoji: '↪️', description: `${expandLinks ? '✅ Enabled' : '❌ Disabled'} - Check where short links lead` },
+            { label: 'Dangerous Files', value: 'phishing_block_files', emoji: '📎', description: `${blockFiles ? '✅ Enabled' : '❌ Disabled'} - Block executable attachments` }
+        ]);
+
+    const row2 = new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(optionSelect);
+
+    await interaction.editReply({ embeds: [embed], components: [row1, row2] });
+}
+
+/**
+ * Display the result of /automod test
+ */
+export async function showFilterTestResult(
+    interaction: ChatInputCommandInteraction,
+    text: string,
+    result: FilterTestResult,
+    filterEnabled: boolean,
+    config: ModerationConfig
+): Promise<void> {
+    // Keep user text from breaking out of the code spans
+    const code = (value: string, max: number) => {
+        const clean = value.replace(/`/g, 'ˋ').replace(/\n/g, ' ');
+        return clean ? `\`${clean.length > max ? `${clean.slice(0, max)}...` : clean}\`` : '*empty*';
+    };
+    const formLabels: Record<NormalizedForm, string> = {
+        raw: 'Raw',
+        normalized: 'Normalised',
+        collapsed: 'Collapsed'
+    };
+
+    const { forms, matches, wordMatch } = result;
+    const formLines = [
+        `**Raw:** ${code(forms.raw, 250)}`,
+        `**Normalised:** ${forms.normalized === forms.raw ? '*unchanged*' : code(forms.normalized, 250)}`,
+        `**Collapsed:** ${forms.collapsed === forms.normalized ? '*unchanged*' : code(forms.collapsed, 250)}`
+    ];
+
+    const matchLines = matches.map(match =>
+        `\`#${match.filter.id}\` ||${match.pattern}|| (${match.filter.match_type}) on **${formLabels[match.form ?? 'raw']}** → \`${match.action}\`, severity ${match.severity}`
+    );
+    if (wordMatch) {
+        matchLines.push(`Filtered word ||${wordMatch.word}|| on **${formLabels[wordMatch.form]}** → \`delete_warn\``);
+    }
+
+    const embed = new EmbedBuilder()
+        .setColor(matchLines.length > 0 ? (config?.COLORS?.FILTER || 0x9933FF) : (config?.COLORS?.SUCCESS || 0x00FF00))
+        .setTitle('🧪 Word Filter Test')
+        .setDescription(`**Input:** ${code(text, 300)}`)
+        .addFields(
+            { name: 'Normalised Forms', value: formLines.join('\n').slice(0, 1024) },
+            {
+                name: `Matches (${matchLines.length})`,
+                value: matchLines.length > 0 ? matchLines.join('\n').slice(0, 1024) : '✅ No filter matched'
+            }
+        )
+        .setTimestamp();
+
+    if (!filterEnabled) {
+        embed.setFooter({ text: '⚠️ The word filter is disabled, so these matches are not enforced' });
+    }
+
+    await interaction.editReply({ embeds: [embed], components: [] });
+}
+
 /**
  * Build and display the config section panel
  */
@@ -321,6 +467,7 @@ export async function showActionsSection(
             `📋 Duplicate: ${actionEmoji(settings.duplicate_action)} \`${settings.duplicate_action || 'delete_warn'}\``,
             `🔗 Links: ${actionEmoji(settings.links_action)} \`${settings.links_action || 'delete_warn'}\``,
             `📩 Invites: ${actionEmoji(settings.invites_action)} \`${settings.invites_action || 'delete_warn'}\``,
+            `🎣 Phishing: ${actionEmoji(settings.phishing_action)} \`${settings.phishing_action || 'delete_warn'}\``,
             `📢 Mentions: ${actionEmoji(settings.mention_action)} \`${settings.mention_action || 'delete_warn'}\``,
             `🔠 Caps: ${actionEmoji(settings.caps_action)} \`${settings.caps_action || 'delete'}\``,
             `👶 New Account: ${actionEmoji(settings.new_account_action)} \`${settings.new_account_action || 'kick'}\``,
@@ -363,6 +510,7 @@ export async function showActionsSection(
             { label: 'Duplicate Action', value: 'duplicate_action', emoji: '📋', description: `Current: ${settings.duplicate_action || 'delete_warn'}` },
             { label: 'Links Action', value: 'links_action', emoji: '🔗', description: `Current: ${settings.links_action || 'delete_warn'}` },
             { label: 'Invites Action', value: 'invites_action', emoji: '📩', description: `Current: ${settings.invites_action || 'delete_warn'}` },
+            { label: 'Phishing Action', value: 'phishing_action', emoji: '🎣', description: `Current: ${settings.phishing_action || 'delete_warn'}` },
             { label: 'Mentions Action', value: 'mention_action', emoji: '📢', description: `Current: ${settings.mention_action || 'delete_warn'}` },
             { label: 'Caps Action', value: 'caps_action', emoji: '🔠', description: `Current: ${settings.caps_action || 'delete'}` },
             { label: 'New Account Action', value: 'new_account_action', emoji: '👶', description: `Current: ${settings.new_account_action || 'kick'}` }
@@ -19,9 +19,10 @@ import {
     ChannelSelectMenuInteraction,
     RoleSelectMenuInteraction
 } from 'discord.js';
+import filterService from '../../../services/moderation/filterService.js';
 import type { AutoModService } from '../../../types/moderation/handlers.js';
 import type { ModerationConfig } from '../../../config/features/moderation/index.js';
-import { showFilterSection, showConfigSection, showActionsSection, showExemptSection, showEscalationConfig } from './autoModPanels.js';
+import { showFilterSection, showConfigSection, showActionsSection, showExemptSection, showEscalationConfig, showPhishingSection } from './autoModPanels.js';
 
 // ─── FILTER ACTIONS ────────────────────────────────────────────────────────────
 
@@ -39,10 +40,15 @@ export async function handleFilterAction(
         return handleFilterActionDeferred(originalInteraction, action, service, config);
     }
 
-    if (action === 'add' || action === 'remove') {
+    if (action === 'add' || action === 'add_exact' || action === 'remove') {
+        const titles: Record<string, string> = {
+            add: 'Add Words to Filter',
+            add_exact: 'Add Exact-Spelling Words',
+            remove: 'Remove Words from Filter'
+        };
         const modal = new ModalBuilder()
             .setCustomId(`filter_${action}_modal_${Date.now()}`)
-            .setTitle(action === 'add' ? 'Add Words to Filter' : 'Remove Words from Filter');
+            .setTitle(titles[action]!);
 
         const input = new TextInputBuilder()
             .setCustomId('words')
@@ -65,6 +71,18 @@ export async function handleFilterAction(
             const wordsInput = modalSubmit.fields.getTextInputValue('words');
             const words = wordsInput.toLowerCase().split(',').map(w => w.trim()).filter(w => w);
 
+            // Exact words skip normalisation, so they live in word_filters where that can be turned off
+            if (action === 'add_exact') {
+                await filterService.addFilters(guildId, words.map(pattern => ({
+                    pattern,
+                    matchType: 'word',
+                    action: 'delete_warn',
+                    severity: 3,
+                    normalize: false
+                })), i.user.id);
+                return showFilterSection(originalInteraction, service, config);
+            }
+
             const settings = await service.getSettings(guildId);
             let currentWords = settings.filtered_words || [];
 
@@ -73,6 +91,7 @@ export async function handleFilterAction(
                 currentWords = [...currentWords, ...newWords];
             } else {
                 currentWords = currentWords.filter(w => !words.includes(w));
+                await _removeExactWords(guildId, words);
             }
 
             await service.updateSettings(guildId, { filtered_words: currentWords });
@@ -95,6 +114,7 @@ export async function handleFilterActionDeferred(
 
     if (action === 'clear') {
         await service.updateSettings(guildId, { filtered_words: [] });
+        await _removeExactWords(guildId);
         return showFilterSection(originalInteraction, service, config);
     }
 
@@ -115,6 +135,18 @@ export async function handleFilterActionDeferred(
     }
 }
 
+/**
+ * Drop exact-spelling words from word_filters; all of them when no words are given
+ */
+async function _removeExactWords(guildId: string, words?: string[]): Promise<void> {
+    const exact = await filterService.listExactFilters(guildId);
+    for (const filter of exact) {
+        if (!words || words.includes(filter.pattern)) {
+            await filterService.removeFilterById(filter.id, guildId);
+        }
+    }
+}
+
 // ─── CONFIG ACTIONS ─────────────────────────────────────────────────────────────
 
 export async function handleConfigSelect(
@@ -338,6 +370,58 @@ export async function handleWhitelistLinks(
     }
 }
 
+// ─── PHISHING ────────────────────────────────────────────────────────────────────
+
+export async function handlePhishingDomains(
+    i: ButtonInteraction,
+    originalInteraction: ChatInputCommandInteraction,
+    service: AutoModService,
+    config: ModerationConfig
+): Promise<void> {
+    const settings = await service.getSettings(originalInteraction.guildId!);
+    const currentDomains = settings.phishing_domains || [];
+
+    const modal = new ModalBuilder()
+        .setCustomId(`phishing_domains_modal_${Date.now()}`)
+        .setTitle('Edit Scam Domains');
+
+    const input = new TextInputBuilder()
+        .setCustomId('domains')
+        .setLabel('Scam domains (one per line)')
+        .setStyle(TextInputStyle.Paragraph)
+        .setPlaceholder('free-nitro.example\nsteam-gift.example')
+        .setValue(currentDomains.join('\n'))
+        .setRequired(false);
+
+    modal.addComponents(new ActionRowBuilder<TextInputBuilder>().addComponents(input));
+
+    try {
+        await i.showModal(modal);
+    } catch {
+        return showPhishingSection(originalInteraction, service, config);
+    }
+
+    try {
+        const modalSubmit = await i.awaitModalSubmit({
+            filter: mi => mi.customId.startsWith('phishing_domains_modal_') && mi.user.id === i.user.id,
+            time: 60000
+        });
+
+        await modalSubmit.deferUpdate();
+
+        // Accept pasted URLs as well as bare domains
+        const domains = modalSubmit.fields.getTextInputValue('domains')
+            .split('\n')
+            .map(d => d.trim().toLowerCase().replace(/^https?:\/\//, '').split('/')[0])
+            .filter(d => d && d.includes('.'));
+
+        await service.updateSettings(originalInteraction.guildId!, { phishing_domains: [...new Set(domains)] });
+        return showPhishingSection(originalInteraction, service, config);
+    } catch {
+        return showPhishingSection(originalInteraction, service, config);
+    }
+}
+
 // ─── ESCALATION CONFIGURATION ───────────────────────────────────────────────────
 
 export async function handleEscalationSelect(
@@ -17,7 +17,8 @@ export {
     showConfigSection,
     showActionsSection,
     showExemptSection,
-    showEscalationConfig
+    showEscalationConfig,
+    showPhishingSection
 } from './autoModPanels.js';
 
 export {
@@ -29,6 +30,7 @@ export {
     handleActionSelect,
     handleActionValue,
     handleWhitelistLinks,
+    handlePhishingDomains,
     handleEscalationSelect,
     handleEscalationActionSelect,
     handleEscalationActionValue
@@ -10,6 +10,14 @@ export {
     handleMessageUpdate as handleMessageUpdateLog,
     handleMemberJoin,
     handleMemberLeave,
+    handleMemberUpdate,
+    handleChannelCreate,
+    handleChannelDelete,
+    handleChannelUpdate,
+    handleRoleCreate,
+    handleRoleDelete,
+    handleRoleUpdate,
+    handleVoiceStateUpdate as handleVoiceStateLog,
     buildQuickEmbed,
     sendConfirmation,
     TYPE_COLORS,
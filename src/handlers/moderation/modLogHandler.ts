@@ -8,9 +8,16 @@ import {
     EmbedBuilder, 
     AuditLogEvent, 
     Message, 
+    Guild,
+    GuildAuditLogsEntry,
     GuildMember,
+    NonThreadGuildBasedChannel,
+    OverwriteType,
+    PermissionsBitField,
+    Role,
     User,
-    SendableChannels
+    SendableChannels,
+    VoiceState
 } from 'discord.js';
 import { logger } from '../../core/observability/Logger.js';
 import { formatDuration } from '../../utils/common/time.js';
@@ -40,6 +47,86 @@ export const TYPE_EMOJIS: Record<ModActionType, string> = {
     unmute: '🔊',
     unban: '🔓'
 };
+
+/**
+ * How old an audit log entry may be and still be matched to a gateway event
+ */
+const AUDIT_LOG_WINDOW_MS = 5000;
+
+/**
+ * Find the audit log entry behind a gateway event
+ * @param guild - Guild the event happened in
+ * @param type - Audit log action to look for
+ * @param matches - Whether an entry belongs to this event
+ * @returns The entry, or null when none is recent enough or audit logs can't be read
+ */
+async function findAuditEntry(
+    guild: Guild,
+    type: AuditLogEvent,
+    matches: (entry: GuildAuditLogsEntry) => boolean
+): Promise<GuildAuditLogsEntry | null> {
+    const auditLogs = await guild.fetchAuditLogs({ type, limit: 5 }).catch(() => null);
+    if (!auditLogs) return null;
+
+    return auditLogs.entries.find(entry =>
+        Date.now() - entry.createdTimestamp < AUDIT_LOG_WINDOW_MS && matches(entry as GuildAuditLogsEntry)
+    ) as GuildAuditLogsEntry | undefined ?? null;
+}
+
+/**
+ * Member counts of the bundled (move/disconnect) entries seen last, by guild and action
+ */
+const bundledEntryCounts = new Map<string, Map<string, number>>();
+
+/**
+ * Find the audit log entry behind a voice move or disconnect. Discord bundles repeats by
+ * the same moderator into one entry and only raises its `extra.count`, so a known entry
+ * belongs to this event only when its count went up since the last lookup.
+ * @returns The entry, or null when nothing changed (e.g. the member left on their own)
+ */
+async function findBundledAuditEntry(
+    guild: Guild,
+    type: AuditLogEvent.MemberMove | AuditLogEvent.MemberDisconnect,
+    matches: (entry: GuildAuditLogsEntry) => boolean = () => true
+): Promise<GuildAuditLogsEntry | null> {
+    const auditLogs = await guild.fetchAuditLogs({ type, limit: 5 }).catch(() => null);
+    if (!auditLogs) return null;
+
+    const key = `${guild.id}:${type}`;
+    const previous = bundledEntryCounts.get(key);
+    const current = new Map<string, number>();
+    let found: GuildAuditLogsEntry | null = null;
+
+    for (const entry of auditLogs.entries.values()) {
+        const count = (entry.extra as { count?: number } | null)?.count ?? 1;
+        current.set(entry.id, count);
+        if (found || !matches(entry as GuildAuditLogsEntry)) continue;
+
+        const seen = previous?.get(entry.id);
+        const isNew = seen === undefined
+            ? Date.now() - entry.createdTimestamp < AUDIT_LOG_WINDOW_MS
+            : count > seen;
+        if (isNew) found = entry as GuildAuditLogsEntry;
+    }
+
+    bundledEntryCounts.set(key, current);
+    return found;
+}
+
+/**
+ * Get the user behind an audit log entry targeting the given ID
+ */
+async function findExecutor(guild: Guild, type: AuditLogEvent, targetId: string): Promise<User | null> {
+    const entry = await findAuditEntry(guild, type, e => (e.target as { id?: string } | null)?.id === targetId);
+    return (entry?.executor as User | null) ?? null;
+}
+
+/**
+ * "SendMessages" -> "Send Messages"
+ */
+function formatPermission(permission: string): string {
+    return permission.replace(/([a-z])([A-Z])/g, '$1 $2');
+}
 /**
  * Handle message delete event for logging
  * @param message - Deleted message
@@ -119,6 +206,237 @@ export async function handleMemberLeave(member: GuildMember): Promise<void> {
     }
 }
 
+/**
+ * Handle member update event for role, nickname and timeout logging
+ * @param oldMember - Member before the update
+ * @param newMember - Member after the update
+ */
+export async function handleMemberUpdate(oldMember: GuildMember, newMember: GuildMember): Promise<void> {
+    const guild = newMember.guild;
+
+    try {
+        const added = newMember.roles.cache.filter(r => !oldMember.roles.cache.has(r.id));
+        const removed = oldMember.roles.cache.filter(r => !newMember.roles.cache.has(r.id));
+
+        if ((added.size > 0 || removed.size > 0) && await ModLogService.isLogEnabled(guild.id, 'role_changes')) {
+            const executor = await findExecutor(guild, AuditLogEvent.MemberRoleUpdate, newMember.id);
+            await ModLogService.logMemberRoleChange(newMember, [...added.values()], [...removed.values()], executor);
+        }
+
+        if (oldMember.nickname !== newMember.nickname && await ModLogService.isLogEnabled(guild.id, 'nickname_changes')) {
+            const entry = await findAuditEntry(guild, AuditLogEvent.MemberUpdate, e =>
+                (e.target as { id?: string } | null)?.id === newMember.id && e.changes.some(c => c.key === 'nick'));
+            await ModLogService.logNicknameChange(newMember, oldMember.nickname, newMember.nickname, (entry?.executor as User | null) ?? null);
+        }
+
+        // Expired timeouts linger on the member until the next update, so only active ones count
+        const activeTimeout = (member: GuildMember) => {
+            const until = member.communicationDisabledUntilTimestamp;
+            return until && until > Date.now() ? until : null;
+        };
+        const oldTimeout = activeTimeout(oldMember);
+        const newTimeout = activeTimeout(newMember);
+
+        if (oldTimeout !== newTimeout && await ModLogService.isLogEnabled(guild.id, 'timeouts')) {
+            const entry = await findAuditEntry(guild, AuditLogEvent.MemberUpdate, e =>
+                (e.target as { id?: string } | null)?.id === newMember.id
+                && e.changes.some(c => c.key === 'communication_disabled_until'));
+
+            // Timeouts from /mute and automod already produce a case in the mod log
+            if (entry?.executorId && entry.executorId === guild.client.user?.id) return;
+
+            await ModLogService.logTimeoutChange(
+                newMember,
+                newTimeout ? new Date(newTimeout) : null,
+                (entry?.executor as User | null) ?? null,
+                entry?.reason ?? null
+            );
+        }
+    } catch (error: unknown) {
+        logger.error('[ModLogHandler] Error handling member update:', String(error));
+    }
+}
+
+/**
+ * Handle channel create event for logging
+ * @param channel - Created channel
+ */
+export async function handleChannelCreate(channel: NonThreadGuildBasedChannel): Promise<void> {
+    try {
+        if (!await ModLogService.isLogEnabled(channel.guild.id, 'channel_changes')) return;
+
+        const executor = await findExecutor(channel.guild, AuditLogEvent.ChannelCreate, channel.id);
+        await ModLogService.logChannelLifecycle(channel, 'create', executor);
+    } catch (error: unknown) {
+        logger.error('[ModLogHandler] Error handling channel create:', String(error));
+    }
+}
+
+/**
+ * Handle channel delete event for logging
+ * @param channel - Deleted channel
+ */
+export async function handleChannelDelete(channel: NonThreadGuildBasedChannel): Promise<void> {
+    try {
+        if (!await ModLogService.isLogEnabled(channel.guild.id, 'channel_changes')) return;
+
+        const executor = await findExecutor(channel.guild, AuditLogEvent.ChannelDelete, channel.id);
+        await ModLogService.logChannelLifecycle(channel, 'delete', executor);
+    } catch (error: unknown) {
+        logger.error('[ModLogHandler] Error handling channel delete:', String(error));
+    }
+}
+
+/**
+ * Handle channel update event for permission overwrite logging
+ * @param oldChannel - Channel before the update
+ * @param newChannel - Channel after the update
+ */
+export async function handleChannelUpdate(
+    oldChannel: NonThreadGuildBasedChannel,
+    newChannel: NonThreadGuildBasedChannel
+): Promise<void> {
+    try {
+        const oldOverwrites = oldChannel.permissionOverwrites.cache;
+        const newOverwrites = newChannel.permissionOverwrites.cache;
+        const ids = new Set([...oldOverwrites.keys(), ...newOverwrites.keys()]);
+
+        const lines: string[] = [];
+        let auditType: AuditLogEvent = AuditLogEvent.ChannelOverwriteUpdate;
+
+        for (const id of ids) {
+            const before = oldOverwrites.get(id);
+            const after = newOverwrites.get(id);
+            const overwrite = (after ?? before)!;
+            const mention = overwrite.type === OverwriteType.Member
+                ? `<@${id}>`
+                : id === newChannel.guild.id ? '@everyone' : `<@&${id}>`;
+
+            const allowBefore = before?.allow ?? new PermissionsBitField();
+            const denyBefore = before?.deny ?? new PermissionsBitField();
+            const allowAfter = after?.allow ?? new PermissionsBitField();
+            const denyAfter = after?.deny ?? new PermissionsBitField();
+
+            if (allowBefore.equals(allowAfter) && denyBefore.equals(denyAfter) && before && after) continue;
+
+            const changes = [
+                ...allowAfter.toArray().filter(p => !allowBefore.has(p)).map(p => `✅ ${formatPermission(p)}`),
+                ...denyAfter.toArray().filter(p => !denyBefore.has(p)).map(p => `❌ ${formatPermission(p)}`),
+                ...[...allowBefore.toArray(), ...denyBefore.toArray()]
+                    .filter(p => !allowAfter.has(p) && !denyAfter.has(p))
+                    .map(p => `⬜ ${formatPermission(p)}`)
+            ];
+
+            if (!before) {
+                auditType = AuditLogEvent.ChannelOverwriteCreate;
+                lines.push(`${mention} added${changes.length ? `: ${changes.join(', ')}` : ''}`);
+            } else if (!after) {
+                if (auditType !== AuditLogEvent.ChannelOverwriteCreate) auditType = AuditLogEvent.ChannelOverwriteDelete;
+                lines.push(`${mention} removed`);
+            } else {
+                lines.push(`${mention}: ${changes.join(', ')}`);
+            }
+        }
+
+        if (lines.length === 0) return;
+        if (!await ModLogService.isLogEnabled(newChannel.guild.id, 'channel_changes')) return;
+
+        const executor = await findExecutor(newChannel.guild, auditType, newChannel.id);
+        await ModLogService.logChannelOverwrites(newChannel, lines, executor);
+    } catch (error: unknown) {
+        logger.error('[ModLogHandler] Error handling channel update:', String(error));
+    }
+}
+
+/**
+ * Handle role create event for logging
+ * @param role - Created role
+ */
+export async function handleRoleCreate(role: Role): Promise<void> {
+    try {
+        if (!await ModLogService.isLogEnabled(role.guild.id, 'server_role_changes')) return;
+
+        const executor = await findExecutor(role.guild, AuditLogEvent.RoleCreate, role.id);
+        await ModLogService.logRoleLifecycle(role, 'create', executor);
+    } catch (error: unknown) {
+        logger.error('[ModLogHandler] Error handling role create:', String(error));
+    }
+}
+
+/**
+ * Handle role delete event for logging
+ * @param role - Deleted role
+ */
+export async function handleRoleDelete(role: Role): Promise<void> {
+    try {
+        if (!await ModLogService.isLogEnabled(role.guild.id, 'server_role_changes')) return;
+
+        const executor = await findExecutor(role.guild, AuditLogEvent.RoleDelete, role.id);
+        await ModLogService.logRoleLifecycle(role, 'delete', executor);
+    } catch (error: unknown) {
+        logger.error('[ModLogHandler] Error handling role delete:', String(error));
+    }
+}
+
+/**
+ * Handle role update event for name and permission logging.
+ * Position and color changes are ignored; reordering roles fires one update per role.
+ * @param oldRole - Role before the update
+ * @param newRole - Role after the update
+ */
+export async function handleRoleUpdate(oldRole: Role, newRole: Role): Promise<void> {
+    try {
+        const granted = newRole.permissions.toArray().filter(p => !oldRole.permissions.has(p)).map(formatPermission);
+        const revoked = oldRole.permissions.toArray().filter(p => !newRole.permissions.has(p)).map(formatPermission);
+        const renamed = oldRole.name !== newRole.name;
+
+        if (!renamed && granted.length === 0 && revoked.length === 0) return;
+        if (!await ModLogService.isLogEnabled(newRole.guild.id, 'server_role_changes')) return;
+
+        const executor = await findExecutor(newRole.guild, AuditLogEvent.RoleUpdate, newRole.id);
+        await ModLogService.logRoleUpdate(newRole, {
+            name: renamed ? [oldRole.name, newRole.name] : undefined,
+            granted,
+            revoked
+        }, executor);
+    } catch (error: unknown) {
+        logger.error('[ModLogHandler] Error handling role update:', String(error));
+    }
+}
+
+/**
+ * Handle voice state update event for join/leave/move logging
+ * @param oldState - Voice state before the update
+ * @param newState - Voice state after the update
+ */
+export async function handleVoiceStateUpdate(oldState: VoiceState, newState: VoiceState): Promise<void> {
+    // Mute/deafen/stream changes keep the same channel
+    if (oldState.channelId === newState.channelId) return;
+
+    const member = newState.member ?? oldState.member;
+    if (!member || member.user.bot) return;
+
+    try {
+        if (!await ModLogService.isLogEnabled(member.guild.id, 'voice_activity')) return;
+
+        // Move and disconnect entries have no target, so only a new or grown entry
+        // (for the right channel, on moves) is attributed
+        let executor: User | null = null;
+        if (oldState.channelId && newState.channelId) {
+            const entry = await findBundledAuditEntry(member.guild, AuditLogEvent.MemberMove, e =>
+                (e.extra as { channel?: { id: string } } | null)?.channel?.id === newState.channelId);
+            executor = (entry?.executor as User | null) ?? null;
+        } else if (oldState.channelId) {
+            const entry = await findBundledAuditEntry(member.guild, AuditLogEvent.MemberDisconnect);
+            executor = (entry?.executor as User | null) ?? null;
+        }
+
+        await ModLogService.logVoiceActivity(member, oldState.channelId, newState.channelId, executor);
+    } catch (error: unknown) {
+        logger.error('[ModLogHandler] Error handling voice state update:', String(error));
+    }
+}
+
 // formatDuration imported from utils/common/time.ts (canonical source)
 
 /**
@@ -189,6 +507,14 @@ export default {
     handleMessageUpdate,
     handleMemberJoin,
     handleMemberLeave,
+    handleMemberUpdate,
+    handleChannelCreate,
+    handleChannelDelete,
+    handleChannelUpdate,
+    handleRoleCreate,
+    handleRoleDelete,
+    handleRoleUpdate,
+    handleVoiceStateUpdate,
     buildQuickEmbed,
     sendConfirmation,
     formatDuration
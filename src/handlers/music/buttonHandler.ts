@@ -4,20 +4,38 @@
  * @module handlers/music/buttonHandler
  */
 
-import { ButtonInteraction, Message, TextChannel } from 'discord.js';
+import { ButtonInteraction, GuildMember, Message, TextChannel } from 'discord.js';
 import { trackHandler } from './trackHandler.js';
 import { playHandler } from './playHandler.js';
+import { lyricsHandler } from './lyricsHandler.js';
+import { voteHandler } from './voteHandler.js';
 import musicCache from '../../cache/music/MusicCacheFacade.js';
 import { checkSameVoiceChannel } from '../../middleware/voiceChannelCheck.js';
+import { checkMusicPermission } from '../../middleware/musicPermissionCheck.js';
 import { music } from '../../config/index.js';
 import { logger } from '../../core/observability/Logger.js';
 import { musicFacade as musicService } from '../../services/music/core/musicFacade.js';
 import type { Track } from '../../types/music/track.js';
 import type { NowPlayingOptions } from '../../types/music/playback.js';
 import type { VoteResult, VoteSkipStatus } from '../../types/music/vote.js';
+import type { MusicAction } from '../../types/music/permissions.js';
+import type { VoteAction } from '../../types/music/vote.js';
 
 const { minVotesRequired: MIN_VOTES_REQUIRED = 5 } = music.voting || {};
-const SKIP_VOTE_TIMEOUT = 15000;
+
+// Policy action per control button (null = only gated by DJ-only mode).
+// Skip buttons are checked in their handlers since the result decides whether to vote;
+// stop and shuffle go to voteHandler when the member may only vote on them.
+const BUTTON_PERMISSIONS: Record<string, MusicAction | null> = {
+    music_pause: null,
+    music_stop: 'stop',
+    music_loop: 'loop',
+    music_shuffle: 'shuffle',
+    music_autoplay: null,
+    music_voldown: 'volume',
+    music_volup: 'volume',
+    music_seek: null
+};
 
 function parseQueuePageFromFooter(interaction: ButtonInteraction): number {
     const footerText = interaction.message.embeds[0]?.footer?.text || '';
@@ -63,7 +81,9 @@ function buildNowPlayingOptions(guildId: string, interaction: ButtonInteraction)
         loopCount: musicService.getLoopCount(guildId),
         voteSkipCount: voteSkipStatus.count,
         voteSkipRequired: voteSkipStatus.required,
-        listenerCount: listenerCount
+        listenerCount: listenerCount,
+        position: musicService.getPosition(guildId),
+        filters: musicService.getFilterSummary(guildId)
     };
 }
 export const buttonHandler = {
@@ -76,7 +96,8 @@ export const buttonHandler = {
         const voiceRequiredActions = [
             'music_pause', 'music_stop', 'music_skip', 'music_loop',
             'music_shuffle', 'music_voldown', 'music_volup', 'music_voteskip',
-            'music_voteskip_add', 'music_autoplay'
+            'music_voteskip_add', 'music_autoplay', 'music_seek', 'music_previous',
+            'music_vote'
         ];
 
         if (voiceRequiredActions.includes(action)) {
@@ -84,6 +105,13 @@ export const buttonHandler = {
             if (!await checkSameVoiceChannel(interaction, botChannelId)) return;
         }
 
+        if (action in BUTTON_PERMISSIONS) {
+            const permission = await checkMusicPermission(interaction, guildId, BUTTON_PERMISSIONS[action]);
+            if (!permission) return;
+            if ((action === 'music_stop' || action === 'music_shuffle')
+                && !await voteHandler.gate(interaction, guildId, action === 'music_stop' ? 'stop' : 'shuffle', permission)) return;
+        }
+
         switch (action) {
             case 'music_pause':
                 return await this.handleButtonPause(interaction, guildId);
@@ -91,6 +119,8 @@ export const buttonHandler = {
                 return await this.handleButtonStop(interaction, guildId);
             case 'music_skip':
                 return await this.handleButtonSkip(interaction, guildId);
+            case 'music_previous':
+                return await this.handleButtonPrevious(interaction, guildId);
             case 'music_loop':
                 return await this.handleButtonLoop(interaction, guildId);
             case 'music_shuffle':
@@ -101,15 +131,26 @@ export const buttonHandler = {
                 return await this.handleButtonVolume(interaction, guildId, -10);
             case 'music_volup':
                 return await this.handleButtonVolume(interaction, guildId, 10);
+            case 'music_seek':
+                return await this.handleButtonSeek(interaction, guildId, Number(parts[2]) || 0);
             case 'music_queue':
                 return await this.handleButtonQueue(interaction, guildId);
             case 'music_voteskip':
             case 'music_voteskip_add':
+                if (!await checkMusicPermission(interaction, guildId, 'skip')) return;
                 return await this.handleButtonVoteSkip(interaction, guildId);
+            case 'music_vote':
+                return await voteHandler.handleButtonVote(interaction, guildId, parts[2] as Exclude<VoteAction, 'skip'>);
             case 'music_qpage':
                 return await this.handleButtonQueuePage(interaction, guildId, parts[2]);
+            case 'music_lyrics':
+                return await lyricsHandler.handleButtonLyricsPage(interaction, guildId, parts[2]);
+            case 'music_lyricslive':
+                return await lyricsHandler.handleButtonLyricsLive(interaction, guildId, parts[2]);
             case 'music_confirm':
                 return await this.handleButtonConfirm(interaction, guildId, parts[2], parts[3]);
+            case 'music_import':
+                return await this.handleButtonImportCancel(interaction, guildId, parts[3]);
             default:
                 logger.warn('Button', `Unknown music button: ${action}`);
         }
@@ -187,9 +228,12 @@ export const buttonHandler = {
 
     async handleButtonSkip(interaction: ButtonInteraction, guildId: string): Promise<void> {
         try {
+            const permission = await checkMusicPermission(interaction, guildId, 'skip');
+            if (!permission) return;
+
             const listenerCount = musicService.getListenerCount(guildId, interaction.guild);
             
-            if (listenerCount >= MIN_VOTES_REQUIRED) {
+            if (permission.vote && listenerCount >= MIN_VOTES_REQUIRED) {
                 return await this.handleButtonVoteSkip(interaction, guildId);
             }
 
@@ -225,6 +269,44 @@ export const buttonHandler = {
         }
     },
 
+    async handleButtonPrevious(interaction: ButtonInteraction, guildId: string): Promise<void> {
+        try {
+            // Going back skips the current track, so it follows the skip policy
+            const permission = await checkMusicPermission(interaction, guildId, 'skip');
+            if (!permission) return;
+
+            if (permission.vote && musicService.getListenerCount(guildId, interaction.guild) >= MIN_VOTES_REQUIRED) {
+                await interaction.reply({
+                    content: '❌ Skips are decided by vote here, so only a DJ or the requester can go back.',
+                    ephemeral: true
+                });
+                return;
+            }
+
+            await interaction.deferUpdate();
+
+            const result = await musicService.playPrevious(guildId, interaction.user);
+            if (result.isErr()) {
+                await interaction.followUp({ content: `❌ ${result.error}`, ephemeral: true });
+                return;
+            }
+
+            const queue = musicCache.getQueue(guildId);
+            if (queue?.textChannel) {
+                const channel = queue.textChannel as TextChannel;
+                await channel.send({
+                    embeds: [trackHandler.createInfoEmbed('⏮️ Previous Track', `${interaction.user} went back to **${result.data!.title}**`, 'info')],
+                    allowedMentions: { parse: [] }
+                }).catch(() => {});
+            }
+
+            await musicService.sendNowPlayingEmbed(guildId);
+        } catch (error: unknown) {
+            const err = error as { message?: string };
+            logger.error('Button', `Previous button error: ${err.message}`);
+        }
+    },
+
     async handleButtonLoop(interaction: ButtonInteraction, guildId: string): Promise<void> {
         try {
             await interaction.deferUpdate();
@@ -357,6 +439,44 @@ export const buttonHandler = {
         }
     },
 
+    async handleButtonSeek(interaction: ButtonInteraction, guildId: string, deltaSeconds: number): Promise<void> {
+        try {
+            await interaction.deferUpdate();
+
+            const currentTrack = musicService.getCurrentTrack(guildId) as Track | null;
+            if (!currentTrack) return;
+            if (currentTrack.isStream) {
+                await interaction.followUp({ content: '❌ You can\'t seek in a live stream.', ephemeral: true });
+                return;
+            }
+
+            // Player position lags until the next playerUpdate, so render the seek target directly
+            const position = await musicService.seekBy(guildId, deltaSeconds * 1000);
+
+            const options = { ...buildNowPlayingOptions(guildId, interaction), position };
+            const embed = trackHandler.createNowPlayingEmbed(currentTrack, options);
+
+            const rows = trackHandler.createControlButtons(guildId, {
+                isPaused: options.isPaused,
+                loopMode: options.loopMode,
+                isShuffled: options.isShuffled,
+                autoPlay: musicService.isAutoPlayEnabled(guildId),
+                trackUrl: currentTrack.url,
+                userId: interaction.user.id,
+                listenerCount: options.listenerCount
+            });
+
+            await interaction.editReply({ embeds: [embed], components: rows });
+        } catch (error: unknown) {
+            const err = error as { code?: number; message?: string };
+            if (err.code === 10062 || err.code === 10008) {
+                logger.debug('Button', 'Interaction expired or message deleted, ignoring...');
+            } else {
+                logger.error('Button', `Seek button error: ${err.message}`);
+            }
+        }
+    },
+
     async handleButtonQueue(interaction: ButtonInteraction, guildId: string): Promise<void> {
         const tracks = musicService.getQueueList(guildId) as Track[];
         const currentTrack = musicService.getCurrentTrack(guildId) as Track | null;
@@ -365,7 +485,8 @@ export const buttonHandler = {
         const embed = trackHandler.createQueueListEmbed(tracks, currentTrack, {
             loopMode: musicService.getLoopMode(guildId),
             isShuffled: musicService.isShuffled(guildId),
-            volume: musicService.getVolume(guildId)
+            volume: musicService.getVolume(guildId),
+            turnOrder: musicService.getTurnOrder(guildId)
         });
 
         const row = trackHandler.createQueuePaginationButtons(guildId, 1, totalPages);
@@ -432,9 +553,10 @@ export const buttonHandler = {
             }
 
             await interaction.deferUpdate();
-            const required = musicCache.getRequiredVotes(musicCache.getSkipVoteListenerCount(guildId) || listenerCount);
+            const required = voteSession?.required ?? musicCache.getRequiredVotes(musicCache.getSkipVoteListenerCount(guildId) || listenerCount);
             const currentTrack = musicService.getCurrentTrack(guildId) as Track | null;
-            const remainingMs = Math.max(0, SKIP_VOTE_TIMEOUT - (Date.now() - (voteSession?.startedAt ?? Date.now())));
+            const timeoutMs = (await musicService.getVoteRule(guildId, 'skip')).timeoutSeconds * 1000;
+            const remainingMs = Math.max(0, timeoutMs - (Date.now() - (voteSession?.startedAt ?? Date.now())));
 
             if (voteMessage) {
                 await voteMessage.edit({
@@ -451,10 +573,12 @@ export const buttonHandler = {
         }
 
         // Start new vote
-        const voteResult = musicService.startSkipVote(guildId, interaction.user.id, listenerCount) as VoteResult;
+        const rule = await musicService.getVoteRule(guildId, 'skip');
+        const timeoutMs = rule.timeoutSeconds * 1000;
+        const voteResult = musicService.startSkipVote(guildId, interaction.user.id, listenerCount, rule) as VoteResult;
         const currentTrack = musicService.getCurrentTrack(guildId) as Track | null;
 
-        const embed = trackHandler.createSkipVoteEmbed(currentTrack, voteResult.voteCount, voteResult.required, SKIP_VOTE_TIMEOUT);
+        const embed = trackHandler.createSkipVoteEmbed(currentTrack, voteResult.voteCount, voteResult.required, timeoutMs);
         const row = trackHandler.createSkipVoteButton(guildId, voteResult.voteCount, voteResult.required);
 
         const response = await interaction.reply({ embeds: [embed], components: [row], withResponse: true });
@@ -474,7 +598,7 @@ export const buttonHandler = {
                 const err = error as { message?: string };
                 logger.error('Button', `Skip vote timeout error: ${err.message}`);
             }
-        }, SKIP_VOTE_TIMEOUT);
+        }, timeoutMs);
         musicCache.setSkipVoteTimeout(guildId, voteTimeout);
     },
 
@@ -510,7 +634,8 @@ export const buttonHandler = {
                 page: nextPage,
                 loopMode: musicService.getLoopMode(guildId),
                 isShuffled: musicService.isShuffled(guildId),
-                volume: musicService.getVolume(guildId)
+                volume: musicService.getVolume(guildId),
+                turnOrder: musicService.getTurnOrder(guildId)
             });
 
             const row = trackHandler.createQueuePaginationButtons(guildId, nextPage, totalPages);
@@ -530,6 +655,9 @@ export const buttonHandler = {
         if (action === 'longtrack') {
             return await playHandler.handleLongTrackButton(interaction, guildId, choice);
         }
+        if (action === 'resume') {
+            return await this.handleButtonResume(interaction, guildId, choice);
+        }
         
         try {
             await interaction.deferUpdate();
@@ -585,6 +713,91 @@ export const buttonHandler = {
             const err = error as { message?: string };
             logger.error('Button', `Confirm button error: ${err.message}`);
         }
+    },
+
+    /**
+     * Answer the post-restart "resume listening?" prompt.
+     * Only the snapshot's requester or a DJ may decide.
+     */
+    async handleButtonResume(interaction: ButtonInteraction, guildId: string, choice: string): Promise<void> {
+        try {
+            const snapshot = await musicService.getQueueSnapshot(guildId);
+            if (!snapshot) {
+                await interaction.update({ content: '⌛ This session is no longer available.', embeds: [], components: [] });
+                return;
+            }
+
+            const member = interaction.member as GuildMember;
+            const isRequester = snapshot.requesterId === interaction.user.id;
+            if (!isRequester && !await musicService.isDJ(member)) {
+                await interaction.reply({
+                    content: `❌ Only <@${snapshot.requesterId}> or a DJ can decide whether to resume.`,
+                    ephemeral: true
+                });
+                return;
+            }
+
+            await interaction.deferUpdate();
+
+            if (choice !== 'yes') {
+                await musicService.discardQueueSnapshot(guildId);
+                await interaction.editReply({ content: '🗑️ Saved session discarded.', embeds: [], components: [] });
+                return;
+            }
+
+            const result = await musicService.resumeQueueSnapshot(interaction.guild!);
+            if (result.isErr()) {
+                await interaction.editReply({ content: `❌ ${result.error}`, embeds: [], components: [] });
+                return;
+            }
+
+            const { restored } = result.data!;
+            await interaction.editReply({
+                content: `▶️ Resumed by ${interaction.user} — ${restored} track${restored === 1 ? '' : 's'} restored.`,
+                embeds: [],
+                components: []
+            });
+        } catch (error: unknown) {
+            const err = error as { code?: number; message?: string };
+            if (err.code === 10062 || err.code === 10008) {
+                logger.debug('Button', 'Interaction expired or message deleted, ignoring...');
+            } else {
+                logger.error('Button', `Resume button error: ${err.message}`);
+            }
+        }
+    },
+
+    /**
+     * Cancel a running playlist import. Only the person who started it or a DJ can cancel.
+     */
+    async handleButtonImportCancel(interaction: ButtonInteraction, guildId: string, jobId: string): Promise<void> {
+        try {
+            const job = musicService.getActivePlaylistImport(guildId);
+            if (!job || job.id !== jobId) {
+                await interaction.reply({ content: '⌛ This import is no longer running.', ephemeral: true });
+                return;
+            }
+
+            const member = interaction.member as GuildMember;
+            if (job.userId !== interaction.user.id && !await musicService.isDJ(member)) {
+                await interaction.reply({
+                    content: `❌ Only <@${job.userId}> or a DJ can cancel this import.`,
+                    ephemeral: true
+                });
+                return;
+            }
+
+            musicService.cancelPlaylistImport(guildId, jobId);
+            // The import replaces the embed with its summary once the current batch is done
+            await interaction.update({ components: [] });
+        } catch (error: unknown) {
+            const err = error as { code?: number; message?: string };
+            if (err.code === 10062 || err.code === 10008) {
+                logger.debug('Button', 'Interaction expired or message deleted, ignoring...');
+            } else {
+                logger.error('Button', `Import cancel button error: ${err.message}`);
+            }
+        }
     }
 };
 
@@ -1,21 +1,46 @@
 /**
  * Control Handler
- * Handles playback controls: stop, skip, pause, vote skip
+ * Handles playback controls: stop, skip, previous, replay, pause, vote skip, sleep timer.
+ * Stop and shuffle go through voteHandler when the guild puts them to a vote.
  * @module handlers/music/controlHandler
  */
 
-import { ChatInputCommandInteraction, Message, TextChannel } from 'discord.js';
+import { ChatInputCommandInteraction, GuildMember, Message, MessageFlags, TextChannel } from 'discord.js';
 import { trackHandler, LoopMode } from './trackHandler.js';
+import { voteHandler } from './voteHandler.js';
 import musicCache from '../../cache/music/MusicCacheFacade.js';
 import { checkSameVoiceChannel } from '../../middleware/voiceChannelCheck.js';
+import { checkMusicPermission } from '../../middleware/musicPermissionCheck.js';
 import { music } from '../../config/index.js';
 import { musicFacade as musicService } from '../../services/music/core/musicFacade.js';
 import logger from '../../core/observability/Logger.js';
+import { formatSecondsToTime as fmtDur, parseSeekInput } from '../../utils/music/index.js';
 import type { Track } from '../../types/music/track.js';
+import type { AutoPlayMode } from '../../types/music/autoplay.js';
+import type { SleepTimer } from '../../types/music/sleep-timer.js';
 
 // Import voting constants from config
 const { minVotesRequired: MIN_VOTES_REQUIRED = 5 } = music.voting || {};
-const SKIP_VOTE_TIMEOUT = 15000;
+
+const AUTOPLAY_MODE_LABELS: Record<AutoPlayMode, string> = {
+    similar: 'Similar (artists your listeners play together)',
+    discovery: 'Discovery (related artists you have not heard yet)',
+    artist: 'Same artist',
+    favorites: 'Favourites only'
+};
+
+function describeSleepTimer(timer: SleepTimer): string {
+    const parts: string[] = [];
+    if (timer.tracksLeft !== null) {
+        parts.push(timer.tracksLeft === 1 ? 'after the current track' : `after ${timer.tracksLeft} tracks, counting the current one`);
+    }
+    if (timer.endsAt !== null) {
+        parts.push(`<t:${Math.floor(timer.endsAt / 1000)}:R>`);
+    }
+    return parts.length > 1
+        ? `Playback stops ${parts.join(', or ')}, whichever comes first.`
+        : `Playback stops ${parts[0]}.`;
+}
 
 async function resolveSkipVoteMessage(interaction: ChatInputCommandInteraction, guildId: string): Promise<Message | null> {
     const ref = musicCache.getSkipVoteMessage(guildId);
@@ -44,6 +69,9 @@ export const controlHandler = {
 
         const botChannelId = musicService.getVoiceChannelId(guildId);
         if (!await checkSameVoiceChannel(interaction, botChannelId)) return;
+        const permission = await checkMusicPermission(interaction, guildId, 'stop');
+        if (!permission) return;
+        if (!await voteHandler.gate(interaction, guildId, 'stop', permission)) return;
 
         await musicService.cleanup(guildId);
 
@@ -65,11 +93,13 @@ export const controlHandler = {
         const botChannelId = musicService.getVoiceChannelId(guildId);
         if (!await checkSameVoiceChannel(interaction, botChannelId)) return;
 
-        // Check if vote skip is needed
+        const permission = await checkMusicPermission(interaction, guildId, 'skip');
+        if (!permission) return;
+
+        // Vote-gated skips only need a vote once enough listeners are around
         const listenerCount = musicService.getListenerCount(guildId, interaction.guild);
-        const prefs = await musicService.getPreferences(interaction.user.id);
 
-        if (prefs.voteSkipEnabled && listenerCount >= MIN_VOTES_REQUIRED) {
+        if (permission.vote && listenerCount >= MIN_VOTES_REQUIRED) {
             return await this.handleVoteSkip(interaction, guildId);
         }
 
@@ -131,7 +161,8 @@ export const controlHandler = {
             const currentTrack = musicService.getCurrentTrack(guildId) as Track | null;
             const currentVotes = result.voteCount ?? voteSession?.votes.size ?? 0;
             const requiredVotes = result.required ?? voteSession?.required ?? 0;
-            const remainingMs = Math.max(0, SKIP_VOTE_TIMEOUT - (Date.now() - (voteSession?.startedAt ?? Date.now())));
+            const timeoutMs = (await musicService.getVoteRule(guildId, 'skip')).timeoutSeconds * 1000;
+            const remainingMs = Math.max(0, timeoutMs - (Date.now() - (voteSession?.startedAt ?? Date.now())));
 
             if (voteMessage) {
                 await voteMessage.edit({
@@ -148,10 +179,12 @@ export const controlHandler = {
         }
 
         // Start new vote
-        const voteResult = musicService.startSkipVote(guildId, interaction.user.id, listenerCount);
+        const rule = await musicService.getVoteRule(guildId, 'skip');
+        const timeoutMs = rule.timeoutSeconds * 1000;
+        const voteResult = musicService.startSkipVote(guildId, interaction.user.id, listenerCount, rule);
         const currentTrack = musicService.getCurrentTrack(guildId) as Track | null;
 
-        const embed = trackHandler.createSkipVoteEmbed(currentTrack, voteResult.voteCount ?? 0, voteResult.required ?? 0, SKIP_VOTE_TIMEOUT);
+        const embed = trackHandler.createSkipVoteEmbed(currentTrack, voteResult.voteCount ?? 0, voteResult.required ?? 0, timeoutMs);
         const row = trackHandler.createSkipVoteButton(guildId, voteResult.voteCount ?? 0, voteResult.required ?? 0);
 
         const response = await interaction.reply({ embeds: [embed], components: [row], withResponse: true });
@@ -169,7 +202,7 @@ export const controlHandler = {
             } catch (error) {
                 logger.error('MusicControl', `Error in skip vote timeout: ${(error as Error).message}`);
             }
-        }, SKIP_VOTE_TIMEOUT);
+        }, timeoutMs);
         musicCache.setSkipVoteTimeout(guildId, voteTimeout);
     },
 
@@ -184,6 +217,7 @@ export const controlHandler = {
 
         const botChannelId = musicService.getVoiceChannelId(guildId);
         if (!await checkSameVoiceChannel(interaction, botChannelId)) return;
+        if (!await checkMusicPermission(interaction, guildId, null)) return;
 
         const isPaused = await musicService.togglePause(guildId);
 
@@ -226,6 +260,7 @@ export const controlHandler = {
 
         const botChannelId = musicService.getVoiceChannelId(guildId);
         if (!await checkSameVoiceChannel(interaction, botChannelId)) return;
+        if (!await checkMusicPermission(interaction, guildId, 'volume')) return;
 
         const level = interaction.options.getInteger('level')!;
         const newVolume = await musicService.setVolume(guildId, level);
@@ -244,9 +279,19 @@ export const controlHandler = {
             return;
         }
 
+        if (!await checkMusicPermission(interaction, guildId, 'loop')) return;
+
         const mode = interaction.options.getString('mode') as LoopMode | null;
         let newMode: LoopMode;
 
+        if (mode === 'track' && (musicService.getCurrentTrack(guildId) as Track | null)?.isStream) {
+            await interaction.reply({
+                embeds: [trackHandler.createErrorEmbed('A live stream can\'t be put on repeat')],
+                ephemeral: true
+            });
+            return;
+        }
+
         if (mode) {
             musicService.setLoopMode(guildId, mode);
             newMode = mode;
@@ -274,6 +319,10 @@ export const controlHandler = {
             return;
         }
 
+        const permission = await checkMusicPermission(interaction, guildId, 'shuffle');
+        if (!permission) return;
+        if (!await voteHandler.gate(interaction, guildId, 'shuffle', permission)) return;
+
         const isShuffled = musicService.toggleShuffle(guildId);
 
         await interaction.reply({
@@ -286,19 +335,73 @@ export const controlHandler = {
     },
 
     async handleSeek(interaction: ChatInputCommandInteraction, guildId: string): Promise<void> {
-        const timeStr = interaction.options.getString('position');
-        if (!timeStr) {
+        const input = interaction.options.getString('timestamp', true);
+        const currentTrack = musicService.getCurrentTrack(guildId) as Track | null;
+
+        if (!currentTrack) {
             await interaction.reply({
-                embeds: [trackHandler.createErrorEmbed('Please provide a time position.')],
+                embeds: [trackHandler.createErrorEmbed('Nothing is playing')],
                 ephemeral: true
             });
             return;
         }
-        const currentTrack = musicService.getCurrentTrack(guildId) as Track | null;
 
-        if (!currentTrack) {
+        const botChannelId = musicService.getVoiceChannelId(guildId);
+        if (!await checkSameVoiceChannel(interaction, botChannelId)) return;
+        if (!await checkMusicPermission(interaction, guildId, null)) return;
+
+        if (currentTrack.isStream) {
             await interaction.reply({
-                embeds: [trackHandler.createErrorEmbed('Nothing is playing')],
+                embeds: [trackHandler.createErrorEmbed('You can\'t seek in a live stream')],
+                ephemeral: true
+            });
+            return;
+        }
+
+        const parsed = parseSeekInput(input);
+        if (!parsed) {
+            await interaction.reply({
+                embeds: [trackHandler.createErrorEmbed('Invalid time format. Use `1:23`, `83`, `+30` or `-15`.')],
+                ephemeral: true
+            });
+            return;
+        }
+
+        const target = parsed.relative
+            ? Math.floor(musicService.getPosition(guildId) / 1000) + parsed.seconds
+            : parsed.seconds;
+
+        if (currentTrack.lengthSeconds > 0 && target >= currentTrack.lengthSeconds) {
+            await interaction.reply({
+                embeds: [trackHandler.createErrorEmbed('Cannot seek past the end of the track')],
+                ephemeral: true
+            });
+            return;
+        }
+
+        try {
+            const position = await musicService.seek(guildId, Math.max(0, target) * 1000);
+            const seconds = Math.floor(position / 1000);
+            const icon = parsed.relative && parsed.seconds < 0 ? '⏪' : '⏩';
+
+            await interaction.reply({
+                embeds: [trackHandler.createInfoEmbed(`${icon} Seeked`, `Jumped to **${fmtDur(seconds)}** / ${fmtDur(currentTrack.lengthSeconds)}`, 'success')]
+            });
+
+            musicService.updateNowPlayingPosition(guildId, position).catch(() => {});
+        } catch (error) {
+            logger.error('Seek', `Error: ${(error as Error).message}`);
+            await interaction.reply({
+                embeds: [trackHandler.createErrorEmbed('Failed to seek. Please try again.')],
+                ephemeral: true
+            });
+        }
+    },
+
+    async handlePrevious(interaction: ChatInputCommandInteraction, guildId: string): Promise<void> {
+        if (!musicService.isConnected(guildId)) {
+            await interaction.reply({
+                embeds: [trackHandler.createErrorEmbed('Not connected to any voice channel')],
                 ephemeral: true
             });
             return;
@@ -307,69 +410,196 @@ export const controlHandler = {
         const botChannelId = musicService.getVoiceChannelId(guildId);
         if (!await checkSameVoiceChannel(interaction, botChannelId)) return;
 
-        // Parse time (supports "1:30", "90", "0:30", "1:30:00")
-        let seconds: number;
-        if (timeStr.includes(':')) {
-            const parts = timeStr.split(':').map(p => parseInt(p) || 0);
-            if (parts.some(p => isNaN(p) || p < 0)) {
-                await interaction.reply({
-                    embeds: [trackHandler.createErrorEmbed('Invalid time format. Use "1:30" or "90".')],
-                    ephemeral: true
-                });
+        // Going back skips the current track, so it follows the skip policy
+        const permission = await checkMusicPermission(interaction, guildId, 'skip');
+        if (!permission) return;
+        if (permission.vote && musicService.getListenerCount(guildId, interaction.guild) >= MIN_VOTES_REQUIRED) {
+            await interaction.reply({
+                embeds: [trackHandler.createErrorEmbed('Skips are decided by vote here, so only a DJ or the requester can go back.')],
+                ephemeral: true
+            });
+            return;
+        }
+
+        await interaction.deferReply();
+
+        try {
+            const result = await musicService.playPrevious(guildId, interaction.user);
+            if (result.isErr()) {
+                await interaction.editReply({ embeds: [trackHandler.createErrorEmbed(result.error || 'There is no previous track to go back to.')] });
                 return;
             }
-            if (parts.length === 2) {
-                const [mins, secs] = parts;
-                seconds = mins * 60 + secs;
-            } else if (parts.length === 3) {
-                const [hours, mins, secs] = parts;
-                seconds = hours * 3600 + mins * 60 + secs;
-            } else {
-                seconds = NaN;
-            }
-        } else {
-            seconds = parseInt(timeStr);
+
+            await interaction.editReply({
+                embeds: [trackHandler.createInfoEmbed('⏮️ Previous Track', `Going back to **${result.data!.title}**`, 'success')]
+            });
+            await musicService.sendNowPlayingEmbed(guildId);
+        } catch (error) {
+            logger.error('Previous', `Error: ${(error as Error).message}`);
+            await interaction.editReply({ embeds: [trackHandler.createErrorEmbed('Failed to play the previous track.')] });
         }
+    },
 
-        if (isNaN(seconds) || seconds < 0) {
+    async handleReplay(interaction: ChatInputCommandInteraction, guildId: string): Promise<void> {
+        const currentTrack = musicService.getCurrentTrack(guildId) as Track | null;
+        if (!currentTrack) {
             await interaction.reply({
-                embeds: [trackHandler.createErrorEmbed('Invalid time format. Use "1:30" or "90".')],
+                embeds: [trackHandler.createErrorEmbed('Nothing is playing')],
                 ephemeral: true
             });
             return;
         }
 
-        if (seconds > currentTrack.lengthSeconds) {
+        const botChannelId = musicService.getVoiceChannelId(guildId);
+        if (!await checkSameVoiceChannel(interaction, botChannelId)) return;
+        if (!await checkMusicPermission(interaction, guildId, null)) return;
+
+        if (currentTrack.isStream) {
             await interaction.reply({
-                embeds: [trackHandler.createErrorEmbed('Cannot seek past the end of the track')],
+                embeds: [trackHandler.createErrorEmbed('A live stream can\'t be restarted')],
+                ephemeral: true
+            });
+            return;
+        }
+
+        try {
+            const position = await musicService.replay(guildId);
+            await interaction.reply({
+                embeds: [trackHandler.createInfoEmbed('🔁 Replaying', `Restarted **${currentTrack.title}** from the beginning`, 'success')]
+            });
+
+            musicService.updateNowPlayingPosition(guildId, position).catch(() => {});
+        } catch (error) {
+            logger.error('Replay', `Error: ${(error as Error).message}`);
+            await interaction.reply({
+                embeds: [trackHandler.createErrorEmbed('Failed to restart the track. Please try again.')],
+                ephemeral: true
+            });
+        }
+    },
+
+    async handleSleep(interaction: ChatInputCommandInteraction, guildId: string): Promise<void> {
+        const minutes = interaction.options.getInteger('minutes');
+        const tracks = interaction.options.getInteger('tracks');
+        const off = interaction.options.getBoolean('off') ?? false;
+
+        const botChannelId = musicService.getVoiceChannelId(guildId);
+        if (!await checkSameVoiceChannel(interaction, botChannelId)) return;
+        // A sleep timer stops playback later, so it follows the stop policy
+        const permission = await checkMusicPermission(interaction, guildId, 'stop');
+        if (!permission) return;
+        if (permission.vote && musicService.getListenerCount(guildId, interaction.guild) >= MIN_VOTES_REQUIRED) {
+            await interaction.reply({
+                embeds: [trackHandler.createErrorEmbed('Stopping is decided by vote here, so only a DJ or the requester can set a sleep timer.')],
                 ephemeral: true
             });
             return;
         }
 
-        const player = musicService.getPlayer(guildId);
-        if (player) {
-            await player.seekTo(seconds * 1000);
+        if (off) {
+            const cleared = musicService.clearSleepTimer(guildId);
+            await interaction.reply({
+                embeds: [cleared
+                    ? trackHandler.createInfoEmbed('💤 Sleep Timer Off', 'Playback will carry on as normal.', 'success')
+                    : trackHandler.createErrorEmbed('No sleep timer is set')],
+                ephemeral: !cleared
+            });
+            return;
+        }
+
+        // No options means "stop after this track"
+        const result = musicService.setSleepTimer(guildId, interaction.user.id, tracks, minutes);
+        if (result.isErr()) {
+            await interaction.reply({
+                embeds: [trackHandler.createErrorEmbed(result.error || 'Could not set the sleep timer')],
+                ephemeral: true
+            });
+            return;
         }
 
-        const { formatSecondsToTime: fmtDur } = await import('../../utils/music/index.js');
         await interaction.reply({
-            embeds: [trackHandler.createInfoEmbed('⏩ Seeked', `Seeked to **${fmtDur(seconds)}**`, 'success')]
+            embeds: [trackHandler.createInfoEmbed('💤 Sleep Timer Set', describeSleepTimer(result.data!), 'success')]
         });
     },
 
     async handleAutoPlay(interaction: ChatInputCommandInteraction, guildId: string): Promise<void> {
-        const isEnabled = musicService.toggleAutoPlay(guildId);
+        if (!await checkMusicPermission(interaction, guildId, null)) return;
+
+        const mode = interaction.options.getString('mode') as AutoPlayMode | null;
+        if (mode) {
+            await musicService.setAutoPlayMode(guildId, mode);
+        }
+
+        // Picking a mode always turns autoplay on
+        const isEnabled = mode && musicService.isAutoPlayEnabled(guildId)
+            ? true
+            : musicService.toggleAutoPlay(guildId);
+        const activeMode = mode || await musicService.getAutoPlayMode(guildId);
         
         const embed = trackHandler.createInfoEmbed(
             isEnabled ? '🎵 Auto-Play Enabled' : '🎵 Auto-Play Disabled',
             isEnabled 
-                ? 'When the queue ends, similar tracks will be automatically added and played.'
+                ? `When the queue ends, tracks will be picked automatically.\n**Mode:** ${AUTOPLAY_MODE_LABELS[activeMode]}`
                 : 'Auto-play has been disabled. The bot will stop when the queue ends.',
             isEnabled ? 'success' : 'warning'
         );
 
         await interaction.reply({ embeds: [embed] });
+    },
+
+    async handleTwentyFourSeven(interaction: ChatInputCommandInteraction, guildId: string): Promise<void> {
+        const member = interaction.member as GuildMember;
+        if (!await musicService.isDJ(member)) {
+            await interaction.reply({
+                content: '❌ You need the DJ role to change 24/7 mode.',
+                flags: MessageFlags.Ephemeral
+            });
+            return;
+        }
+
+        const enabled = interaction.options.getBoolean('enabled') ?? !musicService.isTwentyFourSeven(guildId);
+
+        if (!enabled) {
+            await musicService.setTwentyFourSeven(interaction.guild!, false);
+            await interaction.reply({
+                embeds: [trackHandler.createInfoEmbed(
+                    '🌙 24/7 Mode Disabled',
+                    'The bot will leave again when the queue ends or the channel empties.',
+                    'warning'
+                )]
+            });
+            return;
+        }
+
+        const botChannelId = musicService.getVoiceChannelId(guildId);
+        if (!await checkSameVoiceChannel(interaction, botChannelId)) return;
+
+        await interaction.deferReply();
+
+        if (!botChannelId) {
+            try {
+                await musicService.connect(interaction);
+            } catch (error) {
+                logger.error('Music', `24/7 connect error: ${(error as Error).message}`);
+                await interaction.editReply({ embeds: [trackHandler.createErrorEmbed('Could not join your voice channel.')] });
+                return;
+            }
+        }
+
+        const voiceChannelId = musicService.getVoiceChannelId(guildId) || member.voice.channelId;
+        const saved = await musicService.setTwentyFourSeven(interaction.guild!, true, voiceChannelId, interaction.channelId);
+        if (!saved) {
+            await interaction.editReply({ embeds: [trackHandler.createErrorEmbed('Failed to save 24/7 mode. Please try again.')] });
+            return;
+        }
+
+        await interaction.editReply({
+            embeds: [trackHandler.createInfoEmbed(
+                '🌙 24/7 Mode Enabled',
+                `The bot will stay in <#${voiceChannelId}>, keep autoplaying when the queue ends and rejoin after restarts.`,
+                'success'
+            )]
+        });
     }
 };
 
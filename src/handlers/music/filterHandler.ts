@@ -0,0 +1,125 @@
+/**
+ * Filter Handler
+ * Handles audio filters: /music filter and the now-playing filter select menu
+ * @module handlers/music/filterHandler
+ */
+
+import { ChatInputCommandInteraction, StringSelectMenuInteraction } from 'discord.js';
+import { trackHandler } from './trackHandler.js';
+import { playHandler } from './playHandler.js';
+import { checkSameVoiceChannel } from '../../middleware/voiceChannelCheck.js';
+import { checkMusicPermission } from '../../middleware/musicPermissionCheck.js';
+import { musicFacade as musicService } from '../../services/music/core/musicFacade.js';
+import logger from '../../core/observability/Logger.js';
+import type { Result } from '../../core/errors/Result.js';
+import type { FilterPresetName, FilterState } from '../../types/music/filters.js';
+
+export const filterHandler = {
+    async handleFilter(interaction: ChatInputCommandInteraction, guildId: string, userId: string): Promise<void> {
+        if (!musicService.isConnected(guildId)) {
+            await interaction.reply({
+                embeds: [trackHandler.createErrorEmbed('Not connected to any voice channel')],
+                ephemeral: true
+            });
+            return;
+        }
+
+        const preset = interaction.options.getString('preset');
+        const band = interaction.options.getInteger('band');
+        const gain = interaction.options.getNumber('gain');
+        const speed = interaction.options.getNumber('speed');
+        const pitch = interaction.options.getNumber('pitch');
+
+        // No options: just show what is active
+        if (preset === null && band === null && gain === null && speed === null && pitch === null) {
+            await interaction.reply({
+                embeds: [trackHandler.createFiltersEmbed(musicService.getFilters(guildId))],
+                ephemeral: true
+            });
+            return;
+        }
+
+        if ((band === null) !== (gain === null)) {
+            await interaction.reply({
+                embeds: [trackHandler.createErrorEmbed('Provide both `band` and `gain` to edit the equalizer.')],
+                ephemeral: true
+            });
+            return;
+        }
+
+        const botChannelId = musicService.getVoiceChannelId(guildId);
+        if (!await checkSameVoiceChannel(interaction, botChannelId)) return;
+        if (!await checkMusicPermission(interaction, guildId, 'filters')) return;
+
+        // Preset first, since it resets the EQ and timescale that follow
+        const steps: Array<() => Promise<Result<FilterState>>> = [];
+        if (preset !== null) {
+            steps.push(() => musicService.applyFilterPreset(guildId, preset === 'off' ? null : preset as FilterPresetName));
+        }
+        if (band !== null && gain !== null) {
+            steps.push(() => musicService.setEqualizerBand(guildId, band - 1, gain));
+        }
+        if (speed !== null || pitch !== null) {
+            steps.push(() => musicService.setTimescale(guildId, { speed: speed ?? undefined, pitch: pitch ?? undefined }));
+        }
+
+        let state = musicService.getFilters(guildId);
+        for (const step of steps) {
+            const result = await step();
+            if (!result.isOk()) {
+                await interaction.reply({ embeds: [trackHandler.createErrorEmbed(result.error!)], ephemeral: true });
+                return;
+            }
+            state = result.data;
+        }
+
+        await interaction.reply({
+            embeds: [trackHandler.createFiltersEmbed(state, '🎛️ Filters Updated')]
+        });
+
+        playHandler.refreshNowPlayingMessage(guildId, userId, interaction.guild).catch(() => {});
+    },
+
+    async handleFilterSelect(interaction: StringSelectMenuInteraction): Promise<void> {
+        const guildId = interaction.customId.split(':')[1];
+
+        const botChannelId = musicService.getVoiceChannelId(guildId);
+        if (!await checkSameVoiceChannel(interaction, botChannelId)) return;
+        if (!await checkMusicPermission(interaction, guildId, 'filters')) return;
+
+        try {
+            await interaction.deferUpdate();
+
+            const value = interaction.values[0];
+            const result = await musicService.applyFilterPreset(guildId, value === 'off' ? null : value as FilterPresetName);
+            if (!result.isOk()) {
+                await interaction.followUp({ embeds: [trackHandler.createErrorEmbed(result.error!)], ephemeral: true });
+                return;
+            }
+
+            await playHandler.refreshNowPlayingMessage(guildId, interaction.user.id, interaction.guild);
+        } catch (error: unknown) {
+            const err = error as { code?: number; message?: string };
+            if (err.code === 10062 || err.code === 10008) {
+                logger.debug('Filter', 'Interaction expired or message deleted, ignoring...');
+            } else {
+                logger.error('Filter', `Filter select error: ${err.message}`);
+            }
+        }
+    },
+
+    async handleSelectMenu(interaction: StringSelectMenuInteraction): Promise<void> {
+        const action = interaction.customId.split(':')[0];
+
+        switch (action) {
+            case 'music_filter':
+                return await this.handleFilterSelect(interaction);
+            case 'music_pick':
+                return await playHandler.handlePickSelect(interaction);
+            default:
+                logger.warn('Filter', `Unknown music select menu: ${action}`);
+        }
+    }
+};
+
+export default filterHandler;
@@ -53,7 +53,7 @@ export const historyHandler = {
         const guildId = interaction.guild!.id;
         await musicService.connect(interaction);
 
-        const trackData = await musicService.search(historyItem.url) as Track | null;
+        const trackData = await musicService.search(historyItem.url, interaction.user) as Track | null;
         
         if (!trackData) {
             await interaction.editReply({
@@ -62,9 +62,15 @@ export const historyHandler = {
             return;
         }
 
-        musicService.addTrack(guildId, trackData);
+        const limit = await musicService.checkRequesterLimits(guildId, userId, [trackData]);
+        if (limit.fits === 0) {
+            await interaction.editReply({ embeds: [trackHandler.createErrorEmbed(limit.reason!)] });
+            return;
+        }
 
         const currentTrack = musicService.getCurrentTrack(guildId) as Track | null;
+        const queuedAt = musicService.addTrack(guildId, trackData);
+
         if (!currentTrack) {
             const queue = musicService.getQueueList(guildId) as Track[];
             const nextTrack = queue[0];
@@ -74,7 +80,7 @@ export const historyHandler = {
             }
         }
 
-        const position = currentTrack ? musicService.getQueueLength(guildId) : 0;
+        const position = currentTrack ? queuedAt : 0;
         const embed = trackHandler.createQueuedEmbed(trackData, position, interaction.user);
         await interaction.editReply({ embeds: [embed] });
     },
@@ -12,6 +12,12 @@ import { controlHandler } from './controlHandler.js';
 import { queueHandler } from './queueHandler.js';
 import { buttonHandler } from './buttonHandler.js';
 import { historyHandler } from './historyHandler.js';
+import { playlistHandler } from './playlistHandler.js';
+import { radioHandler } from './radioHandler.js';
+import { filterHandler } from './filterHandler.js';
+import { lyricsHandler } from './lyricsHandler.js';
+import { statsHandler } from './statsHandler.js';
+import { requestChannelHandler } from './requestChannelHandler.js';
 
 // Re-export types
 export { type Track, type LoopMode, type NowPlayingOptions, type ControlButtonsOptions, type QueueListOptions } from './trackHandler.js';
@@ -26,10 +32,14 @@ export const handlers = {
     handleLongTrackButton: playHandler.handleLongTrackButton.bind(playHandler),
     refreshNowPlayingMessage: playHandler.refreshNowPlayingMessage.bind(playHandler),
     isPlaylistUrl: playHandler.isPlaylistUrl.bind(playHandler),
+    handlePickSelect: playHandler.handlePickSelect.bind(playHandler),
     
     // Control handlers
     handleStop: controlHandler.handleStop.bind(controlHandler),
     handleSkip: controlHandler.handleSkip.bind(controlHandler),
+    handlePrevious: controlHandler.handlePrevious.bind(controlHandler),
+    handleReplay: controlHandler.handleReplay.bind(controlHandler),
+    handleSleep: controlHandler.handleSleep.bind(controlHandler),
     handleVoteSkip: controlHandler.handleVoteSkip.bind(controlHandler),
     handlePause: controlHandler.handlePause.bind(controlHandler),
     handleVolume: controlHandler.handleVolume.bind(controlHandler),
@@ -37,6 +47,7 @@ export const handlers = {
     handleShuffle: controlHandler.handleShuffle.bind(controlHandler),
     handleSeek: controlHandler.handleSeek.bind(controlHandler),
     handleAutoPlay: controlHandler.handleAutoPlay.bind(controlHandler),
+    handleTwentyFourSeven: controlHandler.handleTwentyFourSeven.bind(controlHandler),
     
     // Queue handlers
     handleQueue: queueHandler.handleQueue.bind(queueHandler),
@@ -51,10 +62,12 @@ export const handlers = {
     handleButtonPause: buttonHandler.handleButtonPause.bind(buttonHandler),
     handleButtonStop: buttonHandler.handleButtonStop.bind(buttonHandler),
     handleButtonSkip: buttonHandler.handleButtonSkip.bind(buttonHandler),
+    handleButtonPrevious: buttonHandler.handleButtonPrevious.bind(buttonHandler),
     handleButtonLoop: buttonHandler.handleButtonLoop.bind(buttonHandler),
     handleButtonShuffle: buttonHandler.handleButtonShuffle.bind(buttonHandler),
     handleButtonAutoplay: buttonHandler.handleButtonAutoplay.bind(buttonHandler),
     handleButtonVolume: buttonHandler.handleButtonVolume.bind(buttonHandler),
+    handleButtonSeek: buttonHandler.handleButtonSeek.bind(buttonHandler),
     handleButtonQueue: buttonHandler.handleButtonQueue.bind(buttonHandler),
     handleButtonVoteSkip: buttonHandler.handleButtonVoteSkip.bind(buttonHandler),
     handleButtonQueuePage: buttonHandler.handleButtonQueuePage.bind(buttonHandler),
@@ -64,7 +77,29 @@ export const handlers = {
     handleHistory: historyHandler.handleHistory.bind(historyHandler),
     handleHistoryList: historyHandler.handleHistoryList.bind(historyHandler),
     handleHistoryPlay: historyHandler.handleHistoryPlay.bind(historyHandler),
-    handleHistoryClear: historyHandler.handleHistoryClear.bind(historyHandler)
+    handleHistoryClear: historyHandler.handleHistoryClear.bind(historyHandler),
+
+    // Saved playlist handlers
+    handlePlaylist: playlistHandler.handlePlaylist.bind(playlistHandler),
+
+    // Radio handlers
+    handleRadio: radioHandler.handleRadio.bind(radioHandler),
+
+    // Filter handlers
+    handleFilter: filterHandler.handleFilter.bind(filterHandler),
+    handleFilterSelect: filterHandler.handleFilterSelect.bind(filterHandler),
+    handleSelectMenu: filterHandler.handleSelectMenu.bind(filterHandler),
+
+    // Lyrics handlers
+    handleLyrics: lyricsHandler.handleLyrics.bind(lyricsHandler),
+    handleButtonLyricsPage: lyricsHandler.handleButtonLyricsPage.bind(lyricsHandler),
+    handleButtonLyricsLive: lyricsHandler.handleButtonLyricsLive.bind(lyricsHandler),
+
+    // Stats handlers
+    handleStats: statsHandler.handleStats.bind(statsHandler),
+
+    // Song request channel
+    handleRequestMessage: requestChannelHandler.handleRequestMessage.bind(requestChannelHandler)
 };
 
 // Named exports for direct imports
@@ -73,6 +108,12 @@ export { controlHandler } from './controlHandler.js';
 export { queueHandler } from './queueHandler.js';
 export { buttonHandler } from './buttonHandler.js';
 export { historyHandler } from './historyHandler.js';
+export { playlistHandler } from './playlistHandler.js';
+export { radioHandler } from './radioHandler.js';
+export { filterHandler } from './filterHandler.js';
+export { lyricsHandler } from './lyricsHandler.js';
+export { statsHandler } from './statsHandler.js';
+export { requestChannelHandler } from './requestChannelHandler.js';
 
 // Default export
 export default handlers;
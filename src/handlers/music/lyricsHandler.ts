@@ -0,0 +1,113 @@
+/**
+ * Lyrics Handler
+ * Handles /music lyrics, lyrics paging and live lyrics buttons
+ * @module handlers/music/lyricsHandler
+ */
+
+import { ButtonInteraction, ChatInputCommandInteraction, Message } from 'discord.js';
+import { trackHandler } from './trackHandler.js';
+import { musicFacade as musicService } from '../../services/music/core/musicFacade.js';
+import logger from '../../core/observability/Logger.js';
+
+export const lyricsHandler = {
+    async handleLyrics(interaction: ChatInputCommandInteraction, guildId: string): Promise<void> {
+        const live = interaction.options.getBoolean('live') || false;
+        const page = interaction.options.getInteger('page') || 1;
+
+        await interaction.deferReply();
+
+        const result = await musicService.getCurrentLyrics(guildId);
+        if (!result.isOk()) {
+            await interaction.editReply({ embeds: [trackHandler.createErrorEmbed(result.error!)] });
+            return;
+        }
+
+        const { track, lyrics } = result.data;
+
+        if (live && lyrics.synced) {
+            const message = await interaction.editReply({
+                embeds: [trackHandler.createLiveLyricsEmbed(track, lyrics, -1)],
+                components: [trackHandler.createLiveLyricsButtons(guildId)]
+            });
+            musicService.startLiveLyrics(guildId, message as Message, lyrics);
+            return;
+        }
+
+        const totalPages = trackHandler.getLyricsPages(lyrics).length;
+        const safePage = Math.min(Math.max(1, page), totalPages);
+        const embed = trackHandler.createLyricsEmbed(track, lyrics, safePage);
+        if (live) {
+            embed.setFooter({ text: `${embed.data.footer?.text} • No synced lyrics, live mode unavailable` });
+        }
+
+        await interaction.editReply({
+            embeds: [embed],
+            components: [trackHandler.createLyricsButtons(guildId, safePage, totalPages, !!lyrics.synced)]
+        });
+    },
+
+    async handleButtonLyricsPage(interaction: ButtonInteraction, guildId: string, pageArg: string): Promise<void> {
+        try {
+            await interaction.deferUpdate();
+
+            const result = await musicService.getCurrentLyrics(guildId);
+            if (!result.isOk()) {
+                await interaction.editReply({ embeds: [trackHandler.createErrorEmbed(result.error!)], components: [] });
+                return;
+            }
+
+            const { track, lyrics } = result.data;
+            const totalPages = trackHandler.getLyricsPages(lyrics).length;
+            const page = Math.min(Math.max(1, parseInt(pageArg, 10) || 1), totalPages);
+
+            await interaction.editReply({
+                embeds: [trackHandler.createLyricsEmbed(track, lyrics, page)],
+                components: [trackHandler.createLyricsButtons(guildId, page, totalPages, !!lyrics.synced)]
+            });
+        } catch (error: unknown) {
+            const err = error as { code?: number; message?: string };
+            if (err.code === 10062 || err.code === 10008) {
+                logger.debug('Button', 'Interaction expired or message deleted, ignoring...');
+            } else {
+                logger.error('Button', `Lyrics page error: ${err.message}`);
+            }
+        }
+    },
+
+    async handleButtonLyricsLive(interaction: ButtonInteraction, guildId: string, mode: string): Promise<void> {
+        try {
+            await interaction.deferUpdate();
+
+            if (mode === 'off') {
+                musicService.stopLiveLyrics(guildId);
+                await interaction.editReply({ components: [] });
+                return;
+            }
+
+            const result = await musicService.getCurrentLyrics(guildId);
+            if (!result.isOk() || !result.data.lyrics.synced) {
+                await interaction.followUp({
+                    embeds: [trackHandler.createErrorEmbed(result.isOk() ? 'No synced lyrics for this track.' : result.error!)],
+                    ephemeral: true
+                });
+                return;
+            }
+
+            const { track, lyrics } = result.data;
+            await interaction.editReply({
+                embeds: [trackHandler.createLiveLyricsEmbed(track, lyrics, -1)],
+                components: [trackHandler.createLiveLyricsButtons(guildId)]
+            });
+            musicService.startLiveLyrics(guildId, interaction.message as Message, lyrics);
+        } catch (error: unknown) {
+            const err = error as { code?: number; message?: string };
+            if (err.code === 10062 || err.code === 10008) {
+                logger.debug('Button', 'Interaction expired or message deleted, ignoring...');
+            } else {
+                logger.error('Button', `Live lyrics error: ${err.message}`);
+            }
+        }
+    }
+};
+
+export default lyricsHandler;
@@ -4,66 +4,68 @@
  * @module handlers/music/playHandler
  */
 
-import { ChatInputCommandInteraction, Guild, ButtonInteraction, TextChannel } from 'discord.js';
+import { ChatInputCommandInteraction, Guild, ButtonInteraction, StringSelectMenuInteraction, TextChannel } from 'discord.js';
+import type { Attachment, User } from 'discord.js';
 import { trackHandler } from './trackHandler.js';
 import musicCache from '../../cache/music/MusicCacheFacade.js';
 import { checkVoiceChannelSync, checkVoicePermissionsSync } from '../../middleware/voiceChannelCheck.js';
 import { music } from '../../config/index.js';
+import { search as searchConfig, directAudio as directAudioConfig } from '../../config/features/music.js';
+import { checkMusicPermission } from '../../middleware/musicPermissionCheck.js';
+import { checkStreamUrl } from '../../middleware/urlValidator.js';
 import { musicFacade as musicService } from '../../services/music/core/musicFacade.js';
 import logger from '../../core/observability/Logger.js';
 import type { Track } from '../../types/music/track.js';
 import type { VoteSkipStatus } from '../../types/music/vote.js';
-import type { PendingLongTrack, PlaylistData } from '../../types/music/handlers.js';
+import type { PendingLongTrack, PendingSearchPick } from '../../types/music/handlers.js';
 
 const CONFIRMATION_TIMEOUT = music.timeouts?.confirmation || 60000;
 // Store pending long track confirmations (internal only — not used externally despite prior export)
 const pendingLongTracks = new Map<string, PendingLongTrack>();
+// Result pickers waiting for the searcher's choice
+const pendingPicks = new Map<string, PendingSearchPick>();
 export const playHandler = {
     
     async handlePlay(interaction: ChatInputCommandInteraction, guildId: string, userId: string): Promise<void> {
         // IMMEDIATELY defer to prevent interaction timeout (3s limit)
         await interaction.deferReply();
-        
-        // Voice channel checks
-        const voiceCheck = checkVoiceChannelSync(interaction);
-        if (!voiceCheck.valid) {
+
+        if (!await this.checkCanPlay(interaction, guildId)) return;
+
+        const attachment = interaction.options.getAttachment('file');
+        const text = interaction.options.getString('query');
+        const shouldShuffle = interaction.options.getBoolean('shuffle') || false;
+        const pick = interaction.options.getBoolean('pick') || false;
+
+        if (!text && !attachment) {
             await interaction.editReply({
-                embeds: [trackHandler.createInfoEmbed("❌ No Voice Channel", voiceCheck.error!)],
+                embeds: [trackHandler.createErrorEmbed('Enter a song name or link, or attach an audio file.')]
             });
             return;
         }
-
-        const permCheck = checkVoicePermissionsSync(interaction);
-        if (!permCheck.valid) {
+        if (text && attachment) {
             await interaction.editReply({
-                embeds: [trackHandler.createInfoEmbed("❌ Missing Permissions", permCheck.error!)],
+                embeds: [trackHandler.createErrorEmbed('Use either a search/link or a file, not both.')]
             });
             return;
         }
 
-        // Check Lavalink
-        if (!musicService.isLavalinkReady()) {
-            let ready = false;
-            for (let i = 0; i < 6; i++) {
-                await new Promise(r => setTimeout(r, 500));
-                if (musicService.isLavalinkReady()) {
-                    ready = true;
-                    break;
-                }
-            }
-            
-            if (!ready) {
-                await interaction.editReply({
-                    embeds: [trackHandler.createErrorEmbed('Music service is not available. Please try again later.')]
-                });
-                return;
-            }
+        // Direct links and uploads are fetched by Lavalink itself, so they get the same host checks as other URLs
+        const query = attachment ? attachment.url : text!;
+        const problem = attachment
+            ? this.describeAttachmentProblem(attachment)
+            : /^https?:\/\//i.test(query) ? checkStreamUrl(query).error ?? null : null;
+        if (problem) {
+            await interaction.editReply({ embeds: [trackHandler.createErrorEmbed(problem)] });
+            return;
         }
 
-        const query = interaction.options.getString('query')!;
-        const shouldShuffle = interaction.options.getBoolean('shuffle') || false;
-
         try {
+            // Let the user choose among the top results first; links are played as given
+            if (pick && !/^https?:\/\//i.test(query)) {
+                return await this.handleSearchPick(interaction, query, guildId);
+            }
+
             // Connect to voice
             await musicService.connect(interaction);
 
@@ -73,7 +75,7 @@ export const playHandler = {
             }
 
             // Single track - search returns Result<{ tracks: Track[] }>
-            const searchResult = await musicService.search(query);
+            const searchResult = await musicService.search(query, interaction.user);
             
             // Handle Result wrapper - Result uses .data not .value
             let trackData: Track | null = null;
@@ -94,196 +96,291 @@ export const playHandler = {
 
             if (!trackData) {
                 await interaction.editReply({
-                    embeds: [trackHandler.createErrorEmbed(`No results found for: \`${query}\``)]
+                    embeds: [trackHandler.createErrorEmbed(attachment
+                        ? `Could not play **${attachment.name}**. The file may be damaged.`
+                        : `No results found for: \`${query}\``)]
                 });
                 return;
             }
 
-            // Check duration
-            const prefs = await musicService.getPreferences(userId);
-            if (trackData.lengthSeconds > prefs.maxTrackDuration) {
-                return await this.handleLongTrackConfirmation(interaction, trackData, guildId, prefs.maxTrackDuration);
-            }
-
-            // Add track
-            const currentTrack = musicService.getCurrentTrack(guildId) as Track | null;
+            if (attachment) trackData = this.labelAttachmentTrack(trackData, attachment, interaction.user);
 
-            musicService.addTrack(guildId, trackData);
-
-            // Add to user history
-            await musicService.addToHistory(userId, trackData);
-
-            // Start playing if nothing is playing
-            if (!currentTrack) {
-                const queue = musicService.getQueueList(guildId) as Track[];
-                const nextTrack = queue[0];
-                if (nextTrack) {
-                    musicService.removeTrack(guildId, 0);
-                    await musicService.playTrack(guildId, nextTrack);
-
-                    const listenerCount = musicService.getListenerCount(guildId, interaction.guild!);
-                    const voteSkipStatus = musicCache.getVoteSkipStatus(guildId, listenerCount) as VoteSkipStatus;
-
-                    const embed = trackHandler.createNowPlayingEmbed(nextTrack, {
-                        volume: musicService.getVolume(guildId),
-                        queueLength: musicService.getQueueLength(guildId),
-                        voteSkipCount: voteSkipStatus.count,
-                        voteSkipRequired: voteSkipStatus.required,
-                        listenerCount: listenerCount
-                    });
-                    const rows = trackHandler.createControlButtons(guildId, {
-                        trackUrl: nextTrack.url,
-                        userId,
-                        autoPlay: musicService.isAutoPlayEnabled(guildId),
-                        listenerCount: listenerCount
-                    });
-
-                    const message = await interaction.editReply({ embeds: [embed], components: rows });
-                    musicService.setNowPlayingMessage(guildId, message);
-                    
-                    musicService.startVCMonitor(guildId, interaction.guild!);
-                }
-            } else {
-                const position = musicService.getQueueLength(guildId);
-                const embed = trackHandler.createQueuedEmbed(trackData, position, interaction.user);
-
-                await interaction.editReply({ embeds: [embed] });
-                
-                await this.refreshNowPlayingMessage(guildId, interaction.user.id, interaction.guild);
-            }
+            await this.queueTrack(interaction, trackData, guildId, userId);
         } catch (error) {
             logger.error('Play', `Error: ${(error as Error).message}`);
-            let errorMessage = error instanceof Error ? error.message : 'Failed to play track';
-            
-            // Provide user-friendly messages for known errors
-            if (errorMessage === 'NO_PLAYER') {
-                errorMessage = 'Failed to connect to the music player. Please try again.';
-                // Clean up orphaned connection/queue state
-                musicService.cleanup(guildId).catch(() => {});
-            } else if (errorMessage === 'NO_RESULTS' && query.includes('spotify.com')) {
-                errorMessage = 'Could not resolve this Spotify track. The track may be unavailable or region-restricted.';
-            } else if (errorMessage === 'NO_RESULTS') {
-                errorMessage = `No results found for: \`${query}\``;
-            } else if (/bad request|rest request failed/i.test(errorMessage)) {
-                errorMessage = 'Music server returned an error. Please try again in a moment.';
-                // Clean up so next attempt starts fresh
-                musicService.cleanup(guildId).catch(() => {});
-            }
-            
             await interaction.editReply({
-                embeds: [trackHandler.createErrorEmbed(errorMessage)]
+                embeds: [trackHandler.createErrorEmbed(this.describePlayError(error, attachment?.name ?? query, guildId))]
             });
         }
     },
 
-    async handlePlaylistAdd(interaction: ChatInputCommandInteraction, query: string, guildId: string, shouldShuffle: boolean): Promise<void> {
-        try {
-            const playlistData = await musicService.searchPlaylist(query) as PlaylistData | null;
+    /**
+     * Voice channel, permission and Lavalink checks shared by everything that starts playback.
+     * The interaction must already be deferred; the reply explains any failure.
+     */
+    async checkCanPlay(interaction: ChatInputCommandInteraction, guildId: string): Promise<boolean> {
+        // Voice channel checks
+        const voiceCheck = checkVoiceChannelSync(interaction);
+        if (!voiceCheck.valid) {
+            await interaction.editReply({
+                embeds: [trackHandler.createInfoEmbed("❌ No Voice Channel", voiceCheck.error!)],
+            });
+            return false;
+        }
+
+        const permCheck = checkVoicePermissionsSync(interaction);
+        if (!permCheck.valid) {
+            await interaction.editReply({
+                embeds: [trackHandler.createInfoEmbed("❌ Missing Permissions", permCheck.error!)],
+            });
+            return false;
+        }
+
+        if (!await checkMusicPermission(interaction, guildId, null)) return false;
 
-            if (!playlistData || playlistData.tracks.length === 0) {
+        // Check Lavalink
+        if (!musicService.isLavalinkReady()) {
+            let ready = false;
+            for (let i = 0; i < 6; i++) {
+                await new Promise(r => setTimeout(r, 500));
+                if (musicService.isLavalinkReady()) {
+                    ready = true;
+                    break;
+                }
+            }
+            
+            if (!ready) {
                 await interaction.editReply({
-                    embeds: [trackHandler.createErrorEmbed('No tracks found in playlist')]
+                    embeds: [trackHandler.createErrorEmbed('Music service is not available. Please try again later.')]
                 });
-                return;
+                return false;
             }
+        }
 
-            let tracks = playlistData.tracks;
-
-            // If the URL contains an index parameter, rotate the playlist so
-            // the track at that position plays first (e.g. &index=12 → start from track 12)
-            if (!shouldShuffle) {
-                try {
-                    const url = new URL(query);
-                    const indexParam = url.searchParams.get('index');
-                    if (indexParam) {
-                        const startIndex = Math.max(0, parseInt(indexParam, 10) - 1);
-                        if (!isNaN(startIndex) && startIndex > 0 && startIndex < tracks.length) {
-                            tracks = [...tracks.slice(startIndex), ...tracks.slice(0, startIndex)];
-                        }
-                    }
-                } catch {
-                    // Not a valid URL or no index param — use default order
-                }
-            }
+        return true;
+    },
 
-            if (shouldShuffle) {
-                for (let i = tracks.length - 1; i > 0; i--) {
-                    const j = Math.floor(Math.random() * (i + 1));
-                    [tracks[i], tracks[j]] = [tracks[j], tracks[i]];
-                }
-            }
+    /**
+     * Queue a resolved track, or start it when nothing is playing, and show the result in the reply
+     */
+    async queueTrack(interaction: ChatInputCommandInteraction, trackData: Track, guildId: string, userId: string): Promise<void> {
+        // Per-member queue caps
+        const limit = await musicService.checkRequesterLimits(guildId, userId, [trackData]);
+        if (limit.fits === 0) {
+            await interaction.editReply({ embeds: [trackHandler.createErrorEmbed(limit.reason!)], components: [] });
+            return;
+        }
 
-            musicService.addTracks(guildId, tracks);
+        // Check duration
+        const prefs = await musicService.getPreferences(userId);
+        if (trackData.lengthSeconds > prefs.maxTrackDuration) {
+            return await this.handleLongTrackConfirmation(interaction, trackData, guildId, prefs.maxTrackDuration);
+        }
 
-            const currentTrack = musicService.getCurrentTrack(guildId) as Track | null;
-            if (!currentTrack) {
-                const queue = musicService.getQueueList(guildId) as Track[];
-                const nextTrack = queue[0];
-                if (nextTrack) {
-                    musicService.removeTrack(guildId, 0);
-                    await musicService.playTrack(guildId, nextTrack);
-
-                    // Show playlist info as the interaction reply
-                    const playlistEmbed = trackHandler.createPlaylistEmbed(
-                        playlistData.name,
-                        playlistData.tracks.length,
-                        interaction.user,
-                        nextTrack
-                    );
-                    await interaction.editReply({ embeds: [playlistEmbed] });
-
-                    // Send a proper now-playing embed with controls in the channel
-                    const listenerCount = musicService.getListenerCount(guildId, interaction.guild!);
-                    const voteSkipStatus = musicCache.getVoteSkipStatus(guildId, listenerCount) as VoteSkipStatus;
-
-                    const nowPlayingEmbed = trackHandler.createNowPlayingEmbed(nextTrack, {
-                        volume: musicService.getVolume(guildId),
-                        queueLength: musicService.getQueueLength(guildId),
-                        voteSkipCount: voteSkipStatus.count,
-                        voteSkipRequired: voteSkipStatus.required,
-                        listenerCount: listenerCount
-                    });
-                    const rows = trackHandler.createControlButtons(guildId, {
-                        trackUrl: nextTrack.url,
-                        userId: interaction.user.id,
-                        autoPlay: musicService.isAutoPlayEnabled(guildId),
-                        listenerCount: listenerCount
-                    });
-
-                    const channel = interaction.channel;
-                    if (channel && 'send' in channel) {
-                        const nowPlayingMsg = await channel.send({ embeds: [nowPlayingEmbed], components: rows });
-                        musicService.setNowPlayingMessage(guildId, nowPlayingMsg);
-                    }
+        // Add track
+        const currentTrack = musicService.getCurrentTrack(guildId) as Track | null;
 
-                    musicService.startVCMonitor(guildId, interaction.guild!);
-                }
-            } else {
-                const embed = trackHandler.createPlaylistEmbed(
-                    playlistData.name,
-                    playlistData.tracks.length,
-                    interaction.user,
-                    tracks[0]
-                );
-                await interaction.editReply({ embeds: [embed] });
+        const position = musicService.addTrack(guildId, trackData);
+
+        // Start playing if nothing is playing
+        if (!currentTrack) {
+            const queue = musicService.getQueueList(guildId) as Track[];
+            const nextTrack = queue[0];
+            if (nextTrack) {
+                musicService.removeTrack(guildId, 0);
+                await musicService.playTrack(guildId, nextTrack);
+
+                const listenerCount = musicService.getListenerCount(guildId, interaction.guild!);
+                const voteSkipStatus = musicCache.getVoteSkipStatus(guildId, listenerCount) as VoteSkipStatus;
+
+                const embed = trackHandler.createNowPlayingEmbed(nextTrack, {
+                    volume: musicService.getVolume(guildId),
+                    queueLength: musicService.getQueueLength(guildId),
+                    voteSkipCount: voteSkipStatus.count,
+                    voteSkipRequired: voteSkipStatus.required,
+                    listenerCount: listenerCount
+                });
+                const rows = trackHandler.createControlButtons(guildId, {
+                    trackUrl: nextTrack.url,
+                    userId,
+                    autoPlay: musicService.isAutoPlayEnabled(guildId),
+                    listenerCount: listenerCount
+                });
+
+                const message = await interaction.editReply({ embeds: [embed], components: rows });
+                musicService.setNowPlayingMessage(guildId, message);
                 
-                await this.refreshNowPlayingMessage(guildId, interaction.user.id, interaction.guild);
+                musicService.startVCMonitor(guildId, interaction.guild!);
             }
-        } catch (error) {
-            logger.error('Play', `Playlist error: ${(error as Error).message}`);
-            let errorMessage = error instanceof Error ? error.message : 'Failed to load playlist';
+        } else {
+            const embed = trackHandler.createQueuedEmbed(trackData, position, interaction.user);
+
+            await interaction.editReply({ embeds: [embed], components: [] });
             
-            // User-friendly messages for Spotify playlist errors
-            if (errorMessage === 'NO_RESULTS' && query.includes('spotify.com')) {
-                errorMessage = 'Could not load this Spotify playlist. The playlist may be private, empty, or the Spotify service may be temporarily unavailable.';
-            } else if (errorMessage === 'NO_RESULTS') {
-                errorMessage = 'No tracks found in this playlist.';
-            } else if (errorMessage === 'NOT_A_PLAYLIST') {
-                errorMessage = 'This URL does not appear to be a valid playlist.';
+            await this.refreshNowPlayingMessage(guildId, interaction.user.id, interaction.guild);
+        }
+    },
+
+    /**
+     * Why an uploaded file can't be played, or null for a supported audio file
+     */
+    describeAttachmentProblem(attachment: Attachment): string | null {
+        const extension = attachment.name.split('.').pop()?.toLowerCase() || '';
+        if (!directAudioConfig.extensions.includes(extension)) {
+            return `Only ${directAudioConfig.extensions.map(ext => `.${ext}`).join(', ')} files can be played.`;
+        }
+        if (attachment.size > directAudioConfig.maxAttachmentBytes) {
+            return `The file is too large (max ${Math.floor(directAudioConfig.maxAttachmentBytes / (1024 * 1024))} MB).`;
+        }
+        return null;
+    },
+
+    /**
+     * Uploaded files rarely carry tags Lavalink can read; fall back to the file name and uploader
+     */
+    labelAttachmentTrack(track: Track, attachment: Attachment, uploader: User): Track {
+        const untitled = !track.title || /^unknown title$/i.test(track.title);
+        const noArtist = !track.author || /^unknown artist$/i.test(track.author);
+        return {
+            ...track,
+            title: untitled ? attachment.name.replace(/\.[^.]+$/, '').replace(/_/g, ' ') : track.title,
+            author: noArtist ? uploader.displayName || uploader.username : track.author
+        };
+    },
+
+    /**
+     * User-friendly message for errors thrown while connecting or queuing
+     */
+    describePlayError(error: unknown, query: string, guildId: string): string {
+        let errorMessage = error instanceof Error ? error.message : 'Failed to play track';
+
+        // Provide user-friendly messages for known errors
+        if (errorMessage === 'NO_PLAYER') {
+            errorMessage = 'Failed to connect to the music player. Please try again.';
+            // Clean up orphaned connection/queue state
+            musicService.cleanup(guildId).catch(() => {});
+        } else if (errorMessage === 'NO_RESULTS' && query.includes('spotify.com')) {
+            errorMessage = 'Could not resolve this Spotify track. The track may be unavailable or region-restricted.';
+        } else if (errorMessage === 'NO_RESULTS') {
+            errorMessage = `No results found for: \`${query}\``;
+        } else if (/bad request|rest request failed/i.test(errorMessage)) {
+            errorMessage = 'Music server returned an error. Please try again in a moment.';
+            // Clean up so next attempt starts fresh
+            musicService.cleanup(guildId).catch(() => {});
+        }
+
+        return errorMessage;
+    },
+
+    /**
+     * Show the top results for a query in a select menu instead of playing the first match
+     */
+    async handleSearchPick(interaction: ChatInputCommandInteraction, query: string, guildId: string): Promise<void> {
+        const tracks = await musicService.searchMultiple(query, searchConfig.pickResults, interaction.user);
+        if (tracks.length === 0) {
+            await interaction.editReply({
+                embeds: [trackHandler.createErrorEmbed(`No results found for: \`${query}\``)]
+            });
+            return;
+        }
+
+        const pickId = `${guildId}_${Date.now()}`;
+        pendingPicks.set(pickId, {
+            interaction,
+            tracks,
+            guildId,
+            userId: interaction.user.id,
+            expiresAt: Date.now() + searchConfig.pickTimeout
+        });
+
+        setTimeout(() => {
+            if (!pendingPicks.delete(pickId)) return;
+            interaction.editReply({
+                embeds: [trackHandler.createInfoEmbed('⏱️ Expired', 'No track was picked.')],
+                components: []
+            }).catch(() => {});
+        }, searchConfig.pickTimeout);
+
+        await interaction.editReply({
+            embeds: [trackHandler.createSearchResultsEmbed(query, tracks, Math.round(searchConfig.pickTimeout / 1000))],
+            components: [trackHandler.createSearchPickMenu(pickId, tracks)]
+        });
+    },
+
+    async handlePickSelect(interaction: StringSelectMenuInteraction): Promise<void> {
+        const pickId = interaction.customId.split(':')[1] || '';
+        const pending = pendingPicks.get(pickId);
+
+        if (!pending || pending.expiresAt < Date.now()) {
+            await interaction.reply({
+                content: '⏱️ This search has expired. Please use `/music play` again.',
+                ephemeral: true
+            });
+            return;
+        }
+
+        if (pending.userId !== interaction.user.id) {
+            await interaction.reply({
+                content: '❌ Only the person who searched can pick a result.',
+                ephemeral: true
+            });
+            return;
+        }
+
+        pendingPicks.delete(pickId);
+        await interaction.deferUpdate();
+
+        // Keep working through the original reply so the picker message becomes the result
+        const { interaction: original, tracks, guildId, userId } = pending;
+        const choice = interaction.values[0];
+        const trackData = choice === 'cancel' ? null : tracks[parseInt(choice || '', 10)];
+
+        if (!trackData) {
+            await original.editReply({
+                embeds: [trackHandler.createInfoEmbed('❌ Cancelled', 'Track was not added.')],
+                components: []
+            });
+            return;
+        }
+
+        try {
+            await musicService.connect(original);
+            await this.queueTrack(original, trackData, guildId, userId);
+        } catch (error) {
+            logger.error('Play', `Pick error: ${(error as Error).message}`);
+            await original.editReply({
+                embeds: [trackHandler.createErrorEmbed(this.describePlayError(error, trackData.title, guildId))],
+                components: []
+            }).catch(() => {});
+        }
+    },
+
+    async handlePlaylistAdd(interaction: ChatInputCommandInteraction, query: string, guildId: string, shouldShuffle: boolean): Promise<void> {
+        try {
+            await interaction.editReply({
+                embeds: [trackHandler.createInfoEmbed('📥 Loading Playlist', 'Reading the playlist, this can take a moment for large ones...')]
+            });
+
+            // The reply becomes the live progress message of the import
+            const progressMessage = await interaction.fetchReply();
+            const result = await musicService.importPlaylist(interaction.guild!, {
+                guildId,
+                userId: interaction.user.id,
+                userName: interaction.user.displayName || interaction.user.username,
+                url: query,
+                shuffle: shouldShuffle,
+                textChannelId: interaction.channelId
+            }, progressMessage);
+
+            if (result.isErr()) {
+                await interaction.editReply({
+                    embeds: [trackHandler.createErrorEmbed(result.error || 'Failed to load playlist')]
+                });
             }
-            
+        } catch (error) {
+            logger.error('Play', `Playlist error: ${(error as Error).message}`);
             await interaction.editReply({
-                embeds: [trackHandler.createErrorEmbed(errorMessage)]
+                embeds: [trackHandler.createErrorEmbed(error instanceof Error ? error.message : 'Failed to load playlist')]
             });
         }
     },
@@ -337,7 +434,7 @@ export const playHandler = {
             if (answer === 'yes') {
                 await interaction.deferUpdate();
                 
-                musicService.addTrack(guildId, trackData);
+                const position = musicService.addTrack(guildId, trackData);
                 
                 const currentTrack = musicService.getCurrentTrack(guildId) as Track | null;
                 if (!currentTrack) {
@@ -380,7 +477,6 @@ export const playHandler = {
                         musicService.startVCMonitor(guildId, guild);
                     }
                 } else {
-                    const position = musicService.getQueueLength(guildId);
                     const queuedEmbed = trackHandler.createQueuedEmbed(trackData, position, interaction.user);
                     await interaction.editReply({ embeds: [queuedEmbed], components: [] });
                 }
@@ -423,7 +519,8 @@ export const playHandler = {
                 loopCount: musicService.getLoopCount(guildId),
                 voteSkipCount: voteSkipStatus.count,
                 voteSkipRequired: voteSkipStatus.required,
-                listenerCount: listenerCount
+                listenerCount: listenerCount,
+                filters: musicService.getFilterSummary(guildId)
             });
 
             const rows = trackHandler.createControlButtons(guildId, {
@@ -453,6 +550,8 @@ export const playHandler = {
         if (query.includes('youtube.com') && query.includes('list=')) return true;
         if (query.includes('spotify.com/playlist/')) return true;
         if (query.includes('spotify.com/album/')) return true;
+        if (/soundcloud\.com\/[^/]+\/sets\//.test(query)) return true;
+        if (/music\.apple\.com\/.*\/(playlist|album)\//.test(query) && !query.includes('?i=')) return true;
         return false;
     }
 };
@@ -0,0 +1,302 @@
+/**
+ * Playlist Handler
+ * Handles saved user playlists (/music playlist ...)
+ * @module handlers/music/playlistHandler
+ */
+
+import { ChatInputCommandInteraction } from 'discord.js';
+import { trackHandler } from './trackHandler.js';
+import musicCache from '../../cache/music/MusicCacheFacade.js';
+import { checkVoiceChannelSync, checkVoicePermissionsSync } from '../../middleware/voiceChannelCheck.js';
+import { checkMusicPermission } from '../../middleware/musicPermissionCheck.js';
+import { musicFacade as musicService } from '../../services/music/core/musicFacade.js';
+import logger from '../../core/observability/Logger.js';
+import type { Track } from '../../types/music/track.js';
+import type { VoteSkipStatus } from '../../types/music/vote.js';
+import type { PlaylistSubcommand } from '../../types/music/handlers.js';
+
+export const playlistHandler = {
+    async handlePlaylist(interaction: ChatInputCommandInteraction, guildId: string, userId: string): Promise<void> {
+        const subcommand = interaction.options.getSubcommand() as PlaylistSubcommand;
+
+        switch (subcommand) {
+            case 'create':
+                return await this.handlePlaylistCreate(interaction, userId);
+            case 'add':
+                return await this.handlePlaylistAddCurrent(interaction, guildId, userId);
+            case 'addqueue':
+                return await this.handlePlaylistAddQueue(interaction, guildId, userId);
+            case 'remove':
+                return await this.handlePlaylistRemove(interaction, userId);
+            case 'rename':
+                return await this.handlePlaylistRename(interaction, userId);
+            case 'delete':
+                return await this.handlePlaylistDelete(interaction, userId);
+            case 'list':
+                return await this.handlePlaylistList(interaction, userId);
+            case 'view':
+                return await this.handlePlaylistView(interaction, userId);
+            case 'share':
+                return await this.handlePlaylistShare(interaction, userId);
+            case 'load':
+                return await this.handlePlaylistLoad(interaction, guildId, userId);
+        }
+    },
+
+    async handlePlaylistCreate(interaction: ChatInputCommandInteraction, userId: string): Promise<void> {
+        const name = interaction.options.getString('name')!;
+        const result = await musicService.createPlaylist(userId, name);
+
+        if (!result.isOk()) {
+            await interaction.reply({ embeds: [trackHandler.createErrorEmbed(result.error!)], ephemeral: true });
+            return;
+        }
+
+        await interaction.reply({
+            embeds: [trackHandler.createInfoEmbed('📁 Playlist Created', `Created **${result.data.name}**. Use \`/music playlist add\` to save tracks to it.`, 'success')]
+        });
+    },
+
+    async handlePlaylistAddCurrent(interaction: ChatInputCommandInteraction, guildId: string, userId: string): Promise<void> {
+        const currentTrack = musicService.getCurrentTrack(guildId);
+        if (!currentTrack) {
+            await interaction.reply({ embeds: [trackHandler.createErrorEmbed('Nothing is playing right now.')], ephemeral: true });
+            return;
+        }
+
+        const name = interaction.options.getString('name')!;
+        const result = await musicService.addToPlaylist(userId, name, [currentTrack]);
+
+        if (!result.isOk()) {
+            await interaction.reply({ embeds: [trackHandler.createErrorEmbed(result.error!)], ephemeral: true });
+            return;
+        }
+
+        await interaction.reply({
+            embeds: [trackHandler.createInfoEmbed('📁 Track Saved', `Added **${currentTrack.title}** to **${result.data.playlist.name}** (${result.data.playlist.tracks.length} tracks)`, 'success')]
+        });
+    },
+
+    async handlePlaylistAddQueue(interaction: ChatInputCommandInteraction, guildId: string, userId: string): Promise<void> {
+        const currentTrack = musicService.getCurrentTrack(guildId);
+        const tracks = [
+            ...(currentTrack ? [currentTrack] : []),
+            ...musicService.getQueueList(guildId)
+        ];
+
+        if (tracks.length === 0) {
+            await interaction.reply({ embeds: [trackHandler.createErrorEmbed('The queue is empty.')], ephemeral: true });
+            return;
+        }
+
+        const name = interaction.options.getString('name')!;
+        const result = await musicService.addToPlaylist(userId, name, tracks);
+
+        if (!result.isOk()) {
+            await interaction.reply({ embeds: [trackHandler.createErrorEmbed(result.error!)], ephemeral: true });
+            return;
+        }
+
+        const { playlist, added, skipped } = result.data;
+        const skippedText = skipped > 0 ? `\n${skipped} skipped (duplicates or playlist limit)` : '';
+        await interaction.reply({
+            embeds: [trackHandler.createInfoEmbed('📁 Queue Saved', `Added **${added}** tracks to **${playlist.name}** (${playlist.tracks.length} tracks)${skippedText}`, 'success')]
+        });
+    },
+
+    async handlePlaylistRemove(interaction: ChatInputCommandInteraction, userId: string): Promise<void> {
+        const name = interaction.options.getString('name')!;
+        const position = interaction.options.getInteger('position')!;
+        const result = await musicService.removeFromPlaylist(userId, name, position);
+
+        if (!result.isOk()) {
+            await interaction.reply({ embeds: [trackHandler.createErrorEmbed(result.error!)], ephemeral: true });
+            return;
+        }
+
+        await interaction.reply({
+            embeds: [trackHandler.createInfoEmbed('🗑️ Removed', `Removed **${result.data.removed.title}** from **${name}**`, 'success')]
+        });
+    },
+
+    async handlePlaylistRename(interaction: ChatInputCommandInteraction, userId: string): Promise<void> {
+        const name = interaction.options.getString('name')!;
+        const newName = interaction.options.getString('new_name')!;
+        const result = await musicService.renamePlaylist(userId, name, newName);
+
+        if (!result.isOk()) {
+            await interaction.reply({ embeds: [trackHandler.createErrorEmbed(result.error!)], ephemeral: true });
+            return;
+        }
+
+        await interaction.reply({
+            embeds: [trackHandler.createInfoEmbed('✏️ Renamed', `**${name}** is now **${result.data.name}**`, 'success')]
+        });
+    },
+
+    async handlePlaylistDelete(interaction: ChatInputCommandInteraction, userId: string): Promise<void> {
+        const name = interaction.options.getString('name')!;
+        const result = await musicService.deletePlaylist(userId, name);
+
+        if (!result.isOk()) {
+            await interaction.reply({ embeds: [trackHandler.createErrorEmbed(result.error!)], ephemeral: true });
+            return;
+        }
+
+        await interaction.reply({
+            embeds: [trackHandler.createInfoEmbed('🗑️ Deleted', `Deleted playlist **${result.data.name}**`, 'success')]
+        });
+    },
+
+    async handlePlaylistList(interaction: ChatInputCommandInteraction, userId: string): Promise<void> {
+        const owner = interaction.options.getUser('user') || interaction.user;
+        const isOwner = owner.id === userId;
+        const playlists = await musicService.getUserPlaylists(owner.id, !isOwner);
+
+        await interaction.reply({
+            embeds: [trackHandler.createSavedPlaylistsEmbed(playlists, owner.displayName || owner.username, isOwner)],
+            ephemeral: isOwner
+        });
+    },
+
+    async handlePlaylistView(interaction: ChatInputCommandInteraction, userId: string): Promise<void> {
+        const name = interaction.options.getString('name')!;
+        const owner = interaction.options.getUser('user') || interaction.user;
+        const page = interaction.options.getInteger('page') || 1;
+        const result = await musicService.getPlaylist(owner.id, name, userId);
+
+        if (!result.isOk()) {
+            await interaction.reply({ embeds: [trackHandler.createErrorEmbed(result.error!)], ephemeral: true });
+            return;
+        }
+
+        await interaction.reply({
+            embeds: [trackHandler.createSavedPlaylistEmbed(result.data, owner.displayName || owner.username, page)]
+        });
+    },
+
+    async handlePlaylistShare(interaction: ChatInputCommandInteraction, userId: string): Promise<void> {
+        const name = interaction.options.getString('name')!;
+        const isPublic = interaction.options.getBoolean('public') ?? true;
+        const result = await musicService.setPlaylistPublic(userId, name, isPublic);
+
+        if (!result.isOk()) {
+            await interaction.reply({ embeds: [trackHandler.createErrorEmbed(result.error!)], ephemeral: true });
+            return;
+        }
+
+        const description = isPublic
+            ? `**${result.data.name}** is now public. Others can load it with \`/music playlist load name:${result.data.name} user:@${interaction.user.username}\``
+            : `**${result.data.name}** is now private.`;
+        await interaction.reply({
+            embeds: [trackHandler.createInfoEmbed(isPublic ? '🌐 Playlist Shared' : '🔒 Playlist Private', description, 'success')]
+        });
+    },
+
+    async handlePlaylistLoad(interaction: ChatInputCommandInteraction, guildId: string, _userId: string): Promise<void> {
+        await interaction.deferReply();
+
+        const voiceCheck = checkVoiceChannelSync(interaction);
+        if (!voiceCheck.valid) {
+            await interaction.editReply({
+                embeds: [trackHandler.createInfoEmbed('❌ No Voice Channel', voiceCheck.error!)],
+            });
+            return;
+        }
+
+        const permCheck = checkVoicePermissionsSync(interaction);
+        if (!permCheck.valid) {
+            await interaction.editReply({
+                embeds: [trackHandler.createInfoEmbed('❌ Missing Permissions', permCheck.error!)],
+            });
+            return;
+        }
+
+        if (!await checkMusicPermission(interaction, guildId, null)) return;
+
+        if (!musicService.isLavalinkReady()) {
+            await interaction.editReply({
+                embeds: [trackHandler.createErrorEmbed('Music service is not available. Please try again later.')]
+            });
+            return;
+        }
+
+        const name = interaction.options.getString('name')!;
+        const owner = interaction.options.getUser('user') || interaction.user;
+        const shouldShuffle = interaction.options.getBoolean('shuffle') || false;
+
+        try {
+            await musicService.connect(interaction);
+
+            const currentTrack = musicService.getCurrentTrack(guildId) as Track | null;
+            const result = await musicService.loadPlaylist(guildId, owner.id, name, {
+                id: interaction.user.id,
+                username: interaction.user.username,
+                displayName: interaction.user.displayName,
+                displayAvatarURL: () => interaction.user.displayAvatarURL()
+            }, shouldShuffle);
+
+            if (!result.isOk()) {
+                await interaction.editReply({ embeds: [trackHandler.createErrorEmbed(result.error!)] });
+                return;
+            }
+
+            const { playlist, tracks, failed, overLimit = 0 } = result.data;
+
+            const embed = trackHandler.createPlaylistEmbed(playlist.name, tracks.length, interaction.user, tracks[0]);
+            if (failed > 0) {
+                embed.addFields({ name: '⚠️ Unavailable', value: `${failed} track${failed !== 1 ? 's' : ''} could not be loaded`, inline: true });
+            }
+            if (overLimit > 0) {
+                embed.addFields({ name: '⚖️ Over Your Limit', value: `${overLimit} track${overLimit !== 1 ? 's' : ''} left out by the server's queue limits`, inline: true });
+            }
+
+            if (currentTrack) {
+                await interaction.editReply({ embeds: [embed] });
+                return;
+            }
+
+            const nextTrack = musicService.getQueueList(guildId)[0];
+            if (!nextTrack) {
+                await interaction.editReply({ embeds: [embed] });
+                return;
+            }
+
+            musicService.removeTrack(guildId, 0);
+            await musicService.playTrack(guildId, nextTrack);
+            await interaction.editReply({ embeds: [embed] });
+
+            const listenerCount = musicService.getListenerCount(guildId, interaction.guild!);
+            const voteSkipStatus = musicCache.getVoteSkipStatus(guildId, listenerCount) as VoteSkipStatus;
+
+            const nowPlayingEmbed = trackHandler.createNowPlayingEmbed(nextTrack, {
+                volume: musicService.getVolume(guildId),
+                queueLength: musicService.getQueueLength(guildId),
+                voteSkipCount: voteSkipStatus.count,
+                voteSkipRequired: voteSkipStatus.required,
+                listenerCount: listenerCount
+            });
+            const rows = trackHandler.createControlButtons(guildId, {
+                trackUrl: nextTrack.url,
+                userId: interaction.user.id,
+                autoPlay: musicService.isAutoPlayEnabled(guildId),
+                listenerCount: listenerCount
+            });
+
+            const channel = interaction.channel;
+            if (channel && 'send' in channel) {
+                const nowPlayingMsg = await channel.send({ embeds: [nowPlayingEmbed], components: rows });
+                musicService.setNowPlayingMessage(guildId, nowPlayingMsg);
+            }
+
+            musicService.startVCMonitor(guildId, interaction.guild!);
+        } catch (error) {
+            logger.error('Playlist', `Load error: ${(error as Error).message}`);
+            await interaction.editReply({
+                embeds: [trackHandler.createErrorEmbed('Failed to load playlist. Please try again.')]
+            });
+        }
+    }
+};
+
+export default playlistHandler;
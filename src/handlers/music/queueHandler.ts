@@ -1,18 +1,39 @@
 /**
  * Queue Handler
- * Handles queue viewing and management
+ * Handles queue viewing and management, plus queue export and import.
+ * Remove and clear go through voteHandler when the guild puts them to a vote.
  * @module handlers/music/queueHandler
  */
 
-import { ChatInputCommandInteraction } from 'discord.js';
+import { Attachment, AttachmentBuilder, ChatInputCommandInteraction } from 'discord.js';
 import { trackHandler } from './trackHandler.js';
+import { playHandler } from './playHandler.js';
+import { voteHandler } from './voteHandler.js';
 import musicCache from '../../cache/music/MusicCacheFacade.js';
-import { checkSameVoiceChannel } from '../../middleware/voiceChannelCheck.js';
+import { checkSameVoiceChannel, checkVoicePermissionsSync } from '../../middleware/voiceChannelCheck.js';
+import { checkMusicPermission } from '../../middleware/musicPermissionCheck.js';
+import { queueFile as queueFileConfig } from '../../config/features/music.js';
 import { musicFacade as musicService } from '../../services/music/core/musicFacade.js';
+import logger from '../../core/observability/Logger.js';
 import type { Track } from '../../types/music/track.js';
+import type { QueueFileFormat } from '../../types/music/queue-file.js';
+import type { QueueSubcommand } from '../../types/music/handlers.js';
 
 export const queueHandler = {
     async handleQueue(interaction: ChatInputCommandInteraction, guildId: string): Promise<void> {
+        const subcommand = interaction.options.getSubcommand() as QueueSubcommand;
+
+        switch (subcommand) {
+            case 'view':
+                return await this.handleQueueView(interaction, guildId);
+            case 'export':
+                return await this.handleQueueExport(interaction, guildId, interaction.options.getString('format', true) as QueueFileFormat);
+            case 'import':
+                return await this.handleQueueImport(interaction, guildId, interaction.options.getAttachment('file', true));
+        }
+    },
+
+    async handleQueueView(interaction: ChatInputCommandInteraction, guildId: string): Promise<void> {
         const tracks = musicService.getQueueList(guildId) as Track[];
         const currentTrack = musicService.getCurrentTrack(guildId) as Track | null;
         const page = interaction.options.getInteger('page') || 1;
@@ -21,7 +42,8 @@ export const queueHandler = {
             page,
             loopMode: musicService.getLoopMode(guildId),
             isShuffled: musicService.isShuffled(guildId),
-            volume: musicService.getVolume(guildId)
+            volume: musicService.getVolume(guildId),
+            turnOrder: musicService.getTurnOrder(guildId)
         });
 
         const totalPages = Math.ceil(tracks.length / 10) || 1;
@@ -30,6 +52,75 @@ export const queueHandler = {
         await interaction.reply({ embeds: [embed], components: [row] });
     },
 
+    async handleQueueExport(interaction: ChatInputCommandInteraction, guildId: string, format: QueueFileFormat): Promise<void> {
+        const result = musicService.exportQueue(guildId, format);
+        if (result.isErr()) {
+            await interaction.reply({
+                embeds: [trackHandler.createErrorEmbed(result.error || 'Could not export the queue')],
+                ephemeral: true
+            });
+            return;
+        }
+
+        const { file, count } = result.data!;
+        await interaction.reply({
+            embeds: [trackHandler.createInfoEmbed(
+                '📤 Queue Exported',
+                `Saved **${count}** track${count === 1 ? '' : 's'}. Use \`/music queue import\` with this file to queue them again.`,
+                'success'
+            )],
+            files: [file]
+        });
+    },
+
+    async handleQueueImport(interaction: ChatInputCommandInteraction, guildId: string, file: Attachment): Promise<void> {
+        const botChannelId = musicService.getVoiceChannelId(guildId);
+        if (!await checkSameVoiceChannel(interaction, botChannelId)) return;
+
+        const permCheck = checkVoicePermissionsSync(interaction);
+        if (!permCheck.valid) {
+            await interaction.reply({ embeds: [trackHandler.createErrorEmbed(permCheck.error!)], ephemeral: true });
+            return;
+        }
+
+        if (!await checkMusicPermission(interaction, guildId, null)) return;
+
+        if (!musicService.isLavalinkReady()) {
+            await interaction.reply({
+                embeds: [trackHandler.createErrorEmbed('Music service is not available. Please try again later.')],
+                ephemeral: true
+            });
+            return;
+        }
+
+        await interaction.deferReply();
+
+        try {
+            await musicService.connect(interaction);
+
+            const result = await musicService.importQueueFile(interaction.guild!, file, interaction.user);
+            if (result.isErr()) {
+                await interaction.editReply({ embeds: [trackHandler.createErrorEmbed(result.error || 'Could not import the file')] });
+                return;
+            }
+
+            const imported = result.data!;
+            const files = imported.failures.length > queueFileConfig.failuresShown
+                ? [new AttachmentBuilder(Buffer.from(trackHandler.createQueueFileFailureReport(imported, file.name)), { name: 'import-report.txt' })]
+                : [];
+
+            await interaction.editReply({
+                embeds: [trackHandler.createQueueFileImportEmbed(imported, file.name, interaction.user)],
+                files
+            });
+        } catch (error) {
+            logger.error('QueueImport', `Error: ${(error as Error).message}`);
+            await interaction.editReply({
+                embeds: [trackHandler.createErrorEmbed(playHandler.describePlayError(error, file.name, guildId))]
+            }).catch(() => {});
+        }
+    },
+
     async handleNowPlaying(interaction: ChatInputCommandInteraction, guildId: string): Promise<void> {
         const currentTrack = musicService.getCurrentTrack(guildId) as Track | null;
 
@@ -55,7 +146,8 @@ export const queueHandler = {
             nextTrack,
             loopCount: musicService.getLoopCount(guildId),
             voteSkipCount: voteSkipStatus.count,
-            voteSkipRequired: voteSkipStatus.required
+            voteSkipRequired: voteSkipStatus.required,
+            filters: musicService.getFilterSummary(guildId)
         });
 
         const rows = trackHandler.createControlButtons(guildId, {
@@ -85,6 +177,12 @@ export const queueHandler = {
         const botChannelId = musicService.getVoiceChannelId(guildId);
         if (!await checkSameVoiceChannel(interaction, botChannelId)) return;
 
+        const track = tracks[position - 1]!;
+        const requesterId = track.requestedBy?.id ?? null;
+        const permission = await checkMusicPermission(interaction, guildId, 'remove', requesterId);
+        if (!permission) return;
+        if (!await voteHandler.gate(interaction, guildId, 'remove', permission, { position, title: track.title, url: track.url, requesterId })) return;
+
         const removed = musicService.removeTrack(guildId, position - 1) as Track | null;
 
         await interaction.reply({
@@ -107,6 +205,7 @@ export const queueHandler = {
 
         const botChannelId = musicService.getVoiceChannelId(guildId);
         if (!await checkSameVoiceChannel(interaction, botChannelId)) return;
+        if (!await checkMusicPermission(interaction, guildId, 'move', tracks[from - 1]?.requestedBy?.id ?? null)) return;
 
         const success = musicService.moveTrack(guildId, from - 1, to - 1) as boolean;
 
@@ -125,6 +224,9 @@ export const queueHandler = {
     async handleClear(interaction: ChatInputCommandInteraction, guildId: string): Promise<void> {
         const botChannelId = musicService.getVoiceChannelId(guildId);
         if (!await checkSameVoiceChannel(interaction, botChannelId)) return;
+        const permission = await checkMusicPermission(interaction, guildId, 'clear');
+        if (!permission) return;
+        if (!await voteHandler.gate(interaction, guildId, 'clear', permission)) return;
 
         const cleared = musicService.getQueueLength(guildId) as number;
         musicService.clearQueue(guildId);
@@ -0,0 +1,128 @@
+/**
+ * Radio Handler
+ * Handles internet radio presets (/music radio ...)
+ * @module handlers/music/radioHandler
+ */
+
+import { ChatInputCommandInteraction } from 'discord.js';
+import type { GuildMember } from 'discord.js';
+import { trackHandler } from './trackHandler.js';
+import { playHandler } from './playHandler.js';
+import { musicFacade as musicService } from '../../services/music/core/musicFacade.js';
+import logger from '../../core/observability/Logger.js';
+import type { RadioSubcommand } from '../../types/music/handlers.js';
+
+export const radioHandler = {
+    async handleRadio(interaction: ChatInputCommandInteraction, guildId: string, userId: string): Promise<void> {
+        const subcommand = interaction.options.getSubcommand() as RadioSubcommand;
+
+        switch (subcommand) {
+            case 'play':
+                return await this.handleRadioPlay(interaction, guildId, userId);
+            case 'list':
+                return await this.handleRadioList(interaction, guildId);
+            case 'add':
+                return await this.handleRadioAdd(interaction, guildId);
+            case 'remove':
+                return await this.handleRadioRemove(interaction, guildId);
+            case 'reset':
+                return await this.handleRadioReset(interaction, guildId);
+        }
+    },
+
+    async handleRadioPlay(interaction: ChatInputCommandInteraction, guildId: string, userId: string): Promise<void> {
+        await interaction.deferReply();
+        if (!await playHandler.checkCanPlay(interaction, guildId)) return;
+
+        const name = interaction.options.getString('station')!;
+        const station = await musicService.findRadioStation(guildId, name);
+        if (!station) {
+            await interaction.editReply({
+                embeds: [trackHandler.createErrorEmbed(`There is no station called **${name}**. See \`/music radio list\`.`)]
+            });
+            return;
+        }
+
+        try {
+            await musicService.connect(interaction);
+
+            const resolved = await musicService.resolveRadioStation(station, interaction.user);
+            if (resolved.isErr()) {
+                await interaction.editReply({ embeds: [trackHandler.createErrorEmbed(resolved.error!)] });
+                return;
+            }
+
+            await playHandler.queueTrack(interaction, resolved.data!, guildId, userId);
+        } catch (error) {
+            logger.error('Radio', `Error: ${(error as Error).message}`);
+            await interaction.editReply({
+                embeds: [trackHandler.createErrorEmbed(playHandler.describePlayError(error, station.name, guildId))]
+            });
+        }
+    },
+
+    async handleRadioList(interaction: ChatInputCommandInteraction, guildId: string): Promise<void> {
+        const stations = await musicService.getRadioStations(guildId);
+        await interaction.reply({ embeds: [trackHandler.createRadioStationsEmbed(stations)] });
+    },
+
+    async handleRadioAdd(interaction: ChatInputCommandInteraction, guildId: string): Promise<void> {
+        if (!await this._checkCanEdit(interaction)) return;
+
+        const name = interaction.options.getString('name')!;
+        const url = interaction.options.getString('url')!;
+        const genre = interaction.options.getString('genre');
+        const result = await musicService.addRadioStation(guildId, name, url, genre);
+
+        if (result.isErr()) {
+            await interaction.reply({ embeds: [trackHandler.createErrorEmbed(result.error!)], ephemeral: true });
+            return;
+        }
+
+        await interaction.reply({
+            embeds: [trackHandler.createInfoEmbed('📻 Station Saved', `**${result.data!.name}** is now on the radio list.`, 'success')]
+        });
+    },
+
+    async handleRadioRemove(interaction: ChatInputCommandInteraction, guildId: string): Promise<void> {
+        if (!await this._checkCanEdit(interaction)) return;
+
+        const result = await musicService.removeRadioStation(guildId, interaction.options.getString('station')!);
+        if (result.isErr()) {
+            await interaction.reply({ embeds: [trackHandler.createErrorEmbed(result.error!)], ephemeral: true });
+            return;
+        }
+
+        await interaction.reply({
+            embeds: [trackHandler.createInfoEmbed('🗑️ Station Removed', `Removed **${result.data!.name}** from the radio list.`, 'success')]
+        });
+    },
+
+    async handleRadioReset(interaction: ChatInputCommandInteraction, guildId: string): Promise<void> {
+        if (!await this._checkCanEdit(interaction)) return;
+
+        if (!await musicService.resetRadioStations(guildId)) {
+            await interaction.reply({ embeds: [trackHandler.createErrorEmbed('Could not reset the radio list.')], ephemeral: true });
+            return;
+        }
+
+        await interaction.reply({
+            embeds: [trackHandler.createInfoEmbed('📻 Radio Reset', 'The radio list is back to the default stations.', 'success')]
+        });
+    },
+
+    /**
+     * Only DJs (and admins) may edit the guild's station list
+     */
+    async _checkCanEdit(interaction: ChatInputCommandInteraction): Promise<boolean> {
+        if (await musicService.isDJ(interaction.member as GuildMember)) return true;
+
+        await interaction.reply({
+            embeds: [trackHandler.createErrorEmbed('Only DJs can edit the radio stations.')],
+            ephemeral: true
+        });
+        return false;
+    }
+};
+
+export default radioHandler;
@@ -0,0 +1,153 @@
+/**
+ * Request Channel Handler
+ * Turns plain messages in a guild's song request channel into queued tracks
+ * @module handlers/music/requestChannelHandler
+ */
+
+import { Message, PermissionFlagsBits } from 'discord.js';
+import type { GuildMember } from 'discord.js';
+import { playHandler } from './playHandler.js';
+import { requestChannel as requestChannelConfig } from '../../config/features/music.js';
+import { checkStreamUrl } from '../../middleware/urlValidator.js';
+import { musicFacade as musicService } from '../../services/music/core/musicFacade.js';
+import logger from '../../core/observability/Logger.js';
+import type { Track } from '../../types/music/track.js';
+
+export const requestChannelHandler = {
+    /**
+     * Queue the message as a song request if it was sent in the request channel
+     * @returns true when the message belonged to the request channel and was consumed
+     */
+    async handleRequestMessage(message: Message): Promise<boolean> {
+        if (!message.guild || message.author.bot) return false;
+
+        const state = await musicService.getRequestChannel(message.guild.id);
+        if (!state || state.channelId !== message.channelId) return false;
+
+        const query = message.content.trim();
+        await message.delete().catch(() => {});
+        if (!query) return true;
+
+        if (/^https?:\/\//i.test(query)) {
+            const urlCheck = checkStreamUrl(query);
+            if (!urlCheck.valid) {
+                await this._notify(message, `❌ ${urlCheck.error}`);
+                return true;
+            }
+        }
+
+        const guild = message.guild;
+        const guildId = guild.id;
+        const member = message.member as GuildMember | null;
+        const voiceChannel = member?.voice?.channel;
+
+        if (!member || !voiceChannel) {
+            await this._notify(message, '❌ Join a voice channel first, then send your request here.');
+            return true;
+        }
+
+        const botChannelId = musicService.getVoiceChannelId(guildId);
+        if (botChannelId && botChannelId !== voiceChannel.id) {
+            await this._notify(message, `❌ I'm already playing in <#${botChannelId}>. Join that channel to add songs.`);
+            return true;
+        }
+
+        const me = guild.members.me;
+        if (me && !voiceChannel.permissionsFor(me)?.has([PermissionFlagsBits.Connect, PermissionFlagsBits.Speak])) {
+            await this._notify(message, `❌ I need permission to connect and speak in <#${voiceChannel.id}>.`);
+            return true;
+        }
+
+        const permission = await musicService.checkPermission(member, null);
+        if (!permission.allowed) {
+            await this._notify(message, `❌ ${permission.reason || 'You do not have permission to do that.'}`);
+            return true;
+        }
+
+        if (!musicService.isLavalinkReady()) {
+            await this._notify(message, '❌ Music service is not available. Please try again later.');
+            return true;
+        }
+
+        try {
+            const connected = await musicService.connectToChannel(guild, voiceChannel.id, null);
+            if (connected.isErr()) {
+                await this._notify(message, `❌ ${connected.error || 'Could not join your voice channel.'}`);
+                return true;
+            }
+
+            // The panel shows the import; a request channel gets no progress or summary messages
+            if (playHandler.isPlaylistUrl(query)) {
+                const result = await musicService.importPlaylist(guild, {
+                    guildId,
+                    userId: message.author.id,
+                    userName: message.author.displayName || message.author.username,
+                    url: query,
+                    shuffle: false,
+                    textChannelId: null
+                });
+
+                await this._notify(message, result.isOk()
+                    ? `📥 Importing **${result.data!.playlistName}** for ${message.author}...`
+                    : `❌ ${result.error || 'Failed to load playlist'}`);
+                return true;
+            }
+
+            const searchResult = await musicService.search(query, message.author);
+            const trackData: Track | null = searchResult?.isOk?.() ? searchResult.data?.tracks?.[0] ?? null : null;
+            if (!trackData) {
+                await this._notify(message, `❌ No results found for: \`${query}\``);
+                return true;
+            }
+
+            const prefs = await musicService.getPreferences(message.author.id);
+            if (trackData.lengthSeconds > prefs.maxTrackDuration) {
+                await this._notify(message, `❌ **${trackData.title}** is longer than your max track duration. Use \`/music play\` to confirm long tracks.`);
+                return true;
+            }
+
+            const limit = await musicService.checkRequesterLimits(guildId, message.author.id, [trackData]);
+            if (limit.fits === 0) {
+                await this._notify(message, `❌ ${limit.reason}`);
+                return true;
+            }
+
+            const currentTrack = musicService.getCurrentTrack(guildId) as Track | null;
+            const position = musicService.addTrack(guildId, trackData);
+
+            if (!currentTrack) {
+                const nextTrack = (musicService.getQueueList(guildId) as Track[])[0];
+                if (nextTrack) {
+                    musicService.removeTrack(guildId, 0);
+                    await musicService.playTrack(guildId, nextTrack);
+                    musicService.startVCMonitor(guildId, guild);
+                }
+                await this._notify(message, `▶️ Now playing **${trackData.title}**, requested by ${message.author}`);
+            } else {
+                await this._notify(message, `✅ Queued **${trackData.title}** at #${position} for ${message.author}`);
+            }
+        } catch (error) {
+            logger.error('RequestChannel', `Request failed in guild ${guildId}: ${(error as Error).message}`);
+            await this._notify(message, `❌ ${playHandler.describePlayError(error, query, guildId)}`);
+        }
+
+        return true;
+    },
+
+    /**
+     * Short-lived notice in the request channel, so the panel stays the only permanent message
+     */
+    async _notify(message: Message, content: string): Promise<void> {
+        if (!message.channel.isSendable()) return;
+
+        const notice = await message.channel.send({ content, allowedMentions: { parse: [] } }).catch(() => null);
+        if (!notice) return;
+
+        const timer = setTimeout(() => {
+            notice.delete().catch(() => {});
+        }, requestChannelConfig.feedbackTtl);
+        timer.unref?.();
+    }
+};
+
+export default requestChannelHandler;
@@ -0,0 +1,32 @@
+/**
+ * Stats Handler
+ * Handles /music stats for the server or a single member
+ * @module handlers/music/statsHandler
+ */
+
+import { ChatInputCommandInteraction } from 'discord.js';
+import { trackHandler } from './trackHandler.js';
+import { musicFacade as musicService } from '../../services/music/core/musicFacade.js';
+import { stats as statsConfig } from '../../config/features/music.js';
+import type { MusicStatsPeriod } from '../../types/music/stats.js';
+
+export const statsHandler = {
+    async handleStats(interaction: ChatInputCommandInteraction, guildId: string): Promise<void> {
+        const user = interaction.options.getUser('user');
+        const period = (interaction.options.getString('period') || statsConfig.defaultPeriod) as MusicStatsPeriod;
+
+        await interaction.deferReply();
+
+        const result = await musicService.getMusicStats(guildId, period, user?.id || null);
+        if (!result.isOk()) {
+            await interaction.editReply({ embeds: [trackHandler.createErrorEmbed(result.error!)] });
+            return;
+        }
+
+        const subject = user ? user.displayName || user.username : interaction.guild?.name || 'This server';
+        const embed = trackHandler.createMusicStatsEmbed(result.data!, subject);
+        if (user) embed.setThumbnail(user.displayAvatarURL());
+
+        await interaction.editReply({ embeds: [embed] });
+    }
+};
@@ -8,14 +8,24 @@
 import {
     ActionRowBuilder,
     ButtonBuilder,
-    ButtonStyle
+    ButtonStyle,
+    StringSelectMenuBuilder,
+    StringSelectMenuOptionBuilder,
+    type MessageActionRowComponentBuilder
 } from 'discord.js';
-import { type ControlButtonsOptions, LOOP_DISPLAY } from './trackTypes.js';
+import { type ControlButtonsOptions, type Track, LOOP_DISPLAY } from './trackTypes.js';
+import { describeSearchResult, getSourceInfo, truncate } from './trackEmbeds.js';
+import { filters as filterConfig } from '../../config/features/music.js';
+import type { FilterPresetName } from '../../types/music/filters.js';
+import type { VoteAction } from '../../types/music/vote.js';
+
+/** Seconds jumped by the rewind / fast-forward buttons */
+export const SEEK_STEP_SECONDS = 15;
 
 /**
  * Create control buttons — Clean with labels
  */
-export function createControlButtons(guildId: string, options: ControlButtonsOptions = {}): ActionRowBuilder<ButtonBuilder>[] {
+export function createControlButtons(guildId: string, options: ControlButtonsOptions = {}): ActionRowBuilder<MessageActionRowComponentBuilder>[] {
     const {
         isPaused = false,
         loopMode = 'off',
@@ -23,7 +33,7 @@ export function createControlButtons(guildId: string, options: ControlButtonsOpt
         autoPlay = false
     } = options;
 
-    const rows: ActionRowBuilder<ButtonBuilder>[] = [];
+    const rows: ActionRowBuilder<MessageActionRowComponentBuilder>[] = [];
     const loopInfo = LOOP_DISPLAY[loopMode];
 
     // Row 1: Main playback controls
@@ -98,9 +108,109 @@ export function createControlButtons(guildId: string, options: ControlButtonsOpt
     );
     rows.push(volumeRow);
 
+    // Row 3: Previous track, rewind / fast-forward
+    const seekRow = new ActionRowBuilder<ButtonBuilder>();
+    seekRow.addComponents(
+        new ButtonBuilder()
+            .setCustomId(`music_previous:${guildId}`)
+            .setLabel('Previous')
+            .setEmoji('⏮️')
+            .setStyle(ButtonStyle.Secondary),
+        new ButtonBuilder()
+            .setCustomId(`music_seek:${guildId}:-${SEEK_STEP_SECONDS}`)
+            .setLabel(`-${SEEK_STEP_SECONDS}s`)
+            .setEmoji('⏪')
+            .setStyle(ButtonStyle.Secondary),
+        new ButtonBuilder()
+            .setCustomId(`music_seek:${guildId}:${SEEK_STEP_SECONDS}`)
+            .setLabel(`+${SEEK_STEP_SECONDS}s`)
+            .setEmoji('⏩')
+            .setStyle(ButtonStyle.Secondary)
+    );
+    rows.push(seekRow);
+
+    // Row 4: Audio filter presets
+    rows.push(createFilterSelectMenu(guildId));
+
     return rows;
 }
 
+/**
+ * Create the audio filter preset select menu
+ */
+export function createFilterSelectMenu(guildId: string): ActionRowBuilder<StringSelectMenuBuilder> {
+    const presetOptions = (Object.keys(filterConfig.presets) as FilterPresetName[]).map(name => {
+        const preset = filterConfig.presets[name];
+        return new StringSelectMenuOptionBuilder()
+            .setLabel(preset.label)
+            .setValue(name)
+            .setDescription(preset.description)
+            .setEmoji(preset.emoji);
+    });
+
+    return new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
+        new StringSelectMenuBuilder()
+            .setCustomId(`music_filter:${guildId}`)
+            .setPlaceholder('🎛️ Audio filters')
+            .addOptions(
+                new StringSelectMenuOptionBuilder()
+                    .setLabel('No Filter')
+                    .setValue('off')
+                    .setDescription('Remove all filters')
+                    .setEmoji('✖️'),
+                ...presetOptions
+            )
+    );
+}
+
+/**
+ * Create lyrics pagination and live toggle buttons
+ */
+export function createLyricsButtons(guildId: string, currentPage: number, totalPages: number, canGoLive: boolean): ActionRowBuilder<ButtonBuilder> {
+    const row = new ActionRowBuilder<ButtonBuilder>();
+
+    row.addComponents(
+        new ButtonBuilder()
+            .setCustomId(`music_lyrics:${guildId}:${currentPage - 1}`)
+            .setLabel('Prev')
+            .setEmoji('◀️')
+            .setStyle(ButtonStyle.Primary)
+            .setDisabled(currentPage <= 1),
+        new ButtonBuilder()
+            .setCustomId(`music_lyrics:${guildId}:info`)
+            .setLabel(`${currentPage} / ${totalPages}`)
+            .setStyle(ButtonStyle.Secondary)
+            .setDisabled(true),
+        new ButtonBuilder()
+            .setCustomId(`music_lyrics:${guildId}:${currentPage + 1}`)
+            .setLabel('Next')
+            .setEmoji('▶️')
+            .setStyle(ButtonStyle.Primary)
+            .setDisabled(currentPage >= totalPages),
+        new ButtonBuilder()
+            .setCustomId(`music_lyricslive:${guildId}:on`)
+            .setLabel('Live')
+            .setEmoji('🔴')
+            .setStyle(ButtonStyle.Success)
+            .setDisabled(!canGoLive)
+    );
+
+    return row;
+}
+
+/**
+ * Create the stop button shown under live lyrics
+ */
+export function createLiveLyricsButtons(guildId: string): ActionRowBuilder<ButtonBuilder> {
+    return new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder()
+            .setCustomId(`music_lyricslive:${guildId}:off`)
+            .setLabel('Stop Live')
+            .setEmoji('⏹️')
+            .setStyle(ButtonStyle.Danger)
+    );
+}
+
 /**
  * Create queue pagination buttons
  */
@@ -159,6 +269,26 @@ export function createSkipVoteButton(guildId: string, currentVotes: number, requ
     return row;
 }
 
+const ACTION_VOTE_LABELS: Record<Exclude<VoteAction, 'skip'>, string> = {
+    stop: 'Vote to Stop',
+    clear: 'Vote to Clear',
+    shuffle: 'Vote to Shuffle',
+    remove: 'Vote to Remove'
+};
+
+/**
+ * Create the vote button for stop, clear, shuffle or remove
+ */
+export function createActionVoteButton(guildId: string, action: Exclude<VoteAction, 'skip'>, currentVotes: number, requiredVotes: number): ActionRowBuilder<ButtonBuilder> {
+    return new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder()
+            .setCustomId(`music_vote:${guildId}:${action}`)
+            .setLabel(`${ACTION_VOTE_LABELS[action]} (${currentVotes}/${requiredVotes})`)
+            .setEmoji('🗳️')
+            .setStyle(ButtonStyle.Primary)
+    );
+}
+
 /**
  * Create confirmation buttons
  */
@@ -181,6 +311,71 @@ export function createConfirmButtons(guildId: string, action: string): ActionRow
     return row;
 }
 
+/**
+ * Create resume / discard buttons for a saved queue snapshot.
+ * Uses the music_confirm customId format with the 'resume' action.
+ */
+export function createResumeButtons(guildId: string): ActionRowBuilder<ButtonBuilder> {
+    const row = new ActionRowBuilder<ButtonBuilder>();
+
+    row.addComponents(
+        new ButtonBuilder()
+            .setCustomId(`music_confirm:${guildId}:resume:yes`)
+            .setLabel('Resume')
+            .setEmoji('▶️')
+            .setStyle(ButtonStyle.Success),
+        new ButtonBuilder()
+            .setCustomId(`music_confirm:${guildId}:resume:no`)
+            .setLabel('Discard')
+            .setEmoji('🗑️')
+            .setStyle(ButtonStyle.Secondary)
+    );
+
+    return row;
+}
+
+/**
+ * Create result picker for /music play pick:true.
+ * customId: music_pick:{pickId}, values are result indexes or "cancel"
+ */
+export function createSearchPickMenu(pickId: string, tracks: Track[]): ActionRowBuilder<StringSelectMenuBuilder> {
+    const options = tracks.map((track, i) =>
+        new StringSelectMenuOptionBuilder()
+            .setLabel(truncate(`${i + 1}. ${track.title}`, 100))
+            .setValue(String(i))
+            .setDescription(truncate(describeSearchResult(track), 100))
+            .setEmoji(getSourceInfo(track).emoji)
+    );
+
+    return new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
+        new StringSelectMenuBuilder()
+            .setCustomId(`music_pick:${pickId}`)
+            .setPlaceholder('🎵 Choose a track to queue...')
+            .addOptions(
+                ...options,
+                new StringSelectMenuOptionBuilder()
+                    .setLabel('Cancel')
+                    .setValue('cancel')
+                    .setDescription('Don\'t queue anything')
+                    .setEmoji('✖️')
+            )
+    );
+}
+
+/**
+ * Create cancel button for a running playlist import.
+ * customId: music_import:{guildId}:cancel:{jobId}
+ */
+export function createImportCancelButton(guildId: string, jobId: string): ActionRowBuilder<ButtonBuilder> {
+    return new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder()
+            .setCustomId(`music_import:${guildId}:cancel:${jobId}`)
+            .setLabel('Cancel Import')
+            .setEmoji('⏹️')
+            .setStyle(ButtonStyle.Danger)
+    );
+}
+
 /**
  * Disable all buttons in rows
  */
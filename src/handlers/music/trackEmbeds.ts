@@ -6,7 +6,17 @@
  */
 
 import { EmbedBuilder, User } from 'discord.js';
-import { formatSecondsToTime as fmtDur } from '../../utils/music/index.js';
+import { formatSecondsToTime as fmtDur, describeFilters } from '../../utils/music/index.js';
+import type { SavedPlaylist } from '../../types/music/playlist.js';
+import type { FilterState } from '../../types/music/filters.js';
+import type { LyricsResult } from '../../types/music/lyrics.js';
+import type { QueueSnapshot } from '../../types/music/queue-snapshot.js';
+import type { ImportFailureReason, PlaylistImportFailure, PlaylistImportJob } from '../../types/music/playlist-import.js';
+import type { QueueFileImportResult } from '../../types/music/queue-file.js';
+import type { RadioStation } from '../../types/music/radio.js';
+import type { ActionVoteTarget, VoteAction } from '../../types/music/vote.js';
+import type { MusicStatsReport, MusicStatsSummary } from '../../types/music/stats.js';
+import { lyrics as lyricsConfig, playlistImport as importConfig, fairQueue as fairQueueConfig, queueFile as queueFileConfig } from '../../config/features/music.js';
 import { type Track, SourcePlatform, NowPlayingOptions, QueueListOptions, InfoEmbedType, SourceInfo, COLORS, LOOP_DISPLAY, SOURCE_PLATFORM, DECORATIONS, NOW_PLAYING_EMOJI, PAUSED_EMOJI } from './trackTypes.js';
 
 // Utility Functions
@@ -19,6 +29,13 @@ export function getSourceInfo(track: Track): SourceInfo {
     return SOURCE_PLATFORM[source] || SOURCE_PLATFORM.unknown;
 }
 
+/**
+ * Track length for display; live streams have none
+ */
+export function formatTrackLength(track: Track): string {
+    return track.isStream ? '🔴 LIVE' : fmtDur(track.lengthSeconds);
+}
+
 /**
  * Create a visual progress bar
  */
@@ -105,6 +122,15 @@ export function createNowPlayingEmbed(track: Track, options: NowPlayingOptions =
         .setTitle(track.title)
         .setURL(track.url);
 
+    // Progress bar — only when the caller knows the player position (ms)
+    if (options.position !== undefined && track.lengthSeconds > 0) {
+        const positionSeconds = Math.min(Math.floor(options.position / 1000), track.lengthSeconds);
+        embed.setDescription(
+            `${createMusicBar(positionSeconds, track.lengthSeconds)}\n` +
+            `\`${fmtDur(positionSeconds)} / ${fmtDur(track.lengthSeconds)}\``
+        );
+    }
+
     // Search type text
     const searchTypeText = track.searchedByLink ? ' [Link]' : '';
     const loopedText = loopMode === 'off'
@@ -126,7 +152,7 @@ export function createNowPlayingEmbed(track: Track, options: NowPlayingOptions =
 
     embed.addFields(
         { name: '🎶 Artist', value: track.author || 'Unknown Artist', inline: true },
-        { name: '⏱️ Duration', value: fmtDur(track.lengthSeconds), inline: true },
+        { name: '⏱️ Duration', value: formatTrackLength(track), inline: true },
         { name: '☁️ Source', value: sourceText, inline: true },
         { name: '🔊 Volume', value: volumeText, inline: true },
         { name: '🔁 Playback', value: playbackText, inline: true },
@@ -145,6 +171,11 @@ export function createNowPlayingEmbed(track: Track, options: NowPlayingOptions =
         });
     }
 
+    // Active audio filters
+    if (options.filters) {
+        embed.addFields({ name: '🎛️ Filters', value: options.filters, inline: false });
+    }
+
     // Thumbnail
     if (track.thumbnail) {
         embed.setThumbnail(track.thumbnail);
@@ -180,7 +211,7 @@ export function createQueuedEmbed(track: Track, position: number, requester?: Us
         .setURL(track.url)
         .setDescription(
             `**Artist:** ${track.author || 'Unknown Artist'}\n` +
-            `**Duration:** ${fmtDur(track.lengthSeconds)}\n` +
+            `**Duration:** ${formatTrackLength(track)}\n` +
             `**Source:** ${sourceInfo.emoji} ${sourceInfo.name}`
         )
         .addFields({
@@ -238,7 +269,7 @@ export function createPlaylistEmbed(playlistName: string, trackCount: number, re
  * Create queue list embed
  */
 export function createQueueListEmbed(tracks: Track[], currentTrack: Track | null, options: QueueListOptions = {}): EmbedBuilder {
-    const { page = 1, perPage = 10, loopMode = 'off', isShuffled = false, volume = 100 } = options;
+    const { page = 1, perPage = 10, loopMode = 'off', isShuffled = false, volume = 100, turnOrder = null } = options;
 
     const totalPages = Math.ceil(tracks.length / perPage) || 1;
     const start = (page - 1) * perPage;
@@ -256,7 +287,7 @@ export function createQueueListEmbed(tracks: Track[], currentTrack: Track | null
         const trackDisplay = currentTrack.url ? `**[${trackTitle}](${currentTrack.url})**` : `**${trackTitle}**`;
         embed.setDescription(
             `${trackDisplay}\n` +
-            `${currentTrack.author || 'Unknown'} • ${fmtDur(currentTrack.lengthSeconds)}`
+            `${currentTrack.author || 'Unknown'} • ${formatTrackLength(currentTrack)}`
         );
 
         if (currentTrack.thumbnail) {
@@ -269,7 +300,7 @@ export function createQueueListEmbed(tracks: Track[], currentTrack: Track | null
         const queueText = pageItems.map((track, i) => {
             const position = start + i + 1;
             const title = truncate(track.title || 'Unknown', 40);
-            const duration = fmtDur(track.lengthSeconds);
+            const duration = formatTrackLength(track);
             const titleDisplay = track.url ? `[${title}](${track.url})` : `**${title}**`;
             return `\`${String(position).padStart(2, '0')}.\` ${titleDisplay}\n　　 ${duration} • ${truncate(track.author || 'Unknown', 20)}`;
         }).join('\n\n');
@@ -286,6 +317,17 @@ export function createQueueListEmbed(tracks: Track[], currentTrack: Track | null
         embed.setDescription('🔇 The queue is empty!\nUse `/music play` to add some tunes 🎵');
     }
 
+    // Fair queue: whose turn comes next
+    if (turnOrder && turnOrder.length > 0) {
+        const shown = turnOrder.slice(0, fairQueueConfig.turnsShown).map(id => `<@${id}>`);
+        const more = turnOrder.length - shown.length;
+        embed.addFields({
+            name: '⚖️ Fair Queue — Next Turns',
+            value: shown.join(' → ') + (more > 0 ? ` (+${more} more)` : ''),
+            inline: false
+        });
+    }
+
     // Total duration
     const totalDuration = tracks.reduce((sum, t) => sum + (t.lengthSeconds || 0), 0);
     const currentDuration = currentTrack?.lengthSeconds || 0;
@@ -334,6 +376,40 @@ export function createSkipVoteEmbed(track: Track | null, currentVotes: number, r
     return embed;
 }
 
+const ACTION_VOTE_QUESTIONS: Record<Exclude<VoteAction, 'skip'>, (target: ActionVoteTarget | null) => string> = {
+    stop: () => 'Stop playback and leave the channel?',
+    clear: () => 'Clear every track waiting in the queue?',
+    shuffle: () => 'Shuffle the queue (or restore its order if it is already shuffled)?',
+    remove: target => `Remove **${target?.title || 'Unknown'}** (#${target?.position ?? '?'}) from the queue?`
+};
+
+/**
+ * Create the live progress embed for a vote on stop, clear, shuffle or remove
+ */
+export function createActionVoteEmbed(
+    action: Exclude<VoteAction, 'skip'>,
+    target: ActionVoteTarget | null,
+    currentVotes: number,
+    requiredVotes: number,
+    timeRemaining?: number
+): EmbedBuilder {
+    const embed = new EmbedBuilder()
+        .setColor(COLORS.warning as `#${string}`)
+        .setAuthor({ name: '🗳️ Vote Started' })
+        .setTitle(ACTION_VOTE_QUESTIONS[action](target))
+        .setDescription(
+            `**Votes:** \`${currentVotes}\` / \`${requiredVotes}\`\n` +
+            `${createProgressBar(currentVotes, requiredVotes, 10)}\n\n` +
+            `Click the button below to add your vote!`
+        );
+
+    if (timeRemaining) {
+        embed.setFooter({ text: `⏱️ Vote expires in ${Math.ceil(timeRemaining / 1000)} seconds` });
+    }
+
+    return embed;
+}
+
 /**
  * Create info embed
  */
@@ -527,6 +603,182 @@ export function createHistoryEmbed(history: Track[], _userId: string, page: numb
     return embed;
 }
 
+/**
+ * Create saved playlists overview embed
+ */
+export function createSavedPlaylistsEmbed(playlists: SavedPlaylist[], ownerName: string, isOwner: boolean): EmbedBuilder {
+    const embed = new EmbedBuilder()
+        .setColor(COLORS.queued as `#${string}`)
+        .setAuthor({ name: `📁 ${isOwner ? 'Your Playlists' : `${ownerName}'s Public Playlists`}` })
+        .setTitle(`${playlists.length} playlist${playlists.length !== 1 ? 's' : ''}`);
+
+    if (playlists.length > 0) {
+        const listText = playlists.slice(0, 25).map((playlist, i) => {
+            const duration = playlist.tracks.reduce((sum, t) => sum + (t.lengthSeconds || 0), 0);
+            const visibility = isOwner ? (playlist.isPublic ? ' 🌐' : ' 🔒') : '';
+            return `\`${String(i + 1).padStart(2, '0')}.\` **${truncate(playlist.name, 40)}**${visibility}\n` +
+                `　　 🎵 ${playlist.tracks.length} tracks • ⏱️ ${fmtDur(duration)} • ▶️ ${playlist.playCount}`;
+        }).join('\n\n');
+
+        embed.setDescription(`${DECORATIONS.dotLine}\n\n${listText}\n\n${DECORATIONS.dotLine}`);
+    } else {
+        embed.setDescription(
+            `${DECORATIONS.dotLine}\n\n` +
+            (isOwner
+                ? `You have no saved playlists yet!\n\nUse /music playlist create to make one.\n\n`
+                : `${ownerName} has no public playlists.\n\n`) +
+            `${DECORATIONS.dotLine}`
+        );
+    }
+
+    embed.setFooter({ text: 'Use /music playlist view <name> to see the tracks' });
+
+    return embed;
+}
+
+/**
+ * Create saved playlist detail embed
+ */
+export function createSavedPlaylistEmbed(playlist: SavedPlaylist, ownerName: string, page: number = 1, perPage: number = 10): EmbedBuilder {
+    const totalPages = Math.ceil(playlist.tracks.length / perPage) || 1;
+    const safePage = Math.min(Math.max(1, page), totalPages);
+    const start = (safePage - 1) * perPage;
+    const pageItems = playlist.tracks.slice(start, start + perPage);
+    const duration = playlist.tracks.reduce((sum, t) => sum + (t.lengthSeconds || 0), 0);
+
+    const embed = new EmbedBuilder()
+        .setColor(COLORS.queued as `#${string}`)
+        .setAuthor({ name: `📁 ${ownerName}'s Playlist ${playlist.isPublic ? '🌐' : '🔒'}` })
+        .setTitle(truncate(playlist.name, 100));
+
+    if (pageItems.length > 0) {
+        const trackText = pageItems.map((item, i) => {
+            const position = start + i + 1;
+            return `\`${String(position).padStart(2, '0')}.\` **[${truncate(item.title, 40)}](${item.url})** \`${fmtDur(item.lengthSeconds)}\``;
+        }).join('\n');
+
+        embed.setDescription(`${DECORATIONS.dotLine}\n\n${trackText}\n\n${DECORATIONS.dotLine}`);
+    } else {
+        embed.setDescription(
+            `${DECORATIONS.dotLine}\n\n` +
+            `This playlist is empty.\n\n` +
+            `Use /music playlist add to save the current track.\n\n` +
+            `${DECORATIONS.dotLine}`
+        );
+    }
+
+    embed.setFooter({
+        text: `Page ${safePage}/${totalPages} • ${playlist.tracks.length} tracks • ${fmtDur(duration)} • Played ${playlist.playCount}×`
+    });
+
+    return embed;
+}
+
+/** Lavalink equalizer band centre frequencies, in band order */
+const EQ_BAND_LABELS = ['25', '40', '63', '100', '160', '250', '400', '630', '1k', '1.6k', '2.5k', '4k', '6.3k', '10k', '16k'];
+
+/**
+ * Create audio filters embed with an equalizer overview
+ */
+export function createFiltersEmbed(state: FilterState, title: string = '🎛️ Audio Filters'): EmbedBuilder {
+    // Gains range from -0.25 to 1.0; show boosts and cuts on a 0-8 block scale
+    const eqText = state.equalizer.map((gain, band) => {
+        const blocks = Math.round(Math.abs(gain) * 8);
+        const bar = gain >= 0 ? '█'.repeat(blocks).padEnd(8, '░') : '▒'.repeat(Math.max(1, blocks)).padEnd(8, '░');
+        const sign = gain > 0 ? '+' : '';
+        return `${String(band + 1).padStart(2)} ${EQ_BAND_LABELS[band].padStart(4)}Hz ${bar} ${sign}${gain.toFixed(2)}`;
+    }).join('\n');
+
+    return new EmbedBuilder()
+        .setColor(COLORS.info as `#${string}`)
+        .setTitle(title)
+        .setDescription(describeFilters(state) || 'No filters active')
+        .addFields(
+            { name: '⏩ Speed', value: `${state.timescale.speed}x`, inline: true },
+            { name: '🎚️ Pitch', value: `${state.timescale.pitch}x`, inline: true },
+            { name: '📊 Equalizer', value: `\`\`\`\n${eqText}\n\`\`\``, inline: false }
+        )
+        .setFooter({ text: 'Use /music filter band:<1-15> gain:<-0.25 to 1> to edit the EQ' });
+}
+
+/**
+ * Split lyrics into embed-sized pages
+ */
+export function getLyricsPages(lyrics: LyricsResult): string[] {
+    const lines = (lyrics.plain || '').split('\n');
+    const pages: string[] = [];
+    let current: string[] = [];
+    let length = 0;
+
+    for (const line of lines) {
+        if (current.length >= lyricsConfig.linesPerPage || length + line.length + 1 > lyricsConfig.maxPageLength) {
+            pages.push(current.join('\n'));
+            current = [];
+            length = 0;
+        }
+        current.push(line);
+        length += line.length + 1;
+    }
+    if (current.some(line => line.trim())) pages.push(current.join('\n'));
+
+    return pages.length > 0 ? pages : [''];
+}
+
+/**
+ * Create paged lyrics embed
+ */
+export function createLyricsEmbed(track: Track, lyrics: LyricsResult, page: number = 1): EmbedBuilder {
+    const pages = getLyricsPages(lyrics);
+    const safePage = Math.min(Math.max(1, page), pages.length);
+    const text = lyrics.instrumental ? '🎼 *This track is instrumental.*' : pages[safePage - 1].trim() || '*No lyrics text available.*';
+
+    const embed = new EmbedBuilder()
+        .setColor(COLORS.info as `#${string}`)
+        .setAuthor({ name: '📝 Lyrics' })
+        .setTitle(truncate(`${lyrics.trackName} — ${lyrics.artistName}`, 250))
+        .setURL(track.url)
+        .setDescription(text)
+        .setFooter({
+            text: `Page ${safePage}/${pages.length} • ${lyrics.synced ? 'Synced' : 'Plain'} lyrics from ${lyrics.source}`
+        });
+
+    if (track.thumbnail) {
+        embed.setThumbnail(track.thumbnail);
+    }
+
+    return embed;
+}
+
+/**
+ * Create live lyrics embed centred on the active line
+ * @param index - Active line index, -1 before the first line
+ */
+export function createLiveLyricsEmbed(track: Track, lyrics: LyricsResult, index: number): EmbedBuilder {
+    const lines = lyrics.synced || [];
+    const { before, after } = lyricsConfig.liveContext;
+    const start = Math.max(0, index - before);
+    const end = Math.min(lines.length, Math.max(index, 0) + after + 1);
+
+    const text = lines.slice(start, end).map((line, i) => {
+        const content = line.text || '♪';
+        return start + i === index ? `**▶ ${content}**` : content;
+    }).join('\n');
+
+    const embed = new EmbedBuilder()
+        .setColor(COLORS.playing as `#${string}`)
+        .setAuthor({ name: '🔴 Live Lyrics' })
+        .setTitle(truncate(`${lyrics.trackName} — ${lyrics.artistName}`, 250))
+        .setURL(track.url)
+        .setDescription(index < 0 ? `*♪ Intro ♪*\n${text}` : text || '♪')
+        .setFooter({ text: `Synced lyrics from ${lyrics.source}` });
+
+    if (track.thumbnail) {
+        embed.setThumbnail(track.thumbnail);
+    }
+
+    return embed;
+}
+
 /**
  * Create long video confirmation embed
  */
@@ -551,3 +803,330 @@ export function createLongVideoConfirmEmbed(track: Track, maxDuration: number):
     return embed;
 }
 
+
+/**
+ * Source, duration and uploader of a search result, e.g. "☁️ SoundCloud • 3:45 • Artist"
+ */
+export function describeSearchResult(track: Track): string {
+    const source = getSourceInfo(track);
+    const duration = track.isStream || track.lengthSeconds <= 0 ? 'LIVE' : fmtDur(track.lengthSeconds);
+    return `${source.emoji} ${source.name} • ${duration} • ${track.author || 'Unknown'}`;
+}
+
+/**
+ * Autocomplete choice label for a search result, kept within Discord's 100 characters
+ */
+export function formatSearchChoice(track: Track): string {
+    const details = describeSearchResult(track);
+    const room = Math.max(20, 100 - details.length - 3);
+    return `${truncate(track.title, room)} — ${details}`.slice(0, 100);
+}
+
+/**
+ * Create /music play pick:true result list
+ */
+export function createSearchResultsEmbed(query: string, tracks: Track[], expiresInSeconds: number): EmbedBuilder {
+    const list = tracks.map((track, i) =>
+        `\`${i + 1}.\` **[${truncate(track.title, 60)}](${track.url})**\n　　 ${describeSearchResult(track)}`
+    ).join('\n\n');
+
+    const embed = new EmbedBuilder()
+        .setColor(COLORS.info as `#${string}`)
+        .setAuthor({ name: '🔎 Search Results' })
+        .setTitle(truncate(query, 100))
+        .setDescription(list)
+        .setFooter({ text: `Pick a result below • Expires in ${expiresInSeconds}s` });
+
+    if (tracks[0]?.thumbnail) {
+        embed.setThumbnail(tracks[0].thumbnail);
+    }
+
+    return embed;
+}
+
+/**
+ * Create the idle song request panel shown while nothing is playing
+ */
+export function createRequestPanelIdleEmbed(): EmbedBuilder {
+    return new EmbedBuilder()
+        .setColor(COLORS.info as `#${string}`)
+        .setAuthor({ name: '🎶 Song Requests' })
+        .setTitle('Nothing is playing')
+        .setDescription(
+            `${DECORATIONS.dotLine}\n\n` +
+            'Type a song name or paste a link in this channel to play it.\n' +
+            'Playlist links are imported too.\n\n' +
+            'Join a voice channel first — your message is removed once it is handled.\n\n' +
+            `${DECORATIONS.dotLine}`
+        )
+        .setFooter({ text: 'The queue and controls show up here while music plays' });
+}
+
+/**
+ * Create the "resume where you left off?" prompt sent after a restart
+ */
+export function createResumePromptEmbed(snapshot: QueueSnapshot, expiresInMinutes: number): EmbedBuilder {
+    const current = snapshot.currentTrack;
+    const upNext = snapshot.tracks.length;
+
+    const embed = new EmbedBuilder()
+        .setColor(COLORS.info as `#${string}`)
+        .setAuthor({ name: '🔄 Resume Listening Session' })
+        .setDescription(
+            'The bot restarted while music was playing here.\n\n' +
+            (current
+                ? `**Was playing:** [${truncate(current.title, 60)}](${current.url}) at \`${fmtDur(Math.floor(snapshot.positionMs / 1000))}\`\n`
+                : '') +
+            `**Up next:** ${upNext} track${upNext === 1 ? '' : 's'}\n` +
+            `**Voice channel:** <#${snapshot.voiceChannelId}>`
+        )
+        .setFooter({ text: `Saved ${timeAgo(snapshot.updatedAt)} • This prompt expires in ${expiresInMinutes} minutes` });
+
+    if (current?.thumbnail) {
+        embed.setThumbnail(current.thumbnail);
+    }
+
+    return embed;
+}
+
+const IMPORT_FAILURE_LABELS: Record<ImportFailureReason, string> = {
+    no_match: 'no match found',
+    unplayable: 'not playable',
+    invalid: 'link not allowed',
+    queue_full: 'queue full',
+    error: 'lookup failed'
+};
+
+const IMPORT_STATUS_DISPLAY: Record<PlaylistImportJob['status'], { title: string; color: string }> = {
+    running: { title: '📥 Importing Playlist', color: COLORS.info },
+    completed: { title: '✅ Playlist Imported', color: COLORS.success },
+    cancelled: { title: '⏹️ Playlist Import Cancelled', color: COLORS.warning },
+    failed: { title: '❌ Playlist Import Failed', color: COLORS.error }
+};
+
+/**
+ * Failure lines for the "Not imported" field of an import summary
+ */
+function formatImportFailures(failures: PlaylistImportFailure[], shownCount: number): string {
+    const shown = failures.slice(0, shownCount);
+    const lines = shown.map(f => `\`#${f.index}\` ${truncate(f.title, 40)} — ${IMPORT_FAILURE_LABELS[f.reason]}`);
+    const hidden = failures.length - shown.length;
+    if (hidden > 0) lines.push(`...and ${hidden} more (see the attached report)`);
+    return lines.join('\n').substring(0, 1024);
+}
+
+/**
+ * Create playlist import embed: live progress while running, summary with failures once done
+ */
+export function createPlaylistImportEmbed(job: PlaylistImportJob): EmbedBuilder {
+    const total = job.entries.length;
+    const display = IMPORT_STATUS_DISPLAY[job.status];
+
+    const embed = new EmbedBuilder()
+        .setColor(display.color as `#${string}`)
+        .setAuthor({ name: display.title })
+        .setTitle(truncate(job.playlistName, 100))
+        .setDescription(
+            `${createProgressBar(job.cursor, Math.max(total, 1))}\n` +
+            `**Processed:** ${job.cursor}/${total}\n` +
+            `**Added:** ${job.added} • **Failed:** ${job.failures.length}` +
+            (job.truncated > 0 ? `\n**Skipped:** ${job.truncated} over this server's limit of ${total} tracks` : '')
+        )
+        .setFooter({ text: `Requested by ${job.userName || 'Unknown'}` })
+        .setTimestamp();
+
+    if (job.status !== 'running' && job.failures.length > 0) {
+        embed.addFields({ name: 'Not imported', value: formatImportFailures(job.failures, importConfig.failuresShown) });
+    }
+
+    return embed;
+}
+
+/**
+ * Plain-text list of every entry that could not be imported, for the report attachment
+ */
+export function createImportFailureReport(job: PlaylistImportJob): string {
+    const lines = [
+        `Playlist: ${job.playlistName}`,
+        `Source: ${job.url}`,
+        `Added ${job.added} of ${job.entries.length} tracks, ${job.failures.length} not imported`,
+        ''
+    ];
+
+    for (const f of job.failures) {
+        const detail = f.detail ? ` (${f.detail})` : '';
+        lines.push(`#${f.index}\t${f.title}${f.author ? ` - ${f.author}` : ''}\t${IMPORT_FAILURE_LABELS[f.reason]}${detail}`);
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * Create queue file import summary embed
+ */
+export function createQueueFileImportEmbed(result: QueueFileImportResult, fileName: string, user: User): EmbedBuilder {
+    const embed = new EmbedBuilder()
+        .setColor((result.added > 0 ? COLORS.success : COLORS.error) as `#${string}`)
+        .setAuthor({ name: result.added > 0 ? '📂 Queue Imported' : '❌ Queue Import Failed' })
+        .setTitle(truncate(fileName, 100))
+        .setDescription(
+            `**Added:** ${result.added}/${result.total} • **Failed:** ${result.failures.length}` +
+            (result.truncated > 0 ? `\n**Skipped:** ${result.truncated} over the limit of ${queueFileConfig.maxEntries} entries per file` : '')
+        )
+        .setFooter({ text: `Imported by ${user.displayName || user.username}` })
+        .setTimestamp();
+
+    if (result.failures.length > 0) {
+        embed.addFields({ name: 'Not imported', value: formatImportFailures(result.failures, queueFileConfig.failuresShown) });
+    }
+
+    return embed;
+}
+
+/**
+ * Plain-text list of every queue file entry that could not be imported
+ */
+export function createQueueFileFailureReport(result: QueueFileImportResult, fileName: string): string {
+    const lines = [
+        `File: ${fileName}`,
+        `Added ${result.added} of ${result.total} entries, ${result.failures.length} not imported`,
+        ''
+    ];
+
+    for (const f of result.failures) {
+        const detail = f.detail ? ` (${f.detail})` : '';
+        lines.push(`#${f.index}\t${f.title}${f.author ? ` - ${f.author}` : ''}\t${IMPORT_FAILURE_LABELS[f.reason]}${detail}`);
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * Create /music radio list embed
+ */
+export function createRadioStationsEmbed(stations: RadioStation[]): EmbedBuilder {
+    const embed = new EmbedBuilder()
+        .setColor(COLORS.info as `#${string}`)
+        .setAuthor({ name: '📻 Radio Stations' })
+        .setTitle(`${stations.length} station${stations.length !== 1 ? 's' : ''}`);
+
+    const listText = stations.map((station, i) =>
+        `\`${String(i + 1).padStart(2, '0')}.\` **${truncate(station.name, 50)}**${station.genre ? ` • ${truncate(station.genre, 30)}` : ''}`
+    ).join('\n');
+
+    embed.setDescription(listText || 'No stations yet. DJs can add one with `/music radio add`.');
+    embed.setFooter({ text: 'Tune in with /music radio play <station>' });
+
+    return embed;
+}
+
+const HOUR_BARS = '▁▂▃▄▅▆▇█';
+
+/**
+ * Format listening time as "3d 4h", "5h 12m" or "42m"
+ */
+function formatListenTime(seconds: number): string {
+    const minutes = Math.floor(seconds / 60);
+    const hours = Math.floor(minutes / 60);
+    const days = Math.floor(hours / 24);
+    if (days > 0) return `${days}d ${hours % 24}h`;
+    if (hours > 0) return `${hours}h ${minutes % 60}m`;
+    return `${minutes}m`;
+}
+
+/**
+ * One bar per hour of the day plus the three busiest hours
+ */
+function formatBusiestHours(hourly: number[]): string {
+    const max = Math.max(...hourly);
+    if (max === 0) return 'No plays yet';
+
+    const bars = hourly.map(n => HOUR_BARS[Math.min(HOUR_BARS.length - 1, Math.floor((n / max) * HOUR_BARS.length))]).join('');
+    const busiest = hourly
+        .map((plays, hour) => ({ hour, plays }))
+        .filter(h => h.plays > 0)
+        .sort((a, b) => b.plays - a.plays)
+        .slice(0, 3)
+        .map(h => `\`${String(h.hour).padStart(2, '0')}:00\` (${h.plays})`);
+
+    return `\`${bars}\`\n\`00    06    12    18  23\`\n${busiest.join(' • ')}`;
+}
+
+/**
+ * Top tracks, artists, requesters and busiest hours shared by the stats embeds
+ */
+function addStatsFields(embed: EmbedBuilder, summary: MusicStatsSummary, showRequesters: boolean): void {
+    const tracks = summary.topTracks.map((t, i) =>
+        `\`${i + 1}.\` [${truncate(t.title, 40)}](${t.url}) — ${t.plays} play${t.plays === 1 ? '' : 's'}`);
+    const artists = summary.topArtists.map((a, i) =>
+        `\`${i + 1}.\` ${truncate(a.author, 40)} — ${a.plays} play${a.plays === 1 ? '' : 's'}`);
+
+    embed.addFields(
+        { name: '🎵 Top Tracks', value: tracks.join('\n').substring(0, 1024) || 'None' },
+        { name: '🎤 Top Artists', value: artists.join('\n').substring(0, 1024) || 'None' }
+    );
+
+    if (showRequesters && summary.topRequesters.length > 0) {
+        const requesters = summary.topRequesters.map((r, i) =>
+            `\`${i + 1}.\` <@${r.userId}> — ${r.plays} play${r.plays === 1 ? '' : 's'} • ${formatListenTime(r.listenedSeconds)}`);
+        embed.addFields({ name: '🙋 Most Active Requesters', value: requesters.join('\n').substring(0, 1024) });
+    }
+
+    embed.addFields({ name: '🕐 Busiest Hours (UTC)', value: formatBusiestHours(summary.hourly) });
+}
+
+/**
+ * Create /music stats embed for a server or a single member
+ */
+export function createMusicStatsEmbed(report: MusicStatsReport, subjectName: string): EmbedBuilder {
+    const { summary } = report;
+    const isUser = !!report.filter.userId;
+
+    const embed = new EmbedBuilder()
+        .setColor(COLORS.info as `#${string}`)
+        .setAuthor({ name: `📊 Music Stats — ${report.label}` })
+        .setTitle(truncate(subjectName, 100))
+        .setTimestamp();
+
+    if (summary.plays === 0) {
+        return embed.setDescription(
+            isUser
+                ? 'This member did not request or listen to anything in this period.'
+                : 'Nothing has been played in this server in this period.'
+        );
+    }
+
+    embed.setDescription(
+        `**Plays:** ${summary.plays} • **Unique tracks:** ${summary.uniqueTracks}\n` +
+        `**Listening time:** ${formatListenTime(summary.listenedSeconds)}` +
+        (isUser ? '' : `\n**Listeners:** ${summary.listeners} • **Requesters:** ${summary.requesters}`)
+    );
+    addStatsFields(embed, summary, !isUser);
+
+    return embed;
+}
+
+/**
+ * Create the monthly "wrapped" summary posted to the stats report channel
+ */
+export function createMonthlyStatsEmbed(report: MusicStatsReport, guildName: string): EmbedBuilder {
+    const { summary } = report;
+    const top = summary.topTracks[0];
+
+    const embed = new EmbedBuilder()
+        .setColor(COLORS.success as `#${string}`)
+        .setAuthor({ name: `🎁 ${guildName} — ${report.label} Wrapped` })
+        .setDescription(
+            `This server played **${summary.plays}** tracks (${summary.uniqueTracks} different ones) ` +
+            `for **${formatListenTime(summary.listenedSeconds)}** to ${summary.listeners} ` +
+            `listener${summary.listeners === 1 ? '' : 's'}, requested by ${summary.requesters} ` +
+            `member${summary.requesters === 1 ? '' : 's'}.` +
+            (top ? `\n\n🏆 **Track of the month:** [${truncate(top.title, 60)}](${top.url})` : '')
+        )
+        .setFooter({ text: 'Use /music stats to see more' })
+        .setTimestamp();
+
+    addStatsFields(embed, summary, true);
+
+    return embed;
+}
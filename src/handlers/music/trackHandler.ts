@@ -20,6 +20,15 @@ import type {
     QueueListOptions,
     InfoEmbedType,
 } from './trackTypes.js';
+import type { SavedPlaylist } from '../../types/music/playlist.js';
+import type { FilterState } from '../../types/music/filters.js';
+import type { LyricsResult } from '../../types/music/lyrics.js';
+import type { QueueSnapshot } from '../../types/music/queue-snapshot.js';
+import type { PlaylistImportJob } from '../../types/music/playlist-import.js';
+import type { QueueFileImportResult } from '../../types/music/queue-file.js';
+import type { RadioStation } from '../../types/music/radio.js';
+import type { ActionVoteTarget, VoteAction } from '../../types/music/vote.js';
+import type { MusicStatsReport } from '../../types/music/stats.js';
 
 // Import all functions from split modules
 import * as embeds from './trackEmbeds.js';
@@ -50,6 +59,9 @@ class TrackHandler {
     createSkipVoteEmbed(track: Track | null, currentVotes: number, requiredVotes: number, timeRemaining?: number) {
         return embeds.createSkipVoteEmbed(track, currentVotes, requiredVotes, timeRemaining);
     }
+    createActionVoteEmbed(action: Exclude<VoteAction, 'skip'>, target: ActionVoteTarget | null, currentVotes: number, requiredVotes: number, timeRemaining?: number) {
+        return embeds.createActionVoteEmbed(action, target, currentVotes, requiredVotes, timeRemaining);
+    }
     createInfoEmbed(title: string, description: string, type?: InfoEmbedType) {
         return embeds.createInfoEmbed(title, description, type);
     }
@@ -81,9 +93,57 @@ class TrackHandler {
     createHistoryEmbed(history: Track[], userId: string, page?: number, perPage?: number) {
         return embeds.createHistoryEmbed(history, userId, page, perPage);
     }
+    createSavedPlaylistsEmbed(playlists: SavedPlaylist[], ownerName: string, isOwner: boolean) {
+        return embeds.createSavedPlaylistsEmbed(playlists, ownerName, isOwner);
+    }
+    createSavedPlaylistEmbed(playlist: SavedPlaylist, ownerName: string, page?: number, perPage?: number) {
+        return embeds.createSavedPlaylistEmbed(playlist, ownerName, page, perPage);
+    }
+    createLyricsEmbed(track: Track, lyrics: LyricsResult, page?: number) {
+        return embeds.createLyricsEmbed(track, lyrics, page);
+    }
+    createLiveLyricsEmbed(track: Track, lyrics: LyricsResult, index: number) {
+        return embeds.createLiveLyricsEmbed(track, lyrics, index);
+    }
+    getLyricsPages(lyrics: LyricsResult) {
+        return embeds.getLyricsPages(lyrics);
+    }
+    createFiltersEmbed(state: FilterState, title?: string) {
+        return embeds.createFiltersEmbed(state, title);
+    }
     createLongVideoConfirmEmbed(track: Track, maxDuration: number) {
         return embeds.createLongVideoConfirmEmbed(track, maxDuration);
     }
+    createResumePromptEmbed(snapshot: QueueSnapshot, expiresInMinutes: number) {
+        return embeds.createResumePromptEmbed(snapshot, expiresInMinutes);
+    }
+    createPlaylistImportEmbed(job: PlaylistImportJob) {
+        return embeds.createPlaylistImportEmbed(job);
+    }
+    createImportFailureReport(job: PlaylistImportJob) {
+        return embeds.createImportFailureReport(job);
+    }
+    createQueueFileImportEmbed(result: QueueFileImportResult, fileName: string, user: User) {
+        return embeds.createQueueFileImportEmbed(result, fileName, user);
+    }
+    createQueueFileFailureReport(result: QueueFileImportResult, fileName: string) {
+        return embeds.createQueueFileFailureReport(result, fileName);
+    }
+    createRadioStationsEmbed(stations: RadioStation[]) {
+        return embeds.createRadioStationsEmbed(stations);
+    }
+    createSearchResultsEmbed(query: string, tracks: Track[], expiresInSeconds: number) {
+        return embeds.createSearchResultsEmbed(query, tracks, expiresInSeconds);
+    }
+    formatSearchChoice(track: Track) {
+        return embeds.formatSearchChoice(track);
+    }
+    createMusicStatsEmbed(report: MusicStatsReport, subjectName: string) {
+        return embeds.createMusicStatsEmbed(report, subjectName);
+    }
+    createMonthlyStatsEmbed(report: MusicStatsReport, guildName: string) {
+        return embeds.createMonthlyStatsEmbed(report, guildName);
+    }
 
     // ─── Buttons / Components ───────────────────────────────
     createControlButtons(guildId: string, options?: ControlButtonsOptions) {
@@ -92,12 +152,30 @@ class TrackHandler {
     createQueuePaginationButtons(guildId: string, currentPage: number, totalPages: number) {
         return buttons.createQueuePaginationButtons(guildId, currentPage, totalPages);
     }
+    createLyricsButtons(guildId: string, currentPage: number, totalPages: number, canGoLive: boolean) {
+        return buttons.createLyricsButtons(guildId, currentPage, totalPages, canGoLive);
+    }
+    createLiveLyricsButtons(guildId: string) {
+        return buttons.createLiveLyricsButtons(guildId);
+    }
     createSkipVoteButton(guildId: string, currentVotes: number, requiredVotes: number) {
         return buttons.createSkipVoteButton(guildId, currentVotes, requiredVotes);
     }
+    createActionVoteButton(guildId: string, action: Exclude<VoteAction, 'skip'>, currentVotes: number, requiredVotes: number) {
+        return buttons.createActionVoteButton(guildId, action, currentVotes, requiredVotes);
+    }
     createConfirmButtons(guildId: string, action: string) {
         return buttons.createConfirmButtons(guildId, action);
     }
+    createResumeButtons(guildId: string) {
+        return buttons.createResumeButtons(guildId);
+    }
+    createImportCancelButton(guildId: string, jobId: string) {
+        return buttons.createImportCancelButton(guildId, jobId);
+    }
+    createSearchPickMenu(pickId: string, tracks: Track[]) {
+        return buttons.createSearchPickMenu(pickId, tracks);
+    }
     disableButtons(rows: ActionRowBuilder<ButtonBuilder>[]) {
         return buttons.disableButtons(rows);
     }
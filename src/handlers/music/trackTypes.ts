@@ -51,6 +51,7 @@ export const SOURCE_PLATFORM: Record<SourcePlatform, SourceInfo> = {
     youtube: { emoji: '☁️', name: 'SoundCloud', color: '#FF5500' },
     soundcloud: { emoji: '☁️', name: 'SoundCloud', color: '#FF5500' },
     spotify: { emoji: '🟢', name: 'Spotify', color: '#1DB954' },
+    http: { emoji: '📻', name: 'Direct Stream', color: '#E67E22' },
     unknown: { emoji: '🎵', name: 'Music', color: COLORS.info }
 };
 
@@ -0,0 +1,240 @@
+/**
+ * Vote Handler
+ * Vote flow for stop, clear, shuffle and remove: starts or joins the guild's vote,
+ * keeps the vote message's progress button live and runs the action once it passes.
+ * Skip keeps its own flow in controlHandler/buttonHandler.
+ * @module handlers/music/voteHandler
+ */
+
+import { ButtonInteraction, EmbedBuilder, Message, TextChannel } from 'discord.js';
+import { trackHandler } from './trackHandler.js';
+import musicCache from '../../cache/music/MusicCacheFacade.js';
+import { checkMusicPermission } from '../../middleware/musicPermissionCheck.js';
+import { music } from '../../config/index.js';
+import { musicFacade as musicService } from '../../services/music/core/musicFacade.js';
+import logger from '../../core/observability/Logger.js';
+import type { Track } from '../../types/music/track.js';
+import type { MusicInteraction } from '../../types/middleware/voice-channel-check.js';
+import type { MusicPermissionResult } from '../../types/music/permissions.js';
+import type { ActionVoteTarget, VoteAction } from '../../types/music/vote.js';
+import type { ActionVoteSession } from '../../types/cache/music/vote-cache.js';
+
+type ActionVote = Exclude<VoteAction, 'skip'>;
+
+const { minVotesRequired: MIN_VOTES_REQUIRED = 5 } = music.voting || {};
+
+async function resolveVoteMessage(interaction: MusicInteraction, session: ActionVoteSession): Promise<Message | null> {
+    const ref = session.message;
+    if (!ref) return null;
+
+    if (interaction instanceof ButtonInteraction && interaction.message.id === ref.messageId) {
+        return interaction.message as Message;
+    }
+
+    const fetchedChannel = await interaction.client.channels.fetch(ref.channelId).catch(() => null);
+    if (!fetchedChannel || !('messages' in fetchedChannel)) return null;
+
+    return await (fetchedChannel as TextChannel).messages.fetch(ref.messageId).catch(() => null);
+}
+
+/**
+ * Which queued track a remove vote is about; found again by URL when the queue shifted
+ */
+function findTargetIndex(tracks: Track[], target: ActionVoteTarget): number {
+    const expected = tracks[target.position - 1];
+    if (expected && expected.url === target.url) return target.position - 1;
+    return tracks.findIndex(track => track.url === target.url);
+}
+
+export const voteHandler = {
+    /**
+     * Put the action to a vote when the member may only act through one
+     * @returns true when the caller should run the action itself
+     */
+    async gate(
+        interaction: MusicInteraction,
+        guildId: string,
+        action: ActionVote,
+        permission: MusicPermissionResult,
+        target: ActionVoteTarget | null = null
+    ): Promise<boolean> {
+        const listenerCount = musicService.getListenerCount(guildId, interaction.guild);
+
+        if (!permission.vote || listenerCount < MIN_VOTES_REQUIRED) {
+            // DJs and requesters settle a running vote by acting directly
+            await this._closeRunningVote(interaction, guildId, action);
+            return true;
+        }
+
+        await this.castVote(interaction, guildId, action, listenerCount, target);
+        return false;
+    },
+
+    async castVote(
+        interaction: MusicInteraction,
+        guildId: string,
+        action: ActionVote,
+        listenerCount: number,
+        target: ActionVoteTarget | null
+    ): Promise<void> {
+        const running = musicService.getActionVote(guildId, action);
+        if (running) {
+            if (action === 'remove' && running.target?.url !== target?.url) {
+                await interaction.reply({
+                    content: `❌ A vote to remove **${running.target?.title || 'a track'}** is already running. Try again once it ends.`,
+                    ephemeral: true
+                });
+                return;
+            }
+            return await this._addVote(interaction, guildId, action);
+        }
+
+        const vote = await musicService.startActionVote(guildId, action, interaction.user.id, listenerCount, target);
+
+        // A low threshold in a small channel can be met by the starter alone
+        if (musicService.hasEnoughActionVotes(guildId, action)) {
+            await interaction.reply({ embeds: [await this._pass(guildId, action)] });
+            return;
+        }
+
+        const session = musicService.getActionVote(guildId, action)!;
+        const remainingMs = session.expiresAt - Date.now();
+
+        const response = await interaction.reply({
+            embeds: [trackHandler.createActionVoteEmbed(action, target, vote.voteCount, vote.required, remainingMs)],
+            components: [trackHandler.createActionVoteButton(guildId, action, vote.voteCount, vote.required)],
+            withResponse: true
+        });
+        const message = response?.resource?.message || await interaction.fetchReply();
+        musicCache.setActionVoteMessage(guildId, action, message);
+
+        const voteTimeout = setTimeout(async () => {
+            try {
+                musicService.endActionVote(guildId, action);
+                await message.edit({
+                    embeds: [trackHandler.createInfoEmbed('⏱️ Vote Expired', 'Not enough votes.', 'warning')],
+                    components: []
+                }).catch(() => {});
+            } catch (error) {
+                logger.error('MusicVote', `Error in ${action} vote timeout: ${(error as Error).message}`);
+            }
+        }, remainingMs);
+        musicCache.setActionVoteTimeout(guildId, action, voteTimeout);
+    },
+
+    /**
+     * Vote button on the vote message (music_vote:guildId:action)
+     */
+    async handleButtonVote(interaction: ButtonInteraction, guildId: string, action: ActionVote): Promise<void> {
+        const session = musicService.getActionVote(guildId, action);
+        if (!session) {
+            await interaction.reply({ content: '⏱️ This vote has already ended.', ephemeral: true });
+            return;
+        }
+
+        const requesterId = action === 'remove' ? session.target?.requesterId ?? null : undefined;
+        const permission = await checkMusicPermission(interaction, guildId, action, requesterId);
+        if (!permission) return;
+
+        if (!permission.vote) {
+            await interaction.update({ embeds: [await this._pass(guildId, action)], components: [] });
+            return;
+        }
+
+        await this._addVote(interaction, guildId, action);
+    },
+
+    async _addVote(interaction: MusicInteraction, guildId: string, action: ActionVote): Promise<void> {
+        const result = musicService.addActionVote(guildId, action, interaction.user.id);
+        if (!result) {
+            await interaction.reply({ content: '⏱️ This vote has already ended.', ephemeral: true });
+            return;
+        }
+        if (!result.added) {
+            await interaction.reply({ content: '❌ You already voted!', ephemeral: true });
+            return;
+        }
+
+        const session = musicService.getActionVote(guildId, action)!;
+        const voteMessage = await resolveVoteMessage(interaction, session);
+        const onVoteMessage = interaction instanceof ButtonInteraction && interaction.message.id === voteMessage?.id;
+
+        if (musicService.hasEnoughActionVotes(guildId, action)) {
+            const outcome = await this._pass(guildId, action);
+            if (onVoteMessage) {
+                await (interaction as ButtonInteraction).update({ embeds: [outcome], components: [] });
+                return;
+            }
+            await voteMessage?.edit({ embeds: [outcome], components: [] }).catch(() => {});
+            await interaction.reply({ embeds: [outcome] });
+            return;
+        }
+
+        const remainingMs = Math.max(0, session.expiresAt - Date.now());
+        const progress = {
+            embeds: [trackHandler.createActionVoteEmbed(action, session.target, session.votes.size, session.required, remainingMs)],
+            components: [trackHandler.createActionVoteButton(guildId, action, session.votes.size, session.required)]
+        };
+
+        if (onVoteMessage) {
+            await (interaction as ButtonInteraction).update(progress);
+            return;
+        }
+
+        await voteMessage?.edit(progress).catch(() => {});
+        await interaction.reply({
+            content: `🗳️ Vote added! **${session.votes.size}/${session.required}** votes`,
+            ephemeral: true
+        });
+    },
+
+    /**
+     * End the vote and run the action
+     */
+    async _pass(guildId: string, action: ActionVote): Promise<EmbedBuilder> {
+        const session = musicService.getActionVote(guildId, action);
+        musicService.endActionVote(guildId, action);
+
+        switch (action) {
+            case 'stop':
+                await musicService.cleanup(guildId);
+                return trackHandler.createInfoEmbed('⏹️ Stopped', 'The vote passed. Stopped playback and left the channel.', 'success');
+            case 'clear': {
+                const cleared = musicService.getQueueLength(guildId) as number;
+                musicService.clearQueue(guildId);
+                return trackHandler.createInfoEmbed('🗑️ Queue Cleared', `The vote passed. Removed **${cleared}** tracks from queue`, 'success');
+            }
+            case 'shuffle': {
+                const isShuffled = musicService.toggleShuffle(guildId);
+                return trackHandler.createInfoEmbed(
+                    '🔀 Shuffle',
+                    `The vote passed. ${isShuffled ? 'Queue shuffled!' : 'Queue restored to original order'}`,
+                    'success'
+                );
+            }
+            case 'remove': {
+                const tracks = musicService.getQueueList(guildId) as Track[];
+                const index = session?.target ? findTargetIndex(tracks, session.target) : -1;
+                if (index < 0) {
+                    return trackHandler.createInfoEmbed('🗑️ Nothing to Remove', 'The vote passed, but the track already left the queue.', 'warning');
+                }
+                const removed = musicService.removeTrack(guildId, index) as Track | null;
+                return trackHandler.createInfoEmbed('🗑️ Removed', `The vote passed. Removed: **${removed?.title || 'Unknown'}**`, 'success');
+            }
+        }
+    },
+
+    /**
+     * Drop a running vote whose action someone just ran directly
+     */
+    async _closeRunningVote(interaction: MusicInteraction, guildId: string, action: ActionVote): Promise<void> {
+        const session = musicService.getActionVote(guildId, action);
+        if (!session) return;
+
+        musicService.endActionVote(guildId, action);
+        const voteMessage = await resolveVoteMessage(interaction, session);
+        await voteMessage?.edit({ components: [] }).catch(() => {});
+    }
+};
+
+export default voteHandler;
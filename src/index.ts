@@ -22,6 +22,7 @@ import { registerServices } from './bootstrap/services.js';
 
 import { snipeService as SnipeService } from './services/index.js';
 import shardBridge from './services/guild/shardBridge.js';
+import moderationScheduler from './services/moderation/moderationScheduler.js';
 
 import type { CommandRegistry } from './services/registry/commandRegistry.js';
 import type { EventRegistry } from './services/registry/eventRegistry.js';
@@ -106,6 +107,9 @@ class ShoukakuBot {
                 const shardInfo = shardBridge.getShardInfo();
                 logger.info('Services', `ShardBridge initialized (shard ${shardInfo.shardId}/${shardInfo.totalShards})`);
 
+                moderationScheduler.start(this.client);
+                logger.info('Services', 'ModerationScheduler started');
+
                 if (bot.autoDeploy) {
                     await this.deployCommands();
                 }
@@ -11,6 +11,7 @@ import type {
 import { isServerAdmin } from './permissions.js';
 import { createErrorEmbed, createWarningEmbed } from './embeds';
 import { isBlockedHost } from './urlValidator.js';
+import { hasDJPermission } from '../services/guild/guildSettingsService.js';
 import type {
     AccessValidationResult,
     AccessCheckResult,
@@ -80,14 +81,11 @@ export async function checkAccess(interaction: AnyInteraction, accessType: Acces
     }
     
     if (accessType === AccessType.DJ) {
-        if (!isServerAdmin(member)) {
-            const djRole = member.roles.cache.find(r => r.name.toLowerCase() === 'dj');
-            if (!djRole) {
-                return {
-                    blocked: true,
-                    embed: createErrorEmbed('DJ Only', 'You need the DJ role or admin permissions.')
-                };
-            }
+        if (!member || !await hasDJPermission(member)) {
+            return {
+                blocked: true,
+                embed: createErrorEmbed('DJ Only', 'You need the DJ role or admin permissions.')
+            };
         }
         return { blocked: false };
     }
@@ -39,9 +39,13 @@ export {
     checkVoicePermissionsSync
 } from './voiceChannelCheck.js';
 
+// Re-export music permission checks
+export { checkMusicPermission } from './musicPermissionCheck.js';
+
 // Re-export URL validation
 export {
     validateUrl,
+    checkStreamUrl,
     isBlockedHost,
     BLOCKED_HOST_PATTERNS
 } from './urlValidator.js';
@@ -0,0 +1,51 @@
+/**
+ * Music Permission Middleware
+ * Enforces the guild's music permission policy (DJ role, DJ-only mode, per-action modes)
+ * the same way for slash commands, buttons and select menus
+ */
+
+import { MessageFlags } from 'discord.js';
+import type { GuildMember } from 'discord.js';
+import { musicFacade as musicService } from '../services/music/core/musicFacade.js';
+import type { Track } from '../types/music/track.js';
+import type { MusicInteraction } from '../types/middleware/voice-channel-check.js';
+import type { MusicAction, MusicPermissionResult } from '../types/music/permissions.js';
+
+/**
+ * Check a music action against the guild policy, replying with the reason when denied
+ * @param action - Protected action, or null for controls only gated by DJ-only mode
+ * @param requesterId - Requester of the affected track (defaults to the current track's)
+ * @returns The permission result, or null if the user was denied and already told why
+ */
+async function checkMusicPermission(
+    interaction: MusicInteraction,
+    guildId: string,
+    action: MusicAction | null,
+    requesterId?: string | null
+): Promise<MusicPermissionResult | null> {
+    const member = interaction.member as GuildMember;
+    const currentTrack = musicService.getCurrentTrack(guildId) as Track | null;
+
+    const result = await musicService.checkPermission(
+        member,
+        action,
+        requesterId !== undefined ? requesterId : currentTrack?.requestedBy?.id ?? null
+    );
+    if (result.allowed) return result;
+
+    const content = `❌ ${result.reason || 'You do not have permission to do that.'}`;
+    if (interaction.isChatInputCommand() && interaction.deferred && !interaction.replied) {
+        await interaction.editReply({ content }).catch(() => {});
+    } else if (interaction.replied || interaction.deferred) {
+        await interaction.followUp({ content, flags: MessageFlags.Ephemeral }).catch(() => {});
+    } else {
+        await interaction.reply({ content, flags: MessageFlags.Ephemeral }).catch(() => {});
+    }
+    return null;
+}
+
+export { checkMusicPermission };
+
+export default {
+    checkMusicPermission
+};
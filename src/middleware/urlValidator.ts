@@ -5,6 +5,7 @@
 
 import videoEmbedBuilder from '../utils/video/videoEmbedBuilder.js';
 import type { ChatInputCommandInteraction } from 'discord.js';
+import type { AccessValidationResult } from '../types/middleware/checks.js';
 // Constants
 /**
  * SSRF Protection - Blocked hostname patterns
@@ -116,15 +117,41 @@ async function validateUrl(interaction: ChatInputCommandInteraction, url: string
     
     return true;
 }
+/**
+ * Check a direct audio or stream URL before it is handed to Lavalink, which
+ * would otherwise fetch it from inside the network
+ */
+function checkStreamUrl(url: string): AccessValidationResult {
+    let parsedUrl: URL;
+    try {
+        parsedUrl = new URL(url);
+    } catch {
+        return { valid: false, error: 'The URL format is invalid.' };
+    }
+
+    if (!['http:', 'https:'].includes(parsedUrl.protocol)) {
+        return { valid: false, error: 'Only HTTP/HTTPS URLs are supported.' };
+    }
+    if (isBlockedHost(parsedUrl.hostname)) {
+        return { valid: false, error: 'This URL is not allowed for security reasons.' };
+    }
+    if (parsedUrl.username || parsedUrl.password) {
+        return { valid: false, error: 'URLs with credentials are not allowed.' };
+    }
+
+    return { valid: true };
+}
 // Exports
 export {
     validateUrl,
+    checkStreamUrl,
     isBlockedHost,
     BLOCKED_HOST_PATTERNS
 };
 
 export default {
     validateUrl,
+    checkStreamUrl,
     isBlockedHost,
     BLOCKED_HOST_PATTERNS
 };
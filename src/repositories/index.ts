@@ -7,9 +7,10 @@
 import * as api from './api/index.js';
 import * as moderation from './moderation/index.js';
 import * as general from './general/index.js';
+import * as music from './music/index.js';
 
 // Re-export all modules
-export { api, moderation, general };
+export { api, moderation, general, music };
 
 // Re-export individual repositories for convenience
 export { 
@@ -27,7 +28,12 @@ export {
     InfractionRepository, 
     AutoModRepository, 
     FilterRepository, 
-    ModLogRepository 
+    ModLogRepository,
+    ScheduledActionRepository,
+    BanAppealRepository,
+    ModNoteRepository,
+    NameHistoryRepository,
+    CaseRevisionRepository
 } from './moderation/index.js';
 
 export {
@@ -35,9 +41,21 @@ export {
     AfkRepository
 } from './general/index.js';
 
+export {
+    playlistRepository,
+    PlaylistRepository,
+    queueSnapshotRepository,
+    QueueSnapshotRepository,
+    playlistImportRepository,
+    PlaylistImportRepository,
+    musicStatsRepository,
+    MusicStatsRepository
+} from './music/index.js';
+
 // Default export
 export default {
     api,
     moderation,
-    general
+    general,
+    music
 };
@@ -59,6 +59,7 @@ async function update(guildId: string, updates: AutoModUpdateData): Promise<Auto
         'mention_enabled', 'mention_limit', 'mention_action',
         'caps_enabled', 'caps_percent', 'caps_percentage', 'caps_min_length', 'caps_action',
         'invites_enabled', 'invites_whitelist', 'invites_action',
+        'phishing_enabled', 'phishing_action', 'phishing_domains', 'phishing_lookalike', 'phishing_expand_links', 'phishing_block_files',
         'new_account_enabled', 'new_account_age_hours', 'new_account_action',
         'raid_enabled', 'raid_join_threshold', 'raid_window_ms', 'raid_action', 'raid_auto_unlock_ms',
         'ignored_channels', 'ignored_roles', 'log_channel_id',
@@ -0,0 +1,174 @@
+/**
+ * Ban Appeal Repository
+ * Database operations for ban appeals (mod_ban_appeals table)
+ */
+
+import db from '../../database/postgres.js';
+import type {
+    BanAppeal,
+    BanAppealCreateData,
+    BanAppealDecision,
+    BanAppealRecord
+} from '../../types/moderation/ban-appeal.js';
+
+function toAppeal(row: BanAppealRecord): BanAppeal {
+    return {
+        id: row.id,
+        guildId: row.guild_id,
+        userId: row.user_id,
+        caseId: row.case_id,
+        statement: row.statement,
+        status: row.status,
+        infoRequest: row.info_request,
+        infoResponse: row.info_response,
+        reviewerId: row.reviewer_id,
+        reviewNote: row.review_note,
+        resultCaseId: row.result_case_id,
+        staffChannelId: row.staff_channel_id,
+        staffMessageId: row.staff_message_id,
+        createdAt: new Date(row.created_at),
+        reviewedAt: row.reviewed_at ? new Date(row.reviewed_at) : null
+    };
+}
+// Repository Functions
+/**
+ * Create an appeal; resolves null when the case already has an open appeal
+ */
+async function create(data: BanAppealCreateData): Promise<BanAppeal | null> {
+    const result = await db.query<BanAppealRecord>(
+        `INSERT INTO mod_ban_appeals (guild_id, user_id, case_id, statement)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (guild_id, case_id) WHERE status IN ('pending', 'info_requested')
+         DO NOTHING
+         RETURNING *`,
+        [data.guildId, data.userId, data.caseId, data.statement]
+    );
+    return result.rows[0] ? toAppeal(result.rows[0]) : null;
+}
+
+/**
+ * Get an appeal by ID
+ */
+async function getById(id: number): Promise<BanAppeal | null> {
+    const row = await db.getOne<BanAppealRecord>(
+        'SELECT * FROM mod_ban_appeals WHERE id = $1',
+        [id]
+    );
+    return row ? toAppeal(row) : null;
+}
+
+/**
+ * Appeal history of a case, newest first
+ */
+async function getByCase(guildId: string, caseId: number): Promise<BanAppeal[]> {
+    const rows = await db.getMany<BanAppealRecord>(
+        `SELECT * FROM mod_ban_appeals
+         WHERE guild_id = $1 AND case_id = $2
+         ORDER BY created_at DESC`,
+        [guildId, caseId]
+    );
+    return rows.map(toAppeal);
+}
+
+/**
+ * Remember where the appeal was posted for staff
+ */
+async function setStaffMessage(id: number, channelId: string, messageId: string): Promise<void> {
+    await db.query(
+        'UPDATE mod_ban_appeals SET staff_channel_id = $2, staff_message_id = $3 WHERE id = $1',
+        [id, channelId, messageId]
+    );
+}
+
+/**
+ * Close an open appeal. Resolves null when it was already closed,
+ * so two moderators clicking at once can't both act on it.
+ */
+async function decide(id: number, status: BanAppealDecision, reviewerId: string, note: string | null): Promise<BanAppeal | null> {
+    const result = await db.query<BanAppealRecord>(
+        `UPDATE mod_ban_appeals
+         SET status = $2, reviewer_id = $3, review_note = $4, reviewed_at = NOW()
+         WHERE id = $1 AND status IN ('pending', 'info_requested')
+         RETURNING *`,
+        [id, status, reviewerId, note]
+    );
+    return result.rows[0] ? toAppeal(result.rows[0]) : null;
+}
+
+/**
+ * Ask the user for more information on a pending appeal
+ */
+async function requestInfo(id: number, reviewerId: string, question: string): Promise<BanAppeal | null> {
+    const result = await db.query<BanAppealRecord>(
+        `UPDATE mod_ban_appeals
+         SET status = 'info_requested', reviewer_id = $2, info_request = $3, info_response = NULL
+         WHERE id = $1 AND status = 'pending'
+         RETURNING *`,
+        [id, reviewerId, question]
+    );
+    return result.rows[0] ? toAppeal(result.rows[0]) : null;
+}
+
+/**
+ * Store the user's answer and put the appeal back up for review
+ */
+async function respond(id: number, response: string): Promise<BanAppeal | null> {
+    const result = await db.query<BanAppealRecord>(
+        `UPDATE mod_ban_appeals
+         SET status = 'pending', info_response = $2
+         WHERE id = $1 AND status = 'info_requested'
+         RETURNING *`,
+        [id, response]
+    );
+    return result.rows[0] ? toAppeal(result.rows[0]) : null;
+}
+
+/**
+ * Put a closed appeal back up for review, e.g. when the unban itself failed
+ */
+async function reopen(id: number): Promise<void> {
+    await db.query(
+        `UPDATE mod_ban_appeals
+         SET status = 'pending', reviewer_id = NULL, review_note = NULL, reviewed_at = NULL
+         WHERE id = $1`,
+        [id]
+    );
+}
+
+/**
+ * Link an accepted appeal to the unban case it produced
+ */
+async function setResultCase(id: number, caseId: number): Promise<void> {
+    await db.query(
+        'UPDATE mod_ban_appeals SET result_case_id = $2 WHERE id = $1',
+        [id, caseId]
+    );
+}
+
+// Export as module object
+const BanAppealRepository = {
+    create,
+    getById,
+    getByCase,
+    setStaffMessage,
+    decide,
+    requestInfo,
+    respond,
+    reopen,
+    setResultCase
+};
+
+export {
+    BanAppealRepository,
+    create,
+    getById,
+    getByCase,
+    setStaffMessage,
+    decide,
+    requestInfo,
+    respond,
+    reopen,
+    setResultCase
+};
+export { type BanAppeal, type BanAppealCreateData, type BanAppealDecision };
+export default BanAppealRepository;
@@ -0,0 +1,59 @@
+/**
+ * Case Revision Repository
+ * Database operations for case edit history (mod_case_revisions table)
+ */
+
+import db, { type TransactionClient } from '../../database/postgres.js';
+import type { CaseRevision, CaseRevisionCreateData, CaseRevisionRecord } from '../../types/moderation/case-revision.js';
+
+function toRevision(row: CaseRevisionRecord): CaseRevision {
+    return {
+        id: row.id,
+        guildId: row.guild_id,
+        caseId: row.case_id,
+        editorId: row.editor_id,
+        field: row.field,
+        oldValue: row.old_value,
+        newValue: row.new_value,
+        note: row.note,
+        createdAt: new Date(row.created_at)
+    };
+}
+// Repository Functions
+/**
+ * Store a revision inside the transaction that changed the case
+ */
+async function createInTransaction(client: TransactionClient, data: CaseRevisionCreateData): Promise<void> {
+    await client.query(
+        `INSERT INTO mod_case_revisions (guild_id, case_id, editor_id, field, old_value, new_value, note)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [data.guildId, data.caseId, data.editorId, data.field, data.oldValue, data.newValue, data.note ?? null]
+    );
+}
+
+/**
+ * Revision history of a case, oldest first
+ */
+async function getByCase(guildId: string, caseId: number): Promise<CaseRevision[]> {
+    const rows = await db.getMany<CaseRevisionRecord>(
+        `SELECT * FROM mod_case_revisions
+         WHERE guild_id = $1 AND case_id = $2
+         ORDER BY created_at ASC, id ASC`,
+        [guildId, caseId]
+    );
+    return rows.map(toRevision);
+}
+
+// Export as module object
+const CaseRevisionRepository = {
+    createInTransaction,
+    getByCase
+};
+
+export {
+    CaseRevisionRepository,
+    createInTransaction,
+    getByCase
+};
+export { type CaseRevision, type CaseRevisionCreateData };
+export default CaseRevisionRepository;
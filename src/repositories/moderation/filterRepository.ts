@@ -59,16 +59,17 @@ async function add(data: FilterAddData): Promise<WordFilter> {
         matchType = 'contains',
         action = 'delete_warn',
         severity = 1,
+        normalize = true,
         createdBy
     } = data;
     
     const result = await db.query(
-        `INSERT INTO word_filters (guild_id, pattern, match_type, action, severity, created_by)
-         VALUES ($1, $2, $3, $4, $5, $6)
+        `INSERT INTO word_filters (guild_id, pattern, match_type, action, severity, normalize, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
          ON CONFLICT (guild_id, pattern) DO UPDATE 
-         SET match_type = $3, action = $4, severity = $5
+         SET match_type = $3, action = $4, severity = $5, normalize = $6
          RETURNING *`,
-        [guildId, pattern, matchType, action, severity, createdBy]
+        [guildId, pattern, matchType, action, severity, normalize, createdBy]
     );
     
     return result.rows[0] as unknown as WordFilter;
@@ -81,8 +82,8 @@ async function addBulk(guildId: string, filters: FilterBulkItem[], createdBy: st
     if (!filters || filters.length === 0) return 0;
     
     const values = filters.map((_, i) => {
-        const offset = i * 6;
-        return `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6})`;
+        const offset = i * 7;
+        return `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6}, $${offset + 7})`;
     }).join(', ');
     
     const params = filters.flatMap(f => [
@@ -91,11 +92,12 @@ async function addBulk(guildId: string, filters: FilterBulkItem[], createdBy: st
         f.matchType || 'contains',
         f.action || 'delete_warn',
         f.severity || 1,
+        f.normalize ?? true,
         createdBy
     ]);
     
     const result = await db.query(
-        `INSERT INTO word_filters (guild_id, pattern, match_type, action, severity, created_by)
+        `INSERT INTO word_filters (guild_id, pattern, match_type, action, severity, normalize, created_by)
          VALUES ${values}
          ON CONFLICT (guild_id, pattern) DO NOTHING`,
         params
@@ -108,7 +110,7 @@ async function addBulk(guildId: string, filters: FilterBulkItem[], createdBy: st
  * Update a filter
  */
 async function update(id: number, updates: FilterUpdateData): Promise<WordFilter | null> {
-    const allowedFields = ['pattern', 'match_type', 'action', 'severity'];
+    const allowedFields = ['pattern', 'match_type', 'action', 'severity', 'normalize'];
     const setClauses: string[] = [];
     const params: any[] = [id];
     let paramIndex = 2;
@@ -7,6 +7,11 @@ import InfractionRepository from './infractionRepository.js';
 import AutoModRepository from './autoModRepository.js';
 import FilterRepository from './filterRepository.js';
 import ModLogRepository from './modLogRepository.js';
+import ScheduledActionRepository from './scheduledActionRepository.js';
+import BanAppealRepository from './banAppealRepository.js';
+import ModNoteRepository from './modNoteRepository.js';
+import NameHistoryRepository from './nameHistoryRepository.js';
+import CaseRevisionRepository from './caseRevisionRepository.js';
 
 // Import types
 import type { 
@@ -40,12 +45,34 @@ import type {
     LogType 
 } from './modLogRepository.js';
 
+import type {
+    ScheduledAction,
+    ScheduledActionType,
+    ScheduleActionData
+} from './scheduledActionRepository.js';
+
+import type {
+    BanAppeal,
+    BanAppealCreateData,
+    BanAppealDecision
+} from './banAppealRepository.js';
+
+import type {
+    ModNote,
+    ModNoteCreateData
+} from './modNoteRepository.js';
+
 // Re-export repositories
 export {
     InfractionRepository,
     AutoModRepository,
     FilterRepository,
-    ModLogRepository
+    ModLogRepository,
+    ScheduledActionRepository,
+    BanAppealRepository,
+    ModNoteRepository,
+    NameHistoryRepository,
+    CaseRevisionRepository
 };
 
 // Re-export types
@@ -53,14 +80,22 @@ export { type // Infraction types
     Infraction, type InfractionType, type InfractionCreateData, type InfractionQueryOptions, type InfractionSearchCriteria, type InfractionStats, type InfractionUpdateData, type // AutoMod types
     AutoModSettings, type AutoModUpdateData, type AutoModAction, type // Filter types
     WordFilter, type FilterMatchType, type FilterAction, type FilterAddData, type FilterBulkItem, type FilterUpdateData, type // ModLog types
-    ModLogSettings, type ModLogUpdateData, type LogType };
+    ModLogSettings, type ModLogUpdateData, type LogType, type // Scheduled action types
+    ScheduledAction, type ScheduledActionType, type ScheduleActionData, type // Ban appeal types
+    BanAppeal, type BanAppealCreateData, type BanAppealDecision, type // Mod note types
+    ModNote, type ModNoteCreateData };
 
 // Default export
 export default {
     InfractionRepository,
     AutoModRepository,
     FilterRepository,
-    ModLogRepository
+    ModLogRepository,
+    ScheduledActionRepository,
+    BanAppealRepository,
+    ModNoteRepository,
+    NameHistoryRepository,
+    CaseRevisionRepository
 };
 
 
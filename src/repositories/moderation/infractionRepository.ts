@@ -4,6 +4,7 @@
  */
 
 import db from '../../database/postgres.js';
+import CaseRevisionRepository from './caseRevisionRepository.js';
 import type {
     Infraction,
     InfractionType,
@@ -13,6 +14,7 @@ import type {
     InfractionStats,
     InfractionUpdateData
 } from '../../types/moderation/infraction.js';
+import type { CaseRevisionField, CaseRevisionResult } from '../../types/moderation/case-revision.js';
 // Repository Functions
 /**
  * Get next candidate case ID for a guild
@@ -100,7 +102,7 @@ async function getByUser(guildId: string, userId: string, options: InfractionQue
     }
     
     if (activeOnly) {
-        sql += ` AND active = true AND (expires_at IS NULL OR expires_at > NOW())`;
+        sql += ` AND active = true AND voided_at IS NULL AND (expires_at IS NULL OR expires_at > NOW())`;
     }
     
     sql += ` ORDER BY created_at DESC LIMIT $${paramIndex++} OFFSET $${paramIndex}`;
@@ -117,7 +119,7 @@ async function countActiveWarnings(guildId: string, userId: string): Promise<num
     const result = await db.query(
         `SELECT COUNT(*) as count FROM mod_infractions 
          WHERE guild_id = $1 AND user_id = $2 
-           AND type = 'warn' AND active = true
+           AND type = 'warn' AND active = true AND voided_at IS NULL
            AND (expires_at IS NULL OR expires_at > NOW())`,
         [guildId, userId]
     );
@@ -182,29 +184,97 @@ async function update(guildId: string, caseId: number, updates: InfractionUpdate
 }
 
 /**
- * Deactivate infraction (soft delete)
+ * Deactivate infraction (soft delete), keeping who did it in the case history
  */
-async function deactivate(guildId: string, caseId: number): Promise<boolean> {
-    const result = await db.query(
-        `UPDATE mod_infractions 
-         SET active = false 
-         WHERE guild_id = $1 AND case_id = $2`,
-        [guildId, caseId]
-    );
-    return (result.rowCount ?? 0) > 0;
+async function deactivate(guildId: string, caseId: number, editorId: string, note: string | null = null): Promise<boolean> {
+    const result = await revise(guildId, caseId, 'active', false, editorId, note);
+    return !!result;
 }
 
 /**
- * Deactivate all warnings for a user
+ * Change one field of a case and store the revision in the same transaction.
+ * Resolves null when the case doesn't exist.
+ * @param value - New reason, or the new active/voided state
  */
-async function clearWarnings(guildId: string, userId: string): Promise<number> {
-    const result = await db.query(
-        `UPDATE mod_infractions 
-         SET active = false 
-         WHERE guild_id = $1 AND user_id = $2 AND type = 'warn' AND active = true`,
-        [guildId, userId]
-    );
-    return result.rowCount ?? 0;
+async function revise(
+    guildId: string,
+    caseId: number,
+    field: CaseRevisionField,
+    value: string | boolean,
+    editorId: string,
+    note: string | null = null
+): Promise<CaseRevisionResult | null> {
+    return db.transaction(async client => {
+        const current = await client.query(
+            'SELECT * FROM mod_infractions WHERE guild_id = $1 AND case_id = $2 FOR UPDATE',
+            [guildId, caseId]
+        );
+        const row = current.rows[0] as Infraction | undefined;
+        if (!row) return null;
+
+        const oldValue = field === 'reason' ? row.reason
+            : field === 'active' ? String(row.active)
+            : String(!!row.voided_at);
+        const newValue = String(value);
+        if (oldValue === newValue) return { infraction: row, changed: false };
+
+        const update = field === 'reason'
+            ? { sql: 'reason = $3', params: [value] }
+            : field === 'active'
+                ? { sql: 'active = $3', params: [value] }
+                : value
+                    ? { sql: 'voided_at = NOW(), voided_by = $3', params: [editorId] }
+                    : { sql: 'voided_at = NULL, voided_by = NULL', params: [] };
+
+        const result = await client.query(
+            `UPDATE mod_infractions SET ${update.sql}
+             WHERE guild_id = $1 AND case_id = $2
+             RETURNING *`,
+            [guildId, caseId, ...update.params]
+        );
+
+        await CaseRevisionRepository.createInTransaction(client, {
+            guildId,
+            caseId,
+            editorId,
+            field,
+            oldValue,
+            newValue,
+            note
+        });
+
+        return { infraction: result.rows[0] as Infraction, changed: true };
+    });
+}
+
+/**
+ * Deactivate all warnings for a user, with a revision for every case cleared
+ */
+async function clearWarnings(guildId: string, userId: string, editorId: string, note: string | null = null): Promise<number> {
+    return db.transaction(async client => {
+        const result = await client.query(
+            `UPDATE mod_infractions 
+             SET active = false 
+             WHERE guild_id = $1 AND user_id = $2 AND type = 'warn' AND active = true
+             RETURNING case_id`,
+            [guildId, userId]
+        );
+        const cleared = result.rows as { case_id: number }[];
+
+        for (const { case_id } of cleared) {
+            await CaseRevisionRepository.createInTransaction(client, {
+                guildId,
+                caseId: case_id,
+                editorId,
+                field: 'active',
+                oldValue: 'true',
+                newValue: 'false',
+                note
+            });
+        }
+
+        return cleared.length;
+    });
 }
 
 /**
@@ -249,6 +319,24 @@ async function getStats(guildId: string): Promise<InfractionStats[]> {
     return result.rows as unknown as InfractionStats[];
 }
 
+/**
+ * Count a user's infractions per type, inactive ones included and voided ones left out
+ */
+async function countByUser(guildId: string, userId: string): Promise<Record<string, number>> {
+    const result = await db.query(
+        `SELECT type, COUNT(*) as count
+         FROM mod_infractions
+         WHERE guild_id = $1 AND user_id = $2 AND voided_at IS NULL
+         GROUP BY type`,
+        [guildId, userId]
+    );
+    const counts: Record<string, number> = {};
+    for (const row of result.rows as { type: string; count: string }[]) {
+        counts[row.type] = parseInt(row.count, 10);
+    }
+    return counts;
+}
+
 /**
  * Search infractions
  */
@@ -307,10 +395,12 @@ const InfractionRepository = {
     getByModerator,
     update,
     deactivate,
+    revise,
     clearWarnings,
     getExpired,
     expireOld,
     getStats,
+    countByUser,
     search
 };
 
@@ -325,10 +415,12 @@ export {
     getByModerator,
     update,
     deactivate,
+    revise,
     clearWarnings,
     getExpired,
     expireOld,
     getStats,
+    countByUser,
     search
 };
 export { type Infraction, type InfractionType, type InfractionCreateData, type InfractionQueryOptions, type InfractionSearchCriteria, type InfractionStats, type InfractionUpdateData };
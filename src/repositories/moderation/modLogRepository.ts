@@ -56,6 +56,7 @@ async function update(guildId: string, updates: ModLogUpdateData): Promise<ModLo
         'log_message_deletes', 'log_message_edits',
         'log_member_joins', 'log_member_leaves',
         'log_role_changes', 'log_nickname_changes',
+        'log_timeouts', 'log_channel_changes', 'log_server_role_changes', 'log_voice_activity',
         'use_embeds', 'include_moderator', 'include_reason'
     ];
     
@@ -0,0 +1,102 @@
+/**
+ * Mod Note Repository
+ * Database operations for moderator notes (mod_notes table)
+ */
+
+import db from '../../database/postgres.js';
+import type { ModNote, ModNoteCreateData, ModNoteRecord } from '../../types/moderation/mod-note.js';
+
+function toNote(row: ModNoteRecord): ModNote {
+    return {
+        id: row.id,
+        guildId: row.guild_id,
+        userId: row.user_id,
+        authorId: row.author_id,
+        content: row.content,
+        createdAt: new Date(row.created_at),
+        updatedAt: row.updated_at ? new Date(row.updated_at) : null,
+        updatedBy: row.updated_by
+    };
+}
+// Repository Functions
+/**
+ * Add a note
+ */
+async function create(data: ModNoteCreateData): Promise<ModNote> {
+    const result = await db.query<ModNoteRecord>(
+        `INSERT INTO mod_notes (guild_id, user_id, author_id, content)
+         VALUES ($1, $2, $3, $4)
+         RETURNING *`,
+        [data.guildId, data.userId, data.authorId, data.content]
+    );
+    return toNote(result.rows[0]!);
+}
+
+/**
+ * Get a note by ID within a guild
+ */
+async function getById(guildId: string, id: number): Promise<ModNote | null> {
+    const row = await db.getOne<ModNoteRecord>(
+        'SELECT * FROM mod_notes WHERE guild_id = $1 AND id = $2',
+        [guildId, id]
+    );
+    return row ? toNote(row) : null;
+}
+
+/**
+ * Notes about a user, newest first
+ */
+async function getByUser(guildId: string, userId: string): Promise<ModNote[]> {
+    const rows = await db.getMany<ModNoteRecord>(
+        `SELECT * FROM mod_notes
+         WHERE guild_id = $1 AND user_id = $2
+         ORDER BY created_at DESC`,
+        [guildId, userId]
+    );
+    return rows.map(toNote);
+}
+
+/**
+ * Replace a note's content
+ */
+async function update(guildId: string, id: number, content: string, editorId: string): Promise<ModNote | null> {
+    const result = await db.query<ModNoteRecord>(
+        `UPDATE mod_notes
+         SET content = $3, updated_at = NOW(), updated_by = $4
+         WHERE guild_id = $1 AND id = $2
+         RETURNING *`,
+        [guildId, id, content, editorId]
+    );
+    return result.rows[0] ? toNote(result.rows[0]) : null;
+}
+
+/**
+ * Delete a note
+ */
+async function remove(guildId: string, id: number): Promise<boolean> {
+    const result = await db.query(
+        'DELETE FROM mod_notes WHERE guild_id = $1 AND id = $2',
+        [guildId, id]
+    );
+    return (result.rowCount ?? 0) > 0;
+}
+
+// Export as module object
+const ModNoteRepository = {
+    create,
+    getById,
+    getByUser,
+    update,
+    remove
+};
+
+export {
+    ModNoteRepository,
+    create,
+    getById,
+    getByUser,
+    update,
+    remove
+};
+export { type ModNote, type ModNoteCreateData };
+export default ModNoteRepository;
@@ -0,0 +1,63 @@
+/**
+ * Name History Repository
+ * Database operations for past usernames (user_name_history table)
+ */
+
+import db from '../../database/postgres.js';
+import type { NameHistoryEntry, NameHistoryRecord } from '../../types/moderation/user-dossier.js';
+// Repository Functions
+/**
+ * Record a name the user just stopped using. Every shard sees the same change, so the
+ * name is skipped when it is already the latest entry; the advisory lock keeps shards
+ * from both passing that check at once.
+ */
+async function record(userId: string, username: string, globalName: string | null): Promise<void> {
+    await db.transaction(async client => {
+        await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`user_name_history:${userId}`]);
+        await client.query(
+            `INSERT INTO user_name_history (user_id, username, global_name)
+             SELECT $1, $2, $3
+             WHERE NOT EXISTS (
+                 SELECT 1 FROM (
+                     SELECT username, global_name FROM user_name_history
+                     WHERE user_id = $1
+                     ORDER BY changed_at DESC
+                     LIMIT 1
+                 ) latest
+                 WHERE latest.username = $2 AND latest.global_name IS NOT DISTINCT FROM $3
+             )`,
+            [userId, username, globalName]
+        );
+    });
+}
+
+/**
+ * Past names of a user, most recent first
+ */
+async function getByUser(userId: string, limit: number = 10): Promise<NameHistoryEntry[]> {
+    const rows = await db.getMany<NameHistoryRecord>(
+        `SELECT * FROM user_name_history
+         WHERE user_id = $1
+         ORDER BY changed_at DESC
+         LIMIT $2`,
+        [userId, limit]
+    );
+    return rows.map(row => ({
+        username: row.username,
+        globalName: row.global_name,
+        changedAt: new Date(row.changed_at)
+    }));
+}
+
+// Export as module object
+const NameHistoryRepository = {
+    record,
+    getByUser
+};
+
+export {
+    NameHistoryRepository,
+    record,
+    getByUser
+};
+export default NameHistoryRepository;
@@ -0,0 +1,168 @@
+/**
+ * Scheduled Action Repository
+ * Database operations for timed moderation actions (mod_scheduled_actions table)
+ */
+
+import db from '../../database/postgres.js';
+import type {
+    ScheduledAction,
+    ScheduledActionRecord,
+    ScheduledActionType,
+    ScheduleActionData
+} from '../../types/moderation/scheduled-action.js';
+
+function toAction(row: ScheduledActionRecord): ScheduledAction {
+    return {
+        id: row.id,
+        guildId: row.guild_id,
+        type: row.type,
+        targetId: row.target_id,
+        roleId: row.role_id,
+        caseId: row.case_id,
+        reason: row.reason,
+        createdBy: row.created_by,
+        runAt: new Date(row.run_at),
+        status: row.status,
+        attempts: row.attempts,
+        lastError: row.last_error
+    };
+}
+// Repository Functions
+/**
+ * Schedule an action; replaces the pending action for the same target
+ */
+async function schedule(data: ScheduleActionData): Promise<ScheduledAction> {
+    const result = await db.query<ScheduledActionRecord>(
+        `INSERT INTO mod_scheduled_actions
+         (guild_id, type, target_id, role_id, case_id, reason, created_by, run_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         ON CONFLICT (guild_id, type, target_id, (COALESCE(role_id, ''))) WHERE status = 'pending'
+         DO UPDATE SET
+            case_id = EXCLUDED.case_id,
+            reason = EXCLUDED.reason,
+            created_by = EXCLUDED.created_by,
+            run_at = EXCLUDED.run_at,
+            attempts = 0,
+            last_error = NULL,
+            created_at = NOW()
+         RETURNING *`,
+        [data.guildId, data.type, data.targetId, data.roleId ?? null, data.caseId ?? null, data.reason ?? null, data.createdBy, data.runAt]
+    );
+    return toAction(result.rows[0]!);
+}
+
+/**
+ * Cancel pending actions for a target (or every target of the type when targetId is null)
+ */
+async function cancel(guildId: string, type: ScheduledActionType, targetId: string | null, roleId: string | null = null): Promise<number> {
+    const result = await db.query(
+        `UPDATE mod_scheduled_actions
+         SET status = 'cancelled', completed_at = NOW()
+         WHERE guild_id = $1 AND type = $2 AND status = 'pending'
+           AND ($3::varchar IS NULL OR target_id = $3)
+           AND ($4::varchar IS NULL OR role_id = $4)`,
+        [guildId, type, targetId, roleId]
+    );
+    return result.rowCount ?? 0;
+}
+
+/**
+ * Claim due actions in the given guilds for one runner.
+ * SKIP LOCKED keeps concurrent shards from claiming the same row.
+ */
+async function claimDue(guildIds: string[], claimedBy: string, limit: number): Promise<ScheduledAction[]> {
+    if (guildIds.length === 0) return [];
+
+    const result = await db.query<ScheduledActionRecord>(
+        `UPDATE mod_scheduled_actions
+         SET status = 'running', claimed_by = $2, claimed_at = NOW(), attempts = attempts + 1
+         WHERE status = 'pending' AND id IN (
+             SELECT id FROM mod_scheduled_actions
+             WHERE status = 'pending' AND run_at <= NOW() AND guild_id = ANY($1)
+             ORDER BY run_at
+             LIMIT $3
+             FOR UPDATE SKIP LOCKED
+         )
+         RETURNING *`,
+        [guildIds, claimedBy, limit]
+    );
+    return result.rows.map(toAction);
+}
+
+/**
+ * Mark a claimed action as done
+ */
+async function complete(id: number, resultCaseId: number | null): Promise<void> {
+    await db.query(
+        `UPDATE mod_scheduled_actions
+         SET status = 'done', completed_at = NOW(), result_case_id = $2, last_error = NULL
+         WHERE id = $1`,
+        [id, resultCaseId]
+    );
+}
+
+/**
+ * Record a failed run: back to pending at retryAt, or failed for good when retryAt is null
+ */
+async function fail(id: number, error: string, retryAt: Date | null): Promise<void> {
+    await db.query(
+        `UPDATE mod_scheduled_actions
+         SET status = CASE WHEN $3::timestamp IS NULL THEN 'failed' ELSE 'pending' END,
+             run_at = COALESCE($3::timestamp, run_at),
+             completed_at = CASE WHEN $3::timestamp IS NULL THEN NOW() ELSE NULL END,
+             last_error = $2
+         WHERE id = $1`,
+        [id, error.slice(0, 1000), retryAt]
+    );
+}
+
+/**
+ * Hand actions claimed by a runner that never finished back to the queue
+ */
+async function releaseStale(staleAfterMs: number): Promise<number> {
+    const result = await db.query(
+        `UPDATE mod_scheduled_actions
+         SET status = 'pending', claimed_by = NULL, claimed_at = NULL
+         WHERE status = 'running' AND claimed_at < NOW() - ($1 * INTERVAL '1 millisecond')`,
+        [staleAfterMs]
+    );
+    return result.rowCount ?? 0;
+}
+
+/**
+ * Pending actions for a guild, soonest first
+ */
+async function getPending(guildId: string, type: ScheduledActionType | null = null, limit: number = 25): Promise<ScheduledAction[]> {
+    const result = await db.query<ScheduledActionRecord>(
+        `SELECT * FROM mod_scheduled_actions
+         WHERE guild_id = $1 AND status = 'pending' AND ($2::varchar IS NULL OR type = $2)
+         ORDER BY run_at
+         LIMIT $3`,
+        [guildId, type, limit]
+    );
+    return result.rows.map(toAction);
+}
+
+// Export as module object
+const ScheduledActionRepository = {
+    schedule,
+    cancel,
+    claimDue,
+    complete,
+    fail,
+    releaseStale,
+    getPending
+};
+
+export {
+    ScheduledActionRepository,
+    schedule,
+    cancel,
+    claimDue,
+    complete,
+    fail,
+    releaseStale,
+    getPending
+};
+export { type ScheduledAction, type ScheduledActionType, type ScheduleActionData };
+export default ScheduledActionRepository;
@@ -0,0 +1,12 @@
+/**
+ * Music Repositories Index
+ * @module repositories/music
+ */
+
+export { default as playlistRepository, PlaylistRepository } from './playlistRepository.js';
+export { type PlaylistRecord, type SavedPlaylist, type SavedPlaylistTrack } from './playlistRepository.js';
+export { default as queueSnapshotRepository, QueueSnapshotRepository } from './queueSnapshotRepository.js';
+export { type QueueSnapshot, type QueueSnapshotRecord, type SnapshotTrack } from './queueSnapshotRepository.js';
+export { default as playlistImportRepository, PlaylistImportRepository } from './playlistImportRepository.js';
+export { type PlaylistImportJob, type PlaylistImportRecord } from './playlistImportRepository.js';
+export { default as musicStatsRepository, MusicStatsRepository } from './musicStatsRepository.js';
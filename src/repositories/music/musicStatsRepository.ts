@@ -0,0 +1,125 @@
+/**
+ * Music Stats Repository
+ * Records guild plays and runs aggregate queries over them (guild_music_plays table)
+ * @module repositories/music/musicStatsRepository
+ */
+
+import db from '../../database/postgres.js';
+import logger from '../../core/observability/Logger.js';
+import type {
+    MusicPlayRecord,
+    MusicStatsFilter,
+    MusicStatsSummary,
+    RequesterStat,
+    TopArtistStat,
+    TopTrackStat
+} from '../../types/music/stats.js';
+
+// Shared WHERE clause: $1 guild, $2 since (nullable), $3 until, $4 member (nullable)
+const SCOPE = `guild_id = $1
+    AND ($2::timestamptz IS NULL OR played_at >= $2)
+    AND played_at < $3
+    AND ($4::varchar IS NULL OR requested_by = $4 OR listener_ids @> ARRAY[$4::varchar])`;
+
+// ============================================================================
+// REPOSITORY CLASS
+// ============================================================================
+
+class MusicStatsRepository {
+    /**
+     * Store one play
+     */
+    async recordPlay(play: MusicPlayRecord): Promise<boolean> {
+        try {
+            await db.query(
+                `INSERT INTO guild_music_plays (guild_id, url, title, author, duration, requested_by, listener_ids)
+                 VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+                [play.guildId, play.url, play.title, play.author, play.duration, play.requestedBy, play.listenerIds]
+            );
+            return true;
+        } catch (error) {
+            logger.error('MusicStatsRepository', `recordPlay error: ${error}`);
+            return false;
+        }
+    }
+
+    /**
+     * Totals, top tracks/artists/requesters and plays per hour for the filter
+     * @param topLimit - Entries in each top list
+     */
+    async getSummary(filter: MusicStatsFilter, topLimit: number): Promise<MusicStatsSummary | null> {
+        const params = [filter.guildId, filter.since, filter.until, filter.userId || null];
+
+        try {
+            const [totals, tracks, artists, requesters, hours] = await Promise.all([
+                db.getOne<{ plays: string; unique_tracks: string; listeners: string; requesters: string; listened: string }>(
+                    `SELECT COUNT(*) AS plays, COUNT(DISTINCT url) AS unique_tracks,
+                            (SELECT COUNT(DISTINCT listener) FROM guild_music_plays, unnest(listener_ids) AS listener
+                             WHERE ${SCOPE}) AS listeners,
+                            COUNT(DISTINCT requested_by) AS requesters, COALESCE(SUM(duration), 0) AS listened
+                     FROM guild_music_plays WHERE ${SCOPE}`,
+                    params
+                ),
+                db.getMany<{ url: string; title: string; author: string | null; plays: string }>(
+                    `SELECT url, MAX(title) AS title, MAX(author) AS author, COUNT(*) AS plays
+                     FROM guild_music_plays WHERE ${SCOPE}
+                     GROUP BY url ORDER BY plays DESC, MAX(played_at) DESC LIMIT $5`,
+                    [...params, topLimit]
+                ),
+                db.getMany<{ author: string; plays: string }>(
+                    `SELECT author, COUNT(*) AS plays
+                     FROM guild_music_plays WHERE ${SCOPE} AND author IS NOT NULL AND author <> ''
+                     GROUP BY author ORDER BY plays DESC, author ASC LIMIT $5`,
+                    [...params, topLimit]
+                ),
+                db.getMany<{ requested_by: string; plays: string; listened: string }>(
+                    `SELECT requested_by, COUNT(*) AS plays, COALESCE(SUM(duration), 0) AS listened
+                     FROM guild_music_plays WHERE ${SCOPE} AND requested_by IS NOT NULL
+                     GROUP BY requested_by ORDER BY plays DESC LIMIT $5`,
+                    [...params, topLimit]
+                ),
+                db.getMany<{ hour: number; plays: string }>(
+                    `SELECT EXTRACT(HOUR FROM played_at AT TIME ZONE 'UTC')::int AS hour, COUNT(*) AS plays
+                     FROM guild_music_plays WHERE ${SCOPE}
+                     GROUP BY hour`,
+                    params
+                )
+            ]);
+
+            const hourly = new Array<number>(24).fill(0);
+            for (const row of hours) hourly[row.hour] = parseInt(row.plays, 10);
+
+            return {
+                plays: parseInt(totals?.plays || '0', 10),
+                uniqueTracks: parseInt(totals?.unique_tracks || '0', 10),
+                listeners: parseInt(totals?.listeners || '0', 10),
+                requesters: parseInt(totals?.requesters || '0', 10),
+                listenedSeconds: parseInt(totals?.listened || '0', 10),
+                topTracks: tracks.map((row): TopTrackStat => ({
+                    url: row.url,
+                    title: row.title,
+                    author: row.author,
+                    plays: parseInt(row.plays, 10)
+                })),
+                topArtists: artists.map((row): TopArtistStat => ({
+                    author: row.author,
+                    plays: parseInt(row.plays, 10)
+                })),
+                topRequesters: requesters.map((row): RequesterStat => ({
+                    userId: row.requested_by,
+                    plays: parseInt(row.plays, 10),
+                    listenedSeconds: parseInt(row.listened, 10)
+                })),
+                hourly
+            };
+        } catch (error) {
+            logger.error('MusicStatsRepository', `getSummary error: ${error}`);
+            return null;
+        }
+    }
+}
+
+// Export singleton instance
+const musicStatsRepository = new MusicStatsRepository();
+export { MusicStatsRepository };
+export default musicStatsRepository;
@@ -0,0 +1,144 @@
+/**
+ * Playlist Import Repository
+ * Database operations for playlist import jobs (music_playlist_imports table)
+ * @module repositories/music/playlistImportRepository
+ */
+
+import db from '../../database/postgres.js';
+import logger from '../../core/observability/Logger.js';
+import type {
+    PlaylistImportJob,
+    PlaylistImportRecord,
+    PlaylistImportSource,
+    PlaylistImportStatus
+} from '../../types/music/playlist-import.js';
+
+// ============================================================================
+// REPOSITORY CLASS
+// ============================================================================
+
+class PlaylistImportRepository {
+    /**
+     * Store a new import job with its full entry list
+     */
+    async create(job: PlaylistImportJob): Promise<boolean> {
+        try {
+            await db.query(
+                `INSERT INTO music_playlist_imports (
+                    id, guild_id, user_id, user_name, url, source, playlist_name, entries,
+                    next_index, added, failures, truncated, status, text_channel_id, message_id
+                 )
+                 VALUES ($1, $2, $3, $4, $5, $6, $7, $8::jsonb, $9, $10, $11::jsonb, $12, $13, $14, $15)`,
+                [
+                    job.id, job.guildId, job.userId, job.userName, job.url, job.source, job.playlistName,
+                    JSON.stringify(job.entries), job.cursor, job.added, JSON.stringify(job.failures),
+                    job.truncated, job.status, job.textChannelId, job.messageId
+                ]
+            );
+            return true;
+        } catch (error) {
+            logger.error('PlaylistImportRepository', `create error: ${error}`);
+            return false;
+        }
+    }
+
+    /**
+     * Save progress (everything except the entry list, which never changes)
+     */
+    async updateProgress(job: PlaylistImportJob): Promise<boolean> {
+        try {
+            const result = await db.query(
+                `UPDATE music_playlist_imports
+                 SET next_index = $2, added = $3, failures = $4::jsonb, status = $5,
+                     message_id = $6, updated_at = CURRENT_TIMESTAMP
+                 WHERE id = $1`,
+                [job.id, job.cursor, job.added, JSON.stringify(job.failures), job.status, job.messageId]
+            );
+            return (result.rowCount || 0) > 0;
+        } catch (error) {
+            logger.error('PlaylistImportRepository', `updateProgress error: ${error}`);
+            return false;
+        }
+    }
+
+    /**
+     * Imports of a guild that were still running, updated within maxAge
+     */
+    async getRunning(guildId: string, maxAge: number): Promise<PlaylistImportJob[]> {
+        try {
+            const result = await db.query<PlaylistImportRecord>(
+                `SELECT * FROM music_playlist_imports
+                 WHERE guild_id = $1 AND status = 'running'
+                   AND updated_at > NOW() - ($2 * INTERVAL '1 millisecond')
+                 ORDER BY started_at ASC`,
+                [guildId, maxAge]
+            );
+            return result.rows.map((row: PlaylistImportRecord) => this._toJob(row));
+        } catch (error) {
+            logger.error('PlaylistImportRepository', `getRunning error: ${error}`);
+            return [];
+        }
+    }
+
+    /**
+     * Mark every running import of a guild with a final status
+     */
+    async finishRunning(guildId: string, status: PlaylistImportStatus): Promise<number> {
+        try {
+            const result = await db.query(
+                `UPDATE music_playlist_imports SET status = $2, updated_at = CURRENT_TIMESTAMP
+                 WHERE guild_id = $1 AND status = 'running'`,
+                [guildId, status]
+            );
+            return result.rowCount || 0;
+        } catch (error) {
+            logger.error('PlaylistImportRepository', `finishRunning error: ${error}`);
+            return 0;
+        }
+    }
+
+    /**
+     * Delete jobs not updated within maxAge, finished or not
+     */
+    async deleteOlderThan(maxAge: number): Promise<number> {
+        try {
+            const result = await db.query(
+                `DELETE FROM music_playlist_imports
+                 WHERE updated_at <= NOW() - ($1 * INTERVAL '1 millisecond')`,
+                [maxAge]
+            );
+            return result.rowCount || 0;
+        } catch (error) {
+            logger.error('PlaylistImportRepository', `deleteOlderThan error: ${error}`);
+            return 0;
+        }
+    }
+
+    private _toJob(row: PlaylistImportRecord): PlaylistImportJob {
+        return {
+            id: row.id,
+            guildId: row.guild_id,
+            userId: row.user_id,
+            userName: row.user_name,
+            url: row.url,
+            source: row.source as PlaylistImportSource,
+            playlistName: row.playlist_name,
+            entries: Array.isArray(row.entries) ? row.entries : [],
+            cursor: row.next_index || 0,
+            added: row.added || 0,
+            failures: Array.isArray(row.failures) ? row.failures : [],
+            truncated: row.truncated || 0,
+            status: row.status as PlaylistImportStatus,
+            textChannelId: row.text_channel_id,
+            messageId: row.message_id,
+            startedAt: new Date(row.started_at).getTime(),
+            updatedAt: new Date(row.updated_at).getTime()
+        };
+    }
+}
+
+// Export singleton instance
+const playlistImportRepository = new PlaylistImportRepository();
+export { PlaylistImportRepository };
+export default playlistImportRepository;
+export { type PlaylistImportJob, type PlaylistImportRecord };
@@ -0,0 +1,181 @@
+/**
+ * Playlist Repository
+ * Database operations for saved user playlists (playlists table)
+ * @module repositories/music/playlistRepository
+ */
+
+import db from '../../database/postgres.js';
+import logger from '../../core/observability/Logger.js';
+import type { PlaylistRecord, SavedPlaylist, SavedPlaylistTrack } from '../../types/music/playlist.js';
+
+// ============================================================================
+// REPOSITORY CLASS
+// ============================================================================
+
+class PlaylistRepository {
+    /**
+     * Get a playlist by owner and name (case-insensitive)
+     */
+    async getByName(userId: string, name: string): Promise<SavedPlaylist | null> {
+        try {
+            const result = await db.query<PlaylistRecord>(
+                `SELECT * FROM playlists WHERE user_id = $1 AND LOWER(name) = LOWER($2)`,
+                [userId, name]
+            );
+            return result.rows[0] ? this._toPlaylist(result.rows[0]) : null;
+        } catch (error) {
+            logger.error('PlaylistRepository', `getByName error: ${error}`);
+            return null;
+        }
+    }
+
+    /**
+     * Get all playlists owned by a user
+     */
+    async getByUser(userId: string, publicOnly: boolean = false): Promise<SavedPlaylist[]> {
+        try {
+            const result = await db.query<PlaylistRecord>(
+                `SELECT * FROM playlists
+                 WHERE user_id = $1 ${publicOnly ? 'AND is_public = true' : ''}
+                 ORDER BY updated_at DESC`,
+                [userId]
+            );
+            return result.rows.map((row: PlaylistRecord) => this._toPlaylist(row));
+        } catch (error) {
+            logger.error('PlaylistRepository', `getByUser error: ${error}`);
+            return [];
+        }
+    }
+
+    /**
+     * Count playlists owned by a user
+     */
+    async countByUser(userId: string): Promise<number> {
+        try {
+            const result = await db.query<{ count: string }>(
+                `SELECT COUNT(*) AS count FROM playlists WHERE user_id = $1`,
+                [userId]
+            );
+            return parseInt(result.rows[0]?.count || '0', 10);
+        } catch (error) {
+            logger.error('PlaylistRepository', `countByUser error: ${error}`);
+            return 0;
+        }
+    }
+
+    /**
+     * Create an empty or pre-filled playlist
+     */
+    async create(userId: string, name: string, tracks: SavedPlaylistTrack[] = [], description: string | null = null): Promise<SavedPlaylist | null> {
+        try {
+            const result = await db.query<PlaylistRecord>(
+                `INSERT INTO playlists (user_id, name, description, tracks)
+                 VALUES ($1, $2, $3, $4::jsonb)
+                 RETURNING *`,
+                [userId, name, description, JSON.stringify(tracks)]
+            );
+            return result.rows[0] ? this._toPlaylist(result.rows[0]) : null;
+        } catch (error) {
+            logger.error('PlaylistRepository', `create error: ${error}`);
+            return null;
+        }
+    }
+
+    /**
+     * Replace the track list of a playlist
+     */
+    async setTracks(id: string, tracks: SavedPlaylistTrack[]): Promise<boolean> {
+        try {
+            const result = await db.query(
+                `UPDATE playlists SET tracks = $2::jsonb WHERE id = $1`,
+                [id, JSON.stringify(tracks)]
+            );
+            return (result.rowCount || 0) > 0;
+        } catch (error) {
+            logger.error('PlaylistRepository', `setTracks error: ${error}`);
+            return false;
+        }
+    }
+
+    /**
+     * Rename a playlist
+     */
+    async rename(id: string, name: string): Promise<boolean> {
+        try {
+            const result = await db.query(
+                `UPDATE playlists SET name = $2 WHERE id = $1`,
+                [id, name]
+            );
+            return (result.rowCount || 0) > 0;
+        } catch (error) {
+            logger.error('PlaylistRepository', `rename error: ${error}`);
+            return false;
+        }
+    }
+
+    /**
+     * Toggle public visibility
+     */
+    async setPublic(id: string, isPublic: boolean): Promise<boolean> {
+        try {
+            const result = await db.query(
+                `UPDATE playlists SET is_public = $2 WHERE id = $1`,
+                [id, isPublic]
+            );
+            return (result.rowCount || 0) > 0;
+        } catch (error) {
+            logger.error('PlaylistRepository', `setPublic error: ${error}`);
+            return false;
+        }
+    }
+
+    /**
+     * Increment play count after a successful load
+     */
+    async incrementPlayCount(id: string): Promise<void> {
+        try {
+            await db.query(
+                `UPDATE playlists SET play_count = play_count + 1 WHERE id = $1`,
+                [id]
+            );
+        } catch (error) {
+            logger.error('PlaylistRepository', `incrementPlayCount error: ${error}`);
+        }
+    }
+
+    /**
+     * Delete a playlist
+     */
+    async delete(id: string): Promise<boolean> {
+        try {
+            const result = await db.query(
+                `DELETE FROM playlists WHERE id = $1`,
+                [id]
+            );
+            return (result.rowCount || 0) > 0;
+        } catch (error) {
+            logger.error('PlaylistRepository', `delete error: ${error}`);
+            return false;
+        }
+    }
+
+    private _toPlaylist(row: PlaylistRecord): SavedPlaylist {
+        return {
+            id: row.id,
+            ownerId: row.user_id,
+            name: row.name,
+            description: row.description,
+            tracks: Array.isArray(row.tracks) ? row.tracks : [],
+            isPublic: row.is_public,
+            playCount: row.play_count || 0,
+            createdAt: new Date(row.created_at).getTime(),
+            updatedAt: new Date(row.updated_at).getTime()
+        };
+    }
+}
+
+// Export singleton instance
+const playlistRepository = new PlaylistRepository();
+export { PlaylistRepository };
+export default playlistRepository;
+export { type PlaylistRecord, type SavedPlaylist, type SavedPlaylistTrack };
@@ -0,0 +1,153 @@
+/**
+ * Queue Snapshot Repository
+ * Database operations for durable queue snapshots (music_queue_snapshots table)
+ * @module repositories/music/queueSnapshotRepository
+ */
+
+import db from '../../database/postgres.js';
+import logger from '../../core/observability/Logger.js';
+import type { LoopMode } from '../../types/music/playback.js';
+import type { QueueSnapshot, QueueSnapshotRecord, SnapshotTrack } from '../../types/music/queue-snapshot.js';
+
+// ============================================================================
+// REPOSITORY CLASS
+// ============================================================================
+
+class QueueSnapshotRepository {
+    /**
+     * Get the snapshot for a guild
+     */
+    async get(guildId: string): Promise<QueueSnapshot | null> {
+        try {
+            const result = await db.query<QueueSnapshotRecord>(
+                `SELECT * FROM music_queue_snapshots WHERE guild_id = $1`,
+                [guildId]
+            );
+            return result.rows[0] ? this._toSnapshot(result.rows[0]) : null;
+        } catch (error) {
+            logger.error('QueueSnapshotRepository', `get error: ${error}`);
+            return null;
+        }
+    }
+
+    /**
+     * Get every snapshot updated within maxAge, newest first
+     */
+    async getRecent(maxAge: number): Promise<QueueSnapshot[]> {
+        try {
+            const result = await db.query<QueueSnapshotRecord>(
+                `SELECT * FROM music_queue_snapshots
+                 WHERE updated_at > NOW() - ($1 * INTERVAL '1 millisecond')
+                 ORDER BY updated_at DESC`,
+                [maxAge]
+            );
+            return result.rows.map((row: QueueSnapshotRecord) => this._toSnapshot(row));
+        } catch (error) {
+            logger.error('QueueSnapshotRepository', `getRecent error: ${error}`);
+            return [];
+        }
+    }
+
+    /**
+     * Insert or replace a guild's snapshot
+     */
+    async upsert(snapshot: QueueSnapshot): Promise<boolean> {
+        try {
+            await db.query(
+                `INSERT INTO music_queue_snapshots (
+                    guild_id, voice_channel_id, text_channel_id, requester_id, current_track,
+                    position_ms, tracks, loop_mode, volume, paused, auto_play, filters, updated_at
+                 )
+                 VALUES ($1, $2, $3, $4, $5::jsonb, $6, $7::jsonb, $8, $9, $10, $11, $12::jsonb, CURRENT_TIMESTAMP)
+                 ON CONFLICT (guild_id) DO UPDATE SET
+                    voice_channel_id = EXCLUDED.voice_channel_id,
+                    text_channel_id = EXCLUDED.text_channel_id,
+                    requester_id = EXCLUDED.requester_id,
+                    current_track = EXCLUDED.current_track,
+                    position_ms = EXCLUDED.position_ms,
+                    tracks = EXCLUDED.tracks,
+                    loop_mode = EXCLUDED.loop_mode,
+                    volume = EXCLUDED.volume,
+                    paused = EXCLUDED.paused,
+                    auto_play = EXCLUDED.auto_play,
+                    filters = EXCLUDED.filters,
+                    updated_at = CURRENT_TIMESTAMP`,
+                [
+                    snapshot.guildId,
+                    snapshot.voiceChannelId,
+                    snapshot.textChannelId,
+                    snapshot.requesterId,
+                    snapshot.currentTrack ? JSON.stringify(snapshot.currentTrack) : null,
+                    Math.max(0, Math.floor(snapshot.positionMs)),
+                    JSON.stringify(snapshot.tracks),
+                    snapshot.loopMode,
+                    snapshot.volume,
+                    snapshot.paused,
+                    snapshot.autoPlay,
+                    snapshot.filters ? JSON.stringify(snapshot.filters) : null
+                ]
+            );
+            return true;
+        } catch (error) {
+            logger.error('QueueSnapshotRepository', `upsert error: ${error}`);
+            return false;
+        }
+    }
+
+    /**
+     * Delete a guild's snapshot
+     */
+    async delete(guildId: string): Promise<boolean> {
+        try {
+            const result = await db.query(
+                `DELETE FROM music_queue_snapshots WHERE guild_id = $1`,
+                [guildId]
+            );
+            return (result.rowCount || 0) > 0;
+        } catch (error) {
+            logger.error('QueueSnapshotRepository', `delete error: ${error}`);
+            return false;
+        }
+    }
+
+    /**
+     * Delete snapshots too old to be worth resuming
+     */
+    async deleteOlderThan(maxAge: number): Promise<number> {
+        try {
+            const result = await db.query(
+                `DELETE FROM music_queue_snapshots
+                 WHERE updated_at <= NOW() - ($1 * INTERVAL '1 millisecond')`,
+                [maxAge]
+            );
+            return result.rowCount || 0;
+        } catch (error) {
+            logger.error('QueueSnapshotRepository', `deleteOlderThan error: ${error}`);
+            return 0;
+        }
+    }
+
+    private _toSnapshot(row: QueueSnapshotRecord): QueueSnapshot {
+        return {
+            guildId: row.guild_id,
+            voiceChannelId: row.voice_channel_id,
+            textChannelId: row.text_channel_id,
+            requesterId: row.requester_id,
+            currentTrack: row.current_track || null,
+            positionMs: Number(row.position_ms) || 0,
+            tracks: Array.isArray(row.tracks) ? row.tracks : [],
+            loopMode: (['off', 'track', 'queue'].includes(row.loop_mode) ? row.loop_mode : 'off') as LoopMode,
+            volume: row.volume ?? 100,
+            paused: !!row.paused,
+            autoPlay: !!row.auto_play,
+            filters: row.filters || null,
+            updatedAt: new Date(row.updated_at).getTime()
+        };
+    }
+}
+
+// Export singleton instance
+const queueSnapshotRepository = new QueueSnapshotRepository();
+export { QueueSnapshotRepository };
+export default queueSnapshotRepository;
+export { type QueueSnapshot, type QueueSnapshotRecord, type SnapshotTrack };
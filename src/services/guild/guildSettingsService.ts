@@ -190,6 +190,24 @@ export async function removeModRole(guildId: Snowflake, roleId: Snowflake): Prom
     const roles = await getModRoles(guildId);
     return updateGuildSettings(guildId, { mod_roles: roles.filter(r => r !== roleId) });
 }
+// DJ ROLE
+export async function getDJRole(guildId: Snowflake): Promise<Snowflake | null> {
+    const settings = await getGuildSettings(guildId);
+    return settings.dj_role;
+}
+
+export async function setDJRole(guildId: Snowflake, roleId: Snowflake | null): Promise<boolean> {
+    return updateGuildSettings(guildId, { dj_role: roleId });
+}
+// MUSIC CHANNEL
+export async function getMusicChannel(guildId: Snowflake): Promise<Snowflake | null> {
+    const settings = await getGuildSettings(guildId);
+    return settings.music_channel;
+}
+
+export async function setMusicChannel(guildId: Snowflake, channelId: Snowflake | null): Promise<boolean> {
+    return updateGuildSettings(guildId, { music_channel: channelId });
+}
 // PERMISSION CHECKS
 /**
  * Check if member has admin permission
@@ -218,6 +236,20 @@ export async function hasModPermission(member: GuildMember): Promise<boolean> {
     return member.roles.cache.some((role: Role) => modRoles.includes(role.id));
 }
 
+/**
+ * Check if member has DJ permission
+ * Falls back to a role named "dj" while no DJ role is configured
+ */
+export async function hasDJPermission(member: GuildMember): Promise<boolean> {
+    if (await hasAdminPermission(member)) return true;
+
+    const djRole = await getDJRole(member.guild.id);
+    if (djRole) {
+        return member.roles.cache.has(djRole);
+    }
+    return member.roles.cache.some((role: Role) => role.name.toLowerCase() === 'dj');
+}
+
 /**
  * Check if member is the server owner
  */
@@ -252,8 +284,13 @@ export default {
     getModRoles,
     addModRole,
     removeModRole,
+    getDJRole,
+    setDJRole,
+    getMusicChannel,
+    setMusicChannel,
     hasAdminPermission,
     hasModPermission,
+    hasDJPermission,
     isServerOwner,
     clearCache,
 };
@@ -27,8 +27,11 @@ export {
     getModRoles,
     addModRole,
     removeModRole,
+    getDJRole,
+    setDJRole,
     hasAdminPermission,
     hasModPermission,
+    hasDJPermission,
     isServerOwner,
     clearCache,
     default as GuildSettingsService,
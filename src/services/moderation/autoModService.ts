@@ -7,6 +7,7 @@
 import type { Message, GuildMember } from 'discord.js';
 import * as FilterService from './filterService.js';
 import * as InfractionService from './infractionService.js';
+import * as PhishingService from './phishingService.js';
 import logger from '../../core/observability/Logger.js';
 import cacheService from '../../cache/cacheService.js';
 import { trackAutomodViolation } from '../../core/observability/metrics.js';
@@ -105,6 +106,7 @@ export async function processMessage(message: Message): Promise<Violation | null
 
         // Run checks in order of severity
         const checks = [
+            () => checkPhishing(message, settings),
             () => checkWordFilter(message, settings),
             () => checkInvites(message, settings),
             () => checkLinks(message, settings),
@@ -127,6 +129,35 @@ export async function processMessage(message: Message): Promise<Violation | null
     }
 }
 // INDIVIDUAL CHECKS
+/**
+ * Check for scam/phishing links and dangerous attachments
+ */
+export async function checkPhishing(message: Message, settings: AutoModSettings): Promise<Violation | null> {
+    if (!settings.phishing_enabled) return null;
+
+    const match = await PhishingService.scanMessage(
+        message.content,
+        message.attachments.map(a => a.name),
+        {
+            extraDomains: settings.phishing_domains,
+            lookalike: settings.phishing_lookalike !== false,
+            expandLinks: settings.phishing_expand_links === true,
+            blockFiles: settings.phishing_block_files !== false
+        }
+    );
+
+    if (!match) return null;
+
+    const isFile = ['dangerous_file', 'double_extension', 'disguised_file'].includes(match.kind);
+    return {
+        type: 'phishing',
+        trigger: match.reason,
+        action: settings.phishing_action || 'delete_warn',
+        severity: isFile ? 4 : 5,
+        details: match
+    };
+}
+
 /**
  * Check word filter
  * Checks both FilterService (database patterns) AND filtered_words from settings (live update)
@@ -148,24 +179,15 @@ export async function checkWordFilter(message: Message, settings: AutoModSetting
     }
 
     // Check filtered_words from settings (live, no cache delay)
-    const filteredWords = settings.filtered_words || [];
-    if (filteredWords.length > 0) {
-        const lowerContent = message.content.toLowerCase();
-        for (const word of filteredWords) {
-            if (!word) continue;
-            const lowerWord = word.toLowerCase();
-            // Check for word boundary matches
-            const wordRegex = new RegExp(`\\b${lowerWord.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i');
-            if (wordRegex.test(lowerContent)) {
-                return {
-                    type: 'filter',
-                    trigger: `Matched filtered word: "${word}"`,
-                    action: 'delete_warn',
-                    severity: 3,
-                    details: { pattern: word, matchType: 'word' }
-                };
-            }
-        }
+    const wordMatch = FilterService.matchWordList(message.guild!.id, message.content, settings.filtered_words || []);
+    if (wordMatch) {
+        return {
+            type: 'filter',
+            trigger: `Matched filtered word: "${wordMatch.word}"`,
+            action: 'delete_warn',
+            severity: 3,
+            details: { pattern: wordMatch.word, matchType: 'word', form: wordMatch.form }
+        };
     }
 
     return null;
@@ -539,6 +561,7 @@ export default {
     removeIgnoredChannel,
     addIgnoredRole,
     removeIgnoredRole,
+    checkPhishing,
     checkWordFilter,
     checkInvites,
     checkLinks,
@@ -0,0 +1,440 @@
+/**
+ * Ban Appeal Service
+ * Appeals submitted from the ban DM, posted to the guild's appeal channel for staff review.
+ * DMs are delivered to one shard only, so everything a user can trigger goes through the
+ * REST API (channels.fetch, Routes.guildBan) instead of the guild cache.
+ * @module services/moderation/banAppealService
+ */
+
+import {
+    ActionRowBuilder,
+    ButtonBuilder,
+    ButtonStyle,
+    Client,
+    EmbedBuilder,
+    Guild,
+    GuildMember,
+    Routes,
+    User
+} from 'discord.js';
+import BanAppealRepository from '../../repositories/moderation/banAppealRepository.js';
+import InfractionRepository from '../../repositories/moderation/infractionRepository.js';
+import GuildSettingsService from '../guild/guildSettingsService.js';
+import infractionService from './infractionService.js';
+import moderationService from './moderationService.js';
+import moderationScheduler from './moderationScheduler.js';
+import moderationConfig from '../../config/features/moderation/index.js';
+import { Result } from '../../core/errors/Result.js';
+import { ErrorCodes } from '../../core/errors/ErrorCodes.js';
+import logger from '../../core/observability/Logger.js';
+import type { BanAppeal, BanAppealSettings, BanAppealStatus } from '../../types/moderation/ban-appeal.js';
+import type { Infraction } from '../../types/moderation/infraction.js';
+
+const SETTINGS_KEY = 'ban_appeals';
+
+const NO_SETTINGS: BanAppealSettings = { channelId: null };
+
+const STATUS_LABELS: Record<BanAppealStatus, string> = {
+    pending: '🟡 Pending review',
+    info_requested: '🔵 Waiting for the user',
+    accepted: '🟢 Accepted',
+    denied: '🔴 Denied'
+};
+
+const STATUS_COLORS: Record<BanAppealStatus, number> = {
+    pending: 0xFFA500,
+    info_requested: 0x5865F2,
+    accepted: 0x00FF00,
+    denied: 0xFF0000
+};
+// BAN APPEAL SERVICE CLASS
+class BanAppealService {
+
+    // --- Settings ---
+
+    async getSettings(guildId: string): Promise<BanAppealSettings> {
+        const settings = await GuildSettingsService.getSetting<BanAppealSettings>(guildId, SETTINGS_KEY, NO_SETTINGS);
+        return { ...NO_SETTINGS, ...settings };
+    }
+
+    /**
+     * Set (or clear) the staff channel appeals are posted to
+     */
+    async setChannel(guildId: string, channelId: string | null): Promise<boolean> {
+        return GuildSettingsService.updateSetting(guildId, SETTINGS_KEY, { channelId } satisfies BanAppealSettings);
+    }
+
+    /**
+     * Whether ban DMs in this guild should carry an Appeal button
+     */
+    async isEnabled(guildId: string): Promise<boolean> {
+        if (!moderationConfig.punishments.ban.includeAppealInfo) return false;
+        const { channelId } = await this.getSettings(guildId);
+        return !!channelId;
+    }
+
+    /**
+     * Appeal button (and the configured appeal message) to attach to a ban DM
+     */
+    buildAppealPrompt(guildId: string, caseId: number): { text: string; row: ActionRowBuilder<ButtonBuilder> } {
+        return {
+            text: moderationConfig.punishments.ban.appealMessage
+                || 'If you think this ban was a mistake, you can appeal it with the button below.',
+            row: new ActionRowBuilder<ButtonBuilder>().addComponents(
+                new ButtonBuilder()
+                    .setCustomId(`appeal_open_${guildId}_${caseId}`)
+                    .setLabel('Appeal')
+                    .setEmoji('📨')
+                    .setStyle(ButtonStyle.Primary)
+            )
+        };
+    }
+
+    // --- User side ---
+
+    /**
+     * Check a user may appeal a ban case right now
+     */
+    async checkEligibility(client: Client, guildId: string, userId: string, caseId: number): Promise<Result<Infraction>> {
+        try {
+            const { channelId } = await this.getSettings(guildId);
+            if (!channelId) {
+                return Result.err(ErrorCodes.NOT_FOUND, 'This server is not accepting ban appeals.');
+            }
+
+            const infraction = await InfractionRepository.getByCaseId(guildId, caseId) as Infraction | null;
+            if (!infraction || infraction.user_id !== userId || infraction.type !== moderationConfig.INFRACTION_TYPES.BAN) {
+                return Result.err(ErrorCodes.CASE_NOT_FOUND, 'That ban case could not be found.');
+            }
+
+            const banned = await client.rest.get(Routes.guildBan(guildId, userId)).then(() => true, () => false);
+            if (!banned) {
+                return Result.err(ErrorCodes.USER_NOT_BANNED, 'You are no longer banned from this server.');
+            }
+
+            const [latest] = await BanAppealRepository.getByCase(guildId, caseId);
+            if (latest?.status === 'pending' || latest?.status === 'info_requested') {
+                return Result.err(ErrorCodes.INVALID_INPUT, 'You already have an appeal under review for this ban.');
+            }
+            if (latest?.status === 'denied') {
+                const retryAt = (latest.reviewedAt ?? latest.createdAt).getTime() + moderationConfig.punishments.ban.appealCooldownMs;
+                if (retryAt > Date.now()) {
+                    return Result.err(ErrorCodes.RATE_LIMITED, `Your last appeal was denied. You can appeal again <t:${Math.floor(retryAt / 1000)}:R>.`);
+                }
+            }
+            if (latest?.status === 'accepted') {
+                return Result.err(ErrorCodes.INVALID_INPUT, 'An appeal for this ban was already accepted.');
+            }
+
+            return Result.ok(infraction);
+        } catch (error) {
+            logger.error('BanAppeal', `Eligibility check failed: ${(error as Error).message}`);
+            return Result.err(ErrorCodes.DB_ERROR, 'Could not check your appeal right now. Please try again later.');
+        }
+    }
+
+    /**
+     * Store an appeal and post it to the staff channel
+     */
+    async submit(client: Client, guildId: string, user: User, caseId: number, statement: string): Promise<Result<BanAppeal>> {
+        const eligible = await this.checkEligibility(client, guildId, user.id, caseId);
+        if (eligible.isErr()) return Result.err(eligible.code, eligible.error);
+
+        try {
+            const appeal = await BanAppealRepository.create({ guildId, userId: user.id, caseId, statement });
+            if (!appeal) {
+                return Result.err(ErrorCodes.INVALID_INPUT, 'You already have an appeal under review for this ban.');
+            }
+
+            await this._postToStaff(client, appeal, eligible.data!, user);
+            return Result.ok(appeal);
+        } catch (error) {
+            logger.error('BanAppeal', `Failed to submit appeal: ${(error as Error).message}`);
+            return Result.err(ErrorCodes.DB_ERROR, 'Could not submit your appeal right now. Please try again later.');
+        }
+    }
+
+    /**
+     * Answer a staff question on an appeal
+     */
+    async respond(client: Client, appealId: number, user: User, response: string): Promise<Result<BanAppeal>> {
+        try {
+            const existing = await BanAppealRepository.getById(appealId);
+            if (!existing || existing.userId !== user.id) {
+                return Result.err(ErrorCodes.NOT_FOUND, 'That appeal could not be found.');
+            }
+
+            const appeal = await BanAppealRepository.respond(appealId, response);
+            if (!appeal) {
+                return Result.err(ErrorCodes.INVALID_INPUT, 'This appeal is no longer waiting for an answer.');
+            }
+
+            await this._refreshStaffMessage(client, appeal);
+            return Result.ok(appeal);
+        } catch (error) {
+            logger.error('BanAppeal', `Failed to store appeal response: ${(error as Error).message}`);
+            return Result.err(ErrorCodes.DB_ERROR, 'Could not send your answer right now. Please try again later.');
+        }
+    }
+
+    // --- Staff side ---
+
+    /**
+     * Accept an appeal: unban the user and log an unban case that references the ban case
+     */
+    async accept(guild: Guild, appealId: number, moderator: GuildMember, note: string | null): Promise<Result<BanAppeal>> {
+        const open = await this._getOpen(guild.id, appealId);
+        if (open.isErr()) return open;
+
+        const appeal = await BanAppealRepository.decide(appealId, 'accepted', moderator.id, note);
+        if (!appeal) {
+            return Result.err(ErrorCodes.INVALID_INPUT, 'This appeal has already been reviewed.');
+        }
+
+        const reason = `Appeal #${appeal.id} accepted (case #${appeal.caseId})${note ? `: ${note}` : ''}`;
+        const unban = await moderationService.unbanUser(guild, appeal.userId, moderator, reason);
+        if (unban.isErr() && unban.code !== ErrorCodes.USER_NOT_BANNED) {
+            await BanAppealRepository.reopen(appeal.id);
+            return Result.err(unban.code, unban.error);
+        }
+
+        await moderationScheduler.cancel(guild.id, 'unban', appeal.userId);
+
+        try {
+            await InfractionRepository.deactivate(guild.id, appeal.caseId, moderator.id, `Appeal #${appeal.id} accepted`);
+            const user = await guild.client.users.fetch(appeal.userId).catch(() => null);
+            const infraction = await infractionService.createInfraction({
+                guild,
+                user: user || { id: appeal.userId },
+                moderator: moderator.user,
+                type: moderationConfig.INFRACTION_TYPES.UNBAN!,
+                reason,
+                referenceId: appeal.caseId,
+                metadata: { appeal_id: appeal.id }
+            });
+            await BanAppealRepository.setResultCase(appeal.id, infraction.case_id);
+            appeal.resultCaseId = infraction.case_id;
+        } catch (error) {
+            logger.error('BanAppeal', `Failed to log unban case for appeal #${appeal.id}: ${(error as Error).message}`);
+        }
+
+        await this._notifyUser(guild.client, appeal, new EmbedBuilder()
+            .setColor(STATUS_COLORS.accepted)
+            .setTitle(`✅ Your appeal to ${guild.name} was accepted`)
+            .setDescription(note ? `**Note from staff:** ${note}` : 'You have been unbanned and can rejoin the server.')
+            .setTimestamp());
+        await this._refreshStaffMessage(guild.client, appeal);
+
+        return Result.ok(appeal);
+    }
+
+    /**
+     * Deny an appeal; the user may appeal again after the cooldown
+     */
+    async deny(guild: Guild, appealId: number, moderator: GuildMember, note: string | null): Promise<Result<BanAppeal>> {
+        const open = await this._getOpen(guild.id, appealId);
+        if (open.isErr()) return open;
+
+        const appeal = await BanAppealRepository.decide(appealId, 'denied', moderator.id, note);
+        if (!appeal) {
+            return Result.err(ErrorCodes.INVALID_INPUT, 'This appeal has already been reviewed.');
+        }
+
+        const retryAt = Date.now() + moderationConfig.punishments.ban.appealCooldownMs;
+        const embed = new EmbedBuilder()
+            .setColor(STATUS_COLORS.denied)
+            .setTitle(`❌ Your appeal to ${guild.name} was denied`)
+            .setDescription(`You can appeal again <t:${Math.floor(retryAt / 1000)}:R>.`)
+            .setTimestamp();
+        if (note) embed.addFields({ name: 'Note from staff', value: note });
+
+        await this._notifyUser(guild.client, appeal, embed, [this.buildAppealPrompt(guild.id, appeal.caseId).row]);
+        await this._refreshStaffMessage(guild.client, appeal);
+
+        return Result.ok(appeal);
+    }
+
+    /**
+     * Ask the user a question; the appeal waits until they answer
+     */
+    async requestInfo(guild: Guild, appealId: number, moderator: GuildMember, question: string): Promise<Result<BanAppeal>> {
+        const open = await this._getOpen(guild.id, appealId);
+        if (open.isErr()) return open;
+
+        const appeal = await BanAppealRepository.requestInfo(appealId, moderator.id, question);
+        if (!appeal) {
+            return Result.err(ErrorCodes.INVALID_INPUT, 'This appeal is not pending review.');
+        }
+
+        const delivered = await this._notifyUser(guild.client, appeal, new EmbedBuilder()
+            .setColor(STATUS_COLORS.info_requested)
+            .setTitle(`❓ ${guild.name} needs more information about your appeal`)
+            .setDescription(question)
+            .setTimestamp(), [
+            new ActionRowBuilder<ButtonBuilder>().addComponents(
+                new ButtonBuilder()
+                    .setCustomId(`appeal_respond_${appeal.id}`)
+                    .setLabel('Answer')
+                    .setEmoji('✉️')
+                    .setStyle(ButtonStyle.Primary)
+            )
+        ]);
+        await this._refreshStaffMessage(guild.client, appeal);
+        if (!delivered) {
+            return Result.err(ErrorCodes.INVALID_INPUT, 'The user has DMs closed, so the question could not be delivered. You can still accept or deny the appeal.');
+        }
+
+        return Result.ok(appeal);
+    }
+
+    async getAppeal(guildId: string, appealId: number): Promise<BanAppeal | null> {
+        const appeal = await BanAppealRepository.getById(appealId).catch(() => null);
+        return appeal?.guildId === guildId ? appeal : null;
+    }
+
+    /**
+     * Every appeal made against a case, newest first
+     */
+    async getHistory(guildId: string, caseId: number): Promise<BanAppeal[]> {
+        try {
+            return await BanAppealRepository.getByCase(guildId, caseId);
+        } catch (error) {
+            logger.error('BanAppeal', `Failed to load appeal history: ${(error as Error).message}`);
+            return [];
+        }
+    }
+
+    // --- Staff message ---
+
+    buildStaffEmbed(appeal: BanAppeal, ban: Infraction | null = null, user: User | null = null): EmbedBuilder {
+        const embed = new EmbedBuilder()
+            .setColor(STATUS_COLORS[appeal.status])
+            .setTitle(`📨 Ban Appeal #${appeal.id}`)
+            .addFields(
+                { name: 'User', value: `${user?.tag ?? 'Unknown'} (<@${appeal.userId}>)\n\`${appeal.userId}\``, inline: true },
+                { name: 'Case', value: `#${appeal.caseId}`, inline: true },
+                { name: 'Status', value: STATUS_LABELS[appeal.status], inline: true }
+            )
+            .setTimestamp(appeal.createdAt);
+
+        if (ban) {
+            embed.addFields({ name: 'Ban Reason', value: ban.reason || 'No reason provided' });
+        }
+        embed.addFields({ name: 'Appeal', value: appeal.statement.slice(0, 1024) });
+
+        if (appeal.infoRequest) {
+            embed.addFields({ name: 'Staff Question', value: appeal.infoRequest.slice(0, 1024) });
+            embed.addFields({ name: 'Answer', value: appeal.infoResponse?.slice(0, 1024) || '*Waiting for the user*' });
+        }
+        if (appeal.reviewerId && (appeal.status === 'accepted' || appeal.status === 'denied')) {
+            embed.addFields({ name: 'Reviewed By', value: `<@${appeal.reviewerId}>`, inline: true });
+            if (appeal.reviewNote) embed.addFields({ name: 'Note', value: appeal.reviewNote.slice(0, 1024), inline: true });
+            if (appeal.resultCaseId) embed.addFields({ name: 'Unban Case', value: `#${appeal.resultCaseId}`, inline: true });
+        }
+        if (user) embed.setThumbnail(user.displayAvatarURL());
+
+        return embed;
+    }
+
+    /**
+     * Review buttons; empty once the appeal is closed
+     */
+    buildStaffButtons(appeal: BanAppeal): ActionRowBuilder<ButtonBuilder>[] {
+        if (appeal.status === 'accepted' || appeal.status === 'denied') return [];
+
+        return [new ActionRowBuilder<ButtonBuilder>().addComponents(
+            new ButtonBuilder()
+                .setCustomId(`appeal_accept_${appeal.id}`)
+                .setLabel('Accept')
+                .setStyle(ButtonStyle.Success),
+            new ButtonBuilder()
+                .setCustomId(`appeal_deny_${appeal.id}`)
+                .setLabel('Deny')
+                .setStyle(ButtonStyle.Danger),
+            new ButtonBuilder()
+                .setCustomId(`appeal_info_${appeal.id}`)
+                .setLabel('Request Info')
+                .setStyle(ButtonStyle.Secondary)
+                .setDisabled(appeal.status !== 'pending')
+        )];
+    }
+
+    // --- Internals ---
+
+    private async _getOpen(guildId: string, appealId: number): Promise<Result<BanAppeal>> {
+        const appeal = await this.getAppeal(guildId, appealId);
+        if (!appeal) {
+            return Result.err(ErrorCodes.NOT_FOUND, `Appeal #${appealId} could not be found.`);
+        }
+        if (appeal.status === 'accepted' || appeal.status === 'denied') {
+            return Result.err(ErrorCodes.INVALID_INPUT, 'This appeal has already been reviewed.');
+        }
+        return Result.ok(appeal);
+    }
+
+    /**
+     * Post a new appeal for review. A failure here only loses the message:
+     * the appeal is stored and staff can still pull it up with /appeal view.
+     */
+    private async _postToStaff(client: Client, appeal: BanAppeal, ban: Infraction, user: User): Promise<void> {
+        const { channelId } = await this.getSettings(appeal.guildId);
+        const channel = channelId ? await client.channels.fetch(channelId).catch(() => null) : null;
+        if (!channel || !channel.isSendable()) {
+            logger.warn('BanAppeal', `Appeal #${appeal.id} could not be posted: appeal channel missing in guild ${appeal.guildId}`);
+            return;
+        }
+
+        try {
+            const message = await channel.send({
+                embeds: [this.buildStaffEmbed(appeal, ban, user)],
+                components: this.buildStaffButtons(appeal)
+            });
+            await BanAppealRepository.setStaffMessage(appeal.id, channel.id, message.id);
+        } catch (error) {
+            logger.warn('BanAppeal', `Appeal #${appeal.id} could not be posted: ${(error as Error).message}`);
+        }
+    }
+
+    private async _refreshStaffMessage(client: Client, appeal: BanAppeal): Promise<void> {
+        if (!appeal.staffChannelId || !appeal.staffMessageId) return;
+
+        try {
+            const channel = await client.channels.fetch(appeal.staffChannelId);
+            if (!channel?.isTextBased()) return;
+
+            const message = await channel.messages.fetch(appeal.staffMessageId);
+            const ban = await InfractionRepository.getByCaseId(appeal.guildId, appeal.caseId) as Infraction | null;
+            const user = await client.users.fetch(appeal.userId).catch(() => null);
+            await message.edit({
+                embeds: [this.buildStaffEmbed(appeal, ban, user)],
+                components: this.buildStaffButtons(appeal)
+            });
+        } catch (error) {
+            logger.warn('BanAppeal', `Failed to update staff message for appeal #${appeal.id}: ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * DM the appealing user; resolves false when their DMs are closed
+     */
+    private async _notifyUser(
+        client: Client,
+        appeal: BanAppeal,
+        embed: EmbedBuilder,
+        components: ActionRowBuilder<ButtonBuilder>[] = []
+    ): Promise<boolean> {
+        try {
+            const user = await client.users.fetch(appeal.userId);
+            await user.send({ embeds: [embed], components });
+            return true;
+        } catch {
+            return false;
+        }
+    }
+}
+
+// Create default instance
+const banAppealService = new BanAppealService();
+
+export { BanAppealService };
+export default banAppealService;
@@ -6,12 +6,54 @@
 
 import FilterRepository from '../../repositories/moderation/filterRepository.js';
 import filterConfig from '../../config/features/moderation/filters.js';
-import type { Filter, FilterMatch } from '../../types/moderation/filter-service.js';
-export { type Filter, type FilterMatch } from '../../types/moderation/filter-service.js';
-
+import type {
+    Filter,
+    FilterMatch,
+    CompiledFilter,
+    CompiledWord,
+    NormalizedForm,
+    NormalizedText,
+    WordListMatch,
+    FilterTestResult
+} from '../../types/moderation/filter-service.js';
+export {
+    type Filter,
+    type FilterMatch,
+    type CompiledFilter,
+    type CompiledWord,
+    type NormalizedForm,
+    type NormalizedText,
+    type WordListMatch,
+    type FilterTestResult
+} from '../../types/moderation/filter-service.js';
+
+import type { FilterBulkItem } from '../../types/moderation/filter-repository.js';
 import cacheService from '../../cache/cacheService.js';
 
 const CACHE_TTL_SECONDS = 300; // 5 minutes
+const MAX_TEST_MATCHES = 10;
+
+/**
+ * Zero-width, joiner, bidi and filler characters that render as nothing
+ */
+const INVISIBLE_CHARS = /[\u00ad\u034f\u061c\u115f\u1160\u17b4\u17b5\u180b-\u180f\u200b-\u200f\u202a-\u202e\u2060-\u206f\u3164\ufe00-\ufe0f\ufeff\uffa0]/g;
+
+/**
+ * A run of three or more single characters split by the same separator: "b a d", "b.a.d", "b-a-d".
+ * Requiring the same separator keeps "a b.a.d" from swallowing the "a".
+ */
+const SPACED_OUT = /(?<![\p{L}\p{N}])[\p{L}\p{N}]([^\p{L}\p{N}\n]{1,3})[\p{L}\p{N}](?:\1[\p{L}\p{N}])+(?![\p{L}\p{N}])/gu;
+const SEPARATORS = /[^\p{L}\p{N}]+/gu;
+
+/**
+ * Compiled filters per guild, reused while the guild's filter list is unchanged
+ */
+const compiledCache = new Map<string, { signature: string; filters: CompiledFilter[] }>();
+
+/**
+ * Compiled word lists per guild, reused while the guild's filtered words are unchanged
+ */
+const wordListCache = new Map<string, { signature: string; words: CompiledWord[] }>();
 // CORE FUNCTIONS
 /**
  * Get filters for a guild (with caching via Redis)
@@ -25,90 +67,212 @@ export async function getFilters(guildId: string): Promise<Filter[]> {
     );
 }
 
+/**
+ * Get a guild's filters compiled to matchers.
+ * Compilation is skipped while the cached list is the same as last time.
+ */
+export async function getCompiledFilters(guildId: string): Promise<CompiledFilter[]> {
+    const filters = await getFilters(guildId);
+    const signature = filters
+        .map(f => `${f.id}:${f.match_type}:${f.normalize !== false}:${f.action}:${f.severity}:${f.pattern}`)
+        .join('\n');
+
+    const cached = compiledCache.get(guildId);
+    if (cached && cached.signature === signature) return cached.filters;
+
+    const compiled = filters.map(compileFilter);
+    compiledCache.set(guildId, { signature, filters: compiled });
+    return compiled;
+}
+
 /**
  * Invalidate cache for a guild
  */
 export async function invalidateCache(guildId: string): Promise<void> {
+    compiledCache.delete(guildId);
+    wordListCache.delete(guildId);
     await cacheService.delete('guild', `filters:${guildId}`);
 }
+// NORMALIZATION
+/**
+ * Map each character through a lookup table
+ */
+function mapChars(text: string, map: Record<string, string>): string {
+    return Array.from(text, c => map[c] ?? c).join('');
+}
 
 /**
  * Normalize text for matching
  */
 export function normalizeText(text: string): string {
-    let normalized = text.toLowerCase();
+    const settings = filterConfig.settings;
+    let normalized = settings?.normalizeUnicode ? text.normalize('NFKC') : text;
+
+    normalized = normalized.toLowerCase().replace(INVISIBLE_CHARS, '');
 
     // Strip zalgo
-    if (filterConfig.settings?.stripZalgo && filterConfig.zalgoPattern) {
+    if (settings?.stripZalgo && filterConfig.zalgoPattern) {
         normalized = normalized.replace(filterConfig.zalgoPattern, '');
     }
 
-    // Normalize unicode
-    if (filterConfig.settings?.normalizeUnicode && filterConfig.unicodeMap) {
-        for (const [char, replacement] of Object.entries(filterConfig.unicodeMap)) {
-            normalized = normalized.replace(new RegExp(char, 'g'), replacement);
-        }
+    // Fold accents and lookalike letters
+    if (settings?.normalizeUnicode && filterConfig.unicodeMap) {
+        normalized = mapChars(normalized, filterConfig.unicodeMap);
     }
 
     // Convert leetspeak
-    if (filterConfig.settings?.checkLeetspeak && filterConfig.leetspeak) {
-        for (const [char, replacement] of Object.entries(filterConfig.leetspeak)) {
-            const escapedChar = char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-            normalized = normalized.replace(new RegExp(escapedChar, 'g'), replacement);
-        }
+    if (settings?.checkLeetspeak && filterConfig.leetspeak) {
+        normalized = mapChars(normalized, filterConfig.leetspeak);
     }
 
     return normalized;
 }
 
 /**
- * Check if text matches a filter pattern
+ * Join letters spaced out to dodge filters, leaving ordinary words alone
  */
-export function matchesFilter(text: string, filter: Filter): boolean {
-    const normalizedText = normalizeText(text);
-    const pattern = filter.pattern.toLowerCase();
+export function collapseSeparators(text: string): string {
+    return text.replace(/[ \t]+/g, ' ').replace(SPACED_OUT, run => run.replace(SEPARATORS, ''));
+}
+
+/**
+ * Build every form of a message that filters are matched against
+ */
+export function normalizeForms(text: string): NormalizedText {
+    const normalized = normalizeText(text);
+
+    return {
+        raw: text.toLowerCase(),
+        normalized,
+        collapsed: filterConfig.settings?.collapseSeparators ? collapseSeparators(normalized) : normalized
+    };
+}
+// MATCHING
+/**
+ * Escape regex special characters
+ */
+function escapeRegex(str: string): string {
+    return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
 
-    switch (filter.match_type) {
+/**
+ * Build a matcher for a plain (non-regex) pattern
+ */
+function buildMatcher(pattern: string, matchType: Filter['match_type']): RegExp | null {
+    if (!pattern) return null;
+
+    const escaped = escapeRegex(pattern);
+    switch (matchType) {
         case 'exact':
-            return normalizedText === pattern;
+            return new RegExp(`^${escaped}$`, 'i');
+        case 'word':
+            return new RegExp(`\\b${escaped}\\b`, 'i');
+        default:
+            return new RegExp(escaped, 'i');
+    }
+}
 
-        case 'word': {
-            const regex = new RegExp(`\\b${escapeRegex(pattern)}\\b`, 'i');
-            return regex.test(normalizedText);
-        }
+/**
+ * Compile a user-supplied regex pattern
+ */
+function compileRegex(pattern: string): RegExp | null {
+    // ReDoS protection: reject patterns that are too long or contain
+    // nested quantifiers known to cause catastrophic backtracking.
+    if (pattern.length > 200) return null;
+    if (/([+*?]\??){2,}|\([^)]*\)[+*?][+*?]/.test(pattern)) return null;
+
+    try {
+        return new RegExp(pattern, 'i');
+    } catch {
+        return null;
+    }
+}
 
-        case 'contains':
-            return normalizedText.includes(pattern);
-
-        case 'regex': {
-            try {
-                // ReDoS protection: reject patterns that are too long or contain
-                // nested quantifiers known to cause catastrophic backtracking.
-                if (filter.pattern.length > 200) return false;
-                if (/([+*?]\??){2,}|\([^)]*\)[+*?][+*?]/.test(filter.pattern)) return false;
-                const regex = new RegExp(filter.pattern, 'i');
-                return regex.test(text);
-            } catch {
-                return false;
-            }
-        }
+/**
+ * Compile a filter to matchers for the raw and normalised forms.
+ * Plain patterns go through the same normalisation as messages,
+ * so "h3ll0" and "hello" filters behave the same.
+ */
+export function compileFilter(filter: Filter): CompiledFilter {
+    const normalize = filter.normalize !== false;
 
-        default:
-            return normalizedText.includes(pattern);
+    if (filter.match_type === 'regex') {
+        const regex = compileRegex(filter.pattern);
+        return { filter, raw: regex, normalized: normalize ? regex : null };
     }
+
+    return {
+        filter,
+        raw: buildMatcher(filter.pattern.toLowerCase(), filter.match_type),
+        normalized: normalize ? buildMatcher(normalizeText(filter.pattern), filter.match_type) : null
+    };
 }
 
 /**
- * Escape regex special characters
+ * Find the first form of a message the matchers hit
  */
-function escapeRegex(str: string): string {
-    return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+function findMatchingForm(
+    matchers: Pick<CompiledFilter, 'raw' | 'normalized'>,
+    forms: NormalizedText
+): NormalizedForm | null {
+    if (matchers.raw?.test(forms.raw)) return 'raw';
+
+    if (matchers.normalized) {
+        if (matchers.normalized.test(forms.normalized)) return 'normalized';
+        if (forms.collapsed !== forms.normalized && matchers.normalized.test(forms.collapsed)) return 'collapsed';
+    }
+
+    return null;
 }
 
 /**
- * Check message content against filters
+ * Check if text matches a filter pattern
  */
-export async function checkMessage(guildId: string, content: string): Promise<FilterMatch | null> {
+export function matchesFilter(text: string, filter: Filter): boolean {
+    return findMatchingForm(compileFilter(filter), normalizeForms(text)) !== null;
+}
+
+/**
+ * Get a guild's filtered words compiled to matchers.
+ * Compilation is skipped while the word list is the same as last time.
+ */
+function getCompiledWordList(guildId: string, words: string[]): CompiledWord[] {
+    const signature = words.join('\n');
+
+    const cached = wordListCache.get(guildId);
+    if (cached && cached.signature === signature) return cached.words;
+
+    const compiled = words
+        .filter(word => word)
+        .map(word => ({
+            word,
+            raw: buildMatcher(word.toLowerCase(), 'word'),
+            normalized: buildMatcher(normalizeText(word), 'word')
+        }));
+    wordListCache.set(guildId, { signature, words: compiled });
+    return compiled;
+}
+
+/**
+ * Check text against a guild's plain word list (the automod panel's filtered words)
+ */
+export function matchWordList(guildId: string, text: string, words: string[]): WordListMatch | null {
+    if (words.length === 0) return null;
+    const forms = normalizeForms(text);
+
+    for (const compiled of getCompiledWordList(guildId, words)) {
+        const form = findMatchingForm(compiled, forms);
+        if (form) return { word: compiled.word, form };
+    }
+
+    return null;
+}
+
+/**
+ * Drop exempt content (links, etc.) before matching
+ * @returns null when nothing worth checking is left
+ */
+function prepareContent(content: string): string | null {
     if (!content || content.length < (filterConfig.settings?.minWordLength || 2)) {
         return null;
     }
@@ -121,25 +285,56 @@ export async function checkMessage(guildId: string, content: string): Promise<Fi
         }
     }
 
-    if (!processedContent.trim()) return null;
+    return processedContent.trim() ? processedContent : null;
+}
 
-    const filters = await getFilters(guildId);
+function toFilterMatch(filter: Filter, form: NormalizedForm): FilterMatch {
+    return {
+        filter,
+        matched: true,
+        pattern: filter.pattern,
+        action: filter.action,
+        severity: filter.severity,
+        form
+    };
+}
 
-    for (const filter of filters) {
-        if (matchesFilter(processedContent, filter)) {
-            return {
-                filter,
-                matched: true,
-                pattern: filter.pattern,
-                action: filter.action,
-                severity: filter.severity
-            };
-        }
+/**
+ * Check message content against filters
+ */
+export async function checkMessage(guildId: string, content: string): Promise<FilterMatch | null> {
+    const processedContent = prepareContent(content);
+    if (!processedContent) return null;
+
+    const forms = normalizeForms(processedContent);
+
+    for (const compiled of await getCompiledFilters(guildId)) {
+        const form = findMatchingForm(compiled, forms);
+        if (form) return toFilterMatch(compiled.filter, form);
     }
 
     return null;
 }
 
+/**
+ * Show how a piece of text is normalised and which filters it trips
+ */
+export async function testText(guildId: string, text: string, words: string[] = []): Promise<FilterTestResult> {
+    const processedContent = prepareContent(text) ?? '';
+    const forms = normalizeForms(processedContent);
+    const matches: FilterMatch[] = [];
+
+    if (processedContent) {
+        for (const compiled of await getCompiledFilters(guildId)) {
+            const form = findMatchingForm(compiled, forms);
+            if (form) matches.push(toFilterMatch(compiled.filter, form));
+            if (matches.length >= MAX_TEST_MATCHES) break;
+        }
+    }
+
+    return { forms, matches, wordMatch: matchWordList(guildId, text, words) };
+}
+
 /**
  * Add a filter
  */
@@ -154,10 +349,10 @@ export async function addFilter(data: Partial<Filter> & { guildId: string }): Pr
  */
 export async function addFilters(
     guildId: string,
-    filters: Partial<Filter>[],
+    filters: FilterBulkItem[],
     createdBy: string
 ): Promise<number> {
-    const count = await FilterRepository.addBulk(guildId, filters as any, createdBy);
+    const count = await FilterRepository.addBulk(guildId, filters, createdBy);
     await invalidateCache(guildId);
     return count;
 }
@@ -187,6 +382,13 @@ export async function listFilters(guildId: string): Promise<Filter[]> {
     return FilterRepository.getAll(guildId) as Promise<Filter[]>;
 }
 
+/**
+ * Filters with normalisation turned off, which only match the raw text
+ */
+export async function listExactFilters(guildId: string): Promise<Filter[]> {
+    return (await listFilters(guildId)).filter(filter => filter.normalize === false);
+}
+
 /**
  * Clear all filters for a guild
  */
@@ -209,7 +411,7 @@ export async function importPreset(
         throw new Error(`Preset "${presetName}" not found`);
     }
 
-    return addFilters(guildId, preset.words, createdBy);
+    return addFilters(guildId, preset.words as FilterBulkItem[], createdBy);
 }
 
 /**
@@ -228,15 +430,22 @@ export async function searchFilters(guildId: string, searchTerm: string): Promis
 // EXPORTS
 export default {
     getFilters,
+    getCompiledFilters,
     invalidateCache,
     normalizeText,
+    collapseSeparators,
+    normalizeForms,
+    compileFilter,
     matchesFilter,
+    matchWordList,
     checkMessage,
+    testText,
     addFilter,
     addFilters,
     removeFilter,
     removeFilterById,
     listFilters,
+    listExactFilters,
     clearFilters,
     importPreset,
     getFilterCount,
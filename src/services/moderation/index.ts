@@ -9,13 +9,18 @@ export { default as moderationService } from './moderationService.js';
 export { default as snipeService } from './snipeService.js';
 export { default as filterService } from './filterService.js';
 export { default as autoModService } from './autoModService.js';
+export { default as phishingService } from './phishingService.js';
 export { default as infractionService } from './infractionService.js';
 export { default as modLogService } from './modLogService.js';
 export { default as lockdownService } from './lockdownService.js';
 export { default as antiRaidService } from './antiRaidService.js';
+export { default as moderationScheduler } from './moderationScheduler.js';
+export { default as banAppealService } from './banAppealService.js';
+export { default as modNoteService } from './modNoteService.js';
+export { default as userDossierService } from './userDossierService.js';
 
 // Type exports - only types that actually exist in TypeScript files
-export { type Filter, type FilterMatch } from './filterService.js';
+export { type Filter, type FilterMatch, type NormalizedForm, type FilterTestResult } from './filterService.js';
 export { type AutoModSettings, type Violation } from './autoModService.js';
 export { type Infraction } from './infractionService.js';
 export { type ModLogSettings } from '../../types/moderation/modlog.js';
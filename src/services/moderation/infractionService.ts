@@ -8,11 +8,13 @@ import { EmbedBuilder, Guild, User } from 'discord.js';
 import * as ModLogService from './modLogService.js';
 import { formatDuration } from '../../utils/common/time.js';
 import InfractionRepository from '../../repositories/moderation/infractionRepository.js';
+import CaseRevisionRepository from '../../repositories/moderation/caseRevisionRepository.js';
 import moderationConfig from '../../config/features/moderation/index.js';
 import db from '../../database/index.js';
 import type { Infraction } from '../../types/moderation/infraction.js';
 import type { CreateInfractionOptions, EscalationResult } from '../../types/moderation/services.js';
 import type { ThresholdRow } from '../../types/moderation/infraction-service.js';
+import type { CaseRevision, CaseRevisionResult } from '../../types/moderation/case-revision.js';
 
 // Re-export config values
 export const INFRACTION_TYPES = moderationConfig.INFRACTION_TYPES as Record<string, string>;
@@ -31,13 +33,14 @@ export async function createInfraction(options: CreateInfractionOptions): Promis
         reason,
         durationMs,
         expiryDays,
+        referenceId,
         metadata = {}
     } = options;
 
     let expiresAt: Date | undefined;
     if (type === INFRACTION_TYPES.WARN && expiryDays) {
         expiresAt = new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000);
-    } else if (durationMs && type === INFRACTION_TYPES.MUTE) {
+    } else if (durationMs && (type === INFRACTION_TYPES.MUTE || type === INFRACTION_TYPES.BAN)) {
         expiresAt = new Date(Date.now() + durationMs);
     }
 
@@ -49,6 +52,7 @@ export async function createInfraction(options: CreateInfractionOptions): Promis
         reason: reason || (moderationConfig.punishments?.defaultReasons as Record<string, string> | undefined)?.[type] || 'No reason provided',
         durationMs,
         expiresAt,
+        referenceId,
         metadata: {
             ...metadata,
             userTag: ('tag' in user ? user.tag : user.username) || 'Unknown',
@@ -146,14 +150,15 @@ export async function logKick(
 }
 
 /**
- * Log a ban action
+ * Log a ban action; durationMs makes it a temporary ban that expires
  */
 export async function logBan(
     guild: Guild,
     user: User,
     moderator: User,
     reason: string,
-    metadata: Record<string, unknown> = {}
+    metadata: Record<string, unknown> = {},
+    durationMs?: number
 ): Promise<Infraction> {
     return createInfraction({
         guild,
@@ -161,6 +166,7 @@ export async function logBan(
         moderator,
         type: INFRACTION_TYPES.BAN,
         reason,
+        durationMs,
         metadata
     });
 }
@@ -249,33 +255,80 @@ export async function getWarningCount(guildId: string, userId: string): Promise<
 }
 
 /**
- * Clear all warnings for a user
+ * Clear all warnings for a user. Every cleared case keeps the change in its history.
  */
-export async function clearWarnings(guildId: string, userId: string): Promise<number> {
-    const result = await db.query(
-        'UPDATE mod_cases SET active = FALSE WHERE guild_id = $1 AND user_id = $2 AND type = $3 AND active = TRUE',
-        [guildId, userId, INFRACTION_TYPES.WARN]
-    );
-    return (result as { rowCount?: number }).rowCount || 0;
+export async function clearWarnings(guildId: string, userId: string, editorId: string, note: string | null = null): Promise<number> {
+    return InfractionRepository.clearWarnings(guildId, userId, editorId, note);
 }
 
 /**
- * Update a case reason
+ * Update a case reason. With an editor the change is kept in the case history.
  */
 export async function updateReason(
     guildId: string,
     caseId: number,
-    newReason: string
+    newReason: string,
+    editorId?: string
 ): Promise<Infraction | null> {
+    if (editorId) {
+        const result = await InfractionRepository.revise(guildId, caseId, 'reason', newReason, editorId);
+        return result?.infraction ?? null;
+    }
     return InfractionRepository.update(guildId, caseId, { reason: newReason }) as Promise<Infraction | null>;
 }
 
 /**
- * Delete (deactivate) a case
+ * Delete (deactivate) a case, keeping the change in the case history
  */
-export async function deleteCase(guildId: string, caseId: number): Promise<boolean> {
-    const result = await InfractionRepository.deactivate(guildId, caseId);
-    return !!result;
+export async function deleteCase(guildId: string, caseId: number, editorId: string, note: string | null = null): Promise<boolean> {
+    return InfractionRepository.deactivate(guildId, caseId, editorId, note);
+}
+// CASE AMENDMENTS
+/**
+ * Change a case's reason, keeping the old one in the case history
+ * @returns Null when the case doesn't exist
+ */
+export async function editCase(
+    guildId: string,
+    caseId: number,
+    editorId: string,
+    newReason: string,
+    note: string | null = null
+): Promise<CaseRevisionResult | null> {
+    return InfractionRepository.revise(guildId, caseId, 'reason', newReason, editorId, note);
+}
+
+/**
+ * Void a case: it stays on record but stops counting towards warning totals and escalation
+ * @returns Null when the case doesn't exist
+ */
+export async function voidCase(
+    guildId: string,
+    caseId: number,
+    editorId: string,
+    note: string | null = null
+): Promise<CaseRevisionResult | null> {
+    return InfractionRepository.revise(guildId, caseId, 'voided', true, editorId, note);
+}
+
+/**
+ * Undo a void
+ * @returns Null when the case doesn't exist
+ */
+export async function restoreCase(
+    guildId: string,
+    caseId: number,
+    editorId: string,
+    note: string | null = null
+): Promise<CaseRevisionResult | null> {
+    return InfractionRepository.revise(guildId, caseId, 'voided', false, editorId, note);
+}
+
+/**
+ * Revision history of a case, oldest first
+ */
+export async function getCaseRevisions(guildId: string, caseId: number): Promise<CaseRevision[]> {
+    return CaseRevisionRepository.getByCase(guildId, caseId);
 }
 
 /**
@@ -332,9 +385,11 @@ export async function getStats(guildId: string): Promise<Record<string, number>>
 /**
  * Build an embed for displaying a case
  */
-export function buildCaseEmbed(infraction: Infraction, user: User | null = null): EmbedBuilder {
+export function buildCaseEmbed(infraction: Infraction, user: User | null = null, revisions: CaseRevision[] = []): EmbedBuilder {
     const type = infraction.type.toUpperCase();
-    const color = (COLORS as Record<string, number>)[type] || COLORS.DEFAULT;
+    const color = infraction.voided_at
+        ? 0x99AAB5
+        : (COLORS as Record<string, number>)[type] || COLORS.DEFAULT;
     const emoji = (EMOJIS as Record<string, string>)[type] || EMOJIS.CASE;
 
     const embed = new EmbedBuilder()
@@ -360,10 +415,29 @@ export function buildCaseEmbed(infraction: Infraction, user: User | null = null)
         });
     }
 
-    if (!infraction.active) {
+    if (infraction.voided_at) {
+        embed.addFields({
+            name: '🚫 Voided',
+            value: `By <@${infraction.voided_by}> <t:${Math.floor(new Date(infraction.voided_at).getTime() / 1000)}:R>`,
+            inline: false
+        });
+        embed.setFooter({ text: '🚫 This case has been voided and no longer counts' });
+    } else if (!infraction.active) {
         embed.setFooter({ text: '⚠️ This case has been deactivated' });
     }
 
+    if (revisions.length > 0) {
+        // Newest last; drop the oldest entries when the history doesn't fit one field
+        const lines = revisions.map(formatRevision);
+        while (lines.length > 1 && lines.join('\n').length > 1000) lines.shift();
+        const hidden = revisions.length - lines.length;
+        embed.addFields({
+            name: `📜 History (${revisions.length})`,
+            value: (hidden > 0 ? `*${hidden} older change(s) not shown*\n` : '') + lines.join('\n').slice(0, 1000),
+            inline: false
+        });
+    }
+
     if (user?.displayAvatarURL) {
         embed.setThumbnail(user.displayAvatarURL());
     }
@@ -371,6 +445,24 @@ export function buildCaseEmbed(infraction: Infraction, user: User | null = null)
     return embed;
 }
 
+/**
+ * One history line for a case revision
+ */
+export function formatRevision(revision: CaseRevision): string {
+    const when = `<t:${Math.floor(revision.createdAt.getTime() / 1000)}:R>`;
+    const clip = (value: string | null) => value && value.length > 80 ? `${value.slice(0, 80)}…` : value || '*none*';
+    const note = revision.note ? ` — ${clip(revision.note)}` : '';
+
+    switch (revision.field) {
+        case 'reason':
+            return `✏️ ${when} <@${revision.editorId}> changed the reason from "${clip(revision.oldValue)}" to "${clip(revision.newValue)}"${note}`;
+        case 'active':
+            return `${revision.newValue === 'true' ? '🟢' : '🔴'} ${when} <@${revision.editorId}> ${revision.newValue === 'true' ? 'reactivated' : 'deactivated'} the case${note}`;
+        case 'voided':
+            return `${revision.newValue === 'true' ? '🚫' : '♻️'} ${when} <@${revision.editorId}> ${revision.newValue === 'true' ? 'voided' : 'restored'} the case${note}`;
+    }
+}
+
 /**
  * Expire old infractions
  */
@@ -394,6 +486,11 @@ export default {
     clearWarnings,
     updateReason,
     deleteCase,
+    editCase,
+    voidCase,
+    restoreCase,
+    getCaseRevisions,
+    formatRevision,
     checkEscalation,
     getRecentCases,
     getStats,
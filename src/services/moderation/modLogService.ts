@@ -4,13 +4,13 @@
  * @module services/moderation/modLogService
  */
 
-import { EmbedBuilder, Guild, User, Snowflake, Message } from 'discord.js';
+import { EmbedBuilder, Guild, GuildMember, GuildBasedChannel, Role, User, Snowflake, Message, SendableChannels } from 'discord.js';
 import { formatDuration } from '../../utils/common/time.js';
 import logger from '../../core/observability/Logger.js';
 import type { Infraction } from './infractionService.js';
 import ModLogRepository from '../../repositories/moderation/modLogRepository.js';
 import moderationConfig from '../../config/features/moderation/index.js';
-import type { ModLogSettings } from '../../types/moderation/modlog.js';
+import type { ModLogSettings, ModLogType } from '../../types/moderation/modlog.js';
 
 // Re-export from config
 const COLORS = moderationConfig.COLORS || {} as Record<string, number>;
@@ -132,6 +132,13 @@ function buildInfractionEmbed(
                 inline: true
             });
         }
+        if (infraction.metadata.role_id) {
+            embed.addFields({
+                name: '🏷️ Role',
+                value: `<@&${infraction.metadata.role_id}>`,
+                inline: true
+            });
+        }
         if (infraction.metadata.channel_id) {
             embed.addFields({
                 name: '📍 Channel',
@@ -160,7 +167,9 @@ function formatTypeName(type: string): string {
         softban: 'Softban',
         filter: 'Filter Trigger',
         automod: 'Auto-Mod Action',
-        note: 'Mod Note'
+        note: 'Mod Note',
+        role_remove: 'Role Removed',
+        unlock: 'Channel Unlocked'
     };
     return names[type] || type.charAt(0).toUpperCase() + type.slice(1);
 }
@@ -288,6 +297,13 @@ export async function updateSettings(
     return result as ModLogSettings;
 }
 
+/**
+ * Check whether a log type is enabled and has a channel to go to
+ */
+export async function isLogEnabled(guildId: string, type: ModLogType): Promise<boolean> {
+    return ModLogRepository.isEnabled(guildId, type);
+}
+
 /**
  * Set log channel
  */
@@ -374,6 +390,300 @@ export async function logMemberLeave(member: import('discord.js').GuildMember):
     }
 }
 
+/**
+ * Resolve the log channel when logging is enabled for the given flag
+ */
+async function getLogChannel(guild: Guild, flag: keyof ModLogSettings): Promise<SendableChannels | null> {
+    const rawSettings = await ModLogRepository.get(guild.id);
+    if (!rawSettings?.log_channel_id) return null;
+    const settings = rawSettings as unknown as ModLogSettings;
+    if (!settings[flag]) return null;
+
+    const channel = await guild.channels.fetch(settings.log_channel_id as string).catch(() => null);
+    if (!channel || !('send' in channel)) return null;
+    return channel;
+}
+
+/**
+ * Add the "by" field for an audit log executor, when one was found
+ */
+function addExecutorField(embed: EmbedBuilder, label: string, executor: User | null, reason: string | null = null): void {
+    if (executor) {
+        embed.addFields({ name: label, value: `<@${executor.id}>`, inline: true });
+    }
+    if (reason) {
+        embed.addFields({ name: 'Reason', value: reason.slice(0, 1024), inline: false });
+    }
+}
+
+/**
+ * Log roles added to or removed from a member
+ */
+export async function logMemberRoleChange(
+    member: GuildMember,
+    added: Role[],
+    removed: Role[],
+    executor: User | null = null
+): Promise<void> {
+    try {
+        const channel = await getLogChannel(member.guild, 'log_role_changes');
+        if (!channel) return;
+
+        const embed = new EmbedBuilder()
+            .setColor(0x5865F2)
+            .setAuthor({
+                name: '🏷️ Member Roles Updated',
+                iconURL: member.user.displayAvatarURL()
+            })
+            .addFields({ name: 'User', value: `<@${member.id}> (${member.user.tag})`, inline: true });
+
+        if (added.length > 0) {
+            embed.addFields({ name: 'Added', value: added.map(r => `<@&${r.id}>`).join(', ').slice(0, 1024), inline: false });
+        }
+        if (removed.length > 0) {
+            embed.addFields({ name: 'Removed', value: removed.map(r => `<@&${r.id}>`).join(', ').slice(0, 1024), inline: false });
+        }
+        addExecutorField(embed, 'Updated By', executor);
+
+        embed.setFooter({ text: `User ID: ${member.id}` }).setTimestamp();
+
+        await channel.send({ embeds: [embed] });
+    } catch (error) {
+        logger.error('[ModLogService]', `Failed to log member role change: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Log a nickname change
+ */
+export async function logNicknameChange(
+    member: GuildMember,
+    oldNickname: string | null,
+    newNickname: string | null,
+    executor: User | null = null
+): Promise<void> {
+    try {
+        const channel = await getLogChannel(member.guild, 'log_nickname_changes');
+        if (!channel) return;
+
+        const embed = new EmbedBuilder()
+            .setColor(0x5865F2)
+            .setAuthor({
+                name: '✏️ Nickname Changed',
+                iconURL: member.user.displayAvatarURL()
+            })
+            .addFields(
+                { name: 'User', value: `<@${member.id}> (${member.user.tag})`, inline: true },
+                { name: 'Before', value: oldNickname || '*None*', inline: true },
+                { name: 'After', value: newNickname || '*None*', inline: true }
+            );
+        addExecutorField(embed, 'Changed By', executor);
+
+        embed.setFooter({ text: `User ID: ${member.id}` }).setTimestamp();
+
+        await channel.send({ embeds: [embed] });
+    } catch (error) {
+        logger.error('[ModLogService]', `Failed to log nickname change: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Log a timeout being applied, changed or lifted
+ */
+export async function logTimeoutChange(
+    member: GuildMember,
+    until: Date | null,
+    executor: User | null = null,
+    reason: string | null = null
+): Promise<void> {
+    try {
+        const channel = await getLogChannel(member.guild, 'log_timeouts');
+        if (!channel) return;
+
+        const embed = new EmbedBuilder()
+            .setColor(until ? COLORS.MUTE : COLORS.UNMUTE)
+            .setAuthor({
+                name: until ? '🔇 Member Timed Out' : '🔊 Timeout Removed',
+                iconURL: member.user.displayAvatarURL()
+            })
+            .addFields({ name: 'User', value: `<@${member.id}> (${member.user.tag})`, inline: true });
+
+        if (until) {
+            embed.addFields(
+                { name: 'Duration', value: formatDuration(until.getTime() - Date.now()), inline: true },
+                { name: 'Expires', value: `<t:${Math.floor(until.getTime() / 1000)}:R>`, inline: true }
+            );
+        }
+        addExecutorField(embed, until ? 'Timed Out By' : 'Removed By', executor, reason);
+
+        embed.setFooter({ text: `User ID: ${member.id}` }).setTimestamp();
+
+        await channel.send({ embeds: [embed] });
+    } catch (error) {
+        logger.error('[ModLogService]', `Failed to log timeout change: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Log a channel being created or deleted
+ */
+export async function logChannelLifecycle(
+    channel: GuildBasedChannel,
+    action: 'create' | 'delete',
+    executor: User | null = null
+): Promise<void> {
+    try {
+        const logChannel = await getLogChannel(channel.guild, 'log_channel_changes');
+        if (!logChannel) return;
+
+        const created = action === 'create';
+        const embed = new EmbedBuilder()
+            .setColor(created ? 0x00CC00 : 0xFF6B6B)
+            .setAuthor({ name: created ? '📁 Channel Created' : '🗑️ Channel Deleted' })
+            .addFields(
+                { name: 'Channel', value: created ? `<#${channel.id}> (#${channel.name})` : `#${channel.name}`, inline: true },
+                { name: 'Category', value: channel.parent?.name || '*None*', inline: true }
+            );
+        addExecutorField(embed, created ? 'Created By' : 'Deleted By', executor);
+
+        embed.setFooter({ text: `Channel ID: ${channel.id}` }).setTimestamp();
+
+        await logChannel.send({ embeds: [embed] });
+    } catch (error) {
+        logger.error('[ModLogService]', `Failed to log channel ${action}: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Log permission overwrite changes on a channel
+ * @param changes - One line per overwrite, e.g. "<@&id>: +Send Messages, -View Channel"
+ */
+export async function logChannelOverwrites(
+    channel: GuildBasedChannel,
+    changes: string[],
+    executor: User | null = null
+): Promise<void> {
+    try {
+        const logChannel = await getLogChannel(channel.guild, 'log_channel_changes');
+        if (!logChannel) return;
+
+        const embed = new EmbedBuilder()
+            .setColor(0xFFA500)
+            .setAuthor({ name: '🔐 Channel Permissions Updated' })
+            .addFields(
+                { name: 'Channel', value: `<#${channel.id}>`, inline: true },
+                { name: 'Changes', value: changes.join('\n').slice(0, 1024), inline: false }
+            );
+        addExecutorField(embed, 'Updated By', executor);
+
+        embed.setFooter({ text: `Channel ID: ${channel.id}` }).setTimestamp();
+
+        await logChannel.send({ embeds: [embed] });
+    } catch (error) {
+        logger.error('[ModLogService]', `Failed to log channel overwrites: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Log a server role being created or deleted
+ */
+export async function logRoleLifecycle(
+    role: Role,
+    action: 'create' | 'delete',
+    executor: User | null = null
+): Promise<void> {
+    try {
+        const channel = await getLogChannel(role.guild, 'log_server_role_changes');
+        if (!channel) return;
+
+        const created = action === 'create';
+        const embed = new EmbedBuilder()
+            .setColor(created ? 0x00CC00 : 0xFF6B6B)
+            .setAuthor({ name: created ? '➕ Role Created' : '➖ Role Deleted' })
+            .addFields({ name: 'Role', value: created ? `<@&${role.id}> (${role.name})` : role.name, inline: true });
+        addExecutorField(embed, created ? 'Created By' : 'Deleted By', executor);
+
+        embed.setFooter({ text: `Role ID: ${role.id}` }).setTimestamp();
+
+        await channel.send({ embeds: [embed] });
+    } catch (error) {
+        logger.error('[ModLogService]', `Failed to log role ${action}: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Log a server role's name or permissions being edited
+ */
+export async function logRoleUpdate(
+    role: Role,
+    changes: { name?: [string, string]; granted: string[]; revoked: string[] },
+    executor: User | null = null
+): Promise<void> {
+    try {
+        const channel = await getLogChannel(role.guild, 'log_server_role_changes');
+        if (!channel) return;
+
+        const embed = new EmbedBuilder()
+            .setColor(0xFFA500)
+            .setAuthor({ name: '🛠️ Role Updated' })
+            .addFields({ name: 'Role', value: `<@&${role.id}>`, inline: true });
+
+        if (changes.name) {
+            embed.addFields({ name: 'Name', value: `${changes.name[0]} → ${changes.name[1]}`, inline: true });
+        }
+        if (changes.granted.length > 0) {
+            embed.addFields({ name: 'Permissions Granted', value: changes.granted.join(', ').slice(0, 1024), inline: false });
+        }
+        if (changes.revoked.length > 0) {
+            embed.addFields({ name: 'Permissions Revoked', value: changes.revoked.join(', ').slice(0, 1024), inline: false });
+        }
+        addExecutorField(embed, 'Updated By', executor);
+
+        embed.setFooter({ text: `Role ID: ${role.id}` }).setTimestamp();
+
+        await channel.send({ embeds: [embed] });
+    } catch (error) {
+        logger.error('[ModLogService]', `Failed to log role update: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Log a member joining, leaving or moving between voice channels
+ */
+export async function logVoiceActivity(
+    member: GuildMember,
+    oldChannelId: Snowflake | null,
+    newChannelId: Snowflake | null,
+    executor: User | null = null
+): Promise<void> {
+    try {
+        const channel = await getLogChannel(member.guild, 'log_voice_activity');
+        if (!channel) return;
+
+        const embed = new EmbedBuilder()
+            .setAuthor({
+                name: !oldChannelId ? '🎙️ Joined Voice' : !newChannelId ? '📴 Left Voice' : '🔀 Moved Voice Channel',
+                iconURL: member.user.displayAvatarURL()
+            })
+            .setColor(!oldChannelId ? 0x00CC00 : !newChannelId ? 0xFF6B6B : 0x5865F2)
+            .addFields({ name: 'User', value: `<@${member.id}> (${member.user.tag})`, inline: true });
+
+        if (oldChannelId) {
+            embed.addFields({ name: 'From', value: `<#${oldChannelId}>`, inline: true });
+        }
+        if (newChannelId) {
+            embed.addFields({ name: 'To', value: `<#${newChannelId}>`, inline: true });
+        }
+        addExecutorField(embed, newChannelId ? 'Moved By' : 'Disconnected By', executor);
+
+        embed.setFooter({ text: `User ID: ${member.id}` }).setTimestamp();
+
+        await channel.send({ embeds: [embed] });
+    } catch (error) {
+        logger.error('[ModLogService]', `Failed to log voice activity: ${(error as Error).message}`);
+    }
+}
+
 // EXPORTS
 export default {
     logInfraction,
@@ -381,8 +691,17 @@ export default {
     logMessageEdit,
     logMemberJoin,
     logMemberLeave,
+    logMemberRoleChange,
+    logNicknameChange,
+    logTimeoutChange,
+    logChannelLifecycle,
+    logChannelOverwrites,
+    logRoleLifecycle,
+    logRoleUpdate,
+    logVoiceActivity,
     getSettings,
     updateSettings,
+    isLogEnabled,
     setLogChannel,
     COLORS,
     EMOJIS
@@ -0,0 +1,94 @@
+/**
+ * Mod Note Service
+ * Private moderator notes about members. Any moderator can read them; only the
+ * author or a member with Manage Server can change or delete one.
+ * @module services/moderation/modNoteService
+ */
+
+import { GuildMember, PermissionFlagsBits } from 'discord.js';
+import ModNoteRepository from '../../repositories/moderation/modNoteRepository.js';
+import moderationConfig from '../../config/features/moderation/index.js';
+import { Result } from '../../core/errors/Result.js';
+import { ErrorCodes } from '../../core/errors/ErrorCodes.js';
+import logger from '../../core/observability/Logger.js';
+import type { ModNote } from '../../types/moderation/mod-note.js';
+// MOD NOTE SERVICE CLASS
+class ModNoteService {
+    /**
+     * Add a note about a user
+     */
+    async addNote(guildId: string, userId: string, authorId: string, content: string): Promise<Result<ModNote>> {
+        const invalid = this._validate(content);
+        if (invalid) return invalid;
+
+        try {
+            const note = await ModNoteRepository.create({ guildId, userId, authorId, content: content.trim() });
+            return Result.ok(note);
+        } catch (error) {
+            logger.error('[ModNoteService]', `Failed to add note: ${(error as Error).message}`);
+            return Result.err(ErrorCodes.DB_ERROR, 'Failed to save the note.');
+        }
+    }
+
+    /**
+     * Replace the content of a note
+     */
+    async editNote(guildId: string, noteId: number, editor: GuildMember, content: string): Promise<Result<ModNote>> {
+        const invalid = this._validate(content);
+        if (invalid) return invalid;
+
+        const note = await ModNoteRepository.getById(guildId, noteId);
+        const denied = this._checkAccess(note, noteId, editor);
+        if (denied) return denied;
+
+        const updated = await ModNoteRepository.update(guildId, noteId, content.trim(), editor.id);
+        if (!updated) return Result.err(ErrorCodes.NOT_FOUND, `Note #${noteId} was not found.`);
+        return Result.ok(updated);
+    }
+
+    /**
+     * Delete a note
+     */
+    async deleteNote(guildId: string, noteId: number, member: GuildMember): Promise<Result<ModNote>> {
+        const note = await ModNoteRepository.getById(guildId, noteId);
+        const denied = this._checkAccess(note, noteId, member);
+        if (denied) return denied;
+
+        await ModNoteRepository.remove(guildId, noteId);
+        return Result.ok(note!);
+    }
+
+    /**
+     * Notes about a user, newest first
+     */
+    async getNotes(guildId: string, userId: string): Promise<ModNote[]> {
+        return ModNoteRepository.getByUser(guildId, userId);
+    }
+
+    private _validate(content: string): Result<never> | null {
+        const { maxLength } = moderationConfig.notes;
+        if (!content.trim()) {
+            return Result.err(ErrorCodes.INVALID_INPUT, 'A note cannot be empty.');
+        }
+        if (content.length > maxLength) {
+            return Result.err(ErrorCodes.INVALID_INPUT, `Notes are limited to ${maxLength} characters.`);
+        }
+        return null;
+    }
+
+    private _checkAccess(note: ModNote | null, noteId: number, member: GuildMember): Result<never> | null {
+        if (!note) {
+            return Result.err(ErrorCodes.NOT_FOUND, `Note #${noteId} was not found.`);
+        }
+        if (note.authorId !== member.id && !member.permissions.has(PermissionFlagsBits.ManageGuild)) {
+            return Result.err(ErrorCodes.UNAUTHORIZED, 'Only the author or a server manager can change this note.');
+        }
+        return null;
+    }
+}
+
+// Create default instance
+const modNoteService = new ModNoteService();
+
+export { ModNoteService };
+export default modNoteService;
@@ -0,0 +1,274 @@
+/**
+ * Moderation Scheduler
+ * Runs timed moderation actions (temporary ban expiry, role removal, channel unlock)
+ * stored in mod_scheduled_actions, so they survive restarts.
+ * SHARD-SAFE: each shard only claims actions for guilds it holds, and claims use
+ * FOR UPDATE SKIP LOCKED so an action is never picked up twice.
+ * @module services/moderation/moderationScheduler
+ */
+
+import { Client, DiscordAPIError, EmbedBuilder, Guild, TextChannel } from 'discord.js';
+import ScheduledActionRepository from '../../repositories/moderation/scheduledActionRepository.js';
+import InfractionRepository from '../../repositories/moderation/infractionRepository.js';
+import infractionService from './infractionService.js';
+import lockdownService from './lockdownService.js';
+import moderationConfig from '../../config/features/moderation/index.js';
+import logger from '../../core/observability/Logger.js';
+import type { ScheduledAction, ScheduledActionType } from '../../types/moderation/scheduled-action.js';
+
+const INFRACTION_TYPES = moderationConfig.INFRACTION_TYPES;
+
+// Discord API error codes that mean there is nothing left to reverse
+const UNKNOWN_MEMBER = 10007;
+const UNKNOWN_BAN = 10026;
+
+/** Case id of the logged reversal, or null when there was nothing to reverse */
+type ActionOutcome = number | null;
+// MODERATION SCHEDULER CLASS
+class ModerationScheduler {
+    private client: Client | null = null;
+    private timer: NodeJS.Timeout | null = null;
+    private running = false;
+
+    /**
+     * Start polling for due actions; anything that came due while offline runs right away
+     */
+    start(client: Client): void {
+        if (this.timer) return;
+        this.client = client;
+
+        const run = () => {
+            this.runDue().catch((error: Error) => {
+                logger.error('ModScheduler', `Scheduled action run failed: ${error.message}`);
+            });
+        };
+        run();
+        this.timer = setInterval(run, moderationConfig.scheduler.pollIntervalMs);
+        this.timer.unref?.();
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    shutdown(): void {
+        this.stop();
+        this.client = null;
+    }
+
+    // --- Scheduling ---
+
+    /**
+     * Lift a temporary ban when it runs out
+     * @param caseId - The ban case, referenced by the unban case
+     */
+    async scheduleUnban(guildId: string, userId: string, runAt: Date, caseId: number | null, createdBy: string): Promise<ScheduledAction | null> {
+        return this._schedule({ guildId, type: 'unban', targetId: userId, caseId, createdBy, runAt });
+    }
+
+    /**
+     * Take a role back from a member later (/mute role)
+     */
+    async scheduleRoleRemoval(guildId: string, userId: string, roleId: string, runAt: Date, createdBy: string, reason: string | null = null): Promise<ScheduledAction | null> {
+        return this._schedule({ guildId, type: 'remove_role', targetId: userId, roleId, reason, createdBy, runAt });
+    }
+
+    /**
+     * Unlock a locked channel later
+     */
+    async scheduleUnlock(guildId: string, channelId: string, runAt: Date, createdBy: string, reason: string | null = null): Promise<ScheduledAction | null> {
+        return this._schedule({ guildId, type: 'unlock_channel', targetId: channelId, reason, createdBy, runAt });
+    }
+
+    /**
+     * Drop pending actions, e.g. after a manual unban or unlock.
+     * A null targetId cancels every pending action of that type in the guild.
+     */
+    async cancel(guildId: string, type: ScheduledActionType, targetId: string | null, roleId: string | null = null): Promise<number> {
+        try {
+            return await ScheduledActionRepository.cancel(guildId, type, targetId, roleId);
+        } catch (error) {
+            logger.error('ModScheduler', `Failed to cancel ${type} in guild ${guildId}: ${(error as Error).message}`);
+            return 0;
+        }
+    }
+
+    async getPending(guildId: string, type: ScheduledActionType | null = null): Promise<ScheduledAction[]> {
+        try {
+            return await ScheduledActionRepository.getPending(guildId, type);
+        } catch (error) {
+            logger.error('ModScheduler', `Failed to load scheduled actions for guild ${guildId}: ${(error as Error).message}`);
+            return [];
+        }
+    }
+
+    // --- Runner ---
+
+    /**
+     * Claim and run every due action for guilds on this shard
+     * @returns Number of actions claimed
+     */
+    async runDue(): Promise<number> {
+        if (!this.client?.isReady() || this.running) return 0;
+        this.running = true;
+
+        try {
+            const { batchSize, staleAfterMs } = moderationConfig.scheduler;
+            const released = await ScheduledActionRepository.releaseStale(staleAfterMs);
+            if (released > 0) {
+                logger.warn('ModScheduler', `Released ${released} stale scheduled action(s)`);
+            }
+
+            const guildIds = [...this.client.guilds.cache.keys()];
+            const actions = await ScheduledActionRepository.claimDue(guildIds, this._runnerId(), batchSize);
+            for (const action of actions) {
+                await this._execute(action);
+            }
+            return actions.length;
+        } finally {
+            this.running = false;
+        }
+    }
+
+    private async _execute(action: ScheduledAction): Promise<void> {
+        try {
+            const guild = await this.client!.guilds.fetch(action.guildId);
+            const caseId = await this._perform(guild, action);
+            await ScheduledActionRepository.complete(action.id, caseId);
+        } catch (error) {
+            const message = (error as Error).message;
+            const { maxAttempts, retryDelayMs } = moderationConfig.scheduler;
+            const retryAt = action.attempts < maxAttempts
+                ? new Date(Date.now() + retryDelayMs * action.attempts)
+                : null;
+
+            await ScheduledActionRepository.fail(action.id, message, retryAt).catch((failError: Error) => {
+                logger.error('ModScheduler', `Failed to record failure of action #${action.id}: ${failError.message}`);
+            });
+            logger.warn('ModScheduler', `${action.type} #${action.id} in guild ${action.guildId} failed (attempt ${action.attempts}): ${message}${retryAt ? '' : ' - giving up'}`);
+        }
+    }
+
+    private _perform(guild: Guild, action: ScheduledAction): Promise<ActionOutcome> {
+        switch (action.type) {
+            case 'unban':
+                return this._unban(guild, action);
+            case 'remove_role':
+                return this._removeRole(guild, action);
+            case 'unlock_channel':
+                return this._unlockChannel(guild, action);
+            default:
+                throw new Error(`Unknown scheduled action type: ${action.type}`);
+        }
+    }
+
+    private async _unban(guild: Guild, action: ScheduledAction): Promise<ActionOutcome> {
+        const reason = action.caseId
+            ? `Temporary ban expired (case #${action.caseId})`
+            : 'Temporary ban expired';
+
+        try {
+            await guild.members.unban(action.targetId, reason);
+        } catch (error) {
+            // Already unbanned by hand
+            if (this._isApiError(error, UNKNOWN_BAN)) return null;
+            throw error;
+        }
+
+        if (action.caseId) {
+            await InfractionRepository.deactivate(guild.id, action.caseId, this.client!.user!.id, 'Temporary ban expired');
+        }
+
+        const user = await this.client!.users.fetch(action.targetId).catch(() => null);
+        const infraction = await infractionService.createInfraction({
+            guild,
+            user: user || { id: action.targetId },
+            moderator: this.client!.user!,
+            type: INFRACTION_TYPES.UNBAN!,
+            reason,
+            referenceId: action.caseId ?? undefined,
+            metadata: { automatic: true, scheduled_action_id: action.id }
+        });
+        return infraction.case_id;
+    }
+
+    private async _removeRole(guild: Guild, action: ScheduledAction): Promise<ActionOutcome> {
+        const member = await guild.members.fetch(action.targetId).catch((error: unknown) => {
+            if (this._isApiError(error, UNKNOWN_MEMBER)) return null;
+            throw error;
+        });
+        if (!member || !action.roleId || !member.roles.cache.has(action.roleId)) return null;
+
+        const reason = action.reason || 'Timed role expired';
+        await member.roles.remove(action.roleId, reason);
+
+        const infraction = await infractionService.createInfraction({
+            guild,
+            user: member.user,
+            moderator: this.client!.user!,
+            type: INFRACTION_TYPES.ROLE_REMOVE!,
+            reason,
+            metadata: { automatic: true, scheduled_action_id: action.id, role_id: action.roleId }
+        });
+        return infraction.case_id;
+    }
+
+    private async _unlockChannel(guild: Guild, action: ScheduledAction): Promise<ActionOutcome> {
+        const channel = await guild.channels.fetch(action.targetId).catch(() => null);
+        if (!channel || !('permissionOverwrites' in channel) || !channel.isTextBased()) return null;
+
+        const reason = action.reason || 'Timed lockdown expired';
+        const result = await lockdownService.unlockChannel(channel as TextChannel, reason);
+        if (!result.success) {
+            // Unlocked by hand in the meantime
+            if (result.error === 'Channel is not locked') return null;
+            throw new Error(result.error || 'Unlock failed');
+        }
+
+        await (channel as TextChannel).send({
+            embeds: [new EmbedBuilder()
+                .setColor(0x00FF00)
+                .setTitle('🔓 Channel Unlocked')
+                .setDescription('The timed lockdown has ended.')
+                .setTimestamp()]
+        }).catch(() => null);
+
+        const bot = this.client!.user!;
+        const infraction = await infractionService.createInfraction({
+            guild,
+            user: bot,
+            moderator: bot,
+            type: INFRACTION_TYPES.UNLOCK!,
+            reason,
+            metadata: { automatic: true, scheduled_action_id: action.id, channel_id: channel.id }
+        });
+        return infraction.case_id;
+    }
+
+    private async _schedule(data: Parameters<typeof ScheduledActionRepository.schedule>[0]): Promise<ScheduledAction | null> {
+        try {
+            return await ScheduledActionRepository.schedule(data);
+        } catch (error) {
+            logger.error('ModScheduler', `Failed to schedule ${data.type} in guild ${data.guildId}: ${(error as Error).message}`);
+            return null;
+        }
+    }
+
+    private _isApiError(error: unknown, code: number): boolean {
+        return error instanceof DiscordAPIError && error.code === code;
+    }
+
+    private _runnerId(): string {
+        const shardId = this.client?.shard?.ids[0] ?? 0;
+        return `shard-${shardId}:${process.pid}`;
+    }
+}
+
+// Create default instance
+const moderationScheduler = new ModerationScheduler();
+
+export { ModerationScheduler };
+export default moderationScheduler;
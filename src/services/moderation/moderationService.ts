@@ -327,6 +327,9 @@ export function createLogEmbed(action: ModAction): EmbedBuilder {
             if (action.deleteMessageDays && action.deleteMessageDays > 0) {
                 embed.addFields({ name: 'Messages Deleted', value: `${action.deleteMessageDays} day(s)`, inline: true });
             }
+            if (action.duration) {
+                embed.addFields({ name: 'Duration', value: formatDuration(action.duration), inline: true });
+            }
             break;
 
         case CONFIG.LOG_ACTIONS.UNBAN:
@@ -0,0 +1,304 @@
+/**
+ * Phishing Service
+ * Scam link, lookalike domain and dangerous file detection for auto-mod
+ * @module services/moderation/phishingService
+ */
+
+import { domainToUnicode } from 'node:url';
+import logger from '../../core/observability/Logger.js';
+import cacheService from '../../cache/cacheService.js';
+import automodConfig from '../../config/features/moderation/automod.js';
+import type { PhishingMatch, PhishingScanOptions } from '../../types/moderation/phishing.js';
+
+const URL_PATTERN = /https?:\/\/[^\s<>()]+/gi;
+const BIDI_CONTROLS = /[\u202A-\u202E\u2066-\u2069]/;
+const MAX_EXPANSIONS = 3;
+
+/**
+ * Characters scam domains swap in for the letters they imitate
+ */
+const CONFUSABLES: Record<string, string> = {
+    '0': 'o', '1': 'l', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's',
+    // Cyrillic
+    'а': 'a', 'е': 'e', 'о': 'o', 'р': 'p', 'с': 'c', 'у': 'y', 'х': 'x', 'і': 'i', 'ј': 'j', 'ԁ': 'd', 'ѕ': 's',
+    // Greek and Latin extensions
+    'α': 'a', 'ο': 'o', 'ρ': 'p', 'τ': 't', 'ν': 'v', 'ı': 'i', 'ɡ': 'g'
+};
+
+const config = automodConfig.phishing;
+
+/**
+ * Brand names taken from the protected domains, e.g. "discord" for discord.com
+ */
+const BRANDS: Map<string, string> = new Map(
+    config.protectedDomains
+        .map(domain => [domain.split('.').slice(-2)[0], domain] as [string, string])
+        .filter(([brand]) => brand.length >= 5)
+        .reverse()
+);
+// HELPERS
+/**
+ * Lowercase, drop "www." and a trailing dot, and decode punycode
+ */
+export function normalizeHostname(hostname: string): string {
+    let host = hostname.toLowerCase().replace(/\.$/, '');
+    if (host.startsWith('www.')) host = host.slice(4);
+    return domainToUnicode(host) || host;
+}
+
+/**
+ * Map lookalike characters to the ASCII letters they imitate
+ */
+export function foldConfusables(text: string): string {
+    return text
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .split('')
+        .map(c => CONFUSABLES[c] ?? c)
+        .join('');
+}
+
+/**
+ * Read letter pairs as the single letter they imitate, e.g. rn → m. Too loose for the
+ * distance check, so only an exact brand match counts after this fold.
+ */
+function foldLetterPairs(text: string): string {
+    return text
+        .replace(/rn/g, 'm')
+        .replace(/vv/g, 'w')
+        .replace(/cl/g, 'd');
+}
+
+/**
+ * Whether a host is the domain or one of its subdomains
+ */
+function matchesDomain(host: string, domain: string): boolean {
+    const target = domain.toLowerCase();
+    return host === target || host.endsWith(`.${target}`);
+}
+
+function levenshtein(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+
+    return previous[b.length];
+}
+
+function isShortener(host: string): boolean {
+    return config.shorteners.some(domain => matchesDomain(host, domain));
+}
+// DOMAIN CHECKS
+/**
+ * Find the protected domain a host imitates, e.g. dlscord-nitro.gift → discord.com
+ */
+export function findLookalike(hostname: string): string | null {
+    const host = normalizeHostname(hostname);
+    if (config.protectedDomains.some(domain => matchesDomain(host, domain))) return null;
+
+    const labels = host.split('.').slice(0, -1);
+    if (labels.length === 0) return null;
+
+    const secondLevel = labels[labels.length - 1].replace(/-/g, '');
+    const tokens = new Set<string>();
+    for (const label of labels) {
+        tokens.add(label);
+        tokens.add(label.replace(/-/g, ''));
+        label.split('-').forEach(part => tokens.add(part));
+    }
+    const hasBait = [...tokens].some(token => {
+        const folded = foldConfusables(token);
+        return config.baitWords.includes(folded) || config.baitWords.includes(foldLetterPairs(folded));
+    });
+
+    for (const token of tokens) {
+        const folded = foldConfusables(token);
+        const pairFolded = foldLetterPairs(folded);
+
+        for (const [brand, domain] of BRANDS) {
+            if (Math.abs(folded.length - brand.length) > config.lookalikeMaxDistance) continue;
+
+            const distance = levenshtein(folded, brand);
+            const allowed = brand.length >= 8 ? config.lookalikeMaxDistance : Math.min(1, config.lookalikeMaxDistance);
+
+            // Typo (dlscord-nitro, d1scord). One letter off a short name is often just a word
+            // (discard), so those also need swapped characters or a bait word.
+            const suspicious = brand.length >= 8 || hasBait || folded !== token;
+            if (distance > 0 && distance <= allowed && suspicious) {
+                return domain;
+            }
+
+            // Swapped characters only (dіscord with a Cyrillic і)
+            if (distance === 0 && token !== brand) {
+                return domain;
+            }
+
+            // The real name on someone else's domain: discord.ru, discord-nitro.gift
+            if (distance === 0 && (token === secondLevel || hasBait)) {
+                return domain;
+            }
+
+            // Letter pairs standing in for one letter: discorcl, steamcornmunity
+            if (pairFolded !== folded && pairFolded === brand) {
+                return domain;
+            }
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Check a hostname against the scam lists and lookalike rules
+ */
+export function checkDomain(hostname: string, options: PhishingScanOptions = {}): PhishingMatch | null {
+    const host = normalizeHostname(hostname);
+
+    if (config.protectedDomains.some(domain => matchesDomain(host, domain))) return null;
+
+    if (config.domains.some(domain => matchesDomain(host, domain))) {
+        return { kind: 'known_domain', target: host, reason: `Known scam domain: ${host}` };
+    }
+
+    if (options.extraDomains?.some(domain => domain && matchesDomain(host, normalizeHostname(domain)))) {
+        return { kind: 'guild_domain', target: host, reason: `Blocked scam domain: ${host}` };
+    }
+
+    if (options.lookalike !== false) {
+        const imitated = findLookalike(host);
+        if (imitated) {
+            return { kind: 'lookalike', target: host, reason: `Lookalike of ${imitated}: ${host}` };
+        }
+    }
+
+    return null;
+}
+// FILE CHECKS
+/**
+ * Check a file name for executable, double or hidden extensions
+ */
+export function checkFileName(name: string): PhishingMatch | null {
+    if (BIDI_CONTROLS.test(name)) {
+        return { kind: 'disguised_file', target: name, reason: `Hidden characters in file name: ${name}` };
+    }
+
+    // Windows ignores trailing dots and spaces, so "setup.exe. " still runs
+    const parts = name.toLowerCase().trim().replace(/[\s.]+$/, '').split('.');
+    if (parts.length < 2) return null;
+
+    const extension = `.${parts[parts.length - 1]}`;
+    const previous = parts.length > 2 ? `.${parts[parts.length - 2]}` : null;
+    const behindDecoy = previous !== null && config.decoyExtensions.includes(previous);
+
+    if (behindDecoy && !config.decoyExtensions.includes(extension)) {
+        return { kind: 'double_extension', target: name, reason: `Disguised file extension: ${name}` };
+    }
+
+    if (config.blockedExtensions.includes(extension)) {
+        return { kind: 'dangerous_file', target: name, reason: `Dangerous file type: ${name}` };
+    }
+
+    return null;
+}
+// LINK EXPANSION
+/**
+ * Follow a short link's redirects without downloading anything.
+ * Only shortener hosts are requested; the first other host ends the chain.
+ * @returns The URLs redirected to, in order
+ */
+export async function expandShortLink(url: string): Promise<string[]> {
+    return cacheService.getOrSet<string[]>('automod:links', url, () => followRedirects(url));
+}
+
+async function followRedirects(url: string): Promise<string[]> {
+    const hops: string[] = [];
+    let current = url;
+
+    for (let i = 0; i < config.maxRedirects; i++) {
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), config.expandTimeoutMs);
+
+        try {
+            const response = await fetch(current, { method: 'HEAD', redirect: 'manual', signal: controller.signal });
+            const location = response.headers.get('location');
+            if (response.status < 300 || response.status >= 400 || !location) break;
+
+            const next = new URL(location, current);
+            hops.push(next.toString());
+
+            if (!['http:', 'https:'].includes(next.protocol) || !isShortener(normalizeHostname(next.hostname))) break;
+            current = next.toString();
+        } catch (error) {
+            logger.debug('Phishing', `Could not expand ${current}: ${(error as Error).message}`);
+            break;
+        } finally {
+            clearTimeout(timeoutId);
+        }
+    }
+
+    return hops;
+}
+// MESSAGE SCAN
+/**
+ * Scan the links in a message and the names of its attachments
+ * @returns The first match, or null when the message looks clean
+ */
+export async function scanMessage(
+    content: string,
+    fileNames: string[],
+    options: PhishingScanOptions = {}
+): Promise<PhishingMatch | null> {
+    let expansions = 0;
+
+    for (const raw of content.match(URL_PATTERN) ?? []) {
+        let url: URL;
+        try {
+            url = new URL(raw);
+        } catch {
+            continue;
+        }
+
+        const host = normalizeHostname(url.hostname);
+        const domainMatch = checkDomain(host, options);
+        if (domainMatch) return domainMatch;
+
+        if (options.expandLinks && isShortener(host) && expansions < MAX_EXPANSIONS) {
+            expansions++;
+            for (const hop of await expandShortLink(url.toString())) {
+                const hopMatch = checkDomain(new URL(hop).hostname, options);
+                if (hopMatch) {
+                    return { ...hopMatch, via: host, reason: `${hopMatch.reason} (via ${host})` };
+                }
+            }
+        }
+    }
+
+    if (options.blockFiles !== false) {
+        for (const name of fileNames) {
+            const fileMatch = checkFileName(name);
+            if (fileMatch) return fileMatch;
+        }
+    }
+
+    return null;
+}
+// EXPORTS
+export default {
+    normalizeHostname,
+    foldConfusables,
+    findLookalike,
+    checkDomain,
+    checkFileName,
+    expandShortLink,
+    scanMessage
+};
@@ -0,0 +1,178 @@
+/**
+ * User Dossier Service
+ * Gathers everything moderators know about a member for /modinfo and keeps
+ * the username history it draws on.
+ * @module services/moderation/userDossierService
+ */
+
+import { EmbedBuilder, Guild, PartialUser, User } from 'discord.js';
+import InfractionRepository from '../../repositories/moderation/infractionRepository.js';
+import NameHistoryRepository from '../../repositories/moderation/nameHistoryRepository.js';
+import cacheService from '../../cache/cacheService.js';
+import antiRaidService from './antiRaidService.js';
+import modNoteService from './modNoteService.js';
+import moderationConfig from '../../config/features/moderation/index.js';
+import { formatDuration } from '../../utils/common/time.js';
+import logger from '../../core/observability/Logger.js';
+import type { Infraction } from '../../types/moderation/infraction.js';
+import type { UserDossier } from '../../types/moderation/user-dossier.js';
+
+const COLORS = moderationConfig.COLORS;
+const EMOJIS = moderationConfig.EMOJIS;
+
+/**
+ * Unix seconds for Discord timestamps
+ */
+const unix = (date: Date): number => Math.floor(date.getTime() / 1000);
+
+const capitalize = (type: string): string =>
+    type.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+// USER DOSSIER SERVICE CLASS
+class UserDossierService {
+    /**
+     * Collect the dossier for a user. A source that fails is left empty rather than
+     * failing the whole lookup.
+     * @param includeVoided - List voided cases too (admins only)
+     */
+    async getDossier(guild: Guild, user: User, includeVoided: boolean = false): Promise<UserDossier> {
+        const { nameHistoryLimit } = moderationConfig.dossier;
+
+        const [member, infractions, infractionCounts, activeWarnings, notes, recentAutomodWarnings, flagged, pastNames] = await Promise.all([
+            guild.members.fetch(user.id).catch(() => null),
+            this._safe('infractions', InfractionRepository.getByUser(guild.id, user.id, { limit: 100 }), [] as Infraction[]),
+            this._safe('infraction counts', InfractionRepository.countByUser(guild.id, user.id), {} as Record<string, number>),
+            this._safe('active warnings', InfractionRepository.countActiveWarnings(guild.id, user.id), 0),
+            this._safe('notes', modNoteService.getNotes(guild.id, user.id), []),
+            this._safe('automod warnings', cacheService.getAutomodWarnCount(guild.id, user.id), 0),
+            this._safe('raid flags', antiRaidService.getFlaggedAccounts(guild.id), [] as string[]),
+            this._safe('name history', NameHistoryRepository.getByUser(user.id, nameHistoryLimit), [])
+        ]);
+
+        return {
+            guildId: guild.id,
+            userId: user.id,
+            tag: user.tag,
+            avatarUrl: user.displayAvatarURL(),
+            createdAt: user.createdAt,
+            joinedAt: member?.joinedAt ?? null,
+            infractionCounts,
+            infractions: includeVoided ? infractions : infractions.filter(infraction => !infraction.voided_at),
+            activeWarnings,
+            notes,
+            recentAutomodWarnings,
+            raidFlagged: flagged.includes(user.id),
+            pastNames
+        };
+    }
+
+    /**
+     * Render the dossier as pages: an overview, then cases, then notes
+     */
+    buildPages(dossier: UserDossier): EmbedBuilder[] {
+        const { pageSize } = moderationConfig.dossier;
+        const pages: EmbedBuilder[] = [this._buildOverview(dossier)];
+
+        for (let i = 0; i < dossier.infractions.length; i += pageSize) {
+            const embed = this._basePage(dossier, `${EMOJIS.CASE} Cases`);
+            for (const infraction of dossier.infractions.slice(i, i + pageSize)) {
+                const lines = [
+                    `**Reason:** ${infraction.reason || 'No reason'}`,
+                    `**Moderator:** <@${infraction.moderator_id}>`,
+                    `**Date:** <t:${unix(new Date(infraction.created_at))}:R>`
+                ];
+                if (infraction.duration_ms) lines.push(`**Duration:** ${formatDuration(infraction.duration_ms)}`);
+                if (infraction.voided_at) lines.push('*🚫 Voided*');
+                else if (!infraction.active) lines.push('*⚠️ Inactive*');
+
+                embed.addFields({
+                    name: `${EMOJIS[infraction.type.toUpperCase()] || EMOJIS.CASE} Case #${infraction.case_id} - ${capitalize(infraction.type)}`,
+                    value: lines.join('\n').slice(0, 1024)
+                });
+            }
+            pages.push(embed);
+        }
+
+        for (let i = 0; i < dossier.notes.length; i += pageSize) {
+            const embed = this._basePage(dossier, `${EMOJIS.NOTE} Notes`).setColor(COLORS.NOTE);
+            for (const note of dossier.notes.slice(i, i + pageSize)) {
+                const edited = note.updatedAt
+                    ? `\n*Edited <t:${unix(note.updatedAt)}:R>${note.updatedBy && note.updatedBy !== note.authorId ? ` by <@${note.updatedBy}>` : ''}*`
+                    : '';
+                embed.addFields({
+                    name: `Note #${note.id}`,
+                    value: `${note.content.slice(0, 800)}\n— <@${note.authorId}>, <t:${unix(note.createdAt)}:R>${edited}`
+                });
+            }
+            pages.push(embed);
+        }
+
+        pages.forEach((page, index) =>
+            page.setFooter({ text: `Page ${index + 1}/${pages.length} • User ID: ${dossier.userId}` }));
+
+        return pages;
+    }
+
+    /**
+     * Remember the name a user just changed away from
+     */
+    async recordNameChange(oldUser: User | PartialUser, newUser: User): Promise<void> {
+        if (oldUser.partial || newUser.bot) return;
+        if (oldUser.username === newUser.username && oldUser.globalName === newUser.globalName) return;
+
+        try {
+            await NameHistoryRepository.record(oldUser.id, oldUser.username, oldUser.globalName);
+        } catch (error) {
+            logger.error('[UserDossierService]', `Failed to record name change: ${(error as Error).message}`);
+        }
+    }
+
+    private _buildOverview(dossier: UserDossier): EmbedBuilder {
+        const accountAge = formatDuration(Date.now() - dossier.createdAt.getTime());
+        const counts = Object.entries(dossier.infractionCounts)
+            .sort(([, a], [, b]) => b - a)
+            .map(([type, count]) => `${EMOJIS[type.toUpperCase()] || EMOJIS.CASE} ${capitalize(type)}: **${count}**`)
+            .join('\n');
+        const pastNames = dossier.pastNames
+            .map(entry => `\`${entry.username}\`${entry.globalName ? ` (${entry.globalName})` : ''} until <t:${unix(entry.changedAt)}:d>`)
+            .join('\n');
+
+        const embed = this._basePage(dossier, `${EMOJIS.USER} Overview`)
+            .setColor(dossier.raidFlagged || dossier.activeWarnings > 0 ? COLORS.WARNING : COLORS.INFO)
+            .addFields(
+                { name: '📅 Account Created', value: `<t:${unix(dossier.createdAt)}:D> (${accountAge} ago)`, inline: true },
+                { name: '📥 Joined Server', value: dossier.joinedAt ? `<t:${unix(dossier.joinedAt)}:D>` : '*Not a member*', inline: true },
+                { name: `${EMOJIS.WARN} Active Warnings`, value: String(dossier.activeWarnings), inline: true },
+                { name: `${EMOJIS.AUTOMOD} Recent AutoMod Warnings`, value: String(dossier.recentAutomodWarnings), inline: true },
+                { name: '🛡️ Anti-Raid', value: dossier.raidFlagged ? '🚩 Flagged as suspicious join' : 'Not flagged', inline: true },
+                { name: `${EMOJIS.NOTE} Notes`, value: String(dossier.notes.length), inline: true },
+                { name: `${EMOJIS.CASE} Cases by Type`, value: counts || 'No cases', inline: false },
+                { name: '🏷️ Past Usernames', value: (pastNames || 'None recorded').slice(0, 1024), inline: false }
+            );
+
+        return embed;
+    }
+
+    private _basePage(dossier: UserDossier, title: string): EmbedBuilder {
+        return new EmbedBuilder()
+            .setColor(COLORS.INFO)
+            .setAuthor({ name: dossier.tag, iconURL: dossier.avatarUrl })
+            .setTitle(title)
+            .setThumbnail(dossier.avatarUrl)
+            .setTimestamp();
+    }
+
+    private async _safe<T>(source: string, promise: Promise<T>, fallback: T): Promise<T> {
+        try {
+            return await promise;
+        } catch (error) {
+            logger.error('[UserDossierService]', `Failed to load ${source}: ${(error as Error).message}`);
+            return fallback;
+        }
+    }
+}
+
+// Create default instance
+const userDossierService = new UserDossierService();
+
+export { UserDossierService };
+export default userDossierService;
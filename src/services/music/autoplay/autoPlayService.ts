@@ -1,26 +1,47 @@
+import type { Guild } from 'discord.js';
 import lavalinkService from '../core/lavalinkService.js';
 import { queueService } from '../queue/index.js';
+import { voiceConnectionService } from '../voice/index.js';
+import spotifyService from '../spotify/spotifyService.js';
+import musicCache from '../../../cache/music/MusicCacheFacade.js';
+import cacheService from '../../../cache/cacheService.js';
+import GuildSettingsService from '../../guild/guildSettingsService.js';
+import { autoplay as autoplayConfig } from '../../../config/features/music.js';
 import logger from '../../../core/observability/Logger.js';
+import {
+    buildQueries,
+    buildSignals,
+    cleanAuthor,
+    cleanTitle,
+    createSeededRandom,
+    isEligible,
+    isSameArtist,
+    normalizeArtist,
+    pickCandidate,
+    scoreCandidates,
+    type RandomSource
+} from './recommendationEngine.js';
 import type { MusicTrack } from '../events/musicEvents.js';
+import type { AutoPlayContext, AutoPlayMode, AutoPlayOptions, AutoPlaySignals, ListeningEntry } from '../../../types/music/autoplay.js';
 
 /**
- * Simple AutoPlay Service
- * 
+ * AutoPlay Service
+ *
  * How it works:
- * 1. When queue ends, take the last track's artist + title
- * 2. Build 2-3 simple search queries (artist songs, similar songs, genre mix)
- * 3. Search both YouTube + YouTube Music for diverse results
- * 4. Filter out recently played tracks (cooldown = 12 tracks)
- * 5. Pick a random track from results, preferring different artists
+ * 1. When queue ends, load the listeners' history/favourites and the seed's Spotify related artists
+ * 2. Build search queries for the guild's autoplay mode (similar, discovery, artist, favourites)
+ * 3. Pool results from YouTube + YouTube Music and drop played, non-music and out-of-range tracks
+ * 4. Score candidates with the recommendation engine and pick among the best few
  */
 
-const COOLDOWN_SIZE = 12;
+const MODE_SETTING_KEY = 'music_autoplay_mode';
 
 class AutoPlayService {
     private readonly MIN_SEARCH_INTERVAL = 3000;
+    private readonly SPOTIFY_CACHE_NS = 'api:spotify';
     private recentArtists = new Map<string, string[]>();
 
-    async findSimilarTrack(guildId: string, lastTrack: MusicTrack): Promise<MusicTrack | null> {
+    async findSimilarTrack(guildId: string, lastTrack: MusicTrack, options: AutoPlayOptions = {}): Promise<MusicTrack | null> {
         const queue = queueService.get(guildId);
         const now = Date.now();
 
@@ -36,42 +57,42 @@ class AutoPlayService {
 
         if (!title) return null;
 
-        const recentTitles = queue?.lastPlayedTracks || [];
-        const cleanTitle = this._cleanTitle(title);
-        const cleanAuthor = this._cleanAuthor(author || '');
+        const random: RandomSource = options.seed !== undefined ? createSeededRandom(options.seed) : Math.random;
+        const mode = options.mode || await this.getMode(guildId);
+        const seedArtist = normalizeArtist(author);
 
-        logger.info('AutoPlay', `Finding similar to: "${cleanTitle}" by "${cleanAuthor}"`);
+        logger.info('AutoPlay', `Finding ${mode} track for: "${cleanTitle(title)}" by "${seedArtist}"`);
 
-        // Track this artist
-        if (cleanAuthor) this._trackArtist(guildId, cleanAuthor);
+        const ctx: AutoPlayContext = {
+            mode,
+            seedTitle: cleanTitle(title),
+            seedArtist,
+            seedDuration: this._getDuration(lastTrack),
+            recentTitles: queue?.lastPlayedTracks || [],
+            recentArtists: [...(this.recentArtists.get(guildId) || [])],
+            signals: await this._loadSignals(guildId, lastTrack, seedArtist)
+        };
 
-        // Build simple search queries
-        const queries = this._buildQueries(cleanTitle, cleanAuthor, guildId);
+        // Track this artist
+        if (seedArtist) this._trackArtist(guildId, seedArtist);
 
-        // Try each query
-        for (const query of queries) {
-            try {
-                logger.info('AutoPlay', `Searching: "${query}"`);
-                const results = await this._searchBothPlatforms(query, 8);
-
-                if (results.length > 0) {
-                    const valid = this._filterPlayed(results, recentTitles, title);
-                    if (valid.length > 0) {
-                        const picked = this._pickTrack(valid, cleanAuthor, guildId);
-                        logger.info('AutoPlay', `Selected: "${picked.info?.title}" by "${picked.info?.author}"`);
-                        return picked;
-                    }
-                }
-            } catch {
-                continue;
-            }
+        if (mode === 'favorites') {
+            const favorite = await this._pickFavorite(ctx, random);
+            if (favorite) return this._accept(guildId, favorite);
+            logger.info('AutoPlay', 'No playable favourites, falling back to similar');
+            ctx.mode = 'similar';
         }
 
+        const candidates = await this._collectCandidates(buildQueries(ctx, random), ctx);
+        const picked = pickCandidate(scoreCandidates(candidates, t => this._describe(t), ctx, random), random);
+        if (picked) return this._accept(guildId, picked.track);
+
         // Last resort fallback
         try {
-            const fallback = await this._searchBothPlatforms('popular music mix', 8);
-            const valid = this._filterPlayed(fallback, recentTitles, title);
-            if (valid.length > 0) return this._pickTrack(valid, cleanAuthor, guildId);
+            const fallback = (await this._searchBothPlatforms('popular music mix', autoplayConfig.searchLimit))
+                .filter(t => isEligible(this._describe(t), { ...ctx, mode: 'similar' }));
+            const last = pickCandidate(scoreCandidates(fallback, t => this._describe(t), ctx, random), random);
+            if (last) return this._accept(guildId, last.track);
         } catch { /* exhausted */ }
 
         logger.warn('AutoPlay', 'No track found');
@@ -82,33 +103,127 @@ class AutoPlayService {
         return null;
     }
 
-    // --- Query building ---
+    // --- Mode ---
 
-    private _buildQueries(title: string, author: string, guildId: string): string[] {
-        const queries: string[] = [];
+    async getMode(guildId: string): Promise<AutoPlayMode> {
+        const mode = await GuildSettingsService.getSetting<AutoPlayMode>(guildId, MODE_SETTING_KEY, autoplayConfig.defaultMode)
+            .catch(() => autoplayConfig.defaultMode);
+        return autoplayConfig.modes.includes(mode) ? mode : autoplayConfig.defaultMode;
+    }
 
-        // If we've been hearing the same artist too much, pivot away
-        const isRepeatArtist = author && this._isRecentArtist(guildId, author);
+    async setMode(guildId: string, mode: AutoPlayMode): Promise<boolean> {
+        return GuildSettingsService.updateSetting(guildId, MODE_SETTING_KEY, mode);
+    }
+
+    // --- Signals ---
+
+    private async _loadSignals(guildId: string, lastTrack: MusicTrack, seedArtist: string): Promise<AutoPlaySignals> {
+        const userIds = this._getListenerIds(guildId, lastTrack);
+
+        const [histories, favorites, related] = await Promise.all([
+            Promise.all(userIds.map(id => musicCache.getHistory(id, autoplayConfig.historyPerListener).catch(() => []))),
+            Promise.all(userIds.map(id => musicCache.getFavorites(id).catch(() => []))),
+            this._getRelatedArtists(seedArtist)
+        ]);
 
-        if (author) {
-            if (isRepeatArtist) {
-                // Try to find different artists with similar style
-                queries.push(`music like ${author}`);
-                queries.push(`${title.split(' ').slice(0, 3).join(' ')} songs`);
-            } else {
-                // Same artist is fine, also try similar
-                queries.push(`${author} songs`);
-                queries.push(`music similar to ${author} ${title.split(' ')[0] || ''}`);
+        return buildSignals(histories as ListeningEntry[][], favorites as ListeningEntry[][], related);
+    }
+
+    /**
+     * People in the voice channel, plus whoever queued the seed
+     */
+    private _getListenerIds(guildId: string, lastTrack: MusicTrack): string[] {
+        const ids = new Set<string>();
+        if (lastTrack.requestedBy?.id) ids.add(lastTrack.requestedBy.id);
+
+        const guild = (queueService.get(guildId)?.textChannel as { guild?: Guild } | null)?.guild;
+        if (guild) {
+            for (const member of voiceConnectionService.getListeners(guildId, guild)) ids.add(member.id);
+        }
+
+        return [...ids].slice(0, autoplayConfig.listeners);
+    }
+
+    private async _getRelatedArtists(seedArtist: string): Promise<string[]> {
+        if (!seedArtist || !spotifyService.isConfigured()) return [];
+
+        const cached = await cacheService.get<string[]>(this.SPOTIFY_CACHE_NS, `related:${seedArtist}`);
+        if (cached) return cached;
+
+        const artist = await spotifyService.searchArtist(seedArtist);
+        if (!artist) return [];
+
+        const related = (await spotifyService.getRelatedArtists(artist.id))
+            .slice(0, autoplayConfig.relatedArtists)
+            .map(a => a.name);
+        await cacheService.set(this.SPOTIFY_CACHE_NS, `related:${seedArtist}`, related);
+        return related;
+    }
+
+    // --- Candidates ---
+
+    private async _collectCandidates(queries: string[], ctx: AutoPlayContext): Promise<MusicTrack[]> {
+        const pool: MusicTrack[] = [];
+        const seen = new Set<string>();
+
+        for (const query of queries.slice(0, autoplayConfig.maxQueries)) {
+            try {
+                logger.info('AutoPlay', `Searching: "${query}"`);
+                const results = await this._searchBothPlatforms(query, autoplayConfig.searchLimit);
+
+                for (const track of results) {
+                    const key = (track.info?.uri || track.info?.title || '').toLowerCase();
+                    if (seen.has(key) || !isEligible(this._describe(track), ctx)) continue;
+                    seen.add(key);
+                    pool.push(track);
+                }
+            } catch {
+                continue;
             }
         }
 
-        // Always add a title-based query
-        const titleWords = title.split(' ').filter(w => w.length > 2).slice(0, 3);
-        if (titleWords.length > 0) {
-            queries.push(`${titleWords.join(' ')} ${author}`.trim());
+        return pool;
+    }
+
+    private async _pickFavorite(ctx: AutoPlayContext, random: RandomSource): Promise<MusicTrack | null> {
+        const eligible = ctx.signals.favorites.filter(f => isEligible(f, ctx));
+        const scored = scoreCandidates(eligible, f => f, ctx, random);
+
+        // Try the engine's pick first, then the rest in score order
+        const first = pickCandidate(scored, random);
+        const ordered = first ? [first, ...scored.filter(s => s !== first)] : scored;
+
+        for (const { track: favorite } of ordered.slice(0, autoplayConfig.topPicks + 2)) {
+            try {
+                const result = await lavalinkService.search(favorite.url, undefined);
+                if (result?.track) return result as MusicTrack;
+            } catch {
+                continue;
+            }
         }
+        return null;
+    }
+
+    private _accept(guildId: string, track: MusicTrack): MusicTrack {
+        const artist = normalizeArtist(track.info?.author);
+        if (artist) this._trackArtist(guildId, artist);
+        logger.info('AutoPlay', `Selected: "${track.info?.title}" by "${track.info?.author}"`);
+        return track;
+    }
+
+    private _describe(track: MusicTrack): ListeningEntry & { isStream?: boolean } {
+        return {
+            url: track.info?.uri || track.url || '',
+            title: track.info?.title || track.title || '',
+            author: track.info?.author || track.author || null,
+            duration: this._getDuration(track),
+            isStream: !!(track.info && 'isStream' in track.info && track.info.isStream)
+        };
+    }
 
-        return queries;
+    private _getDuration(track: MusicTrack): number {
+        const durMs = track.info?.length;
+        return track.lengthSeconds || (durMs ? Math.floor(durMs / 1000) : 0);
     }
 
     // --- Search ---
@@ -142,136 +257,16 @@ class AutoPlayService {
         return combined.slice(0, limit);
     }
 
-    // --- Filtering ---
-
-    private _filterPlayed(results: MusicTrack[], recentTitles: string[], currentTitle: string): MusicTrack[] {
-        const current = currentTitle.toLowerCase();
-
-        return results.filter(r => {
-            const t = (r.info?.title || '').toLowerCase();
-
-            // Exact or near match with current
-            if (t === current) return false;
-            if (t.length > 15 && current.length > 15) {
-                if (t.substring(0, 20) === current.substring(0, 20)) return false;
-            }
-
-            // Match with recently played
-            const isRecent = recentTitles.some(recent => {
-                const lr = recent.toLowerCase();
-                const len = Math.min(lr.length, t.length, 25);
-                return lr.substring(0, len) === t.substring(0, len) ||
-                    lr.includes(t.substring(0, 20)) ||
-                    t.includes(lr.substring(0, 20));
-            });
-            if (isRecent) return false;
-
-            // Skip streams
-            if (r.info && 'isStream' in r.info && r.info.isStream) return false;
-
-            // Skip non-music content
-            if (/\b(podcast|interview|reaction|commentary|review|tutorial|audiobook|lecture|vlog|unboxing)\b/i.test(r.info?.title || '')) return false;
-
-            // Skip very long tracks (>12min)
-            const durMs = (r.info as any)?.length;
-            const durSec = (r as any).lengthSeconds || (durMs ? Math.floor(durMs / 1000) : 0);
-            if (durSec > 720) return false;
-
-            // Skip compilations/mixes
-            if (/\b(mix|playlist|compilation|medley|megamix|nonstop)\b/i.test(r.info?.title || '')) return false;
-
-            return true;
-        });
-    }
-
-    // --- Picking ---
-
-    private _pickTrack(tracks: MusicTrack[], lastAuthor: string, guildId: string): MusicTrack {
-        if (tracks.length === 1) return tracks[0]!;
-
-        // Score: prefer different artists, avoid very short/long, add randomness
-        const scored = tracks.map(track => {
-            let score = Math.random() * 10; // base randomness
-            const trackAuthor = this._cleanAuthor(track.info?.author || '').toLowerCase();
-            const isSame = lastAuthor && trackAuthor.includes(lastAuthor.toLowerCase().substring(0, 10));
-            const isRecent = this._isRecentArtist(guildId, trackAuthor);
-
-            // Prefer different artists
-            if (isSame) score -= 15;
-            else if (isRecent) score -= 8;
-            else score += 10;
-
-            // Prefer normal song duration (2-6 min)
-            const durMs = (track.info as any)?.length;
-            const durSec = (track as any).lengthSeconds || (durMs ? Math.floor(durMs / 1000) : 0);
-            if (durSec >= 120 && durSec <= 360) score += 5;
-            else if (durSec > 360 && durSec <= 480) score += 2;
-
-            return { track, score };
-        });
-
-        scored.sort((a, b) => b.score - a.score);
-
-        // Pick from top 3 with weighted random
-        const top = scored.slice(0, Math.min(3, scored.length));
-        const total = top.reduce((s, t) => s + Math.max(t.score, 1), 0);
-        let rand = Math.random() * total;
-        for (const { track, score } of top) {
-            rand -= Math.max(score, 1);
-            if (rand <= 0) {
-                const a = this._cleanAuthor(track.info?.author || '');
-                if (a) this._trackArtist(guildId, a);
-                return track;
-            }
-        }
-
-        return top[0]!.track;
-    }
-
     // --- Artist tracking (prevent same artist spam) ---
 
     private _trackArtist(guildId: string, artist: string): void {
         if (!artist || artist.length < 2) return;
         let list = this.recentArtists.get(guildId);
         if (!list) { list = []; this.recentArtists.set(guildId, list); }
-        const clean = artist.toLowerCase().trim();
-        if (list[list.length - 1]?.toLowerCase() === clean) return;
+        const clean = cleanAuthor(artist).toLowerCase();
+        if (list.length > 0 && isSameArtist(list[list.length - 1]!, clean)) return;
         list.push(clean);
-        while (list.length > COOLDOWN_SIZE) list.shift();
-    }
-
-    private _isRecentArtist(guildId: string, artist: string): boolean {
-        const list = this.recentArtists.get(guildId);
-        if (!list || !artist) return false;
-        const clean = artist.toLowerCase().trim();
-        return list.some(a => a.includes(clean.substring(0, 10)) || clean.includes(a.substring(0, 10)));
-    }
-
-    // --- Cleaners ---
-
-    private _cleanTitle(title: string): string {
-        return title
-            .replace(/\(official.*?\)/gi, '')
-            .replace(/\[.*?\]/gi, '')
-            .replace(/\|.*$/gi, '')
-            .replace(/ft\.?.*$/gi, '')
-            .replace(/feat\.?.*$/gi, '')
-            .replace(/\(.*?remix.*?\)/gi, '')
-            .replace(/\(.*?cover.*?\)/gi, '')
-            .replace(/-\s*(lyrics|audio|video|music\s*video|mv|pv)/gi, '')
-            .replace(/\(lyrics?\)/gi, '')
-            .replace(/\s{2,}/g, ' ')
-            .trim();
-    }
-
-    private _cleanAuthor(author: string): string {
-        return author
-            .replace(/\s*-\s*Topic$/gi, '')
-            .replace(/VEVO$/gi, '')
-            .replace(/Official$/gi, '')
-            .replace(/\s*Music\s*$/gi, '')
-            .replace(/\s*Channel\s*$/gi, '')
-            .trim();
+        while (list.length > autoplayConfig.artistCooldown) list.shift();
     }
 }
 
@@ -279,4 +274,3 @@ const autoPlayService = new AutoPlayService();
 
 export { AutoPlayService };
 export default autoPlayService;
-
@@ -0,0 +1,328 @@
+/**
+ * Autoplay Recommendation Engine
+ * Pure scoring for autoplay candidates: listeners' history and favourites, artist
+ * co-occurrence, Spotify related artists, diversity and duration constraints.
+ * All randomness goes through an injected generator so picks are reproducible from a seed.
+ * @module services/music/autoplay/recommendationEngine
+ */
+
+import { autoplay as autoplayConfig } from '../../../config/features/music.js';
+import type {
+    AutoPlayContext,
+    AutoPlaySignals,
+    ListeningEntry,
+    ScoredCandidate
+} from '../../../types/music/autoplay.js';
+
+export type RandomSource = () => number;
+
+const NON_MUSIC = /\b(podcast|interview|reaction|commentary|review|tutorial|audiobook|lecture|vlog|unboxing)\b/i;
+const COMPILATION = /\b(mix|playlist|compilation|medley|megamix|nonstop)\b/i;
+
+/**
+ * Mulberry32 - small, fast and good enough for shuffling candidates
+ */
+export function createSeededRandom(seed: number): RandomSource {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+export function cleanTitle(title: string): string {
+    return title
+        .replace(/\(official.*?\)/gi, '')
+        .replace(/\[.*?\]/gi, '')
+        .replace(/\|.*$/gi, '')
+        .replace(/ft\.?.*$/gi, '')
+        .replace(/feat\.?.*$/gi, '')
+        .replace(/\(.*?remix.*?\)/gi, '')
+        .replace(/\(.*?cover.*?\)/gi, '')
+        .replace(/-\s*(lyrics|audio|video|music\s*video|mv|pv)/gi, '')
+        .replace(/\(lyrics?\)/gi, '')
+        .replace(/\s{2,}/g, ' ')
+        .trim();
+}
+
+export function cleanAuthor(author: string): string {
+    return author
+        .replace(/\s*-\s*Topic$/gi, '')
+        .replace(/VEVO$/gi, '')
+        .replace(/Official$/gi, '')
+        .replace(/\s*Music\s*$/gi, '')
+        .replace(/\s*Channel\s*$/gi, '')
+        .trim();
+}
+
+/**
+ * Lowercased, cleaned artist name used as the key everywhere in the engine
+ */
+export function normalizeArtist(author: string | null | undefined): string {
+    return cleanAuthor(author || '').toLowerCase();
+}
+
+/**
+ * Loose artist match that tolerates "Artist" vs "Artist & Friends" style uploads
+ */
+export function isSameArtist(a: string, b: string): boolean {
+    if (!a || !b) return false;
+    return a === b || a.includes(b.substring(0, 10)) || b.includes(a.substring(0, 10));
+}
+
+function increment(map: Map<string, number>, key: string, by: number = 1): void {
+    if (!key) return;
+    map.set(key, (map.get(key) || 0) + by);
+}
+
+function link(graph: Map<string, Map<string, number>>, a: string, b: string): void {
+    if (!a || !b || a === b) return;
+    if (!graph.has(a)) graph.set(a, new Map());
+    if (!graph.has(b)) graph.set(b, new Map());
+    increment(graph.get(a)!, b);
+    increment(graph.get(b)!, a);
+}
+
+/**
+ * Build the engine's signals from each listener's history and favourites
+ * @param histories - One list per listener, most recent play first
+ * @param favorites - One list per listener
+ * @param relatedArtists - Spotify related artists of the seed
+ */
+export function buildSignals(
+    histories: ListeningEntry[][],
+    favorites: ListeningEntry[][],
+    relatedArtists: string[] = []
+): AutoPlaySignals {
+    const historyArtists = new Map<string, number>();
+    const favoriteArtists = new Map<string, number>();
+    const artistGraph = new Map<string, Map<string, number>>();
+    const mergedFavorites: ListeningEntry[] = [];
+    const seenFavorites = new Set<string>();
+
+    for (const history of histories) {
+        let previous = '';
+        for (const entry of history) {
+            const artist = normalizeArtist(entry.author);
+            increment(historyArtists, artist);
+            // Back-to-back plays by the same listener count as co-occurrence
+            link(artistGraph, previous, artist);
+            previous = artist;
+        }
+    }
+
+    for (const list of favorites) {
+        for (const entry of list) {
+            increment(favoriteArtists, normalizeArtist(entry.author));
+            if (seenFavorites.has(entry.url)) continue;
+            seenFavorites.add(entry.url);
+            mergedFavorites.push(entry);
+        }
+    }
+
+    return {
+        historyArtists,
+        favoriteArtists,
+        favorites: mergedFavorites,
+        artistGraph,
+        relatedArtists: relatedArtists.map(normalizeArtist).filter(Boolean)
+    };
+}
+
+/**
+ * Artists most often played next to the seed, strongest first
+ */
+export function getCoOccurringArtists(signals: AutoPlaySignals, seedArtist: string, limit: number = 5): string[] {
+    const neighbours = signals.artistGraph.get(seedArtist);
+    if (!neighbours) return [];
+
+    return [...neighbours.entries()]
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .slice(0, limit)
+        .map(([artist]) => artist);
+}
+
+function pickSome(items: string[], count: number, random: RandomSource): string[] {
+    const pool = [...items];
+    const picked: string[] = [];
+    while (pool.length > 0 && picked.length < count) {
+        picked.push(pool.splice(Math.floor(random() * pool.length), 1)[0]!);
+    }
+    return picked;
+}
+
+/**
+ * Search queries for the mode, most promising first. Favourites mode needs none.
+ */
+export function buildQueries(ctx: AutoPlayContext, random: RandomSource): string[] {
+    const { mode, seedArtist, seedTitle, signals } = ctx;
+    const titleWords = seedTitle.split(' ').filter(w => w.length > 2).slice(0, 3).join(' ');
+    const isKnown = (artist: string) => signals.historyArtists.has(artist) || signals.favoriteArtists.has(artist);
+    const queries: string[] = [];
+
+    switch (mode) {
+        case 'favorites':
+            return [];
+
+        case 'artist':
+            if (seedArtist) {
+                queries.push(`${seedArtist} songs`);
+                if (titleWords) queries.push(`${seedArtist} ${titleWords}`);
+                queries.push(`${seedArtist} best songs`);
+            }
+            break;
+
+        case 'discovery': {
+            const fresh = signals.relatedArtists.filter(a => !isKnown(a) && !isSameArtist(a, seedArtist));
+            for (const artist of pickSome(fresh, 2, random)) queries.push(`${artist} songs`);
+            if (seedArtist) queries.push(`music like ${seedArtist}`);
+            break;
+        }
+
+        case 'similar':
+        default: {
+            for (const artist of getCoOccurringArtists(signals, seedArtist, 1)) queries.push(`${artist} songs`);
+            for (const artist of pickSome(signals.relatedArtists, 1, random)) queries.push(`${artist} songs`);
+            if (seedArtist) {
+                const repeating = ctx.recentArtists.some(a => isSameArtist(a, seedArtist));
+                queries.push(repeating ? `music like ${seedArtist}` : `${seedArtist} songs`);
+            }
+            break;
+        }
+    }
+
+    if (titleWords && mode !== 'artist') {
+        queries.push(`${titleWords} ${mode === 'discovery' ? '' : seedArtist}`.trim());
+    }
+
+    return [...new Set(queries)];
+}
+
+/**
+ * Hard constraints: already played, non-music, streams, compilations, duration limits
+ */
+export function isEligible(entry: ListeningEntry & { isStream?: boolean }, ctx: AutoPlayContext): boolean {
+    const title = entry.title.toLowerCase();
+    const current = ctx.seedTitle.toLowerCase();
+
+    if (!title || title === current) return false;
+    if (title.length > 15 && current.length > 15 && title.substring(0, 20) === current.substring(0, 20)) return false;
+
+    const isRecent = ctx.recentTitles.some(recent => {
+        const lr = recent.toLowerCase();
+        const len = Math.min(lr.length, title.length, 25);
+        return lr.substring(0, len) === title.substring(0, len) ||
+            lr.includes(title.substring(0, 20)) ||
+            title.includes(lr.substring(0, 20));
+    });
+    if (isRecent) return false;
+
+    if (entry.isStream) return false;
+    if (NON_MUSIC.test(entry.title) || COMPILATION.test(entry.title)) return false;
+
+    const duration = entry.duration || 0;
+    if (duration && (duration < autoplayConfig.duration.min || duration > autoplayConfig.duration.max)) return false;
+
+    if (ctx.mode === 'artist' && ctx.seedArtist && !isSameArtist(normalizeArtist(entry.author), ctx.seedArtist)) return false;
+
+    return true;
+}
+
+function scoreOne(entry: ListeningEntry, ctx: AutoPlayContext, random: RandomSource): number {
+    const { signals, seedArtist } = ctx;
+    const artist = normalizeArtist(entry.author);
+    const sameArtist = isSameArtist(artist, seedArtist);
+    const related = signals.relatedArtists.some(a => isSameArtist(a, artist));
+    const coPlays = signals.artistGraph.get(seedArtist)?.get(artist) || 0;
+    const historyPlays = signals.historyArtists.get(artist) || 0;
+    const favoriteCount = signals.favoriteArtists.get(artist) || 0;
+    const isFavorite = signals.favorites.some(f => f.url === entry.url);
+
+    // Small jitter so equal candidates don't always resolve the same way
+    let score = random() * 5;
+
+    switch (ctx.mode) {
+        case 'artist':
+            score += sameArtist ? 20 : -20;
+            break;
+        case 'favorites':
+            score += isFavorite ? 20 : 0;
+            score += Math.min(favoriteCount * 2, 8);
+            break;
+        case 'discovery':
+            if (sameArtist) score -= 15;
+            if (historyPlays > 0 || favoriteCount > 0) score -= 6;
+            if (related) score += 10;
+            score += Math.min(coPlays * 2, 4);
+            break;
+        case 'similar':
+        default:
+            score += sameArtist ? -6 : 4;
+            if (related) score += 8;
+            score += Math.min(coPlays * 3, 12);
+            score += Math.min(Math.log2(1 + historyPlays) * 2, 6);
+            score += Math.min(favoriteCount * 2, 6);
+            if (isFavorite) score += 6;
+            break;
+    }
+
+    // Diversity: don't keep landing on the artists autoplay just picked
+    if (ctx.mode !== 'artist' && ctx.recentArtists.some(a => isSameArtist(a, artist))) {
+        score -= 8;
+    }
+
+    // Duration: prefer normal song lengths close to the seed
+    const duration = entry.duration || 0;
+    const preferred = autoplayConfig.preferredDuration;
+    if (duration >= preferred.min && duration <= preferred.max) score += 5;
+    if (duration && ctx.seedDuration) score -= Math.min(Math.abs(duration - ctx.seedDuration) / 60, 5);
+
+    return score;
+}
+
+/**
+ * Score candidates, best first. Ties break on title so the order is stable.
+ */
+export function scoreCandidates<T>(
+    candidates: T[],
+    describe: (candidate: T) => ListeningEntry,
+    ctx: AutoPlayContext,
+    random: RandomSource
+): ScoredCandidate<T>[] {
+    return candidates
+        .map(track => {
+            const entry = describe(track);
+            return {
+                track,
+                artist: normalizeArtist(entry.author),
+                score: scoreOne(entry, ctx, random),
+                title: entry.title
+            };
+        })
+        .sort((a, b) => b.score - a.score || a.title.localeCompare(b.title))
+        .map(({ track, artist, score }) => ({ track, artist, score }));
+}
+
+/**
+ * Weighted random pick among the best few
+ */
+export function pickCandidate<T>(
+    scored: ScoredCandidate<T>[],
+    random: RandomSource,
+    topN: number = autoplayConfig.topPicks
+): ScoredCandidate<T> | null {
+    if (scored.length === 0) return null;
+
+    const top = scored.slice(0, Math.min(topN, scored.length));
+    const total = top.reduce((sum, c) => sum + Math.max(c.score, 1), 0);
+    let roll = random() * total;
+
+    for (const candidate of top) {
+        roll -= Math.max(candidate.score, 1);
+        if (roll <= 0) return candidate;
+    }
+    return top[0]!;
+}
@@ -6,13 +6,26 @@
 
 export { default as lavalinkService, LavalinkService } from './lavalinkService.js';
 export { type LavalinkSearchResult, type PlaylistResult, type PreservedState, type NodeStatus } from './lavalinkService.js';
+export { LavalinkNodeManager } from './lavalinkNodeManager.js';
 
 export { default as musicFacade, musicFacade as MusicFacade } from './musicFacade.js';
 export { musicFacade as MusicService } from './musicFacade.js';
 
 export { MusicNowPlayingManager } from './musicNowPlayingManager.js';
 export { MusicUserDataService } from './musicUserDataService.js';
-export { MusicSkipVoteManager } from './musicSkipVoteManager.js';
+export { MusicVoteManager } from './musicVoteManager.js';
+export { MusicPlaylistService } from './musicPlaylistService.js';
+export { MusicFilterService } from './musicFilterService.js';
+export { MusicLyricsManager } from './musicLyricsManager.js';
+export { MusicPermissionService } from './musicPermissionService.js';
+export { MusicTwentyFourSevenService } from './musicTwentyFourSevenService.js';
+export { MusicQueueSnapshotService } from './musicQueueSnapshotService.js';
+export { MusicPlaylistImportService } from './musicPlaylistImportService.js';
+export { MusicStatsService } from './musicStatsService.js';
+export { MusicRequestChannelService } from './musicRequestChannelService.js';
+export { MusicFairQueueService } from './musicFairQueueService.js';
+export { MusicQueueFileService } from './musicQueueFileService.js';
+export { MusicRadioService } from './musicRadioService.js';
 
 export type { Track, TrackInfo } from '../../../types/music/track.js';
 export type { LoopMode, NowPlayingOptions, PlayNextResult } from '../../../types/music/playback.js';
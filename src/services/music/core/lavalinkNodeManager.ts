@@ -0,0 +1,268 @@
+/**
+ * Lavalink Node Manager
+ * Scores nodes from their Lavalink stats, picks the healthiest node for new players
+ * and moves players off nodes that degrade or drop.
+ * @module services/music/lavalinkNodeManager
+ */
+
+import logger from '../../../core/observability/Logger.js';
+import { nodeHealth as healthConfig } from '../../../config/features/lavalink.js';
+import {
+    updateLavalinkMetrics,
+    updateLavalinkNodeHealthMetrics,
+    trackLavalinkMigration
+} from '../../../core/observability/metrics.js';
+import type { NodeHealth } from '../../../types/music/lavalink.js';
+import type { LavalinkNodeStats, ShoukakuNode, ShoukakuNodePool, ShoukakuPlayer } from '../../../types/music/lavalink-service.js';
+
+// Shoukaku node state
+const CONNECTED = 1;
+
+type MigrationReason = 'degraded' | 'node_lost';
+
+/**
+ * Weighted load score for a node; lower is healthier. Missing stats count as idle.
+ */
+export function scoreNode(stats: LavalinkNodeStats | null, players: number, pingMs: number | null): number {
+    const weights = healthConfig.weights;
+    const frames = stats?.frameStats
+        ? Math.max(0, stats.frameStats.deficit) + Math.max(0, stats.frameStats.nulled)
+        : 0;
+
+    return (stats?.cpu.systemLoad ?? 0) * weights.cpu
+        + frames * weights.frameDeficit
+        + players * weights.players
+        + (pingMs ?? 0) * weights.ping;
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error(`timed out after ${ms}ms`)), ms);
+        promise.then(
+            value => { clearTimeout(timer); resolve(value); },
+            error => { clearTimeout(timer); reject(error); }
+        );
+    });
+}
+
+export class LavalinkNodeManager {
+    private readonly health = new Map<string, NodeHealth>();
+    private readonly stats = new Map<string, LavalinkNodeStats>();
+    private pollTimer: ReturnType<typeof setInterval> | null = null;
+    private polling = false;
+
+    constructor(private readonly getPool: () => ShoukakuNodePool | null) {}
+
+    /**
+     * Poll node stats on an interval
+     */
+    start(): void {
+        if (this.pollTimer) return;
+
+        this.pollTimer = setInterval(() => {
+            this.poll().catch((error: Error) => logger.error('LavalinkNodes', `Health poll failed: ${error.message}`));
+        }, healthConfig.pollIntervalMs);
+
+        // Don't block Node.js shutdown
+        if (typeof this.pollTimer === 'object' && 'unref' in this.pollTimer) {
+            this.pollTimer.unref();
+        }
+    }
+
+    stop(): void {
+        if (this.pollTimer) {
+            clearInterval(this.pollTimer);
+            this.pollTimer = null;
+        }
+    }
+
+    /**
+     * Forget readings from a previous Shoukaku instance
+     */
+    reset(): void {
+        this.health.clear();
+        this.stats.clear();
+    }
+
+    /**
+     * Healthiest connected node: non-degraded nodes first, then lowest score.
+     * Used as Shoukaku's nodeResolver, so every new player lands here.
+     */
+    pickNode(nodes: Map<string, ShoukakuNode>, excludeName?: string): ShoukakuNode | undefined {
+        const candidates = [...nodes.values()].filter(node => node.state === CONNECTED && node.name !== excludeName);
+        if (candidates.length === 0) return undefined;
+
+        return candidates
+            .map(node => ({ node, degraded: this.health.get(node.name)?.degraded ?? false, score: this.currentScore(node) }))
+            .sort((a, b) => Number(a.degraded) - Number(b.degraded) || a.score - b.score)[0]!.node;
+    }
+
+    /**
+     * Latest health of every known node, with live player counts
+     */
+    getHealth(): NodeHealth[] {
+        const pool = this.getPool();
+        if (!pool) return [];
+
+        return [...pool.nodes.values()].map(node => this.getNodeHealth(node));
+    }
+
+    getNodeHealth(node: ShoukakuNode): NodeHealth {
+        const entry = this.health.get(node.name);
+        return {
+            name: node.name,
+            connected: node.state === CONNECTED,
+            score: entry?.score ?? null,
+            cpuLoad: entry?.cpuLoad ?? null,
+            frameDeficit: entry?.frameDeficit ?? null,
+            players: this.playersOn(node.name).length,
+            pingMs: entry?.pingMs ?? null,
+            unhealthyChecks: entry?.unhealthyChecks ?? 0,
+            degraded: entry?.degraded ?? false,
+            checkedAt: entry?.checkedAt ?? null
+        };
+    }
+
+    /**
+     * Sample every connected node, then drain the ones that went degraded
+     */
+    async poll(): Promise<void> {
+        const pool = this.getPool();
+        if (!pool || this.polling) return;
+
+        this.polling = true;
+        try {
+            for (const node of pool.nodes.values()) {
+                if (node.state === CONNECTED) {
+                    await this.sample(node);
+                }
+
+                const health = this.getNodeHealth(node);
+                updateLavalinkMetrics(node.name, health.connected, health.players);
+                updateLavalinkNodeHealthMetrics(health);
+            }
+
+            for (const node of pool.nodes.values()) {
+                if (node.state === CONNECTED && this.health.get(node.name)?.degraded) {
+                    await this.drain(node.name, 'degraded', healthConfig.maxMigrationsPerPoll);
+                }
+            }
+        } finally {
+            this.polling = false;
+        }
+    }
+
+    /**
+     * Move players off a node onto the healthiest other node. Returns how many moved.
+     * 'degraded' only moves to nodes that are themselves healthy; 'node_lost' takes any connected node.
+     */
+    async drain(nodeName: string, reason: MigrationReason, limit: number = Infinity): Promise<number> {
+        const pool = this.getPool();
+        if (!pool) return 0;
+
+        let moved = 0;
+        for (const player of this.playersOn(nodeName).slice(0, limit)) {
+            // Re-pick every time: the live player counts shift as players arrive
+            const target = this.pickNode(pool.nodes, nodeName);
+            if (!target || (reason === 'degraded' && this.health.get(target.name)?.degraded)) break;
+
+            if (await this.migratePlayer(player, target, reason)) moved++;
+        }
+
+        if (moved > 0) {
+            logger.info('LavalinkNodes', `Moved ${moved} player(s) off node "${nodeName}" (${reason})`);
+        }
+        return moved;
+    }
+
+    /**
+     * Rebuild a player on another node at its current position.
+     * A degraded node is still up, so player.move() destroys the old player there first.
+     * A lost node can't be reached (Shoukaku emits 'close' before flipping its state),
+     * so the player is pointed at the target and its state re-sent there.
+     */
+    async migratePlayer(player: ShoukakuPlayer, target: ShoukakuNode, reason: MigrationReason): Promise<boolean> {
+        const source = player.node;
+        const sourceReachable = reason === 'degraded' && source.state === CONNECTED;
+        let success = false;
+
+        try {
+            if (sourceReachable) {
+                success = await player.move(target.name);
+            } else {
+                player.node = target;
+                await player.resume();
+                success = true;
+            }
+        } catch (error) {
+            if (!sourceReachable) player.node = source;
+            logger.warn('LavalinkNodes', `Could not move guild ${player.guildId} from "${source.name}" to "${target.name}": ${(error as Error).message}`);
+        }
+
+        trackLavalinkMigration(reason, success);
+        return success;
+    }
+
+    /**
+     * Time a stats request and record the node's reading
+     */
+    private async sample(node: ShoukakuNode): Promise<void> {
+        const previous = this.health.get(node.name);
+        const startedAt = Date.now();
+        let stats: LavalinkNodeStats | null = null;
+        let pingMs: number | null = null;
+
+        try {
+            stats = (await withTimeout(node.rest.stats(), healthConfig.pingTimeoutMs)) ?? node.stats;
+            pingMs = Date.now() - startedAt;
+        } catch (error) {
+            logger.warn('LavalinkNodes', `Stats request to node "${node.name}" failed: ${(error as Error).message}`);
+        }
+
+        if (stats) this.stats.set(node.name, stats);
+
+        const players = this.playersOn(node.name).length;
+        const score = stats ? scoreNode(stats, Math.max(players, stats.playingPlayers), pingMs) : null;
+        const unhealthy = pingMs === null
+            || pingMs > healthConfig.maxPingMs
+            || (score !== null && score >= healthConfig.degradedScore);
+        const unhealthyChecks = unhealthy ? (previous?.unhealthyChecks ?? 0) + 1 : 0;
+        const degraded = unhealthyChecks >= healthConfig.degradedAfterChecks;
+
+        if (degraded && !previous?.degraded) {
+            logger.warn('LavalinkNodes', `Node "${node.name}" degraded (score ${score?.toFixed(1) ?? 'n/a'}, ping ${pingMs ?? 'n/a'}ms), draining players`);
+        } else if (!degraded && previous?.degraded) {
+            logger.info('LavalinkNodes', `Node "${node.name}" recovered`);
+        }
+
+        this.health.set(node.name, {
+            name: node.name,
+            connected: true,
+            score,
+            cpuLoad: stats?.cpu.systemLoad ?? null,
+            frameDeficit: stats?.frameStats ? stats.frameStats.deficit + stats.frameStats.nulled : null,
+            players,
+            pingMs,
+            unhealthyChecks,
+            degraded,
+            checkedAt: Date.now()
+        });
+    }
+
+    /**
+     * Score with the last polled load and the live player count, so players
+     * placed since the last poll are already taken into account
+     */
+    private currentScore(node: ShoukakuNode): number {
+        const stats = this.stats.get(node.name) ?? node.stats;
+        const players = Math.max(this.playersOn(node.name).length, stats?.playingPlayers ?? 0);
+        return scoreNode(stats, players, this.health.get(node.name)?.pingMs ?? null);
+    }
+
+    private playersOn(nodeName: string): ShoukakuPlayer[] {
+        const pool = this.getPool();
+        if (!pool) return [];
+
+        return [...pool.players.values()].filter(player => player.node?.name === nodeName);
+    }
+}
@@ -12,11 +12,17 @@ import * as lavalinkConfig from '../../../config/features/lavalink.js';
 import circuitBreakerRegistry from '../../../core/resilience/CircuitBreakerRegistry.js';
 import gracefulDegradation from '../../../core/resilience/GracefulDegradation.js';
 import cacheService from '../../../cache/cacheService.js';
+import musicCache from '../../../cache/music/MusicCacheFacade.js';
+import { buildLavalinkFilters, isFilterActive } from '../../../utils/music/index.js';
 import { updateLavalinkMetrics } from '../../../core/observability/metrics.js';
 import type { MusicTrack } from '../events/musicEvents.js';
+import { MusicEvents } from '../events/musicEvents.js';
+import musicEventBus from '../events/musicEventBus.js';
 import spotifyService from '../spotify/spotifyService.js';
+import { LavalinkNodeManager } from './lavalinkNodeManager.js';
 import type { NodeConfig, LavalinkSearchResult, PlaylistResult, PreservedState, NodeStatus } from '../../../types/music/lavalink.js';
-import type { CircuitBreaker, ShoukakuNode, ShoukakuPlayer, TrackData } from '../../../types/music/lavalink-service.js';
+import type { EmbedTrack } from '../../../types/music/spotify-service.js';
+import type { CircuitBreaker, ShoukakuNode, ShoukakuNodePool, ShoukakuPlayer, TrackData } from '../../../types/music/lavalink-service.js';
 // LAVALINK SERVICE CLASS
 class LavalinkService {
     public shoukaku: Shoukaku | null = null;
@@ -28,6 +34,7 @@ class LavalinkService {
     private reinitAttempts: number = 0;
     private static readonly MAX_REINIT_ATTEMPTS = 10;
     private static readonly WATCHDOG_INTERVAL = 30_000; // 30s
+    private readonly nodeManager = new LavalinkNodeManager(() => this.shoukaku as unknown as ShoukakuNodePool | null);
     
     // Note: preservedQueues moved to Redis via CacheService for shard-safety
 
@@ -58,6 +65,9 @@ class LavalinkService {
         // Start watchdog to re-initialize if all nodes are permanently lost
         this.startWatchdog();
 
+        // Score nodes and drain degraded ones
+        this.nodeManager.start();
+
         return this.shoukaku;
     }
 
@@ -79,6 +89,7 @@ class LavalinkService {
             this.shoukaku = null;
             this.readyNodes.clear();
             this.isReady = false;
+            this.nodeManager.reset();
         }
 
         const configNodes = lavalinkConfig.nodes as NodeConfig[];
@@ -91,7 +102,12 @@ class LavalinkService {
 
         try {
             const connector = new Connectors.DiscordJS(this.client);
-            this.shoukaku = new Shoukaku(connector, nodes, (lavalinkConfig as Record<string, unknown>).shoukakuOptions as Shoukaku['options'] | undefined);
+            const options = {
+                ...lavalinkConfig.shoukakuOptions,
+                // New players go to the healthiest node instead of Shoukaku's penalty pick
+                nodeResolver: (pool: Map<string, unknown>) => this.nodeManager.pickNode(pool as Map<string, ShoukakuNode>)
+            } as Shoukaku['options'];
+            this.shoukaku = new Shoukaku(connector, nodes, options);
             this.setupEventHandlers();
             logger.info('Lavalink', `Shoukaku instance created, connecting to ${nodes.length} nodes...`);
         } catch (error) {
@@ -175,6 +191,9 @@ class LavalinkService {
             
             // Try to restore preserved queues
             this._restorePreservedQueues();
+
+            // Let the facade rejoin 24/7 guilds
+            musicEventBus.emitEvent(MusicEvents.LAVALINK_READY, { node: name });
         });
 
         this.shoukaku.on('error', (name: string, error: Error) => {
@@ -207,6 +226,10 @@ class LavalinkService {
                 
                 // Preserve all active queues
                 this._preserveAllQueues();
+            } else {
+                // Other nodes are up: move this node's players over at their current position
+                this.nodeManager.drain(name, 'node_lost')
+                    .catch((error: Error) => logger.error('Lavalink', `Failed to move players off "${name}": ${error.message}`));
             }
         });
 
@@ -236,6 +259,13 @@ class LavalinkService {
         return this.shoukaku;
     }
 
+    /**
+     * Get the Discord client Shoukaku was initialized with
+     */
+    getClient(): Client | null {
+        return this.client;
+    }
+
     /**
      * Get player for guild
      */
@@ -256,6 +286,7 @@ class LavalinkService {
         }
 
         // Shoukaku node states: 0 = CONNECTING, 1 = CONNECTED, 2 = DISCONNECTING, 3 = DISCONNECTED
+        // joinVoiceChannel places the player through the node manager's nodeResolver
         const node = [...(this.shoukaku.nodes as Map<string, ShoukakuNode>).values()].find(n => n.state === 1);
         if (!node) throw new Error('No available nodes');
 
@@ -271,6 +302,12 @@ class LavalinkService {
             const configVolume = (lavalinkConfig as { playerOptions?: { volume?: number } }).playerOptions?.volume || 100;
             await player.setGlobalVolume(configVolume);
 
+            // Re-apply filters kept across a reconnect or player rebuild
+            const filters = musicCache.getFilters(guildId);
+            if (isFilterActive(filters)) {
+                await player.setFilters(buildLavalinkFilters(filters));
+            }
+
             return player;
 
         } catch (error) {
@@ -381,7 +418,7 @@ class LavalinkService {
                 }
             }
 
-            let track: { encoded?: string; info?: { uri?: string; title?: string; length?: number; artworkUrl?: string; author?: string; sourceName?: string; identifier?: string; viewCount?: number }; pluginInfo?: { viewCount?: number; playCount?: number } } | undefined;
+            let track: { encoded?: string; info?: { uri?: string; title?: string; length?: number; isStream?: boolean; artworkUrl?: string; author?: string; sourceName?: string; identifier?: string; viewCount?: number }; pluginInfo?: { viewCount?: number; playCount?: number } } | undefined;
             if (result.loadType === 'track') {
                 track = result.data as typeof track;
             } else if (result.loadType === 'search') {
@@ -449,7 +486,9 @@ class LavalinkService {
                 encoded: track.encoded || '',
                 url: track.info?.uri || '',
                 title: track.info?.title || '',
-                lengthSeconds: Math.floor((track.info?.length || 0) / 1000),
+                // Live streams report a placeholder length
+                lengthSeconds: track.info?.isStream ? 0 : Math.floor((track.info?.length || 0) / 1000),
+                isStream: !!track.info?.isStream,
                 thumbnail: thumbnail,
                 author: track.info?.author || '',
                 requestedBy: requester,
@@ -509,6 +548,7 @@ class LavalinkService {
                 url: track.info.uri || '',
                 title: spotifyTrack.name || track.info.title || '',
                 lengthSeconds: Math.floor((spotifyTrack.duration_ms || track.info.length || 0) / 1000),
+                isStream: false,
                 thumbnail: artworkUrl || null,
                 author: spotifyTrack.artists.map(a => a.name).join(', ') || track.info.author || '',
                 requestedBy: requester,
@@ -541,59 +581,13 @@ class LavalinkService {
             if (spotifyTracks.length === 0) return null;
 
             const resolvedTracks: LavalinkSearchResult[] = [];
-            const searchPlatform = (lavalinkConfig as { defaultSearchPlatform?: string }).defaultSearchPlatform;
 
             // Search each track on YouTube (with concurrency limit)
             const batchSize = 5;
             for (let i = 0; i < spotifyTracks.length; i += batchSize) {
                 const batch = spotifyTracks.slice(i, i + batchSize);
-                const promises = batch.map(async (st) => {
-                    try {
-                        // Try ISRC first if available, then title+artist
-                        let searchQuery = st.isrc
-                            ? `${searchPlatform}:"${st.isrc}"`
-                            : `${searchPlatform}:${st.title} ${st.artist}`;
-
-                        let result = await node.rest.resolve(searchQuery);
-
-                        // If ISRC search fails, fall back to title+artist
-                        if (st.isrc && (!result || result.loadType === 'error' || result.loadType === 'empty')) {
-                            searchQuery = `${searchPlatform}:${st.title} ${st.artist}`;
-                            result = await node.rest.resolve(searchQuery);
-                        }
-
-                        if (!result || result.loadType === 'error' || result.loadType === 'empty') return null;
-
-                        let track: TrackData | undefined;
-                        if (result.loadType === 'track') {
-                            track = result.data as TrackData;
-                        } else if (result.loadType === 'search') {
-                            track = (result.data as TrackData[])?.[0];
-                        }
-
-                        if (!track?.encoded || !track.info) return null;
-
-                        const youtubeId = this.extractYouTubeId(track.info.uri);
-
-                        return {
-                            track: track,
-                            encoded: track.encoded,
-                            url: track.info.uri || '',
-                            title: st.title || track.info.title || '',
-                            lengthSeconds: Math.floor((st.duration_ms || track.info.length || 0) / 1000),
-                            thumbnail: st.artworkUrl || track.info.artworkUrl || (youtubeId ? `https://img.youtube.com/vi/${youtubeId}/hqdefault.jpg` : null),
-                            author: st.artist || track.info.author || '',
-                            requestedBy: requester,
-                            source: 'spotify' as const,
-                            viewCount: track.pluginInfo?.viewCount || track.info.viewCount || null,
-                            identifier: youtubeId || track.info.identifier || null,
-                            searchedByLink: true,
-                            originalQuery: null
-                        } as LavalinkSearchResult;
-                    } catch {
-                        return null;
-                    }
-                });
+                const promises = batch.map(st =>
+                    this._resolveMetadataTrack(st, node, requester).catch(() => null));
 
                 const results = await Promise.all(promises);
                 for (const r of results) {
@@ -618,6 +612,78 @@ class LavalinkService {
         }
     }
 
+    /**
+     * Match a track known only by metadata (ISRC, or title + artist) to a playable track
+     * @returns null when nothing matched; throws when the lookup itself failed
+     */
+    private async _resolveMetadataTrack(
+        st: EmbedTrack,
+        node: ShoukakuNode,
+        requester?: unknown,
+        source: string = 'spotify'
+    ): Promise<LavalinkSearchResult | null> {
+        const searchPlatform = (lavalinkConfig as { defaultSearchPlatform?: string }).defaultSearchPlatform;
+
+        // Try ISRC first if available, then title+artist
+        let searchQuery = st.isrc
+            ? `${searchPlatform}:"${st.isrc}"`
+            : `${searchPlatform}:${st.title} ${st.artist}`;
+
+        let result = await node.rest.resolve(searchQuery);
+
+        // If ISRC search fails, fall back to title+artist
+        if (st.isrc && (!result || result.loadType === 'error' || result.loadType === 'empty')) {
+            searchQuery = `${searchPlatform}:${st.title} ${st.artist}`;
+            result = await node.rest.resolve(searchQuery);
+        }
+
+        if (!result || result.loadType === 'error' || result.loadType === 'empty') return null;
+
+        let track: TrackData | undefined;
+        if (result.loadType === 'track') {
+            track = result.data as TrackData;
+        } else if (result.loadType === 'search') {
+            track = (result.data as TrackData[])?.[0];
+        }
+
+        if (!track?.encoded || !track.info) return null;
+
+        const youtubeId = this.extractYouTubeId(track.info.uri);
+
+        return {
+            track: track,
+            encoded: track.encoded,
+            url: track.info.uri || '',
+            title: st.title || track.info.title || '',
+            lengthSeconds: Math.floor((st.duration_ms || track.info.length || 0) / 1000),
+            isStream: false,
+            thumbnail: st.artworkUrl || track.info.artworkUrl || (youtubeId ? `https://img.youtube.com/vi/${youtubeId}/hqdefault.jpg` : null),
+            author: st.artist || track.info.author || '',
+            requestedBy: requester,
+            source,
+            viewCount: track.pluginInfo?.viewCount || track.info.viewCount || null,
+            identifier: youtubeId || track.info.identifier || null,
+            searchedByLink: true,
+            originalQuery: null
+        };
+    }
+
+    /**
+     * Match a playlist entry from another service (e.g. a Spotify track) to a playable track
+     * @returns null when nothing matched; throws when no node is available or the lookup failed
+     */
+    async resolveExternalTrack(entry: EmbedTrack, requester?: unknown, source: string = 'spotify'): Promise<LavalinkSearchResult | null> {
+        if (!this.shoukaku || !this.isReady) {
+            throw new Error('Lavalink not ready');
+        }
+
+        const node = [...(this.shoukaku.nodes as Map<string, ShoukakuNode>).values()].find(n => n.state === 1);
+        if (!node) {
+            throw new Error('No available nodes');
+        }
+        return this._resolveMetadataTrack(entry, node, requester, source);
+    }
+
     /**
      * Extract YouTube ID from URL
      */
@@ -678,7 +744,7 @@ class LavalinkService {
                 }
 
                 logger.info('Lavalink', `SearchMultiple: loadType=${result.loadType}, tracks found`);
-                let tracks: Array<{ encoded?: string; info?: { uri?: string; title?: string; length?: number; artworkUrl?: string; author?: string; sourceName?: string; identifier?: string } }> = [];
+                let tracks: Array<{ encoded?: string; info?: { uri?: string; title?: string; length?: number; isStream?: boolean; artworkUrl?: string; author?: string; sourceName?: string; identifier?: string } }> = [];
                 if (result.loadType === 'search' && Array.isArray(result.data)) {
                     tracks = (result.data as typeof tracks).slice(0, limit);
                 } else if (result.loadType === 'track' && result.data) {
@@ -696,7 +762,8 @@ class LavalinkService {
                             info: track.info,
                             url: track.info?.uri,
                             title: track.info?.title,
-                            lengthSeconds: Math.floor((track.info?.length || 0) / 1000),
+                            lengthSeconds: track.info?.isStream ? 0 : Math.floor((track.info?.length || 0) / 1000),
+                            isStream: !!track.info?.isStream,
                             thumbnail: track.info?.artworkUrl || (youtubeId ? `https://img.youtube.com/vi/${youtubeId}/hqdefault.jpg` : null),
                             author: track.info?.author,
                             source: track.info?.sourceName || 'Unknown',
@@ -736,25 +803,7 @@ class LavalinkService {
             throw new Error('Lavalink not ready');
         }
 
-        let searchQuery = query;
-        if (/^https?:\/\//.test(query)) {
-            // Strip tracking params (si, feature) from URLs (including Spotify)
-            try {
-                const url = new URL(query);
-                url.searchParams.delete('si');
-                url.searchParams.delete('feature');
-                // Normalize Spotify /intl-XX/ locale prefix (LavaSrc doesn't handle it)
-                if (url.hostname.includes('spotify.com')) {
-                    url.pathname = url.pathname.replace(/\/intl-[a-z]{2}\//, '/');
-                    url.pathname = url.pathname.replace(/\/intl\/[a-z]{2}\//, '/');
-                }
-                searchQuery = url.toString();
-            } catch {
-                // Use original query on parse failure
-            }
-        } else {
-            searchQuery = `${(lavalinkConfig as { defaultSearchPlatform?: string }).defaultSearchPlatform}:${query}`;
-        }
+        const searchQuery = this._normalizePlaylistQuery(query);
 
         // Shoukaku node states: 0 = CONNECTING, 1 = CONNECTED, 2 = DISCONNECTING, 3 = DISCONNECTED
         const node = [...(this.shoukaku.nodes as Map<string, ShoukakuNode>).values()].find(n => n.state === 1);
@@ -786,37 +835,8 @@ class LavalinkService {
             }
 
             if (result.loadType === 'playlist') {
-                const playlistData = result.data as { info: { name: string }; tracks: Array<{ encoded?: string; info?: { uri?: string; title?: string; length?: number; artworkUrl?: string; author?: string; sourceName?: string; identifier?: string; viewCount?: number }; pluginInfo?: { viewCount?: number; playCount?: number } }> };
-                const tracks = playlistData.tracks.map(track => {
-                    const youtubeId = this.extractYouTubeId(track.info?.uri);
-                    
-                    // Try multiple thumbnail options with fallbacks
-                    let thumbnail: string | null = track.info?.artworkUrl || null;
-                    if (!thumbnail && youtubeId) {
-                        thumbnail = `https://img.youtube.com/vi/${youtubeId}/hqdefault.jpg`;
-                    }
-
-                    const viewCount = track.pluginInfo?.viewCount || 
-                                    track.pluginInfo?.playCount || 
-                                    track.info?.viewCount ||
-                                    null;
-
-                    return {
-                        track: track,
-                        encoded: track.encoded || '',
-                        url: track.info?.uri || '',
-                        title: track.info?.title || '',
-                        lengthSeconds: Math.floor((track.info?.length || 0) / 1000),
-                        thumbnail: thumbnail,
-                        author: track.info?.author || '',
-                        requestedBy: requester,
-                        source: track.info?.sourceName || 'Unknown',
-                        viewCount: viewCount,
-                        identifier: youtubeId || track.info?.identifier || null,
-                        searchedByLink: true,
-                        originalQuery: null
-                    };
-                });
+                const playlistData = result.data as { info: { name: string }; tracks: TrackData[] };
+                const tracks = playlistData.tracks.map(track => this._toPlaylistTrack(track, requester));
 
                 // Filter out unplayable tracks (no encoded data = Spotify track not resolved to YouTube)
                 const playableTracks = tracks.filter(t => t.encoded && t.encoded !== '');
@@ -844,6 +864,92 @@ class LavalinkService {
         }
     }
 
+    /**
+     * Load a playlist as-is, including tracks the source could not make playable
+     * (no encoded data), so callers can match or report them individually.
+     * @returns null when the query is not a playlist Lavalink can load
+     */
+    async loadPlaylist(query: string, requester?: unknown): Promise<PlaylistResult | null> {
+        if (!this.shoukaku || !this.isReady) {
+            throw new Error('Lavalink not ready');
+        }
+
+        const node = [...(this.shoukaku.nodes as Map<string, ShoukakuNode>).values()].find(n => n.state === 1);
+        if (!node) {
+            throw new Error('No available nodes');
+        }
+
+        const searchQuery = this._normalizePlaylistQuery(query);
+        let result = await node.rest.resolve(searchQuery);
+        if ((!result || result.loadType !== 'playlist') && searchQuery !== query) {
+            result = await node.rest.resolve(query);
+        }
+        if (!result || result.loadType !== 'playlist') return null;
+
+        const playlistData = result.data as { info: { name: string }; tracks: TrackData[] };
+        return {
+            playlistName: playlistData.info.name,
+            tracks: playlistData.tracks.map(track => this._toPlaylistTrack(track, requester))
+        };
+    }
+
+    /**
+     * Strip tracking params from playlist URLs, or turn plain text into a search query
+     */
+    private _normalizePlaylistQuery(query: string): string {
+        if (!/^https?:\/\//.test(query)) {
+            return `${(lavalinkConfig as { defaultSearchPlatform?: string }).defaultSearchPlatform}:${query}`;
+        }
+
+        // Strip tracking params (si, feature) from URLs (including Spotify)
+        try {
+            const url = new URL(query);
+            url.searchParams.delete('si');
+            url.searchParams.delete('feature');
+            // Normalize Spotify /intl-XX/ locale prefix (LavaSrc doesn't handle it)
+            if (url.hostname.includes('spotify.com')) {
+                url.pathname = url.pathname.replace(/\/intl-[a-z]{2}\//, '/');
+                url.pathname = url.pathname.replace(/\/intl\/[a-z]{2}\//, '/');
+            }
+            return url.toString();
+        } catch {
+            // Use original query on parse failure
+            return query;
+        }
+    }
+
+    private _toPlaylistTrack(track: TrackData, requester?: unknown): LavalinkSearchResult {
+        const youtubeId = this.extractYouTubeId(track.info?.uri);
+
+        // Try multiple thumbnail options with fallbacks
+        let thumbnail: string | null = track.info?.artworkUrl || null;
+        if (!thumbnail && youtubeId) {
+            thumbnail = `https://img.youtube.com/vi/${youtubeId}/hqdefault.jpg`;
+        }
+
+        const viewCount = track.pluginInfo?.viewCount ||
+                        track.pluginInfo?.playCount ||
+                        track.info?.viewCount ||
+                        null;
+
+        return {
+            track: track,
+            encoded: track.encoded || '',
+            url: track.info?.uri || '',
+            title: track.info?.title || '',
+            lengthSeconds: track.info?.isStream ? 0 : Math.floor((track.info?.length || 0) / 1000),
+            isStream: !!track.info?.isStream,
+            thumbnail: thumbnail,
+            author: track.info?.author || '',
+            requestedBy: requester,
+            source: track.info?.sourceName || 'Unknown',
+            viewCount: viewCount,
+            identifier: youtubeId || track.info?.identifier || null,
+            searchedByLink: true,
+            originalQuery: null
+        };
+    }
+
     /**
      * Get node status
      */
@@ -855,7 +961,8 @@ class LavalinkService {
         const nodes = Array.from((this.shoukaku.nodes as Map<string, ShoukakuNode>).values()).map(node => ({
             name: node.name,
             state: node.state,
-            stats: node.stats
+            stats: node.stats,
+            health: this.nodeManager.getNodeHealth(node)
         }));
 
         return {
@@ -874,6 +981,7 @@ class LavalinkService {
      * Shutdown (used by container)
      */
     async shutdown(): Promise<void> {
+        this.nodeManager.stop();
         if (this.shoukaku) {
             // Disconnect all players
             for (const [, player] of (this.shoukaku.players as unknown as Map<string, ShoukakuPlayer>)) {
@@ -905,6 +1013,7 @@ class LavalinkService {
                     position: player.position,
                     paused: player.paused,
                     volume: player.volume,
+                    filters: musicCache.getFilters(guildId),
                     // Note: Queue itself is managed by QueueService, not LavalinkService
                 };
                 
@@ -944,6 +1053,13 @@ class LavalinkService {
                     continue;
                 }
                 
+                // Filters live in memory; put them back and re-apply if the player survived
+                if (state.filters) {
+                    musicCache.setFilters(guildId, state.filters);
+                    await this.getPlayer(guildId)?.setFilters(buildLavalinkFilters(state.filters))
+                        .catch((error: Error) => logger.warn('Lavalink', `Failed to restore filters for ${guildId}: ${error.message}`));
+                }
+                
                 // Emit event for QueueService to handle restoration
                 // The actual restoration will be handled by the music event system
                 logger.info('Lavalink', `Queue restoration available for guild ${guildId}`);
@@ -1,17 +1,42 @@
-import { ChatInputCommandInteraction, Message, Guild, GuildMember } from 'discord.js';
+import { AttachmentBuilder, ChatInputCommandInteraction, Message, Guild, GuildMember, TextBasedChannel } from 'discord.js';
 import { queueService, QueueService } from '../queue/index.js';
 import { playbackService, PlaybackService } from '../playback/index.js';
 import { voiceConnectionService, VoiceConnectionService } from '../voice/index.js';
 import { autoPlayService, AutoPlayService } from '../autoplay/index.js';
 import spotifyService from '../spotify/spotifyService.js';
 import { musicEventBus, MusicEvents, playbackEventHandler } from '../events/index.js';
+import lavalinkService from './lavalinkService.js';
 import musicCache from '../../../cache/music/MusicCacheFacade.js';
-import { createInfoEmbed, createQueueFinishedEmbed } from '../../../handlers/music/trackEmbeds.js';
+import {
+    createImportFailureReport,
+    createInfoEmbed,
+    createMonthlyStatsEmbed,
+    createPlaylistImportEmbed,
+    createQueueFinishedEmbed,
+    createResumePromptEmbed
+} from '../../../handlers/music/trackEmbeds.js';
+import { createImportCancelButton, createResumeButtons } from '../../../handlers/music/trackButtons.js';
+import { playlistImport as importConfig, snapshots as snapshotConfig, sleepTimer as sleepTimerConfig, queueFile as queueFileConfig } from '../../../config/features/music.js';
 import { updateMusicMetrics, musicTracksPlayedTotal } from '../../../core/observability/metrics.js';
 import logger from '../../../core/observability/Logger.js';
+import { describeFilters } from '../../../utils/music/index.js';
 import { MusicNowPlayingManager } from './musicNowPlayingManager.js';
 import { MusicUserDataService } from './musicUserDataService.js';
-import { MusicSkipVoteManager } from './musicSkipVoteManager.js';
+import { MusicVoteManager } from './musicVoteManager.js';
+import { MusicPlaylistService } from './musicPlaylistService.js';
+import { MusicFilterService } from './musicFilterService.js';
+import { MusicLyricsManager } from './musicLyricsManager.js';
+import { MusicPermissionService } from './musicPermissionService.js';
+import { MusicTwentyFourSevenService } from './musicTwentyFourSevenService.js';
+import { MusicQueueSnapshotService } from './musicQueueSnapshotService.js';
+import { MusicPlaylistImportService } from './musicPlaylistImportService.js';
+import { MusicStatsService } from './musicStatsService.js';
+import { MusicRequestChannelService } from './musicRequestChannelService.js';
+import { MusicFairQueueService } from './musicFairQueueService.js';
+import { MusicQueueFileService } from './musicQueueFileService.js';
+import { MusicRadioService } from './musicRadioService.js';
+import { Result } from '../../../core/errors/Result.js';
+import { ErrorCodes } from '../../../core/errors/ErrorCodes.js';
 
 export { type Track, type TrackInfo } from '../../../types/music/track.js';
 export { type LoopMode, type NowPlayingOptions, type PlayNextResult } from '../../../types/music/playback.js';
@@ -23,6 +48,41 @@ import type { PlayNextResult, LoopMode } from '../../../types/music/playback.js'
 import type { QueueState } from '../../../types/music/queue.js';
 import type { SkipResult, VoteSkipResult, MusicStats } from '../../../types/music/facade.js';
 import type { PlayerEventHandlers } from '../../../types/music/events.js';
+import type { SavedPlaylist, SavedPlaylistTrack, PlaylistLoadResult } from '../../../types/music/playlist.js';
+import type { FilterPresetName, FilterState } from '../../../types/music/filters.js';
+import type { LyricsResult } from '../../../types/music/lyrics.js';
+import type { MusicAction, MusicPermissionMode, MusicPermissionPolicy, MusicPermissionResult } from '../../../types/music/permissions.js';
+import type { TwentyFourSevenState } from '../../../types/music/twenty-four-seven.js';
+import type { AutoPlayMode } from '../../../types/music/autoplay.js';
+import type { QueueSnapshot } from '../../../types/music/queue-snapshot.js';
+import type { PlaylistImportHooks, PlaylistImportJob, PlaylistImportOptions } from '../../../types/music/playlist-import.js';
+import type { MusicStatsPeriod, MusicStatsReport } from '../../../types/music/stats.js';
+import type { RequestChannelState } from '../../../types/music/request-channel.js';
+import type { ActionVoteTarget, VoteAction, VoteResult, VoteRule } from '../../../types/music/vote.js';
+import type { AddVoteResult, ActionVoteSession } from '../../../types/cache/music/vote-cache.js';
+import type { SleepTimer } from '../../../types/music/sleep-timer.js';
+import type { QueueFileFormat, QueueFileImportResult } from '../../../types/music/queue-file.js';
+import type { RadioStation } from '../../../types/music/radio.js';
+import type { FairQueueSettings, RequesterLimitResult } from '../../../types/music/fair-queue.js';
+
+const REQUEST_PANEL_EVENTS = [
+    MusicEvents.TRACK_START,
+    MusicEvents.QUEUE_ADD,
+    MusicEvents.QUEUE_ADD_MANY,
+    MusicEvents.QUEUE_REMOVE,
+    MusicEvents.QUEUE_CLEAR,
+    MusicEvents.QUEUE_MOVE,
+    MusicEvents.QUEUE_SHUFFLE,
+    MusicEvents.QUEUE_END,
+    MusicEvents.PLAYBACK_PAUSE,
+    MusicEvents.PLAYBACK_RESUME,
+    MusicEvents.PLAYBACK_STOP,
+    MusicEvents.LOOP_CHANGE,
+    MusicEvents.VOLUME_CHANGE,
+    MusicEvents.AUTOPLAY_TOGGLE,
+    MusicEvents.FILTER_CHANGE,
+    MusicEvents.CLEANUP_COMPLETE
+];
 
 export class MusicFacade {
     public readonly queueService: QueueService;
@@ -33,7 +93,26 @@ export class MusicFacade {
     private eventHandlerInitialized: boolean;
     private readonly nowPlayingManager: MusicNowPlayingManager;
     private readonly userDataService: MusicUserDataService;
-    private readonly skipVoteManager: MusicSkipVoteManager;
+    private readonly voteManager: MusicVoteManager;
+    private readonly playlistService: MusicPlaylistService;
+    private readonly filterService: MusicFilterService;
+    private readonly lyricsManager: MusicLyricsManager;
+    private readonly permissionService: MusicPermissionService;
+    private readonly twentyFourSevenService: MusicTwentyFourSevenService;
+    private restoringTwentyFourSeven: boolean = false;
+    private readonly snapshotService: MusicQueueSnapshotService;
+    /** Guilds already asked to resume in this process */
+    private readonly offeredResumes = new Set<string>();
+    /** Guilds whose resume prompt is still waiting for an answer */
+    private readonly pendingResumes = new Set<string>();
+    private readonly importService: MusicPlaylistImportService;
+    private readonly statsService: MusicStatsService;
+    /** Last track recorded as a play per guild, so track-loop repeats are not counted again */
+    private readonly lastRecordedTrack = new Map<string, Track>();
+    private readonly requestChannelService: MusicRequestChannelService;
+    private readonly fairQueueService: MusicFairQueueService;
+    private readonly queueFileService: MusicQueueFileService;
+    private readonly radioService: MusicRadioService;
 
     constructor() {
         this.queueService = queueService;
@@ -44,7 +123,52 @@ export class MusicFacade {
         this.eventHandlerInitialized = false;
         this.nowPlayingManager = new MusicNowPlayingManager();
         this.userDataService = new MusicUserDataService();
-        this.skipVoteManager = new MusicSkipVoteManager();
+        this.voteManager = new MusicVoteManager();
+        this.playlistService = new MusicPlaylistService();
+        this.filterService = new MusicFilterService();
+        this.lyricsManager = new MusicLyricsManager(this.nowPlayingManager);
+        this.permissionService = new MusicPermissionService();
+        this.twentyFourSevenService = new MusicTwentyFourSevenService();
+        this.snapshotService = new MusicQueueSnapshotService();
+        this.importService = new MusicPlaylistImportService();
+        this.statsService = new MusicStatsService();
+        this.requestChannelService = new MusicRequestChannelService(this.nowPlayingManager);
+        this.fairQueueService = new MusicFairQueueService();
+        this.queueFileService = new MusicQueueFileService();
+        this.radioService = new MusicRadioService();
+
+        // Keep snapshot positions fresh; guilds with an unanswered resume prompt are left alone
+        // so an empty 24/7 player doesn't overwrite the session we offered to resume
+        this.snapshotService.startAutoSave(() =>
+            musicCache.getAllActiveGuildIds().filter(id => !this.pendingResumes.has(id)));
+
+        // Post last month's listening report in guilds with a report channel
+        this.statsService.startMonthlyReports((guildId, channelId, report) =>
+            this._postMonthlyReport(guildId, channelId, report));
+
+        // Rejoin 24/7 guilds on startup and after a Lavalink failover, then offer to resume saved queues
+        musicEventBus.subscribe(MusicEvents.LAVALINK_READY, () => {
+            this.restoreTwentyFourSeven()
+                .catch((error: Error) => logger.error('MusicFacade', `24/7 restore failed: ${error.message}`))
+                .then(() => this.offerQueueResumes())
+                .catch((error: Error) => logger.error('MusicFacade', `Queue resume offer failed: ${error.message}`))
+                .then(() => this.restoreRequestPanels())
+                .catch((error: Error) => logger.error('MusicFacade', `Request panel restore failed: ${error.message}`));
+        });
+
+        // Sleep timers are announced by PlaybackEventHandler; stopping works like /music stop
+        musicEventBus.subscribe(MusicEvents.SLEEP_TIMER_END, (data: { guildId?: string }) => {
+            if (!data?.guildId) return;
+            this.cleanup(data.guildId)
+                .catch((error: Error) => logger.error('MusicFacade', `Sleep timer stop failed: ${error.message}`));
+        });
+
+        // Keep song request panels in step with the session
+        for (const event of REQUEST_PANEL_EVENTS) {
+            musicEventBus.subscribe(event, (data: { guildId?: string }) => {
+                if (data?.guildId) this.refreshRequestPanel(data.guildId);
+            });
+        }
     }
 
     updateMetrics(): void {
@@ -90,7 +214,10 @@ export class MusicFacade {
     }
 
     addTrack(guildId: string, track: Track): number {
-        const result = musicCache.addTrack(guildId, track);
+        let result = musicCache.addTrack(guildId, track);
+        if (result > 0 && this.fairQueueService.isEnabled(guildId)) {
+            result = this._placeFairly(guildId, 1)[0]! + 1;
+        }
         musicEventBus.emitEvent(MusicEvents.QUEUE_ADD, { guildId, track });
         this.updateMetrics();
         return result;
@@ -104,7 +231,9 @@ export class MusicFacade {
     }
 
     addTracks(guildId: string, tracks: Track[]): number {
+        const before = queueService.getLength(guildId);
         const result = musicCache.addTracks(guildId, tracks);
+        if (this.fairQueueService.isEnabled(guildId)) this._placeFairly(guildId, result - before);
         musicEventBus.emitEvent(MusicEvents.QUEUE_ADD_MANY, { guildId, tracks, count: tracks.length });
         this.updateMetrics();
         return result;
@@ -132,7 +261,11 @@ export class MusicFacade {
         }
         return result.isOk();
     }
-    async playTrack(guildId: string, track: Track): Promise<Track> {
+    /**
+     * Play a track right away
+     * @param startPosition - Where to start, in ms (used when resuming a snapshot)
+     */
+    async playTrack(guildId: string, track: Track, startPosition: number = 0): Promise<Track> {
         const player = playbackService.getPlayer(guildId);
         if (!player) throw new Error('NO_PLAYER');
         
@@ -152,7 +285,7 @@ export class MusicFacade {
         queueService.setCurrentTrack(guildId, track);
         
         try {
-            await player.playTrack({ track: { encoded } });
+            await player.playTrack({ track: { encoded }, ...(startPosition > 0 ? { position: startPosition } : {}) });
             const source = track?.info?.sourceName || 'unknown';
             musicTracksPlayedTotal.inc({ source });
             this.updateMetrics();
@@ -173,7 +306,7 @@ export class MusicFacade {
         const loopMode = queueService.getLoopMode(guildId);
         const currentTrack = queueService.getCurrentTrack(guildId) as Track | null;
 
-        if (loopMode === 'track' && currentTrack) {
+        if (loopMode === 'track' && currentTrack && !currentTrack.isStream) {
             await this.playTrack(guildId, currentTrack);
             return { track: currentTrack, isLooped: true };
         }
@@ -209,7 +342,7 @@ export class MusicFacade {
         }
 
         const loopMode = queueService.getLoopMode(guildId);
-        const willLoop = loopMode === 'track' && !!currentTrack;
+        const willLoop = loopMode === 'track' && !!currentTrack && !currentTrack.isStream;
         const queueHasTracks = (musicCache.getQueue(guildId)?.tracks?.length ?? 0) > 0;
 
         let autoplayTriggered = false;
@@ -259,9 +392,123 @@ export class MusicFacade {
         queueService.endSkipVote(guildId);
         musicEventBus.emitEvent(MusicEvents.PLAYBACK_STOP, { guildId });
     }
+    // SEEK OPERATIONS
+    /**
+     * Seek to an absolute position (ms) in the current track
+     * @returns The position actually seeked to, after clamping to the track length
+     */
+    async seek(guildId: string, position: number): Promise<number> {
+        const result = await playbackService.seek(guildId, position);
+        if (!result.isOk()) throw new Error(result.code || 'SEEK_FAILED');
+
+        musicEventBus.emitEvent(MusicEvents.PLAYBACK_SEEK, { guildId, position: result.data.position });
+        return result.data.position;
+    }
+
+    /**
+     * Seek relative to the current position (ms, negative to rewind)
+     */
+    async seekBy(guildId: string, delta: number): Promise<number> {
+        return this.seek(guildId, this.getPosition(guildId) + delta);
+    }
+
+    getPosition(guildId: string): number {
+        return playbackService.getPosition(guildId);
+    }
+    // PREVIOUS & REPLAY
+    /**
+     * Go back to the last track in the guild's recent history. The current track goes back
+     * to the front of the queue, so skipping returns to it.
+     */
+    async playPrevious(guildId: string, requester: Track['requestedBy']): Promise<Result<Track>> {
+        const currentTrack = queueService.getCurrentTrack(guildId) as Track | null;
+        const previous = musicCache.getRecentlyPlayed(guildId)
+            .find(entry => entry.url && entry.url !== currentTrack?.url);
+        if (!previous) {
+            return Result.err(ErrorCodes.TRACK_NOT_FOUND, 'There is no previous track to go back to.');
+        }
+
+        // History only keeps the URL, so the track is resolved again
+        const searchResult = await this.search(previous.url, requester);
+        const track: Track | null = searchResult?.isOk?.() ? searchResult.data?.tracks?.[0] ?? null : null;
+        if (!track) {
+            musicCache.removeFromRecentlyPlayed(guildId, previous.url);
+            return Result.err(ErrorCodes.TRACK_NOT_FOUND, `**${previous.title}** is no longer available.`);
+        }
+
+        queueService.endSkipVote(guildId);
+        if (currentTrack) {
+            musicCache.removeFromRecentlyPlayed(guildId, currentTrack.url);
+            this.addTrackToFront(guildId, currentTrack);
+        }
+
+        await this.playTrack(guildId, track);
+        return Result.ok(track);
+    }
+
+    /**
+     * Restart the current track from the beginning
+     */
+    async replay(guildId: string): Promise<number> {
+        return this.seek(guildId, 0);
+    }
+    // SLEEP TIMER
+    /**
+     * Stop playback after a number of finished tracks and/or once a time is up, whichever
+     * comes first. PlaybackEventHandler counts tracks as they end; the clock runs on a timeout.
+     * @param tracks - Tracks to finish before stopping (1 = stop after the current track)
+     * @param minutes - Minutes from now after which playback stops
+     */
+    setSleepTimer(guildId: string, userId: string, tracks: number | null, minutes: number | null): Result<SleepTimer> {
+        const queue = musicCache.getQueue(guildId);
+        if (!queue?.currentTrack) return Result.err(ErrorCodes.NO_TRACK, 'Nothing is playing.');
+
+        if (tracks !== null && (!Number.isInteger(tracks) || tracks < 1 || tracks > sleepTimerConfig.maxTracks)) {
+            return Result.err(ErrorCodes.INVALID_INPUT, `Tracks must be between 1 and ${sleepTimerConfig.maxTracks}.`);
+        }
+        if (minutes !== null && (!Number.isFinite(minutes) || minutes < 1 || minutes > sleepTimerConfig.maxMinutes)) {
+            return Result.err(ErrorCodes.INVALID_INPUT, `Minutes must be between 1 and ${sleepTimerConfig.maxMinutes}.`);
+        }
+
+        const timer: SleepTimer = {
+            tracksLeft: tracks ?? (minutes === null ? 1 : null),
+            endsAt: minutes !== null ? Date.now() + minutes * 60 * 1000 : null,
+            setBy: userId
+        };
+        queue.sleepTimer = timer;
+
+        if (queue.sleepTimerTimeout) clearTimeout(queue.sleepTimerTimeout);
+        queue.sleepTimerTimeout = timer.endsAt !== null
+            ? setTimeout(() => {
+                playbackEventHandler.expireSleepTimer(guildId)
+                    .catch((error: Error) => logger.error('MusicFacade', `Sleep timer expiry failed: ${error.message}`));
+            }, timer.endsAt - Date.now())
+            : null;
+        return Result.ok(timer);
+    }
+
+    getSleepTimer(guildId: string): SleepTimer | null {
+        return musicCache.getQueue(guildId)?.sleepTimer ?? null;
+    }
+
+    /**
+     * @returns Whether a timer was running
+     */
+    clearSleepTimer(guildId: string): boolean {
+        const queue = musicCache.getQueue(guildId);
+        if (!queue?.sleepTimer) return false;
+        queue.sleepTimer = null;
+        if (queue.sleepTimerTimeout) clearTimeout(queue.sleepTimerTimeout);
+        queue.sleepTimerTimeout = null;
+        return true;
+    }
     // LOOP/SHUFFLE OPERATIONS
     toggleLoop(guildId: string): LoopMode {
-        const newMode = queueService.cycleLoopMode(guildId) as LoopMode;
+        let newMode = queueService.cycleLoopMode(guildId) as LoopMode;
+        // A live stream never ends on its own, so there is nothing to repeat
+        if (newMode === 'track' && this.getCurrentTrack(guildId)?.isStream) {
+            newMode = queueService.cycleLoopMode(guildId) as LoopMode;
+        }
         musicEventBus.emitEvent(MusicEvents.LOOP_CHANGE, { guildId, loopMode: newMode });
         return newMode;
     }
@@ -277,6 +524,8 @@ export class MusicFacade {
 
     toggleShuffle(guildId: string): boolean {
         const result = queueService.toggleShuffle(guildId);
+        // Shuffling (or restoring the original order) must not undo the round-robin
+        if (this.fairQueueService.isEnabled(guildId)) this._arrangeFairly(guildId);
         musicEventBus.emitEvent(MusicEvents.QUEUE_SHUFFLE, { guildId, isShuffled: result });
         return result;
     }
@@ -303,6 +552,37 @@ export class MusicFacade {
         const current = this.getVolume(guildId);
         return this.setVolume(guildId, current + delta);
     }
+    // FILTER OPERATIONS (delegated to MusicFilterService)
+    getFilters(guildId: string): FilterState {
+        return this.filterService.getFilters(guildId);
+    }
+
+    getFilterSummary(guildId: string): string | null {
+        return describeFilters(musicCache.getFilters(guildId));
+    }
+
+    async applyFilterPreset(guildId: string, preset: FilterPresetName | null): Promise<Result<FilterState>> {
+        return this._emitFilterChange(guildId, await this.filterService.applyPreset(guildId, preset));
+    }
+
+    async setEqualizerBand(guildId: string, band: number, gain: number): Promise<Result<FilterState>> {
+        return this._emitFilterChange(guildId, await this.filterService.setEqualizerBand(guildId, band, gain));
+    }
+
+    async setTimescale(guildId: string, timescale: { speed?: number; pitch?: number }): Promise<Result<FilterState>> {
+        return this._emitFilterChange(guildId, await this.filterService.setTimescale(guildId, timescale));
+    }
+
+    async resetFilters(guildId: string): Promise<Result<FilterState>> {
+        return this._emitFilterChange(guildId, await this.filterService.resetFilters(guildId));
+    }
+
+    private _emitFilterChange(guildId: string, result: Result<FilterState>): Result<FilterState> {
+        if (result.isOk()) {
+            musicEventBus.emitEvent(MusicEvents.FILTER_CHANGE, { guildId, filters: result.data });
+        }
+        return result;
+    }
     // VOICE CONNECTION OPERATIONS
     async connect(interaction: ChatInputCommandInteraction): Promise<any> {
         const guildId = interaction.guild!.id;
@@ -322,7 +602,10 @@ export class MusicFacade {
         this.initializeEventHandler();
 
         // Bind events after connection (now uses event bus internally)
-        this.bindPlayerEvents(guildId, interaction);
+        this.bindPlayerEvents(guildId, interaction.channel);
+
+        // Queue ordering reads the fair queue setting synchronously
+        await this.fairQueueService.getSettings(guildId);
         
         // Update metrics on connect
         this.updateMetrics();
@@ -342,7 +625,7 @@ export class MusicFacade {
         return voiceConnectionService.getVoiceChannelId(guildId);
     }
     // PLAYER EVENTS
-    bindPlayerEvents(guildId: string, interaction: ChatInputCommandInteraction): void {
+    bindPlayerEvents(guildId: string, textChannel: TextBasedChannel | null): void {
         if (voiceConnectionService.areEventsBound(guildId)) return;
 
         const player = playbackService.getPlayer(guildId);
@@ -351,7 +634,7 @@ export class MusicFacade {
         const queue = queueService.get(guildId);
         if (queue) {
             queue.eventsBound = true;
-            queue.textChannel = interaction.channel;
+            if (textChannel) queue.textChannel = textChannel;
         }
 
         // NOTE: onEnd, onException, onStuck are intentionally NOT handled here.
@@ -363,6 +646,11 @@ export class MusicFacade {
                 try {
                     voiceConnectionService.clearInactivityTimer(guildId);
                     this.updateMetrics();
+                    this.snapshotService.save(guildId).catch(() => {});
+
+                    // Plays are recorded when a track actually starts, so stats count plays, not requests
+                    const track = this.getCurrentTrack(guildId);
+                    if (track) this._recordPlay(guildId, track);
                 } catch (error: any) {
                     logger.error('MusicFacade', `Error in start handler: ${error.message}`, error);
                 }
@@ -396,6 +684,24 @@ export class MusicFacade {
         voiceConnectionService.bindPlayerEvents(guildId, handlers);
     }
 
+    /**
+     * Record a started track in the requester's history and the guild's stats.
+     * A track-loop repeat of the same track is not a new play.
+     */
+    private _recordPlay(guildId: string, track: Track): void {
+        const isLoopRepeat = this.lastRecordedTrack.get(guildId) === track && queueService.getLoopMode(guildId) === 'track';
+        if (isLoopRepeat) return;
+        this.lastRecordedTrack.set(guildId, track);
+
+        if (track.requestedBy?.id) {
+            this.addToHistory(track.requestedBy.id, track).catch(() => {});
+        }
+
+        const guild = lavalinkService.getClient()?.guilds.cache.get(guildId);
+        const listenerIds = guild ? voiceConnectionService.getListeners(guildId, guild).map(member => member.id) : [];
+        this.statsService.recordPlay(guildId, track, listenerIds).catch(() => {});
+    }
+
     unbindPlayerEvents(guildId: string): void {
         voiceConnectionService.unbindPlayerEvents(guildId);
     }
@@ -428,8 +734,8 @@ export class MusicFacade {
         const lastTrack = providedLastTrack || this.getCurrentTrack(guildId);
         const queue = musicCache.getQueue(guildId);
 
-        // Check auto-play
-        if (queue?.autoPlay && lastTrack) {
+        // Check auto-play (24/7 mode always keeps the music going)
+        if (queue && (queue.autoPlay || this.isTwentyFourSeven(guildId)) && lastTrack) {
             logger.info('AutoPlay', 'Queue ended, searching for similar tracks...');
 
             // Add the current/skipped track to history BEFORE searching
@@ -508,6 +814,14 @@ export class MusicFacade {
     isAutoPlayEnabled(guildId: string): boolean {
         return queueService.isAutoPlayEnabled(guildId);
     }
+
+    getAutoPlayMode(guildId: string): Promise<AutoPlayMode> {
+        return autoPlayService.getMode(guildId);
+    }
+
+    setAutoPlayMode(guildId: string, mode: AutoPlayMode): Promise<boolean> {
+        return autoPlayService.setMode(guildId, mode);
+    }
     // CLEANUP
     async cleanup(guildId: string): Promise<void> {
         musicEventBus.emitCleanup(guildId, 'manual');
@@ -521,34 +835,73 @@ export class MusicFacade {
             }
         }
         musicCache.clearNowPlayingMessage(guildId);
+        this.importService.cancel(guildId);
+        this.lastRecordedTrack.delete(guildId);
+        this.stopLiveLyrics(guildId);
         this.stopVCMonitor(guildId);
         this.clearInactivityTimer(guildId);
         this.unbindPlayerEvents(guildId);
         musicEventBus.removeGuildListeners(guildId);
         this.disconnect(guildId);
         musicCache.deleteQueue(guildId);
+        await this.snapshotService.clear(guildId);
         
         musicEventBus.emitEvent(MusicEvents.CLEANUP_COMPLETE, { guildId });
     }
-    // SKIP VOTE (delegated to MusicSkipVoteManager)
-    startSkipVote(guildId: string, userId: string, listenerCount: number): VoteSkipResult {
-        return this.skipVoteManager.startSkipVote(guildId, userId, listenerCount);
+    // VOTING (delegated to MusicVoteManager)
+    /**
+     * @param rule - The guild's skip rule; without one the standard share of listeners applies
+     */
+    startSkipVote(guildId: string, userId: string, listenerCount: number, rule?: VoteRule): VoteSkipResult {
+        return this.voteManager.startSkipVote(guildId, userId, listenerCount, rule);
     }
 
     addSkipVote(guildId: string, userId: string): VoteSkipResult | null {
-        return this.skipVoteManager.addSkipVote(guildId, userId);
+        return this.voteManager.addSkipVote(guildId, userId);
     }
 
     endSkipVote(guildId: string): void {
-        this.skipVoteManager.endSkipVote(guildId);
+        this.voteManager.endSkipVote(guildId);
     }
 
     hasEnoughSkipVotes(guildId: string): boolean {
-        return this.skipVoteManager.hasEnoughSkipVotes(guildId);
+        return this.voteManager.hasEnoughSkipVotes(guildId);
     }
 
     isSkipVoteActive(guildId: string): boolean {
-        return this.skipVoteManager.isSkipVoteActive(guildId);
+        return this.voteManager.isSkipVoteActive(guildId);
+    }
+
+    async startActionVote(guildId: string, action: VoteAction, userId: string, listenerCount: number, target: ActionVoteTarget | null = null): Promise<VoteResult> {
+        return this.voteManager.startVote(guildId, action, userId, listenerCount, target);
+    }
+
+    addActionVote(guildId: string, action: VoteAction, userId: string): AddVoteResult | null {
+        return this.voteManager.addVote(guildId, action, userId);
+    }
+
+    endActionVote(guildId: string, action: VoteAction): void {
+        this.voteManager.endVote(guildId, action);
+    }
+
+    getActionVote(guildId: string, action: VoteAction): ActionVoteSession | null {
+        return this.voteManager.getVote(guildId, action);
+    }
+
+    hasEnoughActionVotes(guildId: string, action: VoteAction): boolean {
+        return this.voteManager.hasEnoughVotes(guildId, action);
+    }
+
+    async getVoteRules(guildId: string): Promise<Record<VoteAction, VoteRule>> {
+        return this.voteManager.getRules(guildId);
+    }
+
+    async getVoteRule(guildId: string, action: VoteAction): Promise<VoteRule> {
+        return this.voteManager.getRule(guildId, action);
+    }
+
+    async setVoteRule(guildId: string, action: VoteAction, thresholdPercent: number, timeoutSeconds: number): Promise<Result<VoteRule>> {
+        return this.voteManager.setRule(guildId, action, thresholdPercent, timeoutSeconds);
     }
     // NOW PLAYING MESSAGE (delegated to MusicNowPlayingManager)
 
@@ -579,6 +932,10 @@ export class MusicFacade {
     async updateNowPlayingForLoop(guildId: string, loopCount: number): Promise<void> {
         return this.nowPlayingManager.updateNowPlayingForLoop(guildId, loopCount);
     }
+
+    async updateNowPlayingPosition(guildId: string, position: number): Promise<void> {
+        return this.nowPlayingManager.updateNowPlayingPosition(guildId, position);
+    }
     // USER DATA (delegated to MusicUserDataService)
     async addFavorite(userId: string, track: Track): Promise<any> {
         return this.userDataService.addFavorite(userId, track);
@@ -619,6 +976,651 @@ export class MusicFacade {
     getRecentlyPlayed(guildId: string): any[] {
         return this.userDataService.getRecentlyPlayed(guildId);
     }
+    // SAVED PLAYLISTS (delegated to MusicPlaylistService)
+    async createPlaylist(userId: string, name: string, tracks: Track[] = []): Promise<Result<SavedPlaylist>> {
+        return this.playlistService.createPlaylist(userId, name, tracks);
+    }
+
+    async addToPlaylist(userId: string, name: string, tracks: Track[]): Promise<Result<{ playlist: SavedPlaylist; added: number; skipped: number }>> {
+        return this.playlistService.addTracks(userId, name, tracks);
+    }
+
+    async removeFromPlaylist(userId: string, name: string, position: number): Promise<Result<{ removed: SavedPlaylistTrack }>> {
+        return this.playlistService.removeTrack(userId, name, position);
+    }
+
+    async renamePlaylist(userId: string, name: string, newName: string): Promise<Result<SavedPlaylist>> {
+        return this.playlistService.renamePlaylist(userId, name, newName);
+    }
+
+    async deletePlaylist(userId: string, name: string): Promise<Result<SavedPlaylist>> {
+        return this.playlistService.deletePlaylist(userId, name);
+    }
+
+    async setPlaylistPublic(userId: string, name: string, isPublic: boolean): Promise<Result<SavedPlaylist>> {
+        return this.playlistService.setPublic(userId, name, isPublic);
+    }
+
+    async getUserPlaylists(userId: string, publicOnly: boolean = false): Promise<SavedPlaylist[]> {
+        return this.playlistService.getUserPlaylists(userId, publicOnly);
+    }
+
+    async getPlaylist(ownerId: string, name: string, viewerId: string): Promise<Result<SavedPlaylist>> {
+        return this.playlistService.getPlaylist(ownerId, name, viewerId);
+    }
+
+    /**
+     * Resolve a saved playlist and append its tracks to the guild queue
+     */
+    async loadPlaylist(guildId: string, ownerId: string, name: string, requester: NonNullable<Track['requestedBy']>, shuffle: boolean = false): Promise<Result<PlaylistLoadResult>> {
+        const result = await this.playlistService.resolvePlaylist(ownerId, name, requester.id, requester);
+        if (result.isOk()) {
+            const tracks = result.data.tracks;
+            if (shuffle) {
+                for (let i = tracks.length - 1; i > 0; i--) {
+                    const j = Math.floor(Math.random() * (i + 1));
+                    [tracks[i], tracks[j]] = [tracks[j], tracks[i]];
+                }
+            }
+            const { fits, reason } = await this.checkRequesterLimits(guildId, requester.id!, tracks);
+            if (fits === 0 && tracks.length > 0) {
+                return Result.err(ErrorCodes.QUEUE_FULL, reason || 'You cannot queue any more tracks right now.');
+            }
+            result.data.overLimit = tracks.length - fits;
+            tracks.splice(fits);
+            this.addTracks(guildId, tracks);
+        }
+        return result;
+    }
+    // LYRICS (delegated to MusicLyricsManager)
+    async getCurrentLyrics(guildId: string): Promise<Result<{ track: Track; lyrics: LyricsResult }>> {
+        return this.lyricsManager.getCurrentLyrics(guildId);
+    }
+
+    startLiveLyrics(guildId: string, message: Message, lyrics: LyricsResult): boolean {
+        return this.lyricsManager.startLiveLyrics(guildId, message, lyrics);
+    }
+
+    stopLiveLyrics(guildId: string): void {
+        this.lyricsManager.stopLiveLyrics(guildId);
+    }
+
+    isLiveLyricsActive(guildId: string): boolean {
+        return this.lyricsManager.isLiveLyricsActive(guildId);
+    }
+    // PERMISSIONS (delegated to MusicPermissionService)
+    async getPermissionPolicy(guildId: string): Promise<MusicPermissionPolicy> {
+        return this.permissionService.getPolicy(guildId);
+    }
+
+    async checkPermission(member: GuildMember, action: MusicAction | null, requesterId: string | null = null): Promise<MusicPermissionResult> {
+        return this.permissionService.check(member, action, requesterId);
+    }
+
+    async isDJ(member: GuildMember): Promise<boolean> {
+        return this.permissionService.isDJ(member);
+    }
+
+    async setDJRole(guildId: string, roleId: string | null): Promise<boolean> {
+        return this.permissionService.setDJRole(guildId, roleId);
+    }
+
+    async setDJOnly(guildId: string, enabled: boolean): Promise<boolean> {
+        return this.permissionService.setDJOnly(guildId, enabled);
+    }
+
+    async setActionPermission(guildId: string, action: MusicAction, mode: MusicPermissionMode): Promise<boolean> {
+        return this.permissionService.setActionMode(guildId, action, mode);
+    }
+
+    /**
+     * Back to the default action modes and vote rules
+     */
+    async resetPermissions(guildId: string): Promise<boolean> {
+        const policyReset = await this.permissionService.resetPolicy(guildId);
+        const rulesReset = await this.voteManager.resetRules(guildId);
+        return policyReset && rulesReset;
+    }
+    // 24/7 MODE (delegated to MusicTwentyFourSevenService)
+    isTwentyFourSeven(guildId: string): boolean {
+        return this.twentyFourSevenService.isEnabled(guildId);
+    }
+
+    async getTwentyFourSevenState(guildId: string): Promise<TwentyFourSevenState> {
+        return this.twentyFourSevenService.getState(guildId);
+    }
+
+    /**
+     * Toggle 24/7 mode. Enabling pins the given channels for rejoins and drops any pending
+     * idle/empty timers; disabling puts the normal idle handling back if the bot is connected.
+     */
+    async setTwentyFourSeven(
+        guild: Guild,
+        enabled: boolean,
+        voiceChannelId: string | null = null,
+        textChannelId: string | null = null
+    ): Promise<boolean> {
+        const guildId = guild.id;
+
+        if (enabled) {
+            if (!voiceChannelId) return false;
+            const saved = await this.twentyFourSevenService.enable(guildId, voiceChannelId, textChannelId);
+            if (saved) {
+                this.clearInactivityTimer(guildId);
+                this.stopVCMonitor(guildId);
+            }
+            return saved;
+        }
+
+        const saved = await this.twentyFourSevenService.disable(guildId);
+        if (saved && this.isConnected(guildId)) {
+            this.startVCMonitor(guildId, guild);
+            if (!this.getCurrentTrack(guildId)) {
+                this.setInactivityTimer(guildId, () => this.cleanup(guildId));
+            }
+        }
+        return saved;
+    }
+
+    /**
+     * Rejoin the saved channel of every 24/7 guild that has no player
+     */
+    async restoreTwentyFourSeven(): Promise<void> {
+        const client = lavalinkService.getClient();
+        if (!client || this.restoringTwentyFourSeven) return;
+
+        this.restoringTwentyFourSeven = true;
+        try {
+            const states = await this.twentyFourSevenService.getEnabledGuilds();
+
+            for (const state of states) {
+                const guild = client.guilds.cache.get(state.guildId);
+                if (!guild || !state.voiceChannelId || playbackService.getPlayer(guild.id)) continue;
+
+                const voiceChannel = guild.channels.cache.get(state.voiceChannelId);
+                if (!voiceChannel?.isVoiceBased()) {
+                    logger.warn('MusicFacade', `24/7 channel ${state.voiceChannelId} is gone in guild ${guild.id}`);
+                    continue;
+                }
+
+                const textChannel = state.textChannelId ? guild.channels.cache.get(state.textChannelId) : null;
+                const text = textChannel?.isTextBased() ? textChannel : null;
+
+                const result = await voiceConnectionService.connectToChannel(guild, voiceChannel.id, text);
+                if (result.isErr()) {
+                    logger.warn('MusicFacade', `24/7 rejoin failed in guild ${guild.id}: ${result.error}`);
+                    continue;
+                }
+
+                this.initializeEventHandler();
+                this.bindPlayerEvents(guild.id, text);
+                logger.info('MusicFacade', `24/7 rejoined ${voiceChannel.name} in guild ${guild.id}`);
+            }
+
+            this.updateMetrics();
+        } finally {
+            this.restoringTwentyFourSeven = false;
+        }
+    }
+    // QUEUE SNAPSHOTS (delegated to MusicQueueSnapshotService)
+    async saveQueueSnapshot(guildId: string): Promise<boolean> {
+        return this.snapshotService.save(guildId);
+    }
+
+    async getQueueSnapshot(guildId: string): Promise<QueueSnapshot | null> {
+        return this.snapshotService.get(guildId);
+    }
+
+    async discardQueueSnapshot(guildId: string): Promise<void> {
+        this.pendingResumes.delete(guildId);
+        await this.snapshotService.clear(guildId);
+        await this.importService.cancelInterrupted(guildId);
+    }
+
+    /**
+     * Rebuild a guild's session from its snapshot: rejoin, refill the queue, restore
+     * loop/volume/autoplay/filters and continue the current track where it stopped
+     */
+    async resumeQueueSnapshot(guild: Guild): Promise<Result<{ snapshot: QueueSnapshot; restored: number }>> {
+        const guildId = guild.id;
+        const snapshot = await this.snapshotService.get(guildId);
+        if (!snapshot) {
+            return Result.err(ErrorCodes.NOT_FOUND, 'There is no saved session to resume.');
+        }
+        if (this.getCurrentTrack(guildId)) {
+            return Result.err(ErrorCodes.ALREADY_CONNECTED, 'Music is already playing here.');
+        }
+
+        const voiceChannel = guild.channels.cache.get(snapshot.voiceChannelId);
+        if (!voiceChannel?.isVoiceBased()) {
+            await this.discardQueueSnapshot(guildId);
+            return Result.err(ErrorCodes.CHANNEL_NOT_FOUND, 'The voice channel of the saved session no longer exists.');
+        }
+
+        const textChannel = snapshot.textChannelId ? guild.channels.cache.get(snapshot.textChannelId) : null;
+        const text = textChannel?.isTextBased() ? textChannel : null;
+
+        const connected = await voiceConnectionService.connectToChannel(guild, voiceChannel.id, text);
+        if (connected.isErr()) {
+            return Result.err(connected.code || ErrorCodes.LAVALINK_ERROR, connected.error || 'Could not rejoin the voice channel.');
+        }
+
+        this.initializeEventHandler();
+        this.bindPlayerEvents(guildId, text);
+
+        const tracks = snapshot.tracks.map(t => this.snapshotService.toTrack(t) as Track);
+        if (tracks.length > 0) this.addTracks(guildId, tracks);
+
+        this.setLoopMode(guildId, snapshot.loopMode);
+        const queue = musicCache.getQueue(guildId);
+        if (queue) queue.autoPlay = snapshot.autoPlay;
+        await this.setVolume(guildId, snapshot.volume);
+
+        if (snapshot.filters) {
+            const filters = await this.filterService.restoreFilters(guildId, snapshot.filters);
+            if (filters.isErr()) {
+                logger.warn('MusicFacade', `Could not restore filters in guild ${guildId}: ${filters.error}`);
+            }
+        }
+
+        try {
+            if (snapshot.currentTrack) {
+                await this.playTrack(guildId, this.snapshotService.toTrack(snapshot.currentTrack) as Track, snapshot.positionMs);
+            } else {
+                await this.playNext(guildId);
+            }
+            if (snapshot.paused) await this.setPaused(guildId, true);
+        } catch (error) {
+            logger.error('MusicFacade', `Failed to resume queue in guild ${guildId}: ${(error as Error).message}`);
+            return Result.err(ErrorCodes.LAVALINK_ERROR, 'Could not restart playback.');
+        }
+
+        this.pendingResumes.delete(guildId);
+        if (!this.isTwentyFourSeven(guildId)) this.startVCMonitor(guildId, guild);
+        await this.sendNowPlayingEmbed(guildId);
+        await this._continuePlaylistImports(guild);
+
+        logger.info('MusicFacade', `Resumed queue snapshot in guild ${guildId} (${tracks.length} queued)`);
+        return Result.ok({ snapshot, restored: tracks.length + (snapshot.currentTrack ? 1 : 0) });
+    }
+
+    /**
+     * Ask the last requester of every recent snapshot whether to pick up where the session
+     * stopped. Guilds that are already playing again are skipped; each guild is asked once.
+     */
+    async offerQueueResumes(): Promise<void> {
+        const client = lavalinkService.getClient();
+        if (!client) return;
+
+        const snapshots = await this.snapshotService.getPending();
+        await this.importService.prune();
+
+        for (const snapshot of snapshots) {
+            const guildId = snapshot.guildId;
+            if (this.offeredResumes.has(guildId) || this.getCurrentTrack(guildId)) continue;
+
+            const guild = client.guilds.cache.get(guildId);
+            const channel = snapshot.textChannelId ? guild?.channels.cache.get(snapshot.textChannelId) : null;
+            if (!guild || !channel?.isTextBased() || !('send' in channel)) continue;
+
+            this.offeredResumes.add(guildId);
+            this.pendingResumes.add(guildId);
+
+            const message = await channel.send({
+                content: snapshot.requesterId ? `<@${snapshot.requesterId}>` : undefined,
+                embeds: [createResumePromptEmbed(snapshot, Math.round(snapshotConfig.promptTimeout / 60_000))],
+                components: [createResumeButtons(guildId)]
+            }).catch((error: Error) => {
+                logger.warn('MusicFacade', `Could not send resume prompt in guild ${guildId}: ${error.message}`);
+                return null;
+            });
+
+            if (!message) {
+                this.pendingResumes.delete(guildId);
+                continue;
+            }
+
+            setTimeout(() => {
+                if (!this.pendingResumes.delete(guildId)) return;
+                message.edit({ components: [] }).catch(() => {});
+            }, snapshotConfig.promptTimeout).unref?.();
+        }
+
+        if (snapshots.length > 0) {
+            logger.info('MusicFacade', `Offered to resume ${this.pendingResumes.size} saved queue(s)`);
+        }
+    }
+
+    /**
+     * Whether the guild has a resume prompt waiting for an answer
+     */
+    hasPendingResume(guildId: string): boolean {
+        return this.pendingResumes.has(guildId);
+    }
+    // PLAYLIST IMPORT (delegated to MusicPlaylistImportService)
+    /**
+     * Read a playlist link and import it into the queue in the background.
+     * Resolves once the job exists; tracks are queued batch by batch and the
+     * progress message (if given) is edited as the import goes.
+     */
+    async importPlaylist(guild: Guild, options: PlaylistImportOptions, progressMessage: Message | null = null): Promise<Result<PlaylistImportJob>> {
+        const created = await this.importService.create(options);
+        if (created.isErr()) return created;
+
+        const job = created.data!;
+        job.messageId = progressMessage?.id || null;
+        this._runPlaylistImport(guild, job, progressMessage);
+        return Result.ok(job);
+    }
+
+    /**
+     * Stop the guild's running import after its current batch
+     * @param jobId - Only cancel if this job is still the one running
+     */
+    cancelPlaylistImport(guildId: string, jobId?: string): PlaylistImportJob | null {
+        return this.importService.cancel(guildId, jobId);
+    }
+
+    getActivePlaylistImport(guildId: string): PlaylistImportJob | null {
+        return this.importService.getActive(guildId);
+    }
+
+    async getImportLimit(guildId: string): Promise<number> {
+        return this.importService.getLimit(guildId);
+    }
+
+    async setImportLimit(guildId: string, limit: number): Promise<Result<number>> {
+        return this.importService.setLimit(guildId, limit);
+    }
+
+    /**
+     * Pick up the import that was still running when the bot went down
+     */
+    private async _continuePlaylistImports(guild: Guild): Promise<void> {
+        const [job] = (await this.importService.getInterrupted(guild.id)).slice(-1);
+        if (!job) return;
+
+        logger.info('MusicFacade', `Continuing playlist import ${job.id} in guild ${guild.id} at ${job.cursor}/${job.entries.length}`);
+        this._runPlaylistImport(guild, job, null);
+    }
+
+    private _runPlaylistImport(guild: Guild, job: PlaylistImportJob, progressMessage: Message | null): void {
+        const guildId = guild.id;
+        let message = progressMessage;
+
+        const getMessage = async (): Promise<Message | null> => {
+            if (message || !job.messageId || !job.textChannelId) return message;
+            const channel = guild.channels.cache.get(job.textChannelId);
+            if (!channel?.isTextBased()) return null;
+            message = await channel.messages.fetch(job.messageId).catch(() => null);
+            return message;
+        };
+
+        const hooks: PlaylistImportHooks = {
+            onTracks: async (current, tracks) => {
+                // Whatever is over the importer's per-member cap is reported like a full queue
+                const { fits } = await this.checkRequesterLimits(guildId, current.userId, tracks);
+                if (fits === 0) return 0;
+
+                const before = this.getQueueLength(guildId);
+                const fitted = Math.max(0, this.addTracks(guildId, tracks.slice(0, fits)) - before);
+
+                if (fitted > 0 && !this.getCurrentTrack(guildId)) {
+                    await this.playNext(guildId);
+                    await this.sendNowPlayingEmbed(guildId);
+                    if (!this.isTwentyFourSeven(guildId)) this.startVCMonitor(guildId, guild);
+                }
+                return fitted;
+            },
+            onProgress: async (current) => {
+                const target = await getMessage();
+                await target?.edit({
+                    embeds: [createPlaylistImportEmbed(current)],
+                    components: [createImportCancelButton(guildId, current.id)]
+                });
+            },
+            onFinish: async (current) => {
+                const files = current.failures.length > importConfig.failuresShown
+                    ? [new AttachmentBuilder(Buffer.from(createImportFailureReport(current)), { name: 'import-report.txt' })]
+                    : [];
+                const payload = { embeds: [createPlaylistImportEmbed(current)], components: [], files };
+
+                const target = await getMessage();
+                if (target) {
+                    await target.edit(payload);
+                    return;
+                }
+
+                // The progress message is gone (or this import was resumed without one)
+                const channel = current.textChannelId ? guild.channels.cache.get(current.textChannelId) : null;
+                if (channel?.isTextBased() && 'send' in channel) {
+                    await channel.send(payload);
+                }
+            }
+        };
+
+        this.importService.run(job, hooks).catch((error: Error) => {
+            logger.error('MusicFacade', `Playlist import ${job.id} crashed: ${error.message}`);
+        });
+    }
+    // MUSIC STATS (delegated to MusicStatsService)
+    async getMusicStats(guildId: string, period: MusicStatsPeriod, userId: string | null = null): Promise<Result<MusicStatsReport>> {
+        return this.statsService.getReport(guildId, period, userId);
+    }
+
+    async getStatsReportChannel(guildId: string): Promise<string | null> {
+        const settings = await this.statsService.getReportSettings(guildId);
+        return settings.channelId;
+    }
+
+    async setStatsReportChannel(guildId: string, channelId: string | null): Promise<boolean> {
+        return this.statsService.setReportChannel(guildId, channelId);
+    }
+
+    private async _postMonthlyReport(guildId: string, channelId: string, report: MusicStatsReport): Promise<boolean> {
+        const client = lavalinkService.getClient();
+        const guild = client?.guilds.cache.get(guildId);
+        if (!guild) return false;
+
+        const channel = guild.channels.cache.get(channelId);
+        if (!channel?.isTextBased()) {
+            logger.warn('MusicFacade', `Stats report channel ${channelId} is gone in guild ${guildId}`);
+            return false;
+        }
+
+        await channel.send({ embeds: [createMonthlyStatsEmbed(report, guild.name)] });
+        return true;
+    }
+    // SONG REQUEST CHANNEL (delegated to MusicRequestChannelService)
+    async getRequestChannel(guildId: string): Promise<RequestChannelState | null> {
+        return this.requestChannelService.getChannel(guildId);
+    }
+
+    /**
+     * Set or clear the song request channel and post its panel
+     */
+    async setRequestChannel(guild: Guild, channelId: string | null): Promise<boolean> {
+        const saved = await this.requestChannelService.setChannel(guild, channelId);
+        if (saved && channelId) {
+            await this.requestChannelService.renderPanel(guild).catch((error: Error) => {
+                logger.warn('MusicFacade', `Could not post the request panel in guild ${guild.id}: ${error.message}`);
+            });
+        }
+        return saved;
+    }
+
+    refreshRequestPanel(guildId: string): void {
+        const guild = lavalinkService.getClient()?.guilds.cache.get(guildId);
+        if (guild) this.requestChannelService.scheduleUpdate(guild);
+    }
+
+    /**
+     * Re-render every request panel, re-sending the ones deleted while the bot was offline
+     */
+    async restoreRequestPanels(): Promise<void> {
+        const client = lavalinkService.getClient();
+        if (!client) return;
+
+        for (const state of await this.requestChannelService.loadAll()) {
+            const guild = client.guilds.cache.get(state.guildId);
+            if (!guild) continue;
+            await this.requestChannelService.renderPanel(guild).catch((error: Error) => {
+                logger.warn('MusicFacade', `Request panel restore failed in guild ${state.guildId}: ${error.message}`);
+            });
+        }
+    }
+
+    /**
+     * Join a voice channel for a request that didn't come from an interaction.
+     * Without a text channel the session posts no now-playing messages of its own.
+     */
+    async connectToChannel(guild: Guild, voiceChannelId: string, textChannel: TextBasedChannel | null): Promise<Result<{ voiceChannelId: string }>> {
+        const connected = await voiceConnectionService.connectToChannel(guild, voiceChannelId, textChannel);
+        if (connected.isErr()) {
+            return Result.err(connected.code || ErrorCodes.LAVALINK_ERROR, connected.error || 'Could not join the voice channel.');
+        }
+
+        this.initializeEventHandler();
+        this.bindPlayerEvents(guild.id, textChannel);
+        await this.fairQueueService.getSettings(guild.id);
+        this.updateMetrics();
+        return Result.ok({ voiceChannelId });
+    }
+    // QUEUE FILES (delegated to MusicQueueFileService)
+    /**
+     * The playing track followed by the queue, as a file attachment
+     */
+    exportQueue(guildId: string, format: QueueFileFormat): Result<{ file: AttachmentBuilder; count: number }> {
+        const currentTrack = this.getCurrentTrack(guildId) as Track | null;
+        const tracks = [...(currentTrack ? [currentTrack] : []), ...(this.getQueueList(guildId) as Track[])];
+        if (tracks.length === 0) {
+            return Result.err(ErrorCodes.NO_QUEUE, 'There is nothing to export. Play something first.');
+        }
+
+        const content = this.queueFileService.serialize(tracks, format);
+        const name = `queue-${new Date().toISOString().slice(0, 10)}.${format}`;
+        return Result.ok({ file: new AttachmentBuilder(Buffer.from(content), { name }), count: tracks.length });
+    }
+
+    /**
+     * Queue the entries of an uploaded queue file for `requester` and start playing if idle.
+     * The voice connection must already be up. Entries that can't be found, or that go over
+     * the queue size or the requester's limits, come back as failures.
+     */
+    async importQueueFile(
+        guild: Guild,
+        file: { url: string; name: string; size: number },
+        requester: NonNullable<Track['requestedBy']>
+    ): Promise<Result<QueueFileImportResult>> {
+        const guildId = guild.id;
+        const format = this.queueFileService.detectFormat(file.name);
+        if (!format) {
+            return Result.err(ErrorCodes.INVALID_INPUT, 'Upload a `.json` queue export or an `.m3u` playlist.');
+        }
+
+        const content = await this.queueFileService.download(file.url, file.size);
+        if (content.isErr()) return Result.err(content.code || ErrorCodes.API_ERROR, content.error || 'Could not download the file.');
+
+        const parsed = this.queueFileService.parse(content.data!, format);
+        if (parsed.isErr()) return Result.err(parsed.code || ErrorCodes.INVALID_INPUT, parsed.error || 'Could not read the file.');
+
+        const entries = parsed.data!.slice(0, queueFileConfig.maxEntries);
+        const { tracks, failures } = await this.queueFileService.resolve(entries, requester);
+
+        // Whatever is over the requester's cap or the queue size is reported like a full queue
+        const { fits } = await this.checkRequesterLimits(guildId, requester.id, tracks.map(t => t.track));
+        const before = this.getQueueLength(guildId);
+        const added = fits > 0
+            ? Math.max(0, this.addTracks(guildId, tracks.slice(0, fits).map(t => t.track)) - before)
+            : 0;
+        for (const { index, track } of tracks.slice(added)) {
+            failures.push({ index: index + 1, title: track.title, author: track.author || null, reason: 'queue_full' });
+        }
+        failures.sort((a, b) => a.index - b.index);
+
+        if (added > 0 && !this.getCurrentTrack(guildId)) {
+            await this.playNext(guildId);
+            await this.sendNowPlayingEmbed(guildId);
+            if (!this.isTwentyFourSeven(guildId)) this.startVCMonitor(guildId, guild);
+        }
+
+        logger.info('MusicFacade', `Queue file import in guild ${guildId}: ${added}/${entries.length} added, ${failures.length} failed`);
+        return Result.ok({ total: entries.length, truncated: parsed.data!.length - entries.length, added, failures });
+    }
+    // RADIO (delegated to MusicRadioService)
+    async getRadioStations(guildId: string): Promise<RadioStation[]> {
+        return this.radioService.getStations(guildId);
+    }
+
+    async findRadioStation(guildId: string, name: string): Promise<RadioStation | null> {
+        return this.radioService.findStation(guildId, name);
+    }
+
+    async resolveRadioStation(station: RadioStation, requester: Track['requestedBy']): Promise<Result<Track>> {
+        return this.radioService.resolve(station, requester);
+    }
+
+    async addRadioStation(guildId: string, name: string, url: string, genre: string | null = null): Promise<Result<RadioStation>> {
+        return this.radioService.addStation(guildId, name, url, genre);
+    }
+
+    async removeRadioStation(guildId: string, name: string): Promise<Result<RadioStation>> {
+        return this.radioService.removeStation(guildId, name);
+    }
+
+    async resetRadioStations(guildId: string): Promise<boolean> {
+        return this.radioService.resetStations(guildId);
+    }
+    // FAIR QUEUE (delegated to MusicFairQueueService)
+    async getFairQueueSettings(guildId: string): Promise<FairQueueSettings> {
+        return this.fairQueueService.getSettings(guildId);
+    }
+
+    /**
+     * Turn fair ordering on or off; turning it on rearranges what is already queued
+     */
+    async setFairQueue(guildId: string, enabled: boolean): Promise<boolean> {
+        const saved = await this.fairQueueService.setEnabled(guildId, enabled);
+        if (saved && enabled) this._arrangeFairly(guildId);
+        return saved;
+    }
+
+    async setQueueLimits(guildId: string, maxTracksPerUser: number | null, maxDurationPerUser: number | null): Promise<Result<FairQueueSettings>> {
+        return this.fairQueueService.setLimits(guildId, maxTracksPerUser, maxDurationPerUser);
+    }
+
+    /**
+     * How many of the tracks a member may still add under the guild's per-member caps
+     */
+    async checkRequesterLimits(guildId: string, userId: string, tracks: Track[]): Promise<RequesterLimitResult> {
+        return this.fairQueueService.checkLimits(guildId, userId, queueService.getTracks(guildId), tracks);
+    }
+
+    /**
+     * Requesters in the order their turns come up, or null when the guild queue is first-come, first-served
+     */
+    getTurnOrder(guildId: string): string[] | null {
+        if (!this.fairQueueService.isEnabled(guildId)) return null;
+        return this.fairQueueService.getTurnOrder(queueService.getTracks(guildId));
+    }
+
+    /**
+     * @returns Queue index of each newly appended track after placing it
+     */
+    private _placeFairly(guildId: string, added: number): number[] {
+        const queue = musicCache.getQueue(guildId);
+        if (!queue || added <= 0) return [];
+        const current = this.getCurrentTrack(guildId);
+        return this.fairQueueService.place(queue.tracks, added, current?.requestedBy?.id ?? null);
+    }
+
+    private _arrangeFairly(guildId: string): void {
+        const queue = musicCache.getQueue(guildId);
+        if (!queue || queue.tracks.length < 2) return;
+        const current = this.getCurrentTrack(guildId);
+        const arranged = this.fairQueueService.arrange(queue.tracks, current?.requestedBy?.id ?? null);
+        queue.tracks.splice(0, queue.tracks.length, ...arranged);
+    }
     // LOOP COUNT
     getLoopCount(guildId: string): number {
         return musicCache.getLoopCount(guildId) || 0;
@@ -632,8 +1634,33 @@ export class MusicFacade {
         musicCache.resetLoopCount(guildId);
     }
     // SEARCH
-    search(query: string): Promise<any> {
-        return playbackService.search(query);
+    search(query: string, requester?: Track['requestedBy']): Promise<any> {
+        return playbackService.search(query, requester);
+    }
+
+    /**
+     * Top results for a query, tagged with the requester, for autocomplete and the result picker
+     */
+    async searchMultiple(query: string, limit: number, requester?: Track['requestedBy']): Promise<Track[]> {
+        const results = await lavalinkService.searchMultiple(query, limit);
+        const tracks: Track[] = [];
+        for (const result of results) {
+            const encoded = result.encoded || result.track?.encoded;
+            if (!encoded || !result.url) continue;
+            tracks.push({
+                track: { encoded },
+                title: result.title || 'Unknown',
+                url: result.url,
+                lengthSeconds: result.lengthSeconds || 0,
+                author: result.author,
+                thumbnail: result.thumbnail || undefined,
+                source: result.source,
+                isStream: result.isStream,
+                info: result.info,
+                requestedBy: requester
+            });
+        }
+        return tracks;
     }
 
     async searchPlaylist(url: string): Promise<{ playlistName: string; tracks: any[] } | null> {
@@ -695,6 +1722,10 @@ export class MusicFacade {
     }
 
     shutdownAll(): void {
+        // Keep the snapshots: tearing the players down below must not delete them
+        this.snapshotService.freeze();
+        this.statsService.stopMonthlyReports();
+        this.requestChannelService.stopAll();
         playbackEventHandler.shutdown();
         musicEventBus.shutdown();
         voiceConnectionService.shutdownAll();
@@ -0,0 +1,184 @@
+/**
+ * Music Facade — Fair Queue Service
+ * Per-guild "fair queue" mode that interleaves the queue round-robin by requester, so one
+ * member's playlist can't hold everyone else back, plus per-member caps on waiting tracks
+ * and waiting time. Settings live in guild_settings.settings.music_fair_queue.
+ * @module services/music/musicFairQueueService
+ */
+
+import GuildSettingsService from '../../guild/guildSettingsService.js';
+import { Result } from '../../../core/errors/Result.js';
+import { ErrorCodes } from '../../../core/errors/ErrorCodes.js';
+import { limits, fairQueue as fairQueueConfig } from '../../../config/features/music.js';
+import type { FairQueueSettings, RequesterLimitResult } from '../../../types/music/fair-queue.js';
+import type { MusicTrack } from '../../../types/music/events.js';
+
+const SETTINGS_KEY = 'music_fair_queue';
+
+const DEFAULTS: FairQueueSettings = {
+    enabled: false,
+    maxTracksPerUser: limits.maxTracksPerUser || null,
+    maxDurationPerUser: limits.maxDurationPerUser || null
+};
+
+function requesterOf(track: MusicTrack): string {
+    return track.requestedBy?.id || '';
+}
+
+function formatMinutes(seconds: number): string {
+    const minutes = Math.round(seconds / 60);
+    return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes} min`;
+}
+
+export class MusicFairQueueService {
+    /** Loaded settings, kept so tracks can be placed synchronously as they are queued */
+    private readonly settings = new Map<string, FairQueueSettings>();
+
+    async getSettings(guildId: string): Promise<FairQueueSettings> {
+        const cached = this.settings.get(guildId);
+        if (cached) return cached;
+
+        const stored = await GuildSettingsService.getSetting<Partial<FairQueueSettings>>(guildId, SETTINGS_KEY, {});
+        const settings = { ...DEFAULTS, ...stored };
+        this.settings.set(guildId, settings);
+        return settings;
+    }
+
+    /**
+     * Whether fair ordering is on; guilds whose settings haven't been loaded yet count as off
+     */
+    isEnabled(guildId: string): boolean {
+        return this.settings.get(guildId)?.enabled ?? false;
+    }
+
+    async setEnabled(guildId: string, enabled: boolean): Promise<boolean> {
+        const settings = await this.getSettings(guildId);
+        return this._save(guildId, { ...settings, enabled });
+    }
+
+    /**
+     * Set the per-member caps; null removes a cap
+     * @param maxDurationPerUser - In seconds
+     */
+    async setLimits(guildId: string, maxTracksPerUser: number | null, maxDurationPerUser: number | null): Promise<Result<FairQueueSettings>> {
+        const { maxTracksPerUser: trackRange, maxMinutesPerUser: minuteRange } = fairQueueConfig;
+
+        if (maxTracksPerUser !== null && (!Number.isInteger(maxTracksPerUser) || maxTracksPerUser < trackRange.min || maxTracksPerUser > trackRange.max)) {
+            return Result.err(ErrorCodes.INVALID_INPUT, `Tracks per member must be between ${trackRange.min} and ${trackRange.max}.`);
+        }
+        if (maxDurationPerUser !== null && (!Number.isFinite(maxDurationPerUser) || maxDurationPerUser < minuteRange.min * 60 || maxDurationPerUser > minuteRange.max * 60)) {
+            return Result.err(ErrorCodes.INVALID_INPUT, `Queued time per member must be between ${minuteRange.min} and ${minuteRange.max} minutes.`);
+        }
+
+        const settings = { ...await this.getSettings(guildId), maxTracksPerUser, maxDurationPerUser };
+        if (!await this._save(guildId, settings)) {
+            return Result.err(ErrorCodes.DB_ERROR, 'Could not save the queue limits.');
+        }
+        return Result.ok(settings);
+    }
+
+    /**
+     * How many of `tracks` (in order) the member can still queue under the guild's caps
+     * @param queued - Tracks currently waiting in the queue
+     */
+    async checkLimits(guildId: string, userId: string, queued: MusicTrack[], tracks: MusicTrack[]): Promise<RequesterLimitResult> {
+        const { maxTracksPerUser, maxDurationPerUser } = await this.getSettings(guildId);
+        if (!maxTracksPerUser && !maxDurationPerUser) return { fits: tracks.length, reason: null };
+
+        const mine = queued.filter(track => requesterOf(track) === userId);
+        let count = mine.length;
+        let duration = mine.reduce((sum, track) => sum + (track.lengthSeconds || 0), 0);
+
+        for (let fits = 0; fits < tracks.length; fits++) {
+            const length = tracks[fits]!.lengthSeconds || 0;
+            if (maxTracksPerUser && count + 1 > maxTracksPerUser) {
+                return { fits, reason: `You can have at most ${maxTracksPerUser} tracks waiting in the queue.` };
+            }
+            if (maxDurationPerUser && duration + length > maxDurationPerUser) {
+                return { fits, reason: `You can have at most ${formatMinutes(maxDurationPerUser)} of music waiting in the queue.` };
+            }
+            count++;
+            duration += length;
+        }
+        return { fits: tracks.length, reason: null };
+    }
+
+    // --- Ordering ---
+
+    /**
+     * Move the last `added` tracks of the queue to their fair positions (in place)
+     * @param currentRequesterId - Requester of the playing track, whose turn has just been used
+     * @returns Index each moved track ended up at, in the order they were added
+     */
+    place(tracks: MusicTrack[], added: number, currentRequesterId: string | null): number[] {
+        const newcomers = tracks.splice(tracks.length - added, added);
+        const positions: number[] = [];
+
+        for (const track of newcomers) {
+            const index = this.insertIndex(tracks, requesterOf(track), currentRequesterId);
+            tracks.splice(index, 0, track);
+            for (let i = 0; i < positions.length; i++) {
+                if (positions[i]! >= index) positions[i]!++;
+            }
+            positions.push(index);
+        }
+        return positions;
+    }
+
+    /**
+     * Where a new track of `requesterId` goes: after every track of its round or an earlier one.
+     * A track's round is how many tracks of the same requester are ahead of it.
+     */
+    insertIndex(tracks: MusicTrack[], requesterId: string, currentRequesterId: string | null): number {
+        const rounds = this._rounds(tracks, currentRequesterId);
+        const round = tracks.filter(track => requesterOf(track) === requesterId).length
+            + (requesterId && requesterId === currentRequesterId ? 1 : 0);
+
+        let index = 0;
+        rounds.forEach((r, i) => {
+            if (r <= round) index = i + 1;
+        });
+        return index;
+    }
+
+    /**
+     * Reorder a whole queue round-robin, keeping each requester's own order
+     */
+    arrange(tracks: MusicTrack[], currentRequesterId: string | null): MusicTrack[] {
+        const rounds = this._rounds(tracks, currentRequesterId);
+        return tracks
+            .map((track, index) => ({ track, index, round: rounds[index]! }))
+            .sort((a, b) => a.round - b.round || a.index - b.index)
+            .map(entry => entry.track);
+    }
+
+    /**
+     * Requesters in the order their next track comes up
+     */
+    getTurnOrder(tracks: MusicTrack[]): string[] {
+        const order: string[] = [];
+        for (const track of tracks) {
+            const requester = requesterOf(track);
+            if (requester && !order.includes(requester)) order.push(requester);
+        }
+        return order;
+    }
+
+    private _rounds(tracks: MusicTrack[], currentRequesterId: string | null): number[] {
+        const seen = new Map<string, number>();
+        if (currentRequesterId) seen.set(currentRequesterId, 1);
+
+        return tracks.map(track => {
+            const requester = requesterOf(track);
+            const round = seen.get(requester) || 0;
+            seen.set(requester, round + 1);
+            return round;
+        });
+    }
+
+    private async _save(guildId: string, settings: FairQueueSettings): Promise<boolean> {
+        const saved = await GuildSettingsService.updateSetting(guildId, SETTINGS_KEY, settings);
+        if (saved) this.settings.set(guildId, settings);
+        return saved;
+    }
+}
@@ -0,0 +1,97 @@
+/**
+ * Music Facade — Filter Service
+ * Audio filters (presets, 15-band equalizer, timescale) applied through Lavalink.
+ * Active filters are kept in GuildMusicCache so they survive player rebuilds.
+ * @module services/music/musicFilterService
+ */
+
+import lavalinkService from './lavalinkService.js';
+import musicCache from '../../../cache/music/MusicCacheFacade.js';
+import { Result } from '../../../core/errors/Result.js';
+import { ErrorCodes } from '../../../core/errors/ErrorCodes.js';
+import { filters as filterConfig } from '../../../config/features/music.js';
+import { buildLavalinkFilters, createFilterState, isFilterActive } from '../../../utils/music/index.js';
+import logger from '../../../core/observability/Logger.js';
+import type { FilterPresetName, FilterState } from '../../../types/music/filters.js';
+
+export class MusicFilterService {
+    getFilters(guildId: string): FilterState {
+        return musicCache.getFilters(guildId) || createFilterState();
+    }
+
+    async applyPreset(guildId: string, preset: FilterPresetName | null): Promise<Result<FilterState>> {
+        if (preset && !filterConfig.presets[preset]) {
+            return Result.err(ErrorCodes.INVALID_INPUT, `Unknown filter preset: ${preset}`);
+        }
+        return this._apply(guildId, createFilterState(preset));
+    }
+
+    /**
+     * Set a single equalizer band
+     * @param band - Band index (0-14)
+     * @param gain - Gain (-0.25 to 1.0, 0 = flat)
+     */
+    async setEqualizerBand(guildId: string, band: number, gain: number): Promise<Result<FilterState>> {
+        if (!Number.isInteger(band) || band < 0 || band >= filterConfig.bands) {
+            return Result.err(ErrorCodes.INVALID_INPUT, `Band must be between 1 and ${filterConfig.bands}.`);
+        }
+        if (gain < filterConfig.gain.min || gain > filterConfig.gain.max) {
+            return Result.err(ErrorCodes.INVALID_INPUT, `Gain must be between ${filterConfig.gain.min} and ${filterConfig.gain.max}.`);
+        }
+
+        const current = this.getFilters(guildId);
+        const equalizer = [...current.equalizer];
+        equalizer[band] = gain;
+        return this._apply(guildId, { ...current, equalizer, updatedAt: Date.now() });
+    }
+
+    async setTimescale(guildId: string, timescale: { speed?: number; pitch?: number }): Promise<Result<FilterState>> {
+        const { min, max } = filterConfig.timescale;
+        const outOfRange = (value?: number) => value !== undefined && (value < min || value > max);
+        if (outOfRange(timescale.speed) || outOfRange(timescale.pitch)) {
+            return Result.err(ErrorCodes.INVALID_INPUT, `Speed and pitch must be between ${min}x and ${max}x.`);
+        }
+
+        const current = this.getFilters(guildId);
+        return this._apply(guildId, {
+            ...current,
+            timescale: {
+                speed: timescale.speed ?? current.timescale.speed,
+                pitch: timescale.pitch ?? current.timescale.pitch
+            },
+            updatedAt: Date.now()
+        });
+    }
+
+    async resetFilters(guildId: string): Promise<Result<FilterState>> {
+        return this._apply(guildId, createFilterState());
+    }
+
+    /**
+     * Re-apply a saved filter state, e.g. when resuming a queue snapshot
+     */
+    async restoreFilters(guildId: string, state: FilterState): Promise<Result<FilterState>> {
+        return this._apply(guildId, { ...createFilterState(), ...state });
+    }
+
+    private async _apply(guildId: string, state: FilterState): Promise<Result<FilterState>> {
+        const player = lavalinkService.getPlayer(guildId);
+        if (!player) {
+            return Result.err(ErrorCodes.NO_PLAYER, 'No player available.');
+        }
+
+        try {
+            await player.setFilters(buildLavalinkFilters(state));
+        } catch (error) {
+            logger.error('MusicFilterService', `Failed to apply filters: ${(error as Error).message}`);
+            return Result.fromError(error as Error);
+        }
+
+        if (isFilterActive(state)) {
+            musicCache.setFilters(guildId, state);
+        } else {
+            musicCache.clearFilters(guildId);
+        }
+        return Result.ok(state);
+    }
+}
@@ -0,0 +1,108 @@
+/**
+ * Music Facade — Lyrics Manager
+ * Lyrics lookup for the current track and "live lyrics" messages that follow playback.
+ * Live edits go through the now-playing manager's edit throttle.
+ * @module services/music/musicLyricsManager
+ */
+
+import type { Message } from 'discord.js';
+import lyricsService from '../lyrics/lyricsService.js';
+import { queueService } from '../queue/index.js';
+import { playbackService } from '../playback/index.js';
+import { createLiveLyricsEmbed } from '../../../handlers/music/trackEmbeds.js';
+import { lyrics as lyricsConfig } from '../../../config/features/music.js';
+import { findLyricIndex } from '../../../utils/music/index.js';
+import { Result } from '../../../core/errors/Result.js';
+import { ErrorCodes } from '../../../core/errors/ErrorCodes.js';
+import logger from '../../../core/observability/Logger.js';
+import type { MusicNowPlayingManager } from './musicNowPlayingManager.js';
+import type { Track } from '../../../types/music/track.js';
+import type { LiveLyricsSession, LyricsResult } from '../../../types/music/lyrics.js';
+
+export class MusicLyricsManager {
+    private readonly sessions: Map<string, LiveLyricsSession> = new Map();
+
+    constructor(private readonly nowPlayingManager: MusicNowPlayingManager) {}
+
+    async getCurrentLyrics(guildId: string): Promise<Result<{ track: Track; lyrics: LyricsResult }>> {
+        const track = queueService.getCurrentTrack(guildId) as Track | null;
+        if (!track) {
+            return Result.err(ErrorCodes.NO_TRACK, 'Nothing is playing right now.');
+        }
+
+        const result = await lyricsService.getLyrics(track);
+        if (!result.isOk()) {
+            return Result.err(result.code || ErrorCodes.NOT_FOUND, result.error || 'No lyrics found.');
+        }
+        return Result.ok({ track, lyrics: result.data });
+    }
+
+    /**
+     * Keep a message updated with the lyric line at the current player position.
+     * Stops on its own when the track changes or the message is deleted.
+     * @returns false when the lyrics have no timing data
+     */
+    startLiveLyrics(guildId: string, message: Message, lyrics: LyricsResult): boolean {
+        const track = queueService.getCurrentTrack(guildId) as Track | null;
+        if (!lyrics.synced || !track) return false;
+
+        this.stopLiveLyrics(guildId);
+
+        const session: LiveLyricsSession = {
+            guildId,
+            trackUrl: track.url,
+            lyrics,
+            message,
+            lastIndex: -2,
+            updating: false,
+            timer: setInterval(() => this._tick(guildId), lyricsConfig.liveTick)
+        };
+        session.timer.unref?.();
+        this.sessions.set(guildId, session);
+        return true;
+    }
+
+    stopLiveLyrics(guildId: string): void {
+        const session = this.sessions.get(guildId);
+        if (!session) return;
+
+        clearInterval(session.timer);
+        this.sessions.delete(guildId);
+        this.nowPlayingManager.clearEditThrottle(`lyrics:${guildId}`);
+    }
+
+    isLiveLyricsActive(guildId: string): boolean {
+        return this.sessions.has(guildId);
+    }
+
+    private async _tick(guildId: string): Promise<void> {
+        const session = this.sessions.get(guildId);
+        if (!session || session.updating) return;
+
+        const track = queueService.getCurrentTrack(guildId) as Track | null;
+        if (!track || track.url !== session.trackUrl) {
+            this.stopLiveLyrics(guildId);
+            await session.message.edit({ components: [] }).catch(() => {});
+            return;
+        }
+
+        const index = findLyricIndex(session.lyrics.synced!, playbackService.getPosition(guildId));
+        if (index === session.lastIndex) return;
+
+        session.updating = true;
+        try {
+            const edited = await this.nowPlayingManager.throttledEdit(`lyrics:${guildId}`, session.message, {
+                embeds: [createLiveLyricsEmbed(track, session.lyrics, index)]
+            });
+            if (edited) session.lastIndex = index;
+        } catch (error: any) {
+            if (error.code === 10008) {
+                this.stopLiveLyrics(guildId);
+            } else {
+                logger.debug('MusicLyricsManager', `Live lyrics edit failed: ${error.message}`);
+            }
+        } finally {
+            session.updating = false;
+        }
+    }
+}
@@ -18,10 +18,15 @@ import { createNowPlayingEmbed } from '../../../handlers/music/trackEmbeds.js';
 import { createControlButtons } from '../../../handlers/music/trackButtons.js';
 import { queueService } from '../queue/index.js';
 import { voiceConnectionService } from '../voice/index.js';
+import { describeFilters } from '../../../utils/music/index.js';
+import { timeouts } from '../../../config/features/music.js';
 import type { Track } from '../../../types/music/track.js';
 import type { LoopMode } from '../../../types/music/playback.js';
 
 export class MusicNowPlayingManager {
+    private readonly lastEditAt: Map<string, number> = new Map();
+    private readonly editThrottle: number = timeouts.messageEdit;
+
     /**
      * Resolve a MessageRef to a full Discord Message by fetching from the channel.
      * Returns null if the channel or message is unavailable.
@@ -73,7 +78,7 @@ export class MusicNowPlayingManager {
                 .map(row => {
                     const rowJson = row.toJSON();
                     const components = rowJson.components.map(component => {
-                        if (component.type === ComponentType.Button) {
+                        if (component.type === ComponentType.Button || component.type === ComponentType.StringSelect) {
                             return {
                                 ...component,
                                 disabled: true
@@ -97,6 +102,57 @@ export class MusicNowPlayingManager {
         }
     }
 
+    /**
+     * Build the now-playing embed + control rows from current queue state.
+     * Returns null when there is no track or the guild can't be resolved from the text channel.
+     */
+    private _buildNowPlayingPayload(guildId: string, overrides: { loopCount?: number; position?: number; guild?: Guild } = {}): { embeds: ReturnType<typeof createNowPlayingEmbed>[]; components: ReturnType<typeof createControlButtons> } | null {
+        const queue = musicCache.getQueue(guildId);
+        const currentTrack = queueService.getCurrentTrack(guildId) as Track | null;
+        if (!queue || !currentTrack) return null;
+
+        const queueList = queueService.getTracks(guildId) as Track[];
+        const channel = queue.textChannel;
+        const guild = overrides.guild ?? ((channel && 'guild' in channel) ? (channel as { guild?: unknown }).guild : undefined);
+        if (!guild || !('id' in (guild as object))) return null;
+        const listenerCount = voiceConnectionService.getListenerCount(guildId, guild as Guild);
+        const voteSkipStatus = musicCache.getVoteSkipStatus(guildId, listenerCount);
+
+        const embed = createNowPlayingEmbed(currentTrack, {
+            volume: queueService.getVolume(guildId),
+            isPaused: queue.isPaused || false,
+            loopMode: queueService.getLoopMode(guildId) as LoopMode,
+            isShuffled: queueService.isShuffled(guildId),
+            queueLength: queueList.length,
+            nextTrack: queueList[0] || null,
+            loopCount: overrides.loopCount ?? 0,
+            position: overrides.position,
+            voteSkipCount: voteSkipStatus.count,
+            voteSkipRequired: voteSkipStatus.required,
+            listenerCount: listenerCount,
+            filters: describeFilters(musicCache.getFilters(guildId))
+        });
+
+        const rows = createControlButtons(guildId, {
+            isPaused: queue.isPaused || false,
+            loopMode: queueService.getLoopMode(guildId) as LoopMode,
+            isShuffled: queueService.isShuffled(guildId),
+            autoPlay: queueService.isAutoPlayEnabled(guildId),
+            trackUrl: currentTrack.url,
+            userId: currentTrack.requestedBy?.id || '',
+            listenerCount: listenerCount
+        });
+
+        return { embeds: [embed], components: rows };
+    }
+
+    /**
+     * Now-playing embed + controls for messages outside the session's text channel (e.g. the request panel)
+     */
+    buildNowPlayingPayload(guildId: string, guild: Guild) {
+        return this._buildNowPlayingPayload(guildId, { loopCount: musicCache.getLoopCount(guildId) || 0, guild });
+    }
+
     async sendNowPlayingEmbed(guildId: string): Promise<void> {
         const queue = musicCache.getQueue(guildId);
         if (!queue?.textChannel) return;
@@ -107,38 +163,12 @@ export class MusicNowPlayingManager {
         try {
             await this.disableNowPlayingControls(guildId);
 
-            const queueList = queueService.getTracks(guildId) as Track[];
-            const channel = queue.textChannel;
-            const guild = (channel && 'guild' in channel) ? (channel as { guild?: unknown }).guild : undefined;
-            if (!guild || !('id' in (guild as object))) return;
-            const listenerCount = voiceConnectionService.getListenerCount(guildId, guild as Guild);
-            const voteSkipStatus = musicCache.getVoteSkipStatus(guildId, listenerCount);
-
-            const embed = createNowPlayingEmbed(currentTrack, {
-                volume: queueService.getVolume(guildId),
-                isPaused: queue.isPaused || false,
-                loopMode: queueService.getLoopMode(guildId) as LoopMode,
-                isShuffled: queueService.isShuffled(guildId),
-                queueLength: queueList.length,
-                nextTrack: queueList[0] || null,
-                loopCount: 0,
-                voteSkipCount: voteSkipStatus.count,
-                voteSkipRequired: voteSkipStatus.required,
-                listenerCount: listenerCount
-            });
-
-            const rows = createControlButtons(guildId, {
-                isPaused: queue.isPaused || false,
-                loopMode: queueService.getLoopMode(guildId) as LoopMode,
-                isShuffled: queueService.isShuffled(guildId),
-                autoPlay: queueService.isAutoPlayEnabled(guildId),
-                trackUrl: currentTrack.url,
-                userId: currentTrack.requestedBy?.id || '',
-                listenerCount: listenerCount
-            });
+            const payload = this._buildNowPlayingPayload(guildId);
+            if (!payload) return;
 
+            const channel = queue.textChannel;
             if (!('send' in channel) || typeof channel.send !== 'function') return;
-            const nowMessage = await channel.send({ embeds: [embed], components: rows });
+            const nowMessage = await channel.send(payload);
             this.setNowPlayingMessage(guildId, nowMessage);
         } catch (error) {
             // Silent fail
@@ -150,44 +180,11 @@ export class MusicNowPlayingManager {
         const message = await this.resolveMessage(ref, guildId);
         if (!message) return;
 
-        const currentTrack = queueService.getCurrentTrack(guildId) as Track | null;
-        if (!currentTrack) return;
-
-        const queue = musicCache.getQueue(guildId);
-        if (!queue) return;
-
         try {
-            const queueList = queueService.getTracks(guildId) as Track[];
-            const channel = queue.textChannel;
-            const guild = (channel && 'guild' in channel) ? (channel as { guild?: unknown }).guild : undefined;
-            if (!guild || !('id' in (guild as object))) return;
-            const listenerCount = voiceConnectionService.getListenerCount(guildId, guild as Guild);
-            const voteSkipStatus = musicCache.getVoteSkipStatus(guildId, listenerCount);
-
-            const embed = createNowPlayingEmbed(currentTrack, {
-                volume: queueService.getVolume(guildId),
-                isPaused: queue.isPaused || false,
-                loopMode: queueService.getLoopMode(guildId) as LoopMode,
-                isShuffled: queueService.isShuffled(guildId),
-                queueLength: queueList.length,
-                nextTrack: queueList[0] || null,
-                loopCount: loopCount,
-                voteSkipCount: voteSkipStatus.count,
-                voteSkipRequired: voteSkipStatus.required,
-                listenerCount: listenerCount
-            });
-
-            const rows = createControlButtons(guildId, {
-                isPaused: queue.isPaused || false,
-                loopMode: queueService.getLoopMode(guildId) as LoopMode,
-                isShuffled: queueService.isShuffled(guildId),
-                autoPlay: queueService.isAutoPlayEnabled(guildId),
-                trackUrl: currentTrack.url,
-                userId: currentTrack.requestedBy?.id || '',
-                listenerCount: listenerCount
-            });
-
-            await message.edit({ embeds: [embed], components: rows });
+            const payload = this._buildNowPlayingPayload(guildId, { loopCount });
+            if (!payload) return;
+
+            await message.edit(payload);
         } catch (error: any) {
             if (error.code === 10008) {
                 musicCache.setNowPlayingMessage(guildId, null);
@@ -195,4 +192,44 @@ export class MusicNowPlayingManager {
             }
         }
     }
+
+    /**
+     * Redraw the existing now-playing message with the progress bar at the given position (ms).
+     * Throttled so repeated seeks don't hit Discord's message edit rate limit.
+     */
+    async updateNowPlayingPosition(guildId: string, position: number): Promise<void> {
+        if (!this.acquireEditSlot(`nowplaying:${guildId}`)) return;
+
+        const payload = this._buildNowPlayingPayload(guildId, {
+            loopCount: musicCache.getLoopCount(guildId) || 0,
+            position
+        });
+        if (!payload) return;
+
+        await this.updateNowPlayingMessage(guildId, payload);
+    }
+
+    /**
+     * Edit a message at most once per throttle window for the given key.
+     * @returns false when the edit was skipped because the window hasn't elapsed
+     */
+    async throttledEdit(key: string, message: Message, payload: Parameters<Message['edit']>[0]): Promise<boolean> {
+        if (!this.acquireEditSlot(key)) return false;
+        await message.edit(payload);
+        return true;
+    }
+
+    /**
+     * Claim the edit slot for a key if the throttle window has elapsed
+     */
+    acquireEditSlot(key: string): boolean {
+        const now = Date.now();
+        if (now - (this.lastEditAt.get(key) || 0) < this.editThrottle) return false;
+        this.lastEditAt.set(key, now);
+        return true;
+    }
+
+    clearEditThrottle(key: string): void {
+        this.lastEditAt.delete(key);
+    }
 }
@@ -0,0 +1,120 @@
+/**
+ * Music Facade — Permission Service
+ * Per-guild music permission policy: DJ role, DJ-only mode and who may run each protected action.
+ * The DJ role lives in guild_settings.dj_role, the rest in guild_settings.settings.music_permissions.
+ * @module services/music/musicPermissionService
+ */
+
+import type { GuildMember } from 'discord.js';
+import GuildSettingsService from '../../guild/guildSettingsService.js';
+import { permissions as permissionConfig } from '../../../config/features/music.js';
+import type {
+    MusicAction,
+    MusicPermissionMode,
+    MusicPermissionPolicy,
+    MusicPermissionResult,
+    StoredMusicPermissions
+} from '../../../types/music/permissions.js';
+
+const SETTINGS_KEY = 'music_permissions';
+
+const ACTION_LABELS: Record<MusicAction, string> = {
+    skip: 'skip tracks',
+    stop: 'stop the player',
+    volume: 'change the volume',
+    clear: 'clear the queue',
+    shuffle: 'shuffle the queue',
+    move: 'move tracks',
+    remove: 'remove tracks',
+    loop: 'change the loop mode',
+    filters: 'change audio filters'
+};
+
+export class MusicPermissionService {
+    async getPolicy(guildId: string): Promise<MusicPermissionPolicy> {
+        const settings = await GuildSettingsService.getGuildSettings(guildId);
+        const stored = (settings.settings?.[SETTINGS_KEY] || {}) as StoredMusicPermissions;
+
+        return {
+            djRoleId: settings.dj_role,
+            djOnly: !!stored.djOnly,
+            actions: { ...permissionConfig.defaults, ...stored.actions }
+        };
+    }
+
+    async setDJRole(guildId: string, roleId: string | null): Promise<boolean> {
+        return GuildSettingsService.setDJRole(guildId, roleId);
+    }
+
+    async setDJOnly(guildId: string, enabled: boolean): Promise<boolean> {
+        const stored = await this._getStored(guildId);
+        return GuildSettingsService.updateSetting(guildId, SETTINGS_KEY, { ...stored, djOnly: enabled });
+    }
+
+    async setActionMode(guildId: string, action: MusicAction, mode: MusicPermissionMode): Promise<boolean> {
+        const stored = await this._getStored(guildId);
+        return GuildSettingsService.updateSetting(guildId, SETTINGS_KEY, {
+            ...stored,
+            actions: { ...stored.actions, [action]: this.resolveMode(action, mode) }
+        });
+    }
+
+    async resetPolicy(guildId: string): Promise<boolean> {
+        return GuildSettingsService.updateSetting(guildId, SETTINGS_KEY, {});
+    }
+
+    async isDJ(member: GuildMember): Promise<boolean> {
+        return GuildSettingsService.hasDJPermission(member);
+    }
+
+    /**
+     * 'vote' is only meaningful for actions with a vote flow; everything else falls back to DJ
+     */
+    resolveMode(action: MusicAction, mode: MusicPermissionMode): MusicPermissionMode {
+        if (mode === 'vote' && !permissionConfig.voteActions.includes(action)) return 'dj';
+        return mode;
+    }
+
+    /**
+     * Check whether a member may perform a music action
+     * @param action - Protected action, or null for controls only gated by DJ-only mode
+     * @param requesterId - Who queued the affected track, for 'requester' and vote bypass
+     */
+    async check(
+        member: GuildMember,
+        action: MusicAction | null,
+        requesterId: string | null = null
+    ): Promise<MusicPermissionResult> {
+        if (await GuildSettingsService.hasDJPermission(member)) {
+            return { allowed: true, vote: false };
+        }
+
+        const policy = await this.getPolicy(member.guild.id);
+        if (policy.djOnly) {
+            return { allowed: false, vote: false, reason: 'DJ-only mode is on. You need the DJ role to control the music.' };
+        }
+        if (!action) {
+            return { allowed: true, vote: false };
+        }
+
+        const isRequester = !!requesterId && requesterId === member.id;
+
+        switch (this.resolveMode(action, policy.actions[action])) {
+            case 'everyone':
+                return { allowed: true, vote: false };
+            case 'requester':
+                return isRequester
+                    ? { allowed: true, vote: false }
+                    : { allowed: false, vote: false, reason: `Only the track requester or a DJ can ${ACTION_LABELS[action]}.` };
+            case 'vote':
+                return { allowed: true, vote: !isRequester };
+            case 'dj':
+            default:
+                return { allowed: false, vote: false, reason: `You need the DJ role to ${ACTION_LABELS[action]}.` };
+        }
+    }
+
+    private async _getStored(guildId: string): Promise<StoredMusicPermissions> {
+        return GuildSettingsService.getSetting<StoredMusicPermissions>(guildId, SETTINGS_KEY, {});
+    }
+}
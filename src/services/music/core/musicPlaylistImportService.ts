@@ -0,0 +1,355 @@
+/**
+ * Music Facade — Playlist Import Service
+ * Playlist links (YouTube, Spotify, SoundCloud, Apple Music) imported as background jobs
+ * stored in music_playlist_imports. Entries are matched in batches, every miss is recorded
+ * with a reason, and progress is persisted so an import cut short by a restart can continue.
+ * @module services/music/musicPlaylistImportService
+ */
+
+import { randomUUID } from 'crypto';
+import lavalinkService from './lavalinkService.js';
+import spotifyService from '../spotify/spotifyService.js';
+import playlistImportRepository from '../../../repositories/music/playlistImportRepository.js';
+import GuildSettingsService from '../../guild/guildSettingsService.js';
+import { Result } from '../../../core/errors/Result.js';
+import { ErrorCodes } from '../../../core/errors/ErrorCodes.js';
+import { playlistImport as importConfig, snapshots as snapshotConfig } from '../../../config/features/music.js';
+import logger from '../../../core/observability/Logger.js';
+import type { Track } from '../../../types/music/track.js';
+import type {
+    PlaylistImportEntry,
+    PlaylistImportFailure,
+    PlaylistImportHooks,
+    PlaylistImportJob,
+    PlaylistImportOptions,
+    PlaylistImportSource
+} from '../../../types/music/playlist-import.js';
+
+const LIMIT_SETTING_KEY = 'music_import_limit';
+
+export class MusicPlaylistImportService {
+    /** Running job per guild */
+    private readonly active = new Map<string, PlaylistImportJob>();
+    private readonly cancelled = new Set<string>();
+
+    detectSource(url: string): PlaylistImportSource {
+        if (/(?:youtube\.com|youtu\.be)\//i.test(url)) return 'youtube';
+        if (/spotify\.com\//i.test(url)) return 'spotify';
+        if (/soundcloud\.com\//i.test(url)) return 'soundcloud';
+        if (/music\.apple\.com\//i.test(url)) return 'applemusic';
+        return 'other';
+    }
+
+    // --- Limit ---
+
+    async getLimit(guildId: string): Promise<number> {
+        const limit = await GuildSettingsService.getSetting<number>(guildId, LIMIT_SETTING_KEY, importConfig.defaultLimit)
+            .catch(() => importConfig.defaultLimit);
+        return this._clampLimit(Number(limit) || importConfig.defaultLimit);
+    }
+
+    async setLimit(guildId: string, limit: number): Promise<Result<number>> {
+        if (!Number.isInteger(limit) || limit < importConfig.minLimit || limit > importConfig.maxLimit) {
+            return Result.err(ErrorCodes.INVALID_INPUT, `The import limit must be between ${importConfig.minLimit} and ${importConfig.maxLimit} tracks.`);
+        }
+        const saved = await GuildSettingsService.updateSetting(guildId, LIMIT_SETTING_KEY, limit);
+        return saved ? Result.ok(limit) : Result.err(ErrorCodes.DB_ERROR, 'Failed to save the import limit.');
+    }
+
+    // --- Jobs ---
+
+    /**
+     * Read the playlist, apply the guild's cap and store a new job. Nothing is queued yet.
+     */
+    async create(options: PlaylistImportOptions): Promise<Result<PlaylistImportJob>> {
+        if (this.active.has(options.guildId)) {
+            return Result.err(ErrorCodes.PLAYLIST_ERROR, 'A playlist is already being imported here. Cancel it or wait for it to finish.');
+        }
+
+        const source = this.detectSource(options.url);
+        const limit = await this.getLimit(options.guildId);
+
+        const loaded = await this._loadEntries(options.url, source, limit);
+        if (!loaded || loaded.entries.length === 0) {
+            return Result.err(ErrorCodes.NO_RESULTS, 'No tracks found in this playlist. It may be private, empty or unsupported.');
+        }
+
+        let entries = this._orderEntries(loaded.entries, options.url, options.shuffle);
+        const truncated = Math.max(0, loaded.total - limit);
+        entries = entries.slice(0, limit);
+
+        const now = Date.now();
+        const job: PlaylistImportJob = {
+            id: randomUUID(),
+            guildId: options.guildId,
+            userId: options.userId,
+            userName: options.userName,
+            url: options.url,
+            source,
+            playlistName: loaded.name,
+            entries,
+            cursor: 0,
+            added: 0,
+            failures: [],
+            truncated,
+            status: 'running',
+            textChannelId: options.textChannelId,
+            messageId: null,
+            startedAt: now,
+            updatedAt: now
+        };
+
+        if (!await playlistImportRepository.create(job)) {
+            return Result.err(ErrorCodes.DB_ERROR, 'Failed to start the playlist import.');
+        }
+        return Result.ok(job);
+    }
+
+    /**
+     * Match the job's remaining entries batch by batch and hand playable tracks to the hooks.
+     * Stops when cancelled, when the queue is full, or when every entry has been tried.
+     */
+    async run(job: PlaylistImportJob, hooks: PlaylistImportHooks): Promise<PlaylistImportJob> {
+        this.active.set(job.guildId, job);
+        await this._reportProgress(job, hooks);
+        let lastProgress = Date.now();
+
+        try {
+            while (job.cursor < job.entries.length) {
+                if (this.cancelled.has(job.id)) {
+                    job.status = 'cancelled';
+                    break;
+                }
+
+                const start = job.cursor;
+                const batch = job.entries.slice(start, start + importConfig.batchSize);
+                const results = await Promise.all(batch.map((entry, i) => this._resolveEntry(job, entry, start + i)));
+
+                // Cancelled (or the player went away) while this batch was being matched
+                if (this.cancelled.has(job.id)) {
+                    job.status = 'cancelled';
+                    break;
+                }
+
+                const tracks: Array<{ index: number; track: Track }> = [];
+                results.forEach((result, i) => {
+                    if ('reason' in result) job.failures.push(result);
+                    else tracks.push({ index: start + i, track: result });
+                });
+
+                const fitted = tracks.length > 0 ? await hooks.onTracks(job, tracks.map(t => t.track)) : 0;
+                job.added += fitted;
+                job.cursor = start + batch.length;
+
+                if (fitted < tracks.length) {
+                    // The queue is full: nothing after this point can be added either
+                    const leftOver = [
+                        ...tracks.slice(fitted).map(t => t.index),
+                        ...job.entries.slice(job.cursor).map((_, i) => job.cursor + i)
+                    ];
+                    for (const index of leftOver) {
+                        job.failures.push(this._failure(job.entries[index]!, index, 'queue_full'));
+                    }
+                    job.cursor = job.entries.length;
+                    break;
+                }
+
+                // Persist every batch so a resumed import doesn't queue tracks twice; only the embed is throttled
+                job.updatedAt = Date.now();
+                await playlistImportRepository.updateProgress(job);
+
+                if (job.updatedAt - lastProgress >= importConfig.progressInterval) {
+                    lastProgress = job.updatedAt;
+                    await this._reportProgress(job, hooks);
+                }
+            }
+
+            if (job.status === 'running') job.status = 'completed';
+        } catch (error) {
+            job.status = 'failed';
+            logger.error('MusicPlaylistImport', `Import ${job.id} failed in guild ${job.guildId}: ${(error as Error).message}`);
+        } finally {
+            this.active.delete(job.guildId);
+            this.cancelled.delete(job.id);
+        }
+
+        job.failures.sort((a, b) => a.index - b.index);
+        job.updatedAt = Date.now();
+        await playlistImportRepository.updateProgress(job);
+        await hooks.onFinish(job).catch((error: Error) => {
+            logger.warn('MusicPlaylistImport', `Finish update failed: ${error.message}`);
+        });
+
+        logger.info('MusicPlaylistImport', `Import ${job.id} ${job.status}: ${job.added}/${job.entries.length} added, ${job.failures.length} failed`);
+        return job;
+    }
+
+    /**
+     * Ask the guild's running import to stop after its current batch
+     * @param jobId - Only cancel if this is the running job (stale buttons do nothing)
+     */
+    cancel(guildId: string, jobId?: string): PlaylistImportJob | null {
+        const job = this.active.get(guildId);
+        if (!job || (jobId && job.id !== jobId)) return null;
+
+        this.cancelled.add(job.id);
+        return job;
+    }
+
+    getActive(guildId: string): PlaylistImportJob | null {
+        return this.active.get(guildId) || null;
+    }
+
+    /**
+     * Imports that were still running when the bot went down
+     */
+    async getInterrupted(guildId: string): Promise<PlaylistImportJob[]> {
+        const jobs = await playlistImportRepository.getRunning(guildId, snapshotConfig.resumeMaxAge);
+        return jobs.filter(job => job.id !== this.active.get(guildId)?.id);
+    }
+
+    async cancelInterrupted(guildId: string): Promise<number> {
+        if (this.active.has(guildId)) return 0;
+        return playlistImportRepository.finishRunning(guildId, 'cancelled');
+    }
+
+    /**
+     * Drop jobs too old to resume or look back at
+     */
+    async prune(): Promise<number> {
+        return playlistImportRepository.deleteOlderThan(snapshotConfig.resumeMaxAge);
+    }
+
+    private async _reportProgress(job: PlaylistImportJob, hooks: PlaylistImportHooks): Promise<void> {
+        await hooks.onProgress(job).catch((error: Error) => {
+            logger.debug('MusicPlaylistImport', `Progress update failed: ${error.message}`);
+        });
+    }
+
+    // --- Loading ---
+
+    private async _loadEntries(
+        url: string,
+        source: PlaylistImportSource,
+        limit: number
+    ): Promise<{ name: string; entries: PlaylistImportEntry[]; total: number } | null> {
+        try {
+            const playlist = await lavalinkService.loadPlaylist(url);
+            if (playlist && playlist.tracks.length > 0) {
+                return {
+                    name: playlist.playlistName || 'Playlist',
+                    total: playlist.tracks.length,
+                    entries: playlist.tracks.map(t => ({
+                        title: t.title || 'Unknown',
+                        author: t.author || null,
+                        isrc: null,
+                        durationMs: t.lengthSeconds * 1000,
+                        artworkUrl: t.thumbnail,
+                        url: t.url || null,
+                        encoded: t.encoded || null
+                    }))
+                };
+            }
+        } catch (error) {
+            logger.warn('MusicPlaylistImport', `Lavalink could not load ${url}: ${(error as Error).message}`);
+        }
+
+        // Lavalink without LavaSrc (or a Spotify outage on its side): read the tracks from Spotify directly
+        const spotifyId = source === 'spotify' ? spotifyService.extractSpotifyId(url) : null;
+        if (!spotifyId || (spotifyId.type !== 'playlist' && spotifyId.type !== 'album')) return null;
+
+        const collection = await spotifyService.getCollection(spotifyId.type, spotifyId.id, limit);
+        if (collection.tracks.length === 0) return null;
+
+        return {
+            name: collection.name || `Spotify ${spotifyId.type}`,
+            total: Math.max(collection.total, collection.tracks.length),
+            entries: collection.tracks.map(t => ({
+                title: t.title,
+                author: t.artist || null,
+                isrc: t.isrc || null,
+                durationMs: t.duration_ms,
+                artworkUrl: t.artworkUrl || null,
+                url: null,
+                encoded: null
+            }))
+        };
+    }
+
+    /**
+     * Start from the URL's `index` parameter (e.g. &index=12 → track 12 first), or shuffle
+     */
+    private _orderEntries(entries: PlaylistImportEntry[], url: string, shuffle: boolean = false): PlaylistImportEntry[] {
+        const ordered = [...entries];
+
+        if (shuffle) {
+            for (let i = ordered.length - 1; i > 0; i--) {
+                const j = Math.floor(Math.random() * (i + 1));
+                [ordered[i], ordered[j]] = [ordered[j]!, ordered[i]!];
+            }
+            return ordered;
+        }
+
+        try {
+            const startIndex = parseInt(new URL(url).searchParams.get('index') || '', 10) - 1;
+            if (startIndex > 0 && startIndex < ordered.length) {
+                return [...ordered.slice(startIndex), ...ordered.slice(0, startIndex)];
+            }
+        } catch {
+            // Not a valid URL — keep the playlist order
+        }
+        return ordered;
+    }
+
+    // --- Matching ---
+
+    private async _resolveEntry(job: PlaylistImportJob, entry: PlaylistImportEntry, index: number): Promise<Track | PlaylistImportFailure> {
+        if (entry.encoded) return this._toTrack(job, entry, entry.encoded);
+
+        // Entries the source listed without playable data are matched by metadata instead
+        const fromMetadata = entry.url === null;
+        try {
+            const result = await lavalinkService.resolveExternalTrack({
+                title: entry.title,
+                artist: entry.author || '',
+                duration_ms: entry.durationMs,
+                artworkUrl: entry.artworkUrl || undefined,
+                isrc: entry.isrc || undefined
+            }, undefined, job.source);
+
+            if (!result?.encoded) {
+                return this._failure(entry, index, fromMetadata ? 'no_match' : 'unplayable');
+            }
+            return this._toTrack(job, { ...entry, url: result.url || entry.url, durationMs: result.lengthSeconds * 1000 || entry.durationMs }, result.encoded);
+        } catch (error) {
+            return this._failure(entry, index, 'error', (error as Error).message);
+        }
+    }
+
+    private _toTrack(job: PlaylistImportJob, entry: PlaylistImportEntry, encoded: string): Track {
+        return {
+            track: { encoded },
+            title: entry.title,
+            url: entry.url || '',
+            lengthSeconds: Math.floor(entry.durationMs / 1000),
+            author: entry.author || undefined,
+            thumbnail: entry.artworkUrl || undefined,
+            source: job.source,
+            requestedBy: { id: job.userId, username: job.userName || undefined, displayName: job.userName || undefined }
+        };
+    }
+
+    private _failure(entry: PlaylistImportEntry, index: number, reason: PlaylistImportFailure['reason'], detail?: string): PlaylistImportFailure {
+        return {
+            index: index + 1,
+            title: entry.title,
+            author: entry.author,
+            reason,
+            ...(detail ? { detail } : {})
+        };
+    }
+
+    private _clampLimit(limit: number): number {
+        return Math.min(importConfig.maxLimit, Math.max(importConfig.minLimit, Math.floor(limit)));
+    }
+}
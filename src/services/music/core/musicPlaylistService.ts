@@ -0,0 +1,260 @@
+/**
+ * Music Facade — Playlist Service
+ * Saved user playlists backed by the playlists table.
+ * Handles limits, ownership/visibility checks and re-resolution of stale tracks.
+ * @module services/music/musicPlaylistService
+ */
+
+import lavalinkService from './lavalinkService.js';
+import playlistRepository from '../../../repositories/music/playlistRepository.js';
+import { Result } from '../../../core/errors/Result.js';
+import { ErrorCodes } from '../../../core/errors/ErrorCodes.js';
+import { limits, cache } from '../../../config/features/music.js';
+import logger from '../../../core/observability/Logger.js';
+import type { Track } from '../../../types/music/track.js';
+import type { SavedPlaylist, SavedPlaylistTrack, PlaylistLoadResult } from '../../../types/music/playlist.js';
+
+const MAX_NAME_LENGTH = 100;
+const RESOLVE_BATCH_SIZE = 5;
+
+export class MusicPlaylistService {
+    private readonly maxPlaylists: number = limits.savedPlaylists;
+    private readonly maxTracks: number = limits.savedPlaylistSize;
+    private readonly staleAfter: number = cache.savedTrackStaleAfter;
+
+    async createPlaylist(userId: string, name: string, tracks: Track[] = []): Promise<Result<SavedPlaylist>> {
+        const cleanName = name.trim();
+        if (!cleanName || cleanName.length > MAX_NAME_LENGTH) {
+            return Result.err(ErrorCodes.INVALID_INPUT, `Playlist name must be 1-${MAX_NAME_LENGTH} characters.`);
+        }
+
+        if (await playlistRepository.getByName(userId, cleanName)) {
+            return Result.err(ErrorCodes.DUPLICATE_ENTRY, `You already have a playlist named **${cleanName}**.`);
+        }
+
+        if (await playlistRepository.countByUser(userId) >= this.maxPlaylists) {
+            return Result.err(ErrorCodes.QUEUE_FULL, `You can only have ${this.maxPlaylists} playlists.`);
+        }
+
+        const saved = this._dedupe(tracks.map(t => this.toSavedTrack(t))).slice(0, this.maxTracks);
+        const playlist = await playlistRepository.create(userId, cleanName, saved);
+        if (!playlist) {
+            return Result.err(ErrorCodes.DB_ERROR, 'Failed to create playlist.');
+        }
+        return Result.ok(playlist);
+    }
+
+    async addTracks(userId: string, name: string, tracks: Track[]): Promise<Result<{ playlist: SavedPlaylist; added: number; skipped: number }>> {
+        const playlist = await playlistRepository.getByName(userId, name);
+        if (!playlist) {
+            return Result.err(ErrorCodes.NOT_FOUND, `Playlist **${name}** not found.`);
+        }
+
+        const existing = new Set(playlist.tracks.map(t => t.url));
+        const incoming = this._dedupe(tracks.map(t => this.toSavedTrack(t))).filter(t => !existing.has(t.url));
+        const room = Math.max(0, this.maxTracks - playlist.tracks.length);
+        const toAdd = incoming.slice(0, room);
+
+        if (toAdd.length === 0) {
+            return incoming.length > 0
+                ? Result.err(ErrorCodes.QUEUE_FULL, `Playlist is full (${this.maxTracks} tracks max).`)
+                : Result.err(ErrorCodes.DUPLICATE_ENTRY, 'All tracks are already in this playlist.');
+        }
+
+        const updated = [...playlist.tracks, ...toAdd];
+        if (!await playlistRepository.setTracks(playlist.id, updated)) {
+            return Result.err(ErrorCodes.DB_ERROR, 'Failed to update playlist.');
+        }
+
+        return Result.ok({
+            playlist: { ...playlist, tracks: updated },
+            added: toAdd.length,
+            skipped: tracks.length - toAdd.length
+        });
+    }
+
+    async removeTrack(userId: string, name: string, position: number): Promise<Result<{ removed: SavedPlaylistTrack }>> {
+        const playlist = await playlistRepository.getByName(userId, name);
+        if (!playlist) {
+            return Result.err(ErrorCodes.NOT_FOUND, `Playlist **${name}** not found.`);
+        }
+
+        const index = position - 1;
+        if (index < 0 || index >= playlist.tracks.length) {
+            return Result.err(ErrorCodes.INVALID_POSITION, `Invalid position. Playlist has ${playlist.tracks.length} tracks.`);
+        }
+
+        const tracks = [...playlist.tracks];
+        const [removed] = tracks.splice(index, 1);
+        if (!await playlistRepository.setTracks(playlist.id, tracks)) {
+            return Result.err(ErrorCodes.DB_ERROR, 'Failed to update playlist.');
+        }
+        return Result.ok({ removed });
+    }
+
+    async renamePlaylist(userId: string, name: string, newName: string): Promise<Result<SavedPlaylist>> {
+        const cleanName = newName.trim();
+        if (!cleanName || cleanName.length > MAX_NAME_LENGTH) {
+            return Result.err(ErrorCodes.INVALID_INPUT, `Playlist name must be 1-${MAX_NAME_LENGTH} characters.`);
+        }
+
+        const playlist = await playlistRepository.getByName(userId, name);
+        if (!playlist) {
+            return Result.err(ErrorCodes.NOT_FOUND, `Playlist **${name}** not found.`);
+        }
+
+        const conflict = await playlistRepository.getByName(userId, cleanName);
+        if (conflict && conflict.id !== playlist.id) {
+            return Result.err(ErrorCodes.DUPLICATE_ENTRY, `You already have a playlist named **${cleanName}**.`);
+        }
+
+        if (!await playlistRepository.rename(playlist.id, cleanName)) {
+            return Result.err(ErrorCodes.DB_ERROR, 'Failed to rename playlist.');
+        }
+        return Result.ok({ ...playlist, name: cleanName });
+    }
+
+    async deletePlaylist(userId: string, name: string): Promise<Result<SavedPlaylist>> {
+        const playlist = await playlistRepository.getByName(userId, name);
+        if (!playlist) {
+            return Result.err(ErrorCodes.NOT_FOUND, `Playlist **${name}** not found.`);
+        }
+        if (!await playlistRepository.delete(playlist.id)) {
+            return Result.err(ErrorCodes.DB_ERROR, 'Failed to delete playlist.');
+        }
+        return Result.ok(playlist);
+    }
+
+    async setPublic(userId: string, name: string, isPublic: boolean): Promise<Result<SavedPlaylist>> {
+        const playlist = await playlistRepository.getByName(userId, name);
+        if (!playlist) {
+            return Result.err(ErrorCodes.NOT_FOUND, `Playlist **${name}** not found.`);
+        }
+        if (!await playlistRepository.setPublic(playlist.id, isPublic)) {
+            return Result.err(ErrorCodes.DB_ERROR, 'Failed to update playlist.');
+        }
+        return Result.ok({ ...playlist, isPublic });
+    }
+
+    async getUserPlaylists(userId: string, publicOnly: boolean = false): Promise<SavedPlaylist[]> {
+        return playlistRepository.getByUser(userId, publicOnly);
+    }
+
+    /**
+     * Get a playlist the viewer is allowed to see (own, or someone else's public one)
+     */
+    async getPlaylist(ownerId: string, name: string, viewerId: string): Promise<Result<SavedPlaylist>> {
+        const playlist = await playlistRepository.getByName(ownerId, name);
+        if (!playlist || (ownerId !== viewerId && !playlist.isPublic)) {
+            return Result.err(ErrorCodes.NOT_FOUND, `Playlist **${name}** not found.`);
+        }
+        return Result.ok(playlist);
+    }
+
+    /**
+     * Turn a saved playlist into playable tracks.
+     * Tracks without encoded data or older than the stale window are re-resolved
+     * through Lavalink; refreshed entries are written back so the next load is cheap.
+     */
+    async resolvePlaylist(ownerId: string, name: string, viewerId: string, requester?: Track['requestedBy']): Promise<Result<PlaylistLoadResult>> {
+        const found = await this.getPlaylist(ownerId, name, viewerId);
+        if (!found.isOk()) {
+            return Result.err(found.code || ErrorCodes.NOT_FOUND, found.error || `Playlist **${name}** not found.`);
+        }
+
+        const playlist = found.data;
+        if (playlist.tracks.length === 0) {
+            return Result.err(ErrorCodes.NO_TRACK, `Playlist **${playlist.name}** is empty.`);
+        }
+
+        const refreshed = [...playlist.tracks];
+        const tracks: (Track | null)[] = new Array(refreshed.length).fill(null);
+        let resolved = 0;
+        let failed = 0;
+
+        const staleIndexes: number[] = [];
+        refreshed.forEach((saved, i) => {
+            if (this.isStale(saved)) {
+                staleIndexes.push(i);
+            } else {
+                tracks[i] = this.toTrack(saved, requester);
+            }
+        });
+
+        for (let i = 0; i < staleIndexes.length; i += RESOLVE_BATCH_SIZE) {
+            const batch = staleIndexes.slice(i, i + RESOLVE_BATCH_SIZE);
+            await Promise.all(batch.map(async index => {
+                const saved = refreshed[index];
+                try {
+                    const result = await lavalinkService.search(saved.url || `${saved.title} ${saved.author || ''}`.trim());
+                    if (!result?.encoded) throw new Error('NO_RESULTS');
+
+                    refreshed[index] = {
+                        ...saved,
+                        url: result.url || saved.url,
+                        lengthSeconds: result.lengthSeconds || saved.lengthSeconds,
+                        thumbnail: result.thumbnail || saved.thumbnail,
+                        encoded: result.encoded,
+                        savedAt: Date.now()
+                    };
+                    tracks[index] = this.toTrack(refreshed[index], requester);
+                    resolved++;
+                } catch (error) {
+                    failed++;
+                    logger.debug('MusicPlaylistService', `Could not re-resolve "${saved.title}": ${(error as Error).message}`);
+                }
+            }));
+        }
+
+        if (resolved > 0 && ownerId === viewerId) {
+            await playlistRepository.setTracks(playlist.id, refreshed);
+        }
+
+        const playable = tracks.filter((t): t is Track => t !== null);
+        if (playable.length === 0) {
+            return Result.err(ErrorCodes.PLAYLIST_ERROR, `None of the tracks in **${playlist.name}** could be loaded.`);
+        }
+
+        await playlistRepository.incrementPlayCount(playlist.id);
+        return Result.ok({ playlist, tracks: playable, resolved, failed });
+    }
+
+    isStale(saved: SavedPlaylistTrack): boolean {
+        return !saved.encoded || Date.now() - (saved.savedAt || 0) > this.staleAfter;
+    }
+
+    toSavedTrack(track: Track): SavedPlaylistTrack {
+        return {
+            url: track.url,
+            title: track.title,
+            author: track.author || null,
+            lengthSeconds: track.lengthSeconds || 0,
+            thumbnail: track.thumbnail || null,
+            source: track.source || null,
+            encoded: track.track?.encoded || (track as unknown as { encoded?: string }).encoded || null,
+            savedAt: Date.now()
+        };
+    }
+
+    toTrack(saved: SavedPlaylistTrack, requester?: Track['requestedBy']): Track {
+        return {
+            track: { encoded: saved.encoded || '' },
+            title: saved.title,
+            url: saved.url,
+            lengthSeconds: saved.lengthSeconds,
+            author: saved.author || undefined,
+            thumbnail: saved.thumbnail || undefined,
+            source: saved.source || undefined,
+            requestedBy: requester
+        };
+    }
+
+    private _dedupe(tracks: SavedPlaylistTrack[]): SavedPlaylistTrack[] {
+        const seen = new Set<string>();
+        return tracks.filter(t => {
+            if (!t.url || seen.has(t.url)) return false;
+            seen.add(t.url);
+            return true;
+        });
+    }
+}
@@ -0,0 +1,277 @@
+/**
+ * Music Facade — Queue File Service
+ * Writes the queue out as a JSON or M3U file and reads such files back. JSON exports come
+ * back with their encoded tracks; other entries are looked up again through Lavalink, and
+ * misses are reported per entry.
+ * @module services/music/musicQueueFileService
+ */
+
+import lavalinkService from './lavalinkService.js';
+import { Result } from '../../../core/errors/Result.js';
+import { ErrorCodes } from '../../../core/errors/ErrorCodes.js';
+import { queueFile as queueFileConfig } from '../../../config/features/music.js';
+import logger from '../../../core/observability/Logger.js';
+import { checkStreamUrl } from '../../../middleware/urlValidator.js';
+import type { Track } from '../../../types/music/track.js';
+import type { QueueFile, QueueFileFormat } from '../../../types/music/queue-file.js';
+import type { PlaylistImportFailure } from '../../../types/music/playlist-import.js';
+
+const FILE_VERSION = 1;
+
+function isLink(value: string): boolean {
+    return /^https?:\/\//i.test(value);
+}
+
+function optionalString(value: unknown): string | undefined {
+    return typeof value === 'string' && value ? value : undefined;
+}
+
+/**
+ * Requester as written by an export; anything without a user ID is dropped
+ */
+function parseRequester(value: unknown): Track['requestedBy'] {
+    if (!value || typeof value !== 'object') return undefined;
+    const raw = value as Record<string, unknown>;
+    const id = optionalString(raw.id);
+    if (!id || !/^\d{17,20}$/.test(id)) return undefined;
+    return { id, username: optionalString(raw.username), displayName: optionalString(raw.displayName) };
+}
+
+export class MusicQueueFileService {
+    detectFormat(fileName: string): QueueFileFormat | null {
+        if (/\.json$/i.test(fileName)) return 'json';
+        if (/\.m3u8?$/i.test(fileName)) return 'm3u';
+        return null;
+    }
+
+    // --- Export ---
+
+    serialize(tracks: Track[], format: QueueFileFormat): string {
+        const exported = tracks.map(track => this._toExported(track));
+        if (format === 'json') {
+            const file: QueueFile = { version: FILE_VERSION, exportedAt: new Date().toISOString(), tracks: exported };
+            return JSON.stringify(file, null, 2);
+        }
+
+        const lines = ['#EXTM3U'];
+        for (const track of exported) {
+            lines.push(`#EXTINF:${track.lengthSeconds || -1},${track.author ? `${track.author} - ` : ''}${track.title}`);
+            if (track.requestedBy) {
+                lines.push(`# Requested by ${track.requestedBy.displayName || track.requestedBy.username || 'Unknown'} (${track.requestedBy.id})`);
+            }
+            lines.push(track.url);
+        }
+        return lines.join('\n') + '\n';
+    }
+
+    /**
+     * Keep only what survives a round trip: the encoded track and plain requester details
+     */
+    private _toExported(track: Track): Track {
+        const requester = track.requestedBy;
+        return {
+            track: { encoded: track.track?.encoded || '' },
+            title: track.title || track.info?.title || 'Unknown',
+            url: track.url || track.info?.uri || '',
+            lengthSeconds: track.lengthSeconds || 0,
+            author: track.author || track.info?.author || undefined,
+            thumbnail: track.thumbnail || undefined,
+            source: track.source || undefined,
+            requestedBy: requester?.id
+                ? { id: requester.id, username: requester.username, displayName: requester.displayName }
+                : undefined
+        };
+    }
+
+    // --- Import ---
+
+    /**
+     * Download an uploaded file, refusing anything over the size cap
+     */
+    async download(url: string, size: number): Promise<Result<string>> {
+        if (size > queueFileConfig.maxBytes) {
+            return Result.err(ErrorCodes.INVALID_INPUT, `The file is too large (max ${Math.floor(queueFileConfig.maxBytes / 1024)} KB).`);
+        }
+
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), queueFileConfig.downloadTimeout);
+        try {
+            const response = await fetch(url, { signal: controller.signal });
+            if (!response.ok) throw new Error(`HTTP ${response.status}`);
+            return Result.ok(await response.text());
+        } catch (error) {
+            logger.warn('MusicQueueFile', `Download failed: ${(error as Error).message}`);
+            return Result.err(ErrorCodes.API_ERROR, 'Could not download the file. Please try again.');
+        } finally {
+            clearTimeout(timeoutId);
+        }
+    }
+
+    /**
+     * Read the entries of a queue file. Entries keep the file's metadata; only JSON exports
+     * carry encoded tracks, the rest still has to be resolved.
+     */
+    parse(content: string, format: QueueFileFormat): Result<Track[]> {
+        const entries = format === 'json' ? this._parseJson(content) : this._parseM3u(content);
+        if (!entries) {
+            return Result.err(ErrorCodes.INVALID_INPUT, `This is not a valid ${format === 'json' ? 'JSON queue export' : 'M3U playlist'}.`);
+        }
+        if (entries.length === 0) {
+            return Result.err(ErrorCodes.NO_RESULTS, 'The file does not contain any tracks.');
+        }
+        return Result.ok(entries);
+    }
+
+    private _parseJson(content: string): Track[] | null {
+        let data: unknown;
+        try {
+            data = JSON.parse(content);
+        } catch {
+            return null;
+        }
+
+        // A bare array of tracks is accepted too
+        const list = Array.isArray(data) ? data : (data as Partial<QueueFile> | null)?.tracks;
+        if (!Array.isArray(list)) return null;
+
+        const entries: Track[] = [];
+        for (const item of list) {
+            if (!item || typeof item !== 'object') continue;
+            const raw = item as Record<string, unknown>;
+            const title = optionalString(raw.title);
+            const url = optionalString(raw.url);
+            if (!title && !url) continue;
+
+            const encoded = raw.track && typeof raw.track === 'object'
+                ? optionalString((raw.track as Record<string, unknown>).encoded)
+                : undefined;
+
+            entries.push({
+                track: { encoded: encoded || '' },
+                title: title || url!,
+                url: url || '',
+                lengthSeconds: Number(raw.lengthSeconds) || 0,
+                author: optionalString(raw.author),
+                thumbnail: optionalString(raw.thumbnail),
+                source: optionalString(raw.source),
+                requestedBy: parseRequester(raw.requestedBy)
+            });
+        }
+        return entries;
+    }
+
+    private _parseM3u(content: string): Track[] | null {
+        const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/).map(line => line.trim());
+        const entries: Track[] = [];
+        let info: { title: string; author?: string; lengthSeconds: number } | null = null;
+
+        for (const line of lines) {
+            if (!line) continue;
+
+            const extinf = /^#EXTINF:\s*(-?\d+(?:\.\d+)?)[^,]*,(.*)$/i.exec(line);
+            if (extinf) {
+                const [author, title] = this._splitArtist(extinf[2]!.trim());
+                info = { title, author, lengthSeconds: Math.max(0, Math.floor(Number(extinf[1]))) };
+                continue;
+            }
+            if (line.startsWith('#')) continue;
+
+            // Local file paths can only be matched by their #EXTINF title or file name
+            const fileName = line.split(/[\\/]/).pop()!.replace(/\.[a-z0-9]{2,4}$/i, '');
+            entries.push({
+                track: { encoded: '' },
+                title: info?.title || (isLink(line) ? line : fileName),
+                url: isLink(line) ? line : '',
+                lengthSeconds: info?.lengthSeconds || 0,
+                author: info?.author
+            });
+            info = null;
+        }
+
+        // Files without a single entry line that also lack the header are most likely not playlists
+        if (entries.length === 0 && !lines.some(line => /^#EXTM3U/i.test(line))) return null;
+        return entries;
+    }
+
+    /**
+     * "Artist - Title" as written by most players
+     */
+    private _splitArtist(text: string): [string | undefined, string] {
+        const separator = text.indexOf(' - ');
+        if (separator <= 0) return [undefined, text];
+        return [text.slice(0, separator).trim(), text.slice(separator + 3).trim()];
+    }
+
+    /**
+     * Look every entry up again, by link first and by title + artist when the link is dead.
+     * Entries from a JSON export keep their encoded track and requester; links are checked
+     * like any other stream URL before they reach Lavalink.
+     * @returns Playable tracks in file order, with their 0-based index, and the misses
+     */
+    async resolve(entries: Track[], requester: Track['requestedBy']): Promise<{ tracks: Array<{ index: number; track: Track }>; failures: PlaylistImportFailure[] }> {
+        const results: Array<Track | PlaylistImportFailure> = [];
+
+        for (let start = 0; start < entries.length; start += queueFileConfig.batchSize) {
+            const batch = entries.slice(start, start + queueFileConfig.batchSize);
+            results.push(...await Promise.all(batch.map((entry, i) => this._resolveEntry(entry, start + i, requester))));
+        }
+
+        const tracks: Array<{ index: number; track: Track }> = [];
+        const failures: PlaylistImportFailure[] = [];
+        results.forEach((result, index) => {
+            if ('reason' in result) failures.push(result);
+            else tracks.push({ index, track: result });
+        });
+        return { tracks, failures };
+    }
+
+    private async _resolveEntry(entry: Track, index: number, requester: Track['requestedBy']): Promise<Track | PlaylistImportFailure> {
+        for (const link of [entry.url, entry.title].filter(isLink)) {
+            const urlCheck = checkStreamUrl(link);
+            if (!urlCheck.valid) return this._failure(entry, index, 'invalid', urlCheck.error);
+        }
+        if (entry.url && !isLink(entry.url)) {
+            return this._failure(entry, index, 'invalid', 'Only HTTP/HTTPS URLs are supported.');
+        }
+
+        if (entry.track.encoded) {
+            return { ...entry, requestedBy: entry.requestedBy || requester };
+        }
+
+        const textQuery = `${entry.title} ${entry.author || ''}`.trim();
+        const queries = [entry.url, isLink(entry.title) ? '' : textQuery].filter((query, i, all) => query && all.indexOf(query) === i);
+
+        let lastError: Error | null = null;
+        for (const query of queries) {
+            try {
+                const result = await lavalinkService.search(query, requester);
+                if (!result?.encoded) continue;
+
+                // Keep the file's metadata where it has any; playback data comes from the lookup
+                return {
+                    ...(result as unknown as Track),
+                    title: isLink(entry.title) ? result.title : entry.title,
+                    author: entry.author || result.author || undefined,
+                    thumbnail: entry.thumbnail || result.thumbnail || undefined,
+                    requestedBy: requester
+                };
+            } catch (error) {
+                if ((error as Error).message !== 'NO_RESULTS') lastError = error as Error;
+            }
+        }
+
+        return lastError
+            ? this._failure(entry, index, 'error', lastError.message)
+            : this._failure(entry, index, 'no_match');
+    }
+
+    private _failure(entry: Track, index: number, reason: PlaylistImportFailure['reason'], detail?: string): PlaylistImportFailure {
+        return {
+            index: index + 1,
+            title: entry.title,
+            author: entry.author || null,
+            reason,
+            ...(detail ? { detail } : {})
+        };
+    }
+}
@@ -0,0 +1,163 @@
+/**
+ * Music Facade — Queue Snapshot Service
+ * Durable queue snapshots in Postgres (music_queue_snapshots), so listening sessions
+ * survive full restarts and Redis flushes, not just Lavalink reconnects.
+ * Snapshots are written on track start and on a timer while music plays, because the
+ * database is already gone by the time the facade shuts down.
+ * @module services/music/musicQueueSnapshotService
+ */
+
+import lavalinkService from './lavalinkService.js';
+import queueSnapshotRepository from '../../../repositories/music/queueSnapshotRepository.js';
+import { queueService } from '../queue/index.js';
+import musicCache from '../../../cache/music/MusicCacheFacade.js';
+import { snapshots as snapshotConfig } from '../../../config/features/music.js';
+import logger from '../../../core/observability/Logger.js';
+import type { MusicTrack } from '../../../types/music/events.js';
+import type { QueueSnapshot, SnapshotTrack } from '../../../types/music/queue-snapshot.js';
+
+export class MusicQueueSnapshotService {
+    private autoSaveTimer: NodeJS.Timeout | null = null;
+    private frozen = false;
+
+    /**
+     * Build a snapshot of the guild's current session, or null when there is nothing to resume
+     */
+    capture(guildId: string): QueueSnapshot | null {
+        const queue = queueService.get(guildId);
+        if (!queue?.voiceChannelId) return null;
+
+        const currentTrack = queue.currentTrack ? this.toSnapshotTrack(queue.currentTrack) : null;
+        const tracks = queue.tracks
+            .map(t => this.toSnapshotTrack(t))
+            .filter((t): t is SnapshotTrack => t !== null);
+        if (!currentTrack && tracks.length === 0) return null;
+
+        const player = lavalinkService.getPlayer(guildId);
+
+        return {
+            guildId,
+            voiceChannelId: queue.voiceChannelId,
+            textChannelId: queue.textChannelId,
+            requesterId: currentTrack?.requesterId || tracks[0]?.requesterId || queue.requesterId,
+            currentTrack,
+            positionMs: currentTrack ? player?.position || 0 : 0,
+            tracks,
+            loopMode: queue.loopMode,
+            volume: queue.volume,
+            paused: player?.paused ?? queue.isPaused,
+            autoPlay: queue.autoPlay,
+            filters: musicCache.getFilters(guildId),
+            updatedAt: Date.now()
+        };
+    }
+
+    /**
+     * Write the guild's snapshot, or drop it when the queue is empty
+     */
+    async save(guildId: string): Promise<boolean> {
+        if (this.frozen) return false;
+
+        const snapshot = this.capture(guildId);
+        if (!snapshot) {
+            await queueSnapshotRepository.delete(guildId);
+            return false;
+        }
+        return queueSnapshotRepository.upsert(snapshot);
+    }
+
+    async saveAll(guildIds: string[]): Promise<number> {
+        let saved = 0;
+        for (const guildId of guildIds) {
+            if (await this.save(guildId)) saved++;
+        }
+        return saved;
+    }
+
+    /**
+     * Periodically snapshot every guild with a player, so positions stay fresh
+     */
+    startAutoSave(getGuildIds: () => string[]): void {
+        if (this.autoSaveTimer) return;
+
+        this.autoSaveTimer = setInterval(() => {
+            const guildIds = getGuildIds().filter(id => !!lavalinkService.getPlayer(id));
+            this.saveAll(guildIds).catch(error => {
+                logger.error('MusicQueueSnapshot', `Auto-save failed: ${(error as Error).message}`);
+            });
+        }, snapshotConfig.saveInterval);
+        this.autoSaveTimer.unref?.();
+    }
+
+    stopAutoSave(): void {
+        if (this.autoSaveTimer) {
+            clearInterval(this.autoSaveTimer);
+            this.autoSaveTimer = null;
+        }
+    }
+
+    /**
+     * Stop writing and deleting snapshots. Called on shutdown so tearing the
+     * players down doesn't wipe the snapshots we want to resume from.
+     */
+    freeze(): void {
+        this.frozen = true;
+        this.stopAutoSave();
+    }
+
+    /**
+     * Forget the guild's snapshot (the session ended on purpose)
+     */
+    async clear(guildId: string): Promise<void> {
+        if (this.frozen) return;
+        await queueSnapshotRepository.delete(guildId);
+    }
+
+    async get(guildId: string): Promise<QueueSnapshot | null> {
+        return queueSnapshotRepository.get(guildId);
+    }
+
+    /**
+     * Snapshots worth offering to resume; expired ones are deleted
+     */
+    async getPending(): Promise<QueueSnapshot[]> {
+        const expired = await queueSnapshotRepository.deleteOlderThan(snapshotConfig.resumeMaxAge);
+        if (expired > 0) {
+            logger.info('MusicQueueSnapshot', `Dropped ${expired} expired queue snapshot(s)`);
+        }
+        return queueSnapshotRepository.getRecent(snapshotConfig.resumeMaxAge);
+    }
+
+    toSnapshotTrack(track: MusicTrack): SnapshotTrack | null {
+        const encoded = track.track?.encoded || track.encoded;
+        if (!encoded) return null;
+
+        return {
+            url: track.url || track.info?.uri || '',
+            title: track.title || track.info?.title || 'Unknown',
+            author: track.author || track.info?.author || null,
+            lengthSeconds: track.lengthSeconds || Math.floor((track.info?.length || 0) / 1000),
+            thumbnail: track.thumbnail || null,
+            source: track.source || null,
+            encoded,
+            requesterId: track.requestedBy?.id || null,
+            requesterName: track.requestedBy?.displayName || track.requestedBy?.username || null
+        };
+    }
+
+    toTrack(saved: SnapshotTrack): MusicTrack {
+        return {
+            track: { encoded: saved.encoded },
+            encoded: saved.encoded,
+            title: saved.title,
+            url: saved.url,
+            lengthSeconds: saved.lengthSeconds,
+            author: saved.author || undefined,
+            thumbnail: saved.thumbnail,
+            source: saved.source || undefined,
+            requestedBy: saved.requesterId
+                ? { id: saved.requesterId, username: saved.requesterName || undefined, displayName: saved.requesterName || undefined }
+                : null
+        };
+    }
+}
@@ -0,0 +1,112 @@
+/**
+ * Music Facade — Radio Service
+ * Per-guild internet radio presets for /music radio. Guilds start with the curated list
+ * from config; the first edit stores the guild's own copy in
+ * guild_settings.settings.music_radio.
+ * @module services/music/musicRadioService
+ */
+
+import lavalinkService from './lavalinkService.js';
+import GuildSettingsService from '../../guild/guildSettingsService.js';
+import { checkStreamUrl } from '../../../middleware/urlValidator.js';
+import { Result } from '../../../core/errors/Result.js';
+import { ErrorCodes } from '../../../core/errors/ErrorCodes.js';
+import { radio as radioConfig } from '../../../config/features/music.js';
+import type { RadioStation } from '../../../types/music/radio.js';
+import type { Track } from '../../../types/music/track.js';
+
+const SETTINGS_KEY = 'music_radio';
+
+function sameName(a: string, b: string): boolean {
+    return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+export class MusicRadioService {
+    /**
+     * The guild's stations, or the curated defaults if it never edited them
+     */
+    async getStations(guildId: string): Promise<RadioStation[]> {
+        const stored = await GuildSettingsService.getSetting<RadioStation[] | null>(guildId, SETTINGS_KEY, null);
+        return Array.isArray(stored) ? stored : radioConfig.defaultStations.map(station => ({ ...station }));
+    }
+
+    async findStation(guildId: string, name: string): Promise<RadioStation | null> {
+        const stations = await this.getStations(guildId);
+        return stations.find(station => sameName(station.name, name)) ?? null;
+    }
+
+    /**
+     * Look the station's stream up, labelled with the preset's name instead of the stream's own metadata
+     */
+    async resolve(station: RadioStation, requester: Track['requestedBy']): Promise<Result<Track>> {
+        const urlCheck = checkStreamUrl(station.url);
+        if (!urlCheck.valid) {
+            return Result.err(ErrorCodes.INVALID_INPUT, urlCheck.error!);
+        }
+
+        try {
+            const result = await lavalinkService.search(station.url, requester);
+            return Result.ok({
+                ...(result as unknown as Track),
+                title: station.name,
+                author: station.genre || result.author || 'Internet radio',
+                requestedBy: requester
+            });
+        } catch {
+            return Result.err(ErrorCodes.NO_RESULTS, `**${station.name}** is not reachable right now. Please try again later.`);
+        }
+    }
+
+    /**
+     * Add a station, or replace the link and genre of the one with the same name
+     */
+    async addStation(guildId: string, name: string, url: string, genre: string | null = null): Promise<Result<RadioStation>> {
+        const trimmed = name.trim();
+        if (!trimmed || trimmed.length > radioConfig.maxNameLength) {
+            return Result.err(ErrorCodes.INVALID_INPUT, `Station names must be 1-${radioConfig.maxNameLength} characters.`);
+        }
+
+        const urlCheck = checkStreamUrl(url.trim());
+        if (!urlCheck.valid) {
+            return Result.err(ErrorCodes.INVALID_INPUT, urlCheck.error!);
+        }
+
+        const stations = await this.getStations(guildId);
+        const station: RadioStation = { name: trimmed, url: url.trim(), genre: genre?.trim() || null };
+        const index = stations.findIndex(existing => sameName(existing.name, trimmed));
+
+        if (index >= 0) {
+            stations[index] = station;
+        } else if (stations.length >= radioConfig.maxStations) {
+            return Result.err(ErrorCodes.INVALID_INPUT, `This server already has ${radioConfig.maxStations} stations. Remove one first.`);
+        } else {
+            stations.push(station);
+        }
+
+        if (!await GuildSettingsService.updateSetting(guildId, SETTINGS_KEY, stations)) {
+            return Result.err(ErrorCodes.DB_ERROR, 'Could not save the station.');
+        }
+        return Result.ok(station);
+    }
+
+    async removeStation(guildId: string, name: string): Promise<Result<RadioStation>> {
+        const stations = await this.getStations(guildId);
+        const index = stations.findIndex(station => sameName(station.name, name));
+        if (index < 0) {
+            return Result.err(ErrorCodes.INVALID_INPUT, `There is no station called **${name}**.`);
+        }
+
+        const [removed] = stations.splice(index, 1);
+        if (!await GuildSettingsService.updateSetting(guildId, SETTINGS_KEY, stations)) {
+            return Result.err(ErrorCodes.DB_ERROR, 'Could not save the station list.');
+        }
+        return Result.ok(removed!);
+    }
+
+    /**
+     * Go back to the curated defaults
+     */
+    async resetStations(guildId: string): Promise<boolean> {
+        return GuildSettingsService.updateSetting(guildId, SETTINGS_KEY, null);
+    }
+}
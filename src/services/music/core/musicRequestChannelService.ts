@@ -0,0 +1,163 @@
+/**
+ * Music Facade — Song Request Channel Service
+ * A text channel where every plain message is queued as a song request and then deleted.
+ * The channel holds one pinned control panel (queue, now playing and the usual buttons)
+ * that is edited as the session changes and re-created if it goes missing.
+ * The channel lives in guild_settings.music_channel, the panel message id in
+ * guild_settings.settings.music_request_panel.
+ * @module services/music/musicRequestChannelService
+ */
+
+import type { Guild, Message } from 'discord.js';
+import GuildSettingsService from '../../guild/guildSettingsService.js';
+import db from '../../../database/postgres.js';
+import { createQueueListEmbed, createRequestPanelIdleEmbed } from '../../../handlers/music/trackEmbeds.js';
+import { queueService } from '../queue/index.js';
+import { requestChannel as requestChannelConfig } from '../../../config/features/music.js';
+import logger from '../../../core/observability/Logger.js';
+import type { MusicNowPlayingManager } from './musicNowPlayingManager.js';
+import type { RequestChannelState } from '../../../types/music/request-channel.js';
+import type { Track } from '../../../types/music/track.js';
+import type { LoopMode } from '../../../types/music/playback.js';
+
+const PANEL_KEY = 'music_request_panel';
+
+export class MusicRequestChannelService {
+    /** Known request channels; null caches "this guild has none" */
+    private readonly channels = new Map<string, RequestChannelState | null>();
+    private readonly updateTimers = new Map<string, NodeJS.Timeout>();
+
+    constructor(private readonly nowPlayingManager: MusicNowPlayingManager) {}
+
+    /**
+     * Request channel of a guild, loaded once and then answered from memory
+     */
+    async getChannel(guildId: string): Promise<RequestChannelState | null> {
+        const known = this.channels.get(guildId);
+        if (known !== undefined) return known;
+
+        const settings = await GuildSettingsService.getGuildSettings(guildId);
+        const state = settings.music_channel
+            ? { guildId, channelId: settings.music_channel, panelMessageId: (settings.settings?.[PANEL_KEY] as string | undefined) || null }
+            : null;
+        this.channels.set(guildId, state);
+        return state;
+    }
+
+    /**
+     * Set or clear the request channel. The old panel is deleted; the caller renders the new one.
+     */
+    async setChannel(guild: Guild, channelId: string | null): Promise<boolean> {
+        const previous = await this.getChannel(guild.id);
+
+        const saved = await GuildSettingsService.setMusicChannel(guild.id, channelId)
+            && await GuildSettingsService.updateSetting(guild.id, PANEL_KEY, null);
+        if (!saved) return false;
+
+        if (previous?.panelMessageId) {
+            const old = await this._fetchPanel(guild, previous);
+            await old?.delete().catch(() => {});
+        }
+
+        this.channels.set(guild.id, channelId ? { guildId: guild.id, channelId, panelMessageId: null } : null);
+        return true;
+    }
+
+    /**
+     * Load every configured request channel, for rebuilding the panels after a restart
+     */
+    async loadAll(): Promise<RequestChannelState[]> {
+        try {
+            const rows = await db.getMany<{ guild_id: string; channel_id: string; panel_message_id: string | null }>(
+                `SELECT guild_id, music_channel AS channel_id, settings->>'${PANEL_KEY}' AS panel_message_id
+                 FROM guild_settings
+                 WHERE music_channel IS NOT NULL`
+            );
+
+            return rows.map(row => {
+                const state = { guildId: row.guild_id, channelId: row.channel_id, panelMessageId: row.panel_message_id };
+                this.channels.set(row.guild_id, state);
+                return state;
+            });
+        } catch (error) {
+            logger.error('MusicRequestChannel', `Failed to load request channels: ${(error as Error).message}`);
+            return [];
+        }
+    }
+
+    /**
+     * Redraw the panel shortly, folding bursts of queue changes into one edit
+     */
+    scheduleUpdate(guild: Guild): void {
+        const state = this.channels.get(guild.id);
+        if (!state || this.updateTimers.has(guild.id)) return;
+
+        const timer = setTimeout(() => {
+            this.updateTimers.delete(guild.id);
+            this.renderPanel(guild).catch((error: Error) => {
+                logger.warn('MusicRequestChannel', `Panel update failed in guild ${guild.id}: ${error.message}`);
+            });
+        }, requestChannelConfig.panelUpdateDelay);
+        timer.unref?.();
+        this.updateTimers.set(guild.id, timer);
+    }
+
+    /**
+     * Edit the panel to match the current session, sending and pinning a new one when it's gone
+     */
+    async renderPanel(guild: Guild): Promise<void> {
+        const state = await this.getChannel(guild.id);
+        if (!state) return;
+
+        const channel = guild.channels.cache.get(state.channelId);
+        if (!channel?.isTextBased() || !('send' in channel)) {
+            logger.warn('MusicRequestChannel', `Request channel ${state.channelId} is gone in guild ${guild.id}`);
+            return;
+        }
+
+        const payload = this.buildPanel(guild);
+        const panel = await this._fetchPanel(guild, state);
+        if (panel) {
+            await panel.edit(payload);
+            return;
+        }
+
+        const message = await channel.send(payload);
+        await message.pin().catch(() => {});
+        state.panelMessageId = message.id;
+        await GuildSettingsService.updateSetting(guild.id, PANEL_KEY, message.id);
+    }
+
+    /**
+     * Up next + now playing with controls while a track plays, a how-to otherwise
+     */
+    buildPanel(guild: Guild) {
+        const nowPlaying = this.nowPlayingManager.buildNowPlayingPayload(guild.id, guild);
+        if (!nowPlaying) {
+            return { embeds: [createRequestPanelIdleEmbed()], components: [] };
+        }
+
+        const upNext = queueService.getTracks(guild.id) as Track[];
+        const embeds = upNext.length > 0
+            ? [createQueueListEmbed(upNext, null, {
+                loopMode: queueService.getLoopMode(guild.id) as LoopMode,
+                isShuffled: queueService.isShuffled(guild.id),
+                volume: queueService.getVolume(guild.id)
+            }), ...nowPlaying.embeds]
+            : nowPlaying.embeds;
+
+        return { embeds, components: nowPlaying.components };
+    }
+
+    stopAll(): void {
+        for (const timer of this.updateTimers.values()) clearTimeout(timer);
+        this.updateTimers.clear();
+    }
+
+    private async _fetchPanel(guild: Guild, state: RequestChannelState): Promise<Message | null> {
+        if (!state.panelMessageId) return null;
+        const channel = guild.channels.cache.get(state.channelId);
+        if (!channel?.isTextBased()) return null;
+        return channel.messages.fetch(state.panelMessageId).catch(() => null);
+    }
+}
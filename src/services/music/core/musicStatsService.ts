@@ -0,0 +1,192 @@
+/**
+ * Music Facade — Stats Service
+ * Records every play in a guild and builds listening statistics for the guild or one of
+ * its members over a period. Also posts a monthly summary to the channel
+ * configured in guild_settings.settings.music_stats_report.
+ * @module services/music/musicStatsService
+ */
+
+import musicStatsRepository from '../../../repositories/music/musicStatsRepository.js';
+import GuildSettingsService from '../../guild/guildSettingsService.js';
+import db from '../../../database/postgres.js';
+import { Result } from '../../../core/errors/Result.js';
+import { ErrorCodes } from '../../../core/errors/ErrorCodes.js';
+import { stats as statsConfig } from '../../../config/features/music.js';
+import logger from '../../../core/observability/Logger.js';
+import type { Track } from '../../../types/music/track.js';
+import type {
+    MusicStatsFilter,
+    MusicStatsPeriod,
+    MusicStatsReport,
+    MusicStatsReportSettings
+} from '../../../types/music/stats.js';
+
+const SETTINGS_KEY = 'music_stats_report';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const PERIODS: Record<MusicStatsPeriod, { label: string; days: number | null }> = {
+    week: { label: 'Last 7 days', days: 7 },
+    month: { label: 'Last 30 days', days: 30 },
+    year: { label: 'Last 12 months', days: 365 },
+    all: { label: 'All time', days: null }
+};
+
+const NO_REPORTS: MusicStatsReportSettings = { channelId: null, lastReport: null };
+
+/** Posts a finished report; resolves false when it could not be delivered */
+export type MonthlyReportSender = (guildId: string, channelId: string, report: MusicStatsReport) => Promise<boolean>;
+
+export class MusicStatsService {
+    private reportTimer: NodeJS.Timeout | null = null;
+
+    /**
+     * Record that a track started playing
+     * @param listenerIds - Members in the voice channel at the time
+     */
+    async recordPlay(guildId: string, track: Track, listenerIds: string[]): Promise<void> {
+        if (!track.url) return;
+
+        await musicStatsRepository.recordPlay({
+            guildId,
+            url: track.url,
+            title: track.title || 'Unknown',
+            author: track.author || null,
+            duration: track.lengthSeconds || null,
+            requestedBy: track.requestedBy?.id || null,
+            listenerIds
+        });
+    }
+
+    /**
+     * Stats for the guild (or one member of it) over a rolling period
+     */
+    async getReport(guildId: string, period: MusicStatsPeriod, userId: string | null = null, now: Date = new Date()): Promise<Result<MusicStatsReport>> {
+        const { label, days } = PERIODS[period] || PERIODS[statsConfig.defaultPeriod];
+        const filter: MusicStatsFilter = {
+            guildId,
+            userId,
+            since: days === null ? null : new Date(now.getTime() - days * DAY),
+            until: now
+        };
+        return this._buildReport(filter, label);
+    }
+
+    /**
+     * Stats for one calendar month (UTC)
+     * @param month - Any date inside the month
+     */
+    async getMonthReport(guildId: string, month: Date): Promise<Result<MusicStatsReport>> {
+        const since = new Date(Date.UTC(month.getUTCFullYear(), month.getUTCMonth(), 1));
+        const until = new Date(Date.UTC(month.getUTCFullYear(), month.getUTCMonth() + 1, 1));
+        const label = since.toLocaleString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+        return this._buildReport({ guildId, userId: null, since, until }, label);
+    }
+
+    // --- Monthly reports ---
+
+    async getReportSettings(guildId: string): Promise<MusicStatsReportSettings> {
+        const settings = await GuildSettingsService.getSetting<MusicStatsReportSettings>(guildId, SETTINGS_KEY, NO_REPORTS);
+        return { ...NO_REPORTS, ...settings };
+    }
+
+    /**
+     * Set (or clear) the channel monthly reports go to. The month that just ended counts
+     * as reported, so the first report is posted when the current month is over.
+     */
+    async setReportChannel(guildId: string, channelId: string | null, now: Date = new Date()): Promise<boolean> {
+        return GuildSettingsService.updateSetting(guildId, SETTINGS_KEY, {
+            channelId,
+            lastReport: this.monthKey(this._previousMonth(now))
+        } satisfies MusicStatsReportSettings);
+    }
+
+    /**
+     * Post last month's report in every guild that has a report channel and hasn't had it yet.
+     * Months without any plays are marked as done without posting.
+     * @returns Number of reports posted
+     */
+    async runMonthlyReports(send: MonthlyReportSender, now: Date = new Date()): Promise<number> {
+        const month = this._previousMonth(now);
+        const key = this.monthKey(month);
+        let posted = 0;
+
+        for (const { guildId, channelId, lastReport } of await this._getReportGuilds()) {
+            if (!channelId || lastReport === key) continue;
+
+            const report = await this.getMonthReport(guildId, month);
+            if (report.isErr()) continue;
+
+            if (report.data!.summary.plays > 0) {
+                const sent = await send(guildId, channelId, report.data!).catch((error: Error) => {
+                    logger.warn('MusicStats', `Monthly report failed in guild ${guildId}: ${error.message}`);
+                    return false;
+                });
+                if (!sent) continue;
+                posted++;
+            }
+
+            await GuildSettingsService.updateSetting(guildId, SETTINGS_KEY, { channelId, lastReport: key } satisfies MusicStatsReportSettings);
+        }
+
+        if (posted > 0) logger.info('MusicStats', `Posted ${posted} monthly report(s) for ${key}`);
+        return posted;
+    }
+
+    /**
+     * Periodically post monthly reports that are due
+     */
+    startMonthlyReports(send: MonthlyReportSender): void {
+        if (this.reportTimer) return;
+
+        const run = () => {
+            this.runMonthlyReports(send).catch((error: Error) => {
+                logger.error('MusicStats', `Monthly reports failed: ${error.message}`);
+            });
+        };
+        this.reportTimer = setInterval(run, statsConfig.reportCheckInterval);
+        this.reportTimer.unref?.();
+    }
+
+    stopMonthlyReports(): void {
+        if (this.reportTimer) {
+            clearInterval(this.reportTimer);
+            this.reportTimer = null;
+        }
+    }
+
+    /**
+     * YYYY-MM of the date, in UTC
+     */
+    monthKey(date: Date): string {
+        return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+    }
+
+    // --- Internals ---
+
+    private async _buildReport(filter: MusicStatsFilter, label: string): Promise<Result<MusicStatsReport>> {
+        const summary = await musicStatsRepository.getSummary(filter, statsConfig.topLimit);
+        if (!summary) {
+            return Result.err(ErrorCodes.DB_ERROR, 'Could not load listening stats right now.');
+        }
+        return Result.ok({ filter, label, summary });
+    }
+
+    private _previousMonth(now: Date): Date {
+        return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+    }
+
+    private async _getReportGuilds(): Promise<Array<MusicStatsReportSettings & { guildId: string }>> {
+        try {
+            const rows = await db.getMany<{ guild_id: string; state: MusicStatsReportSettings }>(
+                `SELECT guild_id, settings->'${SETTINGS_KEY}' AS state
+                 FROM guild_settings
+                 WHERE settings->'${SETTINGS_KEY}'->>'channelId' IS NOT NULL`
+            );
+            return rows.map(row => ({ ...NO_REPORTS, ...row.state, guildId: row.guild_id }));
+        } catch (error) {
+            logger.error('MusicStats', `Failed to load report channels: ${(error as Error).message}`);
+            return [];
+        }
+    }
+}
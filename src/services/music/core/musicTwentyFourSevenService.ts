@@ -0,0 +1,66 @@
+/**
+ * Music Facade — 24/7 Service
+ * Per-guild 24/7 mode: the bot stays in its channel, the idle/empty timers are suppressed
+ * and autoplay keeps the music going. Persisted in guild_settings.settings.music_247 and
+ * mirrored into the music cache so hot paths (timers, voice state updates) can check it synchronously.
+ * @module services/music/musicTwentyFourSevenService
+ */
+
+import GuildSettingsService from '../../guild/guildSettingsService.js';
+import musicCache from '../../../cache/music/MusicCacheFacade.js';
+import db from '../../../database/postgres.js';
+import logger from '../../../core/observability/Logger.js';
+import type { TwentyFourSevenState } from '../../../types/music/twenty-four-seven.js';
+
+const SETTINGS_KEY = 'music_247';
+
+const DISABLED: TwentyFourSevenState = { enabled: false, voiceChannelId: null, textChannelId: null };
+
+export class MusicTwentyFourSevenService {
+    isEnabled(guildId: string): boolean {
+        return musicCache.getGuildSettings(guildId).twentyFourSeven;
+    }
+
+    async getState(guildId: string): Promise<TwentyFourSevenState> {
+        const state = await GuildSettingsService.getSetting<TwentyFourSevenState>(guildId, SETTINGS_KEY, DISABLED);
+        musicCache.setGuildSettings(guildId, { twentyFourSeven: !!state.enabled });
+        return { ...DISABLED, ...state };
+    }
+
+    async enable(guildId: string, voiceChannelId: string, textChannelId: string | null): Promise<boolean> {
+        const saved = await GuildSettingsService.updateSetting(guildId, SETTINGS_KEY, {
+            enabled: true,
+            voiceChannelId,
+            textChannelId
+        } satisfies TwentyFourSevenState);
+        if (saved) musicCache.setGuildSettings(guildId, { twentyFourSeven: true });
+        return saved;
+    }
+
+    async disable(guildId: string): Promise<boolean> {
+        const saved = await GuildSettingsService.updateSetting(guildId, SETTINGS_KEY, DISABLED);
+        if (saved) musicCache.setGuildSettings(guildId, { twentyFourSeven: false });
+        return saved;
+    }
+
+    /**
+     * Load every guild with 24/7 on and warm the cache flag for each
+     */
+    async getEnabledGuilds(): Promise<Array<TwentyFourSevenState & { guildId: string }>> {
+        try {
+            const rows = await db.getMany<{ guild_id: string; state: TwentyFourSevenState }>(
+                `SELECT guild_id, settings->'${SETTINGS_KEY}' AS state
+                 FROM guild_settings
+                 WHERE settings->'${SETTINGS_KEY}'->>'enabled' = 'true'`
+            );
+
+            return rows.map(row => {
+                musicCache.setGuildSettings(row.guild_id, { twentyFourSeven: true });
+                return { ...DISABLED, ...row.state, guildId: row.guild_id };
+            });
+        } catch (error) {
+            logger.error('MusicTwentyFourSeven', `Failed to load 24/7 guilds: ${(error as Error).message}`);
+            return [];
+        }
+    }
+}
@@ -0,0 +1,137 @@
+/**
+ * Music Facade — Vote Manager
+ * Vote lifecycle for skip and the other vote-gated actions (stop, clear, shuffle, remove),
+ * plus each guild's vote rules. Votes live in musicCache; the rules in
+ * guild_settings.settings.music_votes.
+ * @module services/music/musicVoteManager
+ */
+
+import musicCache from '../../../cache/music/MusicCacheFacade.js';
+import GuildSettingsService from '../../guild/guildSettingsService.js';
+import { musicEventBus, MusicEvents } from '../events/index.js';
+import { Result } from '../../../core/errors/Result.js';
+import { ErrorCodes } from '../../../core/errors/ErrorCodes.js';
+import { voting as votingConfig } from '../../../config/features/music.js';
+import type { VoteSkipResult } from '../../../types/music/facade.js';
+import type { ActionVoteTarget, StoredVoteRules, VoteAction, VoteResult, VoteRule } from '../../../types/music/vote.js';
+import type { AddVoteResult, ActionVoteSession } from '../../../types/cache/music/vote-cache.js';
+
+const SETTINGS_KEY = 'music_votes';
+
+export class MusicVoteManager {
+    // SKIP VOTES
+    startSkipVote(guildId: string, userId: string, listenerCount: number, rule?: VoteRule): VoteSkipResult {
+        const required = rule ? this.requiredVotes(rule, listenerCount) : undefined;
+        const result = musicCache.startSkipVote(guildId, userId, listenerCount, required);
+        musicEventBus.emitEvent(MusicEvents.SKIPVOTE_START, { guildId, userId, listenerCount });
+        return result as VoteSkipResult;
+    }
+
+    addSkipVote(guildId: string, userId: string): VoteSkipResult | null {
+        const result = musicCache.addSkipVote(guildId, userId);
+        musicEventBus.emitEvent(MusicEvents.SKIPVOTE_ADD, { guildId, userId });
+        return result as VoteSkipResult | null;
+    }
+
+    endSkipVote(guildId: string): void {
+        musicCache.endSkipVote(guildId);
+    }
+
+    hasEnoughSkipVotes(guildId: string): boolean {
+        return musicCache.hasEnoughSkipVotes(guildId);
+    }
+
+    isSkipVoteActive(guildId: string): boolean {
+        return musicCache.hasActiveSkipVote(guildId);
+    }
+
+    // ACTION VOTES
+    /**
+     * Start a vote on an action under the guild's rule for it
+     */
+    async startVote(guildId: string, action: VoteAction, userId: string, listenerCount: number, target: ActionVoteTarget | null = null): Promise<VoteResult> {
+        const rule = await this.getRule(guildId, action);
+        const result = musicCache.startActionVote(
+            guildId, action, userId, listenerCount,
+            this.requiredVotes(rule, listenerCount),
+            rule.timeoutSeconds * 1000,
+            target
+        );
+        musicEventBus.emitEvent(MusicEvents.VOTE_START, { guildId, userId, action, listenerCount });
+        return result;
+    }
+
+    addVote(guildId: string, action: VoteAction, userId: string): AddVoteResult | null {
+        const result = musicCache.addActionVote(guildId, action, userId);
+        if (result?.added) {
+            musicEventBus.emitEvent(MusicEvents.VOTE_ADD, { guildId, userId, action });
+        }
+        return result;
+    }
+
+    endVote(guildId: string, action: VoteAction): void {
+        musicCache.endActionVote(guildId, action);
+    }
+
+    getVote(guildId: string, action: VoteAction): ActionVoteSession | null {
+        return musicCache.getActionVote(guildId, action);
+    }
+
+    hasEnoughVotes(guildId: string, action: VoteAction): boolean {
+        return musicCache.hasEnoughActionVotes(guildId, action);
+    }
+
+    // RULES
+    async getRules(guildId: string): Promise<Record<VoteAction, VoteRule>> {
+        const stored = await GuildSettingsService.getSetting<StoredVoteRules>(guildId, SETTINGS_KEY, {});
+        const rule = (action: VoteAction): VoteRule => ({ ...this.defaultRule(), ...stored[action] });
+
+        return {
+            skip: rule('skip'),
+            stop: rule('stop'),
+            clear: rule('clear'),
+            shuffle: rule('shuffle'),
+            remove: rule('remove')
+        };
+    }
+
+    async getRule(guildId: string, action: VoteAction): Promise<VoteRule> {
+        return (await this.getRules(guildId))[action];
+    }
+
+    /**
+     * @param thresholdPercent - Share of listeners that has to agree, in percent
+     */
+    async setRule(guildId: string, action: VoteAction, thresholdPercent: number, timeoutSeconds: number): Promise<Result<VoteRule>> {
+        const { thresholdPercent: percentRange, timeoutRange } = votingConfig;
+
+        if (!Number.isInteger(thresholdPercent) || thresholdPercent < percentRange.min || thresholdPercent > percentRange.max) {
+            return Result.err(ErrorCodes.INVALID_INPUT, `The vote threshold must be between ${percentRange.min}% and ${percentRange.max}%.`);
+        }
+        if (!Number.isInteger(timeoutSeconds) || timeoutSeconds < timeoutRange.min || timeoutSeconds > timeoutRange.max) {
+            return Result.err(ErrorCodes.INVALID_INPUT, `Votes must stay open between ${timeoutRange.min} and ${timeoutRange.max} seconds.`);
+        }
+
+        const rule: VoteRule = { threshold: thresholdPercent / 100, timeoutSeconds };
+        const stored = await GuildSettingsService.getSetting<StoredVoteRules>(guildId, SETTINGS_KEY, {});
+        if (!await GuildSettingsService.updateSetting(guildId, SETTINGS_KEY, { ...stored, [action]: rule })) {
+            return Result.err(ErrorCodes.DB_ERROR, 'Could not save the vote rule.');
+        }
+        return Result.ok(rule);
+    }
+
+    async resetRules(guildId: string): Promise<boolean> {
+        return GuildSettingsService.updateSetting(guildId, SETTINGS_KEY, {});
+    }
+
+    /**
+     * Votes needed out of the current listeners; never less than one
+     */
+    requiredVotes(rule: VoteRule, listenerCount: number): number {
+        return Math.max(1, Math.ceil(listenerCount * rule.threshold));
+    }
+
+    private defaultRule(): VoteRule {
+        return { threshold: votingConfig.votePercentage, timeoutSeconds: votingConfig.timeoutSeconds };
+    }
+}
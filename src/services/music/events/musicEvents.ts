@@ -40,6 +40,12 @@ export const MusicEvents = {
     
     /** Emitted when seek operation occurs */
     PLAYBACK_SEEK: 'playback:seek',
+    
+    /** Emitted when audio filters change */
+    FILTER_CHANGE: 'playback:filter',
+    
+    /** Emitted when a sleep timer runs out at the end of a track */
+    SLEEP_TIMER_END: 'playback:sleep',
     // QUEUE EVENTS
     /** Emitted when a track is added to queue */
     QUEUE_ADD: 'queue:add',
@@ -100,6 +106,12 @@ export const MusicEvents = {
     
     /** Emitted when skip vote fails/times out */
     SKIPVOTE_FAIL: 'skipvote:fail',
+    // ACTION VOTE EVENTS
+    /** Emitted when a vote on stop/clear/shuffle/remove starts */
+    VOTE_START: 'vote:start',
+    
+    /** Emitted when user votes on a music action */
+    VOTE_ADD: 'vote:add',
     // NOW PLAYING EVENTS
     /** Emitted to send now playing message */
     NOWPLAYING_SEND: 'nowplaying:send',
@@ -119,6 +131,9 @@ export const MusicEvents = {
     /** Emitted when cleanup completes for a guild */
     CLEANUP_COMPLETE: 'system:cleanupComplete',
     
+    /** Emitted when a Lavalink node becomes ready (startup or failover) */
+    LAVALINK_READY: 'system:lavalinkReady',
+    
     /** Emitted for debug/logging purposes */
     DEBUG: 'system:debug'
 } as const;
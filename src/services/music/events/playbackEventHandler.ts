@@ -13,6 +13,7 @@ import musicCache from '../../../cache/music/MusicCacheFacade.js';
 import type { MessageRef } from '../../../cache/music/QueueCache.js';
 import trackHandler, { type Track, type LoopMode } from '../../../handlers/music/trackHandler.js';
 import { TRACK_TRANSITION_DELAY } from '../../../config/features/music.js';
+import { describeFilters } from '../../../utils/music/index.js';
 import type {
     MessageComponents,
     ServiceReferences,
@@ -123,8 +124,9 @@ class PlaybackEventHandler {
     private async _handleTrackEnd(data: EventData): Promise<void> {
         const { guildId, reason } = data;
         
-        // Skip if replaced or stopped manually
-        if (reason === 'replaced' || reason === 'stopped') return;
+        // Skip if replaced or stopped manually; 'cleanup' is the old node's player
+        // being destroyed, e.g. when the player moves to another Lavalink node
+        if (reason === 'replaced' || reason === 'stopped' || reason === 'cleanup') return;
 
         const { playbackService, queueService } = this.services;
         if (!playbackService || !queueService) return;
@@ -140,8 +142,14 @@ class PlaybackEventHandler {
             const loopMode = queueService.getLoopMode(guildId);
             const currentTrack = queueService.getCurrentTrack(guildId);
 
-            // Handle track loop
-            if (loopMode === 'track' && currentTrack) {
+            // Sleep timer ran out - stop here instead of moving on
+            if (this._consumeSleepTimer(guildId)) {
+                await this._handleSleepTimerEnd(guildId, currentTrack);
+                return;
+            }
+
+            // Handle track loop (a live stream that dropped is not replayed)
+            if (loopMode === 'track' && currentTrack && !currentTrack.isStream) {
                 await this._playTrack(guildId, currentTrack);
                 const loopCount = musicCache.incrementLoopCount(guildId);
                 musicEventBus.emitNowPlayingUpdate(guildId, { loopCount });
@@ -181,6 +189,54 @@ class PlaybackEventHandler {
         }
     }
 
+    /**
+     * Count a finished track against the guild's sleep timer
+     * @returns true when playback should stop now
+     */
+    private _consumeSleepTimer(guildId: string): boolean {
+        const queue = musicCache.getQueue(guildId);
+        const timer = queue?.sleepTimer;
+        if (!queue || !timer) return false;
+
+        if (timer.tracksLeft !== null) timer.tracksLeft--;
+        const due = (timer.tracksLeft !== null && timer.tracksLeft <= 0)
+            || (timer.endsAt !== null && Date.now() >= timer.endsAt);
+
+        if (due) {
+            queue.sleepTimer = null;
+            if (queue.sleepTimerTimeout) clearTimeout(queue.sleepTimerTimeout);
+            queue.sleepTimerTimeout = null;
+        }
+        return due;
+    }
+
+    /**
+     * Stop playback because the sleep timer's clock ran out, even mid-track
+     */
+    async expireSleepTimer(guildId: string): Promise<void> {
+        const queue = musicCache.getQueue(guildId);
+        if (!queue?.sleepTimer) return;
+
+        queue.sleepTimer = null;
+        queue.sleepTimerTimeout = null;
+        await this._handleSleepTimerEnd(guildId, queue.currentTrack);
+    }
+
+    /**
+     * Announce the sleep timer and hand the stop over to the facade
+     */
+    private async _handleSleepTimerEnd(guildId: string, lastTrack: MusicTrack | null): Promise<void> {
+        logger.info('PlaybackEventHandler', `Sleep timer ended in guild ${guildId}`);
+        const queue = musicCache.getQueue(guildId);
+
+        if (queue?.textChannel && 'send' in queue.textChannel) {
+            const embed = trackHandler.createInfoEmbed('💤 Sleep Timer', 'Time is up. Stopped playback and left the channel.', 'info');
+            await queue.textChannel.send({ embeds: [embed] }).catch(() => {});
+        }
+
+        musicEventBus.emitEvent(MusicEvents.SLEEP_TIMER_END, { guildId, track: lastTrack });
+    }
+
     /**
      * Handle track error event
      */
@@ -257,8 +313,9 @@ class PlaybackEventHandler {
         const { guildId, lastTrack } = data;
         const queue = musicCache.getQueue(guildId);
 
-        // Try auto-play if enabled
-        if (queue?.autoPlay && lastTrack) {
+        // Try auto-play if enabled (24/7 mode always keeps the music going)
+        const keepPlaying = queue?.autoPlay || musicCache.getGuildSettings(guildId).twentyFourSeven;
+        if (queue && keepPlaying && lastTrack) {
             logger.info('PlaybackEventHandler', 'Queue ended, trying auto-play...');
 
             // Add seed track to history BEFORE searching to prevent re-picking
@@ -390,7 +447,8 @@ class PlaybackEventHandler {
                 loopCount: 0,
                 voteSkipCount: voteSkipStatus.count,
                 voteSkipRequired: voteSkipStatus.required,
-                listenerCount
+                listenerCount,
+                filters: describeFilters(musicCache.getFilters(guildId))
             });
 
             const rows = trackHandler.createControlButtons(guildId, {
@@ -443,7 +501,8 @@ class PlaybackEventHandler {
                 loopCount: loopCount || 0,
                 voteSkipCount: voteSkipStatus.count,
                 voteSkipRequired: voteSkipStatus.required,
-                listenerCount
+                listenerCount,
+                filters: describeFilters(musicCache.getFilters(guildId))
             });
 
             const rows = trackHandler.createControlButtons(guildId, {
@@ -21,9 +21,11 @@ export * from './autoplay/index.js';
 export { default as spotifyService } from './spotify/spotifyService.js';
 export * from './spotify/index.js';
 
+export * from './lyrics/index.js';
+
 export * from './core/musicNowPlayingManager.js';
 export * from './core/musicUserDataService.js';
-export * from './core/musicSkipVoteManager.js';
+export * from './core/musicVoteManager.js';
 
 export * from './events/index.js';
 
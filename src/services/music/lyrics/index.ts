@@ -0,0 +1,7 @@
+/**
+ * Lyrics Module Index
+ * @module services/music/lyrics
+ */
+
+export { default as lyricsService, LyricsService } from './lyricsService.js';
+export { LrclibProvider } from './lrclibProvider.js';
@@ -0,0 +1,86 @@
+/**
+ * LRCLIB Lyrics Provider
+ * Looks up synced (LRC) and plain lyrics from an LRCLIB-compatible API
+ * @module services/music/lyrics/lrclibProvider
+ */
+
+import { lyrics as lyricsConfig } from '../../../config/features/music.js';
+import { parseLrc } from '../../../utils/music/index.js';
+import type { LyricsProvider, LyricsQuery, LyricsResult, LrclibRecord } from '../../../types/music/lyrics.js';
+
+/** Max difference (seconds) between track and lyrics duration to accept a search hit */
+const DURATION_TOLERANCE = 5;
+
+export class LrclibProvider implements LyricsProvider {
+    readonly name = 'LRCLIB';
+
+    constructor(private readonly baseUrl: string = lyricsConfig.apiUrl) {}
+
+    async search(query: LyricsQuery): Promise<LyricsResult | null> {
+        // Exact lookup needs the artist; fall back to fuzzy search
+        if (query.artist) {
+            const params = new URLSearchParams({ track_name: query.title, artist_name: query.artist });
+            if (query.durationSeconds) params.set('duration', String(Math.round(query.durationSeconds)));
+
+            const exact = await this._request<LrclibRecord>(`/get?${params}`);
+            if (exact) return this._toResult(exact);
+        }
+
+        const q = [query.artist, query.title].filter(Boolean).join(' ');
+        const results = await this._request<LrclibRecord[]>(`/search?${new URLSearchParams({ q })}`);
+        if (!Array.isArray(results) || results.length === 0) return null;
+
+        const best = this._pickBest(results, query.durationSeconds);
+        return best ? this._toResult(best) : null;
+    }
+
+    /**
+     * Prefer synced lyrics with a matching duration, then any synced, then anything with text
+     */
+    private _pickBest(results: LrclibRecord[], durationSeconds?: number): LrclibRecord | null {
+        const withText = results.filter(r => r.syncedLyrics || r.plainLyrics || r.instrumental);
+        const durationMatches = (r: LrclibRecord) => !durationSeconds || !r.duration
+            || Math.abs(r.duration - durationSeconds) <= DURATION_TOLERANCE;
+
+        return withText.find(r => r.syncedLyrics && durationMatches(r))
+            || withText.find(r => durationMatches(r))
+            || withText.find(r => r.syncedLyrics)
+            || withText[0]
+            || null;
+    }
+
+    private _toResult(record: LrclibRecord): LyricsResult {
+        const synced = record.syncedLyrics ? parseLrc(record.syncedLyrics) : null;
+        return {
+            trackName: record.trackName,
+            artistName: record.artistName,
+            plain: record.plainLyrics || (synced ? synced.map(l => l.text).join('\n') : null),
+            synced: synced && synced.length > 0 ? synced : null,
+            instrumental: !!record.instrumental,
+            source: this.name
+        };
+    }
+
+    private async _request<T>(path: string): Promise<T | null> {
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), lyricsConfig.requestTimeout);
+
+        try {
+            const response = await fetch(`${this.baseUrl}${path}`, {
+                headers: {
+                    'User-Agent': 'FumoBOT Discord Bot',
+                    'Accept': 'application/json'
+                },
+                signal: controller.signal
+            });
+
+            if (response.status === 404) return null;
+            if (!response.ok) {
+                throw new Error(`LRCLIB API error: ${response.status}`);
+            }
+            return await response.json() as T;
+        } finally {
+            clearTimeout(timeoutId);
+        }
+    }
+}
@@ -0,0 +1,85 @@
+/**
+ * Lyrics Service
+ * Looks up lyrics for tracks through a swappable LyricsProvider (LRCLIB by default)
+ * @module services/music/lyrics/lyricsService
+ */
+
+import { circuitBreakerRegistry } from '../../../core/resilience/CircuitBreakerRegistry.js';
+import cacheService from '../../../cache/cacheService.js';
+import logger from '../../../core/observability/Logger.js';
+import { Result } from '../../../core/errors/Result.js';
+import { ErrorCodes } from '../../../core/errors/ErrorCodes.js';
+import { LrclibProvider } from './lrclibProvider.js';
+import type { Track } from '../../../types/music/track.js';
+import type { LyricsProvider, LyricsQuery, LyricsResult } from '../../../types/music/lyrics.js';
+
+/** Bracketed title noise such as "(Official Video)" or "[Lyrics]" */
+const TITLE_NOISE = /[([][^)\]]*(official|lyric|video|audio|visualizer|mv|m\/v|hd|4k|remaster|explicit)[^)\]]*[)\]]/gi;
+
+class LyricsService {
+    private readonly CACHE_NS = 'api:lyrics';
+    private provider: LyricsProvider;
+
+    constructor(provider: LyricsProvider = new LrclibProvider()) {
+        this.provider = provider;
+    }
+
+    /**
+     * Swap the lyrics backend (e.g. a fixture provider in tests)
+     */
+    setProvider(provider: LyricsProvider): void {
+        this.provider = provider;
+    }
+
+    getProviderName(): string {
+        return this.provider.name;
+    }
+
+    /**
+     * Build a provider query from a track, stripping YouTube-style title noise
+     * and splitting "Artist - Title" when the uploader is a channel rather than the artist
+     */
+    buildQuery(track: Pick<Track, 'title' | 'author' | 'lengthSeconds'>): LyricsQuery {
+        let title = track.title.replace(TITLE_NOISE, '').replace(/\s{2,}/g, ' ').trim();
+        let artist = track.author?.replace(/\s*-\s*Topic$/i, '').replace(/VEVO$/i, '').trim() || null;
+
+        const dash = title.match(/^(.+?)\s+[-–—]\s+(.+)$/);
+        if (dash) {
+            artist = dash[1].trim();
+            title = dash[2].trim();
+        }
+
+        return {
+            title: title.replace(/\s*(ft\.|feat\.).*$/i, '').trim() || track.title,
+            artist,
+            durationSeconds: track.lengthSeconds || undefined
+        };
+    }
+
+    async getLyrics(track: Pick<Track, 'title' | 'author' | 'lengthSeconds'>): Promise<Result<LyricsResult>> {
+        const query = this.buildQuery(track);
+        const cacheKey = `${this.provider.name}:${query.artist || ''}:${query.title}`.toLowerCase();
+
+        const cached = await cacheService.get<LyricsResult>(this.CACHE_NS, cacheKey);
+        if (cached) return Result.ok(cached);
+
+        try {
+            const result = await circuitBreakerRegistry.execute('externalApi', () => this.provider.search(query));
+            // Breaker fallbacks resolve with a status object instead of throwing
+            if (!result || !('trackName' in result)) {
+                return Result.err(ErrorCodes.NOT_FOUND, `No lyrics found for **${query.title}**.`);
+            }
+
+            await cacheService.set(this.CACHE_NS, cacheKey, result);
+            return Result.ok(result);
+        } catch (error) {
+            logger.warn('LyricsService', `${this.provider.name} lookup failed: ${(error as Error).message}`);
+            return Result.err(ErrorCodes.API_ERROR, 'Lyrics service is unavailable right now. Please try again later.');
+        }
+    }
+}
+
+// Export singleton instance
+const lyricsService = new LyricsService();
+export { LyricsService };
+export default lyricsService;
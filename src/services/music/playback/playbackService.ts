@@ -88,7 +88,7 @@ class PlaybackService {
             const loopMode = queueService.getLoopMode(guildId);
             const currentTrack = queueService.getCurrentTrack(guildId);
 
-            if (loopMode === 'track' && currentTrack) {
+            if (loopMode === 'track' && currentTrack && !currentTrack.isStream) {
                 const result = await this.playTrack(guildId, currentTrack);
                 if (result.isErr()) return result as unknown as Result<PlayNextResult>;
                 return Result.ok({ track: currentTrack, isLooped: true });
@@ -212,8 +212,13 @@ class PlaybackService {
                 return Result.err(ErrorCodes.NO_TRACK, 'No track is playing.');
             }
 
-            const duration = currentTrack.info?.length || currentTrack.track?.info?.length || 0;
-            const clampedPosition = Math.max(0, Math.min(position, duration));
+            const duration = currentTrack.info?.length
+                || currentTrack.track?.info?.length
+                || (currentTrack.lengthSeconds || 0) * 1000;
+            // Unknown duration (e.g. streams): only clamp the lower bound
+            const clampedPosition = duration > 0
+                ? Math.max(0, Math.min(position, duration))
+                : Math.max(0, position);
 
             await player.seekTo(clampedPosition);
             return Result.ok({ position: clampedPosition });
@@ -19,9 +19,10 @@ import type {
     SpotifyTrack,
     SpotifyArtist,
     SpotifyAlbum,
-    EmbedTrack
+    EmbedTrack,
+    SpotifyCollection
 } from '../../../types/music/spotify-service.js';
-export { type SpotifyToken, type SpotifyTrack, type SpotifyArtist, type SpotifyAlbum, type EmbedTrack };
+export { type SpotifyToken, type SpotifyTrack, type SpotifyArtist, type SpotifyAlbum, type EmbedTrack, type SpotifyCollection };
 
 // ── TYPES ────────────────────────────────────────────────────────────
 
@@ -152,6 +153,32 @@ class SpotifyService {
         }
     }
 
+    // ── ARTISTS ──────────────────────────────────────────────────────
+
+    /** Find the best matching artist by name */
+    async searchArtist(name: string): Promise<SpotifyArtist | null> {
+        try {
+            const data = await this.apiRequest<{ artists: { items: SpotifyArtist[] } }>('/search', {
+                q: name,
+                type: 'artist',
+                limit: '1',
+            });
+            return data.artists?.items?.[0] || null;
+        } catch {
+            return null;
+        }
+    }
+
+    /** Get artists Spotify considers related to the given artist */
+    async getRelatedArtists(artistId: string): Promise<SpotifyArtist[]> {
+        try {
+            const data = await this.apiRequest<{ artists: SpotifyArtist[] }>(`/artists/${artistId}/related-artists`);
+            return data.artists || [];
+        } catch {
+            return [];
+        }
+    }
+
     // ── PLAYLIST / ALBUM (EMBED SCRAPING) ────────────────────────────
 
     /** Get playlist tracks via embed scraping (no auth required) */
@@ -178,6 +205,81 @@ class SpotifyService {
         }
     }
 
+    /**
+     * Get a whole playlist or album, paging through the Web API so large playlists
+     * are not cut at 100 tracks. Falls back to embed scraping without credentials.
+     */
+    async getCollection(type: 'playlist' | 'album', id: string, limit: number): Promise<SpotifyCollection> {
+        if (!this.isConfigured()) {
+            const tracks = type === 'album' ? await this.getAlbumTracks(id, limit) : await this.getPlaylistTracks(id, limit);
+            return { name: null, tracks, total: tracks.length };
+        }
+
+        try {
+            return type === 'album'
+                ? await this._getAlbumPaged(id, limit)
+                : await this._getPlaylistPaged(id, limit);
+        } catch (error) {
+            logger.warn('Spotify', `Paged ${type} fetch failed, falling back to embed: ${(error as Error).message}`);
+            const tracks = type === 'album' ? await this.getAlbumTracks(id, limit) : await this.getPlaylistTracks(id, limit);
+            return { name: null, tracks, total: tracks.length };
+        }
+    }
+
+    private async _getPlaylistPaged(playlistId: string, limit: number): Promise<SpotifyCollection> {
+        const playlist = await this.apiRequest<{ name: string; tracks: { total: number } }>(`/playlists/${playlistId}`, {
+            fields: 'name,tracks.total',
+        });
+        const tracks: EmbedTrack[] = [];
+
+        for (let offset = 0; offset < Math.min(playlist.tracks.total, limit); offset += 100) {
+            const page = await this.apiRequest<{ items: Array<{ track: SpotifyTrack | null }> }>(`/playlists/${playlistId}/tracks`, {
+                offset: String(offset),
+                limit: '100',
+                fields: 'items(track(name,duration_ms,artists(name),album(images),external_ids))',
+            });
+
+            for (const { track } of page.items) {
+                if (!track?.name || tracks.length >= limit) continue;
+                tracks.push({
+                    title: track.name,
+                    artist: track.artists?.map(a => a.name).join(', ') || '',
+                    duration_ms: track.duration_ms || 0,
+                    artworkUrl: track.album?.images?.[0]?.url,
+                    isrc: track.external_ids?.isrc,
+                });
+            }
+        }
+
+        logger.info('Spotify', `Fetched ${tracks.length} tracks from playlist ${playlistId}`);
+        return { name: playlist.name, tracks, total: playlist.tracks.total };
+    }
+
+    private async _getAlbumPaged(albumId: string, limit: number): Promise<SpotifyCollection> {
+        const album = await this.apiRequest<SpotifyAlbum & { tracks: { total: number } }>(`/albums/${albumId}`);
+        const tracks: EmbedTrack[] = [];
+
+        for (let offset = 0; offset < Math.min(album.tracks.total, limit); offset += 50) {
+            const page = await this.apiRequest<{ items: Array<Omit<SpotifyTrack, 'album'>> }>(`/albums/${albumId}/tracks`, {
+                offset: String(offset),
+                limit: '50',
+            });
+
+            for (const track of page.items) {
+                if (!track?.name || tracks.length >= limit) continue;
+                tracks.push({
+                    title: track.name,
+                    artist: track.artists?.map(a => a.name).join(', ') || '',
+                    duration_ms: track.duration_ms || 0,
+                    artworkUrl: album.images?.[0]?.url,
+                });
+            }
+        }
+
+        logger.info('Spotify', `Fetched ${tracks.length} tracks from album ${albumId}`);
+        return { name: album.name, tracks, total: album.tracks.total };
+    }
+
     /**
      * Scrape Spotify embed page to get tracks (no auth required).
      * Works for both playlists and albums.
@@ -5,7 +5,7 @@
  * @module services/music/voice/voiceConnectionService
  */
 
-import { ChannelType, type ChatInputCommandInteraction, type Guild, type GuildMember, type VoiceBasedChannel } from 'discord.js';
+import { ChannelType, type ChatInputCommandInteraction, type Guild, type GuildMember, type TextBasedChannel, type VoiceBasedChannel } from 'discord.js';
 import lavalinkService from '../core/lavalinkService.js';
 import { queueService } from '../queue/index.js';
 import logger from '../../../core/observability/Logger.js';
@@ -13,6 +13,7 @@ import { Result } from '../../../core/errors/Result.js';
 import { ErrorCodes } from '../../../core/errors/ErrorCodes.js';
 import { INACTIVITY_TIMEOUT, VC_CHECK_INTERVAL } from '../../../config/features/music.js';
 import cacheService from '../../../cache/cacheService.js';
+import musicCache from '../../../cache/music/MusicCacheFacade.js';
 import type { PlayerLike } from '../../../types/music/infrastructure.js';
 import type { PlayerEventHandlers } from '../../../types/music/events.js';
 import type { EventBusLike, EventsModule, ConnectionState } from '../../../types/music/voice.js';
@@ -77,13 +78,26 @@ class VoiceConnectionService {
      * Connect to voice channel
      */
     async connect(interaction: ChatInputCommandInteraction): Promise<Result<{ player: unknown; voiceChannelId: string; textChannelId: string }>> {
-        try {
-            const guildId = interaction.guild!.id;
-            const voiceChannel = (interaction.member as GuildMember).voice?.channel;
+        const voiceChannel = (interaction.member as GuildMember).voice?.channel;
 
-            if (!voiceChannel) {
-                return Result.err(ErrorCodes.VOICE_REQUIRED, 'You must be in a voice channel.');
-            }
+        if (!voiceChannel) {
+            return Result.err(ErrorCodes.VOICE_REQUIRED, 'You must be in a voice channel.');
+        }
+
+        return this.connectToChannel(interaction.guild!, voiceChannel.id, interaction.channel);
+    }
+
+    /**
+     * Connect to a voice channel without a triggering interaction (e.g. 24/7 rejoin)
+     */
+    async connectToChannel(
+        guild: Guild,
+        voiceChannelId: string,
+        textChannel: TextBasedChannel | null
+    ): Promise<Result<{ player: unknown; voiceChannelId: string; textChannelId: string }>> {
+        try {
+            const guildId = guild.id;
+            const textChannelId = textChannel?.id || '';
 
             let player = lavalinkService.getPlayer(guildId);
 
@@ -95,8 +109,8 @@ class VoiceConnectionService {
                     try {
                         player = await lavalinkService.createPlayer(
                             guildId,
-                            voiceChannel.id,
-                            interaction.channel!.id
+                            voiceChannelId,
+                            textChannelId
                         );
                         break;
                     } catch (error) {
@@ -121,26 +135,28 @@ class VoiceConnectionService {
                 }
             }
 
-            await this.ensureAudibleVoiceState(interaction.guild!, voiceChannel.id);
+            await this.ensureAudibleVoiceState(guild, voiceChannelId);
 
             // Update queue with channel info
             const queue = queueService.getOrCreate(guildId);
-            queue.voiceChannelId = voiceChannel.id;
-            queue.textChannelId = interaction.channel!.id;
-            queue.textChannel = interaction.channel;
+            queue.voiceChannelId = voiceChannelId;
+            if (textChannel) {
+                queue.textChannelId = textChannel.id;
+                queue.textChannel = textChannel;
+            }
 
             // Emit event
             const { musicEventBus, MusicEvents } = getEventBus();
             musicEventBus.emitEvent(MusicEvents.VOICE_CONNECT, {
                 guildId,
-                voiceChannelId: voiceChannel.id,
-                textChannelId: interaction.channel!.id
+                voiceChannelId,
+                textChannelId
             });
 
             return Result.ok({ 
                 player, 
-                voiceChannelId: voiceChannel.id,
-                textChannelId: interaction.channel!.id 
+                voiceChannelId,
+                textChannelId
             });
         } catch (error) {
             const err = error as Error;
@@ -345,6 +361,9 @@ class VoiceConnectionService {
     async setInactivityTimer(guildId: string, callback?: () => void, timeout: number = INACTIVITY_TIMEOUT): Promise<void> {
         await this.clearInactivityTimer(guildId);
 
+        // 24/7 mode never leaves on its own
+        if (musicCache.getGuildSettings(guildId).twentyFourSeven) return;
+
         // Store deadline in Redis (shard-safe)
         await cacheService.setInactivityDeadline(guildId, timeout);
 
@@ -379,6 +398,9 @@ class VoiceConnectionService {
      * Uses Redis flag for coordination, local interval for execution
      */
     async startVCMonitor(guildId: string, guild: Guild, onEmpty?: () => void): Promise<void> {
+        // 24/7 mode stays in the channel even when it empties
+        if (musicCache.getGuildSettings(guildId).twentyFourSeven) return;
+
         // Check if already monitoring (either locally or another shard)
         if (this.localVCMonitorIntervals.has(guildId)) return;
         const isActive = await cacheService.isVCMonitorActive(guildId);
@@ -28,7 +28,13 @@ class EventRegistry {
      * Load events from events directory
      */
     private async _loadPresentationEvents(): Promise<void> {
-        const eventFiles = ['ready', 'messageCreate', 'messageUpdate', 'guildCreate', 'guildDelete', 'guildMemberAdd', 'guildMemberRemove', 'voiceStateUpdate'];
+        const eventFiles = [
+            'ready', 'messageCreate', 'messageUpdate', 'guildCreate', 'guildDelete',
+            'guildMemberAdd', 'guildMemberRemove', 'guildMemberUpdate',
+            'channelCreate', 'channelDelete', 'channelUpdate',
+            'roleCreate', 'roleDelete', 'roleUpdate',
+            'userUpdate', 'voiceStateUpdate'
+        ];
 
         for (const eventFile of eventFiles) {
             try {
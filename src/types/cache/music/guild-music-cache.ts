@@ -3,7 +3,6 @@ export interface GuildMusicSettings {
     autoPlay: boolean;
     announceNowPlaying: boolean;
     twentyFourSeven: boolean;
-    djRole: string | null;
     textChannelLock: string | null;
     maxQueueSize: number;
     voteSkipEnabled: boolean;
@@ -41,6 +40,7 @@ export interface GuildMusicCacheStats {
     guildSettings: number;
     recentlyPlayed: number;
     djLocks: number;
+    filters: number;
     playlistCache: number;
     maxGuilds: number;
 }
@@ -1,5 +1,5 @@
 import type { MessageRef, MusicTrack } from '../../../cache/music/QueueCache.js';
-import type { VoteResult, VoteSkipStatus } from '../../music/vote.js';
+import type { VoteResult, VoteSkipStatus, VoteAction, ActionVoteTarget } from '../../music/vote.js';
 
 export interface SkipVoteSession {
     votes: Set<string>;
@@ -22,6 +22,23 @@ export interface PriorityVoteSession {
     message: MessageRef | null;
 }
 
+/**
+ * Vote on a music action other than skip (stop, clear, shuffle, remove)
+ */
+export interface ActionVoteSession {
+    guildId: string;
+    action: VoteAction;
+    votes: Set<string>;
+    listenerCount: number;
+    required: number;
+    startedAt: number;
+    startedBy: string;
+    expiresAt: number;
+    target: ActionVoteTarget | null;
+    timeout: NodeJS.Timeout | null;
+    message: MessageRef | null;
+}
+
 export interface AddVoteResult {
     added: boolean;
     voteCount: number;
@@ -38,6 +55,7 @@ export interface PriorityVoteEndResult {
 export interface VoteCacheStats {
     activeSkipVotes: number;
     activePriorityVotes: number;
+    activeActionVotes: number;
 }
 
 export type { VoteResult, VoteSkipStatus };
@@ -1,4 +1,4 @@
-import type { ButtonInteraction, ChatInputCommandInteraction } from 'discord.js';
+import type { ButtonInteraction, ChatInputCommandInteraction, StringSelectMenuInteraction } from 'discord.js';
 
 export type MusicHandler = (interaction: ChatInputCommandInteraction, guildId: string, userId: string) => Promise<void>;
 
@@ -6,6 +6,9 @@ export interface MusicHandlers {
     handlePlay?: MusicHandler;
     handleStop?: MusicHandler;
     handleSkip?: MusicHandler;
+    handlePrevious?: MusicHandler;
+    handleReplay?: MusicHandler;
+    handleSleep?: MusicHandler;
     handlePause?: MusicHandler;
     handleQueue?: MusicHandler;
     handleNowPlaying?: MusicHandler;
@@ -18,5 +21,12 @@ export interface MusicHandlers {
     handleSeek?: MusicHandler;
     handleRecent?: MusicHandler;
     handleAutoPlay?: MusicHandler;
+    handleTwentyFourSeven?: MusicHandler;
+    handlePlaylist?: MusicHandler;
+    handleRadio?: MusicHandler;
+    handleFilter?: MusicHandler;
+    handleLyrics?: MusicHandler;
+    handleStats?: MusicHandler;
     handleButton?: (interaction: ButtonInteraction) => Promise<void>;
+    handleSelectMenu?: (interaction: StringSelectMenuInteraction) => Promise<void>;
 }
\ No newline at end of file
@@ -33,6 +33,24 @@ export interface LinksConfig {
     mediaExtensions: string[];
 }
 
+export interface PhishingConfig {
+    enabled: boolean;
+    action: string;
+    /** Known scam/phishing domains; subdomains match too */
+    domains: string[];
+    /** Real domains of brands that scams imitate, never flagged */
+    protectedDomains: string[];
+    /** Words scam domains pair with a brand name, e.g. discord-nitro */
+    baitWords: string[];
+    lookalikeMaxDistance: number;
+    shorteners: string[];
+    maxRedirects: number;
+    expandTimeoutMs: number;
+    blockedExtensions: string[];
+    /** Harmless-looking extensions used to hide a second one, e.g. invoice.pdf.exe */
+    decoyExtensions: string[];
+}
+
 export interface InvitesConfig {
     enabled: boolean;
     action: string;
@@ -103,6 +121,7 @@ export interface AutomodConfig {
     spam: SpamConfig;
     duplicate: DuplicateConfig;
     links: LinksConfig;
+    phishing: PhishingConfig;
     invites: InvitesConfig;
     mentions: MentionsConfig;
     caps: CapsConfig;
@@ -130,6 +149,8 @@ export interface MuteConfig {
     defaultDurationMs: number;
     maxDurationMs: number;
     minDurationMs: number;
+    /** Upper limit for /mute role, which is not bound by Discord's timeout cap */
+    roleMaxDurationMs: number;
     presets: Record<string, number>;
     sendDM: boolean;
 }
@@ -142,9 +163,12 @@ export interface KickConfig {
 export interface BanConfig {
     defaultDeleteDays: number;
     maxDeleteDays: number;
+    minDurationMs: number;
+    maxDurationMs: number;
     sendDM: boolean;
     includeAppealInfo: boolean;
     appealMessage: string | null;
+    appealCooldownMs: number;
 }
 
 export interface SoftbanConfig {
@@ -195,6 +219,7 @@ export interface FilterSettings {
     normalizeUnicode: boolean;
     checkLeetspeak: boolean;
     stripZalgo: boolean;
+    collapseSeparators: boolean;
     minWordLength: number;
     logContent: boolean;
     logChannel: string | null;
@@ -210,6 +235,7 @@ export interface FilterWord {
     pattern: string;
     matchType: string;
     severity: number;
+    normalize?: boolean;
 }
 
 export interface FilterPreset {
@@ -262,6 +288,26 @@ export interface CacheConfig {
     recentJoinsTTL: number;
 }
 
+export interface SchedulerConfig {
+    pollIntervalMs: number;
+    batchSize: number;
+    maxAttempts: number;
+    retryDelayMs: number;
+    staleAfterMs: number;
+    maxLockDurationMs: number;
+}
+
+export interface NotesConfig {
+    maxLength: number;
+}
+
+export interface DossierConfig {
+    /** Cases or notes listed per page */
+    pageSize: number;
+    /** Most recent past usernames shown */
+    nameHistoryLimit: number;
+}
+
 export interface ModerationConfig {
     automod: AutomodConfig;
     punishments: PunishmentsConfig;
@@ -273,4 +319,7 @@ export interface ModerationConfig {
     permissions: Record<string, string[]>;
     rateLimits: Record<string, RateLimitConfig>;
     cache: CacheConfig;
+    scheduler: SchedulerConfig;
+    notes: NotesConfig;
+    dossier: DossierConfig;
 }
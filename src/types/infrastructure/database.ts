@@ -41,4 +41,7 @@ export interface QueuedResponse {
     table: string;
 }
 
-export type TransactionCallback<T> = (client: PoolClient) => Promise<T>;
+/** Connection handed to a transaction callback */
+export type TransactionClient = PoolClient;
+
+export type TransactionCallback<T> = (client: TransactionClient) => Promise<T>;
@@ -28,6 +28,13 @@ export interface AutoModSettings {
     invites_action?: AutoModActionType | string;
     invites_whitelist?: string[];
 
+    phishing_enabled?: boolean;
+    phishing_action?: AutoModActionType | string;
+    phishing_domains?: string[];
+    phishing_lookalike?: boolean;
+    phishing_expand_links?: boolean;
+    phishing_block_files?: boolean;
+
     mention_enabled?: boolean;
     mention_limit?: number;
     mention_action?: AutoModActionType | string;
@@ -0,0 +1,61 @@
+export type BanAppealStatus = 'pending' | 'info_requested' | 'accepted' | 'denied';
+
+/**
+ * Row of mod_ban_appeals
+ */
+export interface BanAppealRecord {
+    id: number;
+    guild_id: string;
+    user_id: string;
+    case_id: number;
+    statement: string;
+    status: BanAppealStatus;
+    info_request: string | null;
+    info_response: string | null;
+    reviewer_id: string | null;
+    review_note: string | null;
+    result_case_id: number | null;
+    staff_channel_id: string | null;
+    staff_message_id: string | null;
+    created_at: Date;
+    reviewed_at: Date | null;
+    [key: string]: unknown;
+}
+
+export interface BanAppeal {
+    id: number;
+    guildId: string;
+    userId: string;
+    /** The ban case being appealed */
+    caseId: number;
+    statement: string;
+    status: BanAppealStatus;
+    infoRequest: string | null;
+    infoResponse: string | null;
+    reviewerId: string | null;
+    reviewNote: string | null;
+    /** Unban case logged when the appeal was accepted */
+    resultCaseId: number | null;
+    staffChannelId: string | null;
+    staffMessageId: string | null;
+    createdAt: Date;
+    reviewedAt: Date | null;
+}
+
+export interface BanAppealCreateData {
+    guildId: string;
+    userId: string;
+    caseId: number;
+    statement: string;
+}
+
+/** Outcome staff can give an open appeal */
+export type BanAppealDecision = 'accepted' | 'denied';
+
+/**
+ * Per-guild appeal settings (guild_settings.settings.ban_appeals)
+ */
+export interface BanAppealSettings {
+    /** Staff channel appeals are posted to; appeals are off while unset */
+    channelId: string | null;
+}
@@ -0,0 +1,57 @@
+/**
+ * Case Revision Types
+ * @module types/moderation/case-revision
+ */
+
+import type { Infraction } from './infraction.js';
+
+/** What a revision changed on the case */
+export type CaseRevisionField = 'reason' | 'active' | 'voided';
+
+/**
+ * Row of mod_case_revisions
+ */
+export interface CaseRevisionRecord {
+    id: number;
+    guild_id: string;
+    case_id: number;
+    editor_id: string;
+    field: CaseRevisionField;
+    old_value: string | null;
+    new_value: string | null;
+    note: string | null;
+    created_at: Date;
+    [key: string]: unknown;
+}
+
+export interface CaseRevision {
+    id: number;
+    guildId: string;
+    caseId: number;
+    editorId: string;
+    field: CaseRevisionField;
+    /** Previous value; booleans are stored as 'true'/'false' */
+    oldValue: string | null;
+    newValue: string | null;
+    note: string | null;
+    createdAt: Date;
+}
+
+export interface CaseRevisionCreateData {
+    guildId: string;
+    caseId: number;
+    editorId: string;
+    field: CaseRevisionField;
+    oldValue: string | null;
+    newValue: string | null;
+    note?: string | null;
+}
+
+/**
+ * Outcome of revising a case
+ */
+export interface CaseRevisionResult {
+    infraction: Infraction;
+    /** False when the case already had the requested value; no revision is stored then */
+    changed: boolean;
+}
@@ -9,6 +9,7 @@ export interface WordFilter {
     match_type: FilterMatchType;
     action: FilterAction;
     severity: number;
+    normalize: boolean;
     created_by: string;
     created_at?: Date;
 }
@@ -19,6 +20,7 @@ export interface FilterAddData {
     matchType?: FilterMatchType;
     action?: FilterAction;
     severity?: number;
+    normalize?: boolean;
     createdBy: string;
 }
 
@@ -27,6 +29,7 @@ export interface FilterBulkItem {
     matchType?: FilterMatchType;
     action?: FilterAction;
     severity?: number;
+    normalize?: boolean;
 }
 
 export interface FilterUpdateData {
@@ -35,4 +38,5 @@ export interface FilterUpdateData {
     matchType?: FilterMatchType;
     action?: FilterAction;
     severity?: number;
+    normalize?: boolean;
 }
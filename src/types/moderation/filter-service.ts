@@ -5,14 +5,56 @@ export interface Filter {
     match_type: 'exact' | 'word' | 'contains' | 'regex';
     action: string;
     severity: number;
+    /** Match against the normalised forms as well as the raw text (default true) */
+    normalize?: boolean;
     created_by: string;
     created_at: Date;
 }
 
+/**
+ * The versions of a message a filter is matched against
+ * - raw: lowercased original
+ * - normalized: NFKC, invisible and combining marks removed, confusables and leetspeak folded
+ * - collapsed: normalized with spaced-out letters joined ("b a d" → "bad")
+ */
+export type NormalizedForm = 'raw' | 'normalized' | 'collapsed';
+
+export type NormalizedText = Record<NormalizedForm, string>;
+
+export interface CompiledFilter {
+    filter: Filter;
+    /** Matcher for the raw form, null when the pattern is rejected */
+    raw: RegExp | null;
+    /** Matcher for the normalised forms, null when normalisation is off for this filter */
+    normalized: RegExp | null;
+}
+
+export interface CompiledWord {
+    word: string;
+    /** Matcher for the raw form */
+    raw: RegExp | null;
+    /** Matcher for the normalised forms */
+    normalized: RegExp | null;
+}
+
 export interface FilterMatch {
     filter: Filter;
     matched: boolean;
     pattern: string;
     action: string;
     severity: number;
+    /** Which form of the message the filter matched */
+    form?: NormalizedForm;
+}
+
+export interface WordListMatch {
+    word: string;
+    form: NormalizedForm;
+}
+
+export interface FilterTestResult {
+    forms: NormalizedText;
+    matches: FilterMatch[];
+    /** Match from the automod panel's filtered words, if any */
+    wordMatch: WordListMatch | null;
 }
@@ -9,6 +9,8 @@ export type InfractionType =
     | 'automod'
     | 'filter'
     | 'note'
+    | 'role_remove'
+    | 'unlock'
     | string;
 
 export interface Infraction {
@@ -28,6 +30,9 @@ export interface Infraction {
     active: boolean;
     created_at: Date | string;
     metadata?: Record<string, unknown>;
+    /** Set when the case was voided; voided cases don't count towards totals */
+    voided_at?: Date | string | null;
+    voided_by?: string | null;
 }
 
 export interface InfractionCreateData {
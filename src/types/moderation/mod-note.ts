@@ -0,0 +1,39 @@
+/**
+ * Moderator Note Types
+ * @module types/moderation/mod-note
+ */
+
+/**
+ * Row of mod_notes
+ */
+export interface ModNoteRecord {
+    id: number;
+    guild_id: string;
+    user_id: string;
+    author_id: string;
+    content: string;
+    created_at: Date;
+    updated_at: Date | null;
+    updated_by: string | null;
+    [key: string]: unknown;
+}
+
+export interface ModNote {
+    id: number;
+    guildId: string;
+    /** Member the note is about */
+    userId: string;
+    authorId: string;
+    content: string;
+    createdAt: Date;
+    updatedAt: Date | null;
+    /** Last moderator to edit the note */
+    updatedBy: string | null;
+}
+
+export interface ModNoteCreateData {
+    guildId: string;
+    userId: string;
+    authorId: string;
+    content: string;
+}
@@ -16,6 +16,10 @@ export interface ModLogSettings {
     log_member_leaves: boolean;
     log_role_changes: boolean;
     log_nickname_changes: boolean;
+    log_timeouts: boolean;
+    log_channel_changes: boolean;
+    log_server_role_changes: boolean;
+    log_voice_activity: boolean;
     use_embeds: boolean;
     include_moderator: boolean;
     include_reason: boolean;
@@ -52,6 +56,14 @@ export interface ModLogUpdateData {
     logRoleChanges?: boolean;
     log_nickname_changes?: boolean;
     logNicknameChanges?: boolean;
+    log_timeouts?: boolean;
+    logTimeouts?: boolean;
+    log_channel_changes?: boolean;
+    logChannelChanges?: boolean;
+    log_server_role_changes?: boolean;
+    logServerRoleChanges?: boolean;
+    log_voice_activity?: boolean;
+    logVoiceActivity?: boolean;
     use_embeds?: boolean;
     useEmbeds?: boolean;
     include_moderator?: boolean;
@@ -74,4 +86,8 @@ export type ModLogType =
     | 'member_joins'
     | 'member_leaves'
     | 'role_changes'
-    | 'nickname_changes';
+    | 'nickname_changes'
+    | 'timeouts'
+    | 'channel_changes'
+    | 'server_role_changes'
+    | 'voice_activity';
@@ -0,0 +1,30 @@
+/**
+ * Phishing Detection Types
+ * @module types/moderation/phishing
+ */
+
+export type PhishingMatchKind =
+    | 'known_domain'
+    | 'guild_domain'
+    | 'lookalike'
+    | 'dangerous_file'
+    | 'double_extension'
+    | 'disguised_file';
+
+export interface PhishingMatch {
+    kind: PhishingMatchKind;
+    /** Hostname or file name that matched */
+    target: string;
+    /** Human readable reason, shown as the automod trigger */
+    reason: string;
+    /** Short link the target was reached from, when a redirect was followed */
+    via?: string;
+}
+
+export interface PhishingScanOptions {
+    /** Guild additions to the configured domain list */
+    extraDomains?: string[];
+    lookalike?: boolean;
+    expandLinks?: boolean;
+    blockFiles?: boolean;
+}
@@ -0,0 +1,55 @@
+export type ScheduledActionType = 'unban' | 'remove_role' | 'unlock_channel';
+
+export type ScheduledActionStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+/**
+ * Row of mod_scheduled_actions
+ */
+export interface ScheduledActionRecord {
+    id: number;
+    guild_id: string;
+    type: ScheduledActionType;
+    target_id: string;
+    role_id: string | null;
+    case_id: number | null;
+    reason: string | null;
+    created_by: string;
+    run_at: Date;
+    status: ScheduledActionStatus;
+    attempts: number;
+    last_error: string | null;
+    claimed_by: string | null;
+    claimed_at: Date | null;
+    completed_at: Date | null;
+    result_case_id: number | null;
+    created_at: Date;
+    [key: string]: unknown;
+}
+
+export interface ScheduledAction {
+    id: number;
+    guildId: string;
+    type: ScheduledActionType;
+    /** User ID for unban/remove_role, channel ID for unlock_channel */
+    targetId: string;
+    roleId: string | null;
+    /** Case that caused the action, e.g. the temporary ban */
+    caseId: number | null;
+    reason: string | null;
+    createdBy: string;
+    runAt: Date;
+    status: ScheduledActionStatus;
+    attempts: number;
+    lastError: string | null;
+}
+
+export interface ScheduleActionData {
+    guildId: string;
+    type: ScheduledActionType;
+    targetId: string;
+    roleId?: string | null;
+    caseId?: number | null;
+    reason?: string | null;
+    createdBy: string;
+    runAt: Date;
+}
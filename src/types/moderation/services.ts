@@ -1,5 +1,6 @@
 import type { EmbedBuilder, Guild, Snowflake, TextChannel, User } from 'discord.js';
 import type { Infraction } from './infraction.js';
+import type { CaseRevision, CaseRevisionResult } from './case-revision.js';
 import type { LockResult, LockStatus, ServerLockResult } from './lockdown.js';
 
 export interface EscalationResult {
@@ -22,6 +23,7 @@ export interface CreateInfractionOptions {
     reason: string;
     durationMs?: number;
     expiryDays?: number;
+    referenceId?: number;
     metadata?: Record<string, unknown>;
 }
 
@@ -52,7 +54,8 @@ export interface InfractionService {
         user: User,
         moderator: User,
         reason: string,
-        metadata?: Record<string, unknown>
+        metadata?: Record<string, unknown>,
+        durationMs?: number
     ) => Promise<Infraction>;
     getCase?: (guildId: string, caseId: number) => Promise<Infraction | null>;
     getUserHistory?: (
@@ -61,9 +64,13 @@ export interface InfractionService {
         options: { type?: string | null; activeOnly?: boolean; limit?: number }
     ) => Promise<Infraction[]>;
     getWarningCount?: (guildId: string, userId: string) => Promise<number>;
-    clearWarnings?: (guildId: string, userId: string) => Promise<number>;
-    deleteCase?: (guildId: string, caseId: number) => Promise<boolean>;
-    buildCaseEmbed?: (infraction: Infraction, user?: User | null) => EmbedBuilder;
+    clearWarnings?: (guildId: string, userId: string, editorId: string, note?: string | null) => Promise<number>;
+    deleteCase?: (guildId: string, caseId: number, editorId: string, note?: string | null) => Promise<boolean>;
+    editCase?: (guildId: string, caseId: number, editorId: string, newReason: string, note?: string | null) => Promise<CaseRevisionResult | null>;
+    voidCase?: (guildId: string, caseId: number, editorId: string, note?: string | null) => Promise<CaseRevisionResult | null>;
+    restoreCase?: (guildId: string, caseId: number, editorId: string, note?: string | null) => Promise<CaseRevisionResult | null>;
+    getCaseRevisions?: (guildId: string, caseId: number) => Promise<CaseRevision[]>;
+    buildCaseEmbed?: (infraction: Infraction, user?: User | null, revisions?: CaseRevision[]) => EmbedBuilder;
 }
 
 export interface SlowmodeResult {
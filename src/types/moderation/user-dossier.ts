@@ -0,0 +1,47 @@
+/**
+ * User Dossier Types
+ * Everything /modinfo shows about a member
+ * @module types/moderation/user-dossier
+ */
+
+import type { Infraction } from './infraction.js';
+import type { ModNote } from './mod-note.js';
+
+/**
+ * Row of user_name_history
+ */
+export interface NameHistoryRecord {
+    id: number;
+    user_id: string;
+    username: string;
+    global_name: string | null;
+    changed_at: Date;
+    [key: string]: unknown;
+}
+
+/** A name the user went by until changedAt */
+export interface NameHistoryEntry {
+    username: string;
+    globalName: string | null;
+    changedAt: Date;
+}
+
+export interface UserDossier {
+    guildId: string;
+    userId: string;
+    tag: string;
+    avatarUrl: string;
+    createdAt: Date;
+    /** Null when the user is not (or no longer) a member */
+    joinedAt: Date | null;
+    /** Case count per infraction type, including inactive cases */
+    infractionCounts: Record<string, number>;
+    infractions: Infraction[];
+    activeWarnings: number;
+    notes: ModNote[];
+    /** Automod warnings inside the current reset window */
+    recentAutomodWarnings: number;
+    /** Flagged by anti-raid as a suspicious join */
+    raidFlagged: boolean;
+    pastNames: NameHistoryEntry[];
+}
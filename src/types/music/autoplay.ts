@@ -1,2 +1,65 @@
-// AutoPlay types - kept minimal since the service is now simple
-// This file is intentionally empty; types are defined inline in AutoPlayService.
+/**
+ * Autoplay recommendation types
+ */
+
+/**
+ * How autoplay picks the next track:
+ * - similar: artists the seed co-occurs with in listeners' history and Spotify related artists
+ * - discovery: related artists the listeners have not played yet
+ * - artist: more from the seed's artist
+ * - favorites: only tracks from the listeners' favourites
+ */
+export type AutoPlayMode = 'similar' | 'discovery' | 'artist' | 'favorites';
+
+/**
+ * A history or favourite row, reduced to what the engine reads
+ */
+export interface ListeningEntry {
+    url: string;
+    title: string;
+    author?: string | null;
+    /** Seconds */
+    duration?: number | null;
+}
+
+/**
+ * Listening data for the people in the voice channel
+ */
+export interface AutoPlaySignals {
+    /** Normalized artist -> plays across the listeners' history */
+    historyArtists: Map<string, number>;
+    /** Normalized artist -> favourites across the listeners */
+    favoriteArtists: Map<string, number>;
+    /** Listeners' favourites, most recent first */
+    favorites: ListeningEntry[];
+    /** Normalized artist -> artist -> times played back to back */
+    artistGraph: Map<string, Map<string, number>>;
+    /** Normalized Spotify related artists of the seed */
+    relatedArtists: string[];
+}
+
+export interface AutoPlayContext {
+    mode: AutoPlayMode;
+    seedTitle: string;
+    /** Normalized seed artist */
+    seedArtist: string;
+    /** Seed duration in seconds, 0 when unknown */
+    seedDuration: number;
+    recentTitles: string[];
+    /** Normalized artists autoplay picked recently, oldest first */
+    recentArtists: string[];
+    signals: AutoPlaySignals;
+}
+
+export interface ScoredCandidate<T> {
+    track: T;
+    artist: string;
+    score: number;
+}
+
+export interface AutoPlayOptions {
+    /** Override the guild's mode */
+    mode?: AutoPlayMode;
+    /** Seed for the engine's randomness, for reproducible picks */
+    seed?: number;
+}
@@ -9,6 +9,8 @@ export type MusicEventName =
     | 'playback:stop'
     | 'playback:volume'
     | 'playback:seek'
+    | 'playback:filter'
+    | 'playback:sleep'
     | 'queue:add'
     | 'queue:addMany'
     | 'queue:remove'
@@ -29,6 +31,8 @@ export type MusicEventName =
     | 'skipvote:add'
     | 'skipvote:success'
     | 'skipvote:fail'
+    | 'vote:start'
+    | 'vote:add'
     | 'nowplaying:send'
     | 'nowplaying:update'
     | 'nowplaying:disable'
@@ -26,6 +26,7 @@ export interface MusicTrack {
         displayAvatarURL?: () => string | null;
     } | null;
     source?: string;
+    isStream?: boolean;
     viewCount?: number | null;
     identifier?: string;
     info?: TrackInfo;
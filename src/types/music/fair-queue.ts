@@ -0,0 +1,21 @@
+/**
+ * Per-guild fair queue settings, stored under `music_fair_queue` in guild_settings.settings.
+ * The limits apply whether or not fair ordering is on; null = no cap.
+ */
+export interface FairQueueSettings {
+    /** Interleave the queue by requester instead of first-come, first-served */
+    enabled: boolean;
+    /** Tracks one member may have waiting in the queue */
+    maxTracksPerUser: number | null;
+    /** Total length in seconds of one member's waiting tracks */
+    maxDurationPerUser: number | null;
+}
+
+/**
+ * How many of the tracks a member asked for still fit under their limits
+ */
+export interface RequesterLimitResult {
+    fits: number;
+    /** Why the rest doesn't fit; null when everything fits */
+    reason: string | null;
+}
@@ -0,0 +1,55 @@
+export type FilterPresetName = 'bassboost' | 'nightcore' | 'vaporwave' | '8d' | 'karaoke';
+
+export interface EqualizerBand {
+    band: number;
+    gain: number;
+}
+
+export interface TimescaleFilter {
+    speed?: number;
+    pitch?: number;
+    rate?: number;
+}
+
+export interface KaraokeFilter {
+    level?: number;
+    monoLevel?: number;
+    filterBand?: number;
+    filterWidth?: number;
+}
+
+export interface RotationFilter {
+    rotationHz?: number;
+}
+
+/**
+ * Filter payload sent to Lavalink (v4 player update)
+ */
+export interface LavalinkFilters {
+    equalizer?: EqualizerBand[];
+    timescale?: TimescaleFilter;
+    karaoke?: KaraokeFilter;
+    rotation?: RotationFilter;
+}
+
+export interface FilterPreset {
+    label: string;
+    emoji: string;
+    description: string;
+    equalizer?: number[];
+    timescale?: { speed: number; pitch: number };
+    karaoke?: KaraokeFilter;
+    rotation?: RotationFilter;
+}
+
+/**
+ * Active filters for a guild, as kept in GuildMusicCache.
+ * `equalizer` always holds 15 gains; applying a preset overwrites it
+ * and `timescale`, which can then be tweaked individually.
+ */
+export interface FilterState {
+    preset: FilterPresetName | null;
+    equalizer: number[];
+    timescale: { speed: number; pitch: number };
+    updatedAt: number;
+}
@@ -1,10 +1,16 @@
-import type { Guild } from 'discord.js';
+import type { ChatInputCommandInteraction, Guild } from 'discord.js';
 import type { Track } from './track.js';
 
 export type FavoritesSubcommand = 'list' | 'play' | 'remove' | 'clear';
 
 export type HistorySubcommand = 'list' | 'play' | 'clear';
 
+export type PlaylistSubcommand = 'create' | 'add' | 'addqueue' | 'remove' | 'rename' | 'delete' | 'list' | 'load' | 'share' | 'view';
+
+export type RadioSubcommand = 'play' | 'list' | 'add' | 'remove' | 'reset';
+
+export type QueueSubcommand = 'view' | 'export' | 'import';
+
 export interface PendingLongTrack {
     trackData: Track;
     guildId: string;
@@ -14,6 +20,15 @@ export interface PendingLongTrack {
     expiresAt: number;
 }
 
+export interface PendingSearchPick {
+    /** The /music play interaction; its reply holds the picker */
+    interaction: ChatInputCommandInteraction;
+    tracks: Track[];
+    guildId: string;
+    userId: string;
+    expiresAt: number;
+}
+
 export interface PlaylistData {
     name: string;
     tracks: Track[];
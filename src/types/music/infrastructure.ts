@@ -1,11 +1,14 @@
+import type { LavalinkFilters } from './filters.js';
+
 export interface PlayerLike {
     paused: boolean;
     position: number;
-    playTrack(options: { track: { encoded: string } }): Promise<void>;
+    playTrack(options: { track: { encoded: string }; position?: number }): Promise<void>;
     stopTrack(): Promise<void>;
     setPaused(paused: boolean): Promise<void>;
     seekTo(position: number): Promise<void>;
     setGlobalVolume(volume: number): Promise<void>;
+    setFilters(filters: LavalinkFilters): Promise<void>;
     removeAllListeners(): void;
     on(event: string, listener: (...args: unknown[]) => void): void;
     connection?: {
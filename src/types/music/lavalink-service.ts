@@ -1,22 +1,57 @@
+import type { LavalinkFilters } from './filters.js';
+
 export interface CircuitBreaker {
     execute<T>(fn: () => Promise<T>): Promise<T>;
 }
 
+/**
+ * Lavalink /v4/stats payload (also pushed over the websocket every minute)
+ */
+export interface LavalinkNodeStats {
+    players: number;
+    playingPlayers: number;
+    uptime: number;
+    cpu: {
+        cores: number;
+        /** 0-1 */
+        systemLoad: number;
+        /** 0-1 */
+        lavalinkLoad: number;
+    };
+    /** Audio frames over the last minute; missing when no player is active */
+    frameStats?: {
+        sent: number;
+        deficit: number;
+        nulled: number;
+    } | null;
+}
+
 export interface ShoukakuNode {
     name: string;
     state: number;
-    stats: unknown;
+    stats: LavalinkNodeStats | null;
+    penalties: number;
     rest: {
         resolve(query: string): Promise<{
             loadType: string;
             data?: unknown;
             tracks?: unknown[];
         } | null>;
+        stats(): Promise<LavalinkNodeStats | undefined>;
     };
 }
 
+/**
+ * The parts of the Shoukaku manager the node manager works with
+ */
+export interface ShoukakuNodePool {
+    nodes: Map<string, ShoukakuNode>;
+    players: Map<string, ShoukakuPlayer>;
+}
+
 export interface ShoukakuPlayer {
     guildId: string;
+    node: ShoukakuNode;
     paused: boolean;
     track: unknown;
     position: number;
@@ -25,11 +60,16 @@ export interface ShoukakuPlayer {
         disconnect(): Promise<void>;
         channelId?: string;
     };
-    playTrack(options: { track: { encoded: string } }): Promise<void>;
+    playTrack(options: { track: { encoded: string }; position?: number }): Promise<void>;
     stopTrack(): Promise<void>;
     setPaused(paused: boolean): Promise<void>;
     seekTo(position: number): Promise<void>;
     setGlobalVolume(volume: number): Promise<void>;
+    setFilters(filters: LavalinkFilters): Promise<void>;
+    /** Destroy on the current node and rebuild on another with the same track, position and filters */
+    move(name?: string): Promise<boolean>;
+    /** Re-send the full player state to the current node */
+    resume(options?: { position?: number }): Promise<void>;
     on(event: string, listener: (...args: unknown[]) => void): void;
     removeAllListeners(): void;
 }
@@ -40,6 +80,7 @@ export interface TrackData {
         uri?: string;
         title?: string;
         length?: number;
+        isStream?: boolean;
         artworkUrl?: string;
         author?: string;
         sourceName?: string;
@@ -1,3 +1,5 @@
+import type { FilterState } from './filters.js';
+
 export interface NodeConfig {
     name: string;
     url: string;
@@ -11,6 +13,7 @@ export interface LavalinkSearchResult {
     url: string;
     title: string;
     lengthSeconds: number;
+    isStream: boolean;
     thumbnail: string | null;
     author: string;
     requestedBy: unknown;
@@ -32,6 +35,29 @@ export interface PreservedState {
     position: number;
     paused: boolean;
     volume: number;
+    filters?: FilterState | null;
+}
+
+/**
+ * A node's latest health reading. Scores are lower-is-better; see config nodeHealth.
+ */
+export interface NodeHealth {
+    name: string;
+    connected: boolean;
+    /** null until the node answered a stats poll */
+    score: number | null;
+    /** System CPU load, 0-1 */
+    cpuLoad: number | null;
+    /** Missing plus nulled frames over the last minute */
+    frameDeficit: number | null;
+    /** Players this bot has on the node right now */
+    players: number;
+    pingMs: number | null;
+    /** Consecutive polls over the score or ping limit, or without an answer */
+    unhealthyChecks: number;
+    /** Players are being moved off this node */
+    degraded: boolean;
+    checkedAt: number | null;
 }
 
 export interface NodeStatus {
@@ -42,6 +68,7 @@ export interface NodeStatus {
         name: string;
         state: number;
         stats: unknown;
+        health: NodeHealth;
     }>;
     players?: Array<{
         guildId: string;
@@ -0,0 +1,59 @@
+import type { Message } from 'discord.js';
+
+/**
+ * A single timed lyric line
+ */
+export interface LyricsLine {
+    /** Start time in milliseconds */
+    time: number;
+    text: string;
+}
+
+export interface LyricsQuery {
+    title: string;
+    artist?: string | null;
+    durationSeconds?: number;
+}
+
+export interface LyricsResult {
+    trackName: string;
+    artistName: string;
+    plain: string | null;
+    /** Timed lines, or null when the provider only has plain lyrics */
+    synced: LyricsLine[] | null;
+    instrumental: boolean;
+    source: string;
+}
+
+/**
+ * Lyrics backend. Implementations return null when nothing matches
+ * and throw only on transport errors.
+ */
+export interface LyricsProvider {
+    readonly name: string;
+    search(query: LyricsQuery): Promise<LyricsResult | null>;
+}
+
+export interface LiveLyricsSession {
+    guildId: string;
+    trackUrl: string;
+    lyrics: LyricsResult;
+    message: Message;
+    lastIndex: number;
+    updating: boolean;
+    timer: ReturnType<typeof setInterval>;
+}
+
+/**
+ * LRCLIB /api/get and /api/search record
+ */
+export interface LrclibRecord {
+    id: number;
+    trackName: string;
+    artistName: string;
+    albumName?: string | null;
+    duration?: number;
+    instrumental?: boolean;
+    plainLyrics?: string | null;
+    syncedLyrics?: string | null;
+}
@@ -0,0 +1,35 @@
+/**
+ * Music actions that can be restricted per guild
+ */
+export type MusicAction = 'skip' | 'stop' | 'volume' | 'clear' | 'shuffle' | 'move' | 'remove' | 'loop' | 'filters';
+
+/**
+ * Who may perform an action:
+ * - everyone: anyone in the bot's voice channel
+ * - requester: whoever queued the affected track (or a DJ)
+ * - vote: listeners vote on it (DJs and the requester bypass); see VoteRule for the threshold
+ * - dj: DJ role holders and admins only
+ */
+export type MusicPermissionMode = 'everyone' | 'requester' | 'vote' | 'dj';
+
+export interface MusicPermissionPolicy {
+    djRoleId: string | null;
+    /** When on, every music control is DJ-only regardless of the per-action modes */
+    djOnly: boolean;
+    actions: Record<MusicAction, MusicPermissionMode>;
+}
+
+/**
+ * Shape stored under `music_permissions` in guild_settings.settings
+ */
+export interface StoredMusicPermissions {
+    djOnly?: boolean;
+    actions?: Partial<Record<MusicAction, MusicPermissionMode>>;
+}
+
+export interface MusicPermissionResult {
+    allowed: boolean;
+    /** Allowed, but only through a vote */
+    vote: boolean;
+    reason?: string;
+}
@@ -18,6 +18,7 @@ export interface NowPlayingOptions {
     voteSkipCount?: number;
     voteSkipRequired?: number;
     listenerCount?: number;
+    filters?: string | null;
 }
 
 export interface PlayNextResult {
@@ -0,0 +1,99 @@
+import type { Track } from './track.js';
+
+export type PlaylistImportSource = 'youtube' | 'spotify' | 'soundcloud' | 'applemusic' | 'other';
+
+export type PlaylistImportStatus = 'running' | 'completed' | 'cancelled' | 'failed';
+
+/**
+ * Why a playlist entry did not make it into the queue:
+ * - no_match: nothing playable was found when searching for it
+ * - unplayable: the source returned it without playable data
+ * - queue_full: the guild queue, or the importer's share of it, had no room left
+ * - error: the lookup itself failed
+ */
+export type ImportFailureReason = 'no_match' | 'unplayable' | 'invalid' | 'queue_full' | 'error';
+
+/**
+ * A playlist entry as read from the source. Entries with `encoded` are already
+ * playable; the rest are matched by ISRC or title + artist.
+ */
+export interface PlaylistImportEntry {
+    title: string;
+    author: string | null;
+    isrc: string | null;
+    durationMs: number;
+    artworkUrl: string | null;
+    url: string | null;
+    encoded: string | null;
+}
+
+export interface PlaylistImportFailure {
+    /** 1-based position in the source playlist */
+    index: number;
+    title: string;
+    author: string | null;
+    reason: ImportFailureReason;
+    detail?: string;
+}
+
+export interface PlaylistImportJob {
+    id: string;
+    guildId: string;
+    userId: string;
+    userName: string | null;
+    url: string;
+    source: PlaylistImportSource;
+    playlistName: string;
+    entries: PlaylistImportEntry[];
+    /** Index of the next entry to resolve */
+    cursor: number;
+    added: number;
+    failures: PlaylistImportFailure[];
+    /** Entries left out by the guild's import cap */
+    truncated: number;
+    status: PlaylistImportStatus;
+    textChannelId: string | null;
+    messageId: string | null;
+    startedAt: number;
+    updatedAt: number;
+}
+
+export interface PlaylistImportRecord {
+    [key: string]: unknown;
+    id: string;
+    guild_id: string;
+    user_id: string;
+    user_name: string | null;
+    url: string;
+    source: string;
+    playlist_name: string;
+    entries: PlaylistImportEntry[];
+    next_index: number;
+    added: number;
+    failures: PlaylistImportFailure[];
+    truncated: number;
+    status: string;
+    text_channel_id: string | null;
+    message_id: string | null;
+    started_at: Date;
+    updated_at: Date;
+}
+
+export interface PlaylistImportOptions {
+    guildId: string;
+    userId: string;
+    userName: string | null;
+    url: string;
+    shuffle?: boolean;
+    textChannelId: string | null;
+}
+
+/**
+ * How a running import hands its results back to the player
+ */
+export interface PlaylistImportHooks {
+    /** Queue a batch of playable tracks; returns how many fit */
+    onTracks(job: PlaylistImportJob, tracks: Track[]): Promise<number>;
+    onProgress(job: PlaylistImportJob): Promise<void>;
+    onFinish(job: PlaylistImportJob): Promise<void>;
+}
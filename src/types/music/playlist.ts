@@ -0,0 +1,49 @@
+import type { Track } from './track.js';
+
+/**
+ * Track as persisted in playlists.tracks (JSONB)
+ */
+export interface SavedPlaylistTrack {
+    url: string;
+    title: string;
+    author: string | null;
+    lengthSeconds: number;
+    thumbnail: string | null;
+    source: string | null;
+    encoded: string | null;
+    savedAt: number;
+}
+
+export interface PlaylistRecord {
+    [key: string]: unknown;
+    id: string;
+    user_id: string;
+    name: string;
+    description: string | null;
+    tracks: SavedPlaylistTrack[];
+    is_public: boolean;
+    play_count: number;
+    created_at: Date;
+    updated_at: Date;
+}
+
+export interface SavedPlaylist {
+    id: string;
+    ownerId: string;
+    name: string;
+    description: string | null;
+    tracks: SavedPlaylistTrack[];
+    isPublic: boolean;
+    playCount: number;
+    createdAt: number;
+    updatedAt: number;
+}
+
+export interface PlaylistLoadResult {
+    playlist: SavedPlaylist;
+    tracks: Track[];
+    resolved: number;
+    failed: number;
+    /** Resolved tracks left out because of the requester's queue limits */
+    overLimit?: number;
+}
@@ -0,0 +1,23 @@
+import type { Track } from './track.js';
+import type { PlaylistImportFailure } from './playlist-import.js';
+
+export type QueueFileFormat = 'json' | 'm3u';
+
+/**
+ * JSON queue export. Tracks are stored as-is (minus runtime-only fields), starting with
+ * the track that was playing, so an import gets back exactly what was exported.
+ */
+export interface QueueFile {
+    version: 1;
+    exportedAt: string;
+    tracks: Track[];
+}
+
+export interface QueueFileImportResult {
+    /** Entries read from the file, after the size cap */
+    total: number;
+    /** Entries left out by the size cap */
+    truncated: number;
+    added: number;
+    failures: PlaylistImportFailure[];
+}
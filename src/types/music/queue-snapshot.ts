@@ -0,0 +1,55 @@
+import type { LoopMode } from './playback.js';
+import type { FilterState } from './filters.js';
+
+/**
+ * Track as persisted in music_queue_snapshots (JSONB)
+ */
+export interface SnapshotTrack {
+    url: string;
+    title: string;
+    author: string | null;
+    lengthSeconds: number;
+    thumbnail: string | null;
+    source: string | null;
+    encoded: string;
+    requesterId: string | null;
+    requesterName: string | null;
+}
+
+/**
+ * Everything needed to rebuild a guild's listening session after a restart
+ */
+export interface QueueSnapshot {
+    guildId: string;
+    voiceChannelId: string;
+    textChannelId: string | null;
+    /** Who gets asked whether to resume */
+    requesterId: string | null;
+    currentTrack: SnapshotTrack | null;
+    /** Playback position of the current track, in milliseconds */
+    positionMs: number;
+    tracks: SnapshotTrack[];
+    loopMode: LoopMode;
+    volume: number;
+    paused: boolean;
+    autoPlay: boolean;
+    filters: FilterState | null;
+    updatedAt: number;
+}
+
+export interface QueueSnapshotRecord {
+    [key: string]: unknown;
+    guild_id: string;
+    voice_channel_id: string;
+    text_channel_id: string | null;
+    requester_id: string | null;
+    current_track: SnapshotTrack | null;
+    position_ms: string | number;
+    tracks: SnapshotTrack[];
+    loop_mode: string;
+    volume: number;
+    paused: boolean;
+    auto_play: boolean;
+    filters: FilterState | null;
+    updated_at: Date;
+}
@@ -1,6 +1,7 @@
 import type { TextBasedChannel } from 'discord.js';
 import type { LoopMode } from './playback.js';
 import type { MusicTrack } from './events.js';
+import type { SleepTimer } from './sleep-timer.js';
 export type { MusicTrack } from './events.js';
 
 export interface MusicTextChannel {
@@ -35,6 +36,8 @@ export interface MusicQueue {
     isReplacing: boolean;
     lastAutoplaySearch?: number;
     lastPlayedTracks: string[];
+    sleepTimer: SleepTimer | null;
+    sleepTimerTimeout: NodeJS.Timeout | null;
     createdAt: number;
     updatedAt: number;
     lastAccessed: number;
@@ -0,0 +1,10 @@
+/**
+ * Internet radio preset. A guild's list is stored under `music_radio` in
+ * guild_settings.settings; guilds that never edited it get the curated defaults.
+ */
+export interface RadioStation {
+    name: string;
+    /** Direct HTTP/Icecast stream or any link Lavalink can play */
+    url: string;
+    genre?: string | null;
+}
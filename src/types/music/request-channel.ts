@@ -0,0 +1,9 @@
+/**
+ * Song request channel of a guild: the `music_channel` column, plus the id of its
+ * control panel message stored under `music_request_panel` in guild_settings.settings
+ */
+export interface RequestChannelState {
+    guildId: string;
+    channelId: string;
+    panelMessageId: string | null;
+}
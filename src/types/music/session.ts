@@ -63,7 +63,7 @@ export interface SystemEventData {
     message?: string;
 }
 
-export type SourcePlatform = 'youtube' | 'soundcloud' | 'spotify' | 'unknown';
+export type SourcePlatform = 'youtube' | 'soundcloud' | 'spotify' | 'http' | 'unknown';
 
 export interface ControlButtonsOptions {
     isPaused?: boolean;
@@ -81,6 +81,8 @@ export interface QueueListOptions {
     loopMode?: LoopMode;
     isShuffled?: boolean;
     volume?: number;
+    /** Requesters in turn order when the fair queue is on */
+    turnOrder?: string[] | null;
 }
 
 export type InfoEmbedType = 'info' | 'success' | 'warning' | 'error';
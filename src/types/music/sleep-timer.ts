@@ -0,0 +1,12 @@
+/**
+ * "Stop after" timer for a music session. The track count is checked whenever a track
+ * finishes; the clock runs on its own timeout and stops playback as soon as it is up.
+ */
+export interface SleepTimer {
+    /** Finished tracks still to go before stopping; null when only the clock counts */
+    tracksLeft: number | null;
+    /** Timestamp (ms) at which playback stops; null when only tracks count */
+    endsAt: number | null;
+    /** User who set the timer */
+    setBy: string;
+}
@@ -13,6 +13,7 @@ export interface SpotifyTrack {
     external_urls: { spotify: string };
     popularity: number;
     preview_url: string | null;
+    external_ids?: { isrc?: string };
 }
 
 export interface SpotifyArtist {
@@ -43,3 +44,13 @@ export interface EmbedTrack {
     artworkUrl?: string;
     isrc?: string;
 }
+
+/**
+ * Playlist or album read in full through the Web API (or embed scraping as a fallback)
+ */
+export interface SpotifyCollection {
+    name: string | null;
+    tracks: EmbedTrack[];
+    /** Size of the whole collection, which can exceed the requested limit */
+    total: number;
+}
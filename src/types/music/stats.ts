@@ -0,0 +1,78 @@
+export type MusicStatsPeriod = 'week' | 'month' | 'year' | 'all';
+
+/**
+ * Which plays to aggregate: a guild, optionally one member (plays they requested or
+ * heard), within [since, until)
+ */
+export interface MusicStatsFilter {
+    guildId: string;
+    userId?: string | null;
+    /** null = since the oldest recorded play */
+    since: Date | null;
+    until: Date;
+}
+
+export interface TopTrackStat {
+    url: string;
+    title: string;
+    author: string | null;
+    plays: number;
+}
+
+export interface TopArtistStat {
+    author: string;
+    plays: number;
+}
+
+export interface RequesterStat {
+    userId: string;
+    plays: number;
+    listenedSeconds: number;
+}
+
+/**
+ * One play of a track in a guild, as stored in guild_music_plays
+ */
+export interface MusicPlayRecord {
+    guildId: string;
+    url: string;
+    title: string;
+    author: string | null;
+    /** Track length in seconds */
+    duration: number | null;
+    requestedBy: string | null;
+    /** Members (not bots) in the voice channel when the track started */
+    listenerIds: string[];
+}
+
+export interface MusicStatsSummary {
+    plays: number;
+    uniqueTracks: number;
+    /** Members who were in voice for at least one play */
+    listeners: number;
+    /** Members who requested at least one play */
+    requesters: number;
+    /** Sum of the played tracks' lengths */
+    listenedSeconds: number;
+    topTracks: TopTrackStat[];
+    topArtists: TopArtistStat[];
+    topRequesters: RequesterStat[];
+    /** Plays per hour of day (UTC), index 0-23 */
+    hourly: number[];
+}
+
+export interface MusicStatsReport {
+    filter: MusicStatsFilter;
+    /** e.g. "Last 7 days" or "September 2026" */
+    label: string;
+    summary: MusicStatsSummary;
+}
+
+/**
+ * Monthly report schedule, stored in guild_settings.settings.music_stats_report
+ */
+export interface MusicStatsReportSettings {
+    channelId: string | null;
+    /** Last month reported, as YYYY-MM */
+    lastReport: string | null;
+}
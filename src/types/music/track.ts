@@ -7,6 +7,7 @@ export interface TrackInfo {
     identifier?: string;
     artworkUrl?: string;
     sourceName?: string;
+    isStream?: boolean;
 }
 
 export interface Track {
@@ -20,6 +21,8 @@ export interface Track {
     thumbnail?: string;
     duration?: number;
     source?: string;
+    /** Live stream without a known length; lengthSeconds is 0 */
+    isStream?: boolean;
     searchedByLink?: boolean;
     originalQuery?: string;
     requestedBy?: {
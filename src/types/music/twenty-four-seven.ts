@@ -0,0 +1,10 @@
+/**
+ * 24/7 mode state, stored under `music_247` in guild_settings.settings
+ */
+export interface TwentyFourSevenState {
+    enabled: boolean;
+    /** Channel to rejoin after a restart or Lavalink failover */
+    voiceChannelId: string | null;
+    /** Channel for now-playing and autoplay messages after a rejoin */
+    textChannelId: string | null;
+}
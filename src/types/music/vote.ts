@@ -10,3 +10,34 @@ export interface VoteSkipStatus {
     count: number;
     required: number;
 }
+
+/**
+ * Music actions with a vote flow; 'vote' on any other action falls back to DJ-only
+ */
+export type VoteAction = 'skip' | 'stop' | 'clear' | 'shuffle' | 'remove';
+
+/**
+ * How a vote on one action is decided
+ */
+export interface VoteRule {
+    /** Share of the listeners that has to vote yes, 0-1 */
+    threshold: number;
+    timeoutSeconds: number;
+}
+
+/**
+ * Per-guild overrides stored under `music_votes` in guild_settings.settings;
+ * missing actions use the config defaults
+ */
+export type StoredVoteRules = Partial<Record<VoteAction, VoteRule>>;
+
+/**
+ * The queued track a remove vote is about. Kept by URL so the vote still hits
+ * the right track if the queue shifts while it runs.
+ */
+export interface ActionVoteTarget {
+    position: number;
+    title: string;
+    url: string;
+    requesterId: string | null;
+}
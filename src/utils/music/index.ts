@@ -7,6 +7,9 @@
 import type { GuildMember, VoiceBasedChannel } from 'discord.js';
 import type { Track } from '../../types/music/track.js';
 import type { QueueInfo, Validators } from '../../types/utils/music.js';
+import type { FilterPresetName, FilterState, LavalinkFilters } from '../../types/music/filters.js';
+import type { LyricsLine } from '../../types/music/lyrics.js';
+import { filters as filterConfig } from '../../config/features/music.js';
 // TIME UTILITIES
 /**
  * Format milliseconds to time string
@@ -56,7 +59,150 @@ export function parseDuration(durationStr: string | number): number {
     return 0;
 }
 
+/**
+ * Parse a seek input into seconds
+ * Accepts absolute ("1:23", "83", "1:02:03") or relative ("+30", "-15", "+1:00") positions
+ * @param input - User-supplied timestamp
+ * @returns Parsed seconds and whether they are relative to the current position, or null if invalid
+ */
+export function parseSeekInput(input: string): { seconds: number; relative: boolean } | null {
+    const match = input.trim().match(/^([+-])?\s*(\d+(?::\d{1,2}){0,2})$/);
+    if (!match) return null;
+
+    const [, sign, time] = match;
+    const parts = time.split(':').map(Number);
+    if (parts.slice(1).some(p => p >= 60)) return null;
+
+    const seconds = parts.length === 1 ? parts[0] : parseDuration(time);
+    if (sign) {
+        return { seconds: sign === '-' ? -seconds : seconds, relative: true };
+    }
+    return { seconds, relative: false };
+}
+
+
+// FILTER UTILITIES
+/**
+ * Create a filter state, optionally seeded from a preset
+ * @param preset - Preset to start from, or null for flat/no filters
+ */
+export function createFilterState(preset: FilterPresetName | null = null): FilterState {
+    const config = preset ? filterConfig.presets[preset] : undefined;
+    const equalizer = new Array(filterConfig.bands).fill(0);
+    config?.equalizer?.forEach((gain, band) => { equalizer[band] = gain; });
+
+    return {
+        preset,
+        equalizer,
+        timescale: { ...(config?.timescale || { speed: 1, pitch: 1 }) },
+        updatedAt: Date.now()
+    };
+}
+
+/**
+ * Check whether a filter state changes the audio at all
+ */
+export function isFilterActive(state: FilterState | null | undefined): boolean {
+    if (!state) return false;
+    return state.preset !== null
+        || state.equalizer.some(gain => gain !== 0)
+        || state.timescale.speed !== 1
+        || state.timescale.pitch !== 1;
+}
+
+/**
+ * Convert a filter state into the Lavalink filters payload.
+ * Filters that are not set are omitted, so an inactive state clears everything.
+ */
+export function buildLavalinkFilters(state: FilterState | null | undefined): LavalinkFilters {
+    if (!isFilterActive(state)) return {};
+
+    const payload: LavalinkFilters = {};
+    const preset = state!.preset ? filterConfig.presets[state!.preset] : undefined;
+
+    if (state!.equalizer.some(gain => gain !== 0)) {
+        payload.equalizer = state!.equalizer.map((gain, band) => ({ band, gain }));
+    }
+    if (state!.timescale.speed !== 1 || state!.timescale.pitch !== 1) {
+        payload.timescale = { ...state!.timescale };
+    }
+    if (preset?.karaoke) payload.karaoke = { ...preset.karaoke };
+    if (preset?.rotation) payload.rotation = { ...preset.rotation };
+
+    return payload;
+}
 
+/**
+ * Short human-readable summary of active filters (e.g. "🌙 Nightcore • Speed 1.2x")
+ * @returns Summary, or null when no filters are active
+ */
+export function describeFilters(state: FilterState | null | undefined): string | null {
+    if (!isFilterActive(state)) return null;
+
+    const parts: string[] = [];
+    const preset = state!.preset ? filterConfig.presets[state!.preset] : undefined;
+    if (preset) parts.push(`${preset.emoji} ${preset.label}`);
+
+    const presetEq = createFilterState(state!.preset).equalizer;
+    if (state!.equalizer.some((gain, band) => gain !== presetEq[band])) {
+        parts.push('Custom EQ');
+    }
+
+    const presetTimescale = preset?.timescale || { speed: 1, pitch: 1 };
+    if (state!.timescale.speed !== presetTimescale.speed) parts.push(`Speed ${state!.timescale.speed}x`);
+    if (state!.timescale.pitch !== presetTimescale.pitch) parts.push(`Pitch ${state!.timescale.pitch}x`);
+
+    return parts.join(' • ') || null;
+}
+
+// LYRICS UTILITIES
+/**
+ * Parse LRC formatted lyrics into timed lines
+ * Supports multiple timestamps per line ("[00:12.00][01:30.50]Chorus") and skips metadata tags
+ * @param lrc - Raw LRC text
+ * @returns Lines sorted by time
+ */
+export function parseLrc(lrc: string): LyricsLine[] {
+    const lines: LyricsLine[] = [];
+    const timestampRegex = /\[(\d{1,3}):(\d{1,2})(?:[.:](\d{1,3}))?\]/g;
+
+    for (const rawLine of lrc.split(/\r?\n/)) {
+        const stamps = [...rawLine.matchAll(timestampRegex)];
+        if (stamps.length === 0) continue;
+
+        const text = rawLine.replace(timestampRegex, '').trim();
+        for (const [, min, sec, frac] of stamps) {
+            // "12" after the dot is hundredths, "123" is milliseconds
+            const fraction = frac ? Number(frac.padEnd(3, '0')) : 0;
+            lines.push({ time: Number(min) * 60000 + Number(sec) * 1000 + fraction, text });
+        }
+    }
+
+    return lines.sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Find the index of the lyric line active at a position
+ * @param lines - Timed lines sorted by time
+ * @param positionMs - Playback position in milliseconds
+ * @returns Line index, or -1 before the first line
+ */
+export function findLyricIndex(lines: LyricsLine[], positionMs: number): number {
+    let low = 0;
+    let high = lines.length - 1;
+    let result = -1;
+
+    while (low <= high) {
+        const mid = (low + high) >> 1;
+        if (lines[mid].time <= positionMs) {
+            result = mid;
+            low = mid + 1;
+        } else {
+            high = mid - 1;
+        }
+    }
+    return result;
+}
 
 /**
  * Delay execution
@@ -1,10 +1,10 @@
 /**
  * Case Command Unit Tests
- * Tests for case command validation and execution
+ * Tests for case viewing, editing, voiding and restoring
  */
 
 // Mock Logger
-jest.mock('../../../../src/core/Logger', () => ({
+jest.mock('../../../../src/core/observability/Logger', () => ({
     __esModule: true,
     default: {
         error: jest.fn(),
@@ -16,7 +16,7 @@ jest.mock('../../../../src/core/Logger', () => ({
 }));
 
 // Mock metrics
-jest.mock('../../../../src/core/metrics', () => ({
+jest.mock('../../../../src/core/observability/metrics', () => ({
     __esModule: true,
     trackCommand: jest.fn(),
     commandsActive: { inc: jest.fn(), dec: jest.fn() },
@@ -62,11 +62,28 @@ jest.mock('../../../../src/errors/index', () => ({
 // Mock infraction service
 const mockGetCase = jest.fn();
 const mockBuildCaseEmbed = jest.fn();
+const mockGetCaseRevisions = jest.fn();
+const mockEditCase = jest.fn();
+const mockVoidCase = jest.fn();
+const mockRestoreCase = jest.fn();
 jest.mock('../../../../src/services/moderation/index', () => ({
     __esModule: true,
     infractionService: {
         getCase: mockGetCase,
         buildCaseEmbed: mockBuildCaseEmbed,
+        getCaseRevisions: mockGetCaseRevisions,
+        editCase: mockEditCase,
+        voidCase: mockVoidCase,
+        restoreCase: mockRestoreCase,
+    },
+}));
+
+// Mock guild settings
+const mockHasAdminPermission = jest.fn();
+jest.mock('../../../../src/services/guild/index', () => ({
+    __esModule: true,
+    GuildSettingsService: {
+        hasAdminPermission: mockHasAdminPermission,
     },
 }));
 
@@ -100,7 +117,8 @@ function createMockInteraction(overrides: Record<string, unknown> = {}) {
         },
         options: {
             getInteger: jest.fn().mockReturnValue(1),
-            getSubcommand: jest.fn(),
+            getString: jest.fn().mockReturnValue(null),
+            getSubcommand: jest.fn().mockReturnValue('view'),
         },
         reply: jest.fn().mockResolvedValue({}),
         editReply: jest.fn().mockResolvedValue({}),
@@ -114,6 +132,8 @@ function createMockInteraction(overrides: Record<string, unknown> = {}) {
 describe('CaseCommand', () => {
     beforeEach(() => {
         jest.clearAllMocks();
+        mockGetCaseRevisions.mockResolvedValue([]);
+        mockHasAdminPermission.mockResolvedValue(false);
     });
 
     describe('metadata', () => {
@@ -130,10 +150,10 @@ describe('CaseCommand', () => {
             expect(caseCommand.userPermissions.length).toBeGreaterThan(0);
         });
 
-        it('should have id option', () => {
+        it('should have view, edit, void and restore subcommands', () => {
             const json = caseCommand.data.toJSON();
-            const optionNames = json.options?.map((o: any) => o.name) || [];
-            expect(optionNames).toContain('id');
+            const subcommands = json.options?.map((o: any) => o.name) || [];
+            expect(subcommands).toEqual(['view', 'edit', 'void', 'restore']);
         });
     });
 
@@ -176,7 +196,7 @@ describe('CaseCommand', () => {
 
             await caseCommand.run(interaction);
 
-            expect(mockBuildCaseEmbed).toHaveBeenCalled();
+            expect(mockBuildCaseEmbed).toHaveBeenCalledWith(expect.objectContaining({ id: 1 }), expect.anything(), []);
             const reply = interaction.editReply.mock.calls[0][0];
             expect(reply.embeds[0]).toBe(mockEmbed);
         });
@@ -296,7 +316,92 @@ describe('CaseCommand', () => {
             await caseCommand.run(interaction);
 
             const reply = interaction.editReply.mock.calls[0][0];
-            expect(reply.content).toContain('Failed to fetch case');
+            expect(reply.content).toContain('Failed to process case');
+        });
+
+        it('should hide voided cases from non-admins', async () => {
+            const interaction = createMockInteraction();
+            mockGetCase.mockResolvedValue({ id: 1, user_id: 'target-1', voided_at: new Date() });
+
+            await caseCommand.run(interaction);
+
+            const reply = interaction.editReply.mock.calls[0][0];
+            expect(reply.content).toContain('not found');
+            expect(mockBuildCaseEmbed).not.toHaveBeenCalled();
+        });
+
+        it('should show voided cases with their history to admins', async () => {
+            const interaction = createMockInteraction();
+            const revisions = [{ field: 'voided', oldValue: 'false', newValue: 'true' }];
+            mockHasAdminPermission.mockResolvedValue(true);
+            mockGetCase.mockResolvedValue({ id: 1, user_id: 'target-1', voided_at: new Date() });
+            mockGetCaseRevisions.mockResolvedValue(revisions);
+            mockBuildCaseEmbed.mockReturnValue({ data: {} });
+
+            await caseCommand.run(interaction);
+
+            expect(mockBuildCaseEmbed).toHaveBeenCalledWith(expect.objectContaining({ id: 1 }), expect.anything(), revisions);
+        });
+    });
+
+    describe('edit', () => {
+        it('should change the reason as the invoking moderator', async () => {
+            const interaction = createMockInteraction();
+            interaction.options.getSubcommand.mockReturnValue('edit');
+            interaction.options.getString.mockImplementation((name: string) => name === 'reason' ? 'Advertising' : 'Typo');
+            mockGetCase.mockResolvedValue({ id: 1, active: true, voided_at: null });
+            mockEditCase.mockResolvedValue({ infraction: { id: 1 }, changed: true });
+
+            await caseCommand.run(interaction);
+
+            expect(mockEditCase).toHaveBeenCalledWith('guild-1', 1, 'mod-1', 'Advertising', 'Typo');
+        });
+
+        it('should say so when the reason is unchanged', async () => {
+            const interaction = createMockInteraction();
+            interaction.options.getSubcommand.mockReturnValue('edit');
+            interaction.options.getString.mockReturnValue('Spam');
+            mockGetCase.mockResolvedValue({ id: 1, active: true, voided_at: null });
+            mockEditCase.mockResolvedValue({ infraction: { id: 1 }, changed: false });
+
+            await caseCommand.run(interaction);
+
+            expect(interaction.editReply.mock.calls[0][0].content).toContain('already has that reason');
+        });
+    });
+
+    describe('void and restore', () => {
+        it('should refuse non-admins', async () => {
+            const interaction = createMockInteraction();
+            interaction.options.getSubcommand.mockReturnValue('void');
+
+            await caseCommand.run(interaction);
+
+            expect(mockVoidCase).not.toHaveBeenCalled();
+        });
+
+        it('should void a case for admins', async () => {
+            const interaction = createMockInteraction();
+            interaction.options.getSubcommand.mockReturnValue('void');
+            interaction.options.getString.mockReturnValue('Wrong user');
+            mockHasAdminPermission.mockResolvedValue(true);
+            mockVoidCase.mockResolvedValue({ infraction: { id: 1 }, changed: true });
+
+            await caseCommand.run(interaction);
+
+            expect(mockVoidCase).toHaveBeenCalledWith('guild-1', 1, 'mod-1', 'Wrong user');
+        });
+
+        it('should report when the case is not voided', async () => {
+            const interaction = createMockInteraction();
+            interaction.options.getSubcommand.mockReturnValue('restore');
+            mockHasAdminPermission.mockResolvedValue(true);
+            mockRestoreCase.mockResolvedValue({ infraction: { id: 1 }, changed: false });
+
+            await caseCommand.run(interaction);
+
+            expect(mockRestoreCase).toHaveBeenCalledWith('guild-1', 1, 'mod-1', null);
+            expect(interaction.editReply.mock.calls[0][0].content).toContain('not voided');
         });
     });
 });
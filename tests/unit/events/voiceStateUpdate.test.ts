@@ -4,7 +4,7 @@
  */
 
 // Mock Logger
-jest.mock('../../../src/core/Logger', () => ({
+jest.mock('../../../src/core/observability/Logger', () => ({
     __esModule: true,
     default: {
         error: jest.fn(),
@@ -38,13 +38,22 @@ jest.mock('../../../src/cache/cacheService', () => ({
 
 // Mock MusicFacade
 const mockCleanup = jest.fn().mockResolvedValue(undefined);
+const mockIsTwentyFourSeven = jest.fn().mockReturnValue(false);
 jest.mock('../../../src/services/music/core/musicFacade', () => ({
     __esModule: true,
     musicFacade: {
         cleanup: mockCleanup,
+        isTwentyFourSeven: mockIsTwentyFourSeven,
     },
 }));
 
+// Mock voice mod log
+const mockHandleVoiceStateLog = jest.fn().mockResolvedValue(undefined);
+jest.mock('../../../src/handlers/moderation/index', () => ({
+    __esModule: true,
+    handleVoiceStateLog: mockHandleVoiceStateLog,
+}));
+
 import type { Client, VoiceState, VoiceBasedChannel, Collection, GuildMember } from 'discord.js';
 
 // Helper to create mock voice state
@@ -229,6 +238,41 @@ describe('VoiceStateUpdateEvent', () => {
             // Should NOT set a new deadline
             expect(mockSet).not.toHaveBeenCalled();
         });
+
+        it('should not wait for the mod log before scheduling a disconnect', async () => {
+            mockHandleVoiceStateLog.mockReturnValueOnce(new Promise(() => {}));
+            const client = createMockClient();
+            const oldState = createMockVoiceState({
+                channel: {
+                    id: 'channel-1',
+                    members: { filter: jest.fn().mockReturnValue({ size: 0 }) },
+                },
+                guild: {
+                    id: 'guild-1',
+                    members: {
+                        cache: {
+                            get: jest.fn().mockReturnValue({
+                                voice: { channel: { id: 'channel-1' } },
+                            }),
+                        },
+                    },
+                },
+            });
+            const newState = createMockVoiceState();
+
+            await VoiceStateUpdateEvent.execute(client, oldState, newState);
+
+            expect(mockHandleVoiceStateLog).toHaveBeenCalledWith(oldState, newState);
+            expect(mockSet).toHaveBeenCalledWith('voice', 'disconnect:guild-1', expect.any(Number), 40);
+        });
+
+        it('should keep going when the mod log fails', async () => {
+            mockHandleVoiceStateLog.mockRejectedValueOnce(new Error('Missing Access'));
+            const client = createMockClient();
+
+            await expect(VoiceStateUpdateEvent.execute(client, createMockVoiceState(), createMockVoiceState()))
+                .resolves.toBeUndefined();
+        });
     });
 
     describe('destroy()', () => {
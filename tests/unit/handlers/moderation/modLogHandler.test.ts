@@ -0,0 +1,300 @@
+/**
+ * ModLogHandler Unit Tests
+ * Tests for member/channel/role/voice change detection and audit log executor attribution
+ */
+
+const mockModLogService = {
+    isLogEnabled: jest.fn(),
+    logMemberRoleChange: jest.fn(),
+    logNicknameChange: jest.fn(),
+    logTimeoutChange: jest.fn(),
+    logChannelLifecycle: jest.fn(),
+    logChannelOverwrites: jest.fn(),
+    logRoleLifecycle: jest.fn(),
+    logRoleUpdate: jest.fn(),
+    logVoiceActivity: jest.fn()
+};
+jest.mock('../../../../src/services/moderation/modLogService', () => ({
+    __esModule: true,
+    default: mockModLogService
+}));
+
+jest.mock('../../../../src/core/observability/Logger', () => ({
+    __esModule: true,
+    default: { error: jest.fn(), debug: jest.fn(), info: jest.fn(), warn: jest.fn() },
+    logger: { error: jest.fn(), debug: jest.fn(), info: jest.fn(), warn: jest.fn() }
+}));
+
+import { AuditLogEvent, Collection, OverwriteType, PermissionFlagsBits, PermissionsBitField } from 'discord.js';
+import {
+    handleMemberUpdate,
+    handleChannelUpdate,
+    handleRoleCreate,
+    handleRoleUpdate,
+    handleVoiceStateUpdate
+} from '../../../../src/handlers/moderation/modLogHandler.js';
+
+const moderator = { id: 'mod-1', tag: 'Mod#0001' };
+
+const auditEntry = (overrides: Record<string, unknown> = {}) => ({
+    id: 'entry-1',
+    createdTimestamp: Date.now(),
+    executor: moderator,
+    executorId: moderator.id,
+    target: { id: 'user-1' },
+    changes: [],
+    extra: null,
+    reason: null,
+    ...overrides
+});
+
+const createGuild = (entries: ReturnType<typeof auditEntry>[] = []) => ({
+    id: 'guild-1',
+    client: { user: { id: 'bot' } },
+    fetchAuditLogs: jest.fn().mockResolvedValue({
+        entries: new Collection(entries.map(e => [e.id, e]))
+    })
+});
+
+const createMember = (guild: ReturnType<typeof createGuild>, overrides: Record<string, unknown> = {}) => ({
+    id: 'user-1',
+    guild,
+    nickname: null as string | null,
+    communicationDisabledUntilTimestamp: null as number | null,
+    user: { id: 'user-1', tag: 'User#0001', bot: false },
+    roles: { cache: new Collection<string, { id: string }>() },
+    ...overrides
+});
+
+describe('ModLogHandler', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockModLogService.isLogEnabled.mockResolvedValue(true);
+    });
+
+    describe('handleMemberUpdate', () => {
+        it('should log added and removed roles with the executor from the audit log', async () => {
+            const guild = createGuild([auditEntry()]);
+            const oldMember = createMember(guild, { roles: { cache: new Collection([['role-1', { id: 'role-1' }]]) } });
+            const newMember = createMember(guild, { roles: { cache: new Collection([['role-2', { id: 'role-2' }]]) } });
+
+            await handleMemberUpdate(oldMember as any, newMember as any);
+
+            expect(guild.fetchAuditLogs).toHaveBeenCalledWith({ type: AuditLogEvent.MemberRoleUpdate, limit: 5 });
+            expect(mockModLogService.logMemberRoleChange).toHaveBeenCalledWith(
+                newMember, [{ id: 'role-2' }], [{ id: 'role-1' }], moderator
+            );
+        });
+
+        it('should not attribute an audit entry that is too old', async () => {
+            const guild = createGuild([auditEntry({ createdTimestamp: Date.now() - 60000 })]);
+            const oldMember = createMember(guild);
+            const newMember = createMember(guild, { roles: { cache: new Collection([['role-2', { id: 'role-2' }]]) } });
+
+            await handleMemberUpdate(oldMember as any, newMember as any);
+
+            expect(mockModLogService.logMemberRoleChange).toHaveBeenCalledWith(newMember, [{ id: 'role-2' }], [], null);
+        });
+
+        it('should skip the audit log lookup when the log type is disabled', async () => {
+            mockModLogService.isLogEnabled.mockResolvedValue(false);
+            const guild = createGuild();
+            const newMember = createMember(guild, { nickname: 'New' });
+
+            await handleMemberUpdate(createMember(guild) as any, newMember as any);
+
+            expect(mockModLogService.isLogEnabled).toHaveBeenCalledWith('guild-1', 'nickname_changes');
+            expect(guild.fetchAuditLogs).not.toHaveBeenCalled();
+            expect(mockModLogService.logNicknameChange).not.toHaveBeenCalled();
+        });
+
+        it('should only attribute a nickname change to an entry that changed the nickname', async () => {
+            const guild = createGuild([
+                auditEntry({ id: 'entry-1', changes: [{ key: 'deaf', old: false, new: true }], executor: { id: 'other' } }),
+                auditEntry({ id: 'entry-2', changes: [{ key: 'nick', old: 'Old', new: 'New' }] })
+            ]);
+
+            const newMember = createMember(guild, { nickname: 'New' });
+            await handleMemberUpdate(createMember(guild, { nickname: 'Old' }) as any, newMember as any);
+
+            expect(mockModLogService.logNicknameChange).toHaveBeenCalledWith(newMember, 'Old', 'New', moderator);
+        });
+
+        it('should log a timeout applied by another moderator with its reason', async () => {
+            const until = Date.now() + 600000;
+            const guild = createGuild([auditEntry({
+                changes: [{ key: 'communication_disabled_until', new: new Date(until).toISOString() }],
+                reason: 'Spamming'
+            })]);
+            const newMember = createMember(guild, { communicationDisabledUntilTimestamp: until });
+
+            await handleMemberUpdate(createMember(guild) as any, newMember as any);
+
+            expect(mockModLogService.logTimeoutChange).toHaveBeenCalledWith(newMember, new Date(until), moderator, 'Spamming');
+        });
+
+        it('should leave timeouts applied by the bot to the case log', async () => {
+            const guild = createGuild([auditEntry({
+                executor: { id: 'bot' },
+                executorId: 'bot',
+                changes: [{ key: 'communication_disabled_until', new: null }]
+            })]);
+            const oldMember = createMember(guild, { communicationDisabledUntilTimestamp: Date.now() + 600000 });
+
+            await handleMemberUpdate(oldMember as any, createMember(guild) as any);
+
+            expect(mockModLogService.logTimeoutChange).not.toHaveBeenCalled();
+        });
+
+        it('should ignore a timeout that had already expired', async () => {
+            const guild = createGuild();
+            const oldMember = createMember(guild, { communicationDisabledUntilTimestamp: Date.now() - 1000 });
+
+            await handleMemberUpdate(oldMember as any, createMember(guild) as any);
+
+            expect(mockModLogService.isLogEnabled).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('handleChannelUpdate', () => {
+        const overwrite = (id: string, allow: bigint[], deny: bigint[] = [], type = OverwriteType.Role) => ({
+            id, type, allow: new PermissionsBitField(allow), deny: new PermissionsBitField(deny)
+        });
+        const channel = (guild: ReturnType<typeof createGuild>, overwrites: ReturnType<typeof overwrite>[]) => ({
+            id: 'chan-1',
+            guild,
+            permissionOverwrites: { cache: new Collection(overwrites.map(o => [o.id, o])) }
+        });
+
+        it('should describe changed overwrites and look up the overwrite update', async () => {
+            const guild = createGuild([auditEntry({ target: { id: 'chan-1' } })]);
+            const before = channel(guild, [overwrite('role-1', [], [PermissionFlagsBits.SendMessages])]);
+            const after = channel(guild, [overwrite('role-1', [PermissionFlagsBits.SendMessages])]);
+
+            await handleChannelUpdate(before as any, after as any);
+
+            expect(guild.fetchAuditLogs).toHaveBeenCalledWith({ type: AuditLogEvent.ChannelOverwriteUpdate, limit: 5 });
+            expect(mockModLogService.logChannelOverwrites).toHaveBeenCalledWith(after, ['<@&role-1>: ✅ Send Messages'], moderator);
+        });
+
+        it('should report new member overwrites and @everyone removals', async () => {
+            const guild = createGuild();
+            const before = channel(guild, [overwrite('guild-1', [], [PermissionFlagsBits.ViewChannel])]);
+            const after = channel(guild, [overwrite('user-1', [PermissionFlagsBits.ViewChannel], [], OverwriteType.Member)]);
+
+            await handleChannelUpdate(before as any, after as any);
+
+            expect(guild.fetchAuditLogs).toHaveBeenCalledWith({ type: AuditLogEvent.ChannelOverwriteCreate, limit: 5 });
+            expect(mockModLogService.logChannelOverwrites).toHaveBeenCalledWith(
+                after,
+                ['@everyone removed', '<@user-1> added: ✅ View Channel'],
+                null
+            );
+        });
+
+        it('should ignore updates that did not touch overwrites', async () => {
+            const guild = createGuild();
+            const overwrites = [overwrite('role-1', [PermissionFlagsBits.SendMessages])];
+
+            await handleChannelUpdate(channel(guild, overwrites) as any, channel(guild, overwrites) as any);
+
+            expect(mockModLogService.logChannelOverwrites).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('roles', () => {
+        const role = (guild: ReturnType<typeof createGuild>, name: string, permissions: bigint[]) => ({
+            id: 'role-1', guild, name, permissions: new PermissionsBitField(permissions)
+        });
+
+        it('should attribute a created role', async () => {
+            const guild = createGuild([auditEntry({ target: { id: 'role-1' } })]);
+            const created = role(guild, 'Helpers', []);
+
+            await handleRoleCreate(created as any);
+
+            expect(mockModLogService.logRoleLifecycle).toHaveBeenCalledWith(created, 'create', moderator);
+        });
+
+        it('should log granted and revoked permissions and renames', async () => {
+            const guild = createGuild();
+            const before = role(guild, 'Helpers', [PermissionFlagsBits.KickMembers]);
+            const after = role(guild, 'Staff', [PermissionFlagsBits.BanMembers]);
+
+            await handleRoleUpdate(before as any, after as any);
+
+            expect(mockModLogService.logRoleUpdate).toHaveBeenCalledWith(after, {
+                name: ['Helpers', 'Staff'],
+                granted: ['Ban Members'],
+                revoked: ['Kick Members']
+            }, null);
+        });
+
+        it('should ignore position and color only updates', async () => {
+            const guild = createGuild();
+
+            await handleRoleUpdate(role(guild, 'Staff', []) as any, role(guild, 'Staff', []) as any);
+
+            expect(mockModLogService.isLogEnabled).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('handleVoiceStateUpdate', () => {
+        const state = (member: unknown, channelId: string | null) => ({ member, channelId });
+
+        it('should attribute a move to the moderator who moved into that channel', async () => {
+            const guild = createGuild([
+                auditEntry({ id: 'entry-1', target: null, extra: { channel: { id: 'voice-3' }, count: 1 }, executor: { id: 'other' } }),
+                auditEntry({ id: 'entry-2', target: null, extra: { channel: { id: 'voice-2' }, count: 1 } })
+            ]);
+            const member = createMember(guild);
+
+            await handleVoiceStateUpdate(state(member, 'voice-1') as any, state(member, 'voice-2') as any);
+
+            expect(guild.fetchAuditLogs).toHaveBeenCalledWith({ type: AuditLogEvent.MemberMove, limit: 5 });
+            expect(mockModLogService.logVoiceActivity).toHaveBeenCalledWith(member, 'voice-1', 'voice-2', moderator);
+        });
+
+        it('should only attribute a disconnect when the bundled entry grew', async () => {
+            const entry = auditEntry({ id: 'entry-dc', target: null, extra: { count: 1 } });
+            const guild = { ...createGuild([entry]), id: 'guild-dc' };
+            const member = createMember(guild as any);
+            const leave = () => handleVoiceStateUpdate(state(member, 'voice-1') as any, state(member, null) as any);
+
+            await leave();
+            expect(guild.fetchAuditLogs).toHaveBeenCalledWith({ type: AuditLogEvent.MemberDisconnect, limit: 5 });
+            expect(mockModLogService.logVoiceActivity).toHaveBeenLastCalledWith(member, 'voice-1', null, moderator);
+
+            // Left on their own right after: the entry is still recent but did not change
+            await leave();
+            expect(mockModLogService.logVoiceActivity).toHaveBeenLastCalledWith(member, 'voice-1', null, null);
+
+            // The same moderator disconnected them again much later; Discord only bumps the count
+            entry.createdTimestamp = Date.now() - 60_000;
+            entry.extra = { count: 2 };
+            await leave();
+            expect(mockModLogService.logVoiceActivity).toHaveBeenLastCalledWith(member, 'voice-1', null, moderator);
+        });
+
+        it('should log joins without an audit lookup', async () => {
+            const guild = createGuild();
+            const member = createMember(guild);
+
+            await handleVoiceStateUpdate(state(member, null) as any, state(member, 'voice-1') as any);
+
+            expect(guild.fetchAuditLogs).not.toHaveBeenCalled();
+            expect(mockModLogService.logVoiceActivity).toHaveBeenCalledWith(member, null, 'voice-1', null);
+        });
+
+        it('should ignore bots and mute/deafen updates', async () => {
+            const guild = createGuild();
+            const bot = createMember(guild, { user: { id: 'bot', tag: 'Bot#0001', bot: true } });
+            const member = createMember(guild);
+
+            await handleVoiceStateUpdate(state(bot, null) as any, state(bot, 'voice-1') as any);
+            await handleVoiceStateUpdate(state(member, 'voice-1') as any, state(member, 'voice-1') as any);
+
+            expect(mockModLogService.logVoiceActivity).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -1,20 +1,23 @@
 /**
  * Moderation Repository Tests
- * Tests for InfractionRepository and FilterRepository
+ * Tests for InfractionRepository, FilterRepository and NameHistoryRepository
  * Validates query building, parameter handling, and data flow
  */
 
 // Mock postgres module
 const mockQuery = jest.fn();
+const mockClientQuery = jest.fn();
 jest.mock('../../../src/database/postgres', () => ({
     __esModule: true,
     default: {
         query: mockQuery,
+        transaction: (callback: (client: unknown) => Promise<unknown>) => callback({ query: mockClientQuery }),
     },
 }));
 
 import InfractionRepository from '../../../src/repositories/moderation/infractionRepository';
 import FilterRepository from '../../../src/repositories/moderation/filterRepository';
+import NameHistoryRepository from '../../../src/repositories/moderation/nameHistoryRepository';
 
 describe('InfractionRepository', () => {
     beforeEach(() => {
@@ -205,6 +208,81 @@ describe('InfractionRepository', () => {
 
             expect(count).toBe(0);
         });
+
+        it('should not count voided cases', async () => {
+            mockQuery.mockResolvedValueOnce({ rows: [{ count: '1' }] });
+
+            await InfractionRepository.countActiveWarnings('guild-123', 'user-456');
+
+            expect(mockQuery).toHaveBeenCalledWith(
+                expect.stringContaining('voided_at IS NULL'),
+                ['guild-123', 'user-456']
+            );
+        });
+    });
+
+    describe('revise()', () => {
+        const current = { case_id: 5, reason: 'Spam', active: true, voided_at: null };
+
+        beforeEach(() => {
+            mockClientQuery.mockReset();
+        });
+
+        it('should update the reason and store a revision in the same transaction', async () => {
+            mockClientQuery
+                .mockResolvedValueOnce({ rows: [current] })
+                .mockResolvedValueOnce({ rows: [{ ...current, reason: 'Advertising' }] })
+                .mockResolvedValueOnce({ rows: [] });
+
+            const result = await InfractionRepository.revise('guild-123', 5, 'reason', 'Advertising', 'mod-1', 'Typo');
+
+            expect(result).toEqual({ infraction: { ...current, reason: 'Advertising' }, changed: true });
+            expect(mockClientQuery).toHaveBeenNthCalledWith(1, expect.stringContaining('FOR UPDATE'), ['guild-123', 5]);
+            expect(mockClientQuery).toHaveBeenNthCalledWith(2,
+                expect.stringContaining('reason = $3'),
+                ['guild-123', 5, 'Advertising']
+            );
+            expect(mockClientQuery).toHaveBeenNthCalledWith(3,
+                expect.stringContaining('INSERT INTO mod_case_revisions'),
+                ['guild-123', 5, 'mod-1', 'reason', 'Spam', 'Advertising', 'Typo']
+            );
+        });
+
+        it('should record who voided a case', async () => {
+            mockClientQuery
+                .mockResolvedValueOnce({ rows: [current] })
+                .mockResolvedValueOnce({ rows: [{ ...current, voided_by: 'admin-1' }] })
+                .mockResolvedValueOnce({ rows: [] });
+
+            await InfractionRepository.revise('guild-123', 5, 'voided', true, 'admin-1');
+
+            expect(mockClientQuery).toHaveBeenNthCalledWith(2,
+                expect.stringContaining('voided_at = NOW(), voided_by = $3'),
+                ['guild-123', 5, 'admin-1']
+            );
+            expect(mockClientQuery).toHaveBeenNthCalledWith(3,
+                expect.any(String),
+                ['guild-123', 5, 'admin-1', 'voided', 'false', 'true', null]
+            );
+        });
+
+        it('should not store a revision when nothing changes', async () => {
+            mockClientQuery.mockResolvedValueOnce({ rows: [current] });
+
+            const result = await InfractionRepository.revise('guild-123', 5, 'active', true, 'mod-1');
+
+            expect(result).toEqual({ infraction: current, changed: false });
+            expect(mockClientQuery).toHaveBeenCalledTimes(1);
+        });
+
+        it('should return null when the case does not exist', async () => {
+            mockClientQuery.mockResolvedValueOnce({ rows: [] });
+
+            const result = await InfractionRepository.revise('guild-123', 999, 'reason', 'x', 'mod-1');
+
+            expect(result).toBeNull();
+            expect(mockClientQuery).toHaveBeenCalledTimes(1);
+        });
     });
 
     describe('update()', () => {
@@ -230,38 +308,64 @@ describe('InfractionRepository', () => {
     });
 
     describe('deactivate()', () => {
-        it('should soft-delete by setting active to false', async () => {
-            mockQuery.mockResolvedValueOnce({ rowCount: 1 });
+        beforeEach(() => {
+            mockClientQuery.mockReset();
+        });
 
-            const result = await InfractionRepository.deactivate('guild-123', 5);
+        it('should soft-delete by setting active to false and store a revision', async () => {
+            const current = { case_id: 5, reason: 'Spam', active: true, voided_at: null };
+            mockClientQuery
+                .mockResolvedValueOnce({ rows: [current] })
+                .mockResolvedValueOnce({ rows: [{ ...current, active: false }] })
+                .mockResolvedValueOnce({ rows: [] });
+
+            const result = await InfractionRepository.deactivate('guild-123', 5, 'bot-1', 'Temporary ban expired');
 
             expect(result).toBe(true);
-            expect(mockQuery).toHaveBeenCalledWith(
-                expect.stringContaining('SET active = false'),
-                ['guild-123', 5]
+            expect(mockClientQuery).toHaveBeenNthCalledWith(2,
+                expect.stringContaining('active = $3'),
+                ['guild-123', 5, false]
+            );
+            expect(mockClientQuery).toHaveBeenNthCalledWith(3,
+                expect.stringContaining('INSERT INTO mod_case_revisions'),
+                ['guild-123', 5, 'bot-1', 'active', 'true', 'false', 'Temporary ban expired']
             );
         });
 
         it('should return false when case not found', async () => {
-            mockQuery.mockResolvedValueOnce({ rowCount: 0 });
+            mockClientQuery.mockResolvedValueOnce({ rows: [] });
 
-            const result = await InfractionRepository.deactivate('guild-123', 999);
+            const result = await InfractionRepository.deactivate('guild-123', 999, 'bot-1');
 
             expect(result).toBe(false);
         });
     });
 
     describe('clearWarnings()', () => {
-        it('should deactivate all active warnings for user', async () => {
-            mockQuery.mockResolvedValueOnce({ rowCount: 3 });
+        beforeEach(() => {
+            mockClientQuery.mockReset();
+        });
 
-            const count = await InfractionRepository.clearWarnings('guild-123', 'user-456');
+        it('should deactivate all active warnings for user and store a revision per case', async () => {
+            mockClientQuery
+                .mockResolvedValueOnce({ rows: [{ case_id: 3 }, { case_id: 7 }] })
+                .mockResolvedValue({ rows: [] });
 
-            expect(count).toBe(3);
-            expect(mockQuery).toHaveBeenCalledWith(
+            const count = await InfractionRepository.clearWarnings('guild-123', 'user-456', 'mod-1', 'Fresh start');
+
+            expect(count).toBe(2);
+            expect(mockClientQuery).toHaveBeenNthCalledWith(1,
                 expect.stringContaining("type = 'warn' AND active = true"),
                 ['guild-123', 'user-456']
             );
+            expect(mockClientQuery).toHaveBeenNthCalledWith(2,
+                expect.stringContaining('INSERT INTO mod_case_revisions'),
+                ['guild-123', 3, 'mod-1', 'active', 'true', 'false', 'Fresh start']
+            );
+            expect(mockClientQuery).toHaveBeenNthCalledWith(3,
+                expect.any(String),
+                ['guild-123', 7, 'mod-1', 'active', 'true', 'false', 'Fresh start']
+            );
         });
     });
 
@@ -424,7 +528,7 @@ describe('FilterRepository', () => {
             expect(result).toEqual(mockFilter);
             expect(mockQuery).toHaveBeenCalledWith(
                 expect.stringContaining('INSERT INTO word_filters'),
-                ['guild-123', 'spam', 'contains', 'delete_warn', 1, 'mod-456']
+                ['guild-123', 'spam', 'contains', 'delete_warn', 1, true, 'mod-456']
             );
         });
 
@@ -457,7 +561,23 @@ describe('FilterRepository', () => {
 
             expect(mockQuery).toHaveBeenCalledWith(
                 expect.any(String),
-                ['guild-123', 'test', 'regex', 'ban', 5, 'mod-456']
+                ['guild-123', 'test', 'regex', 'ban', 5, true, 'mod-456']
+            );
+        });
+
+        it('should store a normalisation opt-out', async () => {
+            mockQuery.mockResolvedValueOnce({ rows: [{}] });
+
+            await FilterRepository.add({
+                guildId: 'guild-123',
+                pattern: 'a$$',
+                normalize: false,
+                createdBy: 'mod-456',
+            });
+
+            expect(mockQuery).toHaveBeenCalledWith(
+                expect.stringContaining('normalize = $6'),
+                ['guild-123', 'a$$', 'contains', 'delete_warn', 1, false, 'mod-456']
             );
         });
     });
@@ -580,3 +700,26 @@ describe('FilterRepository', () => {
         });
     });
 });
+
+describe('NameHistoryRepository', () => {
+    beforeEach(() => {
+        mockClientQuery.mockReset();
+        mockClientQuery.mockResolvedValue({ rows: [], rowCount: 0 });
+    });
+
+    describe('record()', () => {
+        it('should lock the user and skip a name that is already the latest entry', async () => {
+            await NameHistoryRepository.record('user-1', 'oldname', null);
+
+            expect(mockClientQuery).toHaveBeenNthCalledWith(1,
+                expect.stringContaining('pg_advisory_xact_lock'),
+                ['user_name_history:user-1']
+            );
+            expect(mockClientQuery).toHaveBeenNthCalledWith(2,
+                expect.stringContaining('WHERE NOT EXISTS'),
+                ['user-1', 'oldname', null]
+            );
+            expect(mockClientQuery.mock.calls[1][0]).toContain('global_name IS NOT DISTINCT FROM $3');
+        });
+    });
+});
@@ -6,10 +6,12 @@
 
 // Mock dependencies
 const mockCheckMessage = jest.fn();
+const mockMatchWordList = jest.fn().mockReturnValue(null);
 jest.mock('../../../../src/services/moderation/filterService', () => ({
     __esModule: true,
     checkMessage: mockCheckMessage,
-    default: { checkMessage: mockCheckMessage },
+    matchWordList: mockMatchWordList,
+    default: { checkMessage: mockCheckMessage, matchWordList: mockMatchWordList },
 }));
 
 const mockLogAutoMod = jest.fn();
@@ -454,12 +456,14 @@ describe('AutoModService', () => {
 
         it('should check filtered_words from settings', async () => {
             mockCheckMessage.mockResolvedValue(null);
+            mockMatchWordList.mockReturnValueOnce({ word: 'badword', form: 'raw' });
             const msg = createMockMessage('you said badword here');
 
             const result = await checkWordFilter(msg as any, defaultSettings);
 
             expect(result).not.toBeNull();
             expect(result!.trigger).toContain('badword');
+            expect(mockMatchWordList).toHaveBeenCalledWith('111', 'you said badword here', ['badword']);
         });
 
         it('should return null when filter disabled', async () => {
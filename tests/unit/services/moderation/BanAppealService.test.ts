@@ -0,0 +1,295 @@
+/**
+ * BanAppealService Unit Tests
+ * Tests for appeal eligibility and resubmission cooldown, staff posting,
+ * accept/deny/request-info reviews and linking accepted appeals to cases
+ */
+
+const mockAppealRepo = {
+    create: jest.fn(),
+    getById: jest.fn(),
+    getByCase: jest.fn(),
+    setStaffMessage: jest.fn(),
+    decide: jest.fn(),
+    requestInfo: jest.fn(),
+    respond: jest.fn(),
+    reopen: jest.fn(),
+    setResultCase: jest.fn()
+};
+jest.mock('../../../../src/repositories/moderation/banAppealRepository', () => ({
+    __esModule: true,
+    default: mockAppealRepo
+}));
+
+const mockGetByCaseId = jest.fn();
+const mockDeactivate = jest.fn();
+jest.mock('../../../../src/repositories/moderation/infractionRepository', () => ({
+    __esModule: true,
+    default: { getByCaseId: mockGetByCaseId, deactivate: mockDeactivate }
+}));
+
+const mockGetSetting = jest.fn();
+const mockUpdateSetting = jest.fn();
+jest.mock('../../../../src/services/guild/guildSettingsService', () => ({
+    __esModule: true,
+    default: { getSetting: mockGetSetting, updateSetting: mockUpdateSetting }
+}));
+
+const mockCreateInfraction = jest.fn();
+jest.mock('../../../../src/services/moderation/infractionService', () => ({
+    __esModule: true,
+    default: { createInfraction: mockCreateInfraction }
+}));
+
+const mockUnbanUser = jest.fn();
+jest.mock('../../../../src/services/moderation/moderationService', () => ({
+    __esModule: true,
+    default: { unbanUser: mockUnbanUser }
+}));
+
+const mockCancel = jest.fn();
+jest.mock('../../../../src/services/moderation/moderationScheduler', () => ({
+    __esModule: true,
+    default: { cancel: mockCancel }
+}));
+
+jest.mock('../../../../src/core/observability/Logger', () => ({
+    __esModule: true,
+    default: { error: jest.fn(), debug: jest.fn(), info: jest.fn(), warn: jest.fn() }
+}));
+
+import { BanAppealService } from '../../../../src/services/moderation/banAppealService.js';
+import { Result } from '../../../../src/core/errors/Result.js';
+import { ErrorCodes } from '../../../../src/core/errors/ErrorCodes.js';
+import moderationConfig from '../../../../src/config/features/moderation/index.js';
+import type { BanAppeal } from '../../../../src/types/moderation/ban-appeal.js';
+
+const appeal = (overrides: Partial<BanAppeal> = {}): BanAppeal => ({
+    id: 7,
+    guildId: 'guild-1',
+    userId: 'user-1',
+    caseId: 12,
+    statement: 'I am sorry, it will not happen again.',
+    status: 'pending',
+    infoRequest: null,
+    infoResponse: null,
+    reviewerId: null,
+    reviewNote: null,
+    resultCaseId: null,
+    staffChannelId: null,
+    staffMessageId: null,
+    createdAt: new Date(),
+    reviewedAt: null,
+    ...overrides
+});
+
+const banCase = { case_id: 12, user_id: 'user-1', type: 'ban', reason: 'Spam' };
+
+const mockSend = jest.fn();
+const mockUserSend = jest.fn();
+const staffChannel = { id: 'staff-1', isSendable: () => true, send: mockSend };
+const user = { id: 'user-1', tag: 'User#0001', displayAvatarURL: () => 'https://cdn.discordapp.com/embed/avatars/0.png', send: mockUserSend };
+
+const client = {
+    rest: { get: jest.fn() },
+    channels: { fetch: jest.fn() },
+    users: { fetch: jest.fn() }
+};
+
+const guild = { id: 'guild-1', name: 'Test Guild', client };
+const moderator = { id: 'mod-1', user: { id: 'mod-1', tag: 'Mod#0001' } };
+
+describe('BanAppealService', () => {
+    let service: BanAppealService;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        service = new BanAppealService();
+        mockGetSetting.mockResolvedValue({ channelId: 'staff-1' });
+        mockGetByCaseId.mockResolvedValue(banCase);
+        mockAppealRepo.getByCase.mockResolvedValue([]);
+        client.rest.get.mockResolvedValue({ user: { id: 'user-1' } });
+        client.channels.fetch.mockResolvedValue(staffChannel);
+        client.users.fetch.mockResolvedValue(user);
+        mockSend.mockResolvedValue({ id: 'msg-1' });
+        mockUserSend.mockResolvedValue(undefined);
+    });
+
+    describe('checkEligibility', () => {
+        it('should allow a banned user to appeal their own ban case', async () => {
+            const result = await service.checkEligibility(client as any, 'guild-1', 'user-1', 12);
+
+            expect(result.isOk()).toBe(true);
+        });
+
+        it('should refuse when the guild has no appeal channel', async () => {
+            mockGetSetting.mockResolvedValue({ channelId: null });
+
+            const result = await service.checkEligibility(client as any, 'guild-1', 'user-1', 12);
+
+            expect(result.code).toBe(ErrorCodes.NOT_FOUND);
+        });
+
+        it('should refuse a case that belongs to someone else', async () => {
+            mockGetByCaseId.mockResolvedValue({ ...banCase, user_id: 'user-2' });
+
+            const result = await service.checkEligibility(client as any, 'guild-1', 'user-1', 12);
+
+            expect(result.code).toBe(ErrorCodes.CASE_NOT_FOUND);
+        });
+
+        it('should refuse when the user is no longer banned', async () => {
+            client.rest.get.mockRejectedValue(new Error('Unknown Ban'));
+
+            const result = await service.checkEligibility(client as any, 'guild-1', 'user-1', 12);
+
+            expect(result.code).toBe(ErrorCodes.USER_NOT_BANNED);
+        });
+
+        it('should refuse while an appeal is still open', async () => {
+            mockAppealRepo.getByCase.mockResolvedValue([appeal({ status: 'info_requested' })]);
+
+            const result = await service.checkEligibility(client as any, 'guild-1', 'user-1', 12);
+
+            expect(result.isErr()).toBe(true);
+            expect(result.error).toContain('already have an appeal');
+        });
+
+        it('should enforce the cooldown after a denied appeal', async () => {
+            mockAppealRepo.getByCase.mockResolvedValue([appeal({ status: 'denied', reviewedAt: new Date() })]);
+
+            const result = await service.checkEligibility(client as any, 'guild-1', 'user-1', 12);
+
+            expect(result.code).toBe(ErrorCodes.RATE_LIMITED);
+        });
+
+        it('should allow a new appeal once the cooldown has passed', async () => {
+            const reviewedAt = new Date(Date.now() - moderationConfig.punishments.ban.appealCooldownMs - 1000);
+            mockAppealRepo.getByCase.mockResolvedValue([appeal({ status: 'denied', reviewedAt })]);
+
+            const result = await service.checkEligibility(client as any, 'guild-1', 'user-1', 12);
+
+            expect(result.isOk()).toBe(true);
+        });
+    });
+
+    describe('submit', () => {
+        it('should store the appeal and post it to the staff channel with review buttons', async () => {
+            mockAppealRepo.create.mockResolvedValue(appeal());
+
+            const result = await service.submit(client as any, 'guild-1', user as any, 12, 'Please unban me, I learned my lesson.');
+
+            expect(result.isOk()).toBe(true);
+            expect(mockAppealRepo.create).toHaveBeenCalledWith({
+                guildId: 'guild-1',
+                userId: 'user-1',
+                caseId: 12,
+                statement: 'Please unban me, I learned my lesson.'
+            });
+            const posted = mockSend.mock.calls[0][0];
+            expect(posted.components[0].components.map((b: any) => b.data.custom_id)).toEqual([
+                'appeal_accept_7', 'appeal_deny_7', 'appeal_info_7'
+            ]);
+            expect(mockAppealRepo.setStaffMessage).toHaveBeenCalledWith(7, 'staff-1', 'msg-1');
+        });
+
+        it('should keep the appeal when the staff channel cannot be reached', async () => {
+            mockAppealRepo.create.mockResolvedValue(appeal());
+            mockSend.mockRejectedValue(new Error('Missing Access'));
+
+            const result = await service.submit(client as any, 'guild-1', user as any, 12, 'Please unban me, I learned my lesson.');
+
+            expect(result.isOk()).toBe(true);
+            expect(mockAppealRepo.setStaffMessage).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('accept', () => {
+        beforeEach(() => {
+            mockAppealRepo.getById.mockResolvedValue(appeal());
+            mockAppealRepo.decide.mockResolvedValue(appeal({ status: 'accepted', reviewerId: 'mod-1' }));
+            mockUnbanUser.mockResolvedValue(Result.ok({ userId: 'user-1', action: 'unban' }));
+            mockCreateInfraction.mockResolvedValue({ case_id: 30 });
+        });
+
+        it('should unban through the moderation service and link the unban case to the ban case', async () => {
+            const result = await service.accept(guild as any, 7, moderator as any, 'Welcome back');
+
+            expect(result.isOk()).toBe(true);
+            expect(mockUnbanUser).toHaveBeenCalledWith(guild, 'user-1', moderator, 'Appeal #7 accepted (case #12): Welcome back');
+            expect(mockCancel).toHaveBeenCalledWith('guild-1', 'unban', 'user-1');
+            expect(mockDeactivate).toHaveBeenCalledWith('guild-1', 12, 'mod-1', 'Appeal #7 accepted');
+            expect(mockCreateInfraction).toHaveBeenCalledWith(expect.objectContaining({
+                type: 'unban',
+                referenceId: 12,
+                metadata: { appeal_id: 7 }
+            }));
+            expect(mockAppealRepo.setResultCase).toHaveBeenCalledWith(7, 30);
+            expect(result.data!.resultCaseId).toBe(30);
+            expect(mockUserSend).toHaveBeenCalled();
+        });
+
+        it('should reopen the appeal when the unban fails', async () => {
+            mockUnbanUser.mockResolvedValue(Result.err(ErrorCodes.CANNOT_BAN, 'Missing Permissions'));
+
+            const result = await service.accept(guild as any, 7, moderator as any, null);
+
+            expect(result.isErr()).toBe(true);
+            expect(mockAppealRepo.reopen).toHaveBeenCalledWith(7);
+            expect(mockCreateInfraction).not.toHaveBeenCalled();
+        });
+
+        it('should not act twice on an appeal another moderator already closed', async () => {
+            mockAppealRepo.decide.mockResolvedValue(null);
+
+            const result = await service.accept(guild as any, 7, moderator as any, null);
+
+            expect(result.error).toContain('already been reviewed');
+            expect(mockUnbanUser).not.toHaveBeenCalled();
+        });
+
+        it('should refuse an appeal from another guild', async () => {
+            mockAppealRepo.getById.mockResolvedValue(appeal({ guildId: 'guild-2' }));
+
+            const result = await service.accept(guild as any, 7, moderator as any, null);
+
+            expect(result.code).toBe(ErrorCodes.NOT_FOUND);
+            expect(mockAppealRepo.decide).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('deny', () => {
+        it('should close the appeal and tell the user when they can appeal again', async () => {
+            mockAppealRepo.getById.mockResolvedValue(appeal());
+            mockAppealRepo.decide.mockResolvedValue(appeal({ status: 'denied', reviewerId: 'mod-1' }));
+
+            const result = await service.deny(guild as any, 7, moderator as any, 'Not convincing');
+
+            expect(result.isOk()).toBe(true);
+            expect(mockAppealRepo.decide).toHaveBeenCalledWith(7, 'denied', 'mod-1', 'Not convincing');
+            expect(mockUnbanUser).not.toHaveBeenCalled();
+            expect(mockUserSend.mock.calls[0][0].embeds[0].data.description).toContain('appeal again');
+        });
+    });
+
+    describe('requestInfo and respond', () => {
+        it('should DM the question with an answer button', async () => {
+            mockAppealRepo.getById.mockResolvedValue(appeal());
+            mockAppealRepo.requestInfo.mockResolvedValue(appeal({ status: 'info_requested', infoRequest: 'Which account?' }));
+
+            const result = await service.requestInfo(guild as any, 7, moderator as any, 'Which account?');
+
+            expect(result.isOk()).toBe(true);
+            const dm = mockUserSend.mock.calls[0][0];
+            expect(dm.components[0].components[0].data.custom_id).toBe('appeal_respond_7');
+        });
+
+        it('should only accept answers from the appealing user', async () => {
+            mockAppealRepo.getById.mockResolvedValue(appeal({ status: 'info_requested' }));
+
+            const result = await service.respond(client as any, 7, { id: 'user-2' } as any, 'Hi');
+
+            expect(result.code).toBe(ErrorCodes.NOT_FOUND);
+            expect(mockAppealRepo.respond).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -1,10 +1,10 @@
 /**
  * FilterService Unit Tests
- * Tests for word filtering, normalization, and pattern matching
+ * Tests for word filtering, normalization, pattern matching and filter testing
  */
 
 // Mock Logger
-jest.mock('../../../../src/core/Logger', () => ({
+jest.mock('../../../../src/core/observability/Logger', () => ({
     __esModule: true,
     default: {
         error: jest.fn(),
@@ -60,6 +60,7 @@ jest.mock('../../../../src/config/features/moderation/filters', () => ({
             normalizeUnicode: true,
             checkLeetspeak: true,
             stripZalgo: true,
+            collapseSeparators: true,
             minWordLength: 2,
             logContent: false,
             logChannel: null,
@@ -79,7 +80,9 @@ jest.mock('../../../../src/config/features/moderation/filters', () => ({
             '7': 't',
             '@': 'a',
         },
-        unicodeMap: {},
+        unicodeMap: {
+            'а': 'a', 'е': 'e', 'о': 'o', 'і': 'i', 'ѕ': 's',
+        },
         zalgoPattern: /[\u0300-\u036f\u0489]/g,
         presets: {
             basic: {
@@ -97,13 +100,19 @@ jest.mock('../../../../src/config/features/moderation/filters', () => ({
 
 import {
     normalizeText,
+    collapseSeparators,
+    normalizeForms,
     matchesFilter,
+    matchWordList,
     checkMessage,
+    getCompiledFilters,
+    testText,
     addFilter,
     removeFilter,
     clearFilters,
     importPreset,
     getFilterCount,
+    listExactFilters,
     invalidateCache,
     type Filter,
 } from '../../../../src/services/moderation/filterService';
@@ -149,6 +158,42 @@ describe('FilterService', () => {
         });
     });
 
+    // ========== normalisation pipeline ==========
+    describe('normalisation pipeline', () => {
+        it('should strip zero-width characters', () => {
+            expect(normalizeText('b\u200Ba\u200Dd\uFEFF')).toBe('bad');
+        });
+
+        it('should fold fullwidth and styled letters with NFKC', () => {
+            expect(normalizeText('ｂａｄ')).toBe('bad');
+            expect(normalizeText('𝐛𝐚𝐝')).toBe('bad');
+        });
+
+        it('should fold Cyrillic homoglyphs', () => {
+            expect(normalizeText('bаd wоrd')).toBe('bad word');
+        });
+
+        it('should join spaced-out letters', () => {
+            expect(collapseSeparators('b a d')).toBe('bad');
+            expect(collapseSeparators('say b.a.d now')).toBe('say bad now');
+            expect(collapseSeparators('b  a   d')).toBe('bad');
+            expect(collapseSeparators('b _ a _ d')).toBe('bad');
+        });
+
+        it('should leave ordinary words apart', () => {
+            expect(collapseSeparators('a cat and a dog')).toBe('a cat and a dog');
+            expect(collapseSeparators('i am ok')).toBe('i am ok');
+        });
+
+        it('should not glue a neighbouring one-letter word onto a run', () => {
+            expect(collapseSeparators('a b.a.d')).toBe('a bad');
+        });
+
+        it('should build raw, normalised and collapsed forms', () => {
+            expect(normalizeForms('B 4 D')).toEqual({ raw: 'b 4 d', normalized: 'b a d', collapsed: 'bad' });
+        });
+    });
+
     // ========== matchesFilter() ==========
     describe('matchesFilter()', () => {
         const createFilter = (overrides: Partial<Filter> = {}): Filter => ({
@@ -241,6 +286,73 @@ describe('FilterService', () => {
         });
     });
 
+    // ========== bypass attempts ==========
+    describe('bypass attempts', () => {
+        const createFilter = (overrides: Partial<Filter> = {}): Filter => ({
+            id: 1,
+            guild_id: '123',
+            pattern: 'bad',
+            match_type: 'word',
+            action: 'delete_warn',
+            severity: 1,
+            created_by: '999',
+            created_at: new Date(),
+            ...overrides,
+        });
+
+        it.each([
+            ['zero-width characters', 'so b\u200Ba\u200Bd'],
+            ['Cyrillic homoglyphs', 'so bаd'],
+            ['zalgo', 'so b̷a̸d̵'],
+            ['spacing', 'so b a d'],
+            ['separators', 'so b.a.d'],
+            ['leetspeak', 'so b4d'],
+            ['mixed tricks', 'so b\u200B.4.d'],
+        ])('should catch %s', (_, text) => {
+            expect(matchesFilter(text, createFilter())).toBe(true);
+        });
+
+        it('should normalise the filter pattern the same way as the message', () => {
+            const filter = createFilter({ match_type: 'contains', pattern: 'h3ll0' });
+            expect(matchesFilter('hello there', filter)).toBe(true);
+        });
+
+        it('should only match raw text when normalisation is turned off', () => {
+            const filter = createFilter({ normalize: false });
+            expect(matchesFilter('so bad', filter)).toBe(true);
+            expect(matchesFilter('so b4d', filter)).toBe(false);
+            expect(matchesFilter('so b a d', filter)).toBe(false);
+        });
+
+        it('should run regex filters against the normalised forms', () => {
+            const filter = createFilter({ match_type: 'regex', pattern: '^bad+$' });
+            expect(matchesFilter('b a d d', filter)).toBe(true);
+        });
+
+        it('should still reject over-long regex patterns', () => {
+            const filter = createFilter({ match_type: 'regex', pattern: `bad${'d?'.repeat(100)}` });
+            expect(matchesFilter('bad', filter)).toBe(false);
+        });
+    });
+
+    // ========== matchWordList() ==========
+    describe('matchWordList()', () => {
+        it('should report the word and the form it matched on', () => {
+            expect(matchWordList('guild-1', 'you said badword', ['badword'])).toEqual({ word: 'badword', form: 'raw' });
+            expect(matchWordList('guild-1', 'you said b4dw0rd', ['badword'])).toEqual({ word: 'badword', form: 'normalized' });
+        });
+
+        it('should skip empty words and return null for clean text', () => {
+            expect(matchWordList('guild-1', 'hello world', ['', 'badword'])).toBeNull();
+        });
+
+        it('should pick up a changed word list', () => {
+            expect(matchWordList('guild-2', 'you said badword', ['other'])).toBeNull();
+            expect(matchWordList('guild-2', 'you said badword', ['other', 'badword'])).toEqual({ word: 'badword', form: 'raw' });
+            expect(matchWordList('guild-2', 'you said badword', ['other'])).toBeNull();
+        });
+    });
+
     // ========== checkMessage() ==========
     describe('checkMessage()', () => {
         it('should return null for empty content', async () => {
@@ -279,6 +391,26 @@ describe('FilterService', () => {
             expect(result!.pattern).toBe('badword');
             expect(result!.severity).toBe(2);
             expect(result!.action).toBe('delete_warn');
+            expect(result!.form).toBe('raw');
+        });
+
+        it('should report a match found on the collapsed form', async () => {
+            const filter: Filter = {
+                id: 2,
+                guild_id: 'guild-1',
+                pattern: 'badword',
+                match_type: 'word',
+                action: 'delete',
+                severity: 3,
+                created_by: '999',
+                created_at: new Date(),
+            };
+            mockGetOrSet.mockResolvedValue([filter]);
+
+            const result = await checkMessage('guild-1', 'you are a b.a.d.w.0.r.d');
+
+            expect(result!.pattern).toBe('badword');
+            expect(result!.form).toBe('collapsed');
         });
 
         it('should strip URLs before checking (exempt patterns)', async () => {
@@ -301,6 +433,72 @@ describe('FilterService', () => {
         });
     });
 
+    // ========== getCompiledFilters() ==========
+    describe('getCompiledFilters()', () => {
+        const filters = (pattern: string): Filter[] => [{
+            id: 1,
+            guild_id: 'guild-2',
+            pattern,
+            match_type: 'contains',
+            action: 'delete',
+            severity: 1,
+            created_by: '999',
+            created_at: new Date(),
+        }];
+
+        it('should reuse compiled filters while the list is unchanged', async () => {
+            mockGetOrSet.mockImplementation(async () => filters('bad'));
+
+            const first = await getCompiledFilters('guild-2');
+            const second = await getCompiledFilters('guild-2');
+
+            expect(second).toBe(first);
+        });
+
+        it('should recompile when the list changes or is invalidated', async () => {
+            mockGetOrSet.mockImplementation(async () => filters('bad'));
+            const first = await getCompiledFilters('guild-2');
+
+            await invalidateCache('guild-2');
+            const afterInvalidate = await getCompiledFilters('guild-2');
+
+            mockGetOrSet.mockImplementation(async () => filters('worse'));
+            const afterChange = await getCompiledFilters('guild-2');
+
+            expect(afterInvalidate).not.toBe(first);
+            expect(afterChange).not.toBe(afterInvalidate);
+            expect(afterChange[0].normalized!.test('worse')).toBe(true);
+        });
+    });
+
+    // ========== testText() ==========
+    describe('testText()', () => {
+        const filterList: Filter[] = [
+            { id: 1, guild_id: 'guild-3', pattern: 'bad', match_type: 'word', action: 'delete', severity: 2, created_by: '999', created_at: new Date() },
+            { id: 2, guild_id: 'guild-3', pattern: 'b a d', match_type: 'contains', action: 'warn', severity: 1, normalize: false, created_by: '999', created_at: new Date() },
+            { id: 3, guild_id: 'guild-3', pattern: 'clean', match_type: 'word', action: 'delete', severity: 1, created_by: '999', created_at: new Date() },
+        ];
+
+        it('should list every matching filter with the form it matched', async () => {
+            mockGetOrSet.mockResolvedValue(filterList);
+
+            const result = await testText('guild-3', 'so b a d', ['so']);
+
+            expect(result.forms.collapsed).toBe('so bad');
+            expect(result.matches.map(m => [m.filter.id, m.form])).toEqual([[1, 'collapsed'], [2, 'raw']]);
+            expect(result.wordMatch).toEqual({ word: 'so', form: 'raw' });
+        });
+
+        it('should report no matches for text that is exempt', async () => {
+            mockGetOrSet.mockResolvedValue(filterList);
+
+            const result = await testText('guild-3', 'https://bad.example.com');
+
+            expect(result.matches).toEqual([]);
+            expect(result.wordMatch).toBeNull();
+        });
+    });
+
     // ========== addFilter() ==========
     describe('addFilter()', () => {
         it('should add filter and invalidate cache', async () => {
@@ -372,6 +570,20 @@ describe('FilterService', () => {
         });
     });
 
+    // ========== listExactFilters() ==========
+    describe('listExactFilters()', () => {
+        it('should return only filters with normalisation turned off', async () => {
+            mockFilterRepoGetAll.mockResolvedValueOnce([
+                { id: 1, pattern: 'bad', normalize: true },
+                { id: 2, pattern: 'ass', normalize: false },
+                { id: 3, pattern: 'worse' },
+            ]);
+
+            const filters = await listExactFilters('guild-1');
+            expect(filters.map(f => f.pattern)).toEqual(['ass']);
+        });
+    });
+
     // ========== invalidateCache() ==========
     describe('invalidateCache()', () => {
         it('should delete guild filter cache', async () => {
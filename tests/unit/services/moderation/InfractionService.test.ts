@@ -13,6 +13,7 @@ const mockDeactivate = jest.fn();
 const mockGetRecent = jest.fn();
 const mockGetStats = jest.fn();
 const mockExpireOld = jest.fn();
+const mockClearWarnings = jest.fn();
 
 jest.mock('../../../../src/repositories/moderation/infractionRepository', () => ({
     __esModule: true,
@@ -23,6 +24,7 @@ jest.mock('../../../../src/repositories/moderation/infractionRepository', () =>
         countActiveWarnings: mockCountActiveWarnings,
         update: mockUpdate,
         deactivate: mockDeactivate,
+        clearWarnings: mockClearWarnings,
         getRecent: mockGetRecent,
         getStats: mockGetStats,
         expireOld: mockExpireOld,
@@ -431,27 +433,18 @@ describe('InfractionService', () => {
 
     // --- clearWarnings ---
     describe('clearWarnings', () => {
-        it('should execute SQL to deactivate warnings and return count', async () => {
-            mockDbQuery.mockResolvedValue({ rowCount: 5 });
+        it('should clear warnings via repository with the editor', async () => {
+            mockClearWarnings.mockResolvedValue(5);
 
-            const result = await clearWarnings('111', '222');
+            const result = await clearWarnings('111', '222', '333', 'Fresh start');
 
-            expect(mockDbQuery).toHaveBeenCalledWith(
-                expect.stringContaining('UPDATE mod_cases SET active = FALSE'),
-                ['111', '222', 'warn']
-            );
+            expect(mockClearWarnings).toHaveBeenCalledWith('111', '222', '333', 'Fresh start');
             expect(result).toBe(5);
         });
 
         it('should return 0 when no warnings cleared', async () => {
-            mockDbQuery.mockResolvedValue({ rowCount: 0 });
-            const result = await clearWarnings('111', '222');
-            expect(result).toBe(0);
-        });
-
-        it('should return 0 when rowCount is undefined', async () => {
-            mockDbQuery.mockResolvedValue({});
-            const result = await clearWarnings('111', '222');
+            mockClearWarnings.mockResolvedValue(0);
+            const result = await clearWarnings('111', '222', '333');
             expect(result).toBe(0);
         });
     });
@@ -475,15 +468,15 @@ describe('InfractionService', () => {
     // --- deleteCase ---
     describe('deleteCase', () => {
         it('should deactivate case via repository', async () => {
-            mockDeactivate.mockResolvedValue(mockInfraction);
-            const result = await deleteCase('111', 42);
-            expect(mockDeactivate).toHaveBeenCalledWith('111', 42);
+            mockDeactivate.mockResolvedValue(true);
+            const result = await deleteCase('111', 42, '333', 'Duplicate');
+            expect(mockDeactivate).toHaveBeenCalledWith('111', 42, '333', 'Duplicate');
             expect(result).toBe(true);
         });
 
         it('should return false when case not found', async () => {
-            mockDeactivate.mockResolvedValue(null);
-            const result = await deleteCase('111', 999);
+            mockDeactivate.mockResolvedValue(false);
+            const result = await deleteCase('111', 999, '333');
             expect(result).toBe(false);
         });
     });
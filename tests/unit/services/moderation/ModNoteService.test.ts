@@ -0,0 +1,113 @@
+/**
+ * ModNoteService Unit Tests
+ * Tests for note validation and author/manager-only edits and deletes
+ */
+
+const mockNoteRepo = {
+    create: jest.fn(),
+    getById: jest.fn(),
+    getByUser: jest.fn(),
+    update: jest.fn(),
+    remove: jest.fn()
+};
+jest.mock('../../../../src/repositories/moderation/modNoteRepository', () => ({
+    __esModule: true,
+    default: mockNoteRepo
+}));
+
+jest.mock('../../../../src/core/observability/Logger', () => ({
+    __esModule: true,
+    default: { error: jest.fn(), debug: jest.fn(), info: jest.fn(), warn: jest.fn() }
+}));
+
+import { ModNoteService } from '../../../../src/services/moderation/modNoteService.js';
+import { ErrorCodes } from '../../../../src/core/errors/ErrorCodes.js';
+import moderationConfig from '../../../../src/config/features/moderation/index.js';
+import type { ModNote } from '../../../../src/types/moderation/mod-note.js';
+
+const note = (overrides: Partial<ModNote> = {}): ModNote => ({
+    id: 3,
+    guildId: 'guild-1',
+    userId: 'user-1',
+    authorId: 'mod-1',
+    content: 'Known alt of a banned user',
+    createdAt: new Date(),
+    updatedAt: null,
+    updatedBy: null,
+    ...overrides
+});
+
+const member = (id: string, manager = false) => ({
+    id,
+    permissions: { has: jest.fn().mockReturnValue(manager) }
+});
+
+describe('ModNoteService', () => {
+    let service: ModNoteService;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        service = new ModNoteService();
+        mockNoteRepo.getById.mockResolvedValue(note());
+    });
+
+    describe('addNote', () => {
+        it('should store a trimmed note', async () => {
+            mockNoteRepo.create.mockResolvedValue(note());
+
+            const result = await service.addNote('guild-1', 'user-1', 'mod-1', '  Known alt of a banned user  ');
+
+            expect(result.isOk()).toBe(true);
+            expect(mockNoteRepo.create).toHaveBeenCalledWith({
+                guildId: 'guild-1',
+                userId: 'user-1',
+                authorId: 'mod-1',
+                content: 'Known alt of a banned user'
+            });
+        });
+
+        it('should reject empty and overlong notes', async () => {
+            const empty = await service.addNote('guild-1', 'user-1', 'mod-1', '   ');
+            const long = await service.addNote('guild-1', 'user-1', 'mod-1', 'x'.repeat(moderationConfig.notes.maxLength + 1));
+
+            expect(empty.code).toBe(ErrorCodes.INVALID_INPUT);
+            expect(long.code).toBe(ErrorCodes.INVALID_INPUT);
+            expect(mockNoteRepo.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('editNote', () => {
+        it('should let the author edit and record them as editor', async () => {
+            mockNoteRepo.update.mockResolvedValue(note({ content: 'Updated', updatedBy: 'mod-1' }));
+
+            const result = await service.editNote('guild-1', 3, member('mod-1') as any, 'Updated');
+
+            expect(result.isOk()).toBe(true);
+            expect(mockNoteRepo.update).toHaveBeenCalledWith('guild-1', 3, 'Updated', 'mod-1');
+        });
+
+        it('should refuse another moderator without Manage Server', async () => {
+            const result = await service.editNote('guild-1', 3, member('mod-2') as any, 'Updated');
+
+            expect(result.code).toBe(ErrorCodes.UNAUTHORIZED);
+            expect(mockNoteRepo.update).not.toHaveBeenCalled();
+        });
+
+        it('should report a missing note', async () => {
+            mockNoteRepo.getById.mockResolvedValue(null);
+
+            const result = await service.editNote('guild-1', 99, member('mod-1') as any, 'Updated');
+
+            expect(result.code).toBe(ErrorCodes.NOT_FOUND);
+        });
+    });
+
+    describe('deleteNote', () => {
+        it('should let a server manager delete any note', async () => {
+            const result = await service.deleteNote('guild-1', 3, member('admin-1', true) as any);
+
+            expect(result.isOk()).toBe(true);
+            expect(mockNoteRepo.remove).toHaveBeenCalledWith('guild-1', 3);
+        });
+    });
+});
@@ -0,0 +1,258 @@
+/**
+ * ModerationScheduler Unit Tests
+ * Tests for claiming due actions per shard, automatic unban/unlock/role removal cases,
+ * idempotent reversals and retry/give-up handling
+ */
+
+const mockRepo = {
+    schedule: jest.fn(),
+    cancel: jest.fn(),
+    claimDue: jest.fn(),
+    complete: jest.fn(),
+    fail: jest.fn(),
+    releaseStale: jest.fn(),
+    getPending: jest.fn()
+};
+jest.mock('../../../../src/repositories/moderation/scheduledActionRepository', () => ({
+    __esModule: true,
+    default: mockRepo
+}));
+
+const mockDeactivate = jest.fn();
+jest.mock('../../../../src/repositories/moderation/infractionRepository', () => ({
+    __esModule: true,
+    default: { deactivate: mockDeactivate }
+}));
+
+const mockCreateInfraction = jest.fn();
+jest.mock('../../../../src/services/moderation/infractionService', () => ({
+    __esModule: true,
+    default: { createInfraction: mockCreateInfraction }
+}));
+
+const mockUnlockChannel = jest.fn();
+jest.mock('../../../../src/services/moderation/lockdownService', () => ({
+    __esModule: true,
+    default: { unlockChannel: mockUnlockChannel }
+}));
+
+jest.mock('../../../../src/core/observability/Logger', () => ({
+    __esModule: true,
+    default: { error: jest.fn(), debug: jest.fn(), info: jest.fn(), warn: jest.fn() }
+}));
+
+import { DiscordAPIError } from 'discord.js';
+import { ModerationScheduler } from '../../../../src/services/moderation/moderationScheduler.js';
+import moderationConfig from '../../../../src/config/features/moderation/index.js';
+import type { ScheduledAction } from '../../../../src/types/moderation/scheduled-action.js';
+
+const apiError = (code: number) =>
+    Object.assign(Object.create(DiscordAPIError.prototype), { code, message: `API error ${code}` });
+
+const action = (overrides: Partial<ScheduledAction> = {}): ScheduledAction => ({
+    id: 1,
+    guildId: 'guild-1',
+    type: 'unban',
+    targetId: 'user-1',
+    roleId: null,
+    caseId: 12,
+    reason: null,
+    createdBy: 'mod-1',
+    runAt: new Date(),
+    status: 'running',
+    attempts: 1,
+    lastError: null,
+    ...overrides
+});
+
+const createGuild = () => ({
+    id: 'guild-1',
+    members: {
+        unban: jest.fn().mockResolvedValue(undefined),
+        fetch: jest.fn()
+    },
+    channels: {
+        fetch: jest.fn()
+    }
+});
+
+const createClient = (guild: ReturnType<typeof createGuild>) => ({
+    isReady: () => true,
+    shard: null,
+    user: { id: 'bot', tag: 'Bot#0001', username: 'Bot' },
+    guilds: {
+        cache: new Map([[guild.id, guild], ['guild-2', {}]]),
+        fetch: jest.fn().mockResolvedValue(guild)
+    },
+    users: {
+        fetch: jest.fn().mockResolvedValue({ id: 'user-1', tag: 'User#0001' })
+    }
+});
+
+describe('ModerationScheduler', () => {
+    let scheduler: ModerationScheduler;
+    let guild: ReturnType<typeof createGuild>;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        guild = createGuild();
+        scheduler = new ModerationScheduler();
+        (scheduler as any).client = createClient(guild);
+        mockRepo.releaseStale.mockResolvedValue(0);
+        mockRepo.claimDue.mockResolvedValue([]);
+        mockRepo.complete.mockResolvedValue(undefined);
+        mockRepo.fail.mockResolvedValue(undefined);
+        mockCreateInfraction.mockResolvedValue({ case_id: 40 });
+    });
+
+    afterEach(() => scheduler.shutdown());
+
+    describe('runDue', () => {
+        it('should release stale claims and only claim actions for guilds on this shard', async () => {
+            await scheduler.runDue();
+
+            expect(mockRepo.releaseStale).toHaveBeenCalledWith(moderationConfig.scheduler.staleAfterMs);
+            expect(mockRepo.claimDue).toHaveBeenCalledWith(
+                ['guild-1', 'guild-2'],
+                expect.stringContaining('shard-0'),
+                moderationConfig.scheduler.batchSize
+            );
+        });
+
+        it('should do nothing before the client is ready', async () => {
+            (scheduler as any).client = null;
+
+            expect(await scheduler.runDue()).toBe(0);
+            expect(mockRepo.claimDue).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('unban', () => {
+        it('should unban, close the ban case and log a case referencing it', async () => {
+            mockRepo.claimDue.mockResolvedValue([action()]);
+
+            await scheduler.runDue();
+
+            expect(guild.members.unban).toHaveBeenCalledWith('user-1', 'Temporary ban expired (case #12)');
+            expect(mockDeactivate).toHaveBeenCalledWith('guild-1', 12, 'bot', 'Temporary ban expired');
+            expect(mockCreateInfraction).toHaveBeenCalledWith(expect.objectContaining({
+                type: 'unban',
+                referenceId: 12,
+                moderator: expect.objectContaining({ id: 'bot' }),
+                metadata: { automatic: true, scheduled_action_id: 1 }
+            }));
+            expect(mockRepo.complete).toHaveBeenCalledWith(1, 40);
+        });
+
+        it('should complete without a case when the user was already unbanned', async () => {
+            mockRepo.claimDue.mockResolvedValue([action()]);
+            guild.members.unban.mockRejectedValue(apiError(10026));
+
+            await scheduler.runDue();
+
+            expect(mockCreateInfraction).not.toHaveBeenCalled();
+            expect(mockRepo.complete).toHaveBeenCalledWith(1, null);
+        });
+
+        it('should reschedule a failed attempt', async () => {
+            mockRepo.claimDue.mockResolvedValue([action({ attempts: 2 })]);
+            guild.members.unban.mockRejectedValue(new Error('Missing Permissions'));
+
+            const before = Date.now();
+            await scheduler.runDue();
+
+            expect(mockRepo.complete).not.toHaveBeenCalled();
+            const [id, error, retryAt] = mockRepo.fail.mock.calls[0];
+            expect(id).toBe(1);
+            expect(error).toBe('Missing Permissions');
+            expect(retryAt.getTime()).toBeGreaterThanOrEqual(before + moderationConfig.scheduler.retryDelayMs * 2);
+        });
+
+        it('should give up after the last attempt', async () => {
+            mockRepo.claimDue.mockResolvedValue([action({ attempts: moderationConfig.scheduler.maxAttempts })]);
+            guild.members.unban.mockRejectedValue(new Error('Missing Permissions'));
+
+            await scheduler.runDue();
+
+            expect(mockRepo.fail).toHaveBeenCalledWith(1, 'Missing Permissions', null);
+        });
+    });
+
+    describe('remove_role', () => {
+        it('should remove the role and log a role removal case', async () => {
+            const remove = jest.fn().mockResolvedValue(undefined);
+            guild.members.fetch.mockResolvedValue({
+                user: { id: 'user-1' },
+                roles: { cache: new Map([['role-1', {}]]), remove }
+            });
+            mockRepo.claimDue.mockResolvedValue([action({ type: 'remove_role', roleId: 'role-1', caseId: null })]);
+
+            await scheduler.runDue();
+
+            expect(remove).toHaveBeenCalledWith('role-1', 'Timed role expired');
+            expect(mockCreateInfraction).toHaveBeenCalledWith(expect.objectContaining({
+                type: 'role_remove',
+                metadata: expect.objectContaining({ role_id: 'role-1' })
+            }));
+            expect(mockRepo.complete).toHaveBeenCalledWith(1, 40);
+        });
+
+        it('should complete without a case when the member no longer has the role', async () => {
+            guild.members.fetch.mockResolvedValue({ user: { id: 'user-1' }, roles: { cache: new Map(), remove: jest.fn() } });
+            mockRepo.claimDue.mockResolvedValue([action({ type: 'remove_role', roleId: 'role-1' })]);
+
+            await scheduler.runDue();
+
+            expect(mockCreateInfraction).not.toHaveBeenCalled();
+            expect(mockRepo.complete).toHaveBeenCalledWith(1, null);
+        });
+    });
+
+    describe('unlock_channel', () => {
+        const channel = {
+            id: 'chan-1',
+            permissionOverwrites: {},
+            isTextBased: () => true,
+            send: jest.fn().mockResolvedValue(undefined)
+        };
+
+        beforeEach(() => {
+            guild.channels.fetch.mockResolvedValue(channel);
+        });
+
+        it('should unlock the channel and log an unlock case', async () => {
+            mockUnlockChannel.mockResolvedValue({ success: true });
+            mockRepo.claimDue.mockResolvedValue([action({ type: 'unlock_channel', targetId: 'chan-1', caseId: null })]);
+
+            await scheduler.runDue();
+
+            expect(mockUnlockChannel).toHaveBeenCalledWith(channel, 'Timed lockdown expired');
+            expect(channel.send).toHaveBeenCalled();
+            expect(mockCreateInfraction).toHaveBeenCalledWith(expect.objectContaining({
+                type: 'unlock',
+                metadata: expect.objectContaining({ channel_id: 'chan-1' })
+            }));
+            expect(mockRepo.complete).toHaveBeenCalledWith(1, 40);
+        });
+
+        it('should complete without a case when the channel was already unlocked', async () => {
+            mockUnlockChannel.mockResolvedValue({ success: false, error: 'Channel is not locked' });
+            mockRepo.claimDue.mockResolvedValue([action({ type: 'unlock_channel', targetId: 'chan-1' })]);
+
+            await scheduler.runDue();
+
+            expect(mockCreateInfraction).not.toHaveBeenCalled();
+            expect(mockRepo.complete).toHaveBeenCalledWith(1, null);
+        });
+    });
+
+    describe('scheduling', () => {
+        it('should return null instead of throwing when the database is unavailable', async () => {
+            mockRepo.schedule.mockRejectedValue(new Error('connection refused'));
+
+            const result = await scheduler.scheduleUnban('guild-1', 'user-1', new Date(), 12, 'mod-1');
+
+            expect(result).toBeNull();
+        });
+    });
+});
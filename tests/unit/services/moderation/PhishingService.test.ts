@@ -0,0 +1,171 @@
+/**
+ * PhishingService Unit Tests
+ * Tests for scam domain lists, lookalike domains, short link expansion
+ * and dangerous attachment names
+ */
+
+const mockGetOrSet = jest.fn();
+jest.mock('../../../../src/cache/cacheService', () => ({
+    __esModule: true,
+    default: { getOrSet: mockGetOrSet }
+}));
+
+jest.mock('../../../../src/core/observability/Logger', () => ({
+    __esModule: true,
+    default: { error: jest.fn(), debug: jest.fn(), info: jest.fn(), warn: jest.fn() }
+}));
+
+import {
+    checkDomain,
+    checkFileName,
+    findLookalike,
+    foldConfusables,
+    scanMessage
+} from '../../../../src/services/moderation/phishingService.js';
+
+const redirect = (location: string) => ({ status: 301, headers: { get: () => location } });
+
+describe('PhishingService', () => {
+    const mockFetch = jest.fn();
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        global.fetch = mockFetch as unknown as typeof fetch;
+        mockGetOrSet.mockImplementation((_ns: string, _key: string, factory: () => Promise<unknown>) => factory());
+    });
+
+    describe('checkDomain', () => {
+        it('should match known scam domains and their subdomains', () => {
+            expect(checkDomain('dlscord.gift')?.kind).toBe('known_domain');
+            expect(checkDomain('claim.steamcommunlty.com')?.kind).toBe('known_domain');
+        });
+
+        it('should match domains the guild added', () => {
+            const match = checkDomain('nitro-drop.example', { extraDomains: ['nitro-drop.example'] });
+
+            expect(match?.kind).toBe('guild_domain');
+        });
+
+        it('should never flag the real domains', () => {
+            expect(checkDomain('discord.com')).toBeNull();
+            expect(checkDomain('cdn.discordapp.com')).toBeNull();
+            expect(checkDomain('www.steamcommunity.com')).toBeNull();
+        });
+
+        it('should leave lookalikes alone when lookalike detection is off', () => {
+            expect(checkDomain('dlscord-nitro.gift', { lookalike: false })).toBeNull();
+        });
+    });
+
+    describe('findLookalike', () => {
+        it.each([
+            ['dlscord-nitro.gift', 'discord.com'],
+            ['discorcl.app', 'discord.com'],
+            ['d1scord.store', 'discord.com'],
+            ['discord-nitro.gift', 'discord.com'],
+            ['discord.ru', 'discord.com'],
+            ['steamcommunitty.net', 'steamcommunity.com'],
+            ['steamcornmunity.com', 'steamcommunity.com']
+        ])('should flag %s as imitating %s', (host, imitated) => {
+            expect(findLookalike(host)).toBe(imitated);
+        });
+
+        it('should see through Cyrillic letters', () => {
+            expect(findLookalike('xn--dscord-pvf.gift')).toBe('discord.com');
+            expect(foldConfusables('dіscоrd')).toBe('discord');
+        });
+
+        it.each([
+            'discord.js.org',
+            'discordbotlist.com',
+            'github.com',
+            'disco.example',
+            'discordrnap.com',
+            'discard.com',
+            'discords.com'
+        ])('should not flag %s', host => {
+            expect(findLookalike(host)).toBeNull();
+        });
+    });
+
+    describe('checkFileName', () => {
+        it('should block executable extensions', () => {
+            expect(checkFileName('FreeNitro.EXE')?.kind).toBe('dangerous_file');
+            expect(checkFileName('screensaver.scr')?.kind).toBe('dangerous_file');
+            expect(checkFileName('setup.bat. ')?.kind).toBe('dangerous_file');
+        });
+
+        it('should catch extensions hidden behind a harmless one', () => {
+            expect(checkFileName('invoice.pdf.exe')?.kind).toBe('double_extension');
+            expect(checkFileName('photo.jpg.zip')?.kind).toBe('double_extension');
+        });
+
+        it('should catch right-to-left override tricks', () => {
+            expect(checkFileName('photo\u202Egpj.exe')?.kind).toBe('disguised_file');
+        });
+
+        it('should allow ordinary files', () => {
+            expect(checkFileName('screenshot.png')).toBeNull();
+            expect(checkFileName('backup.tar.gz')).toBeNull();
+            expect(checkFileName('clip.mp4.mov')).toBeNull();
+            expect(checkFileName('README')).toBeNull();
+        });
+
+        it('should allow script files and domain-like names', () => {
+            expect(checkFileName('index.js')).toBeNull();
+            expect(checkFileName('x.JS')).toBeNull();
+            expect(checkFileName('notes.com')).toBeNull();
+        });
+    });
+
+    describe('scanMessage', () => {
+        it('should find scam links in message content', async () => {
+            const match = await scanMessage('Free nitro!! https://dlscord-nitro.gift/claim?id=1', []);
+
+            expect(match?.kind).toBe('lookalike');
+            expect(match?.reason).toContain('dlscord-nitro.gift');
+        });
+
+        it('should check attachment names only when file blocking is on', async () => {
+            expect((await scanMessage('', ['game.exe']))?.kind).toBe('dangerous_file');
+            expect(await scanMessage('', ['game.exe'], { blockFiles: false })).toBeNull();
+        });
+
+        it('should not request short links unless expansion is enabled', async () => {
+            const match = await scanMessage('https://bit.ly/abc', []);
+
+            expect(match).toBeNull();
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
+
+        it('should follow short links to the scam domain behind them', async () => {
+            mockFetch.mockResolvedValueOnce(redirect('https://steamcommunlty.com/tradeoffer'));
+
+            const match = await scanMessage('trade me https://bit.ly/abc', [], { expandLinks: true });
+
+            expect(match?.kind).toBe('known_domain');
+            expect(match?.via).toBe('bit.ly');
+            expect(mockFetch).toHaveBeenCalledWith('https://bit.ly/abc', expect.objectContaining({ method: 'HEAD', redirect: 'manual' }));
+        });
+
+        it('should only ever request shortener hosts', async () => {
+            mockFetch
+                .mockResolvedValueOnce(redirect('https://tinyurl.com/next'))
+                .mockResolvedValueOnce(redirect('http://10.0.0.5/admin'));
+
+            const match = await scanMessage('https://bit.ly/abc', [], { expandLinks: true });
+
+            expect(match).toBeNull();
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+            expect(mockFetch).not.toHaveBeenCalledWith('http://10.0.0.5/admin', expect.anything());
+        });
+
+        it('should treat an unreachable short link as clean', async () => {
+            mockFetch.mockRejectedValueOnce(new Error('aborted'));
+
+            const match = await scanMessage('https://bit.ly/abc', [], { expandLinks: true });
+
+            expect(match).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,162 @@
+/**
+ * UserDossierService Unit Tests
+ * Tests for gathering the /modinfo dossier, paging it and recording name changes
+ */
+
+const mockInfractionRepo = {
+    getByUser: jest.fn(),
+    countByUser: jest.fn(),
+    countActiveWarnings: jest.fn()
+};
+jest.mock('../../../../src/repositories/moderation/infractionRepository', () => ({
+    __esModule: true,
+    default: mockInfractionRepo
+}));
+
+const mockNameHistory = { record: jest.fn(), getByUser: jest.fn() };
+jest.mock('../../../../src/repositories/moderation/nameHistoryRepository', () => ({
+    __esModule: true,
+    default: mockNameHistory
+}));
+
+const mockGetAutomodWarnCount = jest.fn();
+jest.mock('../../../../src/cache/cacheService', () => ({
+    __esModule: true,
+    default: { getAutomodWarnCount: mockGetAutomodWarnCount }
+}));
+
+const mockGetFlaggedAccounts = jest.fn();
+jest.mock('../../../../src/services/moderation/antiRaidService', () => ({
+    __esModule: true,
+    default: { getFlaggedAccounts: mockGetFlaggedAccounts }
+}));
+
+const mockGetNotes = jest.fn();
+jest.mock('../../../../src/services/moderation/modNoteService', () => ({
+    __esModule: true,
+    default: { getNotes: mockGetNotes }
+}));
+
+jest.mock('../../../../src/core/observability/Logger', () => ({
+    __esModule: true,
+    default: { error: jest.fn(), debug: jest.fn(), info: jest.fn(), warn: jest.fn() }
+}));
+
+import { UserDossierService } from '../../../../src/services/moderation/userDossierService.js';
+import moderationConfig from '../../../../src/config/features/moderation/index.js';
+
+const user = {
+    id: 'user-1',
+    tag: 'User#0001',
+    bot: false,
+    username: 'user',
+    globalName: 'User',
+    createdAt: new Date(Date.now() - 3 * 86400000),
+    displayAvatarURL: () => 'https://cdn.discordapp.com/embed/avatars/0.png'
+};
+
+const infraction = (caseId: number) => ({
+    case_id: caseId,
+    type: 'warn',
+    reason: 'Spam',
+    moderator_id: 'mod-1',
+    created_at: new Date(),
+    active: true,
+    duration_ms: null
+});
+
+const guild = {
+    id: 'guild-1',
+    members: { fetch: jest.fn() }
+};
+
+describe('UserDossierService', () => {
+    let service: UserDossierService;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        service = new UserDossierService();
+        guild.members.fetch.mockResolvedValue({ joinedAt: new Date() });
+        mockInfractionRepo.getByUser.mockResolvedValue([infraction(1)]);
+        mockInfractionRepo.countByUser.mockResolvedValue({ warn: 2, ban: 1 });
+        mockInfractionRepo.countActiveWarnings.mockResolvedValue(1);
+        mockGetNotes.mockResolvedValue([]);
+        mockGetAutomodWarnCount.mockResolvedValue(2);
+        mockGetFlaggedAccounts.mockResolvedValue(['user-1']);
+        mockNameHistory.getByUser.mockResolvedValue([{ username: 'oldname', globalName: null, changedAt: new Date() }]);
+    });
+
+    describe('getDossier', () => {
+        it('should combine cases, counts, automod warnings, raid flags and past names', async () => {
+            const dossier = await service.getDossier(guild as any, user as any);
+
+            expect(dossier.infractionCounts).toEqual({ warn: 2, ban: 1 });
+            expect(dossier.activeWarnings).toBe(1);
+            expect(dossier.recentAutomodWarnings).toBe(2);
+            expect(dossier.raidFlagged).toBe(true);
+            expect(dossier.pastNames[0]!.username).toBe('oldname');
+            expect(mockNameHistory.getByUser).toHaveBeenCalledWith('user-1', moderationConfig.dossier.nameHistoryLimit);
+        });
+
+        it('should still build a dossier when a source fails or the user left', async () => {
+            guild.members.fetch.mockRejectedValue(new Error('Unknown Member'));
+            mockGetAutomodWarnCount.mockRejectedValue(new Error('Redis down'));
+
+            const dossier = await service.getDossier(guild as any, user as any);
+
+            expect(dossier.joinedAt).toBeNull();
+            expect(dossier.recentAutomodWarnings).toBe(0);
+            expect(dossier.infractions).toHaveLength(1);
+        });
+
+        it('should leave voided cases out unless asked for them', async () => {
+            mockInfractionRepo.getByUser.mockResolvedValue([infraction(1), { ...infraction(2), voided_at: new Date() }]);
+
+            expect((await service.getDossier(guild as any, user as any)).infractions.map(i => i.case_id)).toEqual([1]);
+            expect((await service.getDossier(guild as any, user as any, true)).infractions).toHaveLength(2);
+        });
+    });
+
+    describe('buildPages', () => {
+        it('should page cases and notes after the overview', async () => {
+            const { pageSize } = moderationConfig.dossier;
+            mockInfractionRepo.getByUser.mockResolvedValue(
+                Array.from({ length: pageSize + 1 }, (_, i) => infraction(i + 1)));
+            mockGetNotes.mockResolvedValue([{
+                id: 4, guildId: 'guild-1', userId: 'user-1', authorId: 'mod-1',
+                content: 'Watch this one', createdAt: new Date(), updatedAt: null, updatedBy: null
+            }]);
+
+            const pages = service.buildPages(await service.getDossier(guild as any, user as any));
+
+            expect(pages).toHaveLength(4);
+            expect(pages[0]!.data.fields!.find(f => f.name.includes('Past Usernames'))!.value).toContain('oldname');
+            expect(pages[1]!.data.fields).toHaveLength(pageSize);
+            expect(pages[3]!.data.fields![0]!.value).toContain('Watch this one');
+            expect(pages[3]!.data.footer!.text).toContain('Page 4/4');
+        });
+
+        it('should mark voided cases', async () => {
+            mockInfractionRepo.getByUser.mockResolvedValue([{ ...infraction(1), active: false, voided_at: new Date() }]);
+
+            const pages = service.buildPages(await service.getDossier(guild as any, user as any, true));
+
+            expect(pages[1]!.data.fields![0]!.value).toContain('Voided');
+            expect(pages[1]!.data.fields![0]!.value).not.toContain('Inactive');
+        });
+    });
+
+    describe('recordNameChange', () => {
+        it('should record the previous name when the username changes', async () => {
+            await service.recordNameChange({ ...user, partial: false } as any, { ...user, username: 'newname' } as any);
+
+            expect(mockNameHistory.record).toHaveBeenCalledWith('user-1', 'user', 'User');
+        });
+
+        it('should ignore avatar-only updates', async () => {
+            await service.recordNameChange({ ...user, partial: false } as any, { ...user } as any);
+
+            expect(mockNameHistory.record).not.toHaveBeenCalled();
+        });
+    });
+});
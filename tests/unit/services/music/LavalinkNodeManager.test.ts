@@ -0,0 +1,190 @@
+/**
+ * LavalinkNodeManager Unit Tests
+ * Tests for node scoring, health-weighted node selection and player migration
+ */
+
+// Mock Logger
+jest.mock('../../../../src/core/observability/Logger', () => ({
+    __esModule: true,
+    default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const mockTrackMigration = jest.fn();
+
+jest.mock('../../../../src/core/observability/metrics', () => ({
+    __esModule: true,
+    updateLavalinkMetrics: jest.fn(),
+    updateLavalinkNodeHealthMetrics: jest.fn(),
+    trackLavalinkMigration: (...args: unknown[]) => mockTrackMigration(...args),
+}));
+
+import { LavalinkNodeManager, scoreNode } from '../../../../src/services/music/core/lavalinkNodeManager.js';
+import { nodeHealth } from '../../../../src/config/features/lavalink.js';
+import type { LavalinkNodeStats, ShoukakuNode, ShoukakuPlayer } from '../../../../src/types/music/lavalink-service.js';
+
+function makeStats(systemLoad: number, playingPlayers = 0, deficit = 0): LavalinkNodeStats {
+    return {
+        players: playingPlayers,
+        playingPlayers,
+        uptime: 1000,
+        cpu: { cores: 4, systemLoad, lavalinkLoad: systemLoad / 2 },
+        frameStats: { sent: 3000, deficit, nulled: 0 }
+    };
+}
+
+function makeNode(name: string, stats: LavalinkNodeStats | null = makeStats(0.1), state = 1): ShoukakuNode {
+    return {
+        name,
+        state,
+        stats,
+        penalties: 0,
+        rest: {
+            resolve: jest.fn(),
+            stats: jest.fn().mockResolvedValue(stats ?? undefined),
+        },
+    };
+}
+
+describe('LavalinkNodeManager', () => {
+    let nodes: Map<string, ShoukakuNode>;
+    let players: Map<string, ShoukakuPlayer>;
+    let manager: LavalinkNodeManager;
+
+    function addPlayer(guildId: string, node: ShoukakuNode): ShoukakuPlayer {
+        const player = {
+            guildId,
+            node,
+            move: jest.fn(async (name: string) => {
+                player.node = nodes.get(name)!;
+                return true;
+            }),
+            resume: jest.fn().mockResolvedValue(undefined),
+        } as unknown as ShoukakuPlayer;
+        players.set(guildId, player);
+        return player;
+    }
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        nodes = new Map();
+        players = new Map();
+        manager = new LavalinkNodeManager(() => ({ nodes, players }));
+    });
+
+    describe('scoreNode', () => {
+        it('should weigh CPU, frame deficit, players and ping', () => {
+            const { weights } = nodeHealth;
+
+            expect(scoreNode(makeStats(0.5, 0, 200), 3, 40)).toBeCloseTo(
+                0.5 * weights.cpu + 200 * weights.frameDeficit + 3 * weights.players + 40 * weights.ping
+            );
+        });
+
+        it('should treat a node without stats as idle', () => {
+            expect(scoreNode(null, 0, null)).toBe(0);
+        });
+    });
+
+    describe('pickNode', () => {
+        it('should pick the connected node with the lowest score', () => {
+            nodes.set('busy', makeNode('busy', makeStats(0.9)));
+            nodes.set('idle', makeNode('idle', makeStats(0.1)));
+            nodes.set('down', makeNode('down', makeStats(0), 3));
+
+            expect(manager.pickNode(nodes)?.name).toBe('idle');
+        });
+
+        it('should count players placed since the last stats update', () => {
+            const a = makeNode('a', makeStats(0.1));
+            nodes.set('a', a);
+            nodes.set('b', makeNode('b', makeStats(0.12)));
+            for (let i = 0; i < 5; i++) addPlayer(`g${i}`, a);
+
+            expect(manager.pickNode(nodes)?.name).toBe('b');
+        });
+
+        it('should avoid degraded nodes even when they score lower', async () => {
+            const flaky = makeNode('flaky', makeStats(0));
+            nodes.set('flaky', flaky);
+            nodes.set('steady', makeNode('steady', makeStats(0.5)));
+            (flaky.rest.stats as jest.Mock).mockRejectedValue(new Error('ECONNRESET'));
+
+            for (let i = 0; i < nodeHealth.degradedAfterChecks; i++) await manager.poll();
+
+            expect(manager.getNodeHealth(flaky).degraded).toBe(true);
+            expect(manager.pickNode(nodes)?.name).toBe('steady');
+        });
+    });
+
+    describe('poll', () => {
+        it('should drain a node once it stays over the score limit', async () => {
+            const hot = makeNode('hot', makeStats(2));
+            const cool = makeNode('cool', makeStats(0.1));
+            nodes.set('hot', hot);
+            nodes.set('cool', cool);
+            const player = addPlayer('g1', hot);
+
+            await manager.poll();
+            expect(player.move).not.toHaveBeenCalled();
+
+            await manager.poll();
+            expect(player.move).toHaveBeenCalledWith('cool');
+            expect(player.node).toBe(cool);
+            expect(mockTrackMigration).toHaveBeenCalledWith('degraded', true);
+        });
+
+        it('should recover a node after a healthy poll', async () => {
+            const node = makeNode('n1', makeStats(2));
+            nodes.set('n1', node);
+            for (let i = 0; i < nodeHealth.degradedAfterChecks; i++) await manager.poll();
+            expect(manager.getNodeHealth(node).degraded).toBe(true);
+
+            (node.rest.stats as jest.Mock).mockResolvedValue(makeStats(0.1));
+            await manager.poll();
+
+            expect(manager.getNodeHealth(node)).toMatchObject({ degraded: false, unhealthyChecks: 0 });
+        });
+
+        it('should not move players when every other node is degraded too', async () => {
+            const a = makeNode('a', makeStats(2));
+            nodes.set('a', a);
+            nodes.set('b', makeNode('b', makeStats(2)));
+            const player = addPlayer('g1', a);
+
+            for (let i = 0; i < nodeHealth.degradedAfterChecks; i++) await manager.poll();
+
+            expect(player.move).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('drain after a node is lost', () => {
+        it('should re-send the player state to another node without touching the lost one', async () => {
+            const lost = makeNode('lost');
+            const backup = makeNode('backup');
+            nodes.set('lost', lost);
+            nodes.set('backup', backup);
+            const player = addPlayer('g1', lost);
+
+            const moved = await manager.drain('lost', 'node_lost');
+
+            expect(moved).toBe(1);
+            expect(player.move).not.toHaveBeenCalled();
+            expect(player.resume).toHaveBeenCalled();
+            expect(player.node).toBe(backup);
+        });
+
+        it('should leave the player where it was if the new node refuses it', async () => {
+            const lost = makeNode('lost');
+            nodes.set('lost', lost);
+            nodes.set('backup', makeNode('backup'));
+            const player = addPlayer('g1', lost);
+            (player.resume as jest.Mock).mockRejectedValue(new Error('500'));
+
+            const moved = await manager.drain('lost', 'node_lost');
+
+            expect(moved).toBe(0);
+            expect(player.node).toBe(lost);
+            expect(mockTrackMigration).toHaveBeenCalledWith('node_lost', false);
+        });
+    });
+});
@@ -0,0 +1,170 @@
+/**
+ * LyricsService Unit Tests
+ * Tests for query building, provider swapping, caching and the LRCLIB provider
+ */
+
+// Mock Logger
+jest.mock('../../../../src/core/observability/Logger', () => ({
+    __esModule: true,
+    default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+// Mock CacheService
+const cacheStore = new Map<string, unknown>();
+const mockCacheService = {
+    get: jest.fn(async (ns: string, key: string) => cacheStore.get(`${ns}:${key}`) ?? null),
+    set: jest.fn(async (ns: string, key: string, value: unknown) => { cacheStore.set(`${ns}:${key}`, value); }),
+};
+
+jest.mock('../../../../src/cache/cacheService', () => ({
+    __esModule: true,
+    default: mockCacheService,
+}));
+
+// Run breaker-protected calls directly
+jest.mock('../../../../src/core/resilience/CircuitBreakerRegistry', () => ({
+    __esModule: true,
+    circuitBreakerRegistry: { execute: jest.fn((_name: string, fn: () => Promise<unknown>) => fn()) },
+}));
+
+import { LyricsService } from '../../../../src/services/music/lyrics/lyricsService.js';
+import { LrclibProvider } from '../../../../src/services/music/lyrics/lrclibProvider.js';
+import type { LyricsProvider, LyricsQuery, LyricsResult } from '../../../../src/types/music/lyrics.js';
+
+const FIXTURE_LRC = '[00:01.00]First line\n[00:05.50]Second line\n[00:09.00]Third line';
+
+/**
+ * Local provider serving fixed lyrics, so tests never hit the network
+ */
+class FixtureLyricsProvider implements LyricsProvider {
+    readonly name = 'Fixture';
+    queries: LyricsQuery[] = [];
+
+    constructor(private readonly result: LyricsResult | null) {}
+
+    async search(query: LyricsQuery): Promise<LyricsResult | null> {
+        this.queries.push(query);
+        return this.result;
+    }
+}
+
+const fixtureLyrics: LyricsResult = {
+    trackName: 'Song',
+    artistName: 'Artist',
+    plain: 'First line\nSecond line\nThird line',
+    synced: [
+        { time: 1000, text: 'First line' },
+        { time: 5500, text: 'Second line' },
+        { time: 9000, text: 'Third line' },
+    ],
+    instrumental: false,
+    source: 'Fixture',
+};
+
+describe('LyricsService', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        cacheStore.clear();
+    });
+
+    describe('buildQuery', () => {
+        const service = new LyricsService(new FixtureLyricsProvider(null));
+
+        it('should strip title noise and split "Artist - Title"', () => {
+            const query = service.buildQuery({ title: 'Artist - Song (Official Music Video)', author: 'ArtistVEVO', lengthSeconds: 200 });
+            expect(query).toEqual({ title: 'Song', artist: 'Artist', durationSeconds: 200 });
+        });
+
+        it('should drop the "- Topic" suffix from channel names', () => {
+            const query = service.buildQuery({ title: 'Song [Lyrics]', author: 'Artist - Topic', lengthSeconds: 0 });
+            expect(query).toEqual({ title: 'Song', artist: 'Artist', durationSeconds: undefined });
+        });
+    });
+
+    describe('getLyrics', () => {
+        it('should use the configured provider and cache hits', async () => {
+            const provider = new FixtureLyricsProvider(fixtureLyrics);
+            const service = new LyricsService(provider);
+            const track = { title: 'Song', author: 'Artist', lengthSeconds: 12 };
+
+            const first = await service.getLyrics(track);
+            const second = await service.getLyrics(track);
+
+            expect(first.isOk()).toBe(true);
+            expect(second.data?.synced).toHaveLength(3);
+            expect(provider.queries).toHaveLength(1);
+        });
+
+        it('should allow swapping providers', async () => {
+            const service = new LyricsService(new FixtureLyricsProvider(null));
+            service.setProvider(new FixtureLyricsProvider(fixtureLyrics));
+
+            const result = await service.getLyrics({ title: 'Song', author: 'Artist', lengthSeconds: 12 });
+            expect(result.isOk()).toBe(true);
+            expect(service.getProviderName()).toBe('Fixture');
+        });
+
+        it('should return NOT_FOUND when the provider has nothing', async () => {
+            const service = new LyricsService(new FixtureLyricsProvider(null));
+
+            const result = await service.getLyrics({ title: 'Unknown', lengthSeconds: 0 });
+            expect(result.isErr()).toBe(true);
+            expect(result.code).toBe('NOT_FOUND');
+        });
+
+        it('should return API_ERROR when the provider throws', async () => {
+            const provider: LyricsProvider = { name: 'Broken', search: jest.fn().mockRejectedValue(new Error('timeout')) };
+            const service = new LyricsService(provider);
+
+            const result = await service.getLyrics({ title: 'Song', lengthSeconds: 0 });
+            expect(result.code).toBe('API_ERROR');
+        });
+    });
+});
+
+describe('LrclibProvider', () => {
+    const originalFetch = global.fetch;
+    const mockFetch = jest.fn();
+
+    beforeEach(() => {
+        mockFetch.mockReset();
+        global.fetch = mockFetch as unknown as typeof fetch;
+    });
+
+    afterAll(() => {
+        global.fetch = originalFetch;
+    });
+
+    const jsonResponse = (status: number, body: unknown) => ({ ok: status < 400, status, json: async () => body });
+
+    it('should parse synced lyrics from an exact match', async () => {
+        mockFetch.mockResolvedValueOnce(jsonResponse(200, {
+            id: 1, trackName: 'Song', artistName: 'Artist', duration: 12, syncedLyrics: FIXTURE_LRC, plainLyrics: null,
+        }));
+
+        const result = await new LrclibProvider('http://lrclib.test/api').search({ title: 'Song', artist: 'Artist', durationSeconds: 12 });
+
+        expect(mockFetch.mock.calls[0][0]).toContain('/get?track_name=Song&artist_name=Artist&duration=12');
+        expect(result?.synced).toEqual(fixtureLyrics.synced);
+        expect(result?.plain).toBe(fixtureLyrics.plain);
+    });
+
+    it('should fall back to search and prefer synced results with a matching duration', async () => {
+        mockFetch
+            .mockResolvedValueOnce(jsonResponse(404, {}))
+            .mockResolvedValueOnce(jsonResponse(200, [
+                { id: 1, trackName: 'Song (Live)', artistName: 'Artist', duration: 300, syncedLyrics: '[00:01.00]Live' },
+                { id: 2, trackName: 'Song', artistName: 'Artist', duration: 13, plainLyrics: 'Plain only' },
+                { id: 3, trackName: 'Song', artistName: 'Artist', duration: 12, syncedLyrics: FIXTURE_LRC },
+            ]));
+
+        const result = await new LrclibProvider('http://lrclib.test/api').search({ title: 'Song', artist: 'Artist', durationSeconds: 12 });
+        expect(result?.synced?.[0].text).toBe('First line');
+    });
+
+    it('should throw on server errors', async () => {
+        mockFetch.mockResolvedValueOnce(jsonResponse(500, {}));
+
+        await expect(new LrclibProvider('http://lrclib.test/api').search({ title: 'Song' })).rejects.toThrow('500');
+    });
+});
@@ -4,13 +4,13 @@
  */
 
 // Mock Logger
-jest.mock('../../../../src/core/Logger', () => ({
+jest.mock('../../../../src/core/observability/Logger', () => ({
     __esModule: true,
     default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn(), success: jest.fn() },
 }));
 
 // Mock metrics
-jest.mock('../../../../src/core/metrics', () => ({
+jest.mock('../../../../src/core/observability/metrics', () => ({
     __esModule: true,
     updateMusicMetrics: jest.fn(),
     musicTracksPlayedTotal: { inc: jest.fn() },
@@ -18,6 +18,7 @@ jest.mock('../../../../src/core/metrics', () => ({
 
 // Mock music config
 jest.mock('../../../../src/config/features/music', () => ({
+    ...jest.requireActual('../../../../src/config/features/music'),
     __esModule: true,
     TRACK_TRANSITION_DELAY: 10, // Very short for tests
 }));
@@ -72,6 +73,7 @@ const mockPlaybackService = {
     releaseTransitionLock: jest.fn(),
     search: jest.fn(),
     searchPlaylist: jest.fn(),
+    seek: jest.fn(),
     getTransitionMutex: jest.fn().mockReturnValue({ acquire: jest.fn(), release: jest.fn(), isLocked: jest.fn() }),
 };
 
@@ -145,6 +147,7 @@ const mockMusicEvents = {
     PLAYBACK_PAUSE: 'playback:pause',
     PLAYBACK_RESUME: 'playback:resume',
     PLAYBACK_STOP: 'playback:stop',
+    PLAYBACK_SEEK: 'playback:seek',
     LOOP_CHANGE: 'loop:change',
     VOLUME_CHANGE: 'volume:change',
     AUTOPLAY_TOGGLE: 'autoplay:toggle',
@@ -156,6 +159,7 @@ const mockMusicEvents = {
 const mockPlaybackEventHandler = {
     initialize: jest.fn(),
     shutdown: jest.fn(),
+    expireSleepTimer: jest.fn().mockResolvedValue(undefined),
 };
 
 jest.mock('../../../../src/services/music/events/index', () => ({
@@ -165,6 +169,11 @@ jest.mock('../../../../src/services/music/events/index', () => ({
     playbackEventHandler: mockPlaybackEventHandler,
 }));
 
+jest.mock('../../../../src/services/music/events/musicEventBus', () => ({
+    __esModule: true,
+    default: mockMusicEventBus,
+}));
+
 // Mock MusicCacheFacade
 const mockMusicCache = {
     queueCache: { getStats: jest.fn().mockReturnValue({ activeQueues: 0, totalTracks: 0 }) },
@@ -188,7 +197,10 @@ const mockMusicCache = {
     hasActiveSkipVote: jest.fn().mockReturnValue(false),
     hasEnoughSkipVotes: jest.fn().mockReturnValue(false),
     deleteQueue: jest.fn(),
+    getGuildSettings: jest.fn().mockReturnValue({ twentyFourSeven: false }),
+    getAllActiveGuildIds: jest.fn().mockReturnValue([]),
     getRecentlyPlayed: jest.fn().mockReturnValue([]),
+    removeFromRecentlyPlayed: jest.fn(),
     addFavorite: jest.fn(),
     removeFavorite: jest.fn(),
     getFavorites: jest.fn().mockReturnValue([]),
@@ -210,7 +222,6 @@ const mockTrackHandler = {
     createNowPlayingEmbed: jest.fn().mockReturnValue({ fields: [] }),
     createControlButtons: jest.fn().mockReturnValue([]),
     createInfoEmbed: jest.fn().mockReturnValue({ fields: [] }),
-    createQueueFinishedEmbed: jest.fn().mockReturnValue({ fields: [] }),
 };
 
 jest.mock('../../../../src/handlers/music/trackHandler', () => ({
@@ -218,6 +229,14 @@ jest.mock('../../../../src/handlers/music/trackHandler', () => ({
     default: mockTrackHandler,
 }));
 
+// Mock trackEmbeds
+const mockCreateQueueFinishedEmbed = jest.fn().mockReturnValue({ fields: [] });
+
+jest.mock('../../../../src/handlers/music/trackEmbeds', () => ({
+    ...jest.requireActual('../../../../src/handlers/music/trackEmbeds'),
+    createQueueFinishedEmbed: mockCreateQueueFinishedEmbed,
+}));
+
 import { musicFacade, MusicFacade } from '../../../../src/services/music/core/musicFacade.js';
 
 function makeTrack(title: string) {
@@ -252,7 +271,7 @@ describe('MusicFacade', () => {
 
     describe('updateMetrics', () => {
         it('should update metrics from queue stats', () => {
-            const { updateMusicMetrics } = require('../../../../src/core/metrics');
+            const { updateMusicMetrics } = require('../../../../src/core/observability/metrics');
             mockMusicCache.queueCache.getStats.mockReturnValue({ activeQueues: 3, totalTracks: 15 });
             musicFacade.updateMetrics();
             expect(updateMusicMetrics).toHaveBeenCalledWith({
@@ -382,7 +401,7 @@ describe('MusicFacade', () => {
         });
 
         it('should track metrics on play', async () => {
-            const { musicTracksPlayedTotal } = require('../../../../src/core/metrics');
+            const { musicTracksPlayedTotal } = require('../../../../src/core/observability/metrics');
             mockMusicCache.getQueue.mockReturnValue({ currentTrack: null, isReplacing: false });
             await musicFacade.playTrack('guild1', makeTrack('Song'));
             expect(musicTracksPlayedTotal.inc).toHaveBeenCalledWith({ source: 'youtube' });
@@ -514,6 +533,124 @@ describe('MusicFacade', () => {
         });
     });
 
+    describe('Previous & Replay', () => {
+        it('should play the last other track and put the current one back in front', async () => {
+            const current = makeTrack('Current');
+            const previous = makeTrack('Previous');
+            mockQueueService.getCurrentTrack.mockReturnValue(current);
+            mockMusicCache.getRecentlyPlayed.mockReturnValue([
+                { url: current.url, title: 'Current' },
+                { url: previous.url, title: 'Previous' },
+            ]);
+            mockPlaybackService.search.mockResolvedValue({ isOk: () => true, data: { tracks: [previous] } });
+
+            const result = await musicFacade.playPrevious('guild1', { id: 'user1' });
+            expect(result.isOk()).toBe(true);
+            expect(result.data).toBe(previous);
+            expect(mockPlaybackService.search).toHaveBeenCalledWith(previous.url, { id: 'user1' });
+            expect(mockMusicCache.removeFromRecentlyPlayed).toHaveBeenCalledWith('guild1', current.url);
+            expect(mockMusicCache.addTrackToFront).toHaveBeenCalledWith('guild1', current);
+            expect(mockPlayer.playTrack).toHaveBeenCalledWith({ track: { encoded: 'enc_Previous' } });
+        });
+
+        it('should fail when there is no earlier track', async () => {
+            const current = makeTrack('Current');
+            mockQueueService.getCurrentTrack.mockReturnValue(current);
+            mockMusicCache.getRecentlyPlayed.mockReturnValue([{ url: current.url, title: 'Current' }]);
+
+            const result = await musicFacade.playPrevious('guild1', undefined);
+            expect(result.isErr()).toBe(true);
+            expect(result.code).toBe('TRACK_NOT_FOUND');
+            expect(mockPlayer.playTrack).not.toHaveBeenCalled();
+        });
+
+        it('should drop a previous track that no longer resolves', async () => {
+            mockQueueService.getCurrentTrack.mockReturnValue(null);
+            mockMusicCache.getRecentlyPlayed.mockReturnValue([{ url: 'https://yt.com/Gone', title: 'Gone' }]);
+            mockPlaybackService.search.mockResolvedValue({ isOk: () => false });
+
+            const result = await musicFacade.playPrevious('guild1', undefined);
+            expect(result.isErr()).toBe(true);
+            expect(mockMusicCache.removeFromRecentlyPlayed).toHaveBeenCalledWith('guild1', 'https://yt.com/Gone');
+            expect(mockMusicCache.addTrackToFront).not.toHaveBeenCalled();
+        });
+
+        it('should replay by seeking to the start', async () => {
+            mockPlaybackService.seek.mockResolvedValue({ isOk: () => true, data: { position: 0 } });
+            await expect(musicFacade.replay('guild1')).resolves.toBe(0);
+            expect(mockPlaybackService.seek).toHaveBeenCalledWith('guild1', 0);
+            expect(mockMusicEventBus.emitEvent).toHaveBeenCalledWith('playback:seek', { guildId: 'guild1', position: 0 });
+        });
+    });
+
+    describe('Sleep Timer', () => {
+        beforeEach(() => jest.useFakeTimers());
+        afterEach(() => jest.useRealTimers());
+
+        it('should require something to be playing', () => {
+            mockMusicCache.getQueue.mockReturnValue({ currentTrack: null });
+            const result = musicFacade.setSleepTimer('guild1', 'user1', 2, null);
+            expect(result.code).toBe('NO_TRACK');
+        });
+
+        it('should reject out-of-range values', () => {
+            mockMusicCache.getQueue.mockReturnValue({ currentTrack: makeTrack('A') });
+            expect(musicFacade.setSleepTimer('guild1', 'user1', 0, null).code).toBe('INVALID_INPUT');
+            expect(musicFacade.setSleepTimer('guild1', 'user1', null, 100000).code).toBe('INVALID_INPUT');
+        });
+
+        it('should default to stopping after the current track', () => {
+            const queue: any = { currentTrack: makeTrack('A'), sleepTimer: null, sleepTimerTimeout: null };
+            mockMusicCache.getQueue.mockReturnValue(queue);
+
+            const result = musicFacade.setSleepTimer('guild1', 'user1', null, null);
+            expect(result.data).toEqual({ tracksLeft: 1, endsAt: null, setBy: 'user1' });
+            expect(queue.sleepTimer).toBe(result.data);
+            expect(queue.sleepTimerTimeout).toBeNull();
+        });
+
+        it('should stop playback when the clock runs out', () => {
+            const queue: any = { currentTrack: makeTrack('A'), sleepTimer: null, sleepTimerTimeout: null };
+            mockMusicCache.getQueue.mockReturnValue(queue);
+
+            musicFacade.setSleepTimer('guild1', 'user1', null, 5);
+            expect(queue.sleepTimer.tracksLeft).toBeNull();
+            expect(queue.sleepTimerTimeout).not.toBeNull();
+
+            jest.advanceTimersByTime(5 * 60 * 1000 - 1);
+            expect(mockPlaybackEventHandler.expireSleepTimer).not.toHaveBeenCalled();
+            jest.advanceTimersByTime(1);
+            expect(mockPlaybackEventHandler.expireSleepTimer).toHaveBeenCalledWith('guild1');
+        });
+
+        it('should replace a running clock when set again', () => {
+            const queue: any = { currentTrack: makeTrack('A'), sleepTimer: null, sleepTimerTimeout: null };
+            mockMusicCache.getQueue.mockReturnValue(queue);
+
+            musicFacade.setSleepTimer('guild1', 'user1', null, 5);
+            musicFacade.setSleepTimer('guild1', 'user1', null, 10);
+
+            jest.advanceTimersByTime(5 * 60 * 1000);
+            expect(mockPlaybackEventHandler.expireSleepTimer).not.toHaveBeenCalled();
+            jest.advanceTimersByTime(5 * 60 * 1000);
+            expect(mockPlaybackEventHandler.expireSleepTimer).toHaveBeenCalledTimes(1);
+        });
+
+        it('should cancel the clock when cleared', () => {
+            const queue: any = { currentTrack: makeTrack('A'), sleepTimer: null, sleepTimerTimeout: null };
+            mockMusicCache.getQueue.mockReturnValue(queue);
+
+            musicFacade.setSleepTimer('guild1', 'user1', null, 5);
+            expect(musicFacade.clearSleepTimer('guild1')).toBe(true);
+            expect(queue.sleepTimer).toBeNull();
+            expect(queue.sleepTimerTimeout).toBeNull();
+
+            jest.advanceTimersByTime(5 * 60 * 1000);
+            expect(mockPlaybackEventHandler.expireSleepTimer).not.toHaveBeenCalled();
+            expect(musicFacade.clearSleepTimer('guild1')).toBe(false);
+        });
+    });
+
     describe('Loop/Shuffle', () => {
         it('should toggle loop and emit event', () => {
             mockQueueService.cycleLoopMode.mockReturnValue('track');
@@ -652,7 +789,7 @@ describe('MusicFacade', () => {
             mockQueueService.getCurrentTrack.mockReturnValue(null);
 
             await musicFacade.handleQueueEnd('guild1');
-            expect(mockTrackHandler.createQueueFinishedEmbed).toHaveBeenCalled();
+            expect(mockCreateQueueFinishedEmbed).toHaveBeenCalled();
             expect(mockTextChannel.send).toHaveBeenCalled();
         });
 
@@ -802,8 +939,9 @@ describe('MusicFacade', () => {
     describe('Search', () => {
         it('should delegate search to playbackService', async () => {
             mockPlaybackService.search.mockResolvedValue({ isOk: () => true, data: { tracks: [] } });
-            await musicFacade.search('test query');
-            expect(mockPlaybackService.search).toHaveBeenCalledWith('test query');
+            const requester = { id: 'user1', username: 'User' };
+            await musicFacade.search('test query', requester);
+            expect(mockPlaybackService.search).toHaveBeenCalledWith('test query', requester);
         });
 
         it('should search playlist', async () => {
@@ -0,0 +1,116 @@
+/**
+ * MusicFairQueueService Unit Tests
+ * Tests for round-robin placement, rearranging, turn order and per-member limits
+ */
+
+// Mock Logger
+jest.mock('../../../../src/core/observability/Logger', () => ({
+    __esModule: true,
+    default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+let mockStored: unknown = {};
+
+jest.mock('../../../../src/services/guild/guildSettingsService', () => ({
+    __esModule: true,
+    default: {
+        getSetting: jest.fn(async () => mockStored),
+        updateSetting: jest.fn().mockResolvedValue(true),
+    },
+}));
+
+import { MusicFairQueueService } from '../../../../src/services/music/core/musicFairQueueService.js';
+import type { MusicTrack } from '../../../../src/types/music/events.js';
+
+function track(requester: string, title: string, lengthSeconds: number = 200): MusicTrack {
+    return { title, lengthSeconds, requestedBy: { id: requester } };
+}
+
+const titles = (tracks: MusicTrack[]) => tracks.map(t => t.title);
+
+describe('MusicFairQueueService', () => {
+    let service: MusicFairQueueService;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        service = new MusicFairQueueService();
+        mockStored = {};
+    });
+
+    describe('place', () => {
+        it('should interleave a big batch with the tracks already waiting', () => {
+            const tracks = [track('a', 'A1'), track('b', 'B1'), track('a', 'A2'),
+                track('c', 'C1'), track('c', 'C2'), track('c', 'C3')];
+
+            const positions = service.place(tracks, 3, null);
+
+            expect(titles(tracks)).toEqual(['A1', 'B1', 'C1', 'A2', 'C2', 'C3']);
+            expect(positions).toEqual([2, 4, 5]);
+        });
+
+        it('should put the requester of the playing track behind everyone else', () => {
+            const tracks = [track('a', 'A1'), track('b', 'B1')];
+
+            service.place(tracks, 1, 'a');
+
+            expect(titles(tracks)).toEqual(['B1', 'A1']);
+        });
+    });
+
+    describe('arrange', () => {
+        it('should reorder a queue round-robin and keep each requester\'s own order', () => {
+            const tracks = [track('a', 'A1'), track('a', 'A2'), track('a', 'A3'), track('b', 'B1'), track('b', 'B2')];
+
+            const arranged = service.arrange(tracks, null);
+
+            expect(titles(arranged)).toEqual(['A1', 'B1', 'A2', 'B2', 'A3']);
+            expect(service.getTurnOrder(arranged)).toEqual(['a', 'b']);
+        });
+    });
+
+    describe('checkLimits', () => {
+        it('should let everything through without limits', async () => {
+            const result = await service.checkLimits('guild1', 'a', [], [track('a', 'A1'), track('a', 'A2')]);
+
+            expect(result).toEqual({ fits: 2, reason: null });
+        });
+
+        it('should count only the member\'s own waiting tracks', async () => {
+            mockStored = { maxTracksPerUser: 3 };
+            const queued = [track('a', 'A1'), track('b', 'B1'), track('a', 'A2')];
+
+            const result = await service.checkLimits('guild1', 'a', queued, [track('a', 'A3'), track('a', 'A4')]);
+
+            expect(result.fits).toBe(1);
+            expect(result.reason).toContain('3 tracks');
+        });
+
+        it('should stop at the waiting time cap', async () => {
+            mockStored = { maxDurationPerUser: 600 };
+
+            const result = await service.checkLimits('guild1', 'a', [track('a', 'A1', 300)], [track('a', 'A2', 200), track('a', 'A3', 200)]);
+
+            expect(result.fits).toBe(1);
+            expect(result.reason).toContain('10 min');
+        });
+    });
+
+    describe('settings', () => {
+        it('should load settings once and report fair mode synchronously afterwards', async () => {
+            mockStored = { enabled: true };
+
+            expect(service.isEnabled('guild1')).toBe(false);
+            await service.getSettings('guild1');
+
+            expect(service.isEnabled('guild1')).toBe(true);
+        });
+
+        it('should reject limits out of range', async () => {
+            const result = await service.setLimits('guild1', 0, null);
+            const minutes = await service.setLimits('guild1', null, Number.NaN);
+
+            expect(result.isErr()).toBe(true);
+            expect(minutes.isErr()).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,127 @@
+/**
+ * MusicFilterService Unit Tests
+ * Tests for filter presets, equalizer edits, timescale and cache persistence
+ */
+
+// Mock Logger
+jest.mock('../../../../src/core/observability/Logger', () => ({
+    __esModule: true,
+    default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+// Mock LavalinkService
+const mockPlayer = {
+    setFilters: jest.fn(),
+};
+
+const mockLavalinkService = {
+    getPlayer: jest.fn(),
+};
+
+jest.mock('../../../../src/services/music/core/lavalinkService', () => ({
+    __esModule: true,
+    default: mockLavalinkService,
+}));
+
+// Mock MusicCacheFacade
+const filterStore = new Map<string, unknown>();
+const mockMusicCache = {
+    getFilters: jest.fn((guildId: string) => filterStore.get(guildId) || null),
+    setFilters: jest.fn((guildId: string, state: unknown) => { filterStore.set(guildId, state); }),
+    clearFilters: jest.fn((guildId: string) => { filterStore.delete(guildId); }),
+};
+
+jest.mock('../../../../src/cache/music/MusicCacheFacade', () => ({
+    __esModule: true,
+    default: mockMusicCache,
+}));
+
+import { MusicFilterService } from '../../../../src/services/music/core/musicFilterService.js';
+
+describe('MusicFilterService', () => {
+    let service: MusicFilterService;
+    const guildId = 'guild1';
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        filterStore.clear();
+        service = new MusicFilterService();
+        mockPlayer.setFilters.mockResolvedValue(undefined);
+        mockLavalinkService.getPlayer.mockReturnValue(mockPlayer);
+    });
+
+    describe('applyPreset', () => {
+        it('should send the nightcore timescale and store the state', async () => {
+            const result = await service.applyPreset(guildId, 'nightcore');
+
+            expect(result.isOk()).toBe(true);
+            expect(mockPlayer.setFilters).toHaveBeenCalledWith({ timescale: { speed: 1.2, pitch: 1.2 } });
+            expect(service.getFilters(guildId).preset).toBe('nightcore');
+        });
+
+        it('should include preset-only filters like karaoke', async () => {
+            await service.applyPreset(guildId, 'karaoke');
+
+            const payload = mockPlayer.setFilters.mock.calls[0][0];
+            expect(payload.karaoke).toBeDefined();
+            expect(payload.equalizer).toBeUndefined();
+        });
+
+        it('should clear filters and the cache when set to off', async () => {
+            await service.applyPreset(guildId, 'bassboost');
+            const result = await service.applyPreset(guildId, null);
+
+            expect(result.isOk()).toBe(true);
+            expect(mockPlayer.setFilters).toHaveBeenLastCalledWith({});
+            expect(mockMusicCache.clearFilters).toHaveBeenCalledWith(guildId);
+        });
+
+        it('should fail without a player', async () => {
+            mockLavalinkService.getPlayer.mockReturnValue(null);
+
+            const result = await service.applyPreset(guildId, 'bassboost');
+            expect(result.isErr()).toBe(true);
+            expect(mockMusicCache.setFilters).not.toHaveBeenCalled();
+        });
+
+        it('should not store the state when Lavalink rejects the update', async () => {
+            mockPlayer.setFilters.mockRejectedValue(new Error('Bad request'));
+
+            const result = await service.applyPreset(guildId, 'vaporwave');
+            expect(result.isErr()).toBe(true);
+            expect(mockMusicCache.setFilters).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('setEqualizerBand', () => {
+        it('should edit one band on top of the active preset', async () => {
+            await service.applyPreset(guildId, 'bassboost');
+            const result = await service.setEqualizerBand(guildId, 14, 0.5);
+
+            expect(result.isOk()).toBe(true);
+            expect(result.data?.preset).toBe('bassboost');
+            expect(result.data?.equalizer[0]).toBe(0.25);
+            expect(result.data?.equalizer[14]).toBe(0.5);
+        });
+
+        it('should reject out of range bands and gains', async () => {
+            expect((await service.setEqualizerBand(guildId, 15, 0.1)).isErr()).toBe(true);
+            expect((await service.setEqualizerBand(guildId, 0, 2)).isErr()).toBe(true);
+            expect(mockPlayer.setFilters).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('setTimescale', () => {
+        it('should keep the other value when only one is given', async () => {
+            await service.setTimescale(guildId, { speed: 1.5 });
+            const result = await service.setTimescale(guildId, { pitch: 0.8 });
+
+            expect(result.data?.timescale).toEqual({ speed: 1.5, pitch: 0.8 });
+        });
+
+        it('should reject values outside 0.5x-2x', async () => {
+            const result = await service.setTimescale(guildId, { speed: 3 });
+            expect(result.isErr()).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,149 @@
+/**
+ * MusicPermissionService Unit Tests
+ * Tests for DJ bypass, DJ-only mode, per-action modes and policy storage
+ */
+
+// Mock Logger
+jest.mock('../../../../src/core/observability/Logger', () => ({
+    __esModule: true,
+    default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+// Mock GuildSettingsService with an in-memory guild_settings row
+let guildRow: { dj_role: string | null; settings: Record<string, unknown> };
+const mockHasDJPermission = jest.fn();
+
+const mockGuildSettingsService = {
+    getGuildSettings: jest.fn(async () => guildRow),
+    getSetting: jest.fn(async (_guildId: string, key: string, defaultValue: unknown) => guildRow.settings[key] ?? defaultValue),
+    updateSetting: jest.fn(async (_guildId: string, key: string, value: unknown) => {
+        guildRow.settings = { ...guildRow.settings, [key]: value };
+        return true;
+    }),
+    setDJRole: jest.fn(async (_guildId: string, roleId: string | null) => {
+        guildRow.dj_role = roleId;
+        return true;
+    }),
+    hasDJPermission: mockHasDJPermission,
+};
+
+jest.mock('../../../../src/services/guild/guildSettingsService', () => ({
+    __esModule: true,
+    default: mockGuildSettingsService,
+}));
+
+import type { GuildMember } from 'discord.js';
+import { MusicPermissionService } from '../../../../src/services/music/core/musicPermissionService.js';
+
+function createMember(id = 'user1'): GuildMember {
+    return { id, guild: { id: 'guild1' } } as unknown as GuildMember;
+}
+
+describe('MusicPermissionService', () => {
+    let service: MusicPermissionService;
+    const guildId = 'guild1';
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        guildRow = { dj_role: null, settings: {} };
+        mockHasDJPermission.mockResolvedValue(false);
+        service = new MusicPermissionService();
+    });
+
+    describe('getPolicy', () => {
+        it('should fall back to the configured defaults', async () => {
+            const policy = await service.getPolicy(guildId);
+
+            expect(policy.djRoleId).toBeNull();
+            expect(policy.djOnly).toBe(false);
+            expect(policy.actions.skip).toBe('vote');
+            expect(policy.actions.stop).toBe('everyone');
+        });
+
+        it('should merge stored modes over the defaults', async () => {
+            await service.setActionMode(guildId, 'stop', 'dj');
+            await service.setDJOnly(guildId, true);
+            await service.setDJRole(guildId, 'role1');
+
+            const policy = await service.getPolicy(guildId);
+            expect(policy.actions.stop).toBe('dj');
+            expect(policy.actions.volume).toBe('everyone');
+            expect(policy.djOnly).toBe(true);
+            expect(policy.djRoleId).toBe('role1');
+        });
+
+        it('should store vote on actions without a vote flow as dj', async () => {
+            await service.setActionMode(guildId, 'volume', 'vote');
+
+            const policy = await service.getPolicy(guildId);
+            expect(policy.actions.volume).toBe('dj');
+        });
+
+        it('should keep vote on actions with a vote flow', async () => {
+            await service.setActionMode(guildId, 'clear', 'vote');
+
+            const policy = await service.getPolicy(guildId);
+            expect(policy.actions.clear).toBe('vote');
+        });
+
+        it('should reset stored modes', async () => {
+            await service.setActionMode(guildId, 'loop', 'dj');
+            await service.resetPolicy(guildId);
+
+            const policy = await service.getPolicy(guildId);
+            expect(policy.actions.loop).toBe('everyone');
+        });
+    });
+
+    describe('check', () => {
+        it('should always allow DJs', async () => {
+            mockHasDJPermission.mockResolvedValue(true);
+            await service.setDJOnly(guildId, true);
+            await service.setActionMode(guildId, 'stop', 'dj');
+
+            const result = await service.check(createMember(), 'stop');
+            expect(result).toEqual({ allowed: true, vote: false });
+        });
+
+        it('should block everything for non-DJs in DJ-only mode', async () => {
+            await service.setDJOnly(guildId, true);
+
+            const control = await service.check(createMember(), null);
+            const volume = await service.check(createMember(), 'volume');
+            expect(control.allowed).toBe(false);
+            expect(volume.allowed).toBe(false);
+            expect(volume.reason).toContain('DJ-only');
+        });
+
+        it('should allow plain controls when DJ-only mode is off', async () => {
+            const result = await service.check(createMember(), null);
+            expect(result.allowed).toBe(true);
+        });
+
+        it('should only allow the requester in requester mode', async () => {
+            await service.setActionMode(guildId, 'remove', 'requester');
+
+            const own = await service.check(createMember('user1'), 'remove', 'user1');
+            const other = await service.check(createMember('user2'), 'remove', 'user1');
+            expect(own.allowed).toBe(true);
+            expect(other.allowed).toBe(false);
+            expect(other.reason).toContain('requester');
+        });
+
+        it('should require a vote unless the member requested the track', async () => {
+            const listener = await service.check(createMember('user2'), 'skip', 'user1');
+            const requester = await service.check(createMember('user1'), 'skip', 'user1');
+
+            expect(listener).toEqual({ allowed: true, vote: true });
+            expect(requester).toEqual({ allowed: true, vote: false });
+        });
+
+        it('should deny non-DJs in dj mode', async () => {
+            await service.setActionMode(guildId, 'filters', 'dj');
+
+            const result = await service.check(createMember(), 'filters', 'user1');
+            expect(result.allowed).toBe(false);
+            expect(result.reason).toContain('DJ role');
+        });
+    });
+});
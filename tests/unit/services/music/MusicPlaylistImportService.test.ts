@@ -0,0 +1,222 @@
+/**
+ * MusicPlaylistImportService Unit Tests
+ * Tests for loading and capping playlists, matching entries, failure reasons and cancellation
+ */
+
+// Mock Logger
+jest.mock('../../../../src/core/observability/Logger', () => ({
+    __esModule: true,
+    default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const mockRepository = {
+    create: jest.fn().mockResolvedValue(true),
+    updateProgress: jest.fn().mockResolvedValue(true),
+    getRunning: jest.fn().mockResolvedValue([]),
+    finishRunning: jest.fn().mockResolvedValue(0),
+    deleteOlderThan: jest.fn().mockResolvedValue(0),
+};
+
+jest.mock('../../../../src/repositories/music/playlistImportRepository', () => ({
+    __esModule: true,
+    default: mockRepository,
+}));
+
+const mockLavalink = {
+    loadPlaylist: jest.fn(),
+    resolveExternalTrack: jest.fn(),
+};
+
+jest.mock('../../../../src/services/music/core/lavalinkService', () => ({
+    __esModule: true,
+    default: mockLavalink,
+}));
+
+const mockSpotify = {
+    extractSpotifyId: jest.fn(),
+    getCollection: jest.fn(),
+};
+
+jest.mock('../../../../src/services/music/spotify/spotifyService', () => ({
+    __esModule: true,
+    default: mockSpotify,
+}));
+
+let mockStoredLimit: unknown = 500;
+
+jest.mock('../../../../src/services/guild/guildSettingsService', () => ({
+    __esModule: true,
+    default: {
+        getSetting: jest.fn(async () => mockStoredLimit),
+        updateSetting: jest.fn().mockResolvedValue(true),
+    },
+}));
+
+import { MusicPlaylistImportService } from '../../../../src/services/music/core/musicPlaylistImportService.js';
+import type { PlaylistImportEntry, PlaylistImportHooks, PlaylistImportJob } from '../../../../src/types/music/playlist-import.js';
+
+function loaded(title: string, encoded: string | null = `enc-${title}`) {
+    return { title, author: 'Artist', lengthSeconds: 200, thumbnail: null, url: `https://youtube.com/watch?v=${title}`, encoded: encoded || '' };
+}
+
+function entry(title: string, encoded: string | null = null): PlaylistImportEntry {
+    return { title, author: 'Artist', isrc: null, durationMs: 200_000, artworkUrl: null, url: null, encoded };
+}
+
+function makeJob(entries: PlaylistImportEntry[]): PlaylistImportJob {
+    return {
+        id: 'job1', guildId: 'guild1', userId: 'user1', userName: 'listener', url: 'https://open.spotify.com/playlist/abc',
+        source: 'spotify', playlistName: 'Mix', entries, cursor: 0, added: 0, failures: [], truncated: 0,
+        status: 'running', textChannelId: 'tc1', messageId: null, startedAt: Date.now(), updatedAt: Date.now(),
+    };
+}
+
+function makeHooks(room: number = Infinity): PlaylistImportHooks & { queued: string[] } {
+    const queued: string[] = [];
+    return {
+        queued,
+        onTracks: jest.fn(async (_job, tracks) => {
+            const fitted = tracks.slice(0, Math.max(0, room - queued.length));
+            queued.push(...fitted.map(t => t.title));
+            return fitted.length;
+        }),
+        onProgress: jest.fn().mockResolvedValue(undefined),
+        onFinish: jest.fn().mockResolvedValue(undefined),
+    };
+}
+
+describe('MusicPlaylistImportService', () => {
+    let service: MusicPlaylistImportService;
+    const options = { guildId: 'guild1', userId: 'user1', userName: 'listener', textChannelId: 'tc1' };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        service = new MusicPlaylistImportService();
+        mockStoredLimit = 500;
+        mockLavalink.resolveExternalTrack.mockImplementation(async (e: { title: string }) =>
+            ({ encoded: `match-${e.title}`, url: `https://youtube.com/watch?v=${e.title}`, lengthSeconds: 200 }));
+    });
+
+    describe('detectSource', () => {
+        it('should recognise supported services', () => {
+            expect(service.detectSource('https://www.youtube.com/playlist?list=PL1')).toBe('youtube');
+            expect(service.detectSource('https://open.spotify.com/playlist/abc')).toBe('spotify');
+            expect(service.detectSource('https://soundcloud.com/user/sets/mix')).toBe('soundcloud');
+            expect(service.detectSource('https://music.apple.com/us/playlist/mix/pl.123')).toBe('applemusic');
+            expect(service.detectSource('https://example.com/list')).toBe('other');
+        });
+    });
+
+    describe('limit', () => {
+        it('should clamp stored limits to the allowed range', async () => {
+            mockStoredLimit = 5000;
+            await expect(service.getLimit('guild1')).resolves.toBe(500);
+
+            mockStoredLimit = 1;
+            await expect(service.getLimit('guild1')).resolves.toBe(10);
+        });
+
+        it('should reject limits out of range', async () => {
+            const result = await service.setLimit('guild1', 1000);
+
+            expect(result.isErr()).toBe(true);
+        });
+    });
+
+    describe('create', () => {
+        it('should cap the playlist to the guild limit and count what was left out', async () => {
+            mockStoredLimit = 10;
+            mockLavalink.loadPlaylist.mockResolvedValue({
+                playlistName: 'Big Mix',
+                tracks: Array.from({ length: 12 }, (_, i) => loaded(`T${i + 1}`)),
+            });
+
+            const result = await service.create({ ...options, url: 'https://www.youtube.com/playlist?list=PL1' });
+            const job = result.data!;
+
+            expect(job.entries).toHaveLength(10);
+            expect(job.truncated).toBe(2);
+            expect(job.playlistName).toBe('Big Mix');
+            expect(mockRepository.create).toHaveBeenCalledWith(job);
+        });
+
+        it('should start from the index parameter of the URL', async () => {
+            mockLavalink.loadPlaylist.mockResolvedValue({ playlistName: 'Mix', tracks: [loaded('A'), loaded('B'), loaded('C')] });
+
+            const result = await service.create({ ...options, url: 'https://www.youtube.com/watch?v=x&list=PL1&index=2' });
+
+            expect(result.data!.entries.map(e => e.title)).toEqual(['B', 'C', 'A']);
+        });
+
+        it('should fall back to Spotify metadata when Lavalink cannot load the link', async () => {
+            mockLavalink.loadPlaylist.mockResolvedValue(null);
+            mockSpotify.extractSpotifyId.mockReturnValue({ type: 'playlist', id: 'abc' });
+            mockSpotify.getCollection.mockResolvedValue({
+                name: 'Daily Mix',
+                total: 1,
+                tracks: [{ title: 'Song', artist: 'Artist', duration_ms: 180_000, isrc: 'ISRC1' }],
+            });
+
+            const result = await service.create({ ...options, url: 'https://open.spotify.com/playlist/abc' });
+
+            expect(result.data!.entries[0]).toMatchObject({ title: 'Song', isrc: 'ISRC1', encoded: null });
+        });
+
+        it('should fail when the playlist is empty', async () => {
+            mockLavalink.loadPlaylist.mockResolvedValue({ playlistName: 'Empty', tracks: [] });
+
+            const result = await service.create({ ...options, url: 'https://www.youtube.com/playlist?list=PL1' });
+
+            expect(result.isErr()).toBe(true);
+            expect(mockRepository.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('run', () => {
+        it('should queue playable entries and record why others failed', async () => {
+            mockLavalink.resolveExternalTrack
+                .mockResolvedValueOnce(null)
+                .mockRejectedValueOnce(new Error('No available nodes'));
+            const job = makeJob([entry('Miss'), entry('Broken'), entry('Ready', 'enc-ready')]);
+            const hooks = makeHooks();
+
+            await service.run(job, hooks);
+
+            expect(job.status).toBe('completed');
+            expect(hooks.queued).toEqual(['Ready']);
+            expect(job.failures).toEqual([
+                expect.objectContaining({ index: 1, title: 'Miss', reason: 'no_match' }),
+                expect.objectContaining({ index: 2, title: 'Broken', reason: 'error', detail: 'No available nodes' }),
+            ]);
+            expect(hooks.onFinish).toHaveBeenCalledWith(job);
+        });
+
+        it('should stop and mark the rest as queue_full when the queue has no room', async () => {
+            const job = makeJob(Array.from({ length: 8 }, (_, i) => entry(`T${i + 1}`, `enc-${i + 1}`)));
+            const hooks = makeHooks(3);
+
+            await service.run(job, hooks);
+
+            expect(job.added).toBe(3);
+            expect(job.failures).toHaveLength(5);
+            expect(job.failures.every(f => f.reason === 'queue_full')).toBe(true);
+            expect(job.failures[0]!.index).toBe(4);
+        });
+
+        it('should stop after the current batch when cancelled', async () => {
+            const job = makeJob(Array.from({ length: 12 }, (_, i) => entry(`T${i + 1}`, `enc-${i + 1}`)));
+            const hooks = makeHooks();
+            (hooks.onTracks as jest.Mock).mockImplementationOnce(async (_job, tracks) => {
+                service.cancel('guild1', 'job1');
+                return tracks.length;
+            });
+
+            await service.run(job, hooks);
+
+            expect(job.status).toBe('cancelled');
+            expect(job.added).toBe(5);
+            expect(job.cursor).toBe(5);
+            expect(service.getActive('guild1')).toBeNull();
+        });
+    });
+});
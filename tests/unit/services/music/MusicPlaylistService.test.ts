@@ -0,0 +1,199 @@
+/**
+ * MusicPlaylistService Unit Tests
+ * Tests for saved playlists: limits, visibility and stale track re-resolution
+ */
+
+// Mock Logger
+jest.mock('../../../../src/core/observability/Logger', () => ({
+    __esModule: true,
+    default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+// Mock LavalinkService
+const mockLavalinkService = {
+    search: jest.fn(),
+};
+
+jest.mock('../../../../src/services/music/core/lavalinkService', () => ({
+    __esModule: true,
+    default: mockLavalinkService,
+}));
+
+// Mock PlaylistRepository
+const mockPlaylistRepository = {
+    getByName: jest.fn(),
+    getByUser: jest.fn(),
+    countByUser: jest.fn(),
+    create: jest.fn(),
+    setTracks: jest.fn(),
+    rename: jest.fn(),
+    setPublic: jest.fn(),
+    incrementPlayCount: jest.fn(),
+    delete: jest.fn(),
+};
+
+jest.mock('../../../../src/repositories/music/playlistRepository', () => ({
+    __esModule: true,
+    default: mockPlaylistRepository,
+}));
+
+import { MusicPlaylistService } from '../../../../src/services/music/core/musicPlaylistService.js';
+import type { SavedPlaylist, SavedPlaylistTrack } from '../../../../src/types/music/playlist.js';
+
+function makeSaved(title: string, overrides: Partial<SavedPlaylistTrack> = {}): SavedPlaylistTrack {
+    return {
+        url: `https://youtube.com/watch?v=${title}`,
+        title,
+        author: 'Artist',
+        lengthSeconds: 180,
+        thumbnail: null,
+        source: 'youtube',
+        encoded: `enc_${title}`,
+        savedAt: Date.now(),
+        ...overrides,
+    };
+}
+
+function makePlaylist(tracks: SavedPlaylistTrack[], overrides: Partial<SavedPlaylist> = {}): SavedPlaylist {
+    return {
+        id: 'pl1',
+        ownerId: 'owner',
+        name: 'Chill',
+        description: null,
+        tracks,
+        isPublic: false,
+        playCount: 0,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        ...overrides,
+    };
+}
+
+function makeTrack(title: string) {
+    return {
+        track: { encoded: `enc_${title}` },
+        title,
+        url: `https://youtube.com/watch?v=${title}`,
+        lengthSeconds: 200,
+        author: 'Artist',
+    };
+}
+
+describe('MusicPlaylistService', () => {
+    let service: MusicPlaylistService;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        service = new MusicPlaylistService();
+        mockPlaylistRepository.setTracks.mockResolvedValue(true);
+    });
+
+    describe('createPlaylist', () => {
+        it('should reject duplicate names', async () => {
+            mockPlaylistRepository.getByName.mockResolvedValue(makePlaylist([]));
+
+            const result = await service.createPlaylist('owner', 'Chill');
+            expect(result.isErr()).toBe(true);
+            expect(result.code).toBe('DUPLICATE_ENTRY');
+            expect(mockPlaylistRepository.create).not.toHaveBeenCalled();
+        });
+
+        it('should reject when the user is at the playlist limit', async () => {
+            mockPlaylistRepository.getByName.mockResolvedValue(null);
+            mockPlaylistRepository.countByUser.mockResolvedValue(25);
+
+            const result = await service.createPlaylist('owner', 'New');
+            expect(result.isErr()).toBe(true);
+        });
+
+        it('should create a playlist', async () => {
+            mockPlaylistRepository.getByName.mockResolvedValue(null);
+            mockPlaylistRepository.countByUser.mockResolvedValue(0);
+            mockPlaylistRepository.create.mockResolvedValue(makePlaylist([]));
+
+            const result = await service.createPlaylist('owner', '  Chill  ');
+            expect(result.isOk()).toBe(true);
+            expect(mockPlaylistRepository.create).toHaveBeenCalledWith('owner', 'Chill', []);
+        });
+    });
+
+    describe('addTracks', () => {
+        it('should skip tracks already in the playlist', async () => {
+            mockPlaylistRepository.getByName.mockResolvedValue(makePlaylist([makeSaved('a')]));
+
+            const result = await service.addTracks('owner', 'Chill', [makeTrack('a'), makeTrack('b')] as any);
+            expect(result.isOk()).toBe(true);
+            expect(result.data?.added).toBe(1);
+            expect(result.data?.skipped).toBe(1);
+            expect(mockPlaylistRepository.setTracks.mock.calls[0][1]).toHaveLength(2);
+        });
+    });
+
+    describe('getPlaylist', () => {
+        it('should hide private playlists from other users', async () => {
+            mockPlaylistRepository.getByName.mockResolvedValue(makePlaylist([makeSaved('a')]));
+
+            const result = await service.getPlaylist('owner', 'Chill', 'someone-else');
+            expect(result.isErr()).toBe(true);
+        });
+
+        it('should show public playlists to other users', async () => {
+            mockPlaylistRepository.getByName.mockResolvedValue(makePlaylist([makeSaved('a')], { isPublic: true }));
+
+            const result = await service.getPlaylist('owner', 'Chill', 'someone-else');
+            expect(result.isOk()).toBe(true);
+        });
+    });
+
+    describe('resolvePlaylist', () => {
+        it('should use fresh tracks without searching', async () => {
+            mockPlaylistRepository.getByName.mockResolvedValue(makePlaylist([makeSaved('a'), makeSaved('b')]));
+
+            const result = await service.resolvePlaylist('owner', 'Chill', 'owner');
+            expect(result.isOk()).toBe(true);
+            expect(result.data?.tracks).toHaveLength(2);
+            expect(result.data?.tracks[0].track.encoded).toBe('enc_a');
+            expect(mockLavalinkService.search).not.toHaveBeenCalled();
+            expect(mockPlaylistRepository.incrementPlayCount).toHaveBeenCalledWith('pl1');
+        });
+
+        it('should re-resolve stale tracks and persist the refreshed data', async () => {
+            const stale = makeSaved('old', { encoded: null });
+            mockPlaylistRepository.getByName.mockResolvedValue(makePlaylist([makeSaved('a'), stale]));
+            mockLavalinkService.search.mockResolvedValue({ encoded: 'enc_new', url: stale.url, lengthSeconds: 181, thumbnail: null });
+
+            const result = await service.resolvePlaylist('owner', 'Chill', 'owner');
+            expect(result.isOk()).toBe(true);
+            expect(result.data?.resolved).toBe(1);
+            expect(result.data?.tracks[1].track.encoded).toBe('enc_new');
+            expect(mockPlaylistRepository.setTracks).toHaveBeenCalled();
+        });
+
+        it('should drop tracks that cannot be re-resolved', async () => {
+            const expired = makeSaved('gone', { savedAt: 0 });
+            mockPlaylistRepository.getByName.mockResolvedValue(makePlaylist([makeSaved('a'), expired]));
+            mockLavalinkService.search.mockRejectedValue(new Error('NO_RESULTS'));
+
+            const result = await service.resolvePlaylist('owner', 'Chill', 'owner');
+            expect(result.isOk()).toBe(true);
+            expect(result.data?.tracks).toHaveLength(1);
+            expect(result.data?.failed).toBe(1);
+        });
+
+        it('should not write back refreshed tracks for non-owners', async () => {
+            mockPlaylistRepository.getByName.mockResolvedValue(makePlaylist([makeSaved('x', { encoded: null })], { isPublic: true }));
+            mockLavalinkService.search.mockResolvedValue({ encoded: 'enc_x', url: 'u', lengthSeconds: 1, thumbnail: null });
+
+            const result = await service.resolvePlaylist('owner', 'Chill', 'viewer');
+            expect(result.isOk()).toBe(true);
+            expect(mockPlaylistRepository.setTracks).not.toHaveBeenCalled();
+        });
+
+        it('should fail on empty playlists', async () => {
+            mockPlaylistRepository.getByName.mockResolvedValue(makePlaylist([]));
+
+            const result = await service.resolvePlaylist('owner', 'Chill', 'owner');
+            expect(result.isErr()).toBe(true);
+        });
+    });
+});
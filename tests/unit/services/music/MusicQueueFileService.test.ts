@@ -0,0 +1,173 @@
+/**
+ * MusicQueueFileService Unit Tests
+ * Tests for writing queue files, reading them back and re-resolving their entries
+ */
+
+// Mock Logger
+jest.mock('../../../../src/core/observability/Logger', () => ({
+    __esModule: true,
+    default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+// Mock LavalinkService
+const mockLavalinkService = {
+    search: jest.fn(),
+};
+
+jest.mock('../../../../src/services/music/core/lavalinkService', () => ({
+    __esModule: true,
+    default: mockLavalinkService,
+}));
+
+import { MusicQueueFileService } from '../../../../src/services/music/core/musicQueueFileService.js';
+import type { Track } from '../../../../src/types/music/track.js';
+
+function makeTrack(title: string, overrides: Partial<Track> = {}): Track {
+    return {
+        track: { encoded: `enc_${title}` },
+        title,
+        url: `https://youtube.com/watch?v=${title}`,
+        lengthSeconds: 180,
+        author: 'Artist',
+        source: 'youtube',
+        requestedBy: { id: 'u1', username: 'alice', displayName: 'Alice', displayAvatarURL: () => null },
+        ...overrides,
+    };
+}
+
+/**
+ * An entry as read from an M3U file or an older export: metadata only, nothing to play yet
+ */
+function unresolved(title: string, overrides: Partial<Track> = {}): Track {
+    return makeTrack(title, { track: { encoded: '' }, ...overrides });
+}
+
+function searchResult(title: string) {
+    return { encoded: `enc_${title}`, url: `https://youtube.com/watch?v=${title}`, title, lengthSeconds: 200, author: 'Found', thumbnail: null };
+}
+
+describe('MusicQueueFileService', () => {
+    let service: MusicQueueFileService;
+    const requester = { id: 'u2', username: 'bob' };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        service = new MusicQueueFileService();
+    });
+
+    describe('detectFormat', () => {
+        it('should tell formats apart by extension', () => {
+            expect(service.detectFormat('queue.JSON')).toBe('json');
+            expect(service.detectFormat('mix.m3u8')).toBe('m3u');
+            expect(service.detectFormat('notes.txt')).toBeNull();
+        });
+    });
+
+    describe('JSON', () => {
+        it('should read back what it exported', () => {
+            const tracks = [makeTrack('a'), makeTrack('b', { author: undefined })];
+
+            const parsed = service.parse(service.serialize(tracks, 'json'), 'json');
+
+            expect(parsed.isOk()).toBe(true);
+            expect(parsed.data!.map(t => [t.title, t.url, t.lengthSeconds, t.author])).toEqual([
+                ['a', 'https://youtube.com/watch?v=a', 180, 'Artist'],
+                ['b', 'https://youtube.com/watch?v=b', 180, undefined],
+            ]);
+        });
+
+        it('should export requesters without runtime-only fields', () => {
+            const file = JSON.parse(service.serialize([makeTrack('a')], 'json'));
+
+            expect(file.version).toBe(1);
+            expect(file.tracks[0].requestedBy).toEqual({ id: 'u1', username: 'alice', displayName: 'Alice' });
+            expect(file.tracks[0].track).toEqual({ encoded: 'enc_a' });
+        });
+
+        it('should reject files that are not queue exports', () => {
+            expect(service.parse('{"hello": 1}', 'json').isErr()).toBe(true);
+            expect(service.parse('not json', 'json').isErr()).toBe(true);
+            expect(service.parse('{"tracks": []}', 'json').isErr()).toBe(true);
+        });
+    });
+
+    describe('M3U', () => {
+        it('should write duration, artist, title and requester for each entry', () => {
+            const text = service.serialize([makeTrack('a')], 'm3u');
+
+            expect(text.split('\n')).toEqual([
+                '#EXTM3U',
+                '#EXTINF:180,Artist - a',
+                '# Requested by Alice (u1)',
+                'https://youtube.com/watch?v=a',
+                '',
+            ]);
+        });
+
+        it('should read links and local paths, using #EXTINF for titles', () => {
+            const text = '#EXTM3U\r\n#EXTINF:240,Band - Song\r\nC:\\Music\\Band - Song.mp3\r\nhttps://example.com/track\r\n';
+
+            const parsed = service.parse(text, 'm3u');
+
+            expect(parsed.data).toEqual([
+                { track: { encoded: '' }, title: 'Song', url: '', lengthSeconds: 240, author: 'Band' },
+                { track: { encoded: '' }, title: 'https://example.com/track', url: 'https://example.com/track', lengthSeconds: 0, author: undefined },
+            ]);
+        });
+    });
+
+    describe('resolve', () => {
+        it('should fall back to title + artist when the link is dead', async () => {
+            mockLavalinkService.search
+                .mockRejectedValueOnce(new Error('NO_RESULTS'))
+                .mockResolvedValueOnce(searchResult('a2'));
+
+            const { tracks, failures } = await service.resolve([unresolved('a')], requester);
+
+            expect(mockLavalinkService.search).toHaveBeenNthCalledWith(2, 'a Artist', requester);
+            expect(failures).toEqual([]);
+            expect(tracks[0]!.track).toMatchObject({ title: 'a', author: 'Artist', encoded: 'enc_a2', requestedBy: requester });
+        });
+
+        it('should report misses with their position in the file', async () => {
+            mockLavalinkService.search.mockImplementation(async (query: string) => {
+                if (query.endsWith('v=b') || query === 'b Artist') throw new Error('NO_RESULTS');
+                return searchResult('a');
+            });
+
+            const { tracks, failures } = await service.resolve([unresolved('a'), unresolved('b')], requester);
+
+            expect(tracks.map(t => t.index)).toEqual([0]);
+            expect(failures).toEqual([{ index: 2, title: 'b', author: 'Artist', reason: 'no_match' }]);
+        });
+
+        it('should queue a JSON export as it was, without looking it up again', async () => {
+            const exported = makeTrack('a', { requestedBy: { id: '123456789012345678', username: 'alice', displayName: 'Alice' } });
+            const parsed = service.parse(service.serialize([exported, makeTrack('b', { requestedBy: undefined })], 'json'), 'json');
+
+            const { tracks, failures } = await service.resolve(parsed.data!, requester);
+
+            expect(mockLavalinkService.search).not.toHaveBeenCalled();
+            expect(failures).toEqual([]);
+            expect(tracks[0]!.track).toMatchObject({
+                track: { encoded: 'enc_a' },
+                requestedBy: { id: '123456789012345678', username: 'alice', displayName: 'Alice' },
+            });
+            expect(tracks[1]!.track.requestedBy).toBe(requester);
+        });
+
+        it('should report links to internal hosts as invalid entries', async () => {
+            const entries = [
+                unresolved('a', { url: 'http://127.0.0.1:2333/v4/info' }),
+                makeTrack('b', { url: 'http://169.254.169.254/latest/meta-data' }),
+                unresolved('c', { url: 'file:///etc/passwd' }),
+            ];
+
+            const { tracks, failures } = await service.resolve(entries, requester);
+
+            expect(mockLavalinkService.search).not.toHaveBeenCalled();
+            expect(tracks).toEqual([]);
+            expect(failures.map(f => [f.index, f.reason])).toEqual([[1, 'invalid'], [2, 'invalid'], [3, 'invalid']]);
+        });
+    });
+});
@@ -0,0 +1,142 @@
+/**
+ * MusicQueueSnapshotService Unit Tests
+ * Tests for capturing queue state, saving/clearing snapshots and the shutdown freeze
+ */
+
+// Mock Logger
+jest.mock('../../../../src/core/observability/Logger', () => ({
+    __esModule: true,
+    default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const mockRepository = {
+    get: jest.fn(),
+    getRecent: jest.fn(),
+    upsert: jest.fn().mockResolvedValue(true),
+    delete: jest.fn().mockResolvedValue(true),
+    deleteOlderThan: jest.fn().mockResolvedValue(0),
+};
+
+jest.mock('../../../../src/repositories/music/queueSnapshotRepository', () => ({
+    __esModule: true,
+    default: mockRepository,
+}));
+
+let mockQueue: Record<string, unknown> | null;
+let mockPlayer: { position: number; paused: boolean } | null;
+
+jest.mock('../../../../src/services/music/queue/index', () => ({
+    queueService: { get: jest.fn(() => mockQueue) },
+}));
+
+jest.mock('../../../../src/services/music/core/lavalinkService', () => ({
+    __esModule: true,
+    default: { getPlayer: jest.fn(() => mockPlayer) },
+}));
+
+jest.mock('../../../../src/cache/music/MusicCacheFacade', () => ({
+    __esModule: true,
+    default: { getFilters: jest.fn(() => null) },
+}));
+
+import { MusicQueueSnapshotService } from '../../../../src/services/music/core/musicQueueSnapshotService.js';
+
+function track(title: string, requesterId: string | null = 'user1') {
+    return {
+        track: { encoded: `enc-${title}` },
+        title,
+        url: `https://youtube.com/watch?v=${title}`,
+        lengthSeconds: 200,
+        author: 'Artist',
+        requestedBy: requesterId ? { id: requesterId, username: 'listener' } : null,
+    };
+}
+
+describe('MusicQueueSnapshotService', () => {
+    let service: MusicQueueSnapshotService;
+    const guildId = 'guild1';
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        service = new MusicQueueSnapshotService();
+        mockPlayer = { position: 42_000, paused: false };
+        mockQueue = {
+            guildId,
+            voiceChannelId: 'vc1',
+            textChannelId: 'tc1',
+            requesterId: null,
+            currentTrack: track('Now', 'user2'),
+            tracks: [track('Next'), { title: 'Unresolved' }],
+            loopMode: 'queue',
+            volume: 80,
+            isPaused: false,
+            autoPlay: true,
+        };
+    });
+
+    describe('capture', () => {
+        it('should capture position, settings and the current requester', () => {
+            const snapshot = service.capture(guildId)!;
+
+            expect(snapshot.positionMs).toBe(42_000);
+            expect(snapshot.loopMode).toBe('queue');
+            expect(snapshot.volume).toBe(80);
+            expect(snapshot.autoPlay).toBe(true);
+            expect(snapshot.textChannelId).toBe('tc1');
+            expect(snapshot.requesterId).toBe('user2');
+            expect(snapshot.currentTrack?.encoded).toBe('enc-Now');
+        });
+
+        it('should skip tracks without encoded data', () => {
+            const snapshot = service.capture(guildId)!;
+
+            expect(snapshot.tracks.map(t => t.title)).toEqual(['Next']);
+        });
+
+        it('should return null when there is nothing to resume', () => {
+            mockQueue = { ...mockQueue, currentTrack: null, tracks: [] };
+            expect(service.capture(guildId)).toBeNull();
+
+            mockQueue = null;
+            expect(service.capture(guildId)).toBeNull();
+        });
+    });
+
+    describe('save', () => {
+        it('should upsert the captured snapshot', async () => {
+            await expect(service.save(guildId)).resolves.toBe(true);
+
+            expect(mockRepository.upsert).toHaveBeenCalledWith(expect.objectContaining({ guildId, positionMs: 42_000 }));
+        });
+
+        it('should delete the snapshot when the queue is empty', async () => {
+            mockQueue = { ...mockQueue, currentTrack: null, tracks: [] };
+
+            await expect(service.save(guildId)).resolves.toBe(false);
+            expect(mockRepository.delete).toHaveBeenCalledWith(guildId);
+        });
+    });
+
+    describe('freeze', () => {
+        it('should stop saving and clearing after shutdown starts', async () => {
+            service.freeze();
+
+            await service.save(guildId);
+            await service.clear(guildId);
+
+            expect(mockRepository.upsert).not.toHaveBeenCalled();
+            expect(mockRepository.delete).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('toTrack', () => {
+        it('should round-trip a queued track with its requester', () => {
+            const saved = service.toSnapshotTrack(track('Song'))!;
+            const restored = service.toTrack(saved);
+
+            expect(restored.track?.encoded).toBe('enc-Song');
+            expect(restored.title).toBe('Song');
+            expect(restored.requestedBy?.id).toBe('user1');
+        });
+    });
+});
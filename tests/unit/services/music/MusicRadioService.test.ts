@@ -0,0 +1,131 @@
+/**
+ * MusicRadioService Unit Tests
+ * Tests for default presets, editing a guild's station list and tuning in
+ */
+
+// Mock Logger
+jest.mock('../../../../src/core/observability/Logger', () => ({
+    __esModule: true,
+    default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+let mockStored: unknown = null;
+const mockUpdateSetting = jest.fn(async (_guildId: string, _key: string, value: unknown) => {
+    mockStored = value;
+    return true;
+});
+
+jest.mock('../../../../src/services/guild/guildSettingsService', () => ({
+    __esModule: true,
+    default: {
+        getSetting: jest.fn(async (_guildId: string, _key: string, fallback: unknown) => mockStored ?? fallback),
+        updateSetting: (guildId: string, key: string, value: unknown) => mockUpdateSetting(guildId, key, value),
+    },
+}));
+
+// Mock LavalinkService
+const mockLavalinkService = {
+    search: jest.fn(),
+};
+
+jest.mock('../../../../src/services/music/core/lavalinkService', () => ({
+    __esModule: true,
+    default: mockLavalinkService,
+}));
+
+import { MusicRadioService } from '../../../../src/services/music/core/musicRadioService.js';
+import { radio as radioConfig } from '../../../../src/config/features/music.js';
+
+describe('MusicRadioService', () => {
+    let service: MusicRadioService;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        service = new MusicRadioService();
+        mockStored = null;
+    });
+
+    describe('getStations', () => {
+        it('should hand out the curated presets until the guild edits its list', async () => {
+            const stations = await service.getStations('guild1');
+
+            expect(stations).toEqual(radioConfig.defaultStations);
+            expect(stations[0]).not.toBe(radioConfig.defaultStations[0]);
+        });
+
+        it('should find stations regardless of case', async () => {
+            const station = await service.findStation('guild1', '  somafm groove salad ');
+
+            expect(station?.url).toBe('https://ice1.somafm.com/groovesalad-128-mp3');
+        });
+    });
+
+    describe('addStation', () => {
+        it('should add to a copy of the defaults and replace stations with the same name', async () => {
+            await service.addStation('guild1', 'Jazz FM', 'https://jazz.example.com/stream', 'Jazz');
+            const result = await service.addStation('guild1', 'jazz fm', 'https://jazz.example.com/hq');
+
+            const stations = await service.getStations('guild1');
+            expect(result.isOk()).toBe(true);
+            expect(stations).toHaveLength(radioConfig.defaultStations.length + 1);
+            expect(stations[stations.length - 1]).toEqual({ name: 'jazz fm', url: 'https://jazz.example.com/hq', genre: null });
+        });
+
+        it('should reject stream URLs pointing at internal hosts', async () => {
+            const local = await service.addStation('guild1', 'Sneaky', 'http://127.0.0.1:2333/stream');
+            const metadata = await service.addStation('guild1', 'Sneaky', 'http://169.254.169.254/latest');
+
+            expect(local.isErr()).toBe(true);
+            expect(metadata.error).toContain('not allowed');
+            expect(mockUpdateSetting).not.toHaveBeenCalled();
+        });
+
+        it('should stop at the station cap', async () => {
+            mockStored = Array.from({ length: radioConfig.maxStations }, (_, i) => ({ name: `S${i}`, url: `https://radio${i}.example.com/` }));
+
+            const result = await service.addStation('guild1', 'One more', 'https://more.example.com/');
+
+            expect(result.isErr()).toBe(true);
+        });
+    });
+
+    describe('removeStation / resetStations', () => {
+        it('should remove a preset and go back to the defaults on reset', async () => {
+            const removed = await service.removeStation('guild1', 'NTS Radio 1');
+            expect(removed.isOk()).toBe(true);
+            expect(await service.findStation('guild1', 'NTS Radio 1')).toBeNull();
+
+            await service.resetStations('guild1');
+            expect(await service.findStation('guild1', 'NTS Radio 1')).not.toBeNull();
+        });
+
+        it('should report unknown stations', async () => {
+            const result = await service.removeStation('guild1', 'Nope');
+
+            expect(result.isErr()).toBe(true);
+        });
+    });
+
+    describe('resolve', () => {
+        it('should label the stream with the preset name and genre', async () => {
+            mockLavalinkService.search.mockResolvedValue({
+                encoded: 'enc', url: 'https://jazz.example.com/stream', title: 'icecast mount', author: 'Unknown artist',
+                lengthSeconds: 0, isStream: true, source: 'http'
+            });
+            const requester = { id: 'u1', username: 'alice' };
+
+            const result = await service.resolve({ name: 'Jazz FM', url: 'https://jazz.example.com/stream', genre: 'Jazz' }, requester);
+
+            expect(result.data).toMatchObject({ title: 'Jazz FM', author: 'Jazz', isStream: true, encoded: 'enc', requestedBy: requester });
+        });
+
+        it('should fail softly when the stream is down', async () => {
+            mockLavalinkService.search.mockRejectedValue(new Error('NO_RESULTS'));
+
+            const result = await service.resolve({ name: 'Jazz FM', url: 'https://jazz.example.com/stream' }, { id: 'u1' });
+
+            expect(result.isErr()).toBe(true);
+            expect(result.error).toContain('Jazz FM');
+        });
+    });
+});
@@ -0,0 +1,164 @@
+/**
+ * MusicRequestChannelService Unit Tests
+ * Tests for loading the request channel, switching it and keeping its panel in place
+ */
+
+// Mock Logger
+jest.mock('../../../../src/core/observability/Logger', () => ({
+    __esModule: true,
+    default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const mockGuildSettings = {
+    getGuildSettings: jest.fn(),
+    setMusicChannel: jest.fn().mockResolvedValue(true),
+    updateSetting: jest.fn().mockResolvedValue(true),
+};
+
+jest.mock('../../../../src/services/guild/guildSettingsService', () => ({
+    __esModule: true,
+    default: mockGuildSettings,
+}));
+
+const mockDb = {
+    getMany: jest.fn().mockResolvedValue([]),
+};
+
+jest.mock('../../../../src/database/postgres', () => ({
+    __esModule: true,
+    default: mockDb,
+}));
+
+const mockQueueService = {
+    getTracks: jest.fn().mockReturnValue([]),
+    getLoopMode: jest.fn().mockReturnValue('off'),
+    isShuffled: jest.fn().mockReturnValue(false),
+    getVolume: jest.fn().mockReturnValue(100),
+};
+
+jest.mock('../../../../src/services/music/queue/index', () => ({
+    queueService: mockQueueService,
+}));
+
+jest.mock('../../../../src/handlers/music/trackEmbeds', () => ({
+    createQueueListEmbed: jest.fn(() => 'queue-embed'),
+    createRequestPanelIdleEmbed: jest.fn(() => 'idle-embed'),
+}));
+
+import { MusicRequestChannelService } from '../../../../src/services/music/core/musicRequestChannelService.js';
+import type { MusicNowPlayingManager } from '../../../../src/services/music/core/musicNowPlayingManager.js';
+
+function makeGuild(panel: { edit: jest.Mock; delete: jest.Mock } | null = null) {
+    const sent = { id: 'panel2', pin: jest.fn().mockResolvedValue(undefined) };
+    const channel = {
+        isTextBased: () => true,
+        send: jest.fn().mockResolvedValue(sent),
+        messages: { fetch: jest.fn(async () => { if (!panel) throw new Error('Unknown Message'); return panel; }) },
+    };
+    const guild = { id: 'guild1', channels: { cache: new Map([['chan1', channel]]) } };
+    return { guild: guild as never, channel, sent };
+}
+
+describe('MusicRequestChannelService', () => {
+    let service: MusicRequestChannelService;
+    const nowPlayingManager = { buildNowPlayingPayload: jest.fn() };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        service = new MusicRequestChannelService(nowPlayingManager as unknown as MusicNowPlayingManager);
+        nowPlayingManager.buildNowPlayingPayload.mockReturnValue(null);
+        mockQueueService.getTracks.mockReturnValue([]);
+        mockGuildSettings.getGuildSettings.mockResolvedValue({ music_channel: 'chan1', settings: { music_request_panel: 'panel1' } });
+    });
+
+    describe('getChannel', () => {
+        it('should load the channel and panel once, then answer from memory', async () => {
+            const first = await service.getChannel('guild1');
+            await service.getChannel('guild1');
+
+            expect(first).toEqual({ guildId: 'guild1', channelId: 'chan1', panelMessageId: 'panel1' });
+            expect(mockGuildSettings.getGuildSettings).toHaveBeenCalledTimes(1);
+        });
+
+        it('should remember guilds without a request channel', async () => {
+            mockGuildSettings.getGuildSettings.mockResolvedValue({ music_channel: null, settings: {} });
+
+            await expect(service.getChannel('guild1')).resolves.toBeNull();
+            await expect(service.getChannel('guild1')).resolves.toBeNull();
+            expect(mockGuildSettings.getGuildSettings).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('setChannel', () => {
+        it('should save the new channel and delete the old panel', async () => {
+            const oldPanel = { edit: jest.fn(), delete: jest.fn().mockResolvedValue(undefined) };
+            const { guild } = makeGuild(oldPanel);
+
+            await expect(service.setChannel(guild, 'chan2')).resolves.toBe(true);
+
+            expect(mockGuildSettings.setMusicChannel).toHaveBeenCalledWith('guild1', 'chan2');
+            expect(mockGuildSettings.updateSetting).toHaveBeenCalledWith('guild1', 'music_request_panel', null);
+            expect(oldPanel.delete).toHaveBeenCalled();
+            await expect(service.getChannel('guild1')).resolves.toEqual({ guildId: 'guild1', channelId: 'chan2', panelMessageId: null });
+        });
+
+        it('should keep the old channel when saving fails', async () => {
+            mockGuildSettings.setMusicChannel.mockResolvedValueOnce(false);
+            const { guild } = makeGuild();
+
+            await expect(service.setChannel(guild, null)).resolves.toBe(false);
+            await expect(service.getChannel('guild1')).resolves.toMatchObject({ channelId: 'chan1' });
+        });
+    });
+
+    describe('renderPanel', () => {
+        it('should edit the existing panel', async () => {
+            const panel = { edit: jest.fn().mockResolvedValue(undefined), delete: jest.fn() };
+            const { guild, channel } = makeGuild(panel);
+
+            await service.renderPanel(guild);
+
+            expect(panel.edit).toHaveBeenCalledWith({ embeds: ['idle-embed'], components: [] });
+            expect(channel.send).not.toHaveBeenCalled();
+        });
+
+        it('should send, pin and remember a new panel when the old one is gone', async () => {
+            const { guild, channel, sent } = makeGuild(null);
+
+            await service.renderPanel(guild);
+
+            expect(channel.send).toHaveBeenCalled();
+            expect(sent.pin).toHaveBeenCalled();
+            expect(mockGuildSettings.updateSetting).toHaveBeenCalledWith('guild1', 'music_request_panel', 'panel2');
+            await expect(service.getChannel('guild1')).resolves.toMatchObject({ panelMessageId: 'panel2' });
+        });
+    });
+
+    describe('buildPanel', () => {
+        it('should put the queue above the now-playing embed while tracks are up next', () => {
+            nowPlayingManager.buildNowPlayingPayload.mockReturnValue({ embeds: ['np-embed'], components: ['controls'] });
+            mockQueueService.getTracks.mockReturnValue([{ title: 'Next' }]);
+            const { guild } = makeGuild();
+
+            expect(service.buildPanel(guild)).toEqual({ embeds: ['queue-embed', 'np-embed'], components: ['controls'] });
+        });
+    });
+
+    describe('scheduleUpdate', () => {
+        it('should fold a burst of changes into one render', async () => {
+            jest.useFakeTimers();
+            const { guild } = makeGuild();
+            await service.getChannel('guild1');
+            const render = jest.spyOn(service, 'renderPanel').mockResolvedValue(undefined);
+
+            service.scheduleUpdate(guild);
+            service.scheduleUpdate(guild);
+            service.scheduleUpdate(guild);
+            jest.runOnlyPendingTimers();
+
+            expect(render).toHaveBeenCalledTimes(1);
+            service.stopAll();
+            jest.useRealTimers();
+        });
+    });
+});
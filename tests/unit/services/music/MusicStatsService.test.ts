@@ -0,0 +1,174 @@
+/**
+ * MusicStatsService Unit Tests
+ * Tests for period ranges, month boundaries and the monthly report schedule
+ */
+
+// Mock Logger
+jest.mock('../../../../src/core/observability/Logger', () => ({
+    __esModule: true,
+    default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const mockRepository = {
+    getSummary: jest.fn(),
+    recordPlay: jest.fn().mockResolvedValue(true),
+};
+
+jest.mock('../../../../src/repositories/music/musicStatsRepository', () => ({
+    __esModule: true,
+    default: mockRepository,
+}));
+
+const mockSettings = {
+    getSetting: jest.fn(),
+    updateSetting: jest.fn().mockResolvedValue(true),
+};
+
+jest.mock('../../../../src/services/guild/guildSettingsService', () => ({
+    __esModule: true,
+    default: mockSettings,
+}));
+
+const mockDb = {
+    getMany: jest.fn(),
+};
+
+jest.mock('../../../../src/database/postgres', () => ({
+    __esModule: true,
+    default: mockDb,
+}));
+
+import { MusicStatsService } from '../../../../src/services/music/core/musicStatsService.js';
+import type { MusicStatsSummary } from '../../../../src/types/music/stats.js';
+
+function summary(plays: number): MusicStatsSummary {
+    return {
+        plays, uniqueTracks: plays, listeners: 2, requesters: 1, listenedSeconds: plays * 200,
+        topTracks: [], topArtists: [], topRequesters: [], hourly: new Array(24).fill(0),
+    };
+}
+
+describe('MusicStatsService', () => {
+    let service: MusicStatsService;
+    const now = new Date('2026-10-01T09:00:00Z');
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        service = new MusicStatsService();
+        mockRepository.getSummary.mockResolvedValue(summary(3));
+    });
+
+    describe('recordPlay', () => {
+        it('should store the requester and the members in voice', async () => {
+            const track = {
+                url: 'https://example.com/a', title: 'Song', author: 'Artist', lengthSeconds: 200,
+                requestedBy: { id: 'req1' },
+            } as any;
+
+            await service.recordPlay('guild1', track, ['req1', 'listener2']);
+
+            expect(mockRepository.recordPlay).toHaveBeenCalledWith({
+                guildId: 'guild1', url: 'https://example.com/a', title: 'Song', author: 'Artist',
+                duration: 200, requestedBy: 'req1', listenerIds: ['req1', 'listener2'],
+            });
+        });
+
+        it('should skip tracks without a URL', async () => {
+            await service.recordPlay('guild1', { url: '', title: 'Song' } as any, []);
+
+            expect(mockRepository.recordPlay).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('getReport', () => {
+        it('should scope the report to the rolling period', async () => {
+            const result = await service.getReport('guild1', 'week', 'user1', now);
+
+            expect(result.data!.label).toBe('Last 7 days');
+            expect(mockRepository.getSummary).toHaveBeenCalledWith({
+                guildId: 'guild1',
+                userId: 'user1',
+                since: new Date('2026-09-24T09:00:00Z'),
+                until: now,
+            }, 5);
+        });
+
+        it('should not bound all-time reports', async () => {
+            const result = await service.getReport('guild1', 'all', null, now);
+
+            expect(result.data!.filter.since).toBeNull();
+        });
+
+        it('should fail when the stats cannot be loaded', async () => {
+            mockRepository.getSummary.mockResolvedValue(null);
+
+            const result = await service.getReport('guild1', 'month');
+
+            expect(result.isErr()).toBe(true);
+        });
+    });
+
+    describe('getMonthReport', () => {
+        it('should cover the whole calendar month', async () => {
+            const result = await service.getMonthReport('guild1', new Date('2026-09-17T12:00:00Z'));
+
+            expect(result.data!.label).toBe('September 2026');
+            expect(result.data!.filter.since).toEqual(new Date('2026-09-01T00:00:00Z'));
+            expect(result.data!.filter.until).toEqual(new Date('2026-10-01T00:00:00Z'));
+        });
+    });
+
+    describe('setReportChannel', () => {
+        it('should treat the month that just ended as already reported', async () => {
+            await service.setReportChannel('guild1', 'chan1', new Date('2026-10-19T00:00:00Z'));
+
+            expect(mockSettings.updateSetting).toHaveBeenCalledWith('guild1', 'music_stats_report', {
+                channelId: 'chan1',
+                lastReport: '2026-09',
+            });
+        });
+    });
+
+    describe('runMonthlyReports', () => {
+        it('should post last month once per guild', async () => {
+            mockDb.getMany.mockResolvedValue([
+                { guild_id: 'guild1', state: { channelId: 'chan1', lastReport: '2026-08' } },
+                { guild_id: 'guild2', state: { channelId: 'chan2', lastReport: '2026-09' } },
+            ]);
+            const send = jest.fn().mockResolvedValue(true);
+
+            const posted = await service.runMonthlyReports(send, now);
+
+            expect(posted).toBe(1);
+            expect(send).toHaveBeenCalledWith('guild1', 'chan1', expect.objectContaining({ label: 'September 2026' }));
+            expect(mockSettings.updateSetting).toHaveBeenCalledWith('guild1', 'music_stats_report', {
+                channelId: 'chan1',
+                lastReport: '2026-09',
+            });
+        });
+
+        it('should retry later when the report could not be sent', async () => {
+            mockDb.getMany.mockResolvedValue([{ guild_id: 'guild1', state: { channelId: 'chan1', lastReport: null } }]);
+            const send = jest.fn().mockRejectedValue(new Error('Missing Access'));
+
+            const posted = await service.runMonthlyReports(send, now);
+
+            expect(posted).toBe(0);
+            expect(mockSettings.updateSetting).not.toHaveBeenCalled();
+        });
+
+        it('should skip quiet months without posting', async () => {
+            mockRepository.getSummary.mockResolvedValue(summary(0));
+            mockDb.getMany.mockResolvedValue([{ guild_id: 'guild1', state: { channelId: 'chan1', lastReport: null } }]);
+            const send = jest.fn();
+
+            await service.runMonthlyReports(send, now);
+
+            expect(send).not.toHaveBeenCalled();
+            expect(mockSettings.updateSetting).toHaveBeenCalledWith('guild1', 'music_stats_report', {
+                channelId: 'chan1',
+                lastReport: '2026-09',
+            });
+        });
+    });
+});
@@ -0,0 +1,128 @@
+/**
+ * MusicTwentyFourSevenService Unit Tests
+ * Tests for 24/7 state storage, the cache flag and loading enabled guilds
+ */
+
+// Mock Logger
+jest.mock('../../../../src/core/observability/Logger', () => ({
+    __esModule: true,
+    default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+// Mock GuildSettingsService with an in-memory settings JSONB
+let storedSettings: Record<string, unknown>;
+
+const mockGuildSettingsService = {
+    getSetting: jest.fn(async (_guildId: string, key: string, defaultValue: unknown) => storedSettings[key] ?? defaultValue),
+    updateSetting: jest.fn(async (_guildId: string, key: string, value: unknown) => {
+        storedSettings = { ...storedSettings, [key]: value };
+        return true;
+    }),
+};
+
+jest.mock('../../../../src/services/guild/guildSettingsService', () => ({
+    __esModule: true,
+    default: mockGuildSettingsService,
+}));
+
+// Mock music cache guild settings
+const cacheFlags = new Map<string, boolean>();
+
+jest.mock('../../../../src/cache/music/MusicCacheFacade', () => ({
+    __esModule: true,
+    default: {
+        getGuildSettings: jest.fn((guildId: string) => ({ twentyFourSeven: cacheFlags.get(guildId) ?? false })),
+        setGuildSettings: jest.fn((guildId: string, settings: { twentyFourSeven?: boolean }) => {
+            if (settings.twentyFourSeven !== undefined) cacheFlags.set(guildId, settings.twentyFourSeven);
+        }),
+    },
+}));
+
+const mockGetMany = jest.fn();
+
+jest.mock('../../../../src/database/postgres', () => ({
+    __esModule: true,
+    default: { getMany: (...args: unknown[]) => mockGetMany(...args) },
+}));
+
+import { MusicTwentyFourSevenService } from '../../../../src/services/music/core/musicTwentyFourSevenService.js';
+
+describe('MusicTwentyFourSevenService', () => {
+    let service: MusicTwentyFourSevenService;
+    const guildId = 'guild1';
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        storedSettings = {};
+        cacheFlags.clear();
+        service = new MusicTwentyFourSevenService();
+    });
+
+    describe('getState', () => {
+        it('should default to disabled', async () => {
+            const state = await service.getState(guildId);
+
+            expect(state).toEqual({ enabled: false, voiceChannelId: null, textChannelId: null });
+            expect(service.isEnabled(guildId)).toBe(false);
+        });
+
+        it('should warm the cache flag from stored settings', async () => {
+            storedSettings.music_247 = { enabled: true, voiceChannelId: 'vc1', textChannelId: 'tc1' };
+
+            const state = await service.getState(guildId);
+
+            expect(state.voiceChannelId).toBe('vc1');
+            expect(service.isEnabled(guildId)).toBe(true);
+        });
+    });
+
+    describe('enable / disable', () => {
+        it('should save the channels and set the cache flag', async () => {
+            const saved = await service.enable(guildId, 'vc1', 'tc1');
+
+            expect(saved).toBe(true);
+            expect(storedSettings.music_247).toEqual({ enabled: true, voiceChannelId: 'vc1', textChannelId: 'tc1' });
+            expect(service.isEnabled(guildId)).toBe(true);
+        });
+
+        it('should clear the saved channels when disabled', async () => {
+            await service.enable(guildId, 'vc1', 'tc1');
+            await service.disable(guildId);
+
+            expect(storedSettings.music_247).toEqual({ enabled: false, voiceChannelId: null, textChannelId: null });
+            expect(service.isEnabled(guildId)).toBe(false);
+        });
+
+        it('should leave the cache flag alone when saving fails', async () => {
+            mockGuildSettingsService.updateSetting.mockResolvedValueOnce(false);
+
+            const saved = await service.enable(guildId, 'vc1', null);
+
+            expect(saved).toBe(false);
+            expect(service.isEnabled(guildId)).toBe(false);
+        });
+    });
+
+    describe('getEnabledGuilds', () => {
+        it('should return enabled guilds and flag them in the cache', async () => {
+            mockGetMany.mockResolvedValue([
+                { guild_id: 'guild1', state: { enabled: true, voiceChannelId: 'vc1', textChannelId: 'tc1' } },
+                { guild_id: 'guild2', state: { enabled: true, voiceChannelId: 'vc2' } },
+            ]);
+
+            const guilds = await service.getEnabledGuilds();
+
+            expect(guilds).toEqual([
+                { guildId: 'guild1', enabled: true, voiceChannelId: 'vc1', textChannelId: 'tc1' },
+                { guildId: 'guild2', enabled: true, voiceChannelId: 'vc2', textChannelId: null },
+            ]);
+            expect(service.isEnabled('guild2')).toBe(true);
+        });
+
+        it('should return an empty list when the query fails', async () => {
+            mockGetMany.mockRejectedValue(new Error('connection refused'));
+
+            await expect(service.getEnabledGuilds()).resolves.toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,132 @@
+/**
+ * MusicVoteManager Unit Tests
+ * Tests for per-guild vote rules and votes on stop, clear, shuffle and remove
+ */
+
+// Mock Logger
+jest.mock('../../../../src/core/observability/Logger', () => ({
+    __esModule: true,
+    default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+let mockStored: unknown = null;
+const mockUpdateSetting = jest.fn(async (_guildId: string, _key: string, value: unknown) => {
+    mockStored = value;
+    return true;
+});
+
+jest.mock('../../../../src/services/guild/guildSettingsService', () => ({
+    __esModule: true,
+    default: {
+        getSetting: jest.fn(async (_guildId: string, _key: string, fallback: unknown) => mockStored ?? fallback),
+        updateSetting: (guildId: string, key: string, value: unknown) => mockUpdateSetting(guildId, key, value),
+    },
+}));
+
+const mockEmitEvent = jest.fn();
+
+jest.mock('../../../../src/services/music/events/index', () => ({
+    __esModule: true,
+    musicEventBus: { emitEvent: (...args: unknown[]) => mockEmitEvent(...args) },
+    MusicEvents: { SKIPVOTE_START: 'skipvote:start', SKIPVOTE_ADD: 'skipvote:add', VOTE_START: 'vote:start', VOTE_ADD: 'vote:add' },
+}));
+
+import { MusicVoteManager } from '../../../../src/services/music/core/musicVoteManager.js';
+import musicCache from '../../../../src/cache/music/MusicCacheFacade.js';
+import { voting as votingConfig } from '../../../../src/config/features/music.js';
+
+describe('MusicVoteManager', () => {
+    let manager: MusicVoteManager;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        manager = new MusicVoteManager();
+        mockStored = null;
+    });
+
+    afterEach(() => {
+        musicCache.voteCache.cleanupGuild('guild1');
+    });
+
+    afterAll(() => {
+        musicCache.shutdown();
+    });
+
+    describe('rules', () => {
+        it('should use the configured defaults for every action', async () => {
+            const rules = await manager.getRules('guild1');
+
+            expect(Object.keys(rules)).toEqual(['skip', 'stop', 'clear', 'shuffle', 'remove']);
+            expect(rules.stop).toEqual({ threshold: votingConfig.votePercentage, timeoutSeconds: votingConfig.timeoutSeconds });
+        });
+
+        it('should keep each action\'s rule separate', async () => {
+            await manager.setRule('guild1', 'stop', 75, 30);
+
+            expect(await manager.getRule('guild1', 'stop')).toEqual({ threshold: 0.75, timeoutSeconds: 30 });
+            expect((await manager.getRule('guild1', 'clear')).threshold).toBe(votingConfig.votePercentage);
+        });
+
+        it('should reject thresholds and timeouts out of range', async () => {
+            const tooLow = await manager.setRule('guild1', 'clear', votingConfig.thresholdPercent.min - 1, 30);
+            const tooLong = await manager.setRule('guild1', 'clear', 50, votingConfig.timeoutRange.max + 1);
+            const fractional = await manager.setRule('guild1', 'clear', 50.5, 30);
+
+            expect(tooLow.isErr()).toBe(true);
+            expect(tooLong.isErr()).toBe(true);
+            expect(fractional.isErr()).toBe(true);
+            expect(mockUpdateSetting).not.toHaveBeenCalled();
+        });
+
+        it('should go back to the defaults on reset', async () => {
+            await manager.setRule('guild1', 'shuffle', 90, 60);
+            await manager.resetRules('guild1');
+
+            expect((await manager.getRule('guild1', 'shuffle')).timeoutSeconds).toBe(votingConfig.timeoutSeconds);
+        });
+    });
+
+    describe('requiredVotes', () => {
+        it('should round up and never ask for fewer than one vote', () => {
+            expect(manager.requiredVotes({ threshold: 0.6, timeoutSeconds: 15 }, 5)).toBe(3);
+            expect(manager.requiredVotes({ threshold: 0.1, timeoutSeconds: 15 }, 2)).toBe(1);
+            expect(manager.requiredVotes({ threshold: 1, timeoutSeconds: 15 }, 7)).toBe(7);
+        });
+    });
+
+    describe('action votes', () => {
+        it('should size and time the vote from the action\'s rule', async () => {
+            await manager.setRule('guild1', 'clear', 50, 40);
+            const before = Date.now();
+
+            const result = await manager.startVote('guild1', 'clear', 'u1', 6);
+            const session = manager.getVote('guild1', 'clear');
+
+            expect(result).toMatchObject({ voteCount: 1, required: 3 });
+            expect(session?.expiresAt).toBeGreaterThanOrEqual(before + 40000);
+        });
+
+        it('should pass once enough distinct listeners agree', async () => {
+            await manager.setRule('guild1', 'shuffle', 50, 30);
+            await manager.startVote('guild1', 'shuffle', 'u1', 4);
+
+            expect(manager.addVote('guild1', 'shuffle', 'u1')?.added).toBe(false);
+            expect(manager.hasEnoughVotes('guild1', 'shuffle')).toBe(false);
+
+            manager.addVote('guild1', 'shuffle', 'u2');
+            expect(manager.hasEnoughVotes('guild1', 'shuffle')).toBe(true);
+            expect(mockEmitEvent).toHaveBeenCalledTimes(2);
+        });
+
+        it('should keep votes on different actions apart', async () => {
+            const target = { position: 2, title: 'Song', url: 'https://example.com/song', requesterId: 'u9' };
+            await manager.startVote('guild1', 'remove', 'u1', 5, target);
+            await manager.startVote('guild1', 'stop', 'u2', 5);
+
+            manager.endVote('guild1', 'stop');
+
+            expect(manager.getVote('guild1', 'stop')).toBeNull();
+            expect(manager.getVote('guild1', 'remove')?.target).toEqual(target);
+        });
+    });
+});
@@ -0,0 +1,117 @@
+/**
+ * PlaybackEventHandler Unit Tests
+ * Tests for the sleep timer checks at track end and when its clock runs out
+ */
+
+// Mock Logger
+jest.mock('../../../../src/core/observability/Logger', () => ({
+    __esModule: true,
+    default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const mockMusicEventBus = {
+    subscribe: jest.fn().mockReturnValue(() => {}),
+    emitEvent: jest.fn(),
+};
+
+jest.mock('../../../../src/services/music/events/musicEventBus', () => ({
+    __esModule: true,
+    default: mockMusicEventBus,
+}));
+
+const mockMusicCache = {
+    getQueue: jest.fn(),
+};
+
+jest.mock('../../../../src/cache/music/MusicCacheFacade', () => ({
+    __esModule: true,
+    default: mockMusicCache,
+}));
+
+const mockTrackHandler = {
+    createInfoEmbed: jest.fn().mockReturnValue({ fields: [] }),
+};
+
+jest.mock('../../../../src/handlers/music/trackHandler', () => ({
+    __esModule: true,
+    default: mockTrackHandler,
+}));
+
+import { PlaybackEventHandler } from '../../../../src/services/music/events/playbackEventHandler.js';
+import MusicEvents from '../../../../src/services/music/events/musicEvents.js';
+
+function makeQueue(sleepTimer: Record<string, unknown> | null): any {
+    return {
+        currentTrack: { title: 'Song', url: 'https://yt.com/song' },
+        sleepTimer,
+        sleepTimerTimeout: null,
+        textChannel: { send: jest.fn().mockResolvedValue(undefined) },
+    };
+}
+
+describe('PlaybackEventHandler', () => {
+    let handler: PlaybackEventHandler;
+    let consume: (guildId: string) => boolean;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        handler = new PlaybackEventHandler();
+        consume = (handler as any)._consumeSleepTimer.bind(handler);
+    });
+
+    describe('_consumeSleepTimer', () => {
+        afterEach(() => jest.useRealTimers());
+
+        it('should do nothing without a timer', () => {
+            mockMusicCache.getQueue.mockReturnValue(makeQueue(null));
+            expect(consume('guild1')).toBe(false);
+        });
+
+        it('should count finished tracks down and stop on the last one', () => {
+            const queue = makeQueue({ tracksLeft: 2, endsAt: null, setBy: 'user1' });
+            mockMusicCache.getQueue.mockReturnValue(queue);
+
+            expect(consume('guild1')).toBe(false);
+            expect(queue.sleepTimer.tracksLeft).toBe(1);
+            expect(consume('guild1')).toBe(true);
+            expect(queue.sleepTimer).toBeNull();
+        });
+
+        it('should stop once the clock has passed', () => {
+            const queue = makeQueue({ tracksLeft: null, endsAt: Date.now() - 1, setBy: 'user1' });
+            mockMusicCache.getQueue.mockReturnValue(queue);
+            expect(consume('guild1')).toBe(true);
+        });
+
+        it('should cancel the pending clock when tracks run out first', () => {
+            jest.useFakeTimers();
+            const onExpire = jest.fn();
+            const queue = makeQueue({ tracksLeft: 1, endsAt: Date.now() + 60_000, setBy: 'user1' });
+            queue.sleepTimerTimeout = setTimeout(onExpire, 60_000);
+            mockMusicCache.getQueue.mockReturnValue(queue);
+
+            expect(consume('guild1')).toBe(true);
+            expect(queue.sleepTimerTimeout).toBeNull();
+            jest.advanceTimersByTime(60_000);
+            expect(onExpire).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('expireSleepTimer', () => {
+        it('should announce the stop and hand it to the facade', async () => {
+            const queue = makeQueue({ tracksLeft: null, endsAt: Date.now(), setBy: 'user1' });
+            mockMusicCache.getQueue.mockReturnValue(queue);
+
+            await handler.expireSleepTimer('guild1');
+            expect(queue.sleepTimer).toBeNull();
+            expect(queue.textChannel.send).toHaveBeenCalled();
+            expect(mockMusicEventBus.emitEvent).toHaveBeenCalledWith(MusicEvents.SLEEP_TIMER_END, { guildId: 'guild1', track: queue.currentTrack });
+        });
+
+        it('should ignore a timer that was already cancelled', async () => {
+            mockMusicCache.getQueue.mockReturnValue(makeQueue(null));
+            await handler.expireSleepTimer('guild1');
+            expect(mockMusicEventBus.emitEvent).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -319,6 +319,13 @@ describe('PlaybackService', () => {
             expect(result.data?.position).toBe(120000);
         });
 
+        it('should fall back to lengthSeconds when info.length is missing', async () => {
+            const track = { ...makeTrack('Song'), info: { title: 'Song' }, lengthSeconds: 90 };
+            mockQueueService.getCurrentTrack.mockReturnValue(track);
+            const result = await playbackService.seek('guild1', 500000);
+            expect(result.data?.position).toBe(90000);
+        });
+
         it('should clamp negative position to 0', async () => {
             mockQueueService.getCurrentTrack.mockReturnValue(makeTrack('Song'));
             const result = await playbackService.seek('guild1', -5000);
@@ -0,0 +1,189 @@
+/**
+ * Recommendation Engine Unit Tests
+ * Tests for autoplay signals, queries, constraints and seeded scoring
+ */
+
+import {
+    buildQueries,
+    buildSignals,
+    createSeededRandom,
+    getCoOccurringArtists,
+    isEligible,
+    pickCandidate,
+    scoreCandidates,
+} from '../../../../src/services/music/autoplay/recommendationEngine.js';
+import type { AutoPlayContext, AutoPlayMode, ListeningEntry } from '../../../../src/types/music/autoplay.js';
+
+function entry(title: string, author: string, duration = 200): ListeningEntry {
+    return { url: `https://youtube.com/watch?v=${title.replace(/\s/g, '')}`, title, author, duration };
+}
+
+function makeContext(mode: AutoPlayMode, overrides: Partial<AutoPlayContext> = {}): AutoPlayContext {
+    return {
+        mode,
+        seedTitle: 'Seed Song',
+        seedArtist: 'alpha',
+        seedDuration: 200,
+        recentTitles: [],
+        recentArtists: [],
+        signals: buildSignals(
+            [[entry('A1', 'Alpha'), entry('B1', 'Beta'), entry('A2', 'Alpha'), entry('G1', 'Gamma')]],
+            [[entry('Fav One', 'Delta'), entry('Fav Two', 'Beta')]],
+            ['Epsilon', 'Beta']
+        ),
+        ...overrides,
+    };
+}
+
+describe('RecommendationEngine', () => {
+    describe('createSeededRandom', () => {
+        it('should repeat the same sequence for the same seed', () => {
+            const a = createSeededRandom(42);
+            const b = createSeededRandom(42);
+
+            const seqA = [a(), a(), a()];
+            expect([b(), b(), b()]).toEqual(seqA);
+            seqA.forEach(n => expect(n).toBeGreaterThanOrEqual(0));
+            seqA.forEach(n => expect(n).toBeLessThan(1));
+        });
+
+        it('should differ between seeds', () => {
+            expect(createSeededRandom(1)()).not.toBe(createSeededRandom(2)());
+        });
+    });
+
+    describe('buildSignals', () => {
+        it('should link artists played back to back', () => {
+            const signals = makeContext('similar').signals;
+
+            expect(signals.artistGraph.get('alpha')?.get('beta')).toBe(2);
+            expect(getCoOccurringArtists(signals, 'alpha')).toEqual(['beta', 'gamma']);
+        });
+
+        it('should count history and favourite artists', () => {
+            const signals = makeContext('similar').signals;
+
+            expect(signals.historyArtists.get('alpha')).toBe(2);
+            expect(signals.favoriteArtists.get('delta')).toBe(1);
+            expect(signals.relatedArtists).toEqual(['epsilon', 'beta']);
+        });
+
+        it('should merge duplicate favourites across listeners', () => {
+            const fav = entry('Shared', 'Delta');
+            const signals = buildSignals([], [[fav], [fav]]);
+
+            expect(signals.favorites).toHaveLength(1);
+            expect(signals.favoriteArtists.get('delta')).toBe(2);
+        });
+    });
+
+    describe('buildQueries', () => {
+        it('should start from co-occurring artists in similar mode', () => {
+            const queries = buildQueries(makeContext('similar'), createSeededRandom(1));
+
+            expect(queries[0]).toBe('beta songs');
+            expect(queries).toContain('alpha songs');
+        });
+
+        it('should only use unheard related artists in discovery mode', () => {
+            const queries = buildQueries(makeContext('discovery'), createSeededRandom(1));
+
+            expect(queries).toContain('epsilon songs');
+            expect(queries).not.toContain('beta songs');
+        });
+
+        it('should stick to the seed artist in artist mode', () => {
+            const queries = buildQueries(makeContext('artist'), createSeededRandom(1));
+
+            queries.forEach(q => expect(q.startsWith('alpha')).toBe(true));
+        });
+
+        it('should not search in favourites mode', () => {
+            expect(buildQueries(makeContext('favorites'), createSeededRandom(1))).toEqual([]);
+        });
+    });
+
+    describe('isEligible', () => {
+        const ctx = makeContext('similar', { recentTitles: ['Played Before'] });
+
+        it('should reject the seed and recently played tracks', () => {
+            expect(isEligible(entry('Seed Song', 'Beta'), ctx)).toBe(false);
+            expect(isEligible(entry('Played Before', 'Beta'), ctx)).toBe(false);
+        });
+
+        it('should enforce duration limits', () => {
+            expect(isEligible(entry('Too Short', 'Beta', 30), ctx)).toBe(false);
+            expect(isEligible(entry('Too Long', 'Beta', 3600), ctx)).toBe(false);
+            expect(isEligible(entry('Just Right', 'Beta', 200), ctx)).toBe(true);
+        });
+
+        it('should reject compilations and non-music', () => {
+            expect(isEligible(entry('Best Of Mix', 'Beta'), ctx)).toBe(false);
+            expect(isEligible(entry('Album Reaction', 'Beta'), ctx)).toBe(false);
+        });
+
+        it('should only allow the seed artist in artist mode', () => {
+            const artistCtx = makeContext('artist');
+
+            expect(isEligible(entry('Other', 'Beta'), artistCtx)).toBe(false);
+            expect(isEligible(entry('Other', 'Alpha'), artistCtx)).toBe(true);
+        });
+    });
+
+    describe('scoreCandidates', () => {
+        const candidates = [
+            entry('Same Artist Song', 'Alpha'),
+            entry('Related Song', 'Beta'),
+            entry('Stranger Song', 'Zeta'),
+        ];
+
+        it('should be deterministic for a seed', () => {
+            const ctx = makeContext('similar');
+            const first = scoreCandidates(candidates, c => c, ctx, createSeededRandom(7));
+            const second = scoreCandidates(candidates, c => c, ctx, createSeededRandom(7));
+
+            expect(second).toEqual(first);
+            expect(pickCandidate(second, createSeededRandom(7))).toEqual(pickCandidate(first, createSeededRandom(7)));
+        });
+
+        it('should prefer co-occurring related artists in similar mode', () => {
+            const scored = scoreCandidates(candidates, c => c, makeContext('similar'), () => 0);
+
+            expect(scored[0]!.track.title).toBe('Related Song');
+        });
+
+        it('should prefer the seed artist in artist mode', () => {
+            const scored = scoreCandidates(candidates, c => c, makeContext('artist'), () => 0);
+
+            expect(scored[0]!.track.title).toBe('Same Artist Song');
+        });
+
+        it('should penalise recently picked artists', () => {
+            const ctx = makeContext('similar', { recentArtists: ['beta'] });
+            const related = scoreCandidates(candidates, c => c, ctx, () => 0)
+                .find(s => s.track.title === 'Related Song')!;
+            const baseline = scoreCandidates(candidates, c => c, makeContext('similar'), () => 0)
+                .find(s => s.track.title === 'Related Song')!;
+
+            expect(related.score).toBe(baseline.score - 8);
+        });
+    });
+
+    describe('pickCandidate', () => {
+        it('should return null for no candidates', () => {
+            expect(pickCandidate([], createSeededRandom(1))).toBeNull();
+        });
+
+        it('should only pick from the top N', () => {
+            const scored = [
+                { track: 'a', artist: 'a', score: 10 },
+                { track: 'b', artist: 'b', score: 9 },
+                { track: 'c', artist: 'c', score: 8 },
+            ];
+
+            for (let seed = 0; seed < 20; seed++) {
+                expect(['a', 'b']).toContain(pickCandidate(scored, createSeededRandom(seed), 2)!.track);
+            }
+        });
+    });
+});
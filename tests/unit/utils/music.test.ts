@@ -0,0 +1,81 @@
+/**
+ * Music Utilities Unit Tests
+ * Tests for time parsing, filter and lyrics helpers
+ */
+
+import { parseSeekInput, createFilterState, buildLavalinkFilters, describeFilters, parseLrc, findLyricIndex } from '../../../src/utils/music/index.js';
+
+describe('parseSeekInput', () => {
+    it('should parse plain seconds', () => {
+        expect(parseSeekInput('83')).toEqual({ seconds: 83, relative: false });
+    });
+
+    it('should parse m:ss and h:mm:ss', () => {
+        expect(parseSeekInput('1:23')).toEqual({ seconds: 83, relative: false });
+        expect(parseSeekInput('1:02:03')).toEqual({ seconds: 3723, relative: false });
+    });
+
+    it('should parse relative offsets', () => {
+        expect(parseSeekInput('+30')).toEqual({ seconds: 30, relative: true });
+        expect(parseSeekInput('-15')).toEqual({ seconds: -15, relative: true });
+        expect(parseSeekInput('+1:00')).toEqual({ seconds: 60, relative: true });
+    });
+
+    it('should reject invalid input', () => {
+        expect(parseSeekInput('abc')).toBeNull();
+        expect(parseSeekInput('1:75')).toBeNull();
+        expect(parseSeekInput('1:2:3:4')).toBeNull();
+        expect(parseSeekInput('')).toBeNull();
+    });
+});
+
+describe('filter helpers', () => {
+    it('should build an empty payload for a flat state', () => {
+        expect(buildLavalinkFilters(createFilterState())).toEqual({});
+        expect(describeFilters(createFilterState())).toBeNull();
+    });
+
+    it('should send all 15 bands when the equalizer is used', () => {
+        const payload = buildLavalinkFilters(createFilterState('bassboost'));
+        expect(payload.equalizer).toHaveLength(15);
+        expect(payload.equalizer![0]).toEqual({ band: 0, gain: 0.25 });
+    });
+
+    it('should describe presets and manual changes', () => {
+        const state = createFilterState('nightcore');
+        expect(describeFilters(state)).toBe('🌙 Nightcore');
+
+        state.timescale.speed = 1.5;
+        state.equalizer[3] = 0.1;
+        expect(describeFilters(state)).toBe('🌙 Nightcore • Custom EQ • Speed 1.5x');
+    });
+});
+
+describe('parseLrc', () => {
+    it('should parse timestamps with hundredths and milliseconds', () => {
+        expect(parseLrc('[00:01.50]One\n[01:02.123]Two')).toEqual([
+            { time: 1500, text: 'One' },
+            { time: 62123, text: 'Two' },
+        ]);
+    });
+
+    it('should expand repeated timestamps and skip metadata', () => {
+        const lines = parseLrc('[ar:Artist]\n[ti:Song]\n[00:10.00][00:30.00]Chorus\n[00:20.00]Verse');
+        expect(lines.map(l => l.text)).toEqual(['Chorus', 'Verse', 'Chorus']);
+        expect(lines.map(l => l.time)).toEqual([10000, 20000, 30000]);
+    });
+});
+
+describe('findLyricIndex', () => {
+    const lines = parseLrc('[00:01.00]A\n[00:05.00]B\n[00:09.00]C');
+
+    it('should return -1 before the first line', () => {
+        expect(findLyricIndex(lines, 500)).toBe(-1);
+    });
+
+    it('should return the last line that has started', () => {
+        expect(findLyricIndex(lines, 1000)).toBe(0);
+        expect(findLyricIndex(lines, 8999)).toBe(1);
+        expect(findLyricIndex(lines, 60000)).toBe(2);
+    });
+});